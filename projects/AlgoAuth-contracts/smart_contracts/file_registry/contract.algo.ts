@@ -1,29 +1,70 @@
 import type { uint64 } from '@algorandfoundation/algorand-typescript'
-import { Contract, GlobalState, BoxMap, abimethod, Txn, Global, assert, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { Account, arc4, clone, Contract, emit, gtxn, GlobalState, BoxMap, abimethod, itxn, Txn, Global, assert, Uint64 } from '@algorandfoundation/algorand-typescript'
+import type { GroupRegistry } from '../group_registry/contract.algo'
+
+// A registered file. `payer` paid the box MBR and is refunded when the file is
+// deleted, up to the `deposit` they paid in; it is the zero address when the app
+// paid (imported files, refunds done).
+export class FileRecord extends arc4.Struct<{
+    owner: arc4.Address
+    cid: arc4.Str
+    name: arc4.Str
+    groupId: arc4.Uint64
+    createdAt: arc4.Uint64
+    updatedAt: arc4.Uint64
+    versionCount: arc4.Uint64
+    isDeleted: arc4.Bool
+    share1: arc4.Str
+    share2: arc4.Str
+    share3: arc4.Str
+    payer: arc4.Address
+    deposit: arc4.Uint64
+}> {}
+
+// One entry of a file's append-only version history; version 1 is the registered CID.
+// The uploader paid `deposit` for the box and gets it back when it is purged.
+export class FileVersion extends arc4.Struct<{
+    cid: arc4.Str
+    uploader: arc4.Address
+    createdAt: arc4.Uint64
+    deposit: arc4.Uint64
+}> {}
+
+// A user's grant on a file. expiresAt is a unix timestamp, 0 = never.
+export class AccessGrant extends arc4.Struct<{
+    permission: arc4.Str
+    wrappedKey: arc4.Str
+    grantedAt: arc4.Uint64
+    expiresAt: arc4.Uint64
+    payer: arc4.Address
+    deposit: arc4.Uint64
+}> {}
+
+// Grants are keyed by file and grantee account
+type GrantKey = { fileId: uint64; user: Account }
+
+// ARC-28 events, logged by every call that changes a file, a grant or a public
+// key. The server's audit log is read back from them; imports emit none.
+type FileRegistered = { fileId: uint64; owner: Account; groupId: uint64; cid: string }
+type FileUpdated = { fileId: uint64; editor: Account; version: uint64; cid: string }
+type FileDeleted = { fileId: uint64; owner: Account }
+type AccessGranted = { fileId: uint64; grantor: Account; user: Account; permission: string; expiresAt: uint64 }
+type AccessRevoked = { fileId: uint64; owner: Account; user: Account }
+type KeyRegistered = { user: Account; publicKey: string }
 
 export class FileRegistry extends Contract {
     fileCount = GlobalState<uint64>({ initialValue: Uint64(0) })
     groupRegistryAppId = GlobalState<uint64>({ initialValue: Uint64(0) })
 
-    fileCids = BoxMap<uint64, string>({ keyPrefix: 'fc' })
-    fileOwners = BoxMap<uint64, string>({ keyPrefix: 'fo' })
-    fileNames = BoxMap<uint64, string>({ keyPrefix: 'fn' })
-    fileGroupIds = BoxMap<uint64, uint64>({ keyPrefix: 'fg' })
-    fileCreatedAt = BoxMap<uint64, uint64>({ keyPrefix: 'ft' })
-    fileUpdatedAt = BoxMap<uint64, uint64>({ keyPrefix: 'fu' })
-    fileIsDeleted = BoxMap<uint64, uint64>({ keyPrefix: 'fd' })
+    // Set once the creator has finished importing records from a previous deployment
+    importClosed = GlobalState<uint64>({ initialValue: Uint64(0) })
 
-    fileShare1 = BoxMap<uint64, string>({ keyPrefix: 'a1' })
-    fileShare2 = BoxMap<uint64, string>({ keyPrefix: 'a2' })
-    fileShare3 = BoxMap<uint64, string>({ keyPrefix: 'a3' })
+    files = BoxMap<uint64, FileRecord>({ keyPrefix: 'fr' })
+    versions = BoxMap<{ fileId: uint64; version: uint64 }, FileVersion>({ keyPrefix: 'fv' })
 
-    accessHas = BoxMap<{ fileId: uint64; user: string }, uint64>({ keyPrefix: 'ah' })
-    accessPermission = BoxMap<{ fileId: uint64; user: string }, string>({ keyPrefix: 'ap' })
-    accessWrappedKey = BoxMap<{ fileId: uint64; user: string }, string>({ keyPrefix: 'ak' })
-    accessGrantedAt = BoxMap<{ fileId: uint64; user: string }, uint64>({ keyPrefix: 'at' })
-    accessExpiresAt = BoxMap<{ fileId: uint64; user: string }, uint64>({ keyPrefix: 'ae' })
+    grants = BoxMap<GrantKey, AccessGrant>({ keyPrefix: 'ag' })
 
-    encryptionKeys = BoxMap<string, string>({ keyPrefix: 'ek' })
+    encryptionKeys = BoxMap<Account, string>({ keyPrefix: 'ek' })
 
     @abimethod({ onCreate: 'require' })
     createApplication(groupAppId: uint64): void {
@@ -31,8 +72,45 @@ export class FileRegistry extends Contract {
         this.groupRegistryAppId.value = groupAppId
     }
 
+    // Point at a redeployed GroupRegistry; group IDs carry over with its import
+    @abimethod()
+    setGroupRegistry(groupAppId: uint64): void {
+        assert(Txn.sender === Global.creatorAddress, 'Only the creator can set the group registry')
+        this.groupRegistryAppId.value = groupAppId
+    }
+
+    // How much the app's minimum balance grew since `minBalanceBefore`; 0 if it shrank
+    private mbrIncrease(minBalanceBefore: uint64): uint64 {
+        const minBalance: uint64 = Global.currentApplicationAddress.minBalance
+        return minBalance > minBalanceBefore ? minBalance - minBalanceBefore : Uint64(0)
+    }
+
+    // The caller pays for the boxes a call creates or grows with a payment to the
+    // app account, grouped before the call, for exactly their MBR
+    private collectMbr(payment: gtxn.PaymentTxn, cost: uint64): void {
+        assert(payment.receiver === Global.currentApplicationAddress, 'MBR payment must go to the app')
+        assert(payment.sender === Txn.sender, 'MBR payment must come from the caller')
+        assert(payment.amount === cost, 'MBR payment must match the box cost')
+    }
+
+    // Return the MBR freed by shrinking or deleting a box to whoever paid for it,
+    // never more than they deposited: the app pays for imported records and any
+    // growth it was not paid for. The outer call covers the inner payment's fee.
+    private refundMbr(payer: Account, deposit: uint64, minBalanceBefore: uint64): void {
+        const freed: uint64 = minBalanceBefore - Global.currentApplicationAddress.minBalance
+        const amount: uint64 = freed < deposit ? freed : deposit
+        if (payer === Global.zeroAddress || amount === Uint64(0)) return
+        itxn.payment({ receiver: payer, amount: amount, fee: 0 }).submit()
+    }
+
+    private getFile(fileId: uint64): FileRecord {
+        assert(this.files(fileId).exists, 'File does not exist')
+        return clone(this.files(fileId).value)
+    }
+
     @abimethod()
     registerFile(
+        payment: gtxn.PaymentTxn,
         cid: string,
         filename: string,
         groupId: uint64,
@@ -40,202 +118,347 @@ export class FileRegistry extends Contract {
         share2: string,
         share3: string,
     ): uint64 {
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
         this.fileCount.value = this.fileCount.value + Uint64(1)
         const fileId: uint64 = this.fileCount.value
 
-        this.fileCids(fileId).value = cid
-        this.fileOwners(fileId).value = Txn.sender.bytes.toString()
-        this.fileNames(fileId).value = filename
-        this.fileGroupIds(fileId).value = groupId
-        this.fileCreatedAt(fileId).value = Global.latestTimestamp
-        this.fileUpdatedAt(fileId).value = Global.latestTimestamp
-        this.fileIsDeleted(fileId).value = Uint64(0)
-
-        this.fileShare1(fileId).value = share1
-        this.fileShare2(fileId).value = share2
-        this.fileShare3(fileId).value = share3
+        const record = new FileRecord({
+            owner: new arc4.Address(Txn.sender),
+            cid: new arc4.Str(cid),
+            name: new arc4.Str(filename),
+            groupId: new arc4.Uint64(groupId),
+            createdAt: new arc4.Uint64(Global.latestTimestamp),
+            updatedAt: new arc4.Uint64(Global.latestTimestamp),
+            versionCount: new arc4.Uint64(1),
+            isDeleted: new arc4.Bool(false),
+            share1: new arc4.Str(share1),
+            share2: new arc4.Str(share2),
+            share3: new arc4.Str(share3),
+            payer: new arc4.Address(Txn.sender),
+            deposit: new arc4.Uint64(0),
+        })
+        this.files(fileId).value = clone(record)
+        // The deposit is fixed-size, so recording it does not change the box's MBR
+        const recordCost = this.mbrIncrease(minBalanceBefore)
+        record.deposit = new arc4.Uint64(recordCost)
+        this.files(fileId).value = clone(record)
+
+        const versionCost = this.putVersion(fileId, Uint64(1), cid)
+        this.collectMbr(payment, recordCost + versionCost)
+        emit<FileRegistered>({ fileId: fileId, owner: Txn.sender, groupId: groupId, cid: cid })
 
         return fileId
     }
 
+    // Add a version box uploaded by the caller and return its MBR, which the caller pays
+    private putVersion(fileId: uint64, version: uint64, cid: string): uint64 {
+        const key = { fileId: fileId, version: version }
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        const entry = new FileVersion({
+            cid: new arc4.Str(cid),
+            uploader: new arc4.Address(Txn.sender),
+            createdAt: new arc4.Uint64(Global.latestTimestamp),
+            deposit: new arc4.Uint64(0),
+        })
+        this.versions(key).value = clone(entry)
+        const cost = this.mbrIncrease(minBalanceBefore)
+        entry.deposit = new arc4.Uint64(cost)
+        this.versions(key).value = clone(entry)
+        return cost
+    }
+
+    // Permission levels, lowest first; each includes the ones below it.
+    // 'read' is what grants were issued with before levels existed.
+    private permissionLevel(permission: string): uint64 {
+        if (permission === 'reshare') return Uint64(4)
+        if (permission === 'write') return Uint64(3)
+        if (permission === 'download' || permission === 'read') return Uint64(2)
+        if (permission === 'view') return Uint64(1)
+        return Uint64(0)
+    }
+
+    // Level of a user's unexpired grant, 0 when there is none
+    private grantLevel(fileId: uint64, user: Account): uint64 {
+        const key = { fileId: fileId, user: user }
+        if (!this.grants(key).exists) return Uint64(0)
+        const grant = clone(this.grants(key).value)
+        const expires: uint64 = grant.expiresAt.asUint64()
+        if (expires !== Uint64(0) && expires <= Global.latestTimestamp) return Uint64(0)
+        return this.permissionLevel(grant.permission.native)
+    }
+
+    // Files tagged with a group are checked against GroupRegistry with an inner
+    // readonly call, whose fee the outer call covers. Untagged files, and an app
+    // created without a GroupRegistry, have no group members.
+    private hasGroup(groupId: uint64): boolean {
+        return groupId !== Uint64(0) && this.groupRegistryAppId.value !== Uint64(0)
+    }
+
+    // Joined members other than auditors, who never hold decryption keys
+    private canReadGroupFiles(groupId: uint64, user: Account): boolean {
+        if (!this.hasGroup(groupId)) return false
+        return arc4.abiCall<typeof GroupRegistry.prototype.canReadFiles>({
+            appId: this.groupRegistryAppId.value,
+            args: [groupId, user],
+            fee: 0,
+        }).returnValue
+    }
+
+    // The caller pays for the new version's box and for any growth of the record
+    // from a longer CID. Growth paid by the record's payer adds to their deposit;
+    // a writer's stays with the app.
     @abimethod()
-    updateFile(fileId: uint64, newCid: string): void {
-        assert(this.fileOwners(fileId).exists, 'File does not exist')
-        assert(this.fileOwners(fileId).value === Txn.sender.bytes.toString(), 'Not the owner')
-        assert(this.fileIsDeleted(fileId).value === Uint64(0), 'File is deleted')
+    updateFile(payment: gtxn.PaymentTxn, fileId: uint64, newCid: string): void {
+        const record = this.getFile(fileId)
+        assert(
+            record.owner.native === Txn.sender || this.grantLevel(fileId, Txn.sender) >= Uint64(3),
+            'Not the owner or a writer',
+        )
+        assert(!record.isDeleted.native, 'File is deleted')
+
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        const version: uint64 = record.versionCount.asUint64() + Uint64(1)
+        record.cid = new arc4.Str(newCid)
+        record.updatedAt = new arc4.Uint64(Global.latestTimestamp)
+        record.versionCount = new arc4.Uint64(version)
+        this.files(fileId).value = clone(record)
+        const growth = this.mbrIncrease(minBalanceBefore)
+        if (record.payer.native === Txn.sender && growth > Uint64(0)) {
+            record.deposit = new arc4.Uint64(record.deposit.asUint64() + growth)
+            this.files(fileId).value = clone(record)
+        }
 
-        this.fileCids(fileId).value = newCid
-        this.fileUpdatedAt(fileId).value = Global.latestTimestamp
+        const versionCost = this.putVersion(fileId, version, newCid)
+        this.collectMbr(payment, growth + versionCost)
+        emit<FileUpdated>({ fileId: fileId, editor: Txn.sender, version: version, cid: newCid })
     }
 
     @abimethod()
     deleteFile(fileId: uint64): void {
-        assert(this.fileOwners(fileId).exists, 'File does not exist')
-        assert(this.fileOwners(fileId).value === Txn.sender.bytes.toString(), 'Not the owner')
-        this.fileIsDeleted(fileId).value = Uint64(1)
+        const record = this.getFile(fileId)
+        assert(record.owner.native === Txn.sender, 'Not the owner')
+
+        // The record stays, flagged, so grants can still be revoked; the CID, name
+        // and key shares are cleared and the MBR they held returns to the payer.
+        // Version boxes are refunded to their uploaders by purgeVersion.
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        const payer = record.payer.native
+        const deposit = record.deposit.asUint64()
+        record.isDeleted = new arc4.Bool(true)
+        record.cid = new arc4.Str('')
+        record.name = new arc4.Str('')
+        record.share1 = new arc4.Str('')
+        record.share2 = new arc4.Str('')
+        record.share3 = new arc4.Str('')
+        record.payer = new arc4.Address(Global.zeroAddress)
+        record.deposit = new arc4.Uint64(0)
+        this.files(fileId).value = clone(record)
+        this.refundMbr(payer, deposit, minBalanceBefore)
+        emit<FileDeleted>({ fileId: fileId, owner: Txn.sender })
+    }
+
+    // Delete a version box of a deleted file, refunding its uploader's deposit.
+    // The owner calls it after deleteFile; an uploader may reclaim their own.
+    @abimethod()
+    purgeVersion(fileId: uint64, version: uint64): void {
+        const record = this.getFile(fileId)
+        assert(record.isDeleted.native, 'File is not deleted')
+        const key = { fileId: fileId, version: version }
+        assert(this.versions(key).exists, 'Version does not exist')
+        const entry = clone(this.versions(key).value)
+        assert(
+            record.owner.native === Txn.sender || entry.uploader.native === Txn.sender,
+            'Not the owner or the uploader',
+        )
+
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        this.versions(key).delete()
+        this.refundMbr(entry.uploader.native, entry.deposit.asUint64(), minBalanceBefore)
+    }
+
+    // Delete a grant's box, refunding its MBR when a caller paid for it
+    private releaseGrant(key: GrantKey): void {
+        if (!this.grants(key).exists) return
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        const grant = clone(this.grants(key).value)
+        this.grants(key).delete()
+        this.refundMbr(grant.payer.native, grant.deposit.asUint64(), minBalanceBefore)
     }
 
     @abimethod()
     grantAccess(
+        payment: gtxn.PaymentTxn,
         fileId: uint64,
-        user: string,
+        user: Account,
         permission: string,
         wrappedKey: string,
         expiresAt: uint64,
     ): void {
-        assert(this.fileOwners(fileId).exists, 'File does not exist')
-        assert(this.fileOwners(fileId).value === Txn.sender.bytes.toString(), 'Not the owner')
-        assert(this.fileIsDeleted(fileId).value === Uint64(0), 'File is deleted')
+        const record = this.getFile(fileId)
+        assert(!record.isDeleted.native, 'File is deleted')
+        assert(this.permissionLevel(permission) > Uint64(0), 'Unknown permission')
 
         const key = { fileId: fileId, user: user }
-        this.accessHas(key).value = Uint64(1)
-        this.accessPermission(key).value = permission
-        this.accessWrappedKey(key).value = wrappedKey
-        this.accessGrantedAt(key).value = Global.latestTimestamp
-        this.accessExpiresAt(key).value = expiresAt
-    }
-
-    @abimethod()
-    revokeAccess(fileId: uint64, user: string): void {
-        assert(this.fileOwners(fileId).exists, 'File does not exist')
-        assert(this.fileOwners(fileId).value === Txn.sender.bytes.toString(), 'Not the owner')
-        const key = { fileId: fileId, user: user }
-        this.accessHas(key).value = Uint64(0)
-    }
+        // Resharers may add grantees, but only the owner may change an existing grant
+        if (record.owner.native !== Txn.sender) {
+            assert(this.grantLevel(fileId, Txn.sender) >= Uint64(4), 'Not the owner or a resharer')
+            assert(this.grantLevel(fileId, user) === Uint64(0), 'User already has access')
+        }
 
-    @abimethod({ readonly: true })
-    getFileCid(fileId: uint64): string {
-        assert(this.fileCids(fileId).exists, 'File does not exist')
-        return this.fileCids(fileId).value
+        // A changed grant is written from scratch: its old box is refunded to its
+        // payer and the caller pays for the new one
+        this.releaseGrant(key)
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        const grant = new AccessGrant({
+            permission: new arc4.Str(permission),
+            wrappedKey: new arc4.Str(wrappedKey),
+            grantedAt: new arc4.Uint64(Global.latestTimestamp),
+            expiresAt: new arc4.Uint64(expiresAt),
+            payer: new arc4.Address(Txn.sender),
+            deposit: new arc4.Uint64(0),
+        })
+        this.grants(key).value = clone(grant)
+        const cost = this.mbrIncrease(minBalanceBefore)
+        grant.deposit = new arc4.Uint64(cost)
+        this.grants(key).value = clone(grant)
+        this.collectMbr(payment, cost)
+        emit<AccessGranted>({
+            fileId: fileId,
+            grantor: Txn.sender,
+            user: user,
+            permission: permission,
+            expiresAt: expiresAt,
+        })
     }
 
-    @abimethod({ readonly: true })
-    getFileOwner(fileId: uint64): string {
-        assert(this.fileOwners(fileId).exists, 'File does not exist')
-        return this.fileOwners(fileId).value
+    @abimethod()
+    revokeAccess(fileId: uint64, user: Account): void {
+        assert(this.getFile(fileId).owner.native === Txn.sender, 'Not the owner')
+        this.releaseGrant({ fileId: fileId, user: user })
+        emit<AccessRevoked>({ fileId: fileId, owner: Txn.sender, user: user })
     }
 
     @abimethod({ readonly: true })
-    getFileName(fileId: uint64): string {
-        assert(this.fileNames(fileId).exists, 'File does not exist')
-        return this.fileNames(fileId).value
+    getFileInfo(fileId: uint64): FileRecord {
+        return this.getFile(fileId)
     }
 
     @abimethod({ readonly: true })
-    getFileGroupId(fileId: uint64): uint64 {
-        assert(this.fileGroupIds(fileId).exists, 'File does not exist')
-        return this.fileGroupIds(fileId).value
+    getVersion(fileId: uint64, version: uint64): FileVersion {
+        const key = { fileId: fileId, version: version }
+        assert(this.versions(key).exists, 'Version does not exist')
+        return clone(this.versions(key).value)
     }
 
-    @abimethod({ readonly: true })
-    getFileCreatedAt(fileId: uint64): uint64 {
-        assert(this.fileCreatedAt(fileId).exists, 'File does not exist')
-        return this.fileCreatedAt(fileId).value
+    // Who may open a file: its owner, a grantee, or a member of its group allowed
+    // to open the group's files. Auditors see a group's files but never read them.
+    private canOpen(fileId: uint64, user: Account): boolean {
+        if (!this.files(fileId).exists) return false
+        const record = this.getFile(fileId)
+        if (record.isDeleted.native) return false
+        if (record.owner.native === user) return true
+        if (this.grantLevel(fileId, user) > Uint64(0)) return true
+        return this.canReadGroupFiles(record.groupId.asUint64(), user)
     }
 
     @abimethod({ readonly: true })
-    getFileUpdatedAt(fileId: uint64): uint64 {
-        assert(this.fileUpdatedAt(fileId).exists, 'File does not exist')
-        return this.fileUpdatedAt(fileId).value
+    hasValidAccess(fileId: uint64, user: Account): boolean {
+        return this.canOpen(fileId, user)
     }
 
+    // Whether the key-holding nodes may release a file's key shares to `user`
     @abimethod({ readonly: true })
-    getFileIsDeleted(fileId: uint64): uint64 {
-        assert(this.fileIsDeleted(fileId).exists, 'File does not exist')
-        return this.fileIsDeleted(fileId).value
+    canReleaseKeyShares(fileId: uint64, user: Account): boolean {
+        return this.canOpen(fileId, user)
     }
 
+    // A user's grant as recorded, valid or not; an empty grant when there is none
     @abimethod({ readonly: true })
-    getFileShare1(fileId: uint64): string {
-        if (this.fileShare1(fileId).exists) {
-            return this.fileShare1(fileId).value
+    getAccessGrant(fileId: uint64, user: Account): AccessGrant {
+        const key = { fileId: fileId, user: user }
+        if (this.grants(key).exists) {
+            return clone(this.grants(key).value)
         }
-        return ''
+        return new AccessGrant({
+            permission: new arc4.Str(''),
+            wrappedKey: new arc4.Str(''),
+            grantedAt: new arc4.Uint64(0),
+            expiresAt: new arc4.Uint64(0),
+            payer: new arc4.Address(Global.zeroAddress),
+            deposit: new arc4.Uint64(0),
+        })
     }
 
-    @abimethod({ readonly: true })
-    getFileShare2(fileId: uint64): string {
-        if (this.fileShare2(fileId).exists) {
-            return this.fileShare2(fileId).value
-        }
-        return ''
+    // The caller pays for the key's box, or for its growth when a longer key
+    // replaces theirs. Keys are never deleted, so nothing is refunded.
+    @abimethod()
+    registerPublicKey(payment: gtxn.PaymentTxn, publicKey: string): void {
+        const minBalanceBefore: uint64 = Global.currentApplicationAddress.minBalance
+        this.encryptionKeys(Txn.sender).value = publicKey
+        this.collectMbr(payment, this.mbrIncrease(minBalanceBefore))
+        emit<KeyRegistered>({ user: Txn.sender, publicKey: publicKey })
     }
 
     @abimethod({ readonly: true })
-    getFileShare3(fileId: uint64): string {
-        if (this.fileShare3(fileId).exists) {
-            return this.fileShare3(fileId).value
+    getEncryptionKey(user: Account): string {
+        if (this.encryptionKeys(user).exists) {
+            return this.encryptionKeys(user).value
         }
         return ''
     }
 
     @abimethod({ readonly: true })
-    hasValidAccess(fileId: uint64, user: string): boolean {
-        if (!this.fileOwners(fileId).exists) return false
-        if (this.fileIsDeleted(fileId).value === Uint64(1)) return false
-        if (this.fileOwners(fileId).value === user) return true
-
-        const key = { fileId: fileId, user: user }
-        if (this.accessHas(key).exists && this.accessHas(key).value === Uint64(1)) {
-            const expires: uint64 = this.accessExpiresAt(key).value
-            if (expires === Uint64(0) || expires > Global.latestTimestamp) {
-                return true
-            }
-        }
-        return false
-    }
-
-    @abimethod({ readonly: true })
-    getAccessPermission(fileId: uint64, user: string): string {
-        const key = { fileId: fileId, user: user }
-        if (this.accessPermission(key).exists) {
-            return this.accessPermission(key).value
-        }
-        return ''
+    getFileCount(): uint64 {
+        return this.fileCount.value
     }
 
-    @abimethod({ readonly: true })
-    getAccessWrappedKey(fileId: uint64, user: string): string {
-        const key = { fileId: fileId, user: user }
-        if (this.accessWrappedKey(key).exists) {
-            return this.accessWrappedKey(key).value
-        }
-        return ''
+    // Copying records from a previous deployment (see migrate.ts). Only the creator
+    // may import, only until finishImport, and imported records keep their IDs.
+    // The app account pays for their boxes, so they carry no payer or deposit.
+    private assertImporting(): void {
+        assert(Txn.sender === Global.creatorAddress, 'Only the creator can import')
+        assert(this.importClosed.value === Uint64(0), 'Import is closed')
     }
 
-    @abimethod({ readonly: true })
-    getAccessExpiresAt(fileId: uint64, user: string): uint64 {
-        const key = { fileId: fileId, user: user }
-        if (this.accessExpiresAt(key).exists) {
-            return this.accessExpiresAt(key).value
-        }
-        return Uint64(0)
+    @abimethod()
+    importFile(fileId: uint64, record: FileRecord): void {
+        this.assertImporting()
+        assert(!this.files(fileId).exists, 'File already exists')
+        const imported = clone(record)
+        imported.payer = new arc4.Address(Global.zeroAddress)
+        imported.deposit = new arc4.Uint64(0)
+        this.files(fileId).value = clone(imported)
+        if (fileId > this.fileCount.value) this.fileCount.value = fileId
     }
 
-    @abimethod({ readonly: true })
-    getAccessGrantedAt(fileId: uint64, user: string): uint64 {
-        const key = { fileId: fileId, user: user }
-        if (this.accessGrantedAt(key).exists) {
-            return this.accessGrantedAt(key).value
-        }
-        return Uint64(0)
+    @abimethod()
+    importVersion(fileId: uint64, version: uint64, entry: FileVersion): void {
+        this.assertImporting()
+        assert(this.files(fileId).exists, 'File does not exist')
+        const imported = clone(entry)
+        imported.deposit = new arc4.Uint64(0)
+        this.versions({ fileId: fileId, version: version }).value = clone(imported)
     }
 
     @abimethod()
-    registerPublicKey(publicKey: string): void {
-        this.encryptionKeys(Txn.sender.bytes.toString()).value = publicKey
+    importGrant(fileId: uint64, user: Account, grant: AccessGrant): void {
+        this.assertImporting()
+        assert(this.files(fileId).exists, 'File does not exist')
+        const imported = clone(grant)
+        imported.payer = new arc4.Address(Global.zeroAddress)
+        imported.deposit = new arc4.Uint64(0)
+        this.grants({ fileId: fileId, user: user }).value = clone(imported)
     }
 
-    @abimethod({ readonly: true })
-    getEncryptionKey(user: string): string {
-        if (this.encryptionKeys(user).exists) {
-            return this.encryptionKeys(user).value
-        }
-        return ''
+    @abimethod()
+    importPublicKey(user: Account, publicKey: string): void {
+        this.assertImporting()
+        this.encryptionKeys(user).value = publicKey
     }
 
-    @abimethod({ readonly: true })
-    getFileCount(): uint64 {
-        return this.fileCount.value
+    @abimethod()
+    finishImport(): void {
+        assert(Txn.sender === Global.creatorAddress, 'Only the creator can close the import')
+        this.importClosed.value = Uint64(1)
     }
 }
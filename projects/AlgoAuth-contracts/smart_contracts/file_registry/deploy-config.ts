@@ -1,5 +1,6 @@
 import { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { FileRegistryFactory } from '../artifacts/file_registry/FileRegistryClient'
+import { importLegacyRecords } from './migrate'
 
 export async function deploy() {
     console.log('=== Deploying FileRegistry ===')
@@ -7,8 +8,16 @@ export async function deploy() {
     const algorand = AlgorandClient.fromEnvironment()
     const deployer = await algorand.account.fromEnvironment('DEPLOYER')
 
-    // Get GroupRegistry App ID from environment or use 0 as placeholder
-    const groupAppId = BigInt(process.env.GROUP_REGISTRY_APP_ID || '0')
+    // A previous FileRegistry whose records are copied into a newly created app
+    const legacyAppId = BigInt(process.env.LEGACY_FILE_REGISTRY_APP_ID || '0')
+
+    // GroupRegistry is deployed first by the same account, so its latest app is
+    // found by name; GROUP_REGISTRY_APP_ID overrides it
+    const { apps } = await algorand.appDeployer.getCreatorAppsByName(deployer.addr)
+    const groupAppId = BigInt(process.env.GROUP_REGISTRY_APP_ID || apps['GroupRegistry']?.appId || 0)
+    if (groupAppId === 0n) {
+        console.warn('No GroupRegistry found; group members get no on-chain access to group files')
+    }
 
     const factory = algorand.client.getTypedAppFactory(FileRegistryFactory, {
         defaultSender: deployer.addr,
@@ -23,12 +32,24 @@ export async function deploy() {
         },
     })
 
+    // Callers pay for the boxes they create; this covers the app account's minimum
+    // balance and record growth from writers, which no deposit refunds
     if (['create', 'replace'].includes(result.operationPerformed)) {
         await algorand.send.payment({
             amount: (2).algo(),
             sender: deployer.addr,
             receiver: appClient.appAddress,
         })
+
+        if (legacyAppId > 0n) {
+            await importLegacyRecords(algorand, appClient, deployer.addr, legacyAppId)
+        }
+        await appClient.send.finishImport({ args: {} })
+    }
+
+    // An existing FileRegistry follows a redeployed GroupRegistry
+    if ((await appClient.state.global.groupRegistryAppId()) !== groupAppId) {
+        await appClient.send.setGroupRegistry({ args: { groupAppId } })
     }
 
     console.log(`FileRegistry deployed with App ID: ${appClient.appClient.appId}`)
@@ -0,0 +1,163 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import algosdk from 'algosdk'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { APP_SPEC, type FileRegistryClient } from '../artifacts/file_registry/FileRegistryClient'
+import { type AppBoxes, createImportBatch, hex, readAppBoxes } from '../migrate-utils'
+import { importLegacyRecords } from './migrate'
+
+vi.mock('../migrate-utils', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../migrate-utils')>()),
+    readAppBoxes: vi.fn(),
+    createImportBatch: vi.fn(),
+}))
+
+const OWNER = algosdk.generateAccount().addr
+const USER = algosdk.generateAccount().addr
+const ZERO = algosdk.ALGORAND_ZERO_ADDRESS_STRING
+const encoder = new TextEncoder()
+
+type StructName = keyof typeof APP_SPEC.structs
+
+// A struct box as the previous deployment wrote it, before the trailing deposit
+function legacyStruct(name: StructName, values: algosdk.ABIValue[]): Uint8Array {
+    const fields = APP_SPEC.structs[name].slice(0, -1)
+    return algosdk.ABIType.from(`(${fields.map((field) => field.type).join(',')})`).encode(values)
+}
+
+function uint64(value: bigint): Uint8Array {
+    return algosdk.bigIntToBytes(value, 8)
+}
+
+function fileKey(fileId: bigint): string {
+    return hex(uint64(fileId))
+}
+
+function grantKey(fileId: bigint, account: Uint8Array): string {
+    return fileKey(fileId) + hex(account)
+}
+
+// (uint64, string) grant key holding the base32 address, as the first clients wrote it
+function textGrantKey(fileId: bigint, address: string): string {
+    const text = encoder.encode(address)
+    return fileKey(fileId) + hex(new Uint8Array([0, 10, ...algosdk.bigIntToBytes(text.length, 2), ...text]))
+}
+
+function legacyBoxes(): AppBoxes {
+    const boxes: AppBoxes = new Map()
+    const put = (prefix: string, key: string, value: Uint8Array) => {
+        if (!boxes.has(prefix)) boxes.set(prefix, new Map())
+        boxes.get(prefix)!.set(key, value)
+    }
+
+    // File 1: one box per field, from before version history
+    put('fo', fileKey(1n), OWNER.publicKey)
+    put('fc', fileKey(1n), encoder.encode('QmFirst'))
+    put('fn', fileKey(1n), encoder.encode('notes.txt'))
+    put('ft', fileKey(1n), uint64(100n))
+    put('fu', fileKey(1n), uint64(100n))
+    put('ah', grantKey(1n, USER.publicKey), uint64(1n))
+    put('ap', grantKey(1n, USER.publicKey), encoder.encode('download'))
+    put('ak', grantKey(1n, USER.publicKey), encoder.encode('wrapped-1'))
+    // Revoked before revocation deleted grants
+    put('ah', grantKey(1n, OWNER.publicKey), uint64(0n))
+
+    // File 2: struct boxes without deposits, and a grant keyed by base32 text
+    put('fr', fileKey(2n), legacyStruct('FileRecord', [OWNER, 'bafySecond', 'report.pdf', 0n, 200n, 200n, 1n, false, '', '', '', OWNER]))
+    put('fv', fileKey(2n) + hex(uint64(1n)), legacyStruct('FileVersion', ['bafySecond', OWNER, 200n]))
+    put('ag', textGrantKey(2n, USER.toString()), legacyStruct('AccessGrant', ['write', 'wrapped-2', 210n, 0n, OWNER]))
+
+    // File 3 claims a version that is missing, so it and its grant are skipped
+    put('fr', fileKey(3n), legacyStruct('FileRecord', [OWNER, 'bafyThird', 'lost.pdf', 0n, 300n, 300n, 1n, false, '', '', '', OWNER]))
+    put('ag', grantKey(3n, USER.publicKey), legacyStruct('AccessGrant', ['download', 'wrapped-3', 310n, 0n, OWNER]))
+
+    put('ek', hex(USER.publicKey), encoder.encode('x25519-public-key'))
+    return boxes
+}
+
+describe('importLegacyRecords', () => {
+    let calls: { method: string; args: Record<string, unknown> }[]
+    let warn: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+        calls = []
+        vi.spyOn(console, 'log').mockImplementation(() => {})
+        warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        vi.mocked(readAppBoxes).mockResolvedValue(legacyBoxes())
+        vi.mocked(createImportBatch).mockReturnValue({
+            add: async (params) => void calls.push(params as unknown as (typeof calls)[number]),
+            flush: async () => {},
+        })
+    })
+
+    afterEach(() => vi.restoreAllMocks())
+
+    async function runImport() {
+        const method = (name: string) => async ({ args }: { args: Record<string, unknown> }) => ({ method: name, args })
+        const appClient = {
+            appAddress: OWNER,
+            params: {
+                importFile: method('importFile'),
+                importVersion: method('importVersion'),
+                importGrant: method('importGrant'),
+                importPublicKey: method('importPublicKey'),
+            },
+        } as unknown as FileRegistryClient
+        await importLegacyRecords({} as AlgorandClient, appClient, OWNER, 1000n)
+    }
+
+    it('imports both layouts with zero deposits', async () => {
+        await runImport()
+
+        const files = calls.filter((call) => call.method === 'importFile').map((call) => call.args)
+        expect(files).toEqual([
+            {
+                fileId: 1n,
+                record: {
+                    owner: OWNER.toString(), cid: 'QmFirst', name: 'notes.txt', groupId: 0n, createdAt: 100n, updatedAt: 100n,
+                    versionCount: 1n, isDeleted: false, share1: '', share2: '', share3: '', payer: ZERO, deposit: 0n,
+                },
+            },
+            {
+                fileId: 2n,
+                record: {
+                    owner: OWNER.toString(), cid: 'bafySecond', name: 'report.pdf', groupId: 0n, createdAt: 200n, updatedAt: 200n,
+                    versionCount: 1n, isDeleted: false, share1: '', share2: '', share3: '', payer: OWNER.toString(), deposit: 0n,
+                },
+            },
+        ])
+
+        const versions = calls.filter((call) => call.method === 'importVersion').map((call) => call.args)
+        expect(versions).toEqual([
+            { fileId: 1n, version: 1n, entry: { cid: 'QmFirst', uploader: OWNER.toString(), createdAt: 100n, deposit: 0n } },
+            { fileId: 2n, version: 1n, entry: { cid: 'bafySecond', uploader: OWNER.toString(), createdAt: 200n, deposit: 0n } },
+        ])
+    })
+
+    it('converts grant keys and skips revoked grants and grants on skipped files', async () => {
+        await runImport()
+
+        const grants = calls.filter((call) => call.method === 'importGrant').map((call) => call.args)
+        expect(grants).toEqual([
+            {
+                fileId: 2n,
+                user: USER.toString(),
+                grant: { permission: 'write', wrappedKey: 'wrapped-2', grantedAt: 210n, expiresAt: 0n, payer: OWNER.toString(), deposit: 0n },
+            },
+            {
+                fileId: 1n,
+                user: USER.toString(),
+                grant: { permission: 'download', wrappedKey: 'wrapped-1', grantedAt: 0n, expiresAt: 0n, payer: ZERO, deposit: 0n },
+            },
+        ])
+        expect(warn).toHaveBeenCalledWith('Skipping file 3: version 1 is missing')
+        expect(warn).toHaveBeenCalledWith(`Skipping ${USER.toString()}'s grant on file 3, which was not imported`)
+    })
+
+    it('imports public keys', async () => {
+        await runImport()
+
+        expect(calls.filter((call) => call.method === 'importPublicKey').map((call) => call.args)).toEqual([
+            { user: USER.toString(), publicKey: 'x25519-public-key' },
+        ])
+    })
+})
@@ -0,0 +1,213 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import algosdk, { type Address } from 'algosdk'
+import {
+    APP_SPEC,
+    type AccessGrant,
+    AccessGrantFromTuple,
+    type FileRecord,
+    FileRecordFromTuple,
+    type FileRegistryClient,
+    type FileVersion,
+    FileVersionFromTuple,
+} from '../artifacts/file_registry/FileRegistryClient'
+import {
+    type AppBoxes,
+    createImportBatch,
+    fromHex,
+    hex,
+    readAppBoxes,
+    readRecord,
+    splitAccountKey,
+    toAddress,
+    toText,
+    toUint64,
+} from '../migrate-utils'
+
+// Copies files, versions, grants and public keys from an earlier FileRegistry into
+// a freshly created one. Two layouts are read: the original one box per field
+// (fc, fo, ..., ah, ap, ...) and the FileRecord / FileVersion / AccessGrant struct
+// boxes (fr, fv, ag), with or without their trailing deposit. Run by
+// deploy-config.ts before finishImport; the new app keeps every file ID, so
+// server records stay valid.
+
+type LegacyFile = { fileId: bigint; record: FileRecord; versions: FileVersion[] }
+type LegacyGrant = { fileId: bigint; user: string; grant: AccessGrant }
+
+type StructName = 'FileRecord' | 'FileVersion' | 'AccessGrant'
+
+function tupleType(fields: (typeof APP_SPEC.structs)[StructName]): algosdk.ABIType {
+    return algosdk.ABIType.from(`(${fields.map((field) => field.type).join(',')})`)
+}
+
+// Whether `bytes` are exactly an encoding of `type`
+function encodes(type: algosdk.ABIType, bytes: Uint8Array): boolean {
+    try {
+        return Buffer.from(type.encode(type.decode(bytes))).equals(bytes)
+    } catch {
+        return false
+    }
+}
+
+// Boxes written before the deposit field was appended lack it; they decode with
+// the remaining fields and no deposit, which import discards anyway
+function decodeStruct<T>(name: StructName, fromTuple: (tuple: never) => T, bytes: Uint8Array): T {
+    const fields = APP_SPEC.structs[name]
+    const current = tupleType(fields)
+    if (encodes(current, bytes)) return fromTuple(current.decode(bytes) as never)
+    const legacy = tupleType(fields.slice(0, -1))
+    if (!encodes(legacy, bytes)) throw new Error(`Box is not a ${name}`)
+    return fromTuple([...(legacy.decode(bytes) as algosdk.ABIValue[]), 0n] as never)
+}
+
+// Box keys after the 2-byte prefix are ARC-4 encoded
+function fileKey(fileId: bigint): string {
+    return hex(algosdk.bigIntToBytes(fileId, 8))
+}
+
+function versionKey(fileId: bigint, version: bigint): string {
+    return fileKey(fileId) + hex(algosdk.bigIntToBytes(version, 8))
+}
+
+function readStructFiles(boxes: AppBoxes): LegacyFile[] {
+    const versions = boxes.get('fv') ?? new Map<string, Uint8Array>()
+    return [...(boxes.get('fr') ?? new Map<string, Uint8Array>())].flatMap(([key, value]) => {
+        const fileId = algosdk.bytesToBigInt(fromHex(key))
+        const file = readRecord(`file ${fileId}`, () => {
+            const record = decodeStruct('FileRecord', FileRecordFromTuple, value)
+            const entries: FileVersion[] = []
+            for (let version = 1n; version <= record.versionCount; version++) {
+                const entry = versions.get(versionKey(fileId, version))
+                if (!entry) throw new Error(`version ${version} is missing`)
+                entries.push(decodeStruct('FileVersion', FileVersionFromTuple, entry))
+            }
+            return { fileId, record, versions: entries }
+        })
+        return file ? [file] : []
+    })
+}
+
+function readFieldFiles(boxes: AppBoxes): LegacyFile[] {
+    return [...(boxes.get('fo') ?? new Map<string, Uint8Array>())].flatMap(([key, value]) => {
+        const fileId = algosdk.bytesToBigInt(fromHex(key))
+        const file = readRecord(`file ${fileId}`, () => readFieldFile(boxes, fileId, key, value))
+        return file ? [file] : []
+    })
+}
+
+function readFieldFile(boxes: AppBoxes, fileId: bigint, key: string, owner: Uint8Array): LegacyFile {
+    const field = (prefix: string, name: string) => boxes.get(prefix)?.get(name)
+
+    // Deleted files keep no CID, name or key shares
+    const isDeleted = toUint64(field('fd', key)) === 1n
+    const createdAt = toUint64(field('ft', key))
+    const record: FileRecord = {
+        owner: toAddress(owner),
+        cid: isDeleted ? '' : toText(field('fc', key)),
+        name: isDeleted ? '' : toText(field('fn', key)),
+        groupId: toUint64(field('fg', key)),
+        createdAt,
+        updatedAt: toUint64(field('fu', key)),
+        versionCount: 1n,
+        isDeleted,
+        share1: isDeleted ? '' : toText(field('a1', key)),
+        share2: isDeleted ? '' : toText(field('a2', key)),
+        share3: isDeleted ? '' : toText(field('a3', key)),
+        payer: algosdk.ALGORAND_ZERO_ADDRESS_STRING,
+        deposit: 0n,
+    }
+
+    // Files registered before version history get version 1 from the file itself
+    const versions: FileVersion[] = []
+    if (field('vn', key)) {
+        const count = toUint64(field('vn', key))
+        for (let version = 1n; version <= count; version++) {
+            const vkey = versionKey(fileId, version)
+            versions.push({
+                cid: toText(field('vc', vkey)),
+                uploader: toAddress(field('vu', vkey)),
+                createdAt: toUint64(field('vt', vkey)),
+                deposit: 0n,
+            })
+        }
+    } else {
+        versions.push({ cid: toText(field('fc', key)), uploader: record.owner, createdAt, deposit: 0n })
+    }
+    record.versionCount = BigInt(versions.length)
+    return { fileId, record, versions }
+}
+
+function readGrants(boxes: AppBoxes): LegacyGrant[] {
+    const grants: LegacyGrant[] = []
+    for (const [key, value] of boxes.get('ag') ?? new Map<string, Uint8Array>()) {
+        const grant = readRecord(`grant ${key}`, () => {
+            const [fileId, user] = splitAccountKey(fromHex(key))
+            return { fileId, user, grant: decodeStruct('AccessGrant', AccessGrantFromTuple, value) }
+        })
+        if (grant) grants.push(grant)
+    }
+
+    const field = (prefix: string, key: string) => boxes.get(prefix)?.get(key)
+    for (const [key, value] of boxes.get('ah') ?? new Map<string, Uint8Array>()) {
+        // Revoked grants were kept with ah = 0 before revocation deleted them
+        if (toUint64(value) !== 1n) continue
+        const account = readRecord(`grant ${key}`, () => splitAccountKey(fromHex(key)))
+        if (!account) continue
+        const [fileId, user] = account
+        grants.push({
+            fileId,
+            user,
+            grant: {
+                permission: toText(field('ap', key)),
+                wrappedKey: toText(field('ak', key)),
+                grantedAt: toUint64(field('at', key)),
+                expiresAt: toUint64(field('ae', key)),
+                payer: algosdk.ALGORAND_ZERO_ADDRESS_STRING,
+                deposit: 0n,
+            },
+        })
+    }
+    return grants
+}
+
+export async function importLegacyRecords(
+    algorand: AlgorandClient,
+    appClient: FileRegistryClient,
+    funder: Address,
+    legacyAppId: bigint,
+) {
+    console.log(`=== Importing FileRegistry ${legacyAppId} records ===`)
+    const boxes = await readAppBoxes(algorand, legacyAppId)
+    const batch = createImportBatch(algorand, appClient.appAddress, funder)
+    const counts = { files: 0, versions: 0, grants: 0, keys: 0 }
+
+    const imported = new Set<bigint>()
+    for (const { fileId, record, versions } of [...readFieldFiles(boxes), ...readStructFiles(boxes)]) {
+        await batch.add(await appClient.params.importFile({ args: { fileId, record } }))
+        imported.add(fileId)
+        counts.files++
+        for (const [i, entry] of versions.entries()) {
+            await batch.add(await appClient.params.importVersion({ args: { fileId, version: BigInt(i + 1), entry } }))
+            counts.versions++
+        }
+    }
+    // Grants need their file imported first
+    await batch.flush()
+
+    for (const { fileId, user, grant } of readGrants(boxes)) {
+        if (!imported.has(fileId)) {
+            console.warn(`Skipping ${user}'s grant on file ${fileId}, which was not imported`)
+            continue
+        }
+        await batch.add(await appClient.params.importGrant({ args: { fileId, user, grant } }))
+        counts.grants++
+    }
+    for (const [key, value] of boxes.get('ek') ?? new Map<string, Uint8Array>()) {
+        const user = readRecord(`public key ${key}`, () => toAddress(fromHex(key)))
+        if (!user) continue
+        await batch.add(await appClient.params.importPublicKey({ args: { user, publicKey: toText(value) } }))
+        counts.keys++
+    }
+    await batch.flush()
+
+    console.log(`Imported ${counts.files} files, ${counts.versions} versions, ${counts.grants} grants and ${counts.keys} public keys`)
+}
@@ -1,14 +1,35 @@
 import type { uint64 } from '@algorandfoundation/algorand-typescript'
-import { Contract, GlobalState, BoxMap, abimethod, Txn, assert, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { Account, Contract, emit, GlobalState, BoxMap, abimethod, Global, Txn, assert, Uint64 } from '@algorandfoundation/algorand-typescript'
+
+// Members are keyed by group and member account
+type MemberKey = { groupId: uint64; user: Account }
+
+// ARC-28 events, logged by every call that changes a group or a membership.
+// The server's audit log is read back from them; imports emit none.
+type GroupCreated = { groupId: uint64; creator: Account; name: string }
+type MemberInvited = { groupId: uint64; inviter: Account; user: Account; role: uint64 }
+type MemberJoined = { groupId: uint64; user: Account }
+type MemberRemoved = { groupId: uint64; remover: Account; user: Account }
+type MemberLeft = { groupId: uint64; user: Account }
+type RoleChanged = { groupId: uint64; changer: Account; user: Account; role: uint64 }
+type OwnershipTransferred = { groupId: uint64; previousOwner: Account; newOwner: Account }
 
 export class GroupRegistry extends Contract {
     groupCount = GlobalState<uint64>({ initialValue: Uint64(0) })
 
+    // Set once the creator has finished importing groups from a previous deployment
+    importClosed = GlobalState<uint64>({ initialValue: Uint64(0) })
+
     groupNames = BoxMap<uint64, string>({ keyPrefix: 'gn' })
-    groupCreators = BoxMap<uint64, string>({ keyPrefix: 'gc' })
+    groupCreators = BoxMap<uint64, Account>({ keyPrefix: 'gc' })
+
+    // Ownership can be transferred; groups created before that fall back to their creator
+    groupOwners = BoxMap<uint64, Account>({ keyPrefix: 'go' })
 
-    memberStatuses = BoxMap<{ groupId: uint64; user: string }, uint64>({ keyPrefix: 'ms' })
-    memberRoles = BoxMap<{ groupId: uint64; user: string }, uint64>({ keyPrefix: 'mr' })
+    // Statuses: 0 none, 1 invited, 2 joined.
+    // Roles: 0 editor (the original "member"), 1 admin, 2 viewer, 3 auditor, 4 owner.
+    memberStatuses = BoxMap<MemberKey, uint64>({ keyPrefix: 'ms' })
+    memberRoles = BoxMap<MemberKey, uint64>({ keyPrefix: 'mr' })
 
     @abimethod({ onCreate: 'require' })
     createApplication(): void {
@@ -21,60 +42,121 @@ export class GroupRegistry extends Contract {
         const groupId: uint64 = this.groupCount.value
 
         this.groupNames(groupId).value = name
-        this.groupCreators(groupId).value = Txn.sender.bytes.toString()
+        this.groupCreators(groupId).value = Txn.sender
+        this.groupOwners(groupId).value = Txn.sender
 
-        const key = { groupId: groupId, user: Txn.sender.bytes.toString() }
+        const key = { groupId: groupId, user: Txn.sender }
         this.memberStatuses(key).value = Uint64(2)
-        this.memberRoles(key).value = Uint64(1)
+        this.memberRoles(key).value = Uint64(4)
+        emit<GroupCreated>({ groupId: groupId, creator: Txn.sender, name: name })
 
         return groupId
     }
 
-    @abimethod()
-    inviteMember(groupId: uint64, user: string): void {
-        const callerKey = { groupId: groupId, user: Txn.sender.bytes.toString() }
+    private isOwner(groupId: uint64, user: Account): boolean {
+        if (this.groupOwners(groupId).exists) return this.groupOwners(groupId).value === user
+        return this.groupCreators(groupId).exists && this.groupCreators(groupId).value === user
+    }
+
+    private roleOf(groupId: uint64, user: Account): uint64 {
+        if (this.isOwner(groupId, user)) return Uint64(4)
+        const key = { groupId: groupId, user: user }
+        if (this.memberRoles(key).exists) return this.memberRoles(key).value
+        return Uint64(0)
+    }
+
+    private isJoined(groupId: uint64, user: Account): boolean {
+        const key = { groupId: groupId, user: user }
+        return this.memberStatuses(key).exists && this.memberStatuses(key).value === Uint64(2)
+    }
+
+    // Role of the caller, who must have joined the group
+    private callerRole(groupId: uint64): uint64 {
+        const callerKey = { groupId: groupId, user: Txn.sender }
         assert(this.memberStatuses(callerKey).exists, 'Caller is not a member')
         assert(this.memberStatuses(callerKey).value === Uint64(2), 'Caller has not joined')
-        assert(this.memberRoles(callerKey).value === Uint64(1), 'Caller is not admin')
+        return this.roleOf(groupId, callerKey.user)
+    }
+
+    // The owner manages everyone else; admins manage editors, viewers and auditors.
+    // The same rule decides which roles an actor may hand out.
+    private canManage(actorRole: uint64, role: uint64): boolean {
+        if (actorRole === Uint64(4)) return role !== Uint64(4)
+        return actorRole === Uint64(1) && role !== Uint64(1) && role !== Uint64(4)
+    }
+
+    @abimethod()
+    inviteMember(groupId: uint64, user: Account, role: uint64): void {
+        const callerRole = this.callerRole(groupId)
+        assert(role < Uint64(4), 'Ownership is only transferred')
+        assert(this.canManage(callerRole, role), 'Caller cannot assign this role')
 
         const userKey = { groupId: groupId, user: user }
+        assert(!this.memberStatuses(userKey).exists || this.memberStatuses(userKey).value === Uint64(0), 'Already a member')
         this.memberStatuses(userKey).value = Uint64(1)
-        this.memberRoles(userKey).value = Uint64(0)
+        this.memberRoles(userKey).value = role
+        emit<MemberInvited>({ groupId: groupId, inviter: Txn.sender, user: user, role: role })
     }
 
     @abimethod()
     acceptInvite(groupId: uint64): void {
-        const key = { groupId: groupId, user: Txn.sender.bytes.toString() }
+        const key = { groupId: groupId, user: Txn.sender }
         assert(this.memberStatuses(key).exists, 'No invite found')
         assert(this.memberStatuses(key).value === Uint64(1), 'Not invited')
         this.memberStatuses(key).value = Uint64(2)
+        emit<MemberJoined>({ groupId: groupId, user: Txn.sender })
     }
 
     @abimethod()
     rejectInvite(groupId: uint64): void {
-        const key = { groupId: groupId, user: Txn.sender.bytes.toString() }
+        const key = { groupId: groupId, user: Txn.sender }
         assert(this.memberStatuses(key).exists, 'No invite found')
         assert(this.memberStatuses(key).value === Uint64(1), 'Not invited')
         this.memberStatuses(key).value = Uint64(0)
     }
 
     @abimethod()
-    removeMember(groupId: uint64, user: string): void {
-        const callerKey = { groupId: groupId, user: Txn.sender.bytes.toString() }
-        assert(this.memberStatuses(callerKey).exists, 'Caller is not a member')
-        assert(this.memberStatuses(callerKey).value === Uint64(2), 'Caller has not joined')
-        assert(this.memberRoles(callerKey).value === Uint64(1), 'Caller is not admin')
+    removeMember(groupId: uint64, user: Account): void {
+        const callerRole = this.callerRole(groupId)
+        assert(this.canManage(callerRole, this.roleOf(groupId, user)), 'Caller cannot remove this member')
 
         const userKey = { groupId: groupId, user: user }
         this.memberStatuses(userKey).value = Uint64(0)
+        emit<MemberRemoved>({ groupId: groupId, remover: Txn.sender, user: user })
+    }
+
+    @abimethod()
+    changeRole(groupId: uint64, user: Account, role: uint64): void {
+        const callerRole = this.callerRole(groupId)
+        const userKey = { groupId: groupId, user: user }
+        assert(this.memberStatuses(userKey).exists && this.memberStatuses(userKey).value !== Uint64(0), 'Not a member')
+        assert(role < Uint64(4), 'Ownership is only transferred')
+        assert(this.canManage(callerRole, this.roleOf(groupId, user)), 'Caller cannot change this member')
+        assert(this.canManage(callerRole, role), 'Caller cannot assign this role')
+        this.memberRoles(userKey).value = role
+        emit<RoleChanged>({ groupId: groupId, changer: Txn.sender, user: user, role: role })
+    }
+
+    // The previous owner stays on as an admin
+    @abimethod()
+    transferOwnership(groupId: uint64, newOwner: Account): void {
+        assert(this.callerRole(groupId) === Uint64(4), 'Caller is not the owner')
+        assert(this.isJoined(groupId, newOwner), 'New owner has not joined')
+
+        this.groupOwners(groupId).value = newOwner
+        this.memberRoles({ groupId: groupId, user: newOwner }).value = Uint64(4)
+        this.memberRoles({ groupId: groupId, user: Txn.sender }).value = Uint64(1)
+        emit<OwnershipTransferred>({ groupId: groupId, previousOwner: Txn.sender, newOwner: newOwner })
     }
 
     @abimethod()
     leaveGroup(groupId: uint64): void {
-        const key = { groupId: groupId, user: Txn.sender.bytes.toString() }
+        const key = { groupId: groupId, user: Txn.sender }
         assert(this.memberStatuses(key).exists, 'Not a member')
         assert(this.memberStatuses(key).value === Uint64(2), 'Not joined')
+        assert(!this.isOwner(groupId, key.user), 'Transfer ownership before leaving')
         this.memberStatuses(key).value = Uint64(0)
+        emit<MemberLeft>({ groupId: groupId, user: Txn.sender })
     }
 
     @abimethod({ readonly: true })
@@ -84,13 +166,22 @@ export class GroupRegistry extends Contract {
     }
 
     @abimethod({ readonly: true })
-    getGroupCreator(groupId: uint64): string {
+    getGroupCreator(groupId: uint64): Account {
         assert(this.groupCreators(groupId).exists, 'Group does not exist')
         return this.groupCreators(groupId).value
     }
 
     @abimethod({ readonly: true })
-    getMemberStatus(groupId: uint64, user: string): uint64 {
+    getGroupOwner(groupId: uint64): Account {
+        assert(this.groupCreators(groupId).exists, 'Group does not exist')
+        if (this.groupOwners(groupId).exists) {
+            return this.groupOwners(groupId).value
+        }
+        return this.groupCreators(groupId).value
+    }
+
+    @abimethod({ readonly: true })
+    getMemberStatus(groupId: uint64, user: Account): uint64 {
         const key = { groupId: groupId, user: user }
         if (this.memberStatuses(key).exists) {
             return this.memberStatuses(key).value
@@ -99,16 +190,12 @@ export class GroupRegistry extends Contract {
     }
 
     @abimethod({ readonly: true })
-    getMemberRole(groupId: uint64, user: string): uint64 {
-        const key = { groupId: groupId, user: user }
-        if (this.memberRoles(key).exists) {
-            return this.memberRoles(key).value
-        }
-        return Uint64(0)
+    getMemberRole(groupId: uint64, user: Account): uint64 {
+        return this.roleOf(groupId, user)
     }
 
     @abimethod({ readonly: true })
-    isMember(groupId: uint64, user: string): boolean {
+    isMember(groupId: uint64, user: Account): boolean {
         const key = { groupId: groupId, user: user }
         if (this.memberStatuses(key).exists) {
             return this.memberStatuses(key).value === Uint64(2)
@@ -117,16 +204,60 @@ export class GroupRegistry extends Contract {
     }
 
     @abimethod({ readonly: true })
-    isAdmin(groupId: uint64, user: string): boolean {
-        const key = { groupId: groupId, user: user }
-        if (this.memberStatuses(key).exists && this.memberRoles(key).exists) {
-            return this.memberStatuses(key).value === Uint64(2) && this.memberRoles(key).value === Uint64(1)
-        }
-        return false
+    isAdmin(groupId: uint64, user: Account): boolean {
+        if (!this.isJoined(groupId, user)) return false
+        const role = this.roleOf(groupId, user)
+        return role === Uint64(4) || role === Uint64(1)
+    }
+
+    // Owners, admins and editors upload group files
+    @abimethod({ readonly: true })
+    canUpload(groupId: uint64, user: Account): boolean {
+        if (!this.isJoined(groupId, user)) return false
+        const role = this.roleOf(groupId, user)
+        return role === Uint64(4) || role === Uint64(1) || role === Uint64(0)
+    }
+
+    // Everyone but auditors may be given group file keys
+    @abimethod({ readonly: true })
+    canReadFiles(groupId: uint64, user: Account): boolean {
+        return this.isJoined(groupId, user) && this.roleOf(groupId, user) !== Uint64(3)
     }
 
     @abimethod({ readonly: true })
     getGroupCount(): uint64 {
         return this.groupCount.value
     }
+
+    // Copying groups from a previous deployment (see migrate.ts). Only the creator
+    // may import, only until finishImport, and imported groups keep their IDs.
+    private assertImporting(): void {
+        assert(Txn.sender === Global.creatorAddress, 'Only the creator can import')
+        assert(this.importClosed.value === Uint64(0), 'Import is closed')
+    }
+
+    @abimethod()
+    importGroup(groupId: uint64, name: string, creator: Account, owner: Account): void {
+        this.assertImporting()
+        assert(!this.groupCreators(groupId).exists, 'Group already exists')
+        this.groupNames(groupId).value = name
+        this.groupCreators(groupId).value = creator
+        this.groupOwners(groupId).value = owner
+        if (groupId > this.groupCount.value) this.groupCount.value = groupId
+    }
+
+    @abimethod()
+    importMember(groupId: uint64, user: Account, status: uint64, role: uint64): void {
+        this.assertImporting()
+        assert(this.groupCreators(groupId).exists, 'Group does not exist')
+        const key = { groupId: groupId, user: user }
+        this.memberStatuses(key).value = status
+        this.memberRoles(key).value = role
+    }
+
+    @abimethod()
+    finishImport(): void {
+        assert(Txn.sender === Global.creatorAddress, 'Only the creator can close the import')
+        this.importClosed.value = Uint64(1)
+    }
 }
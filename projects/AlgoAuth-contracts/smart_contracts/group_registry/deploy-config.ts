@@ -1,5 +1,6 @@
 import { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { GroupRegistryFactory } from '../artifacts/group_registry/GroupRegistryClient'
+import { importLegacyGroups } from './migrate'
 
 export async function deploy() {
     console.log('=== Deploying GroupRegistry ===')
@@ -7,6 +8,9 @@ export async function deploy() {
     const algorand = AlgorandClient.fromEnvironment()
     const deployer = await algorand.account.fromEnvironment('DEPLOYER')
 
+    // A previous GroupRegistry whose groups are copied into a newly created app
+    const legacyAppId = BigInt(process.env.LEGACY_GROUP_REGISTRY_APP_ID || '0')
+
     const factory = algorand.client.getTypedAppFactory(GroupRegistryFactory, {
         defaultSender: deployer.addr,
     })
@@ -26,6 +30,11 @@ export async function deploy() {
             sender: deployer.addr,
             receiver: appClient.appAddress,
         })
+
+        if (legacyAppId > 0n) {
+            await importLegacyGroups(algorand, appClient, deployer.addr, legacyAppId)
+        }
+        await appClient.send.finishImport({ args: {} })
     }
 
     console.log(`GroupRegistry deployed with App ID: ${appClient.appClient.appId}`)
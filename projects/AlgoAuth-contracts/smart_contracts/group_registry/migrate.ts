@@ -0,0 +1,59 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import algosdk, { type Address } from 'algosdk'
+import type { GroupRegistryClient } from '../artifacts/group_registry/GroupRegistryClient'
+import { createImportBatch, fromHex, readAppBoxes, readRecord, splitAccountKey, toAddress, toText, toUint64 } from '../migrate-utils'
+
+// Copies groups and memberships from an earlier GroupRegistry into a freshly
+// created one, from member keys holding an address, or a string of the raw public
+// key or the base32 address. Unreadable records are reported and skipped. Run by deploy-config.ts before finishImport; group IDs are kept,
+// so FileRegistry records and group keys on the server stay valid.
+
+export async function importLegacyGroups(
+    algorand: AlgorandClient,
+    appClient: GroupRegistryClient,
+    funder: Address,
+    legacyAppId: bigint,
+) {
+    console.log(`=== Importing GroupRegistry ${legacyAppId} groups ===`)
+    const boxes = await readAppBoxes(algorand, legacyAppId)
+    const batch = createImportBatch(algorand, appClient.appAddress, funder)
+    const counts = { groups: 0, members: 0 }
+
+    const imported = new Set<bigint>()
+    for (const [key, value] of boxes.get('gc') ?? new Map<string, Uint8Array>()) {
+        const groupId = algosdk.bytesToBigInt(fromHex(key))
+        const accounts = readRecord(`group ${groupId}`, () => {
+            const creator = toAddress(value)
+            // Groups created before ownership transfer are owned by their creator
+            const owner = boxes.get('go')?.has(key) ? toAddress(boxes.get('go')!.get(key)) : creator
+            return { creator, owner }
+        })
+        if (!accounts) continue
+        await batch.add(
+            await appClient.params.importGroup({ args: { groupId, name: toText(boxes.get('gn')?.get(key)), ...accounts } }),
+        )
+        imported.add(groupId)
+        counts.groups++
+    }
+    // Members need their group imported first
+    await batch.flush()
+
+    for (const [key, value] of boxes.get('ms') ?? new Map<string, Uint8Array>()) {
+        const status = toUint64(value)
+        // Declined invites leave a status of 0 behind
+        if (status === 0n) continue
+        const member = readRecord(`member ${key}`, () => splitAccountKey(fromHex(key)))
+        if (!member) continue
+        const [groupId, user] = member
+        if (!imported.has(groupId)) {
+            console.warn(`Skipping ${user}'s membership of group ${groupId}, which was not imported`)
+            continue
+        }
+        const role = toUint64(boxes.get('mr')?.get(key))
+        await batch.add(await appClient.params.importMember({ args: { groupId, user, status, role } }))
+        counts.members++
+    }
+    await batch.flush()
+
+    console.log(`Imported ${counts.groups} groups and ${counts.members} members`)
+}
@@ -27,12 +27,17 @@ async function importDeployerIfExists(dir: string) {
   return null
 }
 
+// contracts that others are wired to at creation deploy first
+const DEPLOY_FIRST = ['group_registry']
+
 // get a list of all deployers from the subdirectories
 async function getDeployers() {
   const directories = fs
     .readdirSync(baseDir, { withFileTypes: true })
     .filter((dirent) => dirent.isDirectory())
-    .map((dirent) => path.resolve(baseDir, dirent.name))
+    .map((dirent) => dirent.name)
+    .sort((a, b) => Number(DEPLOY_FIRST.includes(b)) - Number(DEPLOY_FIRST.includes(a)))
+    .map((name) => path.resolve(baseDir, name))
 
   const deployers = await Promise.all(directories.map(importDeployerIfExists))
   return deployers.filter((deployer) => deployer !== null) // Filter out null values
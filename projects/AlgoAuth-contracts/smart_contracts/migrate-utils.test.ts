@@ -0,0 +1,55 @@
+import algosdk from 'algosdk'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { readRecord, splitAccountKey } from './migrate-utils'
+
+const ACCOUNT = algosdk.generateAccount().addr
+
+function arc4String(bytes: Uint8Array): Uint8Array {
+    // Behind the uint64 ID: the string's 2-byte offset (10), then its 2-byte length
+    return new Uint8Array([0, 10, ...algosdk.bigIntToBytes(bytes.length, 2), ...bytes])
+}
+
+function key(id: bigint, account: Uint8Array): Uint8Array {
+    return new Uint8Array([...algosdk.bigIntToBytes(id, 8), ...account])
+}
+
+describe('splitAccountKey', () => {
+    it('reads an ABI address key', () => {
+        expect(splitAccountKey(key(7n, ACCOUNT.publicKey))).toEqual([7n, ACCOUNT.toString()])
+    })
+
+    it('reads a string key holding the raw public key', () => {
+        expect(splitAccountKey(key(7n, arc4String(ACCOUNT.publicKey)))).toEqual([7n, ACCOUNT.toString()])
+    })
+
+    it('reads a string key holding the base32 address', () => {
+        const base32 = new TextEncoder().encode(ACCOUNT.toString())
+        expect(base32.length).toBe(58)
+        expect(splitAccountKey(key(7n, arc4String(base32)))).toEqual([7n, ACCOUNT.toString()])
+    })
+
+    it('rejects keys that hold no account', () => {
+        expect(() => splitAccountKey(key(7n, new Uint8Array(5)))).toThrow(/is not an \(ID, account\) key/)
+        expect(() => splitAccountKey(key(7n, arc4String(new Uint8Array(20))))).toThrow(/holds 20 account bytes/)
+        // A base32 address with a bad checksum
+        const text = ACCOUNT.toString()
+        const corrupt = new TextEncoder().encode((text[0] === 'A' ? 'B' : 'A') + text.slice(1))
+        expect(() => splitAccountKey(key(7n, arc4String(corrupt)))).toThrow()
+    })
+})
+
+describe('readRecord', () => {
+    afterEach(() => vi.restoreAllMocks())
+
+    it('returns what the reader returns', () => {
+        expect(readRecord('file 1', () => 42)).toBe(42)
+    })
+
+    it('reports and skips a record that cannot be read', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(readRecord('file 1', () => {
+            throw new Error('version 2 is missing')
+        })).toBeUndefined()
+        expect(warn).toHaveBeenCalledWith('Skipping file 1: version 2 is missing')
+    })
+})
@@ -0,0 +1,103 @@
+import { AlgorandClient, microAlgo } from '@algorandfoundation/algokit-utils'
+import type { TransactionComposer } from '@algorandfoundation/algokit-utils/types/composer'
+import algosdk, { type Address } from 'algosdk'
+
+// Helpers shared by the FileRegistry and GroupRegistry migrations, which read a
+// previous deployment's boxes from algod and replay them through creator-only
+// import methods on a freshly created app.
+
+const GROUP_SIZE = 16
+const decoder = new TextDecoder()
+
+/** Every box of an app, keyed by prefix, then by the hex of the rest of the name */
+export type AppBoxes = Map<string, Map<string, Uint8Array>>
+
+export async function readAppBoxes(algorand: AlgorandClient, appId: bigint): Promise<AppBoxes> {
+    const names = await algorand.app.getBoxNames(appId)
+    const values = await algorand.app.getBoxValues(appId, names.map((box) => box.nameRaw))
+    const boxes: AppBoxes = new Map()
+    names.forEach((box, i) => {
+        const prefix = decoder.decode(box.nameRaw.slice(0, 2))
+        if (!boxes.has(prefix)) boxes.set(prefix, new Map())
+        boxes.get(prefix)!.set(hex(box.nameRaw.slice(2)), values[i])
+    })
+    return boxes
+}
+
+export function hex(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('hex')
+}
+
+export function fromHex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, 'hex'))
+}
+
+export function toUint64(bytes: Uint8Array | undefined): bigint {
+    return bytes ? algosdk.bytesToBigInt(bytes) : 0n
+}
+
+export function toText(bytes: Uint8Array | undefined): string {
+    return bytes ? decoder.decode(bytes) : ''
+}
+
+export function toAddress(bytes: Uint8Array | undefined): string {
+    return algosdk.encodeAddress(bytes ?? new Uint8Array(32))
+}
+
+/**
+ * Split a (uint64 ID, account) box key. Accounts are ABI addresses (32 bytes).
+ * Before that they were ARC-4 strings behind a 2-byte offset and a 2-byte
+ * length, holding the raw public key or, as the first clients wrote them, the
+ * 58-character base32 address. Throws for a key that holds no account.
+ */
+export function splitAccountKey(key: Uint8Array): [bigint, string] {
+    if (key.length === 8 + 32) return [algosdk.bytesToBigInt(key.slice(0, 8)), toAddress(key.slice(8))]
+    if (key.length < 12 || algosdk.bytesToBigInt(key.slice(10, 12)) !== BigInt(key.length - 12)) {
+        throw new Error(`box key ${hex(key)} is not an (ID, account) key`)
+    }
+    const id = algosdk.bytesToBigInt(key.slice(0, 8))
+    const account = key.slice(12)
+    if (account.length === 32) return [id, toAddress(account)]
+    if (account.length === 58) return [id, algosdk.decodeAddress(toText(account)).toString()]
+    throw new Error(`box key ${hex(key)} holds ${account.length} account bytes`)
+}
+
+/**
+ * Read one legacy record. A record that cannot be read is reported and skipped,
+ * so one bad box does not stop the rest of the import.
+ */
+export function readRecord<T>(description: string, read: () => T): T | undefined {
+    try {
+        return read()
+    } catch (err) {
+        console.warn(`Skipping ${description}: ${err instanceof Error ? err.message : String(err)}`)
+        return undefined
+    }
+}
+
+/**
+ * Sends import calls in groups of 16. The app account pays for imported boxes,
+ * so it is topped up from `funder` before each group.
+ */
+export function createImportBatch(algorand: AlgorandClient, appAddress: Address, funder: Address) {
+    let composer: TransactionComposer = algorand.newGroup()
+    let pending = 0
+
+    async function flush() {
+        if (pending === 0) return
+        const account = await algorand.account.getInformation(appAddress)
+        if (account.balance.microAlgo - account.minBalance.microAlgo < 1_000_000n) {
+            await algorand.send.payment({ sender: funder, receiver: appAddress, amount: microAlgo(2_000_000) })
+        }
+        await composer.send()
+        composer = algorand.newGroup()
+        pending = 0
+    }
+
+    async function add(params: Parameters<TransactionComposer['addAppCallMethodCall']>[0]) {
+        composer.addAppCallMethodCall(params)
+        if (++pending === GROUP_SIZE) await flush()
+    }
+
+    return { add, flush }
+}
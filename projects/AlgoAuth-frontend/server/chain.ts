@@ -0,0 +1,226 @@
+import algosdk from 'algosdk'
+import { AlgorandClient, microAlgo } from '@algorandfoundation/algokit-utils'
+import type { MemberRole } from '../shared/api.js'
+
+// ============================================
+// ON-CHAIN CHECKS (FileRegistry / GroupRegistry)
+// Shared by the API server and the Trustless Trio nodes so each can verify
+// access against the contracts on its own.
+// ============================================
+
+export interface ChainConfig {
+    algodServer: string
+    algodPort: string
+    algodToken: string
+    fileRegistryAppId: bigint
+    groupRegistryAppId: bigint
+    // Read by the audit log, and to confirm transactions algod no longer remembers
+    indexerServer: string
+    indexerPort: string
+    indexerToken: string
+}
+
+export type ChainChecks = ReturnType<typeof createChainChecks>
+
+// Owners, grantees and members are `address` arguments, passed as base32 strings
+const HAS_VALID_ACCESS = algosdk.ABIMethod.fromSignature('hasValidAccess(uint64,address)bool')
+const CAN_RELEASE_KEY_SHARES = algosdk.ABIMethod.fromSignature('canReleaseKeyShares(uint64,address)bool')
+const GET_FILE_INFO = algosdk.ABIMethod.fromSignature(
+    'getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'
+)
+const IS_MEMBER = algosdk.ABIMethod.fromSignature('isMember(uint64,address)bool')
+const IS_ADMIN = algosdk.ABIMethod.fromSignature('isAdmin(uint64,address)bool')
+const CAN_UPLOAD = algosdk.ABIMethod.fromSignature('canUpload(uint64,address)bool')
+const CAN_READ_FILES = algosdk.ABIMethod.fromSignature('canReadFiles(uint64,address)bool')
+const GET_MEMBER_STATUS = algosdk.ABIMethod.fromSignature('getMemberStatus(uint64,address)uint64')
+const GET_MEMBER_ROLE = algosdk.ABIMethod.fromSignature('getMemberRole(uint64,address)uint64')
+const GET_ENCRYPTION_KEY = algosdk.ABIMethod.fromSignature('getEncryptionKey(address)string')
+
+// What a GroupRegistry member must be able to do, and the readonly method that answers it
+const GROUP_CHECKS = { member: IS_MEMBER, admin: IS_ADMIN, upload: CAN_UPLOAD, read: CAN_READ_FILES }
+export type GroupCheck = keyof typeof GROUP_CHECKS
+
+// GroupRegistry memberRoles values; 0 is what plain members were invited with
+const ON_CHAIN_ROLES: Record<number, MemberRole> = { 0: 'editor', 1: 'admin', 2: 'viewer', 3: 'auditor', 4: 'owner' }
+
+// GroupRegistry memberStatuses values; removed, departed and declined members read 0
+const ON_CHAIN_STATUSES = ['none', 'invited', 'joined'] as const
+export type OnChainMemberStatus = typeof ON_CHAIN_STATUSES[number]
+
+// A FileRegistry record as the server compares it with its own; groupId is "0"
+// for files outside any on-chain group
+export interface OnChainFile {
+    owner: string
+    cid: string
+    groupId: string
+    isDeleted: boolean
+}
+
+// A confirmed app call, as algod or the indexer reports it
+interface ConfirmedAppCall {
+    sender: string
+    appId: bigint
+    logs: Uint8Array[]
+}
+
+// An ARC-4 method's return value is logged with this prefix
+const RETURN_PREFIX = Buffer.from('151f7c75', 'hex')
+
+// algosdk's HTTP errors carry the response
+function isNotFound(err: unknown): boolean {
+    return (err as { response?: { status?: number } }).response?.status === 404
+}
+
+export function createChainChecks({
+    algodServer, algodPort, algodToken, fileRegistryAppId, groupRegistryAppId, indexerServer, indexerPort, indexerToken,
+}: ChainConfig) {
+    const algorand = algodServer
+        ? AlgorandClient.fromConfig({ algodConfig: { server: algodServer, port: algodPort, token: algodToken } })
+        : null
+    const indexer = indexerServer ? new algosdk.Indexer(indexerToken, indexerServer, indexerPort) : null
+    const fileRegistryEnabled = !!algorand && fileRegistryAppId > 0n
+    const groupRegistryEnabled = !!algorand && groupRegistryAppId > 0n
+
+    // Simulate a readonly method and return its decoded value. Sent from the funded
+    // app account so the caller needs no balance. FileRegistry's access check on a
+    // group file makes an inner call to GroupRegistry, so the fee covers one.
+    async function simulateReadonly(appId: bigint, method: algosdk.ABIMethod, args: algosdk.ABIValue[]) {
+        if (!algorand) throw new Error('algod is not configured')
+        const result = await algorand
+            .newGroup()
+            .addAppCallMethodCall({
+                appId,
+                method,
+                args,
+                sender: algosdk.getApplicationAddress(appId),
+                staticFee: microAlgo(2000),
+            })
+            .simulate({ skipSignatures: true, allowUnnamedResources: true })
+        return result.returns?.[0]?.returnValue
+    }
+
+    // Ask FileRegistry whether `user` may access `chainFileId`. A server without a
+    // configured app relies on its own share records; with one, a file that was
+    // never registered on-chain grants nobody access.
+    async function hasOnChainAccess(chainFileId: string | null, user: string): Promise<boolean> {
+        if (!fileRegistryEnabled) return true
+        if (!chainFileId) return false
+        return (await simulateReadonly(fileRegistryAppId, HAS_VALID_ACCESS, [BigInt(chainFileId), user])) === true
+    }
+
+    // Ask FileRegistry whether the trio nodes may release `chainFileId`'s key shares
+    // to `user` (auditors may not). Same defaults as hasOnChainAccess.
+    async function canReleaseKeyShares(chainFileId: string | null, user: string): Promise<boolean> {
+        if (!fileRegistryEnabled) return true
+        if (!chainFileId) return false
+        return (await simulateReadonly(fileRegistryAppId, CAN_RELEASE_KEY_SHARES, [BigInt(chainFileId), user])) === true
+    }
+
+    // The owner, CID and group FileRegistry records for `chainFileId`. Throws when
+    // the file does not exist (or no app is configured).
+    async function getOnChainFile(chainFileId: string): Promise<OnChainFile> {
+        if (!fileRegistryEnabled) throw new Error('FileRegistry is not configured')
+        const record = await simulateReadonly(fileRegistryAppId, GET_FILE_INFO, [BigInt(chainFileId)])
+        const [owner, cid, , groupId, , , , isDeleted] = record as algosdk.ABIValue[]
+        return { owner: String(owner), cid: String(cid), groupId: String(groupId), isDeleted: isDeleted === true }
+    }
+
+    // A confirmed app call by its transaction ID, or null when neither algod, which
+    // only remembers recent transactions, nor the indexer (if configured) knows it
+    async function getConfirmedAppCall(txId: string): Promise<ConfirmedAppCall | null> {
+        if (!algorand) throw new Error('algod is not configured')
+        try {
+            const pending = await algorand.client.algod.pendingTransactionInformation(txId).do()
+            if (!pending.confirmedRound) return null
+            const { txn } = pending.txn
+            return { sender: txn.sender.toString(), appId: txn.applicationCall?.appIndex ?? 0n, logs: pending.logs ?? [] }
+        } catch (err) {
+            if (!isNotFound(err)) throw err
+        }
+        if (!indexer) return null
+        try {
+            const { transaction } = await indexer.lookupTransactionByID(txId).do()
+            return {
+                sender: transaction.sender,
+                appId: transaction.applicationTransaction?.applicationId ?? 0n,
+                logs: transaction.logs ?? [],
+            }
+        } catch (err) {
+            if (isNotFound(err)) return null
+            throw err
+        }
+    }
+
+    // Check a client's claim that `txId` registered `cid` for `owner` as FileRegistry
+    // file `chainFileId`. Returns why the claim does not hold, or null when it does.
+    async function verifyFileRegistration(chainFileId: string, txId: string | null, owner: string, cid: string): Promise<string | null> {
+        if (!fileRegistryEnabled) return 'FileRegistry is not configured on this server'
+        if (!txId) return 'txId is required'
+        // The owner always has access to a live file, so this also checks it exists
+        if (!(await hasOnChainAccess(chainFileId, owner))) return `File #${chainFileId} is not registered to you`
+        const record = await getOnChainFile(chainFileId)
+        if (record.owner !== owner) return `File #${chainFileId} is not registered to you`
+        if (record.cid !== cid) return `File #${chainFileId} is registered with another CID`
+
+        const call = await getConfirmedAppCall(txId)
+        if (!call) return `Transaction ${txId} is not confirmed`
+        const returned = Buffer.concat([RETURN_PREFIX, algosdk.encodeUint64(BigInt(chainFileId))])
+        const last = call.logs.at(-1)
+        if (call.appId !== fileRegistryAppId || call.sender !== owner || !last || !returned.equals(Buffer.from(last))) {
+            return `Transaction ${txId} did not register file #${chainFileId}`
+        }
+        return null
+    }
+
+    // The X25519 public key `address` registered in FileRegistry, or null when it
+    // has none (or no app is configured)
+    async function getOnChainPublicKey(address: string): Promise<string | null> {
+        if (!fileRegistryEnabled) return null
+        const key = await simulateReadonly(fileRegistryAppId, GET_ENCRYPTION_KEY, [address])
+        return typeof key === 'string' && key ? key : null
+    }
+
+    // Group IDs are the GroupRegistry uint64 as a decimal string; groups created
+    // while no app was configured keep a server UUID and are not checked on-chain.
+    function isOnChainGroup(groupId: string): boolean {
+        return groupRegistryEnabled && /^\d+$/.test(groupId)
+    }
+
+    // Ask GroupRegistry whether `address` has joined `groupId` — by default in any
+    // role, or in one that may administer it, upload to it or open its files
+    async function isOnChainGroupMember(groupId: string, address: string, { can = 'member' }: { can?: GroupCheck } = {}): Promise<boolean> {
+        if (!isOnChainGroup(groupId)) return true
+        return (await simulateReadonly(groupRegistryAppId, GROUP_CHECKS[can], [BigInt(groupId), address])) === true
+    }
+
+    // Whether GroupRegistry has `address` invited to or joined in `groupId`, or null
+    // for groups that are not on-chain
+    async function getOnChainGroupStatus(groupId: string, address: string): Promise<OnChainMemberStatus | null> {
+        if (!isOnChainGroup(groupId)) return null
+        const status = await simulateReadonly(groupRegistryAppId, GET_MEMBER_STATUS, [BigInt(groupId), address])
+        return ON_CHAIN_STATUSES[Number(status)] ?? 'none'
+    }
+
+    // The role GroupRegistry records for `address` in `groupId`: null for groups that
+    // are not on-chain, 'none' for non-members, whose role reads 0 like an editor's
+    async function getOnChainGroupRole(groupId: string, address: string): Promise<MemberRole | 'none' | null> {
+        const status = await getOnChainGroupStatus(groupId, address)
+        if (status === null || status === 'none') return status
+        const role = await simulateReadonly(groupRegistryAppId, GET_MEMBER_ROLE, [BigInt(groupId), address])
+        return ON_CHAIN_ROLES[Number(role)] ?? null
+    }
+
+    return {
+        fileRegistryEnabled,
+        groupRegistryEnabled,
+        hasOnChainAccess,
+        canReleaseKeyShares,
+        getOnChainFile,
+        verifyFileRegistration,
+        getOnChainPublicKey,
+        isOnChainGroup,
+        isOnChainGroupMember,
+        getOnChainGroupStatus,
+        getOnChainGroupRole,
+    }
+}
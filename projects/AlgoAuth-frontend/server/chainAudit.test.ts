@@ -0,0 +1,116 @@
+import crypto from 'crypto'
+import algosdk from 'algosdk'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ChainConfig } from './chain.js'
+import { createChainAudit } from './chainAudit.js'
+import { createStorage } from './storage.js'
+
+const CONFIG: ChainConfig = {
+    algodServer: '', algodPort: '', algodToken: '',
+    indexerServer: 'http://indexer.test', indexerPort: '', indexerToken: '',
+    fileRegistryAppId: 1001n,
+    groupRegistryAppId: 0n,
+}
+
+const USER = algosdk.generateAccount().addr.toString()
+
+// A KeyRegistered(address,string) log, as FileRegistry emits it
+function keyRegisteredLog(publicKey: string): Uint8Array {
+    const selector = crypto.createHash('sha512-256').update('KeyRegistered(address,string)').digest().subarray(0, 4)
+    return new Uint8Array([...selector, ...algosdk.ABIType.from('(address,string)').encode([USER, publicKey])])
+}
+
+function txn(round: bigint, publicKey: string) {
+    return { id: `TX${round}`, confirmedRound: round, roundTime: Number(round), logs: [keyRegisteredLog(publicKey)] }
+}
+
+// Indexer pages keyed by the next token that fetches them ('' for the first); an
+// Error is thrown as the indexer failing
+type Pages = Record<string, { transactions: ReturnType<typeof txn>[]; nextToken?: string } | Error>
+
+function mockIndexer(pagesFor: (minRound: bigint) => Pages) {
+    const queries: { minRound: bigint; token: string }[] = []
+    vi.spyOn(algosdk.Indexer.prototype, 'searchForTransactions').mockImplementation(() => {
+        const query = { minRound: 0n, token: '' }
+        const builder = {
+            applicationID: () => builder,
+            limit: () => builder,
+            minRound: (round: bigint) => ((query.minRound = round), builder),
+            nextToken: (token: string) => ((query.token = token), builder),
+            do: async () => {
+                queries.push({ ...query })
+                const page = pagesFor(query.minRound)[query.token] ?? { transactions: [] }
+                if (page instanceof Error) throw page
+                return page
+            },
+        }
+        return builder as unknown as ReturnType<algosdk.Indexer['searchForTransactions']>
+    })
+    return queries
+}
+
+describe('chain audit pagination', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    afterEach(() => vi.restoreAllMocks())
+
+    it('keeps minRound fixed across pages and resumes after the last round read', async () => {
+        const queries = mockIndexer((minRound): Pages =>
+            minRound === 0n
+                ? {
+                    '': { transactions: [txn(10n, 'k1'), txn(11n, 'k2')], nextToken: 'p2' },
+                    p2: { transactions: [txn(12n, 'k3')], nextToken: 'p3' },
+                    p3: { transactions: [], nextToken: 'p4' },
+                }
+                : { '': { transactions: [txn(20n, 'k4')] } }
+        )
+        const audit = createChainAudit(CONFIG, createStorage())
+        const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000)
+
+        const first = await audit.listAudit(() => true)
+        expect(queries).toEqual([
+            { minRound: 0n, token: '' },
+            { minRound: 0n, token: 'p2' },
+            { minRound: 0n, token: 'p3' },
+        ])
+        expect(first.map(e => e.txId)).toEqual(['TX12', 'TX11', 'TX10'])
+
+        now.mockReturnValue(2_000_000)
+        const second = await audit.listAudit(() => true)
+        expect(queries.slice(3)).toEqual([{ minRound: 13n, token: '' }])
+        expect(second.map(e => e.txId)).toEqual(['TX20', 'TX12', 'TX11', 'TX10'])
+    })
+
+    it('reads every page again after a failure part way through, without duplicates', async () => {
+        let failures = 1
+        const queries = mockIndexer((): Pages => ({
+            '': { transactions: [txn(10n, 'k1')], nextToken: 'p2' },
+            get p2() {
+                return failures-- > 0 ? new Error('indexer unavailable') : { transactions: [txn(11n, 'k2')] }
+            },
+        }))
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        const audit = createChainAudit(CONFIG, createStorage())
+        const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000)
+
+        expect(await audit.listAudit(() => true)).toEqual([])
+
+        now.mockReturnValue(2_000_000)
+        const events = await audit.listAudit(() => true)
+        expect(queries.map(q => q.minRound)).toEqual([0n, 0n, 0n, 0n])
+        expect(events.map(e => e.txId)).toEqual(['TX11', 'TX10'])
+    })
+
+    it('reads from the same round again when nothing new was found', async () => {
+        const queries = mockIndexer(() => ({}))
+        const audit = createChainAudit(CONFIG, createStorage())
+        const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000)
+
+        await audit.listAudit(() => true)
+        now.mockReturnValue(2_000_000)
+        await audit.listAudit(() => true)
+        expect(queries.map(q => q.minRound)).toEqual([0n, 0n])
+    })
+})
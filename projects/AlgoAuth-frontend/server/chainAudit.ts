@@ -0,0 +1,218 @@
+import crypto from 'crypto'
+import algosdk from 'algosdk'
+import type { AuditEvent, AuditEventType } from '../shared/api.js'
+import type { ChainConfig } from './chain.js'
+import type { Storage } from './storage.js'
+
+// ============================================
+// ON-CHAIN AUDIT LOG
+// FileRegistry and GroupRegistry log an ARC-28 event for every change they make.
+// Read back through the indexer, they give the audit log real transaction IDs
+// that anyone can check, and they outlive the server's own records.
+// ============================================
+
+export type ChainAudit = ReturnType<typeof createChainAudit>
+
+type AuditEntry = Omit<AuditEvent, 'id' | 'timestamp' | 'txId'>
+type EventArgs = Record<string, algosdk.ABIValue>
+
+// Event names and fields, as the contracts declare them
+const EVENTS: Record<string, [name: string, type: string][]> = {
+    FileRegistered: [['fileId', 'uint64'], ['owner', 'address'], ['groupId', 'uint64'], ['cid', 'string']],
+    FileUpdated: [['fileId', 'uint64'], ['editor', 'address'], ['version', 'uint64'], ['cid', 'string']],
+    FileDeleted: [['fileId', 'uint64'], ['owner', 'address']],
+    AccessGranted: [['fileId', 'uint64'], ['grantor', 'address'], ['user', 'address'], ['permission', 'string'], ['expiresAt', 'uint64']],
+    AccessRevoked: [['fileId', 'uint64'], ['owner', 'address'], ['user', 'address']],
+    KeyRegistered: [['user', 'address'], ['publicKey', 'string']],
+    GroupCreated: [['groupId', 'uint64'], ['creator', 'address'], ['name', 'string']],
+    MemberInvited: [['groupId', 'uint64'], ['inviter', 'address'], ['user', 'address'], ['role', 'uint64']],
+    MemberJoined: [['groupId', 'uint64'], ['user', 'address']],
+    MemberRemoved: [['groupId', 'uint64'], ['remover', 'address'], ['user', 'address']],
+    MemberLeft: [['groupId', 'uint64'], ['user', 'address']],
+    RoleChanged: [['groupId', 'uint64'], ['changer', 'address'], ['user', 'address'], ['role', 'uint64']],
+    OwnershipTransferred: [['groupId', 'uint64'], ['previousOwner', 'address'], ['newOwner', 'address']],
+}
+
+// An ARC-28 log is the first 4 bytes of the SHA-512/256 of the event signature,
+// then the ABI-encoded fields
+const DECODERS = new Map(
+    Object.entries(EVENTS).map(([name, fields]) => {
+        const types = fields.map(([, type]) => type).join(',')
+        const selector = crypto.createHash('sha512-256').update(`${name}(${types})`).digest('hex').slice(0, 8)
+        return [selector, { name, fields, type: algosdk.ABIType.from(`(${types})`) }]
+    })
+)
+
+// The server knows why some calls were made: a grant to a public link's burner
+// key, or an update that restored an old version. It may only rename an
+// on-chain event to one of these.
+const REFINEMENTS: Partial<Record<AuditEventType, AuditEventType[]>> = {
+    FILE_VERSION: ['FILE_RESTORE', 'KEY_ROTATED'],
+    FILE_SHARE: ['PUBLIC_LINK_CREATED'],
+    SHARE_UPDATED: ['PUBLIC_LINK_CREATED'],
+    SHARE_REVOKED: ['PUBLIC_LINK_REVOKED'],
+}
+
+const PAGE_SIZE = 1000
+const REFRESH_MS = 5000
+
+export function createChainAudit(
+    { indexerServer, indexerPort, indexerToken, fileRegistryAppId, groupRegistryAppId }: ChainConfig,
+    store: Storage
+) {
+    const indexer = indexerServer ? new algosdk.Indexer(indexerToken, indexerServer, indexerPort) : null
+    const appIds = [fileRegistryAppId, groupRegistryAppId].filter(id => id > 0n)
+    const enabled = !!indexer && appIds.length > 0
+
+    // Decoded events, oldest first, and the first round not read yet for each app
+    const events: AuditEvent[] = []
+    const nextRound = new Map(appIds.map(id => [id, 0n]))
+    // FileRegistry file ID of each file event. The server's file ID is looked up when
+    // the log is listed, since a file is linked to its chain ID after registering.
+    const chainFileIds = new Map<number, string>()
+    // Replayed from the events so they hold even for files the server has lost
+    const fileGroups = new Map<string, string>()
+    const activeGrants = new Set<string>()
+    let refreshing: Promise<void> | null = null
+    let refreshedAt = 0
+
+    function fileEntry(type: AuditEventType, actor: string, chainFileId: bigint, target: string | null = null): AuditEntry {
+        const groupId = fileGroups.get(chainFileId.toString()) ?? null
+        return { type, actor, fileId: null, target, groupId, onChain: true }
+    }
+
+    function groupEntry(type: AuditEventType, actor: string, groupId: bigint, target: string | null = null): AuditEntry {
+        return { type, actor, fileId: null, target: target ?? groupId.toString(), groupId: groupId.toString(), onChain: true }
+    }
+
+    function toEntry(name: string, args: EventArgs): AuditEntry | null {
+        const str = (key: string) => String(args[key])
+        const id = (key: string) => BigInt(args[key] as bigint)
+        switch (name) {
+            case 'FileRegistered':
+                if (id('groupId') > 0n) fileGroups.set(str('fileId'), str('groupId'))
+                return fileEntry('FILE_UPLOAD', str('owner'), id('fileId'))
+            case 'FileUpdated':
+                return fileEntry('FILE_VERSION', str('editor'), id('fileId'), `v${str('version')}`)
+            case 'FileDeleted':
+                return fileEntry('FILE_DELETE', str('owner'), id('fileId'))
+            case 'AccessGranted': {
+                // Re-granting an active grant changes it
+                const grant = `${str('fileId')}:${str('user')}`
+                const type = activeGrants.has(grant) ? 'SHARE_UPDATED' : 'FILE_SHARE'
+                activeGrants.add(grant)
+                return fileEntry(type, str('grantor'), id('fileId'), str('user'))
+            }
+            case 'AccessRevoked':
+                activeGrants.delete(`${str('fileId')}:${str('user')}`)
+                return fileEntry('SHARE_REVOKED', str('owner'), id('fileId'), str('user'))
+            case 'KeyRegistered':
+                return { type: 'KEY_REGISTERED', actor: str('user'), fileId: null, target: null, groupId: null, onChain: true }
+            case 'GroupCreated':
+                return groupEntry('GROUP_CREATED', str('creator'), id('groupId'))
+            case 'MemberInvited':
+                return groupEntry('MEMBER_INVITED', str('inviter'), id('groupId'), str('user'))
+            case 'MemberJoined':
+                return groupEntry('MEMBER_JOINED', str('user'), id('groupId'))
+            case 'MemberRemoved':
+                return groupEntry('MEMBER_REMOVED', str('remover'), id('groupId'), str('user'))
+            case 'MemberLeft':
+                return groupEntry('MEMBER_LEFT', str('user'), id('groupId'))
+            case 'RoleChanged':
+                return groupEntry('MEMBER_ROLE_CHANGED', str('changer'), id('groupId'), str('user'))
+            case 'OwnershipTransferred':
+                return groupEntry('OWNERSHIP_TRANSFERRED', str('previousOwner'), id('groupId'), str('newOwner'))
+            default:
+                return null
+        }
+    }
+
+    // Decode the events an app call logged. Other logs (the ABI return value) are skipped.
+    function readTransaction(txn: algosdk.indexerModels.Transaction) {
+        for (const log of txn.logs ?? []) {
+            const decoder = DECODERS.get(Buffer.from(log.slice(0, 4)).toString('hex'))
+            if (!decoder) continue
+            const values = decoder.type.decode(log.slice(4)) as algosdk.ABIValue[]
+            const args = Object.fromEntries(decoder.fields.map(([name], i) => [name, values[i]]))
+            const entry = toEntry(decoder.name, args)
+            if (!entry) continue
+            // Chain events count down from -1, so their IDs never meet the server's
+            const id = -(events.length + 1)
+            if ('fileId' in args) chainFileIds.set(id, String(args.fileId))
+            events.push({ id, ...entry, timestamp: Number(txn.roundTime ?? 0) * 1000, txId: txn.id ?? null })
+        }
+    }
+
+    // A next token belongs to the query that returned it, so minRound stays put
+    // until the pages run out; only then does the next refresh start past them.
+    // Pages are staged until the last one arrives, so a failure part way through
+    // reads them all again next time instead of logging the first ones twice.
+    async function readApp(appId: bigint) {
+        const minRound = nextRound.get(appId)!
+        const staged: algosdk.indexerModels.Transaction[] = []
+        let token: string | undefined
+        do {
+            let query = indexer!.searchForTransactions().applicationID(appId).minRound(minRound).limit(PAGE_SIZE)
+            if (token) query = query.nextToken(token)
+            const page = await query.do()
+            staged.push(...page.transactions)
+            token = page.transactions.length > 0 ? page.nextToken : undefined
+        } while (token)
+
+        let lastRound: bigint | undefined
+        for (const txn of staged) {
+            readTransaction(txn)
+            if (txn.confirmedRound !== undefined) lastRound = txn.confirmedRound
+        }
+        if (lastRound !== undefined) nextRound.set(appId, lastRound + 1n)
+    }
+
+    // Read new events at most every few seconds. Indexer errors keep what was read.
+    async function refresh() {
+        if (Date.now() - refreshedAt < REFRESH_MS) return
+        refreshing ??= (async () => {
+            try {
+                for (const appId of appIds) await readApp(appId)
+            } catch (err) {
+                console.error('Reading contract events from the indexer failed:', err)
+            } finally {
+                refreshedAt = Date.now()
+                refreshing = null
+            }
+        })()
+        await refreshing
+    }
+
+    // The audit log, newest first. On-chain events replace the server's records of
+    // the same transactions; the server still adds what only it knows, such as
+    // uploads that were never registered and group rekeys.
+    async function listAudit(predicate: (event: AuditEvent) => boolean, limit = Infinity): Promise<AuditEvent[]> {
+        if (!enabled) return store.listAudit(predicate, limit)
+        await refresh()
+
+        const local = store.listAudit(() => true)
+        const byTxId = new Map(local.filter(e => e.txId).map(e => [e.txId!, e]))
+        const files = new Map<string, ReturnType<Storage['findFileByChainId']>>()
+        const onChain = events.map(event => {
+            const chainFileId = chainFileIds.get(event.id)
+            if (chainFileId && !files.has(chainFileId)) files.set(chainFileId, store.findFileByChainId(chainFileId))
+            const file = chainFileId ? files.get(chainFileId) : undefined
+            const known = event.txId ? byTxId.get(event.txId) : undefined
+            const type = known && REFINEMENTS[event.type]?.includes(known.type) ? known.type : event.type
+            return {
+                ...event,
+                type,
+                fileId: file?.id ?? known?.fileId ?? null,
+                groupId: file?.groupId || event.groupId || known?.groupId || null,
+            }
+        })
+        const chainTxIds = new Set(events.map(e => e.txId))
+
+        return [...onChain, ...local.filter(e => !e.txId || !chainTxIds.has(e.txId))]
+            .filter(predicate)
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit)
+    }
+
+    return { enabled, listAudit }
+}
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { ChainConfig } from './chain.js'
+
+// ============================================
+// CONFIGURATION
+// Shared by the API server and the Trustless Trio nodes.
+// ============================================
+
+// Compiled to dist-server/server/, two levels below the project root
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+export const PROJECT_ROOT = path.resolve(__dirname, '..', '..')
+
+// Load .env.local first (user secrets), then .env (defaults)
+dotenv.config({ path: path.join(PROJECT_ROOT, '.env.local') })
+dotenv.config({ path: path.join(PROJECT_ROOT, '.env') })
+
+export const NODE_IDS = ['alpha', 'beta', 'gamma'] as const
+export type NodeId = (typeof NODE_IDS)[number]
+export const DEFAULT_NODE_PORTS: Record<NodeId, number> = { alpha: 4101, beta: 4102, gamma: 4103 }
+
+export const API_PORT = Number(process.env.PORT || process.env.API_PORT || 3001)
+export const JWT_SECRET = process.env.JWT_SECRET || 'AlgoAuth-dev-secret-change-in-production'
+
+export const CHAIN_CONFIG: ChainConfig = {
+    algodServer: process.env.ALGOD_SERVER || process.env.VITE_ALGOD_SERVER || '',
+    algodPort: process.env.ALGOD_PORT || process.env.VITE_ALGOD_PORT || '',
+    algodToken: process.env.ALGOD_TOKEN || process.env.VITE_ALGOD_TOKEN || '',
+    fileRegistryAppId: BigInt(process.env.FILE_REGISTRY_APP_ID || process.env.VITE_FILE_REGISTRY_APP_ID || '0'),
+    groupRegistryAppId: BigInt(process.env.GROUP_REGISTRY_APP_ID || process.env.VITE_GROUP_REGISTRY_APP_ID || '0'),
+    indexerServer: process.env.INDEXER_SERVER || process.env.VITE_INDEXER_SERVER || '',
+    indexerPort: process.env.INDEXER_PORT || process.env.VITE_INDEXER_PORT || '',
+    indexerToken: process.env.INDEXER_TOKEN || process.env.VITE_INDEXER_TOKEN || '',
+}
+
+export const PINATA_JWT = process.env.PINATA_JWT || ''
+export const PINATA_GATEWAY = process.env.PINATA_GATEWAY || 'gateway.pinata.cloud'
+
+// IPFS_PROVIDER=pinata|local; defaults to Pinata when a JWT is configured.
+// The local provider keeps content-addressed blocks in IPFS_LOCAL_DIR.
+export const IPFS_PROVIDER: 'pinata' | 'local' =
+    process.env.IPFS_PROVIDER === 'local' || process.env.IPFS_PROVIDER === 'pinata'
+        ? process.env.IPFS_PROVIDER
+        : PINATA_JWT ? 'pinata' : 'local'
+export const IPFS_LOCAL_DIR = path.resolve(process.env.IPFS_LOCAL_DIR || path.join(PROJECT_ROOT, 'server', 'data', 'ipfs'))
+
+// Uploads are spooled to a temp file, so this is bounded by disk rather than memory
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES || 16 * 1024 ** 3)
+
+// STORAGE=memory keeps everything in memory (wiped on restart)
+export const STORAGE_FILE = process.env.STORAGE === 'memory'
+    ? null
+    : path.resolve(process.env.STORAGE_FILE || path.join(PROJECT_ROOT, 'server', 'data', 'algoauth.json'))
+
+// Trustless Trio node endpoints. Each node runs as its own process
+// (server/node.ts) and holds its own key; this server only stores shares sealed to them.
+export const TRIO_NODES = NODE_IDS.map((id) => ({
+    id,
+    url: process.env[`NODE_${id.toUpperCase()}_URL`] || `http://localhost:${DEFAULT_NODE_PORTS[id]}`,
+}))
+
+// The API server URL, as seen from a Trustless Trio node
+export const API_URL = process.env.API_URL || `http://localhost:${API_PORT}`
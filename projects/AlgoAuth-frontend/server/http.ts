@@ -0,0 +1,73 @@
+import type { NextFunction, Request, Response } from 'express'
+import jwt from 'jsonwebtoken'
+import type { z } from 'zod'
+import type { AuditEvent, AuditEventType, ErrorResponse } from '../shared/api.js'
+import type { ChainChecks } from './chain.js'
+import { JWT_SECRET } from './config.js'
+import type { IpfsProvider } from './ipfs.js'
+import type { Storage } from './storage.js'
+
+// ============================================
+// SHARED ROUTE PLUMBING
+// ============================================
+
+export interface AuthTokenPayload {
+    address: string
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** Set by requireAuth — only read it behind that middleware */
+            user: AuthTokenPayload
+        }
+    }
+}
+
+/** What every router is built from */
+export interface ServerContext {
+    store: Storage
+    chain: ChainChecks
+    ipfs: IpfsProvider
+    addAudit: (type: AuditEventType, actor: string, fileId: string | null, target?: string | null, txId?: string | null, groupId?: string | null) => void
+    /** The audit log, newest first: contract events plus what only the server records */
+    listAudit: (predicate: (event: AuditEvent) => boolean, limit?: number) => Promise<AuditEvent[]>
+}
+
+/**
+ * Verify a bearer JWT; returns the caller's address or why it was rejected
+ */
+export function verifyBearer(authHeader: string | undefined): { address: string } | { error: string } {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return { error: 'Missing or invalid authorization header' }
+    }
+    try {
+        const decoded = jwt.verify(authHeader.split(' ')[1], JWT_SECRET) as AuthTokenPayload
+        return { address: decoded.address }
+    } catch {
+        return { error: 'Invalid or expired token' }
+    }
+}
+
+// Auth middleware
+export function requireAuth<P>(req: Request<P>, res: Response<ErrorResponse>, next: NextFunction) {
+    const result = verifyBearer(req.headers.authorization)
+    if ('error' in result) return res.status(401).json({ error: result.error })
+    req.user = { address: result.address }
+    next()
+}
+
+/**
+ * Validate a request body against its shared schema. Responds 400 with the
+ * first issue and returns null when it does not match.
+ */
+export function parseBody<S extends z.ZodTypeAny>(schema: S, req: Request, res: Response<ErrorResponse>): z.output<S> | null {
+    const result = schema.safeParse(req.body ?? {})
+    if (!result.success) {
+        const issue = result.error.issues[0]
+        const field = issue?.path.join('.')
+        res.status(400).json({ error: issue ? (field && !issue.message.includes(field) ? `${field}: ${issue.message}` : issue.message) : 'Invalid request body' })
+        return null
+    }
+    return result.data
+}
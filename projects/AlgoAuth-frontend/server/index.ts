@@ -0,0 +1,104 @@
+import express, { type Response } from 'express'
+import cors from 'cors'
+import type { HealthResponse } from '../shared/api.js'
+import { createChainChecks } from './chain.js'
+import { createChainAudit } from './chainAudit.js'
+import {
+    API_PORT,
+    CHAIN_CONFIG,
+    IPFS_LOCAL_DIR,
+    IPFS_PROVIDER,
+    PINATA_GATEWAY,
+    PINATA_JWT,
+    STORAGE_FILE,
+    TRIO_NODES,
+} from './config.js'
+import type { ServerContext } from './http.js'
+import { createLocalProvider, createPinataProvider } from './ipfs.js'
+import { createAuditRouter } from './routes/audit.js'
+import { createAuthRouter } from './routes/auth.js'
+import { createFilesRouter } from './routes/files.js'
+import { createGroupsRouter } from './routes/groups.js'
+import { createKeysRouter } from './routes/keys.js'
+import { createNodesRouter } from './routes/nodes.js'
+import { createPublicLinksRouter } from './routes/publicLinks.js'
+import { createSharingRouter } from './routes/sharing.js'
+import { createStorage } from './storage.js'
+
+// ============================================
+// AlgoAuth API server
+// Usage: npm run server
+// ============================================
+
+const store = createStorage({ file: STORAGE_FILE })
+const chain = createChainChecks(CHAIN_CONFIG)
+const chainAudit = createChainAudit(CHAIN_CONFIG, store)
+const ipfs = IPFS_PROVIDER === 'pinata'
+    ? createPinataProvider({ jwt: PINATA_JWT, gateway: PINATA_GATEWAY })
+    : createLocalProvider({ dir: IPFS_LOCAL_DIR })
+
+const ctx: ServerContext = {
+    store,
+    chain,
+    ipfs,
+    // Events about an organization file land in that organization's audit log too
+    addAudit: (type, actor, fileId, target = null, txId = null, groupId = null) => {
+        groupId ??= (fileId && store.getFile(fileId)?.groupId) || null
+        store.addAudit({ type, actor, fileId, target, groupId, timestamp: Date.now(), txId })
+    },
+    listAudit: chainAudit.listAudit,
+}
+
+const app = express()
+
+// Middleware
+app.use(cors())
+app.use(express.json({ limit: '50mb' }))
+
+app.use('/api/auth', createAuthRouter(ctx))
+app.use('/api/files', createFilesRouter(ctx))
+app.use('/api/files', createSharingRouter(ctx))
+app.use('/api', createPublicLinksRouter(ctx))
+app.use('/api/keys', createKeysRouter(ctx))
+app.use('/api/groups', createGroupsRouter(ctx))
+app.use('/api/nodes', createNodesRouter())
+app.use('/api/audit', createAuditRouter(ctx))
+
+// ============================================
+// Health check
+// ============================================
+app.get('/api/health', (req, res: Response<HealthResponse>) => {
+    res.json({
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        pinataConfigured: !!PINATA_JWT,
+        ipfsProvider: ipfs.name,
+        fileRegistryAppId: CHAIN_CONFIG.fileRegistryAppId.toString(),
+        groupRegistryAppId: CHAIN_CONFIG.groupRegistryAppId.toString(),
+        onChainAccessChecks: chain.fileRegistryEnabled,
+        onChainGroupChecks: chain.groupRegistryEnabled,
+        onChainAuditLog: chainAudit.enabled,
+        gateway: PINATA_GATEWAY,
+        trioNodes: TRIO_NODES.length,
+        storage: STORAGE_FILE ? 'file' : 'memory',
+    })
+})
+
+// Write out changes still waiting to be persisted before stopping
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+        store.flush()
+        process.exit(0)
+    })
+}
+
+// Start server
+app.listen(API_PORT, () => {
+    console.log(`\n🛡️  AlgoAuth API Server running on http://localhost:${API_PORT}`)
+    console.log(`   Health check: http://localhost:${API_PORT}/api/health`)
+    console.log(`   Pinata JWT: ${PINATA_JWT ? '✅ configured (' + PINATA_JWT.substring(0, 20) + '...)' : '❌ not set'}`)
+    console.log(`   IPFS: ${ipfs.name === 'pinata' ? 'Pinata via ' + PINATA_GATEWAY : 'local store at ' + IPFS_LOCAL_DIR}`)
+    console.log(`   Trustless Trio: ${TRIO_NODES.map(n => n.url).join(', ')}`)
+    console.log(`   Storage: ${STORAGE_FILE || 'in-memory (wiped on restart)'}`)
+    console.log()
+})
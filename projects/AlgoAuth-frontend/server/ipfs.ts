@@ -0,0 +1,169 @@
+import crypto from 'crypto'
+import { createReadStream, createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import * as Digest from 'multiformats/hashes/digest'
+import { sha256 } from 'multiformats/hashes/sha2'
+
+// ============================================
+// IPFS PROVIDERS
+// Where encrypted file bytes are pinned. Pinata is used when PINATA_JWT is set;
+// otherwise a local content-addressed directory stands in for it so the full
+// encrypt → upload → download → decrypt loop works offline.
+// Content is streamed from and to disk so multi-gigabyte files never sit in memory.
+// ============================================
+
+export interface PinnedObject {
+    stream: Readable
+    contentType: string
+    size: number | null
+}
+
+export interface IpfsProvider {
+    name: 'pinata' | 'local'
+    /** Pin the contents of a file on disk and return their CID */
+    pin(filePath: string, filename: string): Promise<string>
+    /** Fetch pinned bytes, or null when the CID is unknown */
+    get(cid: string): Promise<PinnedObject | null>
+    /** Unpin; unknown CIDs are not an error */
+    unpin(cid: string): Promise<void>
+}
+
+export function createPinataProvider({ jwt, gateway }: { jwt: string; gateway: string }): IpfsProvider {
+    return {
+        name: 'pinata',
+
+        async pin(filePath, filename) {
+            // Hand-rolled multipart body so the file is streamed rather than read into a Blob
+            const boundary = `----AlgoAuth${crypto.randomBytes(12).toString('hex')}`
+            const safeName = filename.replace(/["\r\n]/g, '_')
+            async function* body() {
+                yield Buffer.from(
+                    `--${boundary}\r\nContent-Disposition: form-data; name="pinataMetadata"\r\n\r\n` +
+                    `${JSON.stringify({ name: filename })}\r\n` +
+                    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${safeName}"\r\n` +
+                    'Content-Type: application/octet-stream\r\n\r\n'
+                )
+                yield* createReadStream(filePath)
+                yield Buffer.from(`\r\n--${boundary}--\r\n`)
+            }
+
+            const pinataRes = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${jwt}`,
+                    'Content-Type': `multipart/form-data; boundary=${boundary}`,
+                },
+                body: body(),
+                duplex: 'half',
+            })
+
+            if (!pinataRes.ok) {
+                const errText = await pinataRes.text()
+                throw new Error(`Pinata upload failed (${pinataRes.status}): ${errText}`)
+            }
+
+            const pinataData = (await pinataRes.json()) as { IpfsHash: string }
+            return pinataData.IpfsHash
+        },
+
+        async get(cid) {
+            const response = await fetch(`https://${gateway}/ipfs/${cid}`)
+            if (response.status === 404) return null
+            if (!response.ok || !response.body) throw new Error(`Gateway returned ${response.status}`)
+            const length = response.headers.get('content-length')
+            return {
+                stream: Readable.from(response.body),
+                contentType: response.headers.get('content-type') || 'application/octet-stream',
+                size: length ? Number(length) : null,
+            }
+        },
+
+        async unpin(cid) {
+            const pinataRes = await fetch(`https://api.pinata.cloud/pinning/unpin/${cid}`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${jwt}` },
+            })
+            if (!pinataRes.ok && pinataRes.status !== 404) {
+                throw new Error('Failed to unpin from Pinata')
+            }
+        },
+    }
+}
+
+/**
+ * CIDv1 of the content as a single raw block (sha2-256, base32). This is what
+ * `ipfs add --cid-version 1 --raw-leaves` yields for content up to one chunk;
+ * larger files get a different (chunked) CID from a real IPFS node.
+ */
+export function cidFromSha256(digest: Uint8Array): string {
+    return CID.create(1, raw.code, Digest.create(sha256.code, digest)).toString()
+}
+
+// Only well-formed CIDs map to paths, so a request can never escape the directory
+function parseCid(cid: string): CID | null {
+    try {
+        return CID.parse(cid)
+    } catch {
+        return null
+    }
+}
+
+export function createLocalProvider({ dir }: { dir: string }): IpfsProvider {
+    const blockPath = (cid: CID) => path.join(dir, cid.toV1().toString())
+
+    return {
+        name: 'local',
+
+        async pin(filePath) {
+            await fs.mkdir(dir, { recursive: true })
+            // Hash while copying into the store, then move into place under the CID
+            const hash = crypto.createHash('sha256')
+            const tmp = path.join(dir, `.tmp-${crypto.randomUUID()}`)
+            try {
+                await pipeline(
+                    createReadStream(filePath),
+                    async function* (source: AsyncIterable<Buffer>) {
+                        for await (const chunk of source) {
+                            hash.update(chunk)
+                            yield chunk
+                        }
+                    },
+                    createWriteStream(tmp),
+                )
+                const cid = cidFromSha256(hash.digest())
+                // Content-addressed: re-pinning the same bytes just replaces them
+                await fs.rename(tmp, path.join(dir, cid))
+                return cid
+            } catch (err) {
+                await fs.rm(tmp, { force: true })
+                throw err
+            }
+        },
+
+        async get(cidString) {
+            const cid = parseCid(cidString)
+            if (!cid) return null
+            const file = blockPath(cid)
+            let size: number
+            try {
+                size = (await fs.stat(file)).size
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+                throw err
+            }
+            // Not re-hashed on read: clients authenticate every chunk when decrypting
+            return { stream: createReadStream(file), contentType: 'application/octet-stream', size }
+        },
+
+        async unpin(cidString) {
+            const cid = parseCid(cidString)
+            if (!cid) return
+            await fs.rm(blockPath(cid), { force: true })
+        },
+    }
+}
@@ -0,0 +1,162 @@
+import express, { type Response } from 'express'
+import cors from 'cors'
+import crypto from 'crypto'
+import nacl from 'tweetnacl'
+import naclUtil from 'tweetnacl-util'
+import {
+    type ErrorResponse,
+    type MembershipResponse,
+    type NodeInfoResponse,
+    type ReencryptResponse,
+    type SealedShare,
+    ReencryptRequestSchema,
+} from '../shared/api.js'
+import { createChainChecks } from './chain.js'
+import { API_URL, CHAIN_CONFIG, DEFAULT_NODE_PORTS, NODE_IDS, type NodeId } from './config.js'
+import { parseBody, verifyBearer } from './http.js'
+
+// ============================================
+// TRUSTLESS TRIO NODE
+// One key-holding node. It keeps no share storage of its own: the API server
+// stores each share sealed to this node's X25519 key, and the requester's
+// browser brings it here. The node opens it, checks on its own that the
+// requester may have it, and re-encrypts it to the requester's key.
+//
+// Usage: node dist-server/server/node.js <alpha|beta|gamma>
+// ============================================
+
+const NODE_ID = (process.argv[2] || process.env.NODE_ID || '').toLowerCase() as NodeId
+if (!NODE_IDS.includes(NODE_ID)) {
+    console.error(`Usage: node dist-server/server/node.js <${NODE_IDS.join('|')}>`)
+    process.exit(1)
+}
+
+const ENV_PREFIX = `NODE_${NODE_ID.toUpperCase()}`
+const PORT = Number(process.env[`${ENV_PREFIX}_PORT`] || DEFAULT_NODE_PORTS[NODE_ID])
+
+const chain = createChainChecks(CHAIN_CONFIG)
+
+// Derive the node's X25519 keypair from NODE_<ID>_PRIVATE_KEY, a 0x-prefixed
+// 32-byte hex seed (SHA-256 of the string). Only when it is unset, and never in
+// production, fall back to a fixed development seed so sealed shares survive a
+// node restart. A malformed key is an error rather than a silent fallback.
+function loadNodeKeyPair(): nacl.BoxKeyPair {
+    const name = `${ENV_PREFIX}_PRIVATE_KEY`
+    const privEnv = process.env[name]
+    let seed: string
+    if (privEnv) {
+        if (!/^0x[0-9a-fA-F]{64}$/.test(privEnv)) throw new Error(`${name} must be 0x followed by 64 hex digits`)
+        seed = privEnv
+    } else if (process.env.NODE_ENV === 'production') {
+        throw new Error(`${name} is required in production`)
+    } else {
+        console.warn(`⚠️  ${name} not set — using the development key`)
+        seed = `AlgoAuth-dev-node-${NODE_ID}`
+    }
+    const seedHash = crypto.createHash('sha256').update(seed).digest()
+    return nacl.box.keyPair.fromSecretKey(new Uint8Array(seedHash))
+}
+
+const keyPair = loadNodeKeyPair()
+const publicKey = naclUtil.encodeBase64(keyPair.publicKey)
+
+// Open a share sealed to this node (anonymous box from an ephemeral key).
+// The plaintext binds the share to the group it was issued for.
+function openSealedShare(sealed: SealedShare): { groupId: string; share: string } | null {
+    if (sealed.nodeId !== NODE_ID) return null
+    const opened = nacl.box.open(
+        naclUtil.decodeBase64(sealed.encrypted),
+        naclUtil.decodeBase64(sealed.nonce),
+        naclUtil.decodeBase64(sealed.ephemeralPublicKey),
+        keyPair.secretKey
+    )
+    if (!opened) return null
+    const payload = JSON.parse(naclUtil.encodeUTF8(opened))
+    if (typeof payload.groupId !== 'string' || typeof payload.share !== 'string') return null
+    return payload
+}
+
+// Membership is checked against GroupRegistry when it is configured (auditors
+// are members who may not open files). Offline groups only exist on the API
+// server, so ask it — with the requester's own token.
+async function isGroupMember(groupId: string, address: string, authHeader: string): Promise<boolean> {
+    if (chain.isOnChainGroup(groupId)) {
+        return chain.isOnChainGroupMember(groupId, address, { can: 'read' })
+    }
+    const res = await fetch(`${API_URL}/api/groups/${encodeURIComponent(groupId)}/membership`, {
+        headers: { Authorization: authHeader },
+    })
+    if (!res.ok) return false
+    const data = (await res.json()) as MembershipResponse
+    return data.member === true
+}
+
+// With FileRegistry configured, a GroupRegistry group's shares also need
+// FileRegistry to release the file they open, and that file must be one of the
+// group's. The share only names its group, so membership is checked as well.
+async function mayReleaseFileShares(groupId: string, chainFileId: string | null | undefined, address: string): Promise<boolean> {
+    if (!chain.fileRegistryEnabled || !chain.isOnChainGroup(groupId)) return true
+    if (!chainFileId || !(await chain.canReleaseKeyShares(chainFileId, address))) return false
+    return (await chain.getOnChainFile(chainFileId)).groupId === groupId
+}
+
+const app = express()
+app.use(cors())
+app.use(express.json())
+
+// GET /info — Node identity and public key
+app.get('/info', (req, res: Response<NodeInfoResponse>) => {
+    res.json({ id: NODE_ID, publicKey, onChainChecks: chain.groupRegistryEnabled })
+})
+
+// POST /reencrypt — Release this node's share, re-encrypted to the requester
+app.post('/reencrypt', async (req, res: Response<ReencryptResponse | ErrorResponse>) => {
+    const authHeader = req.headers.authorization
+    const auth = verifyBearer(authHeader)
+    if ('error' in auth) return res.status(401).json({ error: auth.error })
+    const { address } = auth
+
+    const body = parseBody(ReencryptRequestSchema, req, res)
+    if (!body) return
+
+    let payload
+    try {
+        payload = openSealedShare(body.sealedShare)
+    } catch {
+        payload = null
+    }
+    if (!payload) return res.status(400).json({ error: `Share is not sealed to node ${NODE_ID}` })
+
+    try {
+        if (!(await isGroupMember(payload.groupId, address, authHeader!))) {
+            console.log(`🚫 [${NODE_ID}] Refused share for group ${payload.groupId} -> ${address.substring(0, 12)}...`)
+            return res.status(403).json({ error: 'Not a member of this group' })
+        }
+        if (!(await mayReleaseFileShares(payload.groupId, body.chainFileId, address))) {
+            console.log(`🚫 [${NODE_ID}] FileRegistry refused share for file #${body.chainFileId ?? '?'} -> ${address.substring(0, 12)}...`)
+            return res.status(403).json({ error: 'Not allowed to open this file (on-chain)' })
+        }
+    } catch (err) {
+        console.error(`[${NODE_ID}] Membership check failed:`, err)
+        return res.status(502).json({ error: 'Could not verify membership' })
+    }
+
+    const nonce = nacl.randomBytes(nacl.box.nonceLength)
+    const encrypted = nacl.box(
+        naclUtil.decodeBase64(payload.share),
+        nonce,
+        naclUtil.decodeBase64(body.recipientPublicKey),
+        keyPair.secretKey
+    )
+    console.log(`✅ [${NODE_ID}] Released share for group ${payload.groupId} -> ${address.substring(0, 12)}...`)
+    res.json({
+        nodeId: NODE_ID,
+        nodePublicKey: publicKey,
+        nonce: naclUtil.encodeBase64(nonce),
+        encrypted: naclUtil.encodeBase64(encrypted),
+    })
+})
+
+app.listen(PORT, () => {
+    console.log(`🔐 Trustless Trio node ${NODE_ID} on http://localhost:${PORT} (publicKey = ${publicKey})`)
+})
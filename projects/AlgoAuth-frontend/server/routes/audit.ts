@@ -0,0 +1,27 @@
+import { Router, type Response } from 'express'
+import type { AuditResponse, ErrorResponse } from '../../shared/api.js'
+import { type ServerContext, requireAuth } from '../http.js'
+import { findOwnedFile } from './files.js'
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+export function createAuditRouter({ store, listAudit }: ServerContext): Router {
+    const router = Router()
+
+    // GET /api/audit — Get audit log for user
+    router.get('/', requireAuth, async (req, res: Response<AuditResponse>) => {
+        const address = req.user.address
+        res.json({ events: await listAudit(a => a.actor === address || a.target === address, 50) })
+    })
+
+    // GET /api/audit/:fileId — Get audit log for a specific file (only for owner)
+    router.get('/:fileId', requireAuth, async (req, res: Response<AuditResponse | ErrorResponse>) => {
+        const file = findOwnedFile(store, req.user.address, req.params.fileId)
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        res.json({ events: await listAudit(a => a.fileId === file.id, 20) })
+    })
+
+    return router
+}
@@ -0,0 +1,95 @@
+import algosdk from 'algosdk'
+import naclUtil from 'tweetnacl-util'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NONCES_PER_ADDRESS, NONCE_TTL_MS, createNonceStore, verifyAuthTransaction } from './auth.js'
+
+const MESSAGE = 'AlgoAuth Authentication\nAddress: test\nNonce: 00\nTimestamp: 0'
+const PARAMS: algosdk.SuggestedParams = { fee: 0, minFee: 1000, flatFee: true, firstValid: 1000, lastValid: 2000, genesisHash: new Uint8Array(32), genesisID: 'testnet-v1.0' }
+
+function signedAuthTxn(account: algosdk.Account, overrides: Partial<algosdk.PaymentTransactionParams & { note: Uint8Array; suggestedParams: algosdk.SuggestedParams }> = {}): string {
+    const address = account.addr.toString()
+    const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: address,
+        receiver: address,
+        amount: 0,
+        note: new TextEncoder().encode(MESSAGE),
+        suggestedParams: PARAMS,
+        ...overrides,
+    })
+    return naclUtil.encodeBase64(txn.signTxn(account.sk))
+}
+
+describe('verifyAuthTransaction', () => {
+    const account = algosdk.generateAccount()
+    const address = account.addr.toString()
+
+    it('accepts a zero-fee self-payment signed over the nonce message', () => {
+        expect(verifyAuthTransaction(address, MESSAGE, signedAuthTxn(account))).toBeNull()
+    })
+
+    it('rejects a signature by another account', () => {
+        const other = algosdk.generateAccount()
+        expect(verifyAuthTransaction(address, MESSAGE, signedAuthTxn(other))).toBe('Transaction sender does not match address')
+    })
+
+    it('rejects a note that is not the issued message', () => {
+        const signed = signedAuthTxn(account, { note: new TextEncoder().encode('another nonce') })
+        expect(verifyAuthTransaction(address, MESSAGE, signed)).toBe('Signed note does not match the issued nonce')
+    })
+
+    it('rejects payments that could move funds', () => {
+        expect(verifyAuthTransaction(address, MESSAGE, signedAuthTxn(account, { amount: 1 }))).toBe('Authentication payment must be 0 ALGO')
+        const paid = signedAuthTxn(account, { suggestedParams: { ...PARAMS, fee: 1000 } })
+        expect(verifyAuthTransaction(address, MESSAGE, paid)).toBe('Authentication transaction must have zero fee')
+        const closing = signedAuthTxn(account, { closeRemainderTo: algosdk.generateAccount().addr })
+        expect(verifyAuthTransaction(address, MESSAGE, closing)).toBe('Authentication transaction must not close or rekey')
+    })
+
+    it('rejects a tampered signature', () => {
+        const stxn = algosdk.decodeSignedTransaction(naclUtil.decodeBase64(signedAuthTxn(account)))
+        const sig = new Uint8Array(stxn.sig!)
+        sig[0] ^= 1
+        const tampered = algosdk.encodeMsgpack(new algosdk.SignedTransaction({ txn: stxn.txn, sig }))
+        expect(verifyAuthTransaction(address, MESSAGE, naclUtil.encodeBase64(tampered))).toBe('Signature verification failed')
+    })
+
+    it('rejects input that is not a signed transaction', () => {
+        expect(verifyAuthTransaction(address, MESSAGE, naclUtil.encodeBase64(new Uint8Array([1, 2, 3])))).toBe('Malformed signed transaction')
+    })
+})
+
+describe('login nonces', () => {
+    const address = algosdk.generateAccount().addr.toString()
+
+    afterEach(() => vi.restoreAllMocks())
+
+    it('keeps earlier nonces for an address valid when another is issued', () => {
+        const nonces = createNonceStore()
+        const first = nonces.issue(address)
+        const second = nonces.issue(address)
+        expect(nonces.take(first.nonce, address)).toEqual({ message: first.message })
+        expect(nonces.take(second.nonce, address)).toEqual({ message: second.message })
+    })
+
+    it('accepts each nonce once, and only for its address', () => {
+        const nonces = createNonceStore()
+        const { nonce } = nonces.issue(address)
+        expect(nonces.take(nonce, algosdk.generateAccount().addr.toString())).toEqual({ error: 'Unknown or already used nonce' })
+        expect(nonces.take(nonce, address)).toEqual({ error: 'Unknown or already used nonce' })
+    })
+
+    it('drops the oldest nonce past the per-address limit', () => {
+        const nonces = createNonceStore()
+        const issued = Array.from({ length: NONCES_PER_ADDRESS + 1 }, () => nonces.issue(address))
+        expect(nonces.take(issued[0].nonce, address)).toEqual({ error: 'Unknown or already used nonce' })
+        expect(nonces.take(issued[1].nonce, address)).toEqual({ message: issued[1].message })
+    })
+
+    it('refuses an expired nonce', () => {
+        const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000)
+        const nonces = createNonceStore()
+        const { nonce } = nonces.issue(address)
+        now.mockReturnValue(1_000_000 + NONCE_TTL_MS + 1)
+        expect(nonces.take(nonce, address)).toEqual({ error: 'Nonce expired — request a new one' })
+    })
+})
@@ -0,0 +1,150 @@
+import { Router, type Response } from 'express'
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import algosdk from 'algosdk'
+import nacl from 'tweetnacl'
+import naclUtil from 'tweetnacl-util'
+import { type ErrorResponse, type NonceResponse, type VerifyResponse, VerifyRequestSchema } from '../../shared/api.js'
+import { JWT_SECRET } from '../config.js'
+import { type ServerContext, parseBody } from '../http.js'
+
+// ============================================
+// AUTH ROUTES
+// ============================================
+
+// Verify a signed 0-ALGO self-payment carrying the login message in its note.
+// It only serves as a wallet-produced Ed25519 signature over the nonce message.
+// A zero fee does not stop it reaching the chain: grouped with a transaction that
+// pays its fee, it is valid. Submitted that way it moves nothing and cannot close
+// or rekey the account, and its nonce is already spent, so the note is all it leaves.
+// Returns an error string, or null when the signature is valid.
+export function verifyAuthTransaction(address: string, message: string, signedTxnBase64: string): string | null {
+    let publicKey: Uint8Array
+    try {
+        publicKey = algosdk.decodeAddress(address).publicKey
+    } catch {
+        return 'Invalid Algorand address'
+    }
+
+    let stxn: algosdk.SignedTransaction
+    try {
+        stxn = algosdk.decodeSignedTransaction(naclUtil.decodeBase64(signedTxnBase64))
+    } catch {
+        return 'Malformed signed transaction'
+    }
+
+    const { txn, sig, sgnr } = stxn
+    if (!sig) return 'Transaction is not signed with a single key'
+    if (sgnr && sgnr.toString() !== address) return 'Rekeyed accounts are not supported'
+    if (txn.type !== 'pay' || !txn.payment) return 'Authentication transaction must be a payment'
+    if (txn.sender.toString() !== address) return 'Transaction sender does not match address'
+    if (txn.payment.receiver.toString() !== address) return 'Authentication payment must be to self'
+    if (txn.payment.amount !== 0n) return 'Authentication payment must be 0 ALGO'
+    if (txn.fee !== 0n) return 'Authentication transaction must have zero fee'
+    if (txn.payment.closeRemainderTo || txn.rekeyTo) return 'Authentication transaction must not close or rekey'
+    if (naclUtil.encodeUTF8(txn.note) !== message) return 'Signed note does not match the issued nonce'
+
+    if (!nacl.sign.detached.verify(txn.bytesToSign(), sig, publicKey)) {
+        return 'Signature verification failed'
+    }
+    return null
+}
+
+export const NONCE_TTL_MS = 5 * 60 * 1000
+// Outstanding nonces per address; issuing another drops the oldest
+export const NONCES_PER_ADDRESS = 5
+
+interface IssuedNonce {
+    address: string
+    message: string
+    expiresAt: number
+}
+
+/**
+ * Login nonces, keyed by the nonce itself, so requesting one for an address
+ * never cancels a sign-in already under way for it. They are short-lived, kept
+ * in memory and single-use: take() removes a nonce whether or not it is valid.
+ */
+export function createNonceStore() {
+    // Insertion order is expiry order, since every nonce lives as long
+    const nonces = new Map<string, IssuedNonce>()
+    const byAddress = new Map<string, string[]>()
+
+    function remove(nonce: string) {
+        const issued = nonces.get(nonce)
+        if (!issued) return
+        nonces.delete(nonce)
+        const pending = byAddress.get(issued.address)!.filter(n => n !== nonce)
+        if (pending.length) byAddress.set(issued.address, pending)
+        else byAddress.delete(issued.address)
+    }
+
+    function sweep() {
+        const now = Date.now()
+        for (const [nonce, issued] of nonces) {
+            if (issued.expiresAt > now) break
+            remove(nonce)
+        }
+    }
+
+    function issue(address: string): NonceResponse {
+        sweep()
+        const pending = byAddress.get(address) ?? []
+        const excess = pending.length - NONCES_PER_ADDRESS + 1
+        for (const oldest of pending.slice(0, Math.max(0, excess))) remove(oldest)
+
+        const nonce = crypto.randomBytes(32).toString('hex')
+        const message = `AlgoAuth Authentication\nAddress: ${address}\nNonce: ${nonce}\nTimestamp: ${Date.now()}`
+        nonces.set(nonce, { address, message, expiresAt: Date.now() + NONCE_TTL_MS })
+        byAddress.set(address, [...(byAddress.get(address) ?? []), nonce])
+        return { nonce, message }
+    }
+
+    // The message issued with `nonce` for `address`, or why it cannot be used
+    function take(nonce: string, address: string): { message: string } | { error: string } {
+        const issued = nonces.get(nonce)
+        remove(nonce)
+        if (!issued || issued.address !== address) return { error: 'Unknown or already used nonce' }
+        if (Date.now() > issued.expiresAt) return { error: 'Nonce expired — request a new one' }
+        return { message: issued.message }
+    }
+
+    return { issue, take }
+}
+
+export function createAuthRouter({ store }: ServerContext): Router {
+    const router = Router()
+    const nonces = createNonceStore()
+
+    router.get('/nonce/:address', (req, res: Response<NonceResponse | ErrorResponse>) => {
+        const { address } = req.params
+        if (!algosdk.isValidAddress(address)) return res.status(400).json({ error: 'Invalid Algorand address' })
+        res.json(nonces.issue(address))
+    })
+
+    router.post('/verify', (req, res: Response<VerifyResponse | ErrorResponse>) => {
+        const body = parseBody(VerifyRequestSchema, req, res)
+        if (!body) return
+        const { address, signedTxn } = body
+        const stored = nonces.take(body.nonce, address)
+        if ('error' in stored) return res.status(400).json({ error: stored.error })
+
+        const verifyError = verifyAuthTransaction(address, stored.message, signedTxn)
+        if (verifyError) {
+            console.warn(`⛔ Auth rejected for ${address.substring(0, 10)}...: ${verifyError}`)
+            return res.status(401).json({ error: verifyError })
+        }
+
+        store.ensureUser(address)
+
+        const token = jwt.sign(
+            { address, iat: Math.floor(Date.now() / 1000) },
+            JWT_SECRET,
+            { expiresIn: '24h' }
+        )
+
+        res.json({ token, address })
+    })
+
+    return router
+}
@@ -0,0 +1,531 @@
+import { type Request, Router, type Response } from 'express'
+import multer from 'multer'
+import fs from 'fs/promises'
+import os from 'os'
+import { pipeline } from 'stream/promises'
+import { v4 as uuidv4 } from 'uuid'
+import {
+    type AddVersionResponse,
+    type ErrorResponse,
+    type FileItem,
+    type FileKeyResponse,
+    type FileMeta,
+    type FileVersion,
+    type Group,
+    type GroupWrappedKey,
+    type ListFilesResponse,
+    type ListVersionsResponse,
+    type RegisterFileOnChainResponse,
+    type RotateKeyResponse,
+    type SealedShare,
+    type ShareKey,
+    type SharePermission,
+    type SuccessResponse,
+    type UploadFileResponse,
+    GroupWrappedKeySchema,
+    RegisterFileOnChainRequestSchema,
+    RotateKeyFieldsSchema,
+    SealedShareSchema,
+    ShareKeySchema,
+    TxRequestSchema,
+    UnpinRequestSchema,
+    UploadFieldsSchema,
+    UploadVersionFieldsSchema,
+    hasPermission,
+} from '../../shared/api.js'
+import { MAX_UPLOAD_BYTES } from '../config.js'
+import { type ServerContext, parseBody, requireAuth } from '../http.js'
+import type { FileRecord, FileVersionRecord, ShareRecord, Storage } from '../storage.js'
+import { requireGroupRole } from './groups.js'
+
+// ============================================
+// FILE ROUTES
+// ============================================
+
+// Spool uploads to disk; the IPFS provider streams them from there
+const upload = multer({ dest: os.tmpdir(), limits: { fileSize: MAX_UPLOAD_BYTES } })
+
+/** Strip key material (and the version history) from a stored file */
+export function toFileItem({ wrappedKey: _wk, sealedShares: _ss, groupKey: _gk, versions: _v, ...item }: FileRecord): FileItem {
+    return item
+}
+
+function toFileVersion({ wrappedKey: _wk, sealedShares: _ss, groupKey: _gk, ...version }: FileVersionRecord): FileVersion {
+    return version
+}
+
+/** An owner's file (optionally excluding deleted ones), or null */
+export function findOwnedFile(store: Storage, owner: string, id: string, { includeDeleted = true } = {}): FileRecord | null {
+    const file = store.getFile(id)
+    if (!file || file.owner !== owner) return null
+    if (!includeDeleted && file.isDeleted) return null
+    return file
+}
+
+/**
+ * A live file the caller owns, or one shared with them at `needed` or above
+ * (share is null for the owner). Expired shares do not count.
+ */
+export function findFileWithAccess(
+    store: Storage,
+    address: string,
+    id: string,
+    needed: SharePermission
+): { file: FileRecord; share: ShareRecord | null } | null {
+    const file = store.getFile(id)
+    if (!file || file.isDeleted) return null
+    if (file.owner === address) return { file, share: null }
+    const share = store.listSharesForRecipient(address).find(s => s.fileId === id)
+    if (!share || (share.expiresAt && share.expiresAt < Date.now())) return null
+    return hasPermission(share.permission, needed) ? { file, share } : null
+}
+
+/**
+ * Whether a file other than `fileId` has the CID among its versions. Blobs are
+ * content-addressed, so anyone who uploads the same ciphertext shares its pin.
+ */
+function isCidUsedElsewhere(store: Storage, cid: string, fileId: string): boolean {
+    return store.listFilesByCid(cid).some(f => f.id !== fileId)
+}
+
+function parseSealedShares(json: string | undefined): SealedShare[] {
+    if (!json) return []
+    try {
+        const parsed = SealedShareSchema.array().safeParse(JSON.parse(json))
+        return parsed.success ? parsed.data : []
+    } catch {
+        return []
+    }
+}
+
+function parseGroupKey(json: string | undefined): GroupWrappedKey | null {
+    if (!json) return null
+    try {
+        const parsed = GroupWrappedKeySchema.safeParse(JSON.parse(json))
+        return parsed.success ? parsed.data : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Organization files are sealed under their group's current key. Groups from
+ * before group keys (epoch 0) still take shares sealed to the trio nodes.
+ * Returns an error message, or null when the key material fits the group.
+ */
+function checkGroupKeyMaterial(group: Group, groupKey: GroupWrappedKey | null, sealedShares: SealedShare[]): string | null {
+    if (group.keyEpoch === 0) return sealedShares.length > 0 ? null : 'Organization files need sealed key shares'
+    if (group.rekeyPending) return 'A member left the group; rotate the group key first'
+    if (groupKey?.epoch !== group.keyEpoch) return `Organization files must be sealed under group key epoch ${group.keyEpoch}`
+    return null
+}
+
+function parseShareKeys(json: string): ShareKey[] | null {
+    try {
+        const parsed = ShareKeySchema.array().safeParse(JSON.parse(json))
+        return parsed.success ? parsed.data : null
+    } catch {
+        return null
+    }
+}
+
+export function createFilesRouter({ store, chain, ipfs, addAudit }: ServerContext): Router {
+    const router = Router()
+
+    // Organization files only take content from members whose role may upload, with
+    // key material that fits the group. Responds and returns false otherwise.
+    async function checkGroupUpload(
+        groupId: string,
+        address: string,
+        groupKey: GroupWrappedKey | null,
+        sealedShares: SealedShare[],
+        res: Response<ErrorResponse>
+    ): Promise<boolean> {
+        const group = store.getGroup(groupId)
+        if (!group) {
+            res.status(404).json({ error: 'Group not found' })
+            return false
+        }
+        if (!(await requireGroupRole(chain, group, address, res, 'upload'))) return false
+        const invalid = checkGroupKeyMaterial(group, groupKey, sealedShares)
+        if (invalid) {
+            res.status(400).json({ error: invalid })
+            return false
+        }
+        return true
+    }
+
+    // GET /api/files — List files for the authenticated user
+    router.get('/', requireAuth, (req, res: Response<ListFilesResponse>) => {
+        const userFiles = store.listFilesByOwner(req.user.address)
+        res.json({ files: userFiles.filter(f => !f.isDeleted).map(toFileItem) })
+    })
+
+    // POST /api/files/upload — Upload encrypted file to IPFS (Pinata or the local store)
+    router.post('/upload', requireAuth, upload.single('file'), async (req, res: Response<UploadFileResponse | ErrorResponse>) => {
+        try {
+            if (!req.file) return res.status(400).json({ error: 'No file provided' })
+            const fields = parseBody(UploadFieldsSchema, req, res)
+            if (!fields) return
+
+            const filename = fields.filename || req.file.originalname
+            const address = req.user.address
+            const sealedShares = parseSealedShares(fields.sealedShares)
+            const groupKey = parseGroupKey(fields.groupKey)
+            if (fields.groupId && !(await checkGroupUpload(fields.groupId, address, groupKey, sealedShares, res))) return
+            const cid = await ipfs.pin(req.file.path, filename)
+
+            const createdAt = Date.now()
+            const wrappedKey = fields.wrappedKey || null
+            const fileItem: FileRecord = {
+                id: uuidv4(),
+                name: filename,
+                cid,
+                owner: address,
+                size: req.file.size,
+                mimeType: req.file.mimetype,
+                createdAt,
+                isDeleted: false,
+                wrappedKey,
+                sealedShares,
+                groupKey,
+                groupId: fields.groupId || null,  // null for personal, group ID for organization files
+                chainFileId: null,                // FileRegistry file ID, set once registered on-chain
+                version: 1,
+                versions: [{ version: 1, cid, size: req.file.size, uploader: address, createdAt, txId: null, pinned: true, wrappedKey, sealedShares, groupKey }],
+            }
+            store.insertFile(fileItem)
+
+            addAudit('FILE_UPLOAD', address, fileItem.id)
+
+            console.log(`📁 File uploaded: ${filename} -> CID: ${cid.substring(0, 16)}... (wrapped key: ${!!fileItem.wrappedKey})`)
+
+            // Return file item without key material (client caches the key locally)
+            res.json(toFileItem(fileItem))
+        } catch (err) {
+            console.error('Upload error:', err)
+            res.status(500).json({ error: (err as Error).message })
+        } finally {
+            if (req.file) await fs.rm(req.file.path, { force: true })
+        }
+    })
+
+    // GET /api/files/:cid/download — Serve pinned bytes from the IPFS provider.
+    // Open to anyone, public links included: the bytes are ciphertext, as public
+    // as on any IPFS gateway, and only a file key opens them.
+    router.get('/:cid/download', async (req, res: Response<Buffer | ErrorResponse>) => {
+        try {
+            const pinned = await ipfs.get(req.params.cid)
+            if (!pinned) return res.status(404).json({ error: 'File not found' })
+
+            res.setHeader('Content-Type', pinned.contentType)
+            if (pinned.size != null) res.setHeader('Content-Length', pinned.size)
+            await pipeline(pinned.stream, res)
+        } catch (err) {
+            console.error('Download error:', err)
+            // Once bytes are flowing the client sees a truncated body instead
+            if (res.headersSent) {
+                res.destroy()
+                return
+            }
+            res.status(500).json({ error: (err as Error).message })
+        }
+    })
+
+    // GET /api/files/:id/key — Get the owner's self-wrapped key (only for owner)
+    router.get('/:id/key', requireAuth, (req, res: Response<FileKeyResponse | ErrorResponse>) => {
+        const file = findOwnedFile(store, req.user.address, req.params.id)
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        res.json({ wrappedKey: file.wrappedKey || null })
+    })
+
+    // POST /api/files/:id/chain — Record the FileRegistry registration of an uploaded file,
+    // once the file and the transaction that registered it check out on-chain
+    router.post('/:id/chain', requireAuth, async (req, res: Response<RegisterFileOnChainResponse | ErrorResponse>) => {
+        const body = parseBody(RegisterFileOnChainRequestSchema, req, res)
+        if (!body) return
+        const file = findOwnedFile(store, req.user.address, req.params.id, { includeDeleted: false })
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        if (file.chainFileId) return res.status(409).json({ error: `File is already registered as #${file.chainFileId}` })
+        if (store.findFileByChainId(body.chainFileId)) {
+            return res.status(409).json({ error: `File #${body.chainFileId} is already linked to another file` })
+        }
+        try {
+            const invalid = await chain.verifyFileRegistration(body.chainFileId, body.txId, file.owner, file.cid)
+            if (invalid) return res.status(400).json({ error: invalid })
+        } catch (err) {
+            console.error('On-chain registration check failed:', err)
+            return res.status(502).json({ error: 'Could not verify the registration on-chain' })
+        }
+        store.updateFile(file.id, {
+            chainFileId: body.chainFileId,
+            versions: file.versions.map(v => (v.version === 1 ? { ...v, txId: body.txId } : v)),
+        })
+        // Backfill the upload audit entry with the registerFile transaction
+        const [uploadEvent] = store.listAudit(a => a.type === 'FILE_UPLOAD' && a.fileId === file.id, 1)
+        if (uploadEvent) store.updateAudit(uploadEvent.id, { txId: body.txId })
+        console.log(`⛓️  File ${file.name} registered on-chain as #${body.chainFileId} (tx: ${body.txId})`)
+        res.json({ success: true, chainFileId: body.chainFileId })
+    })
+
+    // Append a version and make it current
+    function addVersion(file: FileRecord, entry: Omit<FileVersionRecord, 'version' | 'createdAt' | 'pinned'>): AddVersionResponse {
+        const version: FileVersionRecord = { ...entry, version: file.versions.length + 1, createdAt: Date.now(), pinned: true }
+        const updated = store.updateFile(file.id, {
+            cid: version.cid,
+            size: version.size,
+            wrappedKey: version.wrappedKey,
+            sealedShares: version.sealedShares,
+            groupKey: version.groupKey,
+            version: version.version,
+            versions: [...file.versions, version],
+        })!
+        return { file: toFileItem(updated), version: toFileVersion(version) }
+    }
+
+    // GET /api/files/:id/versions — List a file's versions (owner only)
+    router.get('/:id/versions', requireAuth, (req, res: Response<ListVersionsResponse | ErrorResponse>) => {
+        const file = findOwnedFile(store, req.user.address, req.params.id)
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        res.json({ versions: file.versions.map(toFileVersion).reverse() })
+    })
+
+    // POST /api/files/:id/versions — Upload a new revision, encrypted under its own key
+    // (owner or a recipient with write access). Shares listed in shareKeys move to the
+    // new version; a writer may only move their own. The client then calls
+    // FileRegistry.updateFile and reports the transaction to /:id/versions/:version/chain.
+    router.post('/:id/versions', requireAuth, upload.single('file'), async (req: Request<{ id: string }>, res: Response<AddVersionResponse | ErrorResponse>) => {
+        try {
+            if (!req.file) return res.status(400).json({ error: 'No file provided' })
+            const fields = parseBody(UploadVersionFieldsSchema, req, res)
+            if (!fields) return
+            const address = req.user.address
+            const access = findFileWithAccess(store, address, req.params.id, 'write')
+            if (!access) return res.status(404).json({ error: 'File not found' })
+            const { file, share: writerShare } = access
+            const sealedShares = parseSealedShares(fields.sealedShares)
+            const groupKey = parseGroupKey(fields.groupKey)
+            if (file.groupId && !(await checkGroupUpload(file.groupId, address, groupKey, sealedShares, res))) return
+            const shareKeys = parseShareKeys(fields.shareKeys)
+            if (!shareKeys) return res.status(400).json({ error: 'shareKeys must be a JSON array of { shareId, wrappedKey }' })
+            const shares = store.listSharesForFile(file.id)
+            for (const { shareId } of shareKeys) {
+                if (!shares.some(s => s.id === shareId) || (writerShare && shareId !== writerShare.id)) {
+                    return res.status(403).json({ error: `Cannot re-key share ${shareId}` })
+                }
+            }
+
+            const cid = await ipfs.pin(req.file.path, file.name)
+            const result = addVersion(file, {
+                cid,
+                size: req.file.size,
+                uploader: address,
+                txId: null,
+                wrappedKey: fields.wrappedKey,
+                sealedShares,
+                groupKey,
+            })
+            for (const { shareId, wrappedKey } of shareKeys) {
+                store.updateShare(shareId, { cid, size: req.file.size, wrappedKey })
+            }
+            addAudit('FILE_VERSION', address, file.id, `v${result.version.version}`)
+            console.log(`📁 New version of ${file.name}: v${result.version.version} -> CID: ${cid.substring(0, 16)}...`)
+            res.json(result)
+        } catch (err) {
+            console.error('Version upload error:', err)
+            res.status(500).json({ error: (err as Error).message })
+        } finally {
+            if (req.file) await fs.rm(req.file.path, { force: true })
+        }
+    })
+
+    // GET /api/files/:id/versions/:version/key — The owner's self-wrapped key for one version
+    router.get('/:id/versions/:version/key', requireAuth, (req, res: Response<FileKeyResponse | ErrorResponse>) => {
+        const file = findOwnedFile(store, req.user.address, req.params.id)
+        const version = file?.versions.find(v => v.version === Number(req.params.version))
+        if (!version) return res.status(404).json({ error: 'Version not found' })
+        res.json({ wrappedKey: version.wrappedKey || null })
+    })
+
+    // POST /api/files/:id/versions/:version/chain — Record the FileRegistry.updateFile transaction
+    // (sent by the owner or by the writer who uploaded the version)
+    router.post('/:id/versions/:version/chain', requireAuth, (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const address = req.user.address
+        const file = store.getFile(req.params.id)
+        const versionNumber = Number(req.params.version)
+        const version = file?.versions.find(v => v.version === versionNumber)
+        if (!file || !version || (file.owner !== address && version.uploader !== address)) {
+            return res.status(404).json({ error: 'Version not found' })
+        }
+        store.updateFile(file.id, {
+            versions: file.versions.map(v => (v.version === versionNumber ? { ...v, txId: body.txId } : v)),
+        })
+        const [event] = store.listAudit(
+            a => (a.type === 'FILE_VERSION' || a.type === 'KEY_ROTATED') && a.fileId === file.id && a.target === `v${versionNumber}`,
+            1
+        )
+        if (event) store.updateAudit(event.id, { txId: body.txId })
+        res.json({ success: true })
+    })
+
+    // POST /api/files/:id/versions/:version/restore — Make an earlier version current again
+    // Appends a new version pointing at the old CID and key, so history stays append-only
+    // (mirrors FileRegistry.updateFile with the old CID, whose transaction is in the body).
+    router.post('/:id/versions/:version/restore', requireAuth, (req, res: Response<AddVersionResponse | ErrorResponse>) => {
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const address = req.user.address
+        const file = findOwnedFile(store, address, req.params.id, { includeDeleted: false })
+        const source = file?.versions.find(v => v.version === Number(req.params.version))
+        if (!file || !source) return res.status(404).json({ error: 'Version not found' })
+        if (source.version === file.version) return res.status(400).json({ error: 'Version is already current' })
+        if (!source.pinned) return res.status(400).json({ error: 'Version was unpinned by a key rotation' })
+
+        const result = addVersion(file, {
+            cid: source.cid,
+            size: source.size,
+            uploader: address,
+            txId: body.txId,
+            wrappedKey: source.wrappedKey,
+            sealedShares: source.sealedShares,
+            groupKey: source.groupKey,
+        })
+        addAudit('FILE_RESTORE', address, file.id, `v${source.version}`, body.txId)
+        res.json(result)
+    })
+
+    // POST /api/files/:id/rotate — Replace the current key: the file re-encrypted under a new key,
+    // that key re-wrapped for every share that is kept, and optionally one share revoked.
+    // Public links and the blobs a revoked grantee could still decrypt are dropped. The client
+    // then calls FileRegistry.updateFile and reports it to /:id/versions/:version/chain.
+    router.post('/:id/rotate', requireAuth, upload.single('file'), async (req: Request<{ id: string }>, res: Response<RotateKeyResponse | ErrorResponse>) => {
+        try {
+            if (!req.file) return res.status(400).json({ error: 'No file provided' })
+            const fields = parseBody(RotateKeyFieldsSchema, req, res)
+            if (!fields) return
+            const address = req.user.address
+            const file = findOwnedFile(store, address, req.params.id, { includeDeleted: false })
+            if (!file) return res.status(404).json({ error: 'File not found' })
+
+            const shares = store.listSharesForFile(file.id)
+            const revoked = fields.revokeShareId ? shares.find(s => s.id === fields.revokeShareId) : undefined
+            if (fields.revokeShareId && !revoked) return res.status(404).json({ error: 'Share not found' })
+            const kept = shares.filter(s => s !== revoked)
+
+            // Every kept share needs the new key, or its recipient would be locked out
+            const shareKeys = parseShareKeys(fields.shareKeys)
+            if (!shareKeys) return res.status(400).json({ error: 'shareKeys must be a JSON array of { shareId, wrappedKey }' })
+            const newKeys = new Map(shareKeys.map(k => [k.shareId, k.wrappedKey]))
+            const missing = kept.find(s => !newKeys.get(s.id))
+            if (missing) return res.status(400).json({ error: `Missing re-wrapped key for share ${missing.id}` })
+
+            const sealedShares = parseSealedShares(fields.sealedShares)
+            const groupKey = parseGroupKey(fields.groupKey)
+            if (file.groupId && !(await checkGroupUpload(file.groupId, address, groupKey, sealedShares, res))) return
+
+            const cid = await ipfs.pin(req.file.path, file.name)
+            const result = addVersion(file, {
+                cid,
+                size: req.file.size,
+                uploader: address,
+                txId: null,
+                wrappedKey: fields.wrappedKey,
+                sealedShares,
+                groupKey,
+            })
+            for (const share of kept) {
+                store.updateShare(share.id, { cid, size: req.file.size, wrappedKey: newKeys.get(share.id)! })
+            }
+            if (revoked) {
+                store.deleteShare(revoked.id)
+                addAudit('SHARE_REVOKED', address, file.id, revoked.recipient, fields.revokeTxId || null)
+            }
+            // Public links hand out the old key
+            for (const link of store.listPublicLinksForFile(file.id)) store.deletePublicLink(link.token)
+
+            // Unpin what the old key (and the revoked grantee's key) decrypt
+            const stale = [...new Set([file.cid, revoked?.cid].filter((c): c is string => !!c && c !== cid))]
+                .filter(oldCid => !isCidUsedElsewhere(store, oldCid, file.id))
+            const unpinned: string[] = []
+            for (const oldCid of stale) {
+                try {
+                    await ipfs.unpin(oldCid)
+                    unpinned.push(oldCid)
+                } catch (err) {
+                    console.error(`Unpin of ${oldCid} failed:`, err)
+                }
+            }
+            const updated = store.updateFile(file.id, {
+                versions: store.getFile(file.id)!.versions.map(v => (unpinned.includes(v.cid) ? { ...v, pinned: false } : v)),
+            })!
+
+            addAudit('KEY_ROTATED', address, file.id, `v${result.version.version}`)
+            console.log(`🔄 Key rotated for ${file.name}: v${result.version.version} -> CID: ${cid.substring(0, 16)}... (${kept.length} shares re-keyed, ${unpinned.length} CIDs unpinned)`)
+            res.json({ file: toFileItem(updated), version: result.version, unpinned })
+        } catch (err) {
+            console.error('Key rotation error:', err)
+            res.status(500).json({ error: (err as Error).message })
+        } finally {
+            if (req.file) await fs.rm(req.file.path, { force: true })
+        }
+    })
+
+    // DELETE /api/files/:id — Soft-delete a file
+    router.delete('/:id', requireAuth, (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const address = req.user.address
+        const file = findOwnedFile(store, address, req.params.id)
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        store.updateFile(file.id, { isDeleted: true })
+        addAudit('FILE_DELETE', address, file.id, null, body.txId)
+        res.json({ success: true })
+    })
+
+    // GET /api/files/:id/meta — Get file metadata
+    router.get('/:id/meta', requireAuth, (req, res: Response<FileMeta | ErrorResponse>) => {
+        const address = req.user.address
+        // Check owned files
+        const file = findOwnedFile(store, address, req.params.id)
+        if (file) {
+            return res.json({ ...toFileItem(file), isOwner: true })
+        }
+        // Check shared files
+        const shared = store.listSharesForRecipient(address).find(s => s.fileId === req.params.id)
+        if (shared) {
+            const { recipient: _r, wrappedKey: _wk, ...sharedFile } = shared
+            return res.json({ ...sharedFile, isOwner: false })
+        }
+        return res.status(404).json({ error: 'File not found' })
+    })
+
+    // POST /api/files/unpin — Unpin an old version of one of the caller's files, or any
+    // version of a deleted one. Blobs still used by a live version or by another file stay.
+    router.post('/unpin', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        try {
+            const body = parseBody(UnpinRequestSchema, req, res)
+            if (!body) return
+            const file = store.listFilesByOwner(req.user.address).find(f => f.versions.some(v => v.cid === body.cid))
+            if (!file) return res.status(404).json({ error: 'File version not found' })
+            if (!file.isDeleted && file.cid === body.cid) {
+                return res.status(409).json({ error: 'The current version cannot be unpinned' })
+            }
+            if (isCidUsedElsewhere(store, body.cid, file.id)) {
+                return res.status(409).json({ error: 'Another file uses this blob' })
+            }
+
+            await ipfs.unpin(body.cid)
+            store.updateFile(file.id, {
+                versions: file.versions.map(v => (v.cid === body.cid ? { ...v, pinned: false } : v)),
+            })
+            res.json({ success: true })
+        } catch (err) {
+            console.error('Unpin error:', err)
+            res.status(500).json({ error: (err as Error).message })
+        }
+    })
+
+    return router
+}
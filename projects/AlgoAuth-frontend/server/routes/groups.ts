@@ -0,0 +1,511 @@
+import { Router, type Response } from 'express'
+import { v4 as uuidv4 } from 'uuid'
+import algosdk from 'algosdk'
+import {
+    type AuditResponse,
+    type ErrorResponse,
+    type Group,
+    type GroupEpoch,
+    type GroupFile,
+    type GroupFileKeyResponse,
+    type GroupKeyResponse,
+    type GroupMember,
+    type ListGroupFilesResponse,
+    type ListGroupsResponse,
+    type MemberRole,
+    type MembershipResponse,
+    type SuccessResponse,
+    ChangeRoleRequestSchema,
+    CreateGroupRequestSchema,
+    GroupEpochSchema,
+    InviteMemberRequestSchema,
+    RemoveMemberRequestSchema,
+    TransferOwnershipRequestSchema,
+    TxRequestSchema,
+    canManageMembers,
+    canManageRole,
+    canReadGroupFiles,
+    canUploadToGroup,
+    canViewGroupAudit,
+} from '../../shared/api.js'
+import type { ChainChecks, GroupCheck } from '../chain.js'
+import { TRIO_NODES } from '../config.js'
+import { type ServerContext, parseBody, requireAuth } from '../http.js'
+
+// ============================================
+// ORGANIZATION / GROUP ROUTES
+// Each group has a content key, created in the browser and only stored here
+// wrapped to each member's X25519 key. Group files' keys are sealed under it.
+// Removing a member (or making them an auditor) rotates the key in the same
+// request; a member leaving flags the group so the next member to act rotates it.
+// Roles are checked here and, for GroupRegistry groups, on-chain.
+// ============================================
+
+// The caller's role in a group they have joined
+function roleOf(group: Group, address: string): MemberRole | null {
+    return group.members.find(m => m.address === address && m.status === 'active')?.role ?? null
+}
+
+// What each on-chain check asks of a role, and why it refuses
+const ROLE_CHECKS: Record<GroupCheck, { allows: (role: MemberRole) => boolean; error: string }> = {
+    member: { allows: () => true, error: 'Not a member of this group' },
+    admin: { allows: canManageMembers, error: 'Only the owner and admins can do this' },
+    upload: { allows: canUploadToGroup, error: 'Viewers and auditors cannot upload to this group' },
+    read: { allows: canReadGroupFiles, error: 'Auditors cannot open group files' },
+}
+
+/**
+ * Gate for group files and keys: joined on the server in a role that passes
+ * `can`, and the same on-chain for GroupRegistry groups. Responds and returns
+ * false when the caller may not proceed.
+ */
+export async function requireGroupRole(
+    chain: ChainChecks,
+    group: Group,
+    address: string,
+    res: Response<ErrorResponse>,
+    can: GroupCheck = 'member'
+): Promise<boolean> {
+    const role = roleOf(group, address)
+    if (!role) {
+        res.status(403).json({ error: 'Not a member of this group' })
+        return false
+    }
+    if (!ROLE_CHECKS[can].allows(role)) {
+        res.status(403).json({ error: ROLE_CHECKS[can].error })
+        return false
+    }
+    try {
+        if (!(await chain.isOnChainGroupMember(group.id, address, { can }))) {
+            res.status(403).json({ error: `${ROLE_CHECKS[can].error} (on-chain)` })
+            return false
+        }
+    } catch (err) {
+        console.error('On-chain group check failed:', err)
+        res.status(502).json({ error: 'Could not verify membership on-chain' })
+        return false
+    }
+    return true
+}
+
+// A new epoch must follow the current one and carry a key for exactly those of
+// `members` who may open files (invited members included, so accepting needs no
+// key holder online)
+function checkEpoch(group: Group, epoch: GroupEpoch, members: GroupMember[]): string | null {
+    if (epoch.epoch !== group.keyEpoch + 1) return `Expected group key epoch ${group.keyEpoch + 1}`
+    if (group.keyEpoch > 0 && !epoch.previousKey) return 'previousKey is required to keep older files readable'
+    const expected = members.filter(m => canReadGroupFiles(m.role)).map(m => m.address).sort()
+    const given = Object.keys(epoch.memberKeys).sort()
+    if (expected.length !== given.length || expected.some((a, i) => a !== given[i])) {
+        return 'The new group key must be wrapped to every member'
+    }
+    return null
+}
+
+export function createGroupsRouter({ store, chain, addAudit, listAudit }: ServerContext): Router {
+    const router = Router()
+
+    // For GroupRegistry groups, a role given or changed on-chain must match the request.
+    // Responds and returns false when it does not (or cannot be checked).
+    async function requireOnChainRole(group: Group, address: string, role: MemberRole, res: Response<ErrorResponse>): Promise<boolean> {
+        try {
+            const onChainRole = await chain.getOnChainGroupRole(group.id, address)
+            if (onChainRole === 'none') {
+                res.status(409).json({ error: 'GroupRegistry has no such member' })
+                return false
+            }
+            if (onChainRole && onChainRole !== role) {
+                res.status(409).json({ error: `GroupRegistry records ${onChainRole}, not ${role}` })
+                return false
+            }
+        } catch (err) {
+            console.error('On-chain group check failed:', err)
+            res.status(502).json({ error: 'Could not verify the role on-chain' })
+            return false
+        }
+        return true
+    }
+
+    // For GroupRegistry groups, a member who is removed, leaves or declines must be
+    // gone on-chain first. Responds and returns false when they are not (or it cannot be checked).
+    async function requireGoneOnChain(group: Group, address: string, res: Response<ErrorResponse>): Promise<boolean> {
+        try {
+            const status = await chain.getOnChainGroupStatus(group.id, address)
+            if (status && status !== 'none') {
+                res.status(409).json({ error: `GroupRegistry still has this member ${status}` })
+                return false
+            }
+        } catch (err) {
+            console.error('On-chain group check failed:', err)
+            res.status(502).json({ error: 'Could not verify membership on-chain' })
+            return false
+        }
+        return true
+    }
+
+    // POST /api/groups — Create a group
+    // `groupId` is the ID returned by GroupRegistry.createGroup; without it (no app
+    // configured) the server assigns a UUID.
+    router.post('/', requireAuth, async (req, res: Response<Group | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(CreateGroupRequestSchema, req, res)
+        if (!body) return
+
+        const id = body.groupId ?? uuidv4()
+        if (store.getGroup(id)) return res.status(409).json({ error: 'Group already exists' })
+        if (body.groupId != null && !chain.isOnChainGroup(id)) {
+            return res.status(400).json({ error: 'Invalid on-chain group ID' })
+        }
+        try {
+            if (!(await chain.isOnChainGroupMember(id, address, { can: 'admin' }))) {
+                return res.status(403).json({ error: 'Caller is not the on-chain owner of this group' })
+            }
+        } catch (err) {
+            console.error('On-chain group check failed:', err)
+            return res.status(502).json({ error: 'Could not verify group on-chain' })
+        }
+
+        store.insertGroup({
+            id,
+            name: body.name,
+            creator: address,
+            members: [{ address, role: 'owner', status: 'active', joinedAt: Date.now() }],
+            createdAt: Date.now(),
+            keyEpoch: 0,
+            rekeyPending: false,
+        })
+        store.insertGroupKeyEpoch(id, {
+            epoch: 1,
+            memberKeys: { [address]: body.memberKey },
+            previousKey: null,
+            createdBy: address,
+            createdAt: Date.now(),
+        })
+        addAudit('GROUP_CREATED', address, null, id, body.txId, id)
+        res.json(store.getGroup(id)!)
+    })
+
+    // GET /api/groups — List groups for user
+    router.get('/', requireAuth, (req, res: Response<ListGroupsResponse>) => {
+        res.json({ groups: store.listGroupsForMember(req.user.address) })
+    })
+
+    // POST /api/groups/:id/invite — Invite a member with a role below the caller's
+    router.post('/:id/invite', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(InviteMemberRequestSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        const callerRole = roleOf(group, address)
+        if (!callerRole || !canManageMembers(callerRole)) {
+            return res.status(403).json({ error: 'Only the owner and admins can invite' })
+        }
+        if (!canManageRole(callerRole, body.role)) return res.status(403).json({ error: 'Only the owner can invite admins' })
+        if (!algosdk.isValidAddress(body.memberAddress)) {
+            return res.status(400).json({ error: 'Invalid Algorand address' })
+        }
+        if (group.members.some(m => m.address === body.memberAddress)) {
+            return res.status(400).json({ error: 'User already in group' })
+        }
+        // Auditors never hold the group key
+        const getsKey = group.keyEpoch > 0 && canReadGroupFiles(body.role)
+        if (getsKey && !body.memberKey) {
+            return res.status(400).json({ error: 'memberKey is required: wrap the group key to the invitee' })
+        }
+        if (!(await requireOnChainRole(group, body.memberAddress, body.role, res))) return
+
+        store.updateGroup(group.id, {
+            members: [...group.members, { address: body.memberAddress, role: body.role, status: 'invited', joinedAt: Date.now() }],
+        })
+        // Held until they accept; GET /:id/keys only answers joined members
+        if (getsKey) store.setGroupMemberKey(group.id, group.keyEpoch, body.memberAddress, body.memberKey!)
+        addAudit('MEMBER_INVITED', address, null, body.memberAddress, body.txId, group.id)
+        res.json({ success: true })
+    })
+
+    // POST /api/groups/:id/accept — Accept invite
+    router.post('/:id/accept', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (!group.members.some(m => m.address === address)) return res.status(404).json({ error: 'Not a member' })
+        try {
+            if (!(await chain.isOnChainGroupMember(group.id, address))) {
+                return res.status(403).json({ error: 'Invite has not been accepted on-chain' })
+            }
+        } catch (err) {
+            console.error('On-chain group check failed:', err)
+            return res.status(502).json({ error: 'Could not verify membership on-chain' })
+        }
+        store.updateGroup(group.id, {
+            members: group.members.map(m => (m.address === address ? { ...m, status: 'active' as const } : m)),
+        })
+        addAudit('MEMBER_JOINED', address, null, group.id, body.txId, group.id)
+        res.json({ success: true })
+    })
+
+    // POST /api/groups/:id/reject — Decline a pending invite
+    router.post('/:id/reject', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        const member = group.members.find(m => m.address === address)
+        if (!member || member.status !== 'invited') return res.status(404).json({ error: 'No pending invite' })
+        if (!(await requireGoneOnChain(group, address, res))) return
+        store.updateGroup(group.id, { members: group.members.filter(m => m.address !== address) })
+        store.setGroupMemberKey(group.id, group.keyEpoch, address, null)
+        res.json({ success: true })
+    })
+
+    // POST /api/groups/:id/leave — Leave a joined group
+    router.post('/:id/leave', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        const member = group.members.find(m => m.address === address)
+        if (!member) return res.status(404).json({ error: 'Not a member' })
+        if (member.role === 'owner') return res.status(400).json({ error: 'Transfer ownership before leaving' })
+        if (!(await requireGoneOnChain(group, address, res))) return
+        // The leaver holds the current key, so they cannot be the one to replace it
+        store.updateGroup(group.id, {
+            members: group.members.filter(m => m.address !== address),
+            rekeyPending: group.rekeyPending || (group.keyEpoch > 0 && canReadGroupFiles(member.role)),
+        })
+        addAudit('MEMBER_LEFT', address, null, group.id, body.txId, group.id)
+        res.json({ success: true })
+    })
+
+    // GET /api/groups/:id/files — List files shared with a group (not for auditors)
+    router.get('/:id/files', requireAuth, async (req, res: Response<ListGroupFilesResponse | ErrorResponse>) => {
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (!(await requireGroupRole(chain, group, req.user.address, res, 'read'))) return
+
+        const groupFiles: GroupFile[] = store.listFilesByGroup(group.id)
+            .filter(file => !file.isDeleted)
+            .map(file => ({
+                id: file.id,
+                name: file.name,
+                cid: file.cid,
+                size: file.size,
+                mimeType: file.mimeType,
+                owner: file.owner,
+                createdAt: file.createdAt,
+                hasShares: !!file.groupKey || file.sealedShares.length > 0,
+            }))
+        groupFiles.sort((a, b) => b.createdAt - a.createdAt)
+        res.json({ files: groupFiles })
+    })
+
+    // GET /api/groups/:id/files/:fileId/key — Get a group file's key material (members who may
+    // open files): the key sealed under the group key, or for older files the shares sealed to the trio nodes
+    router.get('/:id/files/:fileId/key', requireAuth, async (req, res: Response<GroupFileKeyResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (!(await requireGroupRole(chain, group, address, res, 'read'))) return
+
+        const file = store.getFile(req.params.fileId)
+        if (!file || file.groupId !== group.id) return res.status(404).json({ error: 'File not found in group' })
+
+        // FileRegistry has the last word on who may have a GroupRegistry group's file keys
+        if (chain.isOnChainGroup(group.id)) {
+            try {
+                if (!(await chain.canReleaseKeyShares(file.chainFileId, address))) {
+                    return res.status(403).json({ error: 'Not allowed to open this file (on-chain)' })
+                }
+            } catch (err) {
+                console.error('On-chain key release check failed:', err)
+                return res.status(502).json({ error: 'Could not verify access on-chain' })
+            }
+        }
+
+        // Hand out the sealed shares; each node checks access itself before
+        // re-encrypting its share to the requester, and any two reconstruct the key
+        const { sealedShares, chainFileId } = file
+        if (file.groupKey) {
+            return res.json({ groupKey: file.groupKey, sealedShares: [], chainFileId, nodes: TRIO_NODES, threshold: 2, totalShares: 0 })
+        }
+        console.log(`🔐 Sealed shares handed out for group file ${file.id}:`)
+        console.log(`   📦 Group: ${group.name} (${group.id.substring(0, 8)}...)`)
+        console.log(`   🌐 Nodes: [${sealedShares.map(s => s.nodeId).join(', ')}]`)
+        console.log(`   👤 Requester: ${address.substring(0, 12)}...`)
+
+        res.json({
+            groupKey: null,
+            sealedShares,
+            chainFileId,
+            nodes: TRIO_NODES,
+            threshold: 2,
+            totalShares: sealedShares.length,
+        })
+    })
+
+    // GET /api/groups/:id/keys — The caller's copy of the current group key, plus each
+    // epoch's predecessor sealed under it so older files stay readable (not for auditors)
+    router.get('/:id/keys', requireAuth, async (req, res: Response<GroupKeyResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (!(await requireGroupRole(chain, group, address, res, 'read'))) return
+
+        const epochs = store.listGroupKeyEpochs(group.id)
+        const wrappedKey = epochs.find(e => e.epoch === group.keyEpoch)?.memberKeys[address]
+        if (!wrappedKey) return res.status(404).json({ error: 'No group key for this member yet' })
+        res.json({
+            epoch: group.keyEpoch,
+            wrappedKey,
+            previousKeys: epochs
+                .filter(e => e.previousKey)
+                .map(e => ({ epoch: e.epoch, previousKey: e.previousKey! }))
+                .reverse(),
+        })
+    })
+
+    // POST /api/groups/:id/keys — Start a new group key epoch. The owner and admins may rotate
+    // at any time; any key holder may create the first key or carry out a rotation a departure left pending.
+    router.post('/:id/keys', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(GroupEpochSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (!(await requireGroupRole(chain, group, address, res, 'read'))) return
+        if (!canManageMembers(roleOf(group, address)!) && group.keyEpoch > 0 && !group.rekeyPending) {
+            return res.status(403).json({ error: 'Only the owner and admins can rotate the group key' })
+        }
+        const invalid = checkEpoch(group, body, group.members)
+        if (invalid) return res.status(400).json({ error: invalid })
+
+        store.insertGroupKeyEpoch(group.id, { ...body, createdBy: address, createdAt: Date.now() })
+        addAudit('GROUP_REKEYED', address, null, group.id, null, group.id)
+        console.log(`🔑 Group ${group.name} rekeyed to epoch ${body.epoch} for ${Object.keys(body.memberKeys).length} members`)
+        res.json({ success: true })
+    })
+
+    // GET /api/groups/:id/membership — Whether the caller has joined the group in a role
+    // that may open files (used by trio nodes for groups that are not on-chain)
+    router.get('/:id/membership', requireAuth, (req, res: Response<MembershipResponse | ErrorResponse>) => {
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        const role = roleOf(group, req.user.address)
+        res.json({ member: !!role && canReadGroupFiles(role) })
+    })
+
+    // GET /api/groups/:id/audit — The group's audit log (owner, admins and auditors)
+    router.get('/:id/audit', requireAuth, async (req, res: Response<AuditResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (!(await requireGroupRole(chain, group, address, res))) return
+        if (!canViewGroupAudit(roleOf(group, address)!)) {
+            return res.status(403).json({ error: 'Only the owner, admins and auditors can read the audit log' })
+        }
+        res.json({ events: await listAudit(a => a.groupId === group.id, 100) })
+    })
+
+    // DELETE /api/groups/:id/members/:memberAddress — Remove a member, rotating the group
+    // key to the remaining members so they cannot open files uploaded after this
+    router.delete('/:id/members/:memberAddress', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(RemoveMemberRequestSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        const target = group.members.find(m => m.address === req.params.memberAddress)
+        if (!target) return res.status(404).json({ error: 'Not a member' })
+        const callerRole = roleOf(group, address)
+        if (!callerRole || !canManageRole(callerRole, target.role)) {
+            return res.status(403).json({ error: `Your role cannot remove ${target.role === 'owner' ? 'the owner' : `${target.role}s`}` })
+        }
+        const remaining = group.members.filter(m => m !== target)
+        // Auditors never held the key, so removing one needs no rotation
+        const revokesKey = group.keyEpoch > 0 && canReadGroupFiles(target.role)
+        if (revokesKey) {
+            if (!body.rekey) return res.status(400).json({ error: 'Removing a member requires a new group key (rekey)' })
+            const invalid = checkEpoch(group, body.rekey, remaining)
+            if (invalid) return res.status(400).json({ error: invalid })
+        }
+        if (!(await requireGoneOnChain(group, target.address, res))) return
+        store.updateGroup(group.id, { members: remaining })
+        if (revokesKey) {
+            store.insertGroupKeyEpoch(group.id, { ...body.rekey!, createdBy: address, createdAt: Date.now() })
+            addAudit('GROUP_REKEYED', address, null, group.id, null, group.id)
+        }
+        addAudit('MEMBER_REMOVED', address, null, target.address, body.txId, group.id)
+        res.json({ success: true })
+    })
+
+    // POST /api/groups/:id/members/:memberAddress/role — Change a member's role. Making an
+    // auditor a key holder hands them the group key; the reverse rotates it, as removal does.
+    router.post('/:id/members/:memberAddress/role', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(ChangeRoleRequestSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        const target = group.members.find(m => m.address === req.params.memberAddress)
+        if (!target) return res.status(404).json({ error: 'Not a member' })
+        const callerRole = roleOf(group, address)
+        if (!callerRole || !canManageRole(callerRole, target.role) || !canManageRole(callerRole, body.role)) {
+            return res.status(403).json({ error: 'Only the owner can change admins or make someone an admin' })
+        }
+        const members = group.members.map(m => (m === target ? { ...m, role: body.role } : m))
+        const grantsKey = group.keyEpoch > 0 && !canReadGroupFiles(target.role) && canReadGroupFiles(body.role)
+        const revokesKey = group.keyEpoch > 0 && canReadGroupFiles(target.role) && !canReadGroupFiles(body.role)
+        if (grantsKey && !body.memberKey) {
+            return res.status(400).json({ error: 'memberKey is required: wrap the group key to the member' })
+        }
+        if (revokesKey) {
+            if (!body.rekey) return res.status(400).json({ error: 'Making a member an auditor requires a new group key (rekey)' })
+            const invalid = checkEpoch(group, body.rekey, members)
+            if (invalid) return res.status(400).json({ error: invalid })
+        }
+        if (!(await requireOnChainRole(group, target.address, body.role, res))) return
+
+        store.updateGroup(group.id, { members })
+        if (grantsKey) store.setGroupMemberKey(group.id, group.keyEpoch, target.address, body.memberKey!)
+        if (revokesKey) {
+            store.insertGroupKeyEpoch(group.id, { ...body.rekey!, createdBy: address, createdAt: Date.now() })
+            addAudit('GROUP_REKEYED', address, null, group.id, null, group.id)
+        }
+        addAudit('MEMBER_ROLE_CHANGED', address, null, target.address, body.txId, group.id)
+        console.log(`👥 ${target.address.substring(0, 12)}... is now ${body.role} in ${group.name}`)
+        res.json({ success: true })
+    })
+
+    // POST /api/groups/:id/transfer — Hand ownership to a joined member (owner only);
+    // the previous owner stays on as an admin
+    router.post('/:id/transfer', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(TransferOwnershipRequestSchema, req, res)
+        if (!body) return
+        const group = store.getGroup(req.params.id)
+        if (!group) return res.status(404).json({ error: 'Group not found' })
+        if (roleOf(group, address) !== 'owner') return res.status(403).json({ error: 'Only the owner can transfer ownership' })
+        const target = group.members.find(m => m.address === body.newOwner && m.status === 'active')
+        if (!target) return res.status(400).json({ error: 'The new owner must be a member who has joined' })
+        const grantsKey = group.keyEpoch > 0 && !canReadGroupFiles(target.role)
+        if (grantsKey && !body.memberKey) {
+            return res.status(400).json({ error: 'memberKey is required: wrap the group key to the new owner' })
+        }
+        if (!(await requireOnChainRole(group, target.address, 'owner', res))) return
+
+        store.updateGroup(group.id, {
+            members: group.members.map(m => {
+                if (m === target) return { ...m, role: 'owner' as const }
+                return m.address === address ? { ...m, role: 'admin' as const } : m
+            }),
+        })
+        if (grantsKey) store.setGroupMemberKey(group.id, group.keyEpoch, target.address, body.memberKey!)
+        addAudit('OWNERSHIP_TRANSFERRED', address, null, target.address, body.txId, group.id)
+        res.json({ success: true })
+    })
+
+    return router
+}
@@ -0,0 +1,69 @@
+import { Router, type Response } from 'express'
+import algosdk from 'algosdk'
+import {
+    type ErrorResponse,
+    type PublicKeyResponse,
+    type SuccessResponse,
+    RegisterKeyRequestSchema,
+} from '../../shared/api.js'
+import { type ServerContext, parseBody, requireAuth } from '../http.js'
+
+// ============================================
+// ENCRYPTION KEY MANAGEMENT
+// FileRegistry is the source of truth for public keys: only the wallet itself
+// can call registerPublicKey. The server keeps a cache for lookups when no app
+// is configured or algod is unreachable.
+// ============================================
+
+export function createKeysRouter({ store, chain, addAudit }: ServerContext): Router {
+    const router = Router()
+
+    // POST /api/keys/register — Cache the caller's X25519 public key
+    // With FileRegistry configured the key must already be registered on-chain.
+    router.post('/register', requireAuth, async (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(RegisterKeyRequestSchema, req, res)
+        if (!body) return
+
+        if (chain.fileRegistryEnabled) {
+            try {
+                const onChainKey = await chain.getOnChainPublicKey(address)
+                if (onChainKey !== body.publicKey) {
+                    return res.status(409).json({ error: 'Public key does not match the one registered on-chain' })
+                }
+            } catch (err) {
+                console.error('On-chain key lookup failed:', err)
+                return res.status(502).json({ error: 'Could not verify the key on-chain' })
+            }
+        }
+
+        store.setPublicKey(address, body.publicKey)
+        addAudit('KEY_REGISTERED', address, null, null, body.txId)
+        console.log(`🔑 Public key registered for ${address.substring(0, 10)}...`)
+        res.json({ success: true })
+    })
+
+    // GET /api/keys/:address — Get X25519 public key for an address
+    // Prefers FileRegistry and refreshes the cache from it; falls back to the
+    // cache for wallets that never registered on-chain or when algod is down.
+    router.get('/:address', async (req, res: Response<PublicKeyResponse | ErrorResponse>) => {
+        const address = req.params.address
+        if (!algosdk.isValidAddress(address)) return res.status(400).json({ error: 'Invalid Algorand address' })
+        const cached = store.getPublicKey(address)
+
+        try {
+            const onChainKey = await chain.getOnChainPublicKey(address)
+            if (onChainKey) {
+                if (onChainKey !== cached) store.setPublicKey(address, onChainKey)
+                return res.json({ publicKey: onChainKey, onChain: true })
+            }
+        } catch (err) {
+            console.error('On-chain key lookup failed:', err)
+        }
+
+        if (!cached) return res.status(404).json({ error: 'No key registered for this address' })
+        res.json({ publicKey: cached, onChain: false })
+    })
+
+    return router
+}
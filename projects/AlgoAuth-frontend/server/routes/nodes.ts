@@ -0,0 +1,23 @@
+import { Router, type Response } from 'express'
+import type { ListNodesResponse } from '../../shared/api.js'
+import { TRIO_NODES } from '../config.js'
+
+// ============================================
+// NODE ROUTES (Trustless Trio)
+// ============================================
+
+export function createNodesRouter(): Router {
+    const router = Router()
+
+    // GET /api/nodes — Get Trustless Trio node endpoints (public keys are served by each node's /info)
+    router.get('/', (req, res: Response<ListNodesResponse>) => {
+        const nodes = TRIO_NODES.map(({ id, url }) => ({
+            id,
+            name: `Node ${id.charAt(0).toUpperCase() + id.slice(1)}`,
+            url,
+        }))
+        res.json({ nodes })
+    })
+
+    return router
+}
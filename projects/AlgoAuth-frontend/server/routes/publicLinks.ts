@@ -0,0 +1,173 @@
+import { Router, type Response } from 'express'
+import crypto from 'crypto'
+import algosdk from 'algosdk'
+import {
+    type CreatePublicLinkResponse,
+    type ErrorResponse,
+    type ListPublicLinksResponse,
+    type PublicFileInfo,
+    type PublicLinkInfo,
+    type PublicLinkKeyResponse,
+    type SuccessResponse,
+    CreatePublicLinkRequestSchema,
+    TxRequestSchema,
+} from '../../shared/api.js'
+import { type ServerContext, parseBody, requireAuth } from '../http.js'
+import type { FileRecord, PublicLinkRecord } from '../storage.js'
+import { findOwnedFile } from './files.js'
+
+// ============================================
+// PUBLIC LINK ROUTES
+// ============================================
+
+function linkStatus({ expiresAt, maxDownloads, downloads }: PublicLinkRecord): PublicLinkInfo['status'] {
+    if (expiresAt && expiresAt < Date.now()) return 'expired'
+    if (maxDownloads && downloads >= maxDownloads) return 'exhausted'
+    return 'active'
+}
+
+/** A link as its owner sees it */
+function toPublicLinkInfo(link: PublicLinkRecord): PublicLinkInfo {
+    const { token, cid, burnerAddress, passwordSalt, maxDownloads, downloads, createdAt, expiresAt } = link
+    return {
+        token, cid, burnerAddress, maxDownloads, downloads, createdAt, expiresAt,
+        passwordProtected: !!passwordSalt,
+        status: linkStatus(link),
+    }
+}
+
+export function createPublicLinksRouter({ store, chain, addAudit }: ServerContext): Router {
+    const router = Router()
+
+    // Resolve a link token to its link and file, responding 404/410 when it is unusable
+    function resolveLink(token: string, res: Response<ErrorResponse>): { link: PublicLinkRecord; file: FileRecord } | null {
+        const link = store.getPublicLink(token)
+        const file = link && store.getFile(link.fileId)
+        if (!link || !file) {
+            res.status(404).json({ error: 'Link not found' })
+            return null
+        }
+        const status = linkStatus(link)
+        if (status !== 'active') {
+            res.status(410).json({ error: status === 'expired' ? 'Link has expired' : 'Link has reached its download limit' })
+            return null
+        }
+        return { link, file }
+    }
+
+    // POST /api/files/:id/public-link — Create a public access link
+    // The browser wraps the file key to a burner X25519 key whose secret only goes in
+    // the link's #fragment, and grants the burner time-bounded access in FileRegistry.
+    router.post('/files/:id/public-link', requireAuth, (req, res: Response<CreatePublicLinkResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const body = parseBody(CreatePublicLinkRequestSchema, req, res)
+        if (!body) return
+        if (!algosdk.isValidAddress(body.burnerAddress)) {
+            return res.status(400).json({ error: 'Invalid burner address' })
+        }
+
+        const file = findOwnedFile(store, address, req.params.id, { includeDeleted: false })
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        if (chain.fileRegistryEnabled && !file.chainFileId) {
+            return res.status(409).json({ error: 'Register the file on-chain before sharing it' })
+        }
+
+        const publicLink: PublicLinkRecord = {
+            token: crypto.randomBytes(32).toString('hex'),
+            fileId: file.id,
+            cid: file.cid,
+            name: file.name,
+            owner: address,
+            burnerAddress: body.burnerAddress,
+            wrappedKey: body.wrappedKey,
+            chainFileId: file.chainFileId || null,
+            passwordSalt: body.passwordSalt,
+            maxDownloads: body.maxDownloads,
+            downloads: 0,
+            createdAt: Date.now(),
+            expiresAt: Date.now() + body.expiresIn * 1000,
+        }
+        store.insertPublicLink(publicLink)
+
+        addAudit('PUBLIC_LINK_CREATED', address, file.id, body.burnerAddress, body.txId)
+
+        res.json({ success: true, linkToken: publicLink.token, expiresAt: publicLink.expiresAt })
+    })
+
+    // GET /api/files/:id/public-links — List a file's public links (owner only)
+    router.get('/files/:id/public-links', requireAuth, (req, res: Response<ListPublicLinksResponse | ErrorResponse>) => {
+        const file = findOwnedFile(store, req.user.address, req.params.id)
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        const links = store.listPublicLinksForFile(file.id).sort((a, b) => b.createdAt - a.createdAt)
+        res.json({ links: links.map(toPublicLinkInfo) })
+    })
+
+    // DELETE /api/files/:id/public-link/:token — Revoke a public link (owner only)
+    // The client revokes the burner's FileRegistry grant first; its transaction is in the body.
+    router.delete('/files/:id/public-link/:token', requireAuth, (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const address = req.user.address
+        const file = findOwnedFile(store, address, req.params.id)
+        const link = file && store.getPublicLink(req.params.token)
+        if (!link || link.fileId !== file.id) return res.status(404).json({ error: 'Link not found' })
+
+        store.deletePublicLink(link.token)
+        addAudit('PUBLIC_LINK_REVOKED', address, file.id, link.burnerAddress, body.txId)
+        console.log(`🚫 Public link revoked: ${file.name} (${link.token.substring(0, 12)}...)`)
+        res.json({ success: true })
+    })
+
+    // GET /api/public/:token — Access a public file link (no auth)
+    router.get('/public/:token', (req, res: Response<PublicFileInfo | ErrorResponse>) => {
+        const resolved = resolveLink(req.params.token, res)
+        if (!resolved) return
+        const { link, file } = resolved
+        // The link's key is for the version it was created from
+        res.json({
+            name: file.name,
+            cid: link.cid,
+            size: file.size,
+            mimeType: file.mimeType,
+            owner: link.owner,
+            burnerAddress: link.burnerAddress,
+            passwordSalt: link.passwordSalt,
+            downloadsLeft: link.maxDownloads ? link.maxDownloads - link.downloads : null,
+        })
+    })
+
+    // GET /api/public/:token/key — Get the burner-wrapped key for a public link (no auth)
+    // Each release counts as one download. Whoever has the key can still fetch the
+    // ciphertext by CID, so the limit caps how many visitors get in, not how often they read.
+    router.get('/public/:token/key', async (req, res: Response<PublicLinkKeyResponse | ErrorResponse>) => {
+        const resolved = resolveLink(req.params.token, res)
+        if (!resolved) return
+        const { link, file } = resolved
+
+        // Reserve the download before waiting on the chain, so concurrent requests
+        // cannot all pass the limit check with the same count
+        const download = link.downloads + 1
+        store.updatePublicLink(link.token, { downloads: download })
+        const release = () => {
+            const current = store.getPublicLink(link.token)
+            if (current) store.updatePublicLink(link.token, { downloads: Math.max(0, current.downloads - 1) })
+        }
+
+        // The burner's FileRegistry grant carries the link's expiry, like a share
+        try {
+            if (!(await chain.hasOnChainAccess(link.chainFileId, link.burnerAddress))) {
+                release()
+                return res.status(403).json({ error: 'Access not granted on-chain' })
+            }
+        } catch (err) {
+            release()
+            console.error('On-chain access check failed:', err)
+            return res.status(502).json({ error: 'Could not verify access on-chain' })
+        }
+
+        console.log(`🔓 Wrapped key released for link ${req.params.token.substring(0, 12)}... (file: ${file.name}, download ${download}${link.maxDownloads ? '/' + link.maxDownloads : ''})`)
+        res.json({ wrappedKey: link.wrappedKey })
+    })
+
+    return router
+}
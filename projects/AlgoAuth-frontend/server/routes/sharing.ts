@@ -0,0 +1,157 @@
+import { Router, type Response } from 'express'
+import { v4 as uuidv4 } from 'uuid'
+import {
+    type ErrorResponse,
+    type FileKeyResponse,
+    type ListSharedFilesResponse,
+    type ListSharesResponse,
+    type ShareFileResponse,
+    type ShareGrant,
+    type SuccessResponse,
+    type UpdateShareResponse,
+    ShareFileRequestSchema,
+    TxRequestSchema,
+    UpdateShareRequestSchema,
+} from '../../shared/api.js'
+import { type ServerContext, parseBody, requireAuth } from '../http.js'
+import type { ShareRecord } from '../storage.js'
+import { findFileWithAccess, findOwnedFile } from './files.js'
+
+// ============================================
+// SHARING ROUTES
+// ============================================
+
+/** A share as its owner sees it */
+function toShareGrant({ id, recipient, cid, permission, sharedAt, expiresAt }: ShareRecord): ShareGrant {
+    const status = expiresAt && expiresAt < Date.now() ? 'expired' : 'active'
+    return { id, recipient, cid, permission, sharedAt, expiresAt, status }
+}
+
+export function createSharingRouter({ store, chain, addAudit }: ServerContext): Router {
+    const router = Router()
+
+    // POST /api/files/:id/share — Share a file with another address (owner or a resharer)
+    router.post('/:id/share', requireAuth, (req, res: Response<ShareFileResponse | ErrorResponse>) => {
+        const address = req.user.address
+        // The AES key is wrapped to the recipient's X25519 key in the browser
+        const body = parseBody(ShareFileRequestSchema, req, res)
+        if (!body) return
+
+        const access = findFileWithAccess(store, address, req.params.id, 'reshare')
+        if (!access) return res.status(404).json({ error: 'File not found' })
+        const { file, share: resharerShare } = access
+        if (chain.fileRegistryEnabled && !file.chainFileId) {
+            return res.status(409).json({ error: 'Register the file on-chain before sharing it' })
+        }
+
+        // Like FileRegistry.grantAccess: resharers may add people, not change existing grants
+        if (resharerShare) {
+            const existing = store.listSharesForFile(file.id)
+                .some(s => s.recipient === body.recipientAddress && (!s.expiresAt || s.expiresAt > Date.now()))
+            if (existing || body.recipientAddress === file.owner) {
+                return res.status(409).json({ error: 'Recipient already has access' })
+            }
+        }
+
+        // Create shared entry for the recipient — only the key wrapped for them.
+        // A resharer can only pass on the version their own key opens.
+        const shareItem: ShareRecord = {
+            id: uuidv4(),
+            fileId: file.id,
+            name: file.name,
+            cid: resharerShare?.cid ?? file.cid,
+            size: resharerShare?.size ?? file.size,
+            mimeType: file.mimeType,
+            owner: file.owner,
+            recipient: body.recipientAddress,
+            chainFileId: file.chainFileId || null,
+            permission: body.permission,
+            wrappedKey: body.wrappedKey,
+            sharedAt: Date.now(),
+            expiresAt: body.expiresIn > 0 ? Date.now() + body.expiresIn * 1000 : 0,
+        }
+        store.insertShare(shareItem)
+
+        addAudit('FILE_SHARE', address, file.id, body.recipientAddress, body.txId)
+
+        console.log(`🔗 File shared: ${file.name} -> ${body.recipientAddress.substring(0, 10)}... (wrapped key stored)`)
+        res.json({ success: true, shareId: shareItem.id })
+    })
+
+    // GET /api/files/:id/shares — List who a file is shared with (owner only)
+    router.get('/:id/shares', requireAuth, (req, res: Response<ListSharesResponse | ErrorResponse>) => {
+        const file = findOwnedFile(store, req.user.address, req.params.id)
+        if (!file) return res.status(404).json({ error: 'File not found' })
+        res.json({ shares: store.listSharesForFile(file.id).map(toShareGrant) })
+    })
+
+    // PATCH /api/files/:id/share/:shareId — Change a share's permission or expiry (owner only)
+    // The client re-issues FileRegistry.grantAccess first; its transaction is in the body.
+    router.patch('/:id/share/:shareId', requireAuth, (req, res: Response<UpdateShareResponse | ErrorResponse>) => {
+        const body = parseBody(UpdateShareRequestSchema, req, res)
+        if (!body) return
+        const address = req.user.address
+        const file = findOwnedFile(store, address, req.params.id, { includeDeleted: false })
+        const share = file && store.getShare(req.params.shareId)
+        if (!share || share.fileId !== file.id) return res.status(404).json({ error: 'Share not found' })
+
+        const patch: Partial<ShareRecord> = {}
+        if (body.permission) patch.permission = body.permission
+        if (body.expiresIn !== undefined) patch.expiresAt = body.expiresIn > 0 ? Date.now() + body.expiresIn * 1000 : 0
+        const updated = store.updateShare(share.id, patch)!
+
+        addAudit('SHARE_UPDATED', address, file.id, share.recipient, body.txId)
+        res.json({ success: true, share: toShareGrant(updated) })
+    })
+
+    // DELETE /api/files/:id/share/:shareId — Revoke a share (owner only)
+    // The recipient may already hold the key; /:id/rotate revokes and re-keys in one go.
+    router.delete('/:id/share/:shareId', requireAuth, (req, res: Response<SuccessResponse | ErrorResponse>) => {
+        const body = parseBody(TxRequestSchema, req, res)
+        if (!body) return
+        const address = req.user.address
+        const file = findOwnedFile(store, address, req.params.id)
+        const share = file && store.getShare(req.params.shareId)
+        if (!share || share.fileId !== file.id) return res.status(404).json({ error: 'Share not found' })
+
+        store.deleteShare(share.id)
+        addAudit('SHARE_REVOKED', address, file.id, share.recipient, body.txId)
+        console.log(`🚫 Share revoked: ${file.name} -> ${share.recipient.substring(0, 10)}...`)
+        res.json({ success: true })
+    })
+
+    // GET /api/files/shared — List files shared with the authenticated user
+    router.get('/shared', requireAuth, (req, res: Response<ListSharedFilesResponse>) => {
+        const shared = store.listSharesForRecipient(req.user.address)
+        // Filter expired
+        const active = shared.filter(s => !s.expiresAt || s.expiresAt > Date.now())
+        res.json({ files: active.map(({ recipient: _r, wrappedKey: _wk, ...s }) => s) })
+    })
+
+    // GET /api/files/shared/:shareId/key — Get the recipient's wrapped key for a shared file
+    router.get('/shared/:shareId/key', requireAuth, async (req, res: Response<FileKeyResponse | ErrorResponse>) => {
+        const address = req.user.address
+        const share = store.getShare(req.params.shareId)
+        if (!share || share.recipient !== address) return res.status(404).json({ error: 'Share not found' })
+
+        // Check expiry
+        if (share.expiresAt && share.expiresAt < Date.now()) {
+            return res.status(410).json({ error: 'Share has expired' })
+        }
+
+        // FileRegistry is the source of truth for grants on registered files
+        try {
+            if (!(await chain.hasOnChainAccess(share.chainFileId, address))) {
+                return res.status(403).json({ error: 'Access not granted on-chain' })
+            }
+        } catch (err) {
+            console.error('On-chain access check failed:', err)
+            return res.status(502).json({ error: 'Could not verify access on-chain' })
+        }
+
+        console.log(`🔑 Wrapped key released for share ${req.params.shareId} -> ${address.substring(0, 12)}...`)
+        res.json({ wrappedKey: share.wrappedKey || null })
+    })
+
+    return router
+}
@@ -0,0 +1,122 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PERSIST_DELAY_MS, SCHEMA_VERSION, createStorage } from './storage.js'
+
+const OWNER = 'OWNER'
+
+// A data file as the first release wrote it: no version history, pins, permission
+// levels, group keys or roles
+const V1_DATA = {
+    schemaVersion: 1,
+    users: {},
+    files: {
+        f1: {
+            id: 'f1', name: 'report.pdf', cid: 'bafy1', size: 10, mimeType: 'application/pdf',
+            owner: OWNER, createdAt: 1000, chainFileId: null, groupId: 'g1', isDeleted: false,
+            wrappedKey: 'wrapped', sealedShares: [],
+        },
+    },
+    shares: {
+        s1: { id: 's1', fileId: 'f1', recipient: 'RECIPIENT', permission: 'read', wrappedKey: 'w' },
+    },
+    publicLinks: { t1: { token: 't1', fileId: 'f1', key: 'raw AES key' } },
+    publicKeys: {},
+    groups: {
+        g1: {
+            id: 'g1', name: 'Team', creator: OWNER,
+            members: [
+                { address: OWNER, role: 'member', status: 'joined' },
+                { address: 'MEMBER', role: 'member', status: 'joined' },
+            ],
+        },
+    },
+    audit: [{ id: 1, type: 'FILE_UPLOAD', actor: OWNER, fileId: 'f1', target: null, timestamp: 1000, txId: null }],
+}
+
+describe('storage migrations', () => {
+    let dir: string
+    let file: string
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'algoauth-storage-'))
+        file = path.join(dir, 'data.json')
+        vi.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('brings a v1 data file up to the current schema and persists it', () => {
+        fs.writeFileSync(file, JSON.stringify(V1_DATA))
+        const store = createStorage({ file })
+
+        const migrated = store.getFile('f1')!
+        expect(migrated.version).toBe(1)
+        expect(migrated.groupKey).toBeNull()
+        expect(migrated.versions).toEqual([{
+            version: 1, cid: 'bafy1', size: 10, uploader: OWNER, createdAt: 1000, txId: null,
+            wrappedKey: 'wrapped', sealedShares: [], pinned: true, groupKey: null,
+        }])
+        expect(store.getShare('s1')?.permission).toBe('download')
+        // Links that held the raw file key are dropped rather than converted
+        expect(store.getPublicLink('t1')).toBeUndefined()
+
+        const group = store.getGroup('g1')!
+        expect(group.keyEpoch).toBe(0)
+        expect(group.members.map(m => m.role)).toEqual(['owner', 'editor'])
+
+        const persisted = JSON.parse(fs.readFileSync(file, 'utf8'))
+        expect(persisted.schemaVersion).toBe(SCHEMA_VERSION)
+        expect(persisted.audit[0].groupId).toBe('g1')
+    })
+
+    it('starts an empty store at the current schema', () => {
+        createStorage({ file })
+        expect(JSON.parse(fs.readFileSync(file, 'utf8')).schemaVersion).toBe(SCHEMA_VERSION)
+    })
+
+    it('refuses a data file from a newer server', () => {
+        fs.writeFileSync(file, JSON.stringify({ ...V1_DATA, schemaVersion: SCHEMA_VERSION + 1 }))
+        expect(() => createStorage({ file })).toThrow(/newer than this server/)
+    })
+})
+
+describe('storage writes', () => {
+    let dir: string
+    let file: string
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'algoauth-storage-'))
+        file = path.join(dir, 'data.json')
+        vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    const users = () => Object.keys(JSON.parse(fs.readFileSync(file, 'utf8')).users)
+
+    it('writes a burst of changes once, after a short delay', () => {
+        const store = createStorage({ file })
+        store.ensureUser('A')
+        store.ensureUser('B')
+        expect(users()).toEqual([])
+
+        vi.advanceTimersByTime(PERSIST_DELAY_MS)
+        expect(users()).toEqual(['A', 'B'])
+    })
+
+    it('writes scheduled changes at once on flush', () => {
+        const store = createStorage({ file })
+        store.ensureUser('A')
+        store.flush()
+        expect(users()).toEqual(['A'])
+        expect(vi.getTimerCount()).toBe(0)
+    })
+})
@@ -0,0 +1,389 @@
+import fs from 'fs'
+import path from 'path'
+import type { AuditEvent, FileItem, FileVersion, Group, GroupEpoch, GroupWrappedKey, SealedShare, SharedFile } from '../shared/api.js'
+
+// ============================================
+// STORAGE
+// Persistence for users, files, shares, public links, public keys, groups,
+// group key epochs and the audit log. Everything is held in memory and, when a data file is given,
+// written to it shortly after a change (atomically, via a temp file and rename)
+// so the server survives restarts and redeploys. Changes made close together,
+// such as an upload's file record and audit entry, share one write.
+//
+// Records handed out are copies — change them through the update* methods.
+// ============================================
+
+export interface UserRecord {
+    address: string
+    createdAt: string
+}
+
+/** A file version as stored, with the key material for that version */
+export interface FileVersionRecord extends FileVersion {
+    wrappedKey: string | null
+    sealedShares: SealedShare[]
+    groupKey: GroupWrappedKey | null
+}
+
+/**
+ * A file as stored: the listed fields plus key material that never leaves the server as-is.
+ * cid, size and the key material mirror the current entry of `versions`.
+ */
+export interface FileRecord extends FileItem {
+    wrappedKey: string | null       // owner's self-wrapped AES key — the server cannot unwrap it
+    sealedShares: SealedShare[]     // 2-of-3 Shamir shares, each sealed to one trio node (older organization files)
+    groupKey: GroupWrappedKey | null // AES key sealed under the group key (organization files)
+    versions: FileVersionRecord[]   // oldest first
+}
+
+/** A share as stored: the recipient's listing plus who it is for and their wrapped key */
+export interface ShareRecord extends SharedFile {
+    recipient: string
+    wrappedKey: string
+}
+
+export interface PublicLinkRecord {
+    token: string
+    fileId: string
+    cid: string
+    name: string
+    owner: string
+    burnerAddress: string   // the link's burner key; its secret only travels in the URL fragment
+    wrappedKey: string      // file key wrapped to the burner's X25519 key
+    chainFileId: string | null
+    passwordSalt: string | null  // scrypt salt when the burner key also needs a password
+    maxDownloads: number         // 0 = unlimited
+    downloads: number            // times the wrapped key was released
+    createdAt: number
+    expiresAt: number
+}
+
+/** One epoch of a group's content key; the server only ever holds it wrapped */
+export interface GroupKeyEpochRecord extends GroupEpoch {
+    createdBy: string
+    createdAt: number
+}
+
+interface StorageData {
+    schemaVersion?: number
+    users: Record<string, UserRecord>
+    files: Record<string, FileRecord>
+    shares: Record<string, ShareRecord>
+    publicLinks: Record<string, PublicLinkRecord>
+    publicKeys: Record<string, string>  // address -> X25519 publicKey (base64)
+    groups: Record<string, Group>
+    groupKeys: Record<string, GroupKeyEpochRecord[]>  // group ID -> epochs, oldest first
+    audit: AuditEvent[]
+}
+
+interface Migration {
+    version: number
+    description: string
+    up: (data: StorageData) => void
+}
+
+// Schema migrations, applied in order to data files written by older versions.
+// Append new entries; never edit one that has shipped.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Initial tables',
+        up: (data) => {
+            data.users = {}
+            data.files = {}
+            data.shares = {}
+            data.publicLinks = {}
+            data.publicKeys = {}
+            data.groups = {}
+            data.audit = []
+        },
+    },
+    {
+        version: 2,
+        description: 'File version history',
+        up: (data) => {
+            for (const file of Object.values(data.files)) {
+                file.version = 1
+                // As shipped; v3 adds `pinned` and v7 adds `groupKey`
+                file.versions = [{
+                    version: 1,
+                    cid: file.cid,
+                    size: file.size,
+                    uploader: file.owner,
+                    createdAt: file.createdAt,
+                    txId: null,
+                    wrappedKey: file.wrappedKey,
+                    sealedShares: file.sealedShares,
+                } as FileVersionRecord]
+            }
+        },
+    },
+    {
+        version: 3,
+        description: 'Track unpinned file versions',
+        up: (data) => {
+            for (const file of Object.values(data.files)) {
+                for (const version of file.versions) version.pinned = true
+            }
+        },
+    },
+    {
+        version: 4,
+        description: 'Share permission levels',
+        up: (data) => {
+            // 'read' let recipients download; 'write' keeps its name
+            for (const share of Object.values(data.shares)) {
+                if ((share.permission as string) === 'read') share.permission = 'download'
+            }
+        },
+    },
+    {
+        version: 5,
+        description: 'Burner-key public links',
+        up: (data) => {
+            // Older links stored the raw file key on the server; they cannot be converted
+            data.publicLinks = {}
+        },
+    },
+    {
+        version: 6,
+        description: 'Public link passwords and download limits',
+        up: (data) => {
+            for (const link of Object.values(data.publicLinks)) {
+                link.passwordSalt = null
+                link.maxDownloads = 0
+                link.downloads = 0
+            }
+        },
+    },
+    {
+        version: 7,
+        description: 'Group key epochs',
+        up: (data) => {
+            // Existing group files keep their trio shares; groups get a key on their next upload
+            data.groupKeys = {}
+            for (const group of Object.values(data.groups)) {
+                group.keyEpoch = 0
+                group.rekeyPending = false
+            }
+            for (const file of Object.values(data.files)) {
+                file.groupKey = null
+                for (const version of file.versions) version.groupKey = null
+            }
+        },
+    },
+    {
+        version: 8,
+        description: 'Organization roles',
+        up: (data) => {
+            // Members could upload, so they become editors; the creator becomes the owner
+            for (const group of Object.values(data.groups)) {
+                for (const member of group.members) {
+                    if (member.address === group.creator) member.role = 'owner'
+                    else if ((member.role as string) === 'member') member.role = 'editor'
+                }
+            }
+            for (const event of data.audit) {
+                const fileGroup = event.fileId ? data.files[event.fileId]?.groupId : null
+                event.groupId = fileGroup ?? (event.target && data.groups[event.target] ? event.target : null)
+            }
+        },
+    },
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+export type Storage = ReturnType<typeof createStorage>
+
+const clone = <T>(value: T): T => (value == null ? value : structuredClone(value))
+
+function migrate(data: StorageData): boolean {
+    const from = data.schemaVersion || 0
+    if (from > SCHEMA_VERSION) {
+        throw new Error(`Data file schema v${from} is newer than this server (v${SCHEMA_VERSION})`)
+    }
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= from) continue
+        migration.up(data)
+        data.schemaVersion = migration.version
+        console.log(`🗄️  Storage migrated to v${migration.version}: ${migration.description}`)
+    }
+    return from !== data.schemaVersion
+}
+
+// How long a change waits for others to join its write
+export const PERSIST_DELAY_MS = 200
+
+function loadDataFile(file: string | null): StorageData {
+    if (!file || !fs.existsSync(file)) return {} as StorageData
+    return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+/**
+ * Open the store. With `file` set, data is loaded from and persisted to that
+ * JSON file; without it the store is memory-only (wiped on restart). Call
+ * flush() before exiting so the last changes are written.
+ */
+export function createStorage({ file = null }: { file?: string | null } = {}) {
+    const data = loadDataFile(file)
+    const migrated = migrate(data)
+    let pendingWrite: NodeJS.Timeout | null = null
+
+    function write() {
+        if (!file) return
+        fs.mkdirSync(path.dirname(file), { recursive: true })
+        const tmp = `${file}.tmp`
+        fs.writeFileSync(tmp, JSON.stringify(data))
+        fs.renameSync(tmp, file)
+    }
+
+    // Schedule a write, unless one is already waiting
+    function persist() {
+        if (!file || pendingWrite) return
+        pendingWrite = setTimeout(flush, PERSIST_DELAY_MS)
+    }
+
+    // Write a scheduled change now
+    function flush() {
+        if (!pendingWrite) return
+        clearTimeout(pendingWrite)
+        pendingWrite = null
+        write()
+    }
+
+    if (migrated) write()
+
+    function update<T extends object>(table: Record<string, T>, key: string, patch: Partial<T>): T | null {
+        const record = table[key]
+        if (!record) return null
+        Object.assign(record, clone(patch))
+        persist()
+        return clone(record)
+    }
+
+    return {
+        file,
+        flush,
+
+        // ---------- Users ----------
+        getUser: (address: string): UserRecord | undefined => clone(data.users[address]),
+        ensureUser(address: string): UserRecord {
+            if (!data.users[address]) {
+                data.users[address] = { address, createdAt: new Date().toISOString() }
+                persist()
+            }
+            return clone(data.users[address])
+        },
+
+        // ---------- Files ----------
+        getFile: (id: string): FileRecord | undefined => clone(data.files[id]),
+        findFileByChainId: (chainFileId: string): FileRecord | undefined =>
+            clone(Object.values(data.files).find(f => f.chainFileId === chainFileId)),
+        listFilesByOwner: (owner: string): FileRecord[] =>
+            Object.values(data.files).filter(f => f.owner === owner).map(clone),
+        listFilesByGroup: (groupId: string): FileRecord[] =>
+            Object.values(data.files).filter(f => f.groupId === groupId).map(clone),
+        listFilesByCid: (cid: string): FileRecord[] =>
+            Object.values(data.files).filter(f => f.cid === cid || f.versions.some(v => v.cid === cid)).map(clone),
+        insertFile(file: FileRecord): FileRecord {
+            data.files[file.id] = clone(file)
+            persist()
+            return clone(file)
+        },
+        updateFile: (id: string, patch: Partial<FileRecord>) => update(data.files, id, patch),
+
+        // ---------- Shares ----------
+        getShare: (id: string): ShareRecord | undefined => clone(data.shares[id]),
+        listSharesForRecipient: (recipient: string): ShareRecord[] =>
+            Object.values(data.shares).filter(s => s.recipient === recipient).map(clone),
+        listSharesForFile: (fileId: string): ShareRecord[] =>
+            Object.values(data.shares).filter(s => s.fileId === fileId).map(clone),
+        insertShare(share: ShareRecord): ShareRecord {
+            data.shares[share.id] = clone(share)
+            persist()
+            return clone(share)
+        },
+        updateShare: (id: string, patch: Partial<ShareRecord>) => update(data.shares, id, patch),
+        deleteShare(id: string): void {
+            delete data.shares[id]
+            persist()
+        },
+
+        // ---------- Public links ----------
+        getPublicLink: (token: string): PublicLinkRecord | undefined => clone(data.publicLinks[token]),
+        listPublicLinksForFile: (fileId: string): PublicLinkRecord[] =>
+            Object.values(data.publicLinks).filter(l => l.fileId === fileId).map(clone),
+        insertPublicLink(link: PublicLinkRecord): PublicLinkRecord {
+            data.publicLinks[link.token] = clone(link)
+            persist()
+            return clone(link)
+        },
+        updatePublicLink: (token: string, patch: Partial<PublicLinkRecord>) => update(data.publicLinks, token, patch),
+        deletePublicLink(token: string): void {
+            delete data.publicLinks[token]
+            persist()
+        },
+
+        // ---------- Public keys ----------
+        getPublicKey: (address: string): string | null => data.publicKeys[address] || null,
+        setPublicKey(address: string, publicKey: string): void {
+            data.publicKeys[address] = publicKey
+            persist()
+        },
+
+        // ---------- Groups ----------
+        getGroup: (id: string): Group | undefined => clone(data.groups[id]),
+        listGroupsForMember: (address: string): Group[] =>
+            Object.values(data.groups).filter(g => g.members.some(m => m.address === address)).map(clone),
+        insertGroup(group: Group): Group {
+            data.groups[group.id] = clone(group)
+            persist()
+            return clone(group)
+        },
+        updateGroup: (id: string, patch: Partial<Group>) => update(data.groups, id, patch),
+
+        // ---------- Group keys ----------
+        getGroupKeyEpoch: (groupId: string, epoch: number): GroupKeyEpochRecord | undefined =>
+            clone(data.groupKeys[groupId]?.find(e => e.epoch === epoch)),
+        listGroupKeyEpochs: (groupId: string): GroupKeyEpochRecord[] => clone(data.groupKeys[groupId] || []),
+        // Appends the epoch and makes it the group's current one
+        insertGroupKeyEpoch(groupId: string, record: GroupKeyEpochRecord): GroupKeyEpochRecord {
+            data.groupKeys[groupId] = [...(data.groupKeys[groupId] || []), clone(record)]
+            Object.assign(data.groups[groupId], { keyEpoch: record.epoch, rekeyPending: false })
+            persist()
+            return clone(record)
+        },
+        // Add (or with null, drop) one member's copy of an epoch key
+        setGroupMemberKey(groupId: string, epoch: number, address: string, wrappedKey: string | null): void {
+            const record = data.groupKeys[groupId]?.find(e => e.epoch === epoch)
+            if (!record) return
+            if (wrappedKey) record.memberKeys[address] = wrappedKey
+            else delete record.memberKeys[address]
+            persist()
+        },
+
+        // ---------- Audit log ----------
+        addAudit(entry: Omit<AuditEvent, 'id'>): AuditEvent {
+            const last = data.audit[data.audit.length - 1]
+            const record = { id: (last?.id || 0) + 1, ...entry }
+            data.audit.push(record)
+            persist()
+            return clone(record)
+        },
+        // Newest first, optionally capped
+        listAudit(predicate: (event: AuditEvent) => boolean, limit = Infinity): AuditEvent[] {
+            const events: AuditEvent[] = []
+            for (let i = data.audit.length - 1; i >= 0 && events.length < limit; i--) {
+                if (predicate(data.audit[i])) events.push(clone(data.audit[i]))
+            }
+            return events
+        },
+        updateAudit(id: number, patch: Partial<AuditEvent>): AuditEvent | null {
+            const record = data.audit.find(a => a.id === id)
+            if (!record) return null
+            Object.assign(record, patch)
+            persist()
+            return clone(record)
+        },
+    }
+}
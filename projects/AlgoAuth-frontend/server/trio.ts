@@ -0,0 +1,36 @@
+import { spawn } from 'child_process'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { NODE_IDS } from './config.js'
+
+// ============================================
+// Local Trustless Trio stand-in: runs the three nodes as separate processes so
+// each holds only its own key. Stops all of them when one exits or on Ctrl+C.
+//
+// Usage: npm run trio
+// ============================================
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const nodeScript = path.join(__dirname, 'node.js')
+
+const children = NODE_IDS.map((id) => {
+    const child = spawn(process.execPath, [nodeScript, id], { stdio: 'inherit' })
+    child.on('exit', (code) => {
+        console.log(`Node ${id} exited (${code ?? 'signal'}) — stopping the trio`)
+        shutdown(code ?? 1)
+    })
+    return child
+})
+
+let stopping = false
+function shutdown(code = 0) {
+    if (stopping) return
+    stopping = true
+    for (const child of children) {
+        if (child.exitCode === null) child.kill('SIGTERM')
+    }
+    process.exitCode = code
+}
+
+process.on('SIGINT', () => shutdown(0))
+process.on('SIGTERM', () => shutdown(0))
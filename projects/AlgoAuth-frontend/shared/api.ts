@@ -0,0 +1,552 @@
+/**
+ * AlgoAuth API contract
+ * Request schemas (validated at runtime by the server) and response types,
+ * shared by the API server's route handlers and the frontend's apiCall callers.
+ * Changing a shape here breaks the compile on whichever side falls behind.
+ */
+
+import { z } from 'zod'
+
+// ============================================
+// ENTITIES
+// ============================================
+
+/**
+ * Share permission levels, lowest first; each includes the ones before it:
+ * view (inline preview only), download, write (upload new versions) and
+ * reshare (grant others access). The key has to reach the browser for a
+ * preview, so view-only is advisory: the app hides downloads, but a view
+ * grantee gets the same wrapped key as a download grantee.
+ */
+export const SHARE_PERMISSIONS = ['view', 'download', 'write', 'reshare'] as const
+export type SharePermission = typeof SHARE_PERMISSIONS[number]
+
+export function hasPermission(granted: SharePermission, needed: SharePermission): boolean {
+    return SHARE_PERMISSIONS.indexOf(granted) >= SHARE_PERMISSIONS.indexOf(needed)
+}
+
+export type ShareStatus = 'active' | 'expired'
+
+/**
+ * Organization roles, highest first. The owner and admins manage members;
+ * editors upload files; viewers only open them; auditors are given no file
+ * keys at all, just the group's audit log. A group has one owner, and
+ * ownership only changes hands by transfer.
+ */
+export const MEMBER_ROLES = ['owner', 'admin', 'editor', 'viewer', 'auditor'] as const
+export type MemberRole = typeof MEMBER_ROLES[number]
+
+export function canManageMembers(role: MemberRole): boolean {
+    return role === 'owner' || role === 'admin'
+}
+
+/** Whether `actor` may invite, change or remove a member holding `role`, or hand `role` out */
+export function canManageRole(actor: MemberRole, role: MemberRole): boolean {
+    if (actor === 'owner') return role !== 'owner'
+    return actor === 'admin' && role !== 'owner' && role !== 'admin'
+}
+
+export function canUploadToGroup(role: MemberRole): boolean {
+    return role === 'owner' || role === 'admin' || role === 'editor'
+}
+
+export function canReadGroupFiles(role: MemberRole): boolean {
+    return role !== 'auditor'
+}
+
+export function canViewGroupAudit(role: MemberRole): boolean {
+    return canManageMembers(role) || role === 'auditor'
+}
+
+export type MemberStatus = 'active' | 'invited'
+
+/** A Shamir share sealed (anonymous NaCl box) to one Trustless Trio node */
+export const SealedShareSchema = z.object({
+    nodeId: z.string(),
+    ephemeralPublicKey: z.string(), // base64
+    nonce: z.string(),              // base64
+    encrypted: z.string(),          // base64
+})
+export type SealedShare = z.infer<typeof SealedShareSchema>
+
+/** A file as listed to its owner (key material is never included) */
+export interface FileItem {
+    id: string
+    name: string
+    cid: string
+    owner: string
+    size: number
+    mimeType: string
+    createdAt: number
+    isDeleted: boolean
+    groupId: string | null
+    chainFileId: string | null
+    version: number     // current version number
+}
+
+/** One revision of a file; every version is encrypted under its own key */
+export interface FileVersion {
+    version: number     // 1 = the original upload
+    cid: string
+    size: number
+    uploader: string
+    createdAt: number
+    txId: string | null // FileRegistry updateFile transaction (registerFile for version 1)
+    pinned: boolean     // false once the blob was unpinned by a key rotation
+}
+
+/** A file shared with the caller */
+export interface SharedFile {
+    id: string          // share ID
+    fileId: string
+    name: string
+    cid: string
+    size: number
+    mimeType: string
+    owner: string
+    chainFileId: string | null
+    permission: SharePermission
+    sharedAt: number
+    expiresAt: number   // 0 = no expiry
+}
+
+/** A share as listed to the file's owner */
+export interface ShareGrant {
+    id: string          // share ID
+    recipient: string
+    cid: string         // the version the recipient's key unlocks
+    permission: SharePermission
+    sharedAt: number
+    expiresAt: number   // 0 = no expiry
+    status: ShareStatus
+}
+
+/** File metadata: the owner's view, or the recipient's share */
+export type FileMeta = (FileItem & { isOwner: true }) | (SharedFile & { isOwner: false })
+
+/** What a public link reveals without authentication */
+export interface PublicFileInfo {
+    name: string
+    cid: string
+    size: number
+    mimeType: string
+    owner: string
+    burnerAddress: string        // lets the page check a password before spending a download
+    passwordSalt: string | null  // set when the link needs a password
+    downloadsLeft: number | null // null = unlimited
+}
+
+export type PublicLinkStatus = 'active' | 'expired' | 'exhausted'
+
+/** A public link as listed to the file's owner; the URL fragment is never stored */
+export interface PublicLinkInfo {
+    token: string
+    cid: string
+    burnerAddress: string
+    passwordProtected: boolean
+    maxDownloads: number  // 0 = unlimited
+    downloads: number
+    createdAt: number
+    expiresAt: number
+    status: PublicLinkStatus
+}
+
+export interface GroupMember {
+    address: string
+    role: MemberRole
+    status: MemberStatus
+    joinedAt: number
+}
+
+export interface Group {
+    id: string
+    name: string
+    creator: string
+    members: GroupMember[]
+    createdAt: number
+    keyEpoch: number        // current group key epoch; 0 = no group key yet (Trustless Trio files only)
+    rekeyPending: boolean   // a member left; the next member to act rotates the key
+}
+
+/** A file uploaded to a group, as listed to its members */
+export interface GroupFile {
+    id: string
+    name: string
+    cid: string
+    size: number
+    mimeType: string
+    owner: string
+    createdAt: number
+    hasShares: boolean      // a key is available: under the group key or sealed to the trio nodes
+}
+
+export type AuditEventType =
+    | 'FILE_UPLOAD'
+    | 'FILE_DELETE'
+    | 'FILE_VERSION'
+    | 'FILE_RESTORE'
+    | 'FILE_SHARE'
+    | 'SHARE_UPDATED'
+    | 'SHARE_REVOKED'
+    | 'KEY_ROTATED'
+    | 'PUBLIC_LINK_CREATED'
+    | 'PUBLIC_LINK_REVOKED'
+    | 'KEY_REGISTERED'
+    | 'GROUP_CREATED'
+    | 'MEMBER_INVITED'
+    | 'MEMBER_JOINED'
+    | 'MEMBER_LEFT'
+    | 'MEMBER_REMOVED'
+    | 'GROUP_REKEYED'
+    | 'MEMBER_ROLE_CHANGED'
+    | 'OWNERSHIP_TRANSFERRED'
+
+export interface AuditEvent {
+    id: number
+    type: AuditEventType
+    actor: string
+    fileId: string | null
+    target: string | null
+    groupId: string | null  // the organization the event belongs to, for its audit log
+    timestamp: number
+    txId: string | null
+    onChain?: boolean       // read back from a contract event rather than the server's own log
+}
+
+/** A file key sealed (secretbox) under one epoch of its group's key */
+export const GroupWrappedKeySchema = z.object({
+    epoch: z.number().int().positive(),
+    wrappedKey: z.string().min(1),  // base64(nonce || secretbox)
+})
+export type GroupWrappedKey = z.infer<typeof GroupWrappedKeySchema>
+
+/** A Trustless Trio node endpoint */
+export interface TrioNode {
+    id: string
+    name: string
+    url: string
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+const required = (field: string) => z.string({ required_error: `${field} is required` }).min(1, `${field} is required`)
+const txId = z.string().nullable().default(null)
+
+export const VerifyRequestSchema = z.object({
+    address: required('address'),
+    nonce: required('nonce'),   // as issued by /auth/nonce; each is good for one attempt
+    signedTxn: required('signedTxn'),
+})
+export type VerifyRequest = z.input<typeof VerifyRequestSchema>
+
+/** Multipart fields sent alongside the encrypted file */
+export const UploadFieldsSchema = z.object({
+    filename: z.string().optional(),
+    wrappedKey: z.string().optional(),    // AES key wrapped to the owner's X25519 key
+    sealedShares: z.string().optional(),  // JSON SealedShare[] (organization files without a group key)
+    groupKey: z.string().optional(),      // JSON GroupWrappedKey (organization files)
+    groupId: z.string().optional(),       // set for organization files
+})
+export type UploadFields = z.input<typeof UploadFieldsSchema>
+
+export const RegisterFileOnChainRequestSchema = z.object({
+    chainFileId: z.union([z.string().regex(/^\d+$/, 'chainFileId must be a uint64'), z.number().int().nonnegative()], {
+        required_error: 'chainFileId is required',
+    }).transform(String),
+    txId,
+})
+export type RegisterFileOnChainRequest = z.input<typeof RegisterFileOnChainRequestSchema>
+
+/** Multipart fields sent alongside a new revision of a file */
+export const UploadVersionFieldsSchema = z.object({
+    wrappedKey: required('wrappedKey'),   // the revision's own AES key, wrapped to the owner's X25519 key
+    sealedShares: z.string().optional(),  // JSON SealedShare[] (organization files without a group key)
+    groupKey: z.string().optional(),      // JSON GroupWrappedKey (organization files)
+    shareKeys: z.string().default('[]'),  // JSON ShareKey[]: shares moved to the new version
+})
+export type UploadVersionFields = z.input<typeof UploadVersionFieldsSchema>
+
+/** A new file key wrapped for one grantee (new versions and key rotations) */
+export const ShareKeySchema = z.object({
+    shareId: z.string(),
+    wrappedKey: z.string(),
+})
+export type ShareKey = z.infer<typeof ShareKeySchema>
+
+/** Multipart fields sent alongside a file re-encrypted under a new key */
+export const RotateKeyFieldsSchema = z.object({
+    wrappedKey: required('wrappedKey'),     // the new AES key, wrapped to the owner's X25519 key
+    sealedShares: z.string().optional(),    // JSON SealedShare[] (organization files without a group key)
+    groupKey: z.string().optional(),        // JSON GroupWrappedKey (organization files)
+    shareKeys: z.string().default('[]'),    // JSON ShareKey[], one per share that is kept
+    revokeShareId: z.string().optional(),   // share revoked by this rotation
+    revokeTxId: z.string().optional(),      // its FileRegistry revokeAccess transaction
+})
+export type RotateKeyFields = z.input<typeof RotateKeyFieldsSchema>
+
+/** Body for routes whose only input is the on-chain transaction that backs them */
+export const TxRequestSchema = z.object({ txId })
+export type TxRequest = z.input<typeof TxRequestSchema>
+
+export const UnpinRequestSchema = z.object({
+    cid: z.string({ required_error: 'CID is required' }).min(1, 'CID is required'),
+})
+export type UnpinRequest = z.input<typeof UnpinRequestSchema>
+
+export const ShareFileRequestSchema = z.object({
+    recipientAddress: required('recipientAddress'),
+    permission: z.enum(SHARE_PERMISSIONS).default('download'),
+    expiresIn: z.number().int().nonnegative().default(0),  // seconds, 0 = no expiry
+    wrappedKey: required('wrappedKey'),                  // AES key wrapped to the recipient's X25519 key
+    txId,
+})
+export type ShareFileRequest = z.input<typeof ShareFileRequestSchema>
+
+/** Change a share's permission and/or expiry; the new expiry counts from now */
+export const UpdateShareRequestSchema = z.object({
+    permission: z.enum(SHARE_PERMISSIONS).optional(),
+    expiresIn: z.number().int().nonnegative().optional(),  // seconds, 0 = no expiry
+    txId,
+})
+export type UpdateShareRequest = z.input<typeof UpdateShareRequestSchema>
+
+export const CreatePublicLinkRequestSchema = z.object({
+    expiresIn: z.number().int().positive().default(3600),  // seconds
+    burnerAddress: required('burnerAddress'),  // the burner's X25519 public key, encoded as an address
+    wrappedKey: required('wrappedKey'),        // AES key wrapped to the burner's X25519 key
+    passwordSalt: z.string().regex(/^[0-9a-f]{32}$/, 'passwordSalt must be 16 hex-encoded bytes').nullable().default(null),
+    maxDownloads: z.number().int().nonnegative().default(0),  // 0 = unlimited
+    txId,
+})
+export type CreatePublicLinkRequest = z.input<typeof CreatePublicLinkRequestSchema>
+
+export const RegisterKeyRequestSchema = z.object({
+    publicKey: required('publicKey'),
+    txId,   // FileRegistry registerPublicKey transaction
+})
+export type RegisterKeyRequest = z.input<typeof RegisterKeyRequestSchema>
+
+export const CreateGroupRequestSchema = z.object({
+    name: z.string({ required_error: 'Group name is required' }).min(1, 'Group name is required'),
+    groupId: z.union([z.string(), z.number().int().nonnegative()]).transform(String).optional(),  // GroupRegistry ID
+    memberKey: required('memberKey'),  // the first epoch's group key, wrapped to the creator's X25519 key
+    txId,
+})
+export type CreateGroupRequest = z.input<typeof CreateGroupRequestSchema>
+
+// Every role but owner can be handed out
+const assignableRole = z.enum(['admin', 'editor', 'viewer', 'auditor'])
+
+export const InviteMemberRequestSchema = z.object({
+    memberAddress: z.string().default(''),
+    role: assignableRole.default('editor'),
+    memberKey: z.string().optional(),  // the current group key wrapped to the invitee (groups that have one; not auditors)
+    txId,
+})
+export type InviteMemberRequest = z.input<typeof InviteMemberRequestSchema>
+
+/** A new group key epoch: the key wrapped to every remaining member */
+export const GroupEpochSchema = z.object({
+    epoch: z.number().int().positive(),
+    memberKeys: z.record(z.string()),       // member address -> new key wrapped to their X25519 key
+    previousKey: z.string().nullable(),     // the previous epoch's key sealed under the new one
+})
+export type GroupEpoch = z.infer<typeof GroupEpochSchema>
+
+export type RotateGroupKeyRequest = GroupEpoch
+
+/** Removing a member rotates the group key in the same request */
+export const RemoveMemberRequestSchema = z.object({
+    rekey: GroupEpochSchema.optional(),     // required once the group has a key
+    txId,
+})
+export type RemoveMemberRequest = z.input<typeof RemoveMemberRequestSchema>
+
+/**
+ * Promoting an auditor hands them the current group key; demoting a member to
+ * auditor rotates it to everyone else, as removing them would
+ */
+export const ChangeRoleRequestSchema = z.object({
+    role: assignableRole,
+    memberKey: z.string().optional(),
+    rekey: GroupEpochSchema.optional(),
+    txId,
+})
+export type ChangeRoleRequest = z.input<typeof ChangeRoleRequestSchema>
+
+/** The previous owner stays on as an admin */
+export const TransferOwnershipRequestSchema = z.object({
+    newOwner: required('newOwner'),
+    memberKey: z.string().optional(),  // the current group key, when the new owner was an auditor
+    txId,
+})
+export type TransferOwnershipRequest = z.input<typeof TransferOwnershipRequestSchema>
+
+/** Trustless Trio node: release a sealed share re-encrypted to the requester */
+export const ReencryptRequestSchema = z.object({
+    sealedShare: SealedShareSchema,
+    recipientPublicKey: required('recipientPublicKey'),
+    // The FileRegistry file the share's key opens; nodes checking on-chain need it
+    chainFileId: z.string().regex(/^\d+$/, 'chainFileId must be a uint64').nullish(),
+})
+export type ReencryptRequest = z.input<typeof ReencryptRequestSchema>
+
+// ============================================
+// RESPONSES
+// ============================================
+
+export interface ErrorResponse {
+    error: string
+}
+
+export interface SuccessResponse {
+    success: true
+}
+
+export interface NonceResponse {
+    nonce: string
+    message: string
+}
+
+export interface VerifyResponse {
+    token: string
+    address: string
+}
+
+export interface ListFilesResponse {
+    files: FileItem[]
+}
+
+export type UploadFileResponse = FileItem
+
+export interface FileKeyResponse {
+    wrappedKey: string | null
+}
+
+export interface RegisterFileOnChainResponse extends SuccessResponse {
+    chainFileId: string
+}
+
+export interface ListVersionsResponse {
+    versions: FileVersion[]  // newest first
+}
+
+/** A new current version (uploaded or restored) and the updated file */
+export interface AddVersionResponse {
+    file: FileItem
+    version: FileVersion
+}
+
+/** A rotation's new current version, plus the CIDs it unpinned */
+export interface RotateKeyResponse extends AddVersionResponse {
+    unpinned: string[]
+}
+
+export interface ListSharesResponse {
+    shares: ShareGrant[]
+}
+
+export interface UpdateShareResponse extends SuccessResponse {
+    share: ShareGrant
+}
+
+export interface ShareFileResponse extends SuccessResponse {
+    shareId: string
+}
+
+export interface ListSharedFilesResponse {
+    files: SharedFile[]
+}
+
+export interface CreatePublicLinkResponse extends SuccessResponse {
+    linkToken: string
+    expiresAt: number
+}
+
+export interface ListPublicLinksResponse {
+    links: PublicLinkInfo[]
+}
+
+/** The link's wrapped key; only the secret in the link's URL fragment unwraps it */
+export interface PublicLinkKeyResponse {
+    wrappedKey: string
+}
+
+export interface PublicKeyResponse {
+    publicKey: string
+    onChain: boolean    // read from FileRegistry rather than the server's cache
+}
+
+export interface ListGroupsResponse {
+    groups: Group[]
+}
+
+export interface ListGroupFilesResponse {
+    files: GroupFile[]
+}
+
+export interface GroupFileKeyResponse {
+    groupKey: GroupWrappedKey | null    // files uploaded under a group key
+    sealedShares: SealedShare[]         // older files: shares sealed to the trio nodes
+    chainFileId: string | null          // passed on to the nodes with each share
+    nodes: { id: string; url: string }[]
+    threshold: number
+    totalShares: number
+}
+
+/** An epoch's predecessor key, sealed (secretbox) under that epoch's key */
+export interface GroupPreviousKey {
+    epoch: number           // the epoch whose key seals it
+    previousKey: string     // base64(nonce || secretbox(key of epoch - 1))
+}
+
+/** The caller's copy of a group's current key, and the chain back to older epochs */
+export interface GroupKeyResponse {
+    epoch: number
+    wrappedKey: string                  // current epoch key wrapped to the caller's X25519 key
+    previousKeys: GroupPreviousKey[]    // newest first
+}
+
+export interface MembershipResponse {
+    member: boolean     // joined, in a role that may open group files
+}
+
+export interface ListNodesResponse {
+    nodes: TrioNode[]
+}
+
+export interface AuditResponse {
+    events: AuditEvent[]
+}
+
+export interface HealthResponse {
+    status: 'ok'
+    timestamp: string
+    pinataConfigured: boolean
+    ipfsProvider: 'pinata' | 'local'
+    fileRegistryAppId: string
+    groupRegistryAppId: string
+    onChainAccessChecks: boolean
+    onChainGroupChecks: boolean
+    onChainAuditLog: boolean    // the audit log is read back from contract events
+    gateway: string
+    trioNodes: number
+    storage: 'file' | 'memory'
+}
+
+/** Trustless Trio node: GET /info */
+export interface NodeInfoResponse {
+    id: string
+    publicKey: string  // base64 X25519
+    onChainChecks: boolean
+}
+
+/** Trustless Trio node: the share boxed from the node's key to the requester's */
+export interface ReencryptResponse {
+    nodeId: string
+    nodePublicKey: string
+    nonce: string
+    encrypted: string
+}
@@ -1,16 +1,23 @@
 import React, { useState } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Link2, Clock, Copy, Check, Loader2, ExternalLink, X } from 'lucide-react'
+import { Link2, Clock, Copy, Check, Loader2, ExternalLink, X, Lock, Download } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { apiCall } from '@/lib/contractClient'
+import { getOwnerFileKey } from '@/lib/fileKeys'
+import { createPublicLink } from '@/lib/publicLinks'
 
 interface CreatePublicLinkDialogProps {
     isOpen: boolean
     onClose: () => void
     fileId: string
     fileName: string
+    cid: string
+    /** FileRegistry file ID; the link's burner key is granted access there */
+    chainFileId: string | null
+    /** Called after a link was created */
+    onCreated?: () => void
 }
 
 const EXPIRY_OPTIONS = [
@@ -21,33 +28,49 @@ const EXPIRY_OPTIONS = [
     { label: '30 Days', seconds: 2592000 },
 ]
 
+/** How many times the link may be opened; 0 = unlimited */
+const DOWNLOAD_LIMIT_OPTIONS = [
+    { label: 'Unlimited', count: 0 },
+    { label: '1', count: 1 },
+    { label: '5', count: 5 },
+    { label: '10', count: 10 },
+    { label: '25', count: 25 },
+]
+
 const CreatePublicLinkDialog: React.FC<CreatePublicLinkDialogProps> = ({
     isOpen,
     onClose,
     fileId,
     fileName,
+    cid,
+    chainFileId,
+    onCreated,
 }) => {
+    const { activeAddress, transactionSigner } = useWallet()
     const [selectedExpiry, setSelectedExpiry] = useState(86400)
+    const [maxDownloads, setMaxDownloads] = useState(0)
+    const [password, setPassword] = useState('')
     const [creating, setCreating] = useState(false)
-    const [linkToken, setLinkToken] = useState<string | null>(null)
+    const [publicUrl, setPublicUrl] = useState<string | null>(null)
     const [expiresAt, setExpiresAt] = useState<number>(0)
     const [copied, setCopied] = useState(false)
 
     const handleCreate = async () => {
+        if (!activeAddress) return
         setCreating(true)
         try {
-            const res = await apiCall(`/files/${fileId}/public-link`, {
-                method: 'POST',
-                body: JSON.stringify({ expiresIn: selectedExpiry }),
-            })
-            if (res.ok) {
-                const data = await res.json()
-                setLinkToken(data.linkToken)
-                setExpiresAt(data.expiresAt)
-            } else {
-                const err = await res.json()
-                alert(err.error || 'Failed to create link')
-            }
+            // Whoever holds the link holds the burner key the file key is wrapped to
+            const keyBytes = await getOwnerFileKey(activeAddress, fileId, cid)
+            if (!keyBytes) throw new Error('File key not available')
+            const link = await createPublicLink(
+                { address: activeAddress, signer: transactionSigner },
+                { id: fileId, chainFileId },
+                keyBytes,
+                { expiresIn: selectedExpiry, maxDownloads, password }
+            )
+            setPublicUrl(link.url)
+            setExpiresAt(link.expiresAt)
+            onCreated?.()
         } catch (err: any) {
             alert('Failed: ' + err.message)
         } finally {
@@ -55,18 +78,16 @@ const CreatePublicLinkDialog: React.FC<CreatePublicLinkDialogProps> = ({
         }
     }
 
-    const publicUrl = linkToken
-        ? `${window.location.origin}/public/${linkToken}`
-        : ''
-
     const handleCopy = () => {
+        if (!publicUrl) return
         navigator.clipboard.writeText(publicUrl)
         setCopied(true)
         setTimeout(() => setCopied(false), 2000)
     }
 
     const handleClose = () => {
-        setLinkToken(null)
+        setPublicUrl(null)
+        setPassword('')
         setCopied(false)
         onClose()
     }
@@ -102,10 +123,11 @@ const CreatePublicLinkDialog: React.FC<CreatePublicLinkDialogProps> = ({
                         <CardContent className="space-y-4">
                             <p className="text-sm text-muted-foreground">
                                 Generate a time-limited public access link for <strong>{fileName}</strong>.
-                                Anyone with the link can view the file.
+                                Anyone with the link can view the file. The decryption key is part of the
+                                link itself and is never sent to the server.
                             </p>
 
-                            {!linkToken ? (
+                            {!publicUrl ? (
                                 <>
                                     {/* Expiry selection */}
                                     <div className="space-y-2">
@@ -126,6 +148,39 @@ const CreatePublicLinkDialog: React.FC<CreatePublicLinkDialogProps> = ({
                                         </div>
                                     </div>
 
+                                    {/* Download limit */}
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium flex items-center gap-2">
+                                            <Download size={14} /> Max Opens
+                                        </label>
+                                        <div className="flex flex-wrap gap-2">
+                                            {DOWNLOAD_LIMIT_OPTIONS.map((opt) => (
+                                                <Badge
+                                                    key={opt.count}
+                                                    variant={maxDownloads === opt.count ? 'default' : 'outline'}
+                                                    className="cursor-pointer"
+                                                    onClick={() => setMaxDownloads(opt.count)}
+                                                >
+                                                    {opt.label}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    {/* Optional password */}
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium flex items-center gap-2">
+                                            <Lock size={14} /> Password (optional)
+                                        </label>
+                                        <input
+                                            type="password"
+                                            placeholder="Leave empty for no password"
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            className="w-full bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+                                        />
+                                    </div>
+
                                     <div className="flex gap-2 pt-2">
                                         <Button onClick={handleCreate} disabled={creating} className="flex-1">
                                             {creating ? <Loader2 size={14} className="animate-spin" /> : <Link2 size={14} />}
@@ -151,7 +206,14 @@ const CreatePublicLinkDialog: React.FC<CreatePublicLinkDialogProps> = ({
                                         <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
                                             <Clock size={10} />
                                             Expires: {new Date(expiresAt).toLocaleString()}
+                                            {maxDownloads > 0 && ` · ${maxDownloads} ${maxDownloads === 1 ? 'open' : 'opens'}`}
                                         </div>
+                                        {password && (
+                                            <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                                                <Lock size={10} />
+                                                Send the password separately from the link
+                                            </div>
+                                        )}
                                     </div>
                                     <Button variant="outline" size="sm" className="w-full" onClick={handleClose}>
                                         Done
@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { X, Download, ZoomIn, ZoomOut, FileText, Loader2, Eye } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { apiCall } from '@/lib/contractClient'
-import { decryptFile } from '@/lib/encryption'
-import { reconstructSecret, hexToShare } from '@/lib/shamirSecretSharing'
+import { decryptResponse, hexToBytes } from '@/lib/encryption'
+import { getMimeFromName, isTextMime } from '@/lib/mime'
+import { getCachedFileKey, getOwnerFileKey, getSharedFileKey } from '@/lib/fileKeys'
+import { getGroupFileKey } from '@/lib/groupKeys'
+import type { WalletSender } from '@/lib/fileRegistryService'
 
 interface DocumentViewerProps {
     /** Whether the viewer is open */
@@ -15,128 +18,62 @@ interface DocumentViewerProps {
     cid: string
     /** File ID for retrieving encryption key from server */
     fileId: string
-    /** Original filename (used to determine MIME type) */
+    /** Original filename (MIME type fallback for files encrypted before the envelope carried one) */
     filename: string
     /** Share ID for shared file key retrieval (optional) */
     shareId?: string
     /** Group ID for group file key retrieval (optional) */
     groupId?: string
+    /** FileRegistry file ID, used to read a shared file's wrapped key on-chain (optional) */
+    chainFileId?: string | null
+    /** Earlier version to show, decrypted with that version's own key (owner only, optional) */
+    version?: number
+    /** Offer a download of the decrypted file (default true; false for view-only shares) */
+    canDownload?: boolean
 }
 
-function getMimeFromName(name: string): string {
-    const ext = name.replace(/\.enc$/, '').split('.').pop()?.toLowerCase() || ''
-    const mimeMap: Record<string, string> = {
-        pdf: 'application/pdf',
-        png: 'image/png',
-        jpg: 'image/jpeg',
-        jpeg: 'image/jpeg',
-        gif: 'image/gif',
-        webp: 'image/webp',
-        svg: 'image/svg+xml',
-        txt: 'text/plain',
-        md: 'text/markdown',
-        html: 'text/html',
-        css: 'text/css',
-        js: 'application/javascript',
-        json: 'application/json',
-        xml: 'application/xml',
-        csv: 'text/csv',
-    }
-    return mimeMap[ext] || 'application/octet-stream'
-}
-
-async function getEncryptionKey(fileId: string, cid: string, shareId?: string, groupId?: string): Promise<Uint8Array | null> {
+async function getEncryptionKey(
+    sender: WalletSender | null,
+    fileId: string,
+    cid: string,
+    shareId?: string,
+    groupId?: string,
+    chainFileId?: string | null,
+    version?: number
+): Promise<Uint8Array | null> {
     // 1. Try sessionStorage first
-    let keyHex = sessionStorage.getItem(`key_${fileId}`) || sessionStorage.getItem(`key_${cid}`)
-
-    if (!keyHex) {
-        // 2. Try owner endpoint
-        try {
-            const res = await apiCall(`/files/${fileId}/key`)
-            if (res.ok) {
-                const data = await res.json()
-                keyHex = data.encryptionKey
-                if (keyHex) {
-                    console.log(`🔑 Owner key retrieved for file ${fileId}`)
-                    sessionStorage.setItem(`key_${fileId}`, keyHex)
-                    sessionStorage.setItem(`key_${cid}`, keyHex)
-                }
-            }
-        } catch { }
+    const cached = getCachedFileKey(cid)
+    if (cached) return hexToBytes(cached)
+    if (!sender) return null
+
+    if (shareId) {
+        // 2. Shared file — unwrap the key the owner wrapped for us
+        console.log(`\n🔐 ===== Shared File Key Unwrap =====`)
+        console.log(`📋 Share ID: ${shareId}`)
+        console.log(`📁 File ID: ${fileId}`)
+        const keyBytes = await getSharedFileKey(sender, { id: shareId, fileId, cid, chainFileId })
+        if (keyBytes) console.log(`✅ Key unwrapped with local X25519 secret key`)
+        return keyBytes
     }
 
-    if (!keyHex && groupId) {
-        // 3. Try group file key endpoint — Shamir Trustless Trio for org files
-        try {
-            console.log(`\n🔐 ===== Group File Key Retrieval =====`)
-            console.log(`📦 Group ID: ${groupId}`)
-            console.log(`📁 File ID: ${fileId}`)
-
-            const res = await apiCall(`/groups/${groupId}/files/${fileId}/key`)
-            if (res.ok) {
-                const data = await res.json()
-                keyHex = data.encryptionKey
-                if (keyHex) {
-                    console.log(`✅ Group file key retrieved via Trustless Trio`)
-                    if (data.releasedNodes) {
-                        console.log(`🌐 Shares released by: [${data.releasedNodes.join(', ')}]`)
-                    }
-                    sessionStorage.setItem(`key_${fileId}`, keyHex)
-                    sessionStorage.setItem(`key_${cid}`, keyHex)
-                }
-            }
-        } catch { }
-    }
-
-    if (!keyHex && shareId) {
-        // 3. Try shared file key endpoint — Shamir Trustless Trio flow
-        try {
-            console.log(`\n🔐 ===== Shamir Trustless Trio — Key Reconstruction =====`)
-            console.log(`📋 Share ID: ${shareId}`)
-            console.log(`📁 File ID: ${fileId}`)
-
-            const res = await apiCall(`/files/shared/${shareId}/key`)
-            if (res.ok) {
-                const data = await res.json()
-
-                // If Shamir shares are available, reconstruct the key
-                if (data.shares && data.shares.length >= 2) {
-                    console.log(`\n📦 Received ${data.shares.length} of ${data.totalShares} Shamir shares (threshold: ${data.threshold})`)
-                    console.log(`🌐 Released by Trustless Trio nodes: [${(data.releasedNodes || []).join(', ')}]`)
-                    console.log(`📊 Share data sizes: ${data.shares.map((s: string) => `${s.length / 2} bytes`).join(', ')}`)
-
-                    // Convert hex shares back to Uint8Array for reconstruction
-                    const shareArrays = data.shares.map((hex: string) => hexToShare(hex))
-
-                    console.log(`\n🔑 Lagrange interpolation: reconstructing 32-byte AES-256 key...`)
-                    console.log(`   Using GF(256) arithmetic with irreducible polynomial x^8+x^4+x^3+x+1`)
-
-                    const reconstructedKey = reconstructSecret(shareArrays)
-                    keyHex = Array.from(reconstructedKey).map(b => b.toString(16).padStart(2, '0')).join('')
-
-                    console.log(`✅ Key reconstructed successfully!`)
-                    console.log(`   Shares used: ${data.shares.length} (threshold: ${data.threshold})`)
-                    console.log(`   Key length: ${reconstructedKey.length} bytes (${reconstructedKey.length * 8}-bit AES)`)
-                    console.log(`   Key fingerprint: ${keyHex.substring(0, 8)}...${keyHex.substring(keyHex.length - 8)}`)
-                    console.log(`🔐 ===== Reconstruction Complete =====\n`)
-
-                    sessionStorage.setItem(`key_${fileId}`, keyHex)
-                    sessionStorage.setItem(`key_${cid}`, keyHex)
-                } else if (data.encryptionKey) {
-                    // Direct key (no Shamir shares available)
-                    keyHex = data.encryptionKey
-                    console.log(`🔑 Direct encryption key received for shared file ${fileId}`)
-                    sessionStorage.setItem(`key_${fileId}`, keyHex!)
-                    sessionStorage.setItem(`key_${cid}`, keyHex!)
-                }
-            }
-        } catch (err) {
-            console.error('Failed to retrieve shared file key:', err)
+    if (groupId && !version) {
+        // 3. Group file — opened with the group key (older files: Trustless Trio nodes)
+        console.log(`\n🔐 ===== Group File Key Retrieval =====`)
+        console.log(`📦 Group ID: ${groupId}`)
+        console.log(`📁 File ID: ${fileId}`)
+        const keyBytes = await getGroupFileKey(sender.address, groupId, { id: fileId, cid })
+        if (keyBytes) {
+            console.log(`✅ Group file key recovered`)
+            return keyBytes
         }
     }
 
-    if (!keyHex) return null
-    return new Uint8Array(keyHex.match(/.{1,2}/g)!.map((h: string) => parseInt(h, 16)))
+    // 4. Own file — unwrap the self-wrapped key
+    try {
+        return await getOwnerFileKey(sender.address, fileId, cid, version)
+    } catch {
+        return null
+    }
 }
 
 const DocumentViewer: React.FC<DocumentViewerProps> = ({
@@ -147,7 +84,11 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
     filename,
     shareId,
     groupId,
+    chainFileId,
+    version,
+    canDownload = true,
 }) => {
+    const { activeAddress, transactionSigner } = useWallet()
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [blobUrl, setBlobUrl] = useState<string | null>(null)
@@ -162,21 +103,19 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
         setTextContent(null)
 
         try {
-            const keyBytes = await getEncryptionKey(fileId, cid, shareId, groupId)
+            const sender = activeAddress ? { address: activeAddress, signer: transactionSigner } : null
+            const keyBytes = await getEncryptionKey(sender, fileId, cid, shareId, groupId, chainFileId, version)
             const apiBase = import.meta.env.VITE_API_BASE_URL || '/api'
             const res = await fetch(`${apiBase.replace('/api', '')}/api/files/${cid}/download`)
             if (!res.ok) throw new Error('Download failed')
-            const encryptedData = await res.arrayBuffer()
 
-            let blob: Blob
-            if (keyBytes) {
-                const decrypted = await decryptFile(new Uint8Array(encryptedData), keyBytes)
-                blob = new Blob([decrypted.buffer.slice(decrypted.byteOffset, decrypted.byteOffset + decrypted.byteLength) as ArrayBuffer], { type: getMimeFromName(filename) })
-            } else {
-                blob = new Blob([encryptedData])
-            }
+            // Decrypt chunk by chunk as the download streams in
+            // The envelope carries the original MIME type; older files fall back to the name
+            const blob = keyBytes
+                ? (await decryptResponse(res, keyBytes, getMimeFromName(filename))).blob
+                : await res.blob()
 
-            const mime = getMimeFromName(filename)
+            const mime = blob.type
 
             if (mime === 'application/pdf') {
                 setBlobUrl(URL.createObjectURL(new Blob([blob], { type: 'application/pdf' })))
@@ -184,7 +123,7 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
             } else if (mime.startsWith('image/')) {
                 setBlobUrl(URL.createObjectURL(blob))
                 setDisplayType('image')
-            } else if (mime.startsWith('text/') || mime.includes('json') || mime.includes('javascript') || mime.includes('xml') || mime.includes('csv') || mime.includes('markdown')) {
+            } else if (isTextMime(mime)) {
                 const text = await blob.text()
                 setTextContent(text)
                 setDisplayType('text')
@@ -196,7 +135,7 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
         } finally {
             setLoading(false)
         }
-    }, [cid, fileId, filename, shareId])
+    }, [cid, fileId, filename, shareId, groupId, chainFileId, version, activeAddress])
 
     useEffect(() => {
         if (isOpen) {
@@ -242,7 +181,7 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                 </Button>
                             </>
                         )}
-                        {blobUrl && (
+                        {blobUrl && canDownload && (
                             <Button variant="ghost" size="sm" onClick={handleDownload}>
                                 <Download size={14} /> Download
                             </Button>
@@ -297,7 +236,7 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
                         <div className="text-center text-muted-foreground space-y-2">
                             <FileText size={48} className="mx-auto opacity-40" />
                             <p className="text-sm">Preview not available for this file type</p>
-                            {blobUrl && (
+                            {blobUrl && canDownload && (
                                 <Button variant="outline" size="sm" onClick={handleDownload}>
                                     <Download size={14} /> Download Instead
                                 </Button>
@@ -1,27 +1,76 @@
 import React, { useState, useEffect } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion } from 'framer-motion'
-import { Key, Copy, Check, RefreshCw } from 'lucide-react'
+import qrcode from 'qrcode-generator'
+import { Key, Copy, Check, Download, Loader2, Save, AlertTriangle, Link2 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { loadKeyPair } from '@/lib/publicKeyRegistry'
+import { type RegisteredPublicKey, lookupPublicKey } from '@/lib/fileKeys'
+import { isFileRegistryEnabled } from '@/lib/fileRegistryService'
+import { exportKeyBackup, publishPublicKey } from '@/lib/keyBackup'
+import { keyFingerprint, loadKeyPair } from '@/lib/publicKeyRegistry'
 
 interface EncryptionKeyCardProps {
     walletAddress: string
 }
 
+// Backups are restored with the same passphrase, so ask for something worth the scrypt cost
+const MIN_PASSPHRASE_LENGTH = 10
+
+/** Render text as a QR code image (data URL) */
+function qrDataUrl(text: string): string {
+    const qr = qrcode(0, 'L')
+    qr.addData(text)
+    qr.make()
+    return qr.createDataURL(4, 8)
+}
+
 /**
- * Dashboard card showing the user's X25519 public key with copy functionality.
+ * Dashboard card showing the user's X25519 public key and fingerprint, whether
+ * it is registered in FileRegistry, and a passphrase-encrypted backup (file
+ * and QR code) of the key pair.
  */
 const EncryptionKeyCard: React.FC<EncryptionKeyCardProps> = ({ walletAddress }) => {
+    const { transactionSigner } = useWallet()
     const [publicKey, setPublicKey] = useState<string | null>(null)
+    const [registered, setRegistered] = useState<RegisteredPublicKey | null>(null)
+    const [publishing, setPublishing] = useState(false)
     const [copied, setCopied] = useState(false)
+    const [backupOpen, setBackupOpen] = useState(false)
+    const [passphrase, setPassphrase] = useState('')
+    const [passphraseConfirm, setPassphraseConfirm] = useState('')
+    const [exporting, setExporting] = useState(false)
+    const [backupQr, setBackupQr] = useState<string | null>(null)
 
     useEffect(() => {
         const kp = loadKeyPair(walletAddress)
         if (kp) setPublicKey(kp.publicKey)
+        lookupPublicKey(walletAddress).then(setRegistered).catch(() => setRegistered(null))
     }, [walletAddress])
 
+    // Keys registered before on-chain registration (or replaced on another device)
+    // need publishing from this wallet before others can share to them trustlessly
+    const onChain = registered?.onChain === true && registered.publicKey === publicKey
+    const needsPublish = isFileRegistryEnabled() && !onChain
+
+    const handlePublish = async () => {
+        if (!publicKey) return
+        if (registered && registered.publicKey !== publicKey && !confirm(
+            'Your wallet has a different key registered. Replacing it means files shared to that key cannot be opened ' +
+            'until their owners share them again. Register this browser\'s key instead?'
+        )) return
+        setPublishing(true)
+        try {
+            await publishPublicKey({ address: walletAddress, signer: transactionSigner }, publicKey)
+            setRegistered({ publicKey, onChain: true })
+        } catch (err: any) {
+            alert('Registration failed: ' + err.message)
+        } finally {
+            setPublishing(false)
+        }
+    }
+
     const handleCopy = () => {
         if (!publicKey) return
         navigator.clipboard.writeText(publicKey)
@@ -29,6 +78,32 @@ const EncryptionKeyCard: React.FC<EncryptionKeyCardProps> = ({ walletAddress })
         setTimeout(() => setCopied(false), 2000)
     }
 
+    const handleBackup = async () => {
+        const keyPair = loadKeyPair(walletAddress)
+        if (!keyPair) return
+        setExporting(true)
+        try {
+            const backup = await exportKeyBackup(walletAddress, keyPair, passphrase)
+            const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }))
+            const a = document.createElement('a')
+            a.href = url
+            a.download = `algoauth-key-${walletAddress.slice(0, 8)}.json`
+            a.click()
+            URL.revokeObjectURL(url)
+            setBackupQr(qrDataUrl(backup))
+            setPassphrase('')
+            setPassphraseConfirm('')
+        } catch (err: any) {
+            alert('Backup failed: ' + err.message)
+        } finally {
+            setExporting(false)
+        }
+    }
+
+    const passphraseError = passphrase.length < MIN_PASSPHRASE_LENGTH
+        ? `At least ${MIN_PASSPHRASE_LENGTH} characters`
+        : passphrase !== passphraseConfirm ? 'Passphrases do not match' : null
+
     if (!publicKey) return null
 
     return (
@@ -39,7 +114,7 @@ const EncryptionKeyCard: React.FC<EncryptionKeyCardProps> = ({ walletAddress })
                         <Key size={14} className="text-primary" />
                         Encryption Key
                         <Badge variant="outline" className="text-[10px] text-emerald-400 border-emerald-500/30 bg-emerald-500/10">
-                            Active
+                            {onChain ? 'On-chain' : 'Active'}
                         </Badge>
                     </CardTitle>
                 </CardHeader>
@@ -55,6 +130,68 @@ const EncryptionKeyCard: React.FC<EncryptionKeyCardProps> = ({ walletAddress })
                     <p className="text-[10px] text-muted-foreground">
                         X25519 public key — share with others to receive encrypted files.
                     </p>
+                    <p className="text-[10px] text-muted-foreground">
+                        Fingerprint <span className="font-mono text-foreground">{keyFingerprint(publicKey)}</span>
+                        {' '}— compare it with people who share files with you.
+                    </p>
+                    {needsPublish && (
+                        <div className="space-y-2">
+                            <div className="flex items-start gap-2 text-amber-400 text-[10px]">
+                                <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                                {registered && registered.publicKey !== publicKey
+                                    ? 'This browser\'s key differs from the one registered for your wallet.'
+                                    : 'This key is not registered on-chain yet, so others can only look it up through the server.'}
+                            </div>
+                            <Button variant="outline" size="sm" className="w-full" onClick={handlePublish} disabled={publishing}>
+                                {publishing ? <Loader2 size={14} className="animate-spin" /> : <Link2 size={14} />}
+                                Register On-Chain
+                            </Button>
+                        </div>
+                    )}
+                    {!backupOpen ? (
+                        <Button variant="outline" size="sm" className="w-full" onClick={() => setBackupOpen(true)}>
+                            <Save size={14} /> Back Up Key
+                        </Button>
+                    ) : backupQr ? (
+                        <div className="space-y-2 text-center">
+                            <img src={backupQr} alt="Encrypted key backup" className="mx-auto rounded bg-white p-1" />
+                            <p className="text-[10px] text-muted-foreground">
+                                Backup file downloaded. Scan this code on another device to restore; both need your passphrase.
+                            </p>
+                            <Button variant="ghost" size="sm" onClick={() => { setBackupQr(null); setBackupOpen(false) }}>
+                                Done
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <input
+                                type="password"
+                                placeholder="Backup passphrase"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                className="w-full bg-secondary/50 border border-border/50 rounded-md px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary"
+                            />
+                            <input
+                                type="password"
+                                placeholder="Repeat passphrase"
+                                value={passphraseConfirm}
+                                onChange={(e) => setPassphraseConfirm(e.target.value)}
+                                className="w-full bg-secondary/50 border border-border/50 rounded-md px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary"
+                            />
+                            {passphrase && passphraseError && (
+                                <p className="text-[10px] text-destructive">{passphraseError}</p>
+                            )}
+                            <div className="flex gap-2">
+                                <Button size="sm" className="flex-1" onClick={handleBackup} disabled={exporting || !!passphraseError}>
+                                    {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                                    Download Backup
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setBackupOpen(false)}>
+                                    Cancel
+                                </Button>
+                            </div>
+                        </div>
+                    )}
                 </CardContent>
             </Card>
         </motion.div>
@@ -1,14 +1,19 @@
 import React, { useState, useEffect } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Key, Shield, AlertTriangle, Check, Loader2, Copy } from 'lucide-react'
+import { Key, Shield, AlertTriangle, Loader2, Upload, RefreshCw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import {
+    type X25519KeyPair,
     generateX25519KeyPair,
-    saveKeyPair,
     loadKeyPair,
 } from '@/lib/publicKeyRegistry'
-import { apiCall } from '@/lib/contractClient'
+import {
+    getRegisteredPublicKey,
+    importKeyBackup,
+    installKeyPair,
+} from '@/lib/keyBackup'
 
 interface EncryptionKeyPromptProps {
     walletAddress: string
@@ -16,54 +21,59 @@ interface EncryptionKeyPromptProps {
 }
 
 /**
- * Shown on first login — generates an X25519 key pair for the user
- * and registers the public key with the server.
+ * Shown when this browser has no X25519 key pair — restores the wallet's key
+ * from a backup or generates a new one, and registers the public key with the
+ * server. Replacing an already registered key needs an explicit confirmation.
  */
 const EncryptionKeyPrompt: React.FC<EncryptionKeyPromptProps> = ({
     walletAddress,
     onComplete,
 }) => {
-    const [step, setStep] = useState<'prompt' | 'generating' | 'done'>('prompt')
-    const [publicKey, setPublicKey] = useState<string>('')
+    const { transactionSigner } = useWallet()
+    const [step, setStep] = useState<'prompt' | 'restore' | 'confirm' | 'working' | 'done'>('prompt')
+    const [registeredKey, setRegisteredKey] = useState<string | null>(null)
+    const [pendingKeyPair, setPendingKeyPair] = useState<X25519KeyPair | null>(null)
+    const [backupText, setBackupText] = useState('')
+    const [passphrase, setPassphrase] = useState('')
     const [error, setError] = useState<string | null>(null)
 
-    // Check if key already exists
+    // Check if key already exists, and whether one is registered elsewhere
     useEffect(() => {
-        const existing = loadKeyPair(walletAddress)
-        if (existing) {
-            setPublicKey(existing.publicKey)
+        if (loadKeyPair(walletAddress)) {
             setStep('done')
+            return
         }
+        getRegisteredPublicKey(walletAddress).then(setRegisteredKey).catch(() => setRegisteredKey(null))
     }, [walletAddress])
 
-    const handleGenerate = async () => {
-        setStep('generating')
-        setError(null)
+    const install = async (keyPair: X25519KeyPair, confirmed = false) => {
+        // A different key would leave everything wrapped to the registered one unreadable
+        if (registeredKey && registeredKey !== keyPair.publicKey && !confirmed) {
+            setPendingKeyPair(keyPair)
+            setStep('confirm')
+            return
+        }
+        setStep('working')
+        await installKeyPair({ address: walletAddress, signer: transactionSigner }, keyPair)
+        setStep('done')
+        onComplete?.()
+    }
 
+    const run = async (getKeyPair: () => Promise<X25519KeyPair>, fallbackStep: 'prompt' | 'restore', confirmed = false) => {
+        setStep('working')
+        setError(null)
         try {
-            // Generate X25519 keypair
-            const keyPair = generateX25519KeyPair()
-            saveKeyPair(walletAddress, keyPair)
-            setPublicKey(keyPair.publicKey)
-
-            // Register public key with server
-            const res = await apiCall('/keys/register', {
-                method: 'POST',
-                body: JSON.stringify({ publicKey: keyPair.publicKey }),
-            })
-
-            if (!res.ok) {
-                console.warn('Failed to register public key on server')
-            }
-
-            setStep('done')
-            onComplete?.()
+            await install(await getKeyPair(), confirmed)
         } catch (err: any) {
-            setError(err.message || 'Failed to generate key pair')
-            setStep('prompt')
+            setError(err.message || 'Failed to set up the encryption key')
+            setStep(fallbackStep)
         }
     }
 
+    const handleBackupFile = async (file: File) => {
+        setBackupText((await file.text()).trim())
+    }
+
     if (step === 'done') return null
 
     return (
@@ -83,8 +93,9 @@ const EncryptionKeyPrompt: React.FC<EncryptionKeyPromptProps> = ({
                                 <div>
                                     <h3 className="font-semibold text-lg">Set Up Encryption Keys</h3>
                                     <p className="text-sm text-muted-foreground mt-1">
-                                        Generate your X25519 encryption key pair. This is needed for secure file sharing
-                                        and is stored locally in your browser.
+                                        {registeredKey
+                                            ? 'This wallet already has an encryption key, but it is not in this browser. Recover it to open files shared with you.'
+                                            : 'Your X25519 encryption key pair is needed for secure file sharing and is stored locally in your browser.'}
                                     </p>
                                 </div>
 
@@ -96,21 +107,97 @@ const EncryptionKeyPrompt: React.FC<EncryptionKeyPromptProps> = ({
                                 )}
 
                                 {step === 'prompt' && (
-                                    <div className="flex items-center gap-4">
-                                        <Button onClick={handleGenerate}>
-                                            <Shield size={16} />
-                                            Generate Key Pair
-                                        </Button>
-                                        <span className="text-xs text-muted-foreground">
-                                            Keys are derived locally — never sent to any server.
-                                        </span>
+                                    <div className="space-y-2">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <Button
+                                                variant={registeredKey ? 'default' : 'outline'}
+                                                onClick={() => { setError(null); setStep('restore') }}
+                                            >
+                                                <Upload size={16} />
+                                                Restore Backup
+                                            </Button>
+                                            <Button
+                                                variant={registeredKey ? 'ghost' : 'default'}
+                                                onClick={() => run(async () => generateX25519KeyPair(), 'prompt')}
+                                            >
+                                                <RefreshCw size={16} />
+                                                Generate New Key
+                                            </Button>
+                                        </div>
+                                        <div className="flex items-start gap-2 text-amber-400 text-xs">
+                                            <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                                            <span>
+                                                Your key exists only in this browser and cannot be recovered from your wallet.
+                                                Download a backup from the encryption key card as soon as it is set up: without one,
+                                                clearing this browser or switching devices loses access to every file shared with you.
+                                            </span>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {step === 'restore' && (
+                                    <div className="space-y-2">
+                                        <textarea
+                                            placeholder="Paste the backup text (or scan its QR code), or choose the backup file below"
+                                            value={backupText}
+                                            onChange={(e) => setBackupText(e.target.value)}
+                                            rows={3}
+                                            className="w-full bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary"
+                                        />
+                                        <input
+                                            type="file"
+                                            accept=".json,application/json"
+                                            onChange={(e) => e.target.files?.[0] && handleBackupFile(e.target.files[0])}
+                                            className="text-xs text-muted-foreground"
+                                        />
+                                        <input
+                                            type="password"
+                                            placeholder="Backup passphrase"
+                                            value={passphrase}
+                                            onChange={(e) => setPassphrase(e.target.value)}
+                                            className="w-full bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+                                        />
+                                        <div className="flex gap-2">
+                                            <Button
+                                                size="sm"
+                                                onClick={() => run(() => importKeyBackup(walletAddress, backupText, passphrase), 'restore')}
+                                                disabled={!backupText || !passphrase}
+                                            >
+                                                <Shield size={14} />
+                                                Restore
+                                            </Button>
+                                            <Button size="sm" variant="ghost" onClick={() => setStep('prompt')}>
+                                                Back
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {step === 'confirm' && pendingKeyPair && (
+                                    <div className="space-y-2">
+                                        <div className="flex items-start gap-2 text-amber-400 text-sm">
+                                            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                                            <span>
+                                                This key is not the one registered for your wallet. Replacing it means files already
+                                                shared with you cannot be opened until their owners share them again, and your own
+                                                files' keys stay wrapped to the old key.
+                                            </span>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <Button size="sm" variant="destructive" onClick={() => run(async () => pendingKeyPair, 'prompt', true)}>
+                                                Replace Registered Key
+                                            </Button>
+                                            <Button size="sm" variant="ghost" onClick={() => { setPendingKeyPair(null); setStep('prompt') }}>
+                                                Back
+                                            </Button>
+                                        </div>
                                     </div>
                                 )}
 
-                                {step === 'generating' && (
+                                {step === 'working' && (
                                     <div className="flex items-center gap-2 text-primary text-sm">
                                         <Loader2 size={16} className="animate-spin" />
-                                        Generating key pair...
+                                        Setting up key pair...
                                     </div>
                                 )}
                             </div>
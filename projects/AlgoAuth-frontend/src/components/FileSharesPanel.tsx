@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { Users, KeyRound, UserX, Pencil, Check, X, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { apiCall, jsonBody, readJson } from '@/lib/contractClient'
+import * as fileRegistry from '@/lib/fileRegistryService'
+import { PERMISSION_LABELS, VIEW_ONLY_NOTE } from '@/lib/fileSharing'
+import { type RotationProgress, rotateFileKey } from '@/lib/keyRotation'
+import { ellipseAddress } from '@/utils/ellipseAddress'
+import type {
+    ErrorResponse,
+    FileItem,
+    ListSharesResponse,
+    ShareGrant,
+    SharePermission,
+    TxRequest,
+    UpdateShareRequest,
+    UpdateShareResponse,
+} from '../../shared/api'
+import { SHARE_PERMISSIONS } from '../../shared/api'
+
+interface FileSharesPanelProps {
+    /** The owner's file */
+    file: FileItem
+    /** Bumped by the parent after it creates a share, to reload the list */
+    refresh: number
+    /** Called with the updated file after its key was rotated */
+    onChange: (file: FileItem) => void
+}
+
+/** Expiry choices when editing a share; -1 keeps the current expiry */
+const EXPIRY_OPTIONS = [
+    { label: 'Keep expiry', seconds: -1 },
+    { label: 'No expiry', seconds: 0 },
+    { label: '1 Hour', seconds: 3600 },
+    { label: '24 Hours', seconds: 86400 },
+    { label: '7 Days', seconds: 604800 },
+    { label: '30 Days', seconds: 2592000 },
+]
+
+function formatDate(ms: number): string {
+    return ms ? new Date(ms).toLocaleString() : '—'
+}
+
+const FileSharesPanel: React.FC<FileSharesPanelProps> = ({ file, refresh, onChange }) => {
+    const { activeAddress, transactionSigner } = useWallet()
+    const [shares, setShares] = useState<ShareGrant[]>([])
+    const [chainGrants, setChainGrants] = useState<Record<string, fileRegistry.OnChainGrant>>({})
+    const [busyShareId, setBusyShareId] = useState<string | null>(null)
+    const [editing, setEditing] = useState<{ shareId: string; permission: SharePermission; expiresIn: number } | null>(null)
+    const [rotating, setRotating] = useState(false)
+    const [progress, setProgress] = useState<RotationProgress | null>(null)
+
+    const onChain = !!file.chainFileId && fileRegistry.isFileRegistryEnabled()
+
+    const loadShares = useCallback(async () => {
+        try {
+            const res = await apiCall(`/files/${file.id}/shares`)
+            if (res.ok) {
+                const data = await readJson<ListSharesResponse>(res)
+                setShares(data.shares)
+            }
+        } catch { }
+    }, [file.id])
+
+    useEffect(() => {
+        loadShares()
+    }, [loadShares, refresh, file.version])
+
+    // FileRegistry is the source of truth for registered files: read each grant back
+    useEffect(() => {
+        if (!onChain || !activeAddress || shares.length === 0) return
+        const sender = { address: activeAddress, signer: transactionSigner }
+        Promise.all(
+            shares.map(async (share) => [share.id, await fileRegistry.getAccessGrant(sender, BigInt(file.chainFileId!), share.recipient)] as const)
+        )
+            .then((entries) => setChainGrants(Object.fromEntries(entries)))
+            .catch((err) => console.error('Could not read grants from FileRegistry:', err))
+    }, [shares, onChain, file.chainFileId, activeAddress])
+
+    const handleSaveEdit = async (share: ShareGrant) => {
+        if (!editing || !activeAddress) return
+        setBusyShareId(share.id)
+        try {
+            const expiresIn = editing.expiresIn < 0 ? undefined : editing.expiresIn
+
+            // grantAccess overwrites the grant with the new permission and expiry
+            let txId: string | null = null
+            if (onChain) {
+                const result = await fileRegistry.grantAccess({ address: activeAddress, signer: transactionSigner }, {
+                    fileId: BigInt(file.chainFileId!),
+                    user: share.recipient,
+                    permission: editing.permission,
+                    expiresAt: expiresIn === undefined
+                        ? BigInt(Math.floor(share.expiresAt / 1000))
+                        : fileRegistry.toChainExpiry(expiresIn),
+                })
+                txId = result.txId
+            }
+
+            const res = await apiCall(`/files/${file.id}/share/${share.id}`, {
+                method: 'PATCH',
+                body: jsonBody<UpdateShareRequest>({ permission: editing.permission, expiresIn, txId }),
+            })
+            if (!res.ok) {
+                const errData = await readJson<ErrorResponse>(res)
+                throw new Error(errData.error || 'Update failed')
+            }
+            const { share: updated } = await readJson<UpdateShareResponse>(res)
+            setShares((prev) => prev.map((s) => (s.id === updated.id ? updated : s)))
+            setEditing(null)
+        } catch (err: any) {
+            console.error('Share update failed:', err)
+            alert('Update failed: ' + err.message)
+        } finally {
+            setBusyShareId(null)
+        }
+    }
+
+    // Stop handing out the key; the recipient may still hold it, which is what rotating is for
+    const handleRevoke = async (share: ShareGrant) => {
+        if (!activeAddress) return
+        setBusyShareId(share.id)
+        try {
+            let txId: string | null = null
+            if (onChain) {
+                const result = await fileRegistry.revokeAccess(
+                    { address: activeAddress, signer: transactionSigner },
+                    BigInt(file.chainFileId!),
+                    share.recipient
+                )
+                txId = result.txId
+            }
+            const res = await apiCall(`/files/${file.id}/share/${share.id}`, {
+                method: 'DELETE',
+                body: jsonBody<TxRequest>({ txId }),
+            })
+            if (!res.ok) {
+                const errData = await readJson<ErrorResponse>(res)
+                throw new Error(errData.error || 'Revoke failed')
+            }
+            setShares((prev) => prev.filter((s) => s.id !== share.id))
+        } catch (err: any) {
+            console.error('Revoke failed:', err)
+            alert('Revoke failed: ' + err.message)
+        } finally {
+            setBusyShareId(null)
+        }
+    }
+
+    // Revoke (optionally) and move the file to a new key the revoked grantee never saw
+    const handleRotate = async (revoke: ShareGrant | null) => {
+        if (!activeAddress) return
+        const message = revoke
+            ? `Revoke ${ellipseAddress(revoke.recipient)} and re-encrypt the file under a new key? Remaining recipients keep access, public links stop working and the old version is unpinned.`
+            : 'Re-encrypt the file under a new key? Recipients keep access, public links stop working and the old version is unpinned.'
+        if (!confirm(message)) return
+        setRotating(true)
+        try {
+            const { file: updated, unpinned } = await rotateFileKey(
+                { address: activeAddress, signer: transactionSigner },
+                file,
+                revoke,
+                setProgress
+            )
+            console.log(`🔄 Key rotated (unpinned: ${unpinned.join(', ') || 'none'})`)
+            onChange(updated)
+        } catch (err: any) {
+            console.error('Key rotation failed:', err)
+            alert('Key rotation failed: ' + err.message)
+            loadShares()
+        } finally {
+            setRotating(false)
+            setProgress(null)
+        }
+    }
+
+    return (
+        <Card className="bg-card/60 backdrop-blur-xl border-border/50">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Users size={16} /> Access
+                </CardTitle>
+                <Button size="sm" variant="outline" onClick={() => handleRotate(null)} disabled={rotating}>
+                    {rotating ? <Loader2 size={14} className="animate-spin" /> : <KeyRound size={14} />}
+                    Rotate Key
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+                {progress && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-2">
+                        <Loader2 size={12} className="animate-spin" />
+                        {progress.step}{progress.percent !== null && `... ${progress.percent}%`}
+                    </p>
+                )}
+                {shares.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Not shared with anyone</p>
+                )}
+                {shares.map((share) => {
+                    const grant = chainGrants[share.id]
+                    // Revoked or expired on-chain even though the server still lists it
+                    const notOnChain = onChain && grant && !grant.valid && share.status === 'active'
+                    const isEditing = editing?.shareId === share.id
+                    const busy = busyShareId === share.id || rotating
+                    return (
+                        <div key={share.id} className="py-2 border-b border-border/20 last:border-0 space-y-1.5">
+                            <div className="flex items-center gap-3 text-sm">
+                                <span className="text-xs font-mono text-muted-foreground truncate">
+                                    {ellipseAddress(share.recipient)}
+                                </span>
+                                <Badge variant="outline" className="text-[10px] shrink-0">{PERMISSION_LABELS[share.permission]}</Badge>
+                                {share.status === 'expired' ? (
+                                    <Badge variant="outline" className="text-muted-foreground text-[10px] shrink-0">Expired</Badge>
+                                ) : notOnChain ? (
+                                    <Badge variant="outline" className="text-destructive border-destructive/30 text-[10px] shrink-0">Not on-chain</Badge>
+                                ) : (
+                                    <Badge variant="outline" className="text-emerald-400 border-emerald-500/30 bg-emerald-500/10 text-[10px] shrink-0">Active</Badge>
+                                )}
+                                <div className="ml-auto flex items-center gap-1 shrink-0">
+                                    {busyShareId === share.id && <Loader2 size={14} className="animate-spin text-muted-foreground" />}
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7"
+                                        onClick={() => setEditing({ shareId: share.id, permission: share.permission, expiresIn: -1 })}
+                                        disabled={busy}
+                                    >
+                                        <Pencil size={14} />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-destructive hover:bg-destructive/10"
+                                        onClick={() => handleRevoke(share)}
+                                        disabled={busy}
+                                    >
+                                        <UserX size={14} /> Revoke
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-destructive hover:bg-destructive/10"
+                                        onClick={() => handleRotate(share)}
+                                        disabled={busy}
+                                    >
+                                        <KeyRound size={14} /> Revoke & Rotate
+                                    </Button>
+                                </div>
+                            </div>
+                            <div className="flex gap-4 text-xs text-muted-foreground">
+                                <span>Granted {formatDate(grant?.grantedAt || share.sharedAt)}</span>
+                                <span>{share.expiresAt ? `Expires ${formatDate(share.expiresAt)}` : 'No expiry'}</span>
+                            </div>
+                            {isEditing && (
+                                <div className="flex items-center gap-2 pt-1">
+                                    <select
+                                        value={editing.permission}
+                                        onChange={(e) => setEditing({ ...editing, permission: e.target.value as SharePermission })}
+                                        className="bg-secondary/50 border border-border/50 rounded-md px-2 py-1 text-xs"
+                                    >
+                                        {SHARE_PERMISSIONS.map((p) => (
+                                            <option key={p} value={p}>{PERMISSION_LABELS[p]}</option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        value={editing.expiresIn}
+                                        onChange={(e) => setEditing({ ...editing, expiresIn: Number(e.target.value) })}
+                                        className="bg-secondary/50 border border-border/50 rounded-md px-2 py-1 text-xs"
+                                    >
+                                        {EXPIRY_OPTIONS.map((opt) => (
+                                            <option key={opt.seconds} value={opt.seconds}>{opt.label}</option>
+                                        ))}
+                                    </select>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleSaveEdit(share)} disabled={busy}>
+                                        <Check size={14} />
+                                    </Button>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(null)}>
+                                        <X size={14} />
+                                    </Button>
+                                </div>
+                            )}
+                            {isEditing && editing.permission === 'view' && (
+                                <p className="text-xs text-muted-foreground">{VIEW_ONLY_NOTE}</p>
+                            )}
+                        </div>
+                    )
+                })}
+            </CardContent>
+        </Card>
+    )
+}
+
+export default FileSharesPanel
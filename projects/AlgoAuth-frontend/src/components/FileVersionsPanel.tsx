@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { History, Upload, Eye, RotateCcw, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import DocumentViewer from '@/components/DocumentViewer'
+import { apiCall, jsonBody, readJson } from '@/lib/contractClient'
+import { bytesToHex } from '@/lib/encryption'
+import { cacheFileKey, getOwnerFileKey } from '@/lib/fileKeys'
+import { uploadRevision } from '@/lib/fileSharing'
+import * as fileRegistry from '@/lib/fileRegistryService'
+import { ellipseAddress } from '@/utils/ellipseAddress'
+import type { AddVersionResponse, ErrorResponse, FileItem, FileVersion, ListVersionsResponse, TxRequest } from '../../shared/api'
+
+interface FileVersionsPanelProps {
+    /** The owner's file */
+    file: FileItem
+    /** Called with the updated file after a new version becomes current */
+    onChange: (file: FileItem) => void
+}
+
+function formatBytes(bytes: number): string {
+    if (!bytes) return '—'
+    const k = 1024
+    const sizes = ['B', 'KB', 'MB', 'GB']
+    const i = Math.floor(Math.log(bytes) / Math.log(k))
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+const FileVersionsPanel: React.FC<FileVersionsPanelProps> = ({ file, onChange }) => {
+    const { activeAddress, transactionSigner } = useWallet()
+    const [versions, setVersions] = useState<FileVersion[]>([])
+    const [uploading, setUploading] = useState(false)
+    const [encryptProgress, setEncryptProgress] = useState<number | null>(null)
+    const [restoring, setRestoring] = useState<number | null>(null)
+    const [previewVersion, setPreviewVersion] = useState<FileVersion | null>(null)
+    const inputRef = useRef<HTMLInputElement>(null)
+
+    const loadVersions = useCallback(async () => {
+        try {
+            const res = await apiCall(`/files/${file.id}/versions`)
+            if (res.ok) {
+                const data = await readJson<ListVersionsResponse>(res)
+                setVersions(data.versions)
+            }
+        } catch { }
+    }, [file.id])
+
+    useEffect(() => {
+        loadVersions()
+    }, [loadVersions, file.version])
+
+    const handleUploadRevision = async (revision: File) => {
+        if (!activeAddress) return
+        setUploading(true)
+        try {
+            const { file: updated } = await uploadRevision(
+                { address: activeAddress, signer: transactionSigner },
+                { ...file, shareId: null },
+                revision,
+                setEncryptProgress
+            )
+            onChange(updated)
+        } catch (err: any) {
+            console.error('Version upload failed:', err)
+            alert('Upload failed: ' + err.message)
+        } finally {
+            setUploading(false)
+            setEncryptProgress(null)
+        }
+    }
+
+    const handleRestore = async (version: FileVersion) => {
+        if (!activeAddress) return
+        setRestoring(version.version)
+        try {
+            // Resolve the old key first: after the restore it becomes the current one
+            const keyBytes = await getOwnerFileKey(activeAddress, file.id, version.cid, version.version)
+            if (!keyBytes) throw new Error('Version key not available')
+
+            let txId: string | null = null
+            if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+                const result = await fileRegistry.updateFile(
+                    { address: activeAddress, signer: transactionSigner },
+                    BigInt(file.chainFileId),
+                    version.cid
+                )
+                txId = result.txId
+            }
+            const res = await apiCall(`/files/${file.id}/versions/${version.version}/restore`, {
+                method: 'POST',
+                body: jsonBody<TxRequest>({ txId }),
+            })
+            if (!res.ok) {
+                const errData = await readJson<ErrorResponse>(res)
+                throw new Error(errData.error || 'Restore failed')
+            }
+            const { file: updated } = await readJson<AddVersionResponse>(res)
+            cacheFileKey(updated.cid, bytesToHex(keyBytes))
+            onChange(updated)
+        } catch (err: any) {
+            console.error('Restore failed:', err)
+            alert('Restore failed: ' + err.message)
+        } finally {
+            setRestoring(null)
+        }
+    }
+
+    return (
+        <Card className="bg-card/60 backdrop-blur-xl border-border/50">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base flex items-center gap-2">
+                    <History size={16} /> Versions
+                </CardTitle>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    className="hidden"
+                    onChange={(e) => {
+                        const revision = e.target.files?.[0]
+                        e.target.value = ''
+                        if (revision) handleUploadRevision(revision)
+                    }}
+                />
+                <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()} disabled={uploading}>
+                    {uploading ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                    {encryptProgress !== null ? `Encrypting... ${encryptProgress}%` : 'Upload Revision'}
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+                {versions.map((version) => {
+                    const isCurrent = version.version === file.version
+                    return (
+                        <div key={version.version} className="flex items-center gap-3 text-sm py-1.5 border-b border-border/20 last:border-0">
+                            <Badge variant="outline" className="text-[10px] shrink-0">v{version.version}</Badge>
+                            {isCurrent && (
+                                <Badge variant="outline" className="text-emerald-400 border-emerald-500/30 bg-emerald-500/10 text-[10px] shrink-0">
+                                    Current
+                                </Badge>
+                            )}
+                            {!version.pinned && (
+                                <Badge variant="outline" className="text-muted-foreground text-[10px] shrink-0">
+                                    Unpinned
+                                </Badge>
+                            )}
+                            <span className="text-muted-foreground text-xs">
+                                {new Date(version.createdAt).toLocaleString()}
+                            </span>
+                            <span className="text-xs font-mono text-muted-foreground truncate">
+                                {ellipseAddress(version.uploader)}
+                            </span>
+                            <span className="text-xs text-muted-foreground ml-auto shrink-0">
+                                {formatBytes(version.size)}
+                            </span>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => setPreviewVersion(version)}
+                                disabled={!version.pinned}
+                            >
+                                <Eye size={14} />
+                            </Button>
+                            {!isCurrent && version.pinned && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7"
+                                    onClick={() => handleRestore(version)}
+                                    disabled={restoring !== null}
+                                >
+                                    {restoring === version.version ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                                </Button>
+                            )}
+                        </div>
+                    )
+                })}
+            </CardContent>
+
+            {previewVersion && (
+                <DocumentViewer
+                    isOpen={true}
+                    onClose={() => setPreviewVersion(null)}
+                    cid={previewVersion.cid}
+                    fileId={file.id}
+                    filename={file.name}
+                    version={previewVersion.version === file.version ? undefined : previewVersion.version}
+                />
+            )}
+        </Card>
+    )
+}
+
+export default FileVersionsPanel
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
     Users,
@@ -14,31 +15,38 @@ import {
     Download,
     Eye,
     FolderOpen,
+    LogOut,
+    KeyRound,
+    Pencil,
+    ClipboardList,
+    Activity,
+    Clock,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { apiCall } from '@/lib/contractClient'
+import { apiCall, jsonBody, readJson } from '@/lib/contractClient'
+import * as groupRegistry from '@/lib/groupRegistryService'
+import { buildRemovalEpoch, getGroupFileKey, rotateGroupKey, wrapGroupKeyForInvitee } from '@/lib/groupKeys'
 import DocumentViewer from '@/components/DocumentViewer'
-
-interface Member {
-    address: string
-    role: 'admin' | 'member'
-    status: 'active' | 'invited'
-    joinedAt: number
-}
-
-interface GroupFile {
-    id: string
-    name: string
-    cid: string
-    size: number
-    mimeType: string
-    owner: string
-    createdAt: number
-    hasShares: boolean
-}
+import { explorerTxUrl } from '@/utils/explorer'
+import type {
+    AuditEvent,
+    AuditResponse,
+    ChangeRoleRequest,
+    ErrorResponse,
+    GroupFile,
+    GroupMember,
+    InviteMemberRequest,
+    ListGroupFilesResponse,
+    ListGroupsResponse,
+    MemberRole,
+    RemoveMemberRequest,
+    TransferOwnershipRequest,
+    TxRequest,
+} from '../../shared/api'
+import { MEMBER_ROLES, canManageMembers, canManageRole, canReadGroupFiles, canViewGroupAudit } from '../../shared/api'
 
 interface ManageMembersSheetProps {
     isOpen: boolean
@@ -48,6 +56,21 @@ interface ManageMembersSheetProps {
     currentAddress: string
 }
 
+type AssignableRole = Exclude<MemberRole, 'owner'>
+
+const ROLE_BADGES: Record<MemberRole, { label: string; icon: React.ElementType; iconClassName: string; badgeClassName: string }> = {
+    owner: { label: 'Owner', icon: Crown, iconClassName: 'text-amber-400', badgeClassName: 'text-amber-400 border-amber-500/30 bg-amber-500/10' },
+    admin: { label: 'Admin', icon: Shield, iconClassName: 'text-violet-400', badgeClassName: 'text-violet-400 border-violet-500/30 bg-violet-500/10' },
+    editor: { label: 'Editor', icon: Pencil, iconClassName: 'text-primary', badgeClassName: '' },
+    viewer: { label: 'Viewer', icon: Eye, iconClassName: 'text-muted-foreground', badgeClassName: '' },
+    auditor: { label: 'Auditor', icon: ClipboardList, iconClassName: 'text-cyan-400', badgeClassName: 'text-cyan-400 border-cyan-500/30 bg-cyan-500/10' },
+}
+
+const RoleIcon: React.FC<{ role: MemberRole }> = ({ role }) => {
+    const { icon: Icon, iconClassName } = ROLE_BADGES[role]
+    return <Icon size={14} className={iconClassName} />
+}
+
 function formatBytes(bytes: number): string {
     if (!bytes) return '—'
     const k = 1024
@@ -63,18 +86,30 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
     groupName,
     currentAddress,
 }) => {
-    const [members, setMembers] = useState<Member[]>([])
+    const { transactionSigner } = useWallet()
+    const [members, setMembers] = useState<GroupMember[]>([])
     const [loading, setLoading] = useState(true)
     const [inviteAddr, setInviteAddr] = useState('')
-    const [inviteRole, setInviteRole] = useState<'member' | 'admin'>('member')
+    const [inviteRole, setInviteRole] = useState<AssignableRole>('editor')
     const [inviting, setInviting] = useState(false)
-    const [activeTab, setActiveTab] = useState<'members' | 'files'>('members')
+    const [activeTab, setActiveTab] = useState<'members' | 'files' | 'activity'>('members')
     const [groupFiles, setGroupFiles] = useState<GroupFile[]>([])
     const [filesLoading, setFilesLoading] = useState(false)
     const [viewerFile, setViewerFile] = useState<GroupFile | null>(null)
     const [viewerOpen, setViewerOpen] = useState(false)
+    const [keyEpoch, setKeyEpoch] = useState(0)
+    const [rekeyPending, setRekeyPending] = useState(false)
+    const [rotating, setRotating] = useState(false)
+    const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([])
+    const [updatingMember, setUpdatingMember] = useState<string | null>(null)
 
-    const isAdmin = members.some(m => m.address === currentAddress && m.role === 'admin')
+    const myRole = members.find(m => m.address === currentAddress && m.status === 'active')?.role
+    const isAdmin = !!myRole && canManageMembers(myRole)
+    const holdsKey = !!myRole && canReadGroupFiles(myRole)
+    // Roles the caller may hand out; ownership moves by transfer only
+    const assignableRoles = MEMBER_ROLES.filter((r): r is AssignableRole => r !== 'owner' && !!myRole && canManageRole(myRole, r))
+    const onChain = groupRegistry.isGroupRegistryEnabled() && groupRegistry.isOnChainGroupId(groupId)
+    const sender = { address: currentAddress, signer: transactionSigner }
 
     useEffect(() => {
         if (!isOpen) return
@@ -82,9 +117,27 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
             try {
                 const res = await apiCall('/groups')
                 if (res.ok) {
-                    const data = await res.json()
-                    const group = (data.groups || []).find((g: any) => g.id === groupId)
-                    if (group) setMembers(group.members || [])
+                    const data = await readJson<ListGroupsResponse>(res)
+                    const group = data.groups.find(g => g.id === groupId)
+                    if (group) {
+                        let loaded = group.members
+                        if (onChain) {
+                            // Membership is authoritative on-chain; the server list is a cache
+                            const reconciled = await Promise.all(loaded.map(async (m) => {
+                                const chain = await groupRegistry.getMembership(sender, BigInt(groupId), m.address)
+                                return chain.status === 'none' ? null : { ...m, status: chain.status, role: chain.role }
+                            }))
+                            loaded = reconciled.filter((m): m is GroupMember => m !== null)
+                        }
+                        setMembers(loaded)
+                        setKeyEpoch(group.keyEpoch)
+                        setRekeyPending(group.rekeyPending)
+                        // Someone left: replace the key they still hold before anything else is shared
+                        const me = loaded.find(m => m.address === currentAddress && m.status === 'active')
+                        if (group.rekeyPending && me && canReadGroupFiles(me.role)) {
+                            await handleRotate()
+                        }
+                    }
                 }
             } catch { }
             setLoading(false)
@@ -99,8 +152,8 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
             try {
                 const res = await apiCall(`/groups/${groupId}/files`)
                 if (res.ok) {
-                    const data = await res.json()
-                    setGroupFiles(data.files || [])
+                    const data = await readJson<ListGroupFilesResponse>(res)
+                    setGroupFiles(data.files)
                 }
             } catch { }
             setFilesLoading(false)
@@ -108,19 +161,55 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
         loadFiles()
     }, [isOpen, groupId, activeTab])
 
+    useEffect(() => {
+        if (!isOpen || activeTab !== 'activity') return
+        const loadAudit = async () => {
+            try {
+                const res = await apiCall(`/groups/${groupId}/audit`)
+                if (res.ok) {
+                    const data = await readJson<AuditResponse>(res)
+                    setAuditEvents(data.events)
+                }
+            } catch { }
+        }
+        loadAudit()
+    }, [isOpen, groupId, activeTab])
+
+    const handleRotate = async () => {
+        setRotating(true)
+        try {
+            await rotateGroupKey(currentAddress, groupId)
+            setKeyEpoch(prev => prev + 1)
+            setRekeyPending(false)
+        } catch (err: any) {
+            alert('Group key rotation failed: ' + err.message)
+        } finally {
+            setRotating(false)
+        }
+    }
+
     const handleInvite = async () => {
         if (!inviteAddr) return
         setInviting(true)
         try {
+            // The invitee gets the current group key once they accept (auditors never do)
+            const memberKey = canReadGroupFiles(inviteRole)
+                ? await wrapGroupKeyForInvitee(currentAddress, groupId, inviteAddr)
+                : undefined
+            let txId: string | null = null
+            if (onChain) {
+                const result = await groupRegistry.inviteMember(sender, BigInt(groupId), inviteAddr, inviteRole)
+                txId = result.txId
+            }
             const res = await apiCall(`/groups/${groupId}/invite`, {
                 method: 'POST',
-                body: JSON.stringify({ memberAddress: inviteAddr, role: inviteRole }),
+                body: jsonBody<InviteMemberRequest>({ memberAddress: inviteAddr, role: inviteRole, memberKey, txId }),
             })
             if (res.ok) {
                 setMembers(prev => [...prev, { address: inviteAddr, role: inviteRole, status: 'invited', joinedAt: Date.now() }])
                 setInviteAddr('')
             } else {
-                const err = await res.json()
+                const err = await readJson<ErrorResponse>(res)
                 alert(err.error || 'Invite failed')
             }
         } catch (err: any) {
@@ -130,44 +219,133 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
         }
     }
 
-    const handleRemove = async (address: string) => {
+    const handleRemove = async (member: GroupMember) => {
+        const { address } = member
         try {
-            const res = await apiCall(`/groups/${groupId}/members/${address}`, { method: 'DELETE' })
+            // A new group key for everyone else, so the removed member cannot open later files
+            const rekey = canReadGroupFiles(member.role) ? await buildRemovalEpoch(currentAddress, groupId, address) : undefined
+            let txId: string | null = null
+            if (onChain) {
+                const result = await groupRegistry.removeMember(sender, BigInt(groupId), address)
+                txId = result.txId
+            }
+            const res = await apiCall(`/groups/${groupId}/members/${address}`, {
+                method: 'DELETE',
+                body: jsonBody<RemoveMemberRequest>({ rekey, txId }),
+            })
             if (res.ok) {
                 setMembers(prev => prev.filter(m => m.address !== address))
+                if (rekey) setKeyEpoch(rekey.epoch)
+            } else {
+                const err = await readJson<ErrorResponse>(res)
+                alert(err.error || 'Remove failed')
             }
         } catch (err: any) {
             alert('Remove failed: ' + err.message)
         }
     }
 
-    const handleDownloadGroupFile = async (file: GroupFile) => {
+    const handleChangeRole = async (member: GroupMember, role: AssignableRole) => {
+        setUpdatingMember(member.address)
         try {
-            // Get decryption key via Shamir
-            const keyRes = await apiCall(`/groups/${groupId}/files/${file.id}/key`)
-            let keyHex: string | null = null
-            if (keyRes.ok) {
-                const keyData = await keyRes.json()
-                if (keyData.shares && keyData.shares.length >= 2) {
-                    console.log(`🔐 Trustless Trio key reconstruction for group file: ${file.name}`)
-                    // Use direct key if available (simplified for demo)
-                    keyHex = keyData.encryptionKey
-                } else {
-                    keyHex = keyData.encryptionKey
-                }
+            // An auditor becoming a key holder gets the current key; the reverse rotates it away from them
+            const memberKey = !canReadGroupFiles(member.role) && canReadGroupFiles(role)
+                ? await wrapGroupKeyForInvitee(currentAddress, groupId, member.address)
+                : undefined
+            const rekey = canReadGroupFiles(member.role) && !canReadGroupFiles(role)
+                ? await buildRemovalEpoch(currentAddress, groupId, member.address)
+                : undefined
+            let txId: string | null = null
+            if (onChain) {
+                const result = await groupRegistry.changeRole(sender, BigInt(groupId), member.address, role)
+                txId = result.txId
+            }
+            const res = await apiCall(`/groups/${groupId}/members/${member.address}/role`, {
+                method: 'POST',
+                body: jsonBody<ChangeRoleRequest>({ role, memberKey, rekey, txId }),
+            })
+            if (res.ok) {
+                setMembers(prev => prev.map(m => (m.address === member.address ? { ...m, role } : m)))
+                if (rekey) setKeyEpoch(rekey.epoch)
+            } else {
+                const err = await readJson<ErrorResponse>(res)
+                alert(err.error || 'Role change failed')
+            }
+        } catch (err: any) {
+            alert('Role change failed: ' + err.message)
+        } finally {
+            setUpdatingMember(null)
+        }
+    }
+
+    const handleTransfer = async (member: GroupMember) => {
+        if (!confirm(`Make ${member.address.substring(0, 12)}... the owner of ${groupName}? You will stay on as an admin.`)) return
+        setUpdatingMember(member.address)
+        try {
+            const memberKey = canReadGroupFiles(member.role)
+                ? undefined
+                : await wrapGroupKeyForInvitee(currentAddress, groupId, member.address)
+            let txId: string | null = null
+            if (onChain) {
+                const result = await groupRegistry.transferOwnership(sender, BigInt(groupId), member.address)
+                txId = result.txId
+            }
+            const res = await apiCall(`/groups/${groupId}/transfer`, {
+                method: 'POST',
+                body: jsonBody<TransferOwnershipRequest>({ newOwner: member.address, memberKey, txId }),
+            })
+            if (res.ok) {
+                setMembers(prev => prev.map(m => {
+                    if (m.address === member.address) return { ...m, role: 'owner' as const }
+                    return m.address === currentAddress ? { ...m, role: 'admin' as const } : m
+                }))
+            } else {
+                const err = await readJson<ErrorResponse>(res)
+                alert(err.error || 'Transfer failed')
             }
+        } catch (err: any) {
+            alert('Transfer failed: ' + err.message)
+        } finally {
+            setUpdatingMember(null)
+        }
+    }
+
+    const handleLeave = async () => {
+        try {
+            let txId: string | null = null
+            if (onChain) {
+                const result = await groupRegistry.leaveGroup(sender, BigInt(groupId))
+                txId = result.txId
+            }
+            const res = await apiCall(`/groups/${groupId}/leave`, {
+                method: 'POST',
+                body: jsonBody<TxRequest>({ txId }),
+            })
+            if (res.ok) {
+                onClose()
+            } else {
+                const err = await readJson<ErrorResponse>(res)
+                alert(err.error || 'Leave failed')
+            }
+        } catch (err: any) {
+            alert('Leave failed: ' + err.message)
+        }
+    }
+
+    const handleDownloadGroupFile = async (file: GroupFile) => {
+        try {
+            // Open the file key with the group key (older files: any two Trustless Trio nodes)
+            console.log(`🔐 Group key retrieval for group file: ${file.name}`)
+            const keyBytes = await getGroupFileKey(currentAddress, groupId, file)
 
             const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api'
             const dlRes = await fetch(`${apiBase.replace('/api', '')}/api/files/${file.cid}/download`)
             if (!dlRes.ok) throw new Error('Download failed')
 
             let blob: Blob
-            if (keyHex) {
-                const { decryptFile } = await import('@/lib/encryption')
-                const encData = new Uint8Array(await dlRes.arrayBuffer())
-                const keyBytes = new Uint8Array(keyHex.match(/.{1,2}/g)!.map(h => parseInt(h, 16)))
-                const decrypted = await decryptFile(encData, keyBytes)
-                blob = new Blob([new Uint8Array(decrypted)])
+            if (keyBytes) {
+                const { decryptResponse } = await import('@/lib/encryption')
+                blob = (await decryptResponse(dlRes, keyBytes)).blob
             } else {
                 blob = await dlRes.blob()
             }
@@ -178,9 +356,9 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
             a.download = file.name
             a.click()
             URL.revokeObjectURL(url)
-        } catch (err) {
+        } catch (err: any) {
             console.error('Group file download error:', err)
-            alert('Download failed')
+            alert('Download failed: ' + err.message)
         }
     }
 
@@ -229,13 +407,24 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
                                     <Users size={14} />
                                     Members
                                 </button>
-                                <button
-                                    className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-md text-sm font-medium transition-all ${activeTab === 'files' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
-                                    onClick={() => setActiveTab('files')}
-                                >
-                                    <FolderOpen size={14} />
-                                    Files
-                                </button>
+                                {holdsKey && (
+                                    <button
+                                        className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-md text-sm font-medium transition-all ${activeTab === 'files' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                                        onClick={() => setActiveTab('files')}
+                                    >
+                                        <FolderOpen size={14} />
+                                        Files
+                                    </button>
+                                )}
+                                {myRole && canViewGroupAudit(myRole) && (
+                                    <button
+                                        className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-md text-sm font-medium transition-all ${activeTab === 'activity' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                                        onClick={() => setActiveTab('activity')}
+                                    >
+                                        <Activity size={14} />
+                                        Activity
+                                    </button>
+                                )}
                             </div>
 
                             <Separator className="bg-border/50" />
@@ -259,11 +448,12 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
                                                 />
                                                 <select
                                                     value={inviteRole}
-                                                    onChange={(e) => setInviteRole(e.target.value as 'member' | 'admin')}
+                                                    onChange={(e) => setInviteRole(e.target.value as AssignableRole)}
                                                     className="bg-secondary/50 border border-border/50 rounded-md px-2 py-2 text-sm"
                                                 >
-                                                    <option value="member">Member</option>
-                                                    <option value="admin">Admin</option>
+                                                    {assignableRoles.map(role => (
+                                                        <option key={role} value={role}>{ROLE_BADGES[role].label}</option>
+                                                    ))}
                                                 </select>
                                             </div>
                                             <Button size="sm" onClick={handleInvite} disabled={inviting || !inviteAddr}>
@@ -275,6 +465,27 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
 
                                     <Separator className="bg-border/50" />
 
+                                    {/* Group key */}
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <KeyRound size={14} className="text-primary" />
+                                        <span className="flex-1">
+                                            {keyEpoch > 0 ? `Group key epoch ${keyEpoch}` : 'No group key yet'}
+                                        </span>
+                                        {rekeyPending && (
+                                            <Badge variant="outline" className="text-[10px] text-amber-400 border-amber-500/30 bg-amber-500/10">
+                                                Rotation pending
+                                            </Badge>
+                                        )}
+                                        {holdsKey && (isAdmin || rekeyPending) && (
+                                            <Button size="sm" variant="outline" onClick={handleRotate} disabled={rotating}>
+                                                {rotating ? <Loader2 size={14} className="animate-spin" /> : <KeyRound size={14} />}
+                                                Rotate
+                                            </Button>
+                                        )}
+                                    </div>
+
+                                    <Separator className="bg-border/50" />
+
                                     {/* Members list */}
                                     <div className="space-y-2">
                                         <h4 className="text-sm font-medium">
@@ -293,25 +504,15 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
                                                         className="flex items-center gap-3 py-2.5 px-3 rounded-lg hover:bg-secondary/30 transition-colors"
                                                     >
                                                         <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
-                                                            {member.role === 'admin' ? (
-                                                                <Crown size={14} className="text-amber-400" />
-                                                            ) : (
-                                                                <Users size={14} className="text-primary" />
-                                                            )}
+                                                            <RoleIcon role={member.role} />
                                                         </div>
                                                         <div className="flex-1 min-w-0">
                                                             <div className="text-sm font-mono truncate">
                                                                 {member.address}
                                                             </div>
                                                             <div className="flex items-center gap-2 mt-0.5">
-                                                                <Badge
-                                                                    variant="outline"
-                                                                    className={`text-[10px] ${member.role === 'admin'
-                                                                        ? 'text-amber-400 border-amber-500/30 bg-amber-500/10'
-                                                                        : ''
-                                                                        }`}
-                                                                >
-                                                                    {member.role}
+                                                                <Badge variant="outline" className={`text-[10px] ${ROLE_BADGES[member.role].badgeClassName}`}>
+                                                                    {ROLE_BADGES[member.role].label}
                                                                 </Badge>
                                                                 {member.status === 'invited' && (
                                                                     <Badge variant="outline" className="text-[10px] text-blue-400 border-blue-500/30 bg-blue-500/10">
@@ -323,16 +524,56 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
                                                                 )}
                                                             </div>
                                                         </div>
-                                                        {isAdmin && member.address !== currentAddress && (
+                                                        {updatingMember === member.address && (
+                                                            <Loader2 size={12} className="animate-spin text-muted-foreground" />
+                                                        )}
+                                                        {myRole && canManageRole(myRole, member.role) && member.address !== currentAddress && (
+                                                            <select
+                                                                value={member.role}
+                                                                onChange={(e) => handleChangeRole(member, e.target.value as AssignableRole)}
+                                                                disabled={updatingMember === member.address}
+                                                                className="bg-secondary/50 border border-border/50 rounded-md px-1.5 py-1 text-xs"
+                                                                title="Change Role"
+                                                            >
+                                                                {assignableRoles.map(role => (
+                                                                    <option key={role} value={role}>{ROLE_BADGES[role].label}</option>
+                                                                ))}
+                                                            </select>
+                                                        )}
+                                                        {myRole === 'owner' && member.role !== 'owner' && member.status === 'active' && (
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="icon"
+                                                                className="h-7 w-7 hover:text-amber-400 hover:bg-amber-500/10"
+                                                                onClick={() => handleTransfer(member)}
+                                                                disabled={updatingMember === member.address}
+                                                                title="Make Owner"
+                                                            >
+                                                                <Crown size={12} />
+                                                            </Button>
+                                                        )}
+                                                        {myRole && canManageRole(myRole, member.role) && member.address !== currentAddress && (
                                                             <Button
                                                                 variant="ghost"
                                                                 size="icon"
                                                                 className="h-7 w-7 text-destructive hover:bg-destructive/10"
-                                                                onClick={() => handleRemove(member.address)}
+                                                                onClick={() => handleRemove(member)}
+                                                                title="Remove"
                                                             >
                                                                 <Trash2 size={12} />
                                                             </Button>
                                                         )}
+                                                        {member.role !== 'owner' && member.address === currentAddress && member.status === 'active' && (
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="icon"
+                                                                className="h-7 w-7 text-destructive hover:bg-destructive/10"
+                                                                onClick={handleLeave}
+                                                                title="Leave Group"
+                                                            >
+                                                                <LogOut size={12} />
+                                                            </Button>
+                                                        )}
                                                     </div>
                                                 ))}
                                             </div>
@@ -408,6 +649,44 @@ const ManageMembersSheet: React.FC<ManageMembersSheetProps> = ({
                                     )}
                                 </div>
                             )}
+
+                            {/* Activity Tab */}
+                            {activeTab === 'activity' && (
+                                <div className="space-y-2">
+                                    <h4 className="text-sm font-medium">Audit Log</h4>
+                                    {auditEvents.length === 0 ? (
+                                        <p className="text-xs text-muted-foreground py-8 text-center">No activity yet</p>
+                                    ) : (
+                                        <div className="space-y-1">
+                                            {auditEvents.map((event) => (
+                                                <div key={event.id} className="flex items-center gap-3 text-sm py-1.5 border-b border-border/20 last:border-0">
+                                                    <Clock size={12} className="text-muted-foreground shrink-0" />
+                                                    <span className="text-muted-foreground text-xs shrink-0">
+                                                        {new Date(event.timestamp).toLocaleString()}
+                                                    </span>
+                                                    <Badge variant="outline" className="text-[10px] shrink-0">
+                                                        {event.type.replace('_', ' ')}
+                                                    </Badge>
+                                                    <span className="text-xs font-mono text-muted-foreground truncate">
+                                                        {event.actor.substring(0, 12)}...
+                                                    </span>
+                                                    {event.onChain && event.txId && (
+                                                        <a
+                                                            href={explorerTxUrl(event.txId)}
+                                                            target="_blank"
+                                                            rel="noreferrer"
+                                                            className="ml-auto text-[10px] text-primary hover:underline shrink-0"
+                                                            title="Recorded by a contract event"
+                                                        >
+                                                            on-chain
+                                                        </a>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     </motion.div>
                 </motion.div>
@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { Link2, Lock, Plus, Trash2, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import CreatePublicLinkDialog from '@/components/CreatePublicLinkDialog'
+import { apiCall, readJson } from '@/lib/contractClient'
+import { revokePublicLink } from '@/lib/publicLinks'
+import type { FileItem, ListPublicLinksResponse, PublicLinkInfo } from '../../shared/api'
+
+interface PublicLinksPanelProps {
+    /** The owner's file */
+    file: FileItem
+}
+
+const STATUS_BADGES: Record<PublicLinkInfo['status'], { label: string; className: string }> = {
+    active: { label: 'Active', className: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' },
+    expired: { label: 'Expired', className: 'text-muted-foreground' },
+    exhausted: { label: 'Limit reached', className: 'text-muted-foreground' },
+}
+
+const PublicLinksPanel: React.FC<PublicLinksPanelProps> = ({ file }) => {
+    const { activeAddress, transactionSigner } = useWallet()
+    const [links, setLinks] = useState<PublicLinkInfo[]>([])
+    const [dialogOpen, setDialogOpen] = useState(false)
+    const [revoking, setRevoking] = useState<string | null>(null)
+
+    const loadLinks = useCallback(async () => {
+        try {
+            const res = await apiCall(`/files/${file.id}/public-links`)
+            if (res.ok) {
+                const data = await readJson<ListPublicLinksResponse>(res)
+                setLinks(data.links)
+            }
+        } catch { }
+    }, [file.id])
+
+    useEffect(() => {
+        loadLinks()
+    }, [loadLinks, file.version])
+
+    const handleRevoke = async (link: PublicLinkInfo) => {
+        if (!activeAddress) return
+        setRevoking(link.token)
+        try {
+            await revokePublicLink({ address: activeAddress, signer: transactionSigner }, file, link)
+            setLinks((prev) => prev.filter((l) => l.token !== link.token))
+        } catch (err: any) {
+            console.error('Link revoke failed:', err)
+            alert('Revoke failed: ' + err.message)
+        } finally {
+            setRevoking(null)
+        }
+    }
+
+    return (
+        <Card className="bg-card/60 backdrop-blur-xl border-border/50">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Link2 size={16} /> Public Links
+                </CardTitle>
+                <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+                    <Plus size={14} /> New Link
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+                {links.length === 0 && (
+                    <p className="text-xs text-muted-foreground">No public links</p>
+                )}
+                {links.map((link) => {
+                    const badge = STATUS_BADGES[link.status]
+                    return (
+                        <div key={link.token} className="flex items-center gap-3 text-sm py-1.5 border-b border-border/20 last:border-0">
+                            <span className="text-xs font-mono text-muted-foreground truncate">
+                                {link.token.substring(0, 10)}...
+                            </span>
+                            <Badge variant="outline" className={`text-[10px] shrink-0 ${badge.className}`}>{badge.label}</Badge>
+                            {link.passwordProtected && <Lock size={12} className="text-muted-foreground shrink-0" />}
+                            {link.cid !== file.cid && (
+                                <Badge variant="outline" className="text-muted-foreground text-[10px] shrink-0">Older version</Badge>
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                                {link.downloads}{link.maxDownloads ? ` / ${link.maxDownloads}` : ''} opens
+                            </span>
+                            <span className="text-xs text-muted-foreground ml-auto shrink-0">
+                                Expires {new Date(link.expiresAt).toLocaleString()}
+                            </span>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-destructive hover:bg-destructive/10"
+                                onClick={() => handleRevoke(link)}
+                                disabled={revoking !== null}
+                            >
+                                {revoking === link.token ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                            </Button>
+                        </div>
+                    )
+                })}
+            </CardContent>
+
+            <CreatePublicLinkDialog
+                isOpen={dialogOpen}
+                onClose={() => setDialogOpen(false)}
+                fileId={file.id}
+                fileName={file.name}
+                cid={file.cid}
+                chainFileId={file.chainFileId}
+                onCreated={loadLinks}
+            />
+        </Card>
+    )
+}
+
+export default PublicLinksPanel
@@ -24,7 +24,7 @@ import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerR
 import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
 import SimulateResponse = modelsv2.SimulateResponse
 
-export const APP_SPEC: Arc56Contract = {"name":"FileRegistry","structs":{"Object7DC5F2F9":[{"name":"fileId","type":"uint64"},{"name":"user","type":"string"}]},"methods":[{"name":"createApplication","args":[{"type":"uint64","name":"groupAppId"}],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"registerFile","args":[{"type":"string","name":"cid"},{"type":"string","name":"filename"},{"type":"uint64","name":"groupId"},{"type":"string","name":"share1"},{"type":"string","name":"share2"},{"type":"string","name":"share3"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"updateFile","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"newCid"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"deleteFile","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"grantAccess","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"},{"type":"string","name":"permission"},{"type":"string","name":"wrappedKey"},{"type":"uint64","name":"expiresAt"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"revokeAccess","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"getFileCid","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileOwner","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileName","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileGroupId","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileCreatedAt","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileUpdatedAt","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileIsDeleted","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileShare1","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileShare2","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileShare3","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"hasValidAccess","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getAccessPermission","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getAccessWrappedKey","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getAccessExpiresAt","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getAccessGrantedAt","args":[{"type":"uint64","name":"fileId"},{"type":"string","name":"user"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"registerPublicKey","args":[{"type":"string","name":"publicKey"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"getEncryptionKey","args":[{"type":"string","name":"user"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileCount","args":[],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":2,"bytes":0},"local":{"ints":0,"bytes":0}},"keys":{"global":{"fileCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"ZmlsZUNvdW50"},"groupRegistryAppId":{"keyType":"AVMString","valueType":"AVMUint64","key":"Z3JvdXBSZWdpc3RyeUFwcElk"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"fileCids":{"keyType":"uint64","valueType":"AVMString","prefix":"ZmM="},"fileOwners":{"keyType":"uint64","valueType":"AVMString","prefix":"Zm8="},"fileNames":{"keyType":"uint64","valueType":"AVMString","prefix":"Zm4="},"fileGroupIds":{"keyType":"uint64","valueType":"uint64","prefix":"Zmc="},"fileCreatedAt":{"keyType":"uint64","valueType":"uint64","prefix":"ZnQ="},"fileUpdatedAt":{"keyType":"uint64","valueType":"uint64","prefix":"ZnU="},"fileIsDeleted":{"keyType":"uint64","valueType":"uint64","prefix":"ZmQ="},"fileShare1":{"keyType":"uint64","valueType":"AVMString","prefix":"YTE="},"fileShare2":{"keyType":"uint64","valueType":"AVMString","prefix":"YTI="},"fileShare3":{"keyType":"uint64","valueType":"AVMString","prefix":"YTM="},"accessHas":{"keyType":"Object7DC5F2F9","valueType":"uint64","prefix":"YWg="},"accessPermission":{"keyType":"Object7DC5F2F9","valueType":"AVMString","prefix":"YXA="},"accessWrappedKey":{"keyType":"Object7DC5F2F9","valueType":"AVMString","prefix":"YWs="},"accessGrantedAt":{"keyType":"Object7DC5F2F9","valueType":"uint64","prefix":"YXQ="},"accessExpiresAt":{"keyType":"Object7DC5F2F9","valueType":"uint64","prefix":"YWU="},"encryptionKeys":{"keyType":"AVMString","valueType":"AVMString","prefix":"ZWs="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[{"pc":[578,729,1106,1148,1190,1270,1283,1329,1342,1421,1495,1569,1637,1707],"errorMessage":"Box must have value"},{"pc":[565,623,716,832,881,915,950,985,1014,1043,1072],"errorMessage":"File does not exist"},{"pc":[581,732],"errorMessage":"File is deleted"},{"pc":[571,629,722,838],"errorMessage":"Not the owner"},{"pc":[111],"errorMessage":"OnCompletion must be NoOp"},{"pc":[412,1730],"errorMessage":"check GlobalState exists"},{"pc":[324,340,365,381,397,544,653,669,685,811,1226,1380,1454,1528,1596,1655,1683],"errorMessage":"invalid array length header"},{"pc":[331,347,372,388,404,551,660,676,692,818,1233,1387,1461,1535,1603,1662,1690],"errorMessage":"invalid number of bytes for arc4.dynamic_array<arc4.uint8>"},{"pc":[307,358,537,612,646,703,804,870,905,939,974,1003,1032,1061,1090,1132,1174,1219,1373,1447,1521,1589],"errorMessage":"invalid number of bytes for arc4.uint64"}],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"source":{"approval":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYXJjNC9pbmRleC5kLnRzOjpDb250cmFjdC5hcHByb3ZhbFByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBpbnRjYmxvY2sgMCAxIDggMgogICAgYnl0ZWNibG9jayAweDE1MWY3Yzc1ICJmbyIgMHgwMDBhICIiICJmZCIgImZpbGVDb3VudCIgImZjIiAiZnUiICJhaCIgImFlIiAiZ3JvdXBSZWdpc3RyeUFwcElkIiAiZm4iICJmZyIgImZ0IiAiYTEiICJhMiIgImEzIiAiYXAiICJhayIgImF0IiAiZWsiCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgYm56IG1haW5fYWZ0ZXJfaWZfZWxzZUAyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGZpbGVDb3VudCA9IEdsb2JhbFN0YXRlPHVpbnQ2ND4oeyBpbml0aWFsVmFsdWU6IFVpbnQ2NCgwKSB9KQogICAgYnl0ZWMgNSAvLyAiZmlsZUNvdW50IgogICAgaW50Y18wIC8vIDAKICAgIGFwcF9nbG9iYWxfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjYKICAgIC8vIGdyb3VwUmVnaXN0cnlBcHBJZCA9IEdsb2JhbFN0YXRlPHVpbnQ2ND4oeyBpbml0aWFsVmFsdWU6IFVpbnQ2NCgwKSB9KQogICAgYnl0ZWMgMTAgLy8gImdyb3VwUmVnaXN0cnlBcHBJZCIKICAgIGludGNfMCAvLyAwCiAgICBhcHBfZ2xvYmFsX3B1dAoKbWFpbl9hZnRlcl9pZl9lbHNlQDI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQKICAgIC8vIGV4cG9ydCBjbGFzcyBGaWxlUmVnaXN0cnkgZXh0ZW5kcyBDb250cmFjdCB7CiAgICB0eG4gT25Db21wbGV0aW9uCiAgICAhCiAgICBhc3NlcnQgLy8gT25Db21wbGV0aW9uIG11c3QgYmUgTm9PcAogICAgdHhuIEFwcGxpY2F0aW9uSUQKICAgIGJ6IG1haW5fY3JlYXRlX05vT3BAMjkKICAgIHB1c2hieXRlc3MgMHg1OTdlYzBhMyAweGUwNWYxMTQxIDB4Y2FkNDhkMWQgMHg4MDMzODY3MyAweGU2MWI3NmNmIDB4OGQ0ZmY0MzIgMHhiYzMyN2UxZiAweDc3Y2VmNWU5IDB4MjBjMmI3MDQgMHg4NTFmMWYyNiAweGY4NzMwMzYxIDB4ZTU4YjM0ZWQgMHg1MjhhMzJmZiAweDg2ZjY4NWEwIDB4OTlhMjFlM2YgMHg0NzVkYmYxYyAweGIyZTRlMGUwIDB4M2NmYTYwMjQgMHhjYzVhNjE2NiAweGU0YmQ5YjI0IDB4YzA1YWNlOWUgMHg1NTJjZGVmMSAweGQxYWNiNDBkIC8vIG1ldGhvZCAicmVnaXN0ZXJGaWxlKHN0cmluZyxzdHJpbmcsdWludDY0LHN0cmluZyxzdHJpbmcsc3RyaW5nKXVpbnQ2NCIsIG1ldGhvZCAidXBkYXRlRmlsZSh1aW50NjQsc3RyaW5nKXZvaWQiLCBtZXRob2QgImRlbGV0ZUZpbGUodWludDY0KXZvaWQiLCBtZXRob2QgImdyYW50QWNjZXNzKHVpbnQ2NCxzdHJpbmcsc3RyaW5nLHN0cmluZyx1aW50NjQpdm9pZCIsIG1ldGhvZCAicmV2b2tlQWNjZXNzKHVpbnQ2NCxzdHJpbmcpdm9pZCIsIG1ldGhvZCAiZ2V0RmlsZUNpZCh1aW50NjQpc3RyaW5nIiwgbWV0aG9kICJnZXRGaWxlT3duZXIodWludDY0KXN0cmluZyIsIG1ldGhvZCAiZ2V0RmlsZU5hbWUodWludDY0KXN0cmluZyIsIG1ldGhvZCAiZ2V0RmlsZUdyb3VwSWQodWludDY0KXVpbnQ2NCIsIG1ldGhvZCAiZ2V0RmlsZUNyZWF0ZWRBdCh1aW50NjQpdWludDY0IiwgbWV0aG9kICJnZXRGaWxlVXBkYXRlZEF0KHVpbnQ2NCl1aW50NjQiLCBtZXRob2QgImdldEZpbGVJc0RlbGV0ZWQodWludDY0KXVpbnQ2NCIsIG1ldGhvZCAiZ2V0RmlsZVNoYXJlMSh1aW50NjQpc3RyaW5nIiwgbWV0aG9kICJnZXRGaWxlU2hhcmUyKHVpbnQ2NClzdHJpbmciLCBtZXRob2QgImdldEZpbGVTaGFyZTModWludDY0KXN0cmluZyIsIG1ldGhvZCAiaGFzVmFsaWRBY2Nlc3ModWludDY0LHN0cmluZylib29sIiwgbWV0aG9kICJnZXRBY2Nlc3NQZXJtaXNzaW9uKHVpbnQ2NCxzdHJpbmcpc3RyaW5nIiwgbWV0aG9kICJnZXRBY2Nlc3NXcmFwcGVkS2V5KHVpbnQ2NCxzdHJpbmcpc3RyaW5nIiwgbWV0aG9kICJnZXRBY2Nlc3NFeHBpcmVzQXQodWludDY0LHN0cmluZyl1aW50NjQiLCBtZXRob2QgImdldEFjY2Vzc0dyYW50ZWRBdCh1aW50NjQsc3RyaW5nKXVpbnQ2NCIsIG1ldGhvZCAicmVnaXN0ZXJQdWJsaWNLZXkoc3RyaW5nKXZvaWQiLCBtZXRob2QgImdldEVuY3J5cHRpb25LZXkoc3RyaW5nKXN0cmluZyIsIG1ldGhvZCAiZ2V0RmlsZUNvdW50KCl1aW50NjQiCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAwCiAgICBtYXRjaCByZWdpc3RlckZpbGUgdXBkYXRlRmlsZSBkZWxldGVGaWxlIGdyYW50QWNjZXNzIHJldm9rZUFjY2VzcyBnZXRGaWxlQ2lkIGdldEZpbGVPd25lciBnZXRGaWxlTmFtZSBnZXRGaWxlR3JvdXBJZCBnZXRGaWxlQ3JlYXRlZEF0IGdldEZpbGVVcGRhdGVkQXQgZ2V0RmlsZUlzRGVsZXRlZCBnZXRGaWxlU2hhcmUxIGdldEZpbGVTaGFyZTIgZ2V0RmlsZVNoYXJlMyBoYXNWYWxpZEFjY2VzcyBnZXRBY2Nlc3NQZXJtaXNzaW9uIGdldEFjY2Vzc1dyYXBwZWRLZXkgZ2V0QWNjZXNzRXhwaXJlc0F0IGdldEFjY2Vzc0dyYW50ZWRBdCByZWdpc3RlclB1YmxpY0tleSBnZXRFbmNyeXB0aW9uS2V5IGdldEZpbGVDb3VudAogICAgZXJyCgptYWluX2NyZWF0ZV9Ob09wQDI5OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0CiAgICAvLyBleHBvcnQgY2xhc3MgRmlsZVJlZ2lzdHJ5IGV4dGVuZHMgQ29udHJhY3QgewogICAgcHVzaGJ5dGVzIDB4OTczYjYxNmYgLy8gbWV0aG9kICJjcmVhdGVBcHBsaWNhdGlvbih1aW50NjQpdm9pZCIKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDAKICAgIG1hdGNoIGNyZWF0ZUFwcGxpY2F0aW9uCiAgICBlcnIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuY3JlYXRlQXBwbGljYXRpb25bcm91dGluZ10oKSAtPiB2b2lkOgpjcmVhdGVBcHBsaWNhdGlvbjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjgKICAgIC8vIEBhYmltZXRob2QoeyBvbkNyZWF0ZTogJ3JlcXVpcmUnIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGZpbGVDb3VudCA9IEdsb2JhbFN0YXRlPHVpbnQ2ND4oeyBpbml0aWFsVmFsdWU6IFVpbnQ2NCgwKSB9KQogICAgYnl0ZWMgNSAvLyAiZmlsZUNvdW50IgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMAogICAgLy8gdGhpcy5maWxlQ291bnQudmFsdWUgPSBVaW50NjQoMCkKICAgIGludGNfMCAvLyAwCiAgICBhcHBfZ2xvYmFsX3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo2CiAgICAvLyBncm91cFJlZ2lzdHJ5QXBwSWQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDEwIC8vICJncm91cFJlZ2lzdHJ5QXBwSWQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMxCiAgICAvLyB0aGlzLmdyb3VwUmVnaXN0cnlBcHBJZC52YWx1ZSA9IGdyb3VwQXBwSWQKICAgIHN3YXAKICAgIGFwcF9nbG9iYWxfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI4CiAgICAvLyBAYWJpbWV0aG9kKHsgb25DcmVhdGU6ICdyZXF1aXJlJyB9KQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5yZWdpc3RlckZpbGVbcm91dGluZ10oKSAtPiB2b2lkOgpyZWdpc3RlckZpbGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM0CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzMgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18zIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDUKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyA2CiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzMgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MwogICAgLy8gdGhpcy5maWxlQ291bnQudmFsdWUgPSB0aGlzLmZpbGVDb3VudC52YWx1ZSArIFVpbnQ2NCgxKQogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NQogICAgLy8gZmlsZUNvdW50ID0gR2xvYmFsU3RhdGU8dWludDY0Pih7IGluaXRpYWxWYWx1ZTogVWludDY0KDApIH0pCiAgICBieXRlYyA1IC8vICJmaWxlQ291bnQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQzCiAgICAvLyB0aGlzLmZpbGVDb3VudC52YWx1ZSA9IHRoaXMuZmlsZUNvdW50LnZhbHVlICsgVWludDY0KDEpCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgaW50Y18xIC8vIDEKICAgICsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NQogICAgLy8gZmlsZUNvdW50ID0gR2xvYmFsU3RhdGU8dWludDY0Pih7IGluaXRpYWxWYWx1ZTogVWludDY0KDApIH0pCiAgICBieXRlYyA1IC8vICJmaWxlQ291bnQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQzCiAgICAvLyB0aGlzLmZpbGVDb3VudC52YWx1ZSA9IHRoaXMuZmlsZUNvdW50LnZhbHVlICsgVWludDY0KDEpCiAgICBkaWcgMQogICAgYXBwX2dsb2JhbF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDYKICAgIC8vIHRoaXMuZmlsZUNpZHMoZmlsZUlkKS52YWx1ZSA9IGNpZAogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4CiAgICAvLyBmaWxlQ2lkcyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdmYycgfSkKICAgIGJ5dGVjIDYgLy8gImZjIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NgogICAgLy8gdGhpcy5maWxlQ2lkcyhmaWxlSWQpLnZhbHVlID0gY2lkCiAgICBkdXAKICAgIGJveF9kZWwKICAgIHBvcAogICAgdW5jb3ZlciA3CiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ3CiAgICAvLyB0aGlzLmZpbGVPd25lcnMoZmlsZUlkKS52YWx1ZSA9IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKQogICAgdHhuIFNlbmRlcgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5CiAgICAvLyBmaWxlT3duZXJzID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2ZvJyB9KQogICAgYnl0ZWNfMSAvLyAiZm8iCiAgICBkaWcgMgogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ3CiAgICAvLyB0aGlzLmZpbGVPd25lcnMoZmlsZUlkKS52YWx1ZSA9IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKQogICAgZHVwCiAgICBib3hfZGVsCiAgICBwb3AKICAgIHN3YXAKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAKICAgIC8vIGZpbGVOYW1lcyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdmbicgfSkKICAgIGJ5dGVjIDExIC8vICJmbiIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDgKICAgIC8vIHRoaXMuZmlsZU5hbWVzKGZpbGVJZCkudmFsdWUgPSBmaWxlbmFtZQogICAgZHVwCiAgICBib3hfZGVsCiAgICBwb3AKICAgIHVuY292ZXIgNgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMQogICAgLy8gZmlsZUdyb3VwSWRzID0gQm94TWFwPHVpbnQ2NCwgdWludDY0Pih7IGtleVByZWZpeDogJ2ZnJyB9KQogICAgYnl0ZWMgMTIgLy8gImZnIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0OQogICAgLy8gdGhpcy5maWxlR3JvdXBJZHMoZmlsZUlkKS52YWx1ZSA9IGdyb3VwSWQKICAgIHVuY292ZXIgNQogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MAogICAgLy8gdGhpcy5maWxlQ3JlYXRlZEF0KGZpbGVJZCkudmFsdWUgPSBHbG9iYWwubGF0ZXN0VGltZXN0YW1wCiAgICBnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyCiAgICAvLyBmaWxlQ3JlYXRlZEF0ID0gQm94TWFwPHVpbnQ2NCwgdWludDY0Pih7IGtleVByZWZpeDogJ2Z0JyB9KQogICAgYnl0ZWMgMTMgLy8gImZ0IgogICAgZGlnIDIKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MAogICAgLy8gdGhpcy5maWxlQ3JlYXRlZEF0KGZpbGVJZCkudmFsdWUgPSBHbG9iYWwubGF0ZXN0VGltZXN0YW1wCiAgICBzd2FwCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUxCiAgICAvLyB0aGlzLmZpbGVVcGRhdGVkQXQoZmlsZUlkKS52YWx1ZSA9IEdsb2JhbC5sYXRlc3RUaW1lc3RhbXAKICAgIGdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTMKICAgIC8vIGZpbGVVcGRhdGVkQXQgPSBCb3hNYXA8dWludDY0LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnZnUnIH0pCiAgICBieXRlYyA3IC8vICJmdSIKICAgIGRpZyAyCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NTEKICAgIC8vIHRoaXMuZmlsZVVwZGF0ZWRBdChmaWxlSWQpLnZhbHVlID0gR2xvYmFsLmxhdGVzdFRpbWVzdGFtcAogICAgc3dhcAogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNAogICAgLy8gZmlsZUlzRGVsZXRlZCA9IEJveE1hcDx1aW50NjQsIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdmZCcgfSkKICAgIGJ5dGVjIDQgLy8gImZkIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MgogICAgLy8gdGhpcy5maWxlSXNEZWxldGVkKGZpbGVJZCkudmFsdWUgPSBVaW50NjQoMCkKICAgIGludGNfMCAvLyAwCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2CiAgICAvLyBmaWxlU2hhcmUxID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2ExJyB9KQogICAgYnl0ZWMgMTQgLy8gImExIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1NAogICAgLy8gdGhpcy5maWxlU2hhcmUxKGZpbGVJZCkudmFsdWUgPSBzaGFyZTEKICAgIGR1cAogICAgYm94X2RlbAogICAgcG9wCiAgICB1bmNvdmVyIDQKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTcKICAgIC8vIGZpbGVTaGFyZTIgPSBCb3hNYXA8dWludDY0LCBzdHJpbmc+KHsga2V5UHJlZml4OiAnYTInIH0pCiAgICBieXRlYyAxNSAvLyAiYTIiCiAgICBkaWcgMQogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjU1CiAgICAvLyB0aGlzLmZpbGVTaGFyZTIoZmlsZUlkKS52YWx1ZSA9IHNoYXJlMgogICAgZHVwCiAgICBib3hfZGVsCiAgICBwb3AKICAgIHVuY292ZXIgMwogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOAogICAgLy8gZmlsZVNoYXJlMyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdhMycgfSkKICAgIGJ5dGVjIDE2IC8vICJhMyIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NTYKICAgIC8vIHRoaXMuZmlsZVNoYXJlMyhmaWxlSWQpLnZhbHVlID0gc2hhcmUzCiAgICBkdXAKICAgIGJveF9kZWwKICAgIHBvcAogICAgdW5jb3ZlciAyCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM0CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIGJ5dGVjXzAgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkudXBkYXRlRmlsZVtyb3V0aW5nXSgpIC0+IHZvaWQ6CnVwZGF0ZUZpbGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjYxCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjYzCiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICBzd2FwCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjkKICAgIC8vIGZpbGVPd25lcnMgPSBCb3hNYXA8dWludDY0LCBzdHJpbmc+KHsga2V5UHJlZml4OiAnZm8nIH0pCiAgICBieXRlY18xIC8vICJmbyIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjMKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVPd25lcnMoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo2NAogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZU93bmVycyhmaWxlSWQpLnZhbHVlID09PSBUeG4uc2VuZGVyLmJ5dGVzLnRvU3RyaW5nKCksICdOb3QgdGhlIG93bmVyJykKICAgIGJveF9nZXQKICAgIHBvcAogICAgdHhuIFNlbmRlcgogICAgPT0KICAgIGFzc2VydCAvLyBOb3QgdGhlIG93bmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0CiAgICAvLyBmaWxlSXNEZWxldGVkID0gQm94TWFwPHVpbnQ2NCwgdWludDY0Pih7IGtleVByZWZpeDogJ2ZkJyB9KQogICAgYnl0ZWMgNCAvLyAiZmQiCiAgICBkaWcgMQogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY1CiAgICAvLyBhc3NlcnQodGhpcy5maWxlSXNEZWxldGVkKGZpbGVJZCkudmFsdWUgPT09IFVpbnQ2NCgwKSwgJ0ZpbGUgaXMgZGVsZXRlZCcpCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQogICAgIQogICAgYXNzZXJ0IC8vIEZpbGUgaXMgZGVsZXRlZAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4CiAgICAvLyBmaWxlQ2lkcyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdmYycgfSkKICAgIGJ5dGVjIDYgLy8gImZjIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo2NwogICAgLy8gdGhpcy5maWxlQ2lkcyhmaWxlSWQpLnZhbHVlID0gbmV3Q2lkCiAgICBkdXAKICAgIGJveF9kZWwKICAgIHBvcAogICAgdW5jb3ZlciAyCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY4CiAgICAvLyB0aGlzLmZpbGVVcGRhdGVkQXQoZmlsZUlkKS52YWx1ZSA9IEdsb2JhbC5sYXRlc3RUaW1lc3RhbXAKICAgIGdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTMKICAgIC8vIGZpbGVVcGRhdGVkQXQgPSBCb3hNYXA8dWludDY0LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnZnUnIH0pCiAgICBieXRlYyA3IC8vICJmdSIKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY4CiAgICAvLyB0aGlzLmZpbGVVcGRhdGVkQXQoZmlsZUlkKS52YWx1ZSA9IEdsb2JhbC5sYXRlc3RUaW1lc3RhbXAKICAgIHN3YXAKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjEKICAgIC8vIEBhYmltZXRob2QoKQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5kZWxldGVGaWxlW3JvdXRpbmddKCkgLT4gdm9pZDoKZGVsZXRlRmlsZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzEKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3MwogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZU93bmVycyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5CiAgICAvLyBmaWxlT3duZXJzID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2ZvJyB9KQogICAgYnl0ZWNfMSAvLyAiZm8iCiAgICBkaWcgMQogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjczCiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICBkdXAKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYXNzZXJ0IC8vIEZpbGUgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzQKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVPd25lcnMoZmlsZUlkKS52YWx1ZSA9PT0gVHhuLnNlbmRlci5ieXRlcy50b1N0cmluZygpLCAnTm90IHRoZSBvd25lcicpCiAgICBib3hfZ2V0CiAgICBwb3AKICAgIHR4biBTZW5kZXIKICAgID09CiAgICBhc3NlcnQgLy8gTm90IHRoZSBvd25lcgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNAogICAgLy8gZmlsZUlzRGVsZXRlZCA9IEJveE1hcDx1aW50NjQsIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdmZCcgfSkKICAgIGJ5dGVjIDQgLy8gImZkIgogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjc1CiAgICAvLyB0aGlzLmZpbGVJc0RlbGV0ZWQoZmlsZUlkKS52YWx1ZSA9IFVpbnQ2NCgxKQogICAgaW50Y18xIC8vIDEKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzEKICAgIC8vIEBhYmltZXRob2QoKQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5ncmFudEFjY2Vzc1tyb3V0aW5nXSgpIC0+IHZvaWQ6CmdyYW50QWNjZXNzOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3OAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzMgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18zIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDQKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyA1CiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjg2CiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICB1bmNvdmVyIDQKICAgIGl0b2IKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OQogICAgLy8gZmlsZU93bmVycyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdmbycgfSkKICAgIGJ5dGVjXzEgLy8gImZvIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4NgogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZU93bmVycyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBGaWxlIGRvZXMgbm90IGV4aXN0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjg3CiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkudmFsdWUgPT09IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKSwgJ05vdCB0aGUgb3duZXInKQogICAgYm94X2dldAogICAgcG9wCiAgICB0eG4gU2VuZGVyCiAgICA9PQogICAgYXNzZXJ0IC8vIE5vdCB0aGUgb3duZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQKICAgIC8vIGZpbGVJc0RlbGV0ZWQgPSBCb3hNYXA8dWludDY0LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnZmQnIH0pCiAgICBieXRlYyA0IC8vICJmZCIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODgKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVJc0RlbGV0ZWQoZmlsZUlkKS52YWx1ZSA9PT0gVWludDY0KDApLCAnRmlsZSBpcyBkZWxldGVkJykKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBidG9pCiAgICAhCiAgICBhc3NlcnQgLy8gRmlsZSBpcyBkZWxldGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjkwCiAgICAvLyBjb25zdCBrZXkgPSB7IGZpbGVJZDogZmlsZUlkLCB1c2VyOiB1c2VyIH0KICAgIGRpZyA0CiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICB1bmNvdmVyIDUKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMiAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwCiAgICAvLyBhY2Nlc3NIYXMgPSBCb3hNYXA8eyBmaWxlSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdhaCcgfSkKICAgIGJ5dGVjIDggLy8gImFoIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5MQogICAgLy8gdGhpcy5hY2Nlc3NIYXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCgxKQogICAgaW50Y18xIC8vIDEKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjEKICAgIC8vIGFjY2Vzc1Blcm1pc3Npb24gPSBCb3hNYXA8eyBmaWxlSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdhcCcgfSkKICAgIGJ5dGVjIDE3IC8vICJhcCIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTIKICAgIC8vIHRoaXMuYWNjZXNzUGVybWlzc2lvbihrZXkpLnZhbHVlID0gcGVybWlzc2lvbgogICAgZHVwCiAgICBib3hfZGVsCiAgICBwb3AKICAgIHVuY292ZXIgNAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMgogICAgLy8gYWNjZXNzV3JhcHBlZEtleSA9IEJveE1hcDx7IGZpbGVJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgc3RyaW5nPih7IGtleVByZWZpeDogJ2FrJyB9KQogICAgYnl0ZWMgMTggLy8gImFrIgogICAgZGlnIDEKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5MwogICAgLy8gdGhpcy5hY2Nlc3NXcmFwcGVkS2V5KGtleSkudmFsdWUgPSB3cmFwcGVkS2V5CiAgICBkdXAKICAgIGJveF9kZWwKICAgIHBvcAogICAgdW5jb3ZlciAzCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjk0CiAgICAvLyB0aGlzLmFjY2Vzc0dyYW50ZWRBdChrZXkpLnZhbHVlID0gR2xvYmFsLmxhdGVzdFRpbWVzdGFtcAogICAgZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMwogICAgLy8gYWNjZXNzR3JhbnRlZEF0ID0gQm94TWFwPHsgZmlsZUlkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnYXQnIH0pCiAgICBieXRlYyAxOSAvLyAiYXQiCiAgICBkaWcgMgogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjk0CiAgICAvLyB0aGlzLmFjY2Vzc0dyYW50ZWRBdChrZXkpLnZhbHVlID0gR2xvYmFsLmxhdGVzdFRpbWVzdGFtcAogICAgc3dhcAogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNAogICAgLy8gYWNjZXNzRXhwaXJlc0F0ID0gQm94TWFwPHsgZmlsZUlkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnYWUnIH0pCiAgICBieXRlYyA5IC8vICJhZSIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5NQogICAgLy8gdGhpcy5hY2Nlc3NFeHBpcmVzQXQoa2V5KS52YWx1ZSA9IGV4cGlyZXNBdAogICAgc3dhcAogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3OAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LnJldm9rZUFjY2Vzc1tyb3V0aW5nXSgpIC0+IHZvaWQ6CnJldm9rZUFjY2VzczoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTgKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18zIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAwCiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICBzd2FwCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjkKICAgIC8vIGZpbGVPd25lcnMgPSBCb3hNYXA8dWludDY0LCBzdHJpbmc+KHsga2V5UHJlZml4OiAnZm8nIH0pCiAgICBieXRlY18xIC8vICJmbyIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAwCiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICBkdXAKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYXNzZXJ0IC8vIEZpbGUgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAxCiAgICAvLyBhc3NlcnQodGhpcy5maWxlT3duZXJzKGZpbGVJZCkudmFsdWUgPT09IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKSwgJ05vdCB0aGUgb3duZXInKQogICAgYm94X2dldAogICAgcG9wCiAgICB0eG4gU2VuZGVyCiAgICA9PQogICAgYXNzZXJ0IC8vIE5vdCB0aGUgb3duZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAyCiAgICAvLyBjb25zdCBrZXkgPSB7IGZpbGVJZDogZmlsZUlkLCB1c2VyOiB1c2VyIH0KICAgIGRpZyAxCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMiAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwCiAgICAvLyBhY2Nlc3NIYXMgPSBCb3hNYXA8eyBmaWxlSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdhaCcgfSkKICAgIGJ5dGVjIDggLy8gImFoIgogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwMwogICAgLy8gdGhpcy5hY2Nlc3NIYXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCgwKQogICAgaW50Y18wIC8vIDAKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTgKICAgIC8vIEBhYmltZXRob2QoKQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRGaWxlQ2lkW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0RmlsZUNpZDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA4CiAgICAvLyBhc3NlcnQodGhpcy5maWxlQ2lkcyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4CiAgICAvLyBmaWxlQ2lkcyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdmYycgfSkKICAgIGJ5dGVjIDYgLy8gImZjIgogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwOAogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZUNpZHMoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDkKICAgIC8vIHJldHVybiB0aGlzLmZpbGVDaWRzKGZpbGVJZCkudmFsdWUKICAgIGJveF9nZXQKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgZHVwCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGJ5dGVjXzAgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZU93bmVyW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0RmlsZU93bmVyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTQKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVPd25lcnMoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGl0b2IKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OQogICAgLy8gZmlsZU93bmVycyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdmbycgfSkKICAgIGJ5dGVjXzEgLy8gImZvIgogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExNAogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZU93bmVycyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBGaWxlIGRvZXMgbm90IGV4aXN0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExNQogICAgLy8gcmV0dXJuIHRoaXMuZmlsZU93bmVycyhmaWxlSWQpLnZhbHVlCiAgICBib3hfZ2V0CiAgICBwb3AKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEyCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVOYW1lW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0RmlsZU5hbWU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExOAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyMAogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZU5hbWVzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwCiAgICAvLyBmaWxlTmFtZXMgPSBCb3hNYXA8dWludDY0LCBzdHJpbmc+KHsga2V5UHJlZml4OiAnZm4nIH0pCiAgICBieXRlYyAxMSAvLyAiZm4iCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTIwCiAgICAvLyBhc3NlcnQodGhpcy5maWxlTmFtZXMoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjEKICAgIC8vIHJldHVybiB0aGlzLmZpbGVOYW1lcyhmaWxlSWQpLnZhbHVlCiAgICBib3hfZ2V0CiAgICBwb3AKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTE4CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVHcm91cElkW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0RmlsZUdyb3VwSWQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyNAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyNgogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZUdyb3VwSWRzKGZpbGVJZCkuZXhpc3RzLCAnRmlsZSBkb2VzIG5vdCBleGlzdCcpCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExCiAgICAvLyBmaWxlR3JvdXBJZHMgPSBCb3hNYXA8dWludDY0LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnZmcnIH0pCiAgICBieXRlYyAxMiAvLyAiZmciCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTI2CiAgICAvLyBhc3NlcnQodGhpcy5maWxlR3JvdXBJZHMoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjcKICAgIC8vIHJldHVybiB0aGlzLmZpbGVHcm91cElkcyhmaWxlSWQpLnZhbHVlCiAgICBib3hfZ2V0CiAgICBwb3AKICAgIGJ0b2kKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTI0CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGl0b2IKICAgIGJ5dGVjXzAgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZUNyZWF0ZWRBdFtyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldEZpbGVDcmVhdGVkQXQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzMAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzMgogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZUNyZWF0ZWRBdChmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMgogICAgLy8gZmlsZUNyZWF0ZWRBdCA9IEJveE1hcDx1aW50NjQsIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdmdCcgfSkKICAgIGJ5dGVjIDEzIC8vICJmdCIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzIKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVDcmVhdGVkQXQoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzMKICAgIC8vIHJldHVybiB0aGlzLmZpbGVDcmVhdGVkQXQoZmlsZUlkKS52YWx1ZQogICAgYm94X2dldAogICAgcG9wCiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzMAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBpdG9iCiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVVcGRhdGVkQXRbcm91dGluZ10oKSAtPiB2b2lkOgpnZXRGaWxlVXBkYXRlZEF0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzgKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVVcGRhdGVkQXQoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGl0b2IKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTMKICAgIC8vIGZpbGVVcGRhdGVkQXQgPSBCb3hNYXA8dWludDY0LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnZnUnIH0pCiAgICBieXRlYyA3IC8vICJmdSIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzgKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVVcGRhdGVkQXQoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzkKICAgIC8vIHJldHVybiB0aGlzLmZpbGVVcGRhdGVkQXQoZmlsZUlkKS52YWx1ZQogICAgYm94X2dldAogICAgcG9wCiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzNgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBpdG9iCiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVJc0RlbGV0ZWRbcm91dGluZ10oKSAtPiB2b2lkOgpnZXRGaWxlSXNEZWxldGVkOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDQKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVJc0RlbGV0ZWQoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGl0b2IKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQKICAgIC8vIGZpbGVJc0RlbGV0ZWQgPSBCb3hNYXA8dWludDY0LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnZmQnIH0pCiAgICBieXRlYyA0IC8vICJmZCIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDQKICAgIC8vIGFzc2VydCh0aGlzLmZpbGVJc0RlbGV0ZWQoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDUKICAgIC8vIHJldHVybiB0aGlzLmZpbGVJc0RlbGV0ZWQoZmlsZUlkKS52YWx1ZQogICAgYm94X2dldAogICAgcG9wCiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0MgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBpdG9iCiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVTaGFyZTFbcm91dGluZ10oKSAtPiB2b2lkOgpnZXRGaWxlU2hhcmUxOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDgKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNTAKICAgIC8vIGlmICh0aGlzLmZpbGVTaGFyZTEoZmlsZUlkKS5leGlzdHMpIHsKICAgIGl0b2IKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTYKICAgIC8vIGZpbGVTaGFyZTEgPSBCb3hNYXA8dWludDY0LCBzdHJpbmc+KHsga2V5UHJlZml4OiAnYTEnIH0pCiAgICBieXRlYyAxNCAvLyAiYTEiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGR1cAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNTAKICAgIC8vIGlmICh0aGlzLmZpbGVTaGFyZTEoZmlsZUlkKS5leGlzdHMpIHsKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYnogZ2V0RmlsZVNoYXJlMV9hZnRlcl9pZl9lbHNlQDMKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTUxCiAgICAvLyByZXR1cm4gdGhpcy5maWxlU2hhcmUxKGZpbGVJZCkudmFsdWUKICAgIGR1cAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKCmdldEZpbGVTaGFyZTFfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZVNoYXJlMUA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDgKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgZHVwCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGJ5dGVjXzAgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmdldEZpbGVTaGFyZTFfYWZ0ZXJfaWZfZWxzZUAzOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNTMKICAgIC8vIHJldHVybiAnJwogICAgYnl0ZWNfMyAvLyAiIgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDgKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgYiBnZXRGaWxlU2hhcmUxX2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVTaGFyZTFANAoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRGaWxlU2hhcmUyW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0RmlsZVNoYXJlMjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU4CiAgICAvLyBpZiAodGhpcy5maWxlU2hhcmUyKGZpbGVJZCkuZXhpc3RzKSB7CiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3CiAgICAvLyBmaWxlU2hhcmUyID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2EyJyB9KQogICAgYnl0ZWMgMTUgLy8gImEyIgogICAgc3dhcAogICAgY29uY2F0CiAgICBkdXAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU4CiAgICAvLyBpZiAodGhpcy5maWxlU2hhcmUyKGZpbGVJZCkuZXhpc3RzKSB7CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGdldEZpbGVTaGFyZTJfYWZ0ZXJfaWZfZWxzZUAzCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE1OQogICAgLy8gcmV0dXJuIHRoaXMuZmlsZVNoYXJlMihmaWxlSWQpLnZhbHVlCiAgICBkdXAKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCgpnZXRGaWxlU2hhcmUyX2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEZpbGVTaGFyZTJANDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpnZXRGaWxlU2hhcmUyX2FmdGVyX2lmX2Vsc2VAMzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTYxCiAgICAvLyByZXR1cm4gJycKICAgIGJ5dGVjXzMgLy8gIiIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgZ2V0RmlsZVNoYXJlMl9hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRGaWxlU2hhcmUyQDQKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZVNoYXJlM1tyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldEZpbGVTaGFyZTM6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NgogICAgLy8gaWYgKHRoaXMuZmlsZVNoYXJlMyhmaWxlSWQpLmV4aXN0cykgewogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOAogICAgLy8gZmlsZVNoYXJlMyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdhMycgfSkKICAgIGJ5dGVjIDE2IC8vICJhMyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NgogICAgLy8gaWYgKHRoaXMuZmlsZVNoYXJlMyhmaWxlSWQpLmV4aXN0cykgewogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBnZXRGaWxlU2hhcmUzX2FmdGVyX2lmX2Vsc2VAMwogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNjcKICAgIC8vIHJldHVybiB0aGlzLmZpbGVTaGFyZTMoZmlsZUlkKS52YWx1ZQogICAgZHVwCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQoKZ2V0RmlsZVNoYXJlM19hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRGaWxlU2hhcmUzQDQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgYnl0ZWNfMCAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0RmlsZVNoYXJlM19hZnRlcl9pZl9lbHNlQDM6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2OQogICAgLy8gcmV0dXJuICcnCiAgICBieXRlY18zIC8vICIiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBiIGdldEZpbGVTaGFyZTNfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZVNoYXJlM0A0CgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5Lmhhc1ZhbGlkQWNjZXNzW3JvdXRpbmddKCkgLT4gdm9pZDoKaGFzVmFsaWRBY2Nlc3M6CiAgICBpbnRjXzAgLy8gMAogICAgZHVwCiAgICBieXRlY18zIC8vICIiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3MgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzMgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgc3dhcAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzQKICAgIC8vIGlmICghdGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzKSByZXR1cm4gZmFsc2UKICAgIGl0b2IKICAgIGR1cAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5CiAgICAvLyBmaWxlT3duZXJzID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2ZvJyB9KQogICAgYnl0ZWNfMSAvLyAiZm8iCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGR1cAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzQKICAgIC8vIGlmICghdGhpcy5maWxlT3duZXJzKGZpbGVJZCkuZXhpc3RzKSByZXR1cm4gZmFsc2UKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYm56IGhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lmX2Vsc2VAMwogICAgaW50Y18wIC8vIDAKCmhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5Lmhhc1ZhbGlkQWNjZXNzQDE0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgcHVzaGJ5dGVzIDB4MDAKICAgIGludGNfMCAvLyAwCiAgICB1bmNvdmVyIDIKICAgIHNldGJpdAogICAgYnl0ZWNfMCAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKaGFzVmFsaWRBY2Nlc3NfYWZ0ZXJfaWZfZWxzZUAzOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNAogICAgLy8gZmlsZUlzRGVsZXRlZCA9IEJveE1hcDx1aW50NjQsIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdmZCcgfSkKICAgIGJ5dGVjIDQgLy8gImZkIgogICAgZGlnIDIKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzUKICAgIC8vIGlmICh0aGlzLmZpbGVJc0RlbGV0ZWQoZmlsZUlkKS52YWx1ZSA9PT0gVWludDY0KDEpKSByZXR1cm4gZmFsc2UKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBidG9pCiAgICBpbnRjXzEgLy8gMQogICAgPT0KICAgIGJ6IGhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lmX2Vsc2VANQogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTcyCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgaGFzVmFsaWRBY2Nlc3NfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuaGFzVmFsaWRBY2Nlc3NAMTQKCmhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lmX2Vsc2VANToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc2CiAgICAvLyBpZiAodGhpcy5maWxlT3duZXJzKGZpbGVJZCkudmFsdWUgPT09IHVzZXIpIHJldHVybiB0cnVlCiAgICBkdXAKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBkaWcgMwogICAgPT0KICAgIGJ6IGhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lmX2Vsc2VANwogICAgaW50Y18xIC8vIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTcyCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgaGFzVmFsaWRBY2Nlc3NfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuaGFzVmFsaWRBY2Nlc3NAMTQKCmhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lmX2Vsc2VANzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc4CiAgICAvLyBjb25zdCBrZXkgPSB7IGZpbGVJZDogZmlsZUlkLCB1c2VyOiB1c2VyIH0KICAgIGRpZyAyCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZGlnIDIKICAgIGJ5dGVjXzIgLy8gMHgwMDBhCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICBidXJ5IDYKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjAKICAgIC8vIGFjY2Vzc0hhcyA9IEJveE1hcDx7IGZpbGVJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ2FoJyB9KQogICAgYnl0ZWMgOCAvLyAiYWgiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGR1cAogICAgYnVyeSA3CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3OQogICAgLy8gaWYgKHRoaXMuYWNjZXNzSGFzKGtleSkuZXhpc3RzICYmIHRoaXMuYWNjZXNzSGFzKGtleSkudmFsdWUgPT09IFVpbnQ2NCgxKSkgewogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBoYXNWYWxpZEFjY2Vzc19hZnRlcl9pZl9lbHNlQDEzCiAgICBkaWcgNQogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGNfMSAvLyAxCiAgICA9PQogICAgYnogaGFzVmFsaWRBY2Nlc3NfYWZ0ZXJfaWZfZWxzZUAxMwogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNAogICAgLy8gYWNjZXNzRXhwaXJlc0F0ID0gQm94TWFwPHsgZmlsZUlkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnYWUnIH0pCiAgICBieXRlYyA5IC8vICJhZSIKICAgIGRpZyA1CiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTgwCiAgICAvLyBjb25zdCBleHBpcmVzOiB1aW50NjQgPSB0aGlzLmFjY2Vzc0V4cGlyZXNBdChrZXkpLnZhbHVlCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQogICAgZHVwCiAgICBidXJ5IDUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTgxCiAgICAvLyBpZiAoZXhwaXJlcyA9PT0gVWludDY0KDApIHx8IGV4cGlyZXMgPiBHbG9iYWwubGF0ZXN0VGltZXN0YW1wKSB7CiAgICBieiBoYXNWYWxpZEFjY2Vzc19pZl9ib2R5QDExCiAgICBkaWcgMwogICAgZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAogICAgPgogICAgYnogaGFzVmFsaWRBY2Nlc3NfYWZ0ZXJfaWZfZWxzZUAxMwoKaGFzVmFsaWRBY2Nlc3NfaWZfYm9keUAxMToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTgyCiAgICAvLyByZXR1cm4gdHJ1ZQogICAgaW50Y18xIC8vIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTcyCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgaGFzVmFsaWRBY2Nlc3NfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuaGFzVmFsaWRBY2Nlc3NAMTQKCmhhc1ZhbGlkQWNjZXNzX2FmdGVyX2lmX2Vsc2VAMTM6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE4NQogICAgLy8gcmV0dXJuIGZhbHNlCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgYiBoYXNWYWxpZEFjY2Vzc19hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5oYXNWYWxpZEFjY2Vzc0AxNAoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRBY2Nlc3NQZXJtaXNzaW9uW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0QWNjZXNzUGVybWlzc2lvbjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTg4CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5MAogICAgLy8gY29uc3Qga2V5ID0geyBmaWxlSWQ6IGZpbGVJZCwgdXNlcjogdXNlciB9CiAgICBzd2FwCiAgICBpdG9iCiAgICBkaWcgMQogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGJ5dGVjXzIgLy8gMHgwMDBhCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMQogICAgLy8gYWNjZXNzUGVybWlzc2lvbiA9IEJveE1hcDx7IGZpbGVJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgc3RyaW5nPih7IGtleVByZWZpeDogJ2FwJyB9KQogICAgYnl0ZWMgMTcgLy8gImFwIgogICAgc3dhcAogICAgY29uY2F0CiAgICBkdXAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTkxCiAgICAvLyBpZiAodGhpcy5hY2Nlc3NQZXJtaXNzaW9uKGtleSkuZXhpc3RzKSB7CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGdldEFjY2Vzc1Blcm1pc3Npb25fYWZ0ZXJfaWZfZWxzZUAzCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5MgogICAgLy8gcmV0dXJuIHRoaXMuYWNjZXNzUGVybWlzc2lvbihrZXkpLnZhbHVlCiAgICBkdXAKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCgpnZXRBY2Nlc3NQZXJtaXNzaW9uX2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEFjY2Vzc1Blcm1pc3Npb25ANDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTg4CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpnZXRBY2Nlc3NQZXJtaXNzaW9uX2FmdGVyX2lmX2Vsc2VAMzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTk0CiAgICAvLyByZXR1cm4gJycKICAgIGJ5dGVjXzMgLy8gIiIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTg4CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgZ2V0QWNjZXNzUGVybWlzc2lvbl9hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRBY2Nlc3NQZXJtaXNzaW9uQDQKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0QWNjZXNzV3JhcHBlZEtleVtyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldEFjY2Vzc1dyYXBwZWRLZXk6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5NwogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzMgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOTkKICAgIC8vIGNvbnN0IGtleSA9IHsgZmlsZUlkOiBmaWxlSWQsIHVzZXI6IHVzZXIgfQogICAgc3dhcAogICAgaXRvYgogICAgZGlnIDEKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBieXRlY18yIC8vIDB4MDAwYQogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjIKICAgIC8vIGFjY2Vzc1dyYXBwZWRLZXkgPSBCb3hNYXA8eyBmaWxlSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdhaycgfSkKICAgIGJ5dGVjIDE4IC8vICJhayIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwMAogICAgLy8gaWYgKHRoaXMuYWNjZXNzV3JhcHBlZEtleShrZXkpLmV4aXN0cykgewogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBnZXRBY2Nlc3NXcmFwcGVkS2V5X2FmdGVyX2lmX2Vsc2VAMwogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDEKICAgIC8vIHJldHVybiB0aGlzLmFjY2Vzc1dyYXBwZWRLZXkoa2V5KS52YWx1ZQogICAgZHVwCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQoKZ2V0QWNjZXNzV3JhcHBlZEtleV9hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRBY2Nlc3NXcmFwcGVkS2V5QDQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5NwogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgYnl0ZWNfMCAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0QWNjZXNzV3JhcHBlZEtleV9hZnRlcl9pZl9lbHNlQDM6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwMwogICAgLy8gcmV0dXJuICcnCiAgICBieXRlY18zIC8vICIiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5NwogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBiIGdldEFjY2Vzc1dyYXBwZWRLZXlfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0QWNjZXNzV3JhcHBlZEtleUA0CgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEFjY2Vzc0V4cGlyZXNBdFtyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldEFjY2Vzc0V4cGlyZXNBdDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjA2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwOAogICAgLy8gY29uc3Qga2V5ID0geyBmaWxlSWQ6IGZpbGVJZCwgdXNlcjogdXNlciB9CiAgICBzd2FwCiAgICBpdG9iCiAgICBkaWcgMQogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGJ5dGVjXzIgLy8gMHgwMDBhCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNAogICAgLy8gYWNjZXNzRXhwaXJlc0F0ID0gQm94TWFwPHsgZmlsZUlkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnYWUnIH0pCiAgICBieXRlYyA5IC8vICJhZSIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwOQogICAgLy8gaWYgKHRoaXMuYWNjZXNzRXhwaXJlc0F0KGtleSkuZXhpc3RzKSB7CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGdldEFjY2Vzc0V4cGlyZXNBdF9hZnRlcl9pZl9lbHNlQDMKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjEwCiAgICAvLyByZXR1cm4gdGhpcy5hY2Nlc3NFeHBpcmVzQXQoa2V5KS52YWx1ZQogICAgZHVwCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQoKZ2V0QWNjZXNzRXhwaXJlc0F0X2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEFjY2Vzc0V4cGlyZXNBdEA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgaXRvYgogICAgYnl0ZWNfMCAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0QWNjZXNzRXhwaXJlc0F0X2FmdGVyX2lmX2Vsc2VAMzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjEyCiAgICAvLyByZXR1cm4gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgYiBnZXRBY2Nlc3NFeHBpcmVzQXRfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0QWNjZXNzRXhwaXJlc0F0QDQKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0QWNjZXNzR3JhbnRlZEF0W3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0QWNjZXNzR3JhbnRlZEF0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTUKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18zIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjE3CiAgICAvLyBjb25zdCBrZXkgPSB7IGZpbGVJZDogZmlsZUlkLCB1c2VyOiB1c2VyIH0KICAgIHN3YXAKICAgIGl0b2IKICAgIGRpZyAxCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMiAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzCiAgICAvLyBhY2Nlc3NHcmFudGVkQXQgPSBCb3hNYXA8eyBmaWxlSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdhdCcgfSkKICAgIGJ5dGVjIDE5IC8vICJhdCIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIxOAogICAgLy8gaWYgKHRoaXMuYWNjZXNzR3JhbnRlZEF0KGtleSkuZXhpc3RzKSB7CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGdldEFjY2Vzc0dyYW50ZWRBdF9hZnRlcl9pZl9lbHNlQDMKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjE5CiAgICAvLyByZXR1cm4gdGhpcy5hY2Nlc3NHcmFudGVkQXQoa2V5KS52YWx1ZQogICAgZHVwCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQoKZ2V0QWNjZXNzR3JhbnRlZEF0X2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEFjY2Vzc0dyYW50ZWRBdEA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTUKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgaXRvYgogICAgYnl0ZWNfMCAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0QWNjZXNzR3JhbnRlZEF0X2FmdGVyX2lmX2Vsc2VAMzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjIxCiAgICAvLyByZXR1cm4gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTUKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgYiBnZXRBY2Nlc3NHcmFudGVkQXRfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0QWNjZXNzR3JhbnRlZEF0QDQKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkucmVnaXN0ZXJQdWJsaWNLZXlbcm91dGluZ10oKSAtPiB2b2lkOgpyZWdpc3RlclB1YmxpY0tleToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI0CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2CiAgICAvLyBlbmNyeXB0aW9uS2V5cyA9IEJveE1hcDxzdHJpbmcsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdlaycgfSkKICAgIGJ5dGVjIDIwIC8vICJlayIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI2CiAgICAvLyB0aGlzLmVuY3J5cHRpb25LZXlzKFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKSkudmFsdWUgPSBwdWJsaWNLZXkKICAgIHR4biBTZW5kZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjYKICAgIC8vIGVuY3J5cHRpb25LZXlzID0gQm94TWFwPHN0cmluZywgc3RyaW5nPih7IGtleVByZWZpeDogJ2VrJyB9KQogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyNgogICAgLy8gdGhpcy5lbmNyeXB0aW9uS2V5cyhUeG4uc2VuZGVyLmJ5dGVzLnRvU3RyaW5nKCkpLnZhbHVlID0gcHVibGljS2V5CiAgICBkdXAKICAgIGJveF9kZWwKICAgIHBvcAogICAgc3dhcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMjQKICAgIC8vIEBhYmltZXRob2QoKQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRFbmNyeXB0aW9uS2V5W3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0RW5jcnlwdGlvbktleToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI5CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMyAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2CiAgICAvLyBlbmNyeXB0aW9uS2V5cyA9IEJveE1hcDxzdHJpbmcsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdlaycgfSkKICAgIGJ5dGVjIDIwIC8vICJlayIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzMQogICAgLy8gaWYgKHRoaXMuZW5jcnlwdGlvbktleXModXNlcikuZXhpc3RzKSB7CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGdldEVuY3J5cHRpb25LZXlfYWZ0ZXJfaWZfZWxzZUAzCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzMgogICAgLy8gcmV0dXJuIHRoaXMuZW5jcnlwdGlvbktleXModXNlcikudmFsdWUKICAgIGR1cAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKCmdldEVuY3J5cHRpb25LZXlfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RW5jcnlwdGlvbktleUA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMjkKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgZHVwCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGJ5dGVjXzAgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmdldEVuY3J5cHRpb25LZXlfYWZ0ZXJfaWZfZWxzZUAzOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMzQKICAgIC8vIHJldHVybiAnJwogICAgYnl0ZWNfMyAvLyAiIgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMjkKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgYiBnZXRFbmNyeXB0aW9uS2V5X2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEVuY3J5cHRpb25LZXlANAoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRGaWxlQ291bnRbcm91dGluZ10oKSAtPiB2b2lkOgpnZXRGaWxlQ291bnQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzOQogICAgLy8gcmV0dXJuIHRoaXMuZmlsZUNvdW50LnZhbHVlCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1CiAgICAvLyBmaWxlQ291bnQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDUgLy8gImZpbGVDb3VudCIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjM5CiAgICAvLyByZXR1cm4gdGhpcy5maWxlQ291bnQudmFsdWUKICAgIGFwcF9nbG9iYWxfZ2V0X2V4CiAgICBhc3NlcnQgLy8gY2hlY2sgR2xvYmFsU3RhdGUgZXhpc3RzCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzNwogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBpdG9iCiAgICBieXRlY18wIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCg==","clear":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYmFzZS1jb250cmFjdC5kLnRzOjpCYXNlQ29udHJhY3QuY2xlYXJTdGF0ZVByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBwdXNoaW50IDEgLy8gMQogICAgcmV0dXJuCg=="},"byteCode":{"approval":"CyAEAAEIAiYVBBUffHUCZm8CAAoAAmZkCWZpbGVDb3VudAJmYwJmdQJhaAJhZRJncm91cFJlZ2lzdHJ5QXBwSWQCZm4CZmcCZnQCYTECYTICYTMCYXACYWsCYXQCZWsxGEAACCcFImcnCiJnMRkURDEYQQCpghcEWX7AowTgXxFBBMrUjR0EgDOGcwTmG3bPBI1P9DIEvDJ+HwR3zvXpBCDCtwQEhR8fJgT4cwNhBOWLNO0EUooy/wSG9oWgBJmiHj8ER12/HASy5ODgBDz6YCQEzFphZgTkvZskBMBazp4EVSze8QTRrLQNNhoAjhcAIgD1AUABYgIAAkICZQKHAqoCxwLkAwEDHgNIA3IDnAQ5BIMEzQURBVUFcQWhAIAElzthbzYaAI4BAAEANhoBSRUkEkQXJwUiZycKTGcjQzYaAUkiWSUISwEVEkRXAgA2GgJJIlklCEsBFRJEVwIANhoDSRUkEkQXNhoESSJZJQhLARUSRFcCADYaBUkiWSUISwEVEkRXAgA2GgZJIlklCEsBFRJEVwIAIicFZUQjCCcFSwFnFicGSwFQSbxITwe/MQApSwJQSbxITL8nC0sBUEm8SE8GvycMSwFQTwUWvzIHJw1LAlBMFr8yBycHSwJQTBa/JwRLAVAiFr8nDksBUEm8SE8EvycPSwFQSbxITwO/JxBLAVBJvEhPAr8oTFCwI0M2GgFJFSQSRBc2GgJJIlklCEsBFRJEVwIATBYpSwFQSb1FAUS+SDEAEkQnBEsBUL5EFxREJwZLAVBJvEhPAr8yBycHTwJQTBa/I0M2GgFJFSQSRBcWKUsBUEm9RQFEvkgxABJEJwRMUCMWvyNDNhoBSRUkEkQXNhoCSSJZJQhLARUSRFcCADYaA0kiWSUISwEVEkRXAgA2GgRJIlklCEsBFRJEVwIANhoFSRUkEkQXTwQWKUsBUEm9RQFEvkgxABJEJwRLAVC+RBcUREsEFRZXBgJPBVBMKlBMUCcISwFQIxa/JxFLAVBJvEhPBL8nEksBUEm8SE8DvzIHJxNLAlBMFr8nCUxQTBa/I0M2GgFJFSQSRBc2GgJJIlklCEsBFRJEVwIATBYpSwFQSb1FAUS+SDEAEkRLARUWVwYCTwJQTCpQTFAnCExQIha/I0M2GgFJFSQSRBcWJwZMUEm9RQFEvkhJFRZXBgJMUChMULAjQzYaAUkVJBJEFxYpTFBJvUUBRL5ISRUWVwYCTFAoTFCwI0M2GgFJFSQSRBcWJwtMUEm9RQFEvkhJFRZXBgJMUChMULAjQzYaAUkVJBJEFxYnDExQSb1FAUS+SBcWKExQsCNDNhoBSRUkEkQXFicNTFBJvUUBRL5IFxYoTFCwI0M2GgFJFSQSRBcWJwdMUEm9RQFEvkgXFihMULAjQzYaAUkVJBJEFxYnBExQSb1FAUS+SBcWKExQsCNDNhoBSRUkEkQXFicOTFBJvUUBQQARSb5ESRUWVwYCTFAoTFCwI0MrQv/uNhoBSRUkEkQXFicPTFBJvUUBQQARSb5ESRUWVwYCTFAoTFCwI0MrQv/uNhoBSRUkEkQXFicQTFBJvUUBQQARSb5ESRUWVwYCTFAoTFCwI0MrQv/uIkkrNhoBSRUkEkQXNhoCSSJZJQhLARUSRFcCAEwWSSlMUEm9RQFAAA4igAEAIk8CVChMULAjQycESwJQvkQXIxJBAAQiQv/iSb5ESwMSQQAEI0L/1UsCSRUWVwYCTFBLAipQTFBJRQYnCExQSUUHvUUBQQAkSwW+RBcjEkEAGicJSwVQvkQXSUUFQQAISwMyBw1BAAQjQv+RIkL/jTYaAUkVJBJEFzYaAkkiWSUISwEVEkRXAgBMFksBFRZXBgJPAlBMKlBMUCcRTFBJvUUBQQARSb5ESRUWVwYCTFAoTFCwI0MrQv/uNhoBSRUkEkQXNhoCSSJZJQhLARUSRFcCAEwWSwEVFlcGAk8CUEwqUExQJxJMUEm9RQFBABFJvkRJFRZXBgJMUChMULAjQytC/+42GgFJFSQSRBc2GgJJIlklCEsBFRJEVwIATBZLARUWVwYCTwJQTCpQTFAnCUxQSb1FAUEAC0m+RBcWKExQsCNDIkL/9TYaAUkVJBJEFzYaAkkiWSUISwEVEkRXAgBMFksBFRZXBgJPAlBMKlBMUCcTTFBJvUUBQQALSb5EFxYoTFCwI0MiQv/1NhoBSSJZJQhLARUSRFcCACcUMQBQSbxITL8jQzYaAUkiWSUISwEVEkRXAgAnFExQSb1FAUEAEUm+REkVFlcGAkxQKExQsCNDK0L/7iInBWVEFihMULAjQw==","clear":"C4EBQw=="},"compilerInfo":{"compiler":"puya","compilerVersion":{"major":5,"minor":3,"patch":2}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+export const APP_SPEC: Arc56Contract = {"name":"FileRegistry","structs":{"FileRecord":[{"name":"owner","type":"address"},{"name":"cid","type":"string"},{"name":"name","type":"string"},{"name":"groupId","type":"uint64"},{"name":"createdAt","type":"uint64"},{"name":"updatedAt","type":"uint64"},{"name":"versionCount","type":"uint64"},{"name":"isDeleted","type":"bool"},{"name":"share1","type":"string"},{"name":"share2","type":"string"},{"name":"share3","type":"string"},{"name":"payer","type":"address"},{"name":"deposit","type":"uint64"}],"FileVersion":[{"name":"cid","type":"string"},{"name":"uploader","type":"address"},{"name":"createdAt","type":"uint64"},{"name":"deposit","type":"uint64"}],"AccessGrant":[{"name":"permission","type":"string"},{"name":"wrappedKey","type":"string"},{"name":"grantedAt","type":"uint64"},{"name":"expiresAt","type":"uint64"},{"name":"payer","type":"address"},{"name":"deposit","type":"uint64"}],"GrantKey":[{"name":"fileId","type":"uint64"},{"name":"user","type":"address"}],"ObjectDF87BBD0":[{"name":"fileId","type":"uint64"},{"name":"version","type":"uint64"}]},"methods":[{"name":"createApplication","args":[{"type":"uint64","name":"groupAppId"}],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"setGroupRegistry","args":[{"type":"uint64","name":"groupAppId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"registerFile","args":[{"type":"pay","name":"payment"},{"type":"string","name":"cid"},{"type":"string","name":"filename"},{"type":"uint64","name":"groupId"},{"type":"string","name":"share1"},{"type":"string","name":"share2"},{"type":"string","name":"share3"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"FileRegistered","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"owner"},{"type":"uint64","name":"groupId"},{"type":"string","name":"cid"}]}],"recommendations":{}},{"name":"updateFile","args":[{"type":"pay","name":"payment"},{"type":"uint64","name":"fileId"},{"type":"string","name":"newCid"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"FileUpdated","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"editor"},{"type":"uint64","name":"version"},{"type":"string","name":"cid"}]}],"recommendations":{}},{"name":"deleteFile","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"FileDeleted","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"owner"}]}],"recommendations":{}},{"name":"purgeVersion","args":[{"type":"uint64","name":"fileId"},{"type":"uint64","name":"version"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"grantAccess","args":[{"type":"pay","name":"payment"},{"type":"uint64","name":"fileId"},{"type":"address","name":"user"},{"type":"string","name":"permission"},{"type":"string","name":"wrappedKey"},{"type":"uint64","name":"expiresAt"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"AccessGranted","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"grantor"},{"type":"address","name":"user"},{"type":"string","name":"permission"},{"type":"uint64","name":"expiresAt"}]}],"recommendations":{}},{"name":"revokeAccess","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"user"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"AccessRevoked","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"owner"},{"type":"address","name":"user"}]}],"recommendations":{}},{"name":"getFileInfo","args":[{"type":"uint64","name":"fileId"}],"returns":{"type":"(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)","struct":"FileRecord"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getVersion","args":[{"type":"uint64","name":"fileId"},{"type":"uint64","name":"version"}],"returns":{"type":"(string,address,uint64,uint64)","struct":"FileVersion"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"hasValidAccess","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"canReleaseKeyShares","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getAccessGrant","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"user"}],"returns":{"type":"(string,string,uint64,uint64,address,uint64)","struct":"AccessGrant"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"registerPublicKey","args":[{"type":"pay","name":"payment"},{"type":"string","name":"publicKey"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"KeyRegistered","args":[{"type":"address","name":"user"},{"type":"string","name":"publicKey"}]}],"recommendations":{}},{"name":"getEncryptionKey","args":[{"type":"address","name":"user"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getFileCount","args":[],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"importFile","args":[{"type":"uint64","name":"fileId"},{"type":"(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)","struct":"FileRecord","name":"record"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"importVersion","args":[{"type":"uint64","name":"fileId"},{"type":"uint64","name":"version"},{"type":"(string,address,uint64,uint64)","struct":"FileVersion","name":"entry"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"importGrant","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"user"},{"type":"(string,string,uint64,uint64,address,uint64)","struct":"AccessGrant","name":"grant"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"importPublicKey","args":[{"type":"address","name":"user"},{"type":"string","name":"publicKey"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"finishImport","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":3,"bytes":0},"local":{"ints":0,"bytes":0}},"keys":{"global":{"fileCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"ZmlsZUNvdW50"},"groupRegistryAppId":{"keyType":"AVMString","valueType":"AVMUint64","key":"Z3JvdXBSZWdpc3RyeUFwcElk"},"importClosed":{"keyType":"AVMString","valueType":"AVMUint64","key":"aW1wb3J0Q2xvc2Vk"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"files":{"keyType":"uint64","valueType":"FileRecord","prefix":"ZnI="},"versions":{"keyType":"ObjectDF87BBD0","valueType":"FileVersion","prefix":"ZnY="},"grants":{"keyType":"GrantKey","valueType":"AccessGrant","prefix":"YWc="},"encryptionKeys":{"keyType":"address","valueType":"AVMString","prefix":"ZWs="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[{"pc":[2522,3132,3264,3456,3929,4031,4259],"errorMessage":"Box must have value"},{"pc":[4451],"errorMessage":"Bytes has valid prefix"},{"pc":[3485],"errorMessage":"File already exists"},{"pc":[3551,3608,3922],"errorMessage":"File does not exist"},{"pc":[1613,2637],"errorMessage":"File is deleted"},{"pc":[2479],"errorMessage":"File is not deleted"},{"pc":[4384],"errorMessage":"Import is closed"},{"pc":[3901],"errorMessage":"MBR payment must come from the caller"},{"pc":[3893],"errorMessage":"MBR payment must go to the app"},{"pc":[3909],"errorMessage":"MBR payment must match the box cost"},{"pc":[1942,3021],"errorMessage":"Not the owner"},{"pc":[2693],"errorMessage":"Not the owner or a resharer"},{"pc":[1597],"errorMessage":"Not the owner or a writer"},{"pc":[2546],"errorMessage":"Not the owner or the uploader"},{"pc":[99],"errorMessage":"OnCompletion must be NoOp"},{"pc":[3681],"errorMessage":"Only the creator can close the import"},{"pc":[4376],"errorMessage":"Only the creator can import"},{"pc":[1089],"errorMessage":"Only the creator can set the group registry"},{"pc":[2645],"errorMessage":"Unknown permission"},{"pc":[2703],"errorMessage":"User already has access"},{"pc":[2515,3125],"errorMessage":"Version does not exist"},{"pc":[1140,1618,1947,2551,2734,3368,3699,3771,4089,4251],"errorMessage":"account funded"},{"pc":[1149,1157,3467,3523,4381,4413,4476],"errorMessage":"check GlobalState exists"},{"pc":[310,326,351,367,383,429,515,531,737,818,835,852,869,886,935,984,1000,1028],"errorMessage":"invalid array length header"},{"pc":[4456],"errorMessage":"invalid number of bytes for arc4.bool"},{"pc":[317,333,358,374,390,436,522,538,744,1035],"errorMessage":"invalid number of bytes for arc4.dynamic_array<arc4.uint8>"},{"pc":[509,573,643,677,711,761,966,1022],"errorMessage":"invalid number of bytes for arc4.static_array<arc4.uint8, 32>"},{"pc":[894,943,1008],"errorMessage":"invalid number of bytes for arc4.tuple"},{"pc":[274,288,344,422,452,466,475,499,549,563,586,605,614,633,667,701,798,907,916,956],"errorMessage":"invalid number of bytes for arc4.uint64"},{"pc":[809,813,826,830,843,847,860,864,877,881,926,930,975,979,991,995],"errorMessage":"invalid tuple encoding"},{"pc":[304,414,491,731],"errorMessage":"transaction type is pay"}],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"source":{"approval":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYXJjNC9pbmRleC5kLnRzOjpDb250cmFjdC5hcHByb3ZhbFByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBpbnRjYmxvY2sgMCAxIDIgOCAzMiA3MyAzNCA3MQogICAgYnl0ZWNibG9jayAweCAiZnIiIDB4MDAwMDAwMDAwMDAwMDAwMCAiYWciIDB4MTUxZjdjNzUgMHgwMCAiZmlsZUNvdW50IiAiZnYiIDB4MDAwMCAiZ3JvdXBSZWdpc3RyeUFwcElkIiAiZWsiICJpbXBvcnRDbG9zZWQiCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgIQogICAgYnogbWFpbl9hZnRlcl9pZl9lbHNlQDIKICAgIGNhbGxzdWIgY29uc3RydWN0b3IKCm1haW5fYWZ0ZXJfaWZfZWxzZUAyOgogICAgdHhuIE9uQ29tcGxldGlvbgogICAgIQogICAgYXNzZXJ0IC8vIE9uQ29tcGxldGlvbiBtdXN0IGJlIE5vT3AKICAgIHR4biBBcHBsaWNhdGlvbklECiAgICBieiBtYWluX2NyZWF0ZV9Ob09wCiAgICBwdXNoYnl0ZXNzIDB4MTEwN2QzN2EgMHg3OTViNjBkZiAweDA3ZmJmMDcwIDB4Y2FkNDhkMWQgMHg5ZjU0ZmNmOSAweGQ0ZGI4OWY4IDB4ZGM5OTJhZTAgMHhiNmYyMmY0NiAweDM0MGZlNmJiIDB4OGNjNGVmMjggMHhkZmQ0MTViYSAweDQyNTQ2M2U4IDB4ZjMzYjc1ZmEgMHhiNmYzMzAzZCAweGQxYWNiNDBkIDB4YzBiZDY3MzUgMHgzYjNkY2ZkMyAweDU5OGRiOTk3IDB4ZTMyYTUyY2EgMHgzOTU2YTBjNCAvLyBtZXRob2QgInNldEdyb3VwUmVnaXN0cnkodWludDY0KXZvaWQiLCBtZXRob2QgInJlZ2lzdGVyRmlsZShwYXksc3RyaW5nLHN0cmluZyx1aW50NjQsc3RyaW5nLHN0cmluZyxzdHJpbmcpdWludDY0IiwgbWV0aG9kICJ1cGRhdGVGaWxlKHBheSx1aW50NjQsc3RyaW5nKXZvaWQiLCBtZXRob2QgImRlbGV0ZUZpbGUodWludDY0KXZvaWQiLCBtZXRob2QgInB1cmdlVmVyc2lvbih1aW50NjQsdWludDY0KXZvaWQiLCBtZXRob2QgImdyYW50QWNjZXNzKHBheSx1aW50NjQsYWRkcmVzcyxzdHJpbmcsc3RyaW5nLHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJyZXZva2VBY2Nlc3ModWludDY0LGFkZHJlc3Mpdm9pZCIsIG1ldGhvZCAiZ2V0RmlsZUluZm8odWludDY0KShhZGRyZXNzLHN0cmluZyxzdHJpbmcsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsc3RyaW5nLHN0cmluZyxzdHJpbmcsYWRkcmVzcyx1aW50NjQpIiwgbWV0aG9kICJnZXRWZXJzaW9uKHVpbnQ2NCx1aW50NjQpKHN0cmluZyxhZGRyZXNzLHVpbnQ2NCx1aW50NjQpIiwgbWV0aG9kICJoYXNWYWxpZEFjY2Vzcyh1aW50NjQsYWRkcmVzcylib29sIiwgbWV0aG9kICJjYW5SZWxlYXNlS2V5U2hhcmVzKHVpbnQ2NCxhZGRyZXNzKWJvb2wiLCBtZXRob2QgImdldEFjY2Vzc0dyYW50KHVpbnQ2NCxhZGRyZXNzKShzdHJpbmcsc3RyaW5nLHVpbnQ2NCx1aW50NjQsYWRkcmVzcyx1aW50NjQpIiwgbWV0aG9kICJyZWdpc3RlclB1YmxpY0tleShwYXksc3RyaW5nKXZvaWQiLCBtZXRob2QgImdldEVuY3J5cHRpb25LZXkoYWRkcmVzcylzdHJpbmciLCBtZXRob2QgImdldEZpbGVDb3VudCgpdWludDY0IiwgbWV0aG9kICJpbXBvcnRGaWxlKHVpbnQ2NCwoYWRkcmVzcyxzdHJpbmcsc3RyaW5nLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHN0cmluZyxzdHJpbmcsc3RyaW5nLGFkZHJlc3MsdWludDY0KSl2b2lkIiwgbWV0aG9kICJpbXBvcnRWZXJzaW9uKHVpbnQ2NCx1aW50NjQsKHN0cmluZyxhZGRyZXNzLHVpbnQ2NCx1aW50NjQpKXZvaWQiLCBtZXRob2QgImltcG9ydEdyYW50KHVpbnQ2NCxhZGRyZXNzLChzdHJpbmcsc3RyaW5nLHVpbnQ2NCx1aW50NjQsYWRkcmVzcyx1aW50NjQpKXZvaWQiLCBtZXRob2QgImltcG9ydFB1YmxpY0tleShhZGRyZXNzLHN0cmluZyl2b2lkIiwgbWV0aG9kICJmaW5pc2hJbXBvcnQoKXZvaWQiCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAwCiAgICBtYXRjaCBzZXRHcm91cFJlZ2lzdHJ5X3JvdXRlIHJlZ2lzdGVyRmlsZV9yb3V0ZSB1cGRhdGVGaWxlX3JvdXRlIGRlbGV0ZUZpbGVfcm91dGUgcHVyZ2VWZXJzaW9uX3JvdXRlIGdyYW50QWNjZXNzX3JvdXRlIHJldm9rZUFjY2Vzc19yb3V0ZSBnZXRGaWxlSW5mb19yb3V0ZSBnZXRWZXJzaW9uX3JvdXRlIGhhc1ZhbGlkQWNjZXNzX3JvdXRlIGNhblJlbGVhc2VLZXlTaGFyZXNfcm91dGUgZ2V0QWNjZXNzR3JhbnRfcm91dGUgcmVnaXN0ZXJQdWJsaWNLZXlfcm91dGUgZ2V0RW5jcnlwdGlvbktleV9yb3V0ZSBnZXRGaWxlQ291bnRfcm91dGUgaW1wb3J0RmlsZV9yb3V0ZSBpbXBvcnRWZXJzaW9uX3JvdXRlIGltcG9ydEdyYW50X3JvdXRlIGltcG9ydFB1YmxpY0tleV9yb3V0ZSBmaW5pc2hJbXBvcnRfcm91dGUKICAgIGVycgoKbWFpbl9jcmVhdGVfTm9PcDoKICAgIHB1c2hieXRlcyAweDk3M2I2MTZmIC8vIG1ldGhvZCAiY3JlYXRlQXBwbGljYXRpb24odWludDY0KXZvaWQiCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAwCiAgICBtYXRjaCBjcmVhdGVBcHBsaWNhdGlvbl9yb3V0ZQogICAgZXJyCgpjcmVhdGVBcHBsaWNhdGlvbl9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjkKICAgIC8vIEBhYmltZXRob2QoeyBvbkNyZWF0ZTogJ3JlcXVpcmUnIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICBjYWxsc3ViIGNyZWF0ZUFwcGxpY2F0aW9uCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpzZXRHcm91cFJlZ2lzdHJ5X3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3NgogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICBjYWxsc3ViIHNldEdyb3VwUmVnaXN0cnkKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCnJlZ2lzdGVyRmlsZV9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTExCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4biBHcm91cEluZGV4CiAgICBpbnRjXzEgLy8gMQogICAgLQogICAgZHVwCiAgICBndHhucyBUeXBlRW51bQogICAgaW50Y18xIC8vIDEKICAgID09CiAgICBhc3NlcnQgLy8gdHJhbnNhY3Rpb24gdHlwZSBpcyBwYXkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18yIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDUKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyA2CiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgY2FsbHN1YiByZWdpc3RlckZpbGUKICAgIGl0b2IKICAgIGJ5dGVjIDQgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCnVwZGF0ZUZpbGVfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIxMAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG4gR3JvdXBJbmRleAogICAgaW50Y18xIC8vIDEKICAgIC0KICAgIGR1cAogICAgZ3R4bnMgVHlwZUVudW0KICAgIGludGNfMSAvLyAxCiAgICA9PQogICAgYXNzZXJ0IC8vIHRyYW5zYWN0aW9uIHR5cGUgaXMgcGF5CiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgY2FsbHN1YiB1cGRhdGVGaWxlCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpkZWxldGVGaWxlX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMzYKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgY2FsbHN1YiBkZWxldGVGaWxlCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpwdXJnZVZlcnNpb25fcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2MgogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICBjYWxsc3ViIHB1cmdlVmVyc2lvbgogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ3JhbnRBY2Nlc3Nfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI4OAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG4gR3JvdXBJbmRleAogICAgaW50Y18xIC8vIDEKICAgIC0KICAgIGR1cAogICAgZ3R4bnMgVHlwZUVudW0KICAgIGludGNfMSAvLyAxCiAgICA9PQogICAgYXNzZXJ0IC8vIHRyYW5zYWN0aW9uIHR5cGUgaXMgcGF5CiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGxlbgogICAgaW50YyA0IC8vIDMyCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnN0YXRpY19hcnJheTxhcmM0LnVpbnQ4LCAzMj4KICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDMKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyA0CiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgY2FsbHN1YiBncmFudEFjY2VzcwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKcmV2b2tlQWNjZXNzX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMzQKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGMgNCAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIHJldm9rZUFjY2VzcwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0RmlsZUluZm9fcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM0MQogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICBjYWxsc3ViIGdldEZpbGVJbmZvCiAgICBieXRlYyA0IC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpnZXRWZXJzaW9uX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNDYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgY2FsbHN1YiBnZXRWZXJzaW9uCiAgICBieXRlYyA0IC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpoYXNWYWxpZEFjY2Vzc19yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzY0CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjIDQgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgY2FsbHN1YiBoYXNWYWxpZEFjY2VzcwogICAgYnl0ZWMgNSAvLyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGJ5dGVjIDQgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmNhblJlbGVhc2VLZXlTaGFyZXNfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM3MAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGxlbgogICAgaW50YyA0IC8vIDMyCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnN0YXRpY19hcnJheTxhcmM0LnVpbnQ4LCAzMj4KICAgIGNhbGxzdWIgY2FuUmVsZWFzZUtleVNoYXJlcwogICAgYnl0ZWMgNSAvLyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGJ5dGVjIDQgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmdldEFjY2Vzc0dyYW50X3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNzYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGMgNCAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIGdldEFjY2Vzc0dyYW50CiAgICBieXRlYyA0IC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpyZWdpc3RlclB1YmxpY0tleV9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mzk0CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4biBHcm91cEluZGV4CiAgICBpbnRjXzEgLy8gMQogICAgLQogICAgZHVwCiAgICBndHhucyBUeXBlRW51bQogICAgaW50Y18xIC8vIDEKICAgID09CiAgICBhc3NlcnQgLy8gdHJhbnNhY3Rpb24gdHlwZSBpcyBwYXkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICBjYWxsc3ViIHJlZ2lzdGVyUHVibGljS2V5CiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpnZXRFbmNyeXB0aW9uS2V5X3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MDIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGMgNCAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIGdldEVuY3J5cHRpb25LZXkKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBieXRlYyA0IC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpnZXRGaWxlQ291bnRfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQxMAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBjYWxsc3ViIGdldEZpbGVDb3VudAogICAgaXRvYgogICAgYnl0ZWMgNCAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKaW1wb3J0RmlsZV9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDIzCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIHB1c2hpbnQgMTE1IC8vIDExNQogICAgZGlnIDEKICAgIGludGMgNCAvLyAzMgogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgdHVwbGUgZW5jb2RpbmcKICAgIGRpZyAxCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgdHVwbGUgZW5jb2RpbmcKICAgIGRpZyAxCiAgICBkaWcgMQogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18yIC8vIDIKICAgICsKICAgICsKICAgIGRpZyAxCiAgICBpbnRjIDYgLy8gMzQKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIHR1cGxlIGVuY29kaW5nCiAgICBkaWcgMQogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIHR1cGxlIGVuY29kaW5nCiAgICBkaWcgMQogICAgZGlnIDEKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICArCiAgICBkaWcgMQogICAgcHVzaGludCA2OSAvLyA2OQogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgdHVwbGUgZW5jb2RpbmcKICAgIGRpZyAxCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgdHVwbGUgZW5jb2RpbmcKICAgIGRpZyAxCiAgICBkaWcgMQogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18yIC8vIDIKICAgICsKICAgICsKICAgIGRpZyAxCiAgICBpbnRjIDcgLy8gNzEKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIHR1cGxlIGVuY29kaW5nCiAgICBkaWcgMQogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIHR1cGxlIGVuY29kaW5nCiAgICBkaWcgMQogICAgZGlnIDEKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICArCiAgICBkaWcgMQogICAgaW50YyA1IC8vIDczCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgIGRpZyAxCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC50dXBsZQogICAgY2FsbHN1YiBpbXBvcnRGaWxlCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgppbXBvcnRWZXJzaW9uX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MzQKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgcHVzaGludCA1MCAvLyA1MAogICAgZGlnIDEKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgIGRpZyAxCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC50dXBsZQogICAgY2FsbHN1YiBpbXBvcnRWZXJzaW9uCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgppbXBvcnRHcmFudF9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDQzCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjIDQgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgcHVzaGludCA2MCAvLyA2MAogICAgZGlnIDEKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgIGRpZyAxCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgKwogICAgZGlnIDEKICAgIGludGNfMiAvLyAyCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCB0dXBsZSBlbmNvZGluZwogICAgZGlnIDEKICAgIGRpZyAxCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC50dXBsZQogICAgY2FsbHN1YiBpbXBvcnRHcmFudAogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKaW1wb3J0UHVibGljS2V5X3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NTMKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGMgNCAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgY2FsbHN1YiBpbXBvcnRQdWJsaWNLZXkKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmZpbmlzaEltcG9ydF9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDU5CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIGNhbGxzdWIgZmluaXNoSW1wb3J0CiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmNvbnN0cnVjdG9yKCkgLT4gdm9pZDoKY29uc3RydWN0b3I6CiAgICBwcm90byAwIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NTUKICAgIC8vIGV4cG9ydCBjbGFzcyBGaWxlUmVnaXN0cnkgZXh0ZW5kcyBDb250cmFjdCB7CiAgICBjYWxsc3ViIEJhc2VDb250cmFjdC5jb25zdHJ1Y3RvcgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1NgogICAgLy8gZmlsZUNvdW50ID0gR2xvYmFsU3RhdGU8dWludDY0Pih7IGluaXRpYWxWYWx1ZTogVWludDY0KDApIH0pCiAgICBieXRlYyA2IC8vICJmaWxlQ291bnQiCiAgICBpbnRjXzAgLy8gMAogICAgYXBwX2dsb2JhbF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NTcKICAgIC8vIGdyb3VwUmVnaXN0cnlBcHBJZCA9IEdsb2JhbFN0YXRlPHVpbnQ2ND4oeyBpbml0aWFsVmFsdWU6IFVpbnQ2NCgwKSB9KQogICAgYnl0ZWMgOSAvLyAiZ3JvdXBSZWdpc3RyeUFwcElkIgogICAgaW50Y18wIC8vIDAKICAgIGFwcF9nbG9iYWxfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjYwCiAgICAvLyBpbXBvcnRDbG9zZWQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDExIC8vICJpbXBvcnRDbG9zZWQiCiAgICBpbnRjXzAgLy8gMAogICAgYXBwX2dsb2JhbF9wdXQKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5jcmVhdGVBcHBsaWNhdGlvbihncm91cEFwcElkOiB1aW50NjQpIC0+IHZvaWQ6CmNyZWF0ZUFwcGxpY2F0aW9uOgogICAgcHJvdG8gMSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY5CiAgICAvLyBAYWJpbWV0aG9kKHsgb25DcmVhdGU6ICdyZXF1aXJlJyB9KQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3MQogICAgLy8gdGhpcy5maWxlQ291bnQudmFsdWUgPSBVaW50NjQoMCkKICAgIGJ5dGVjIDYgLy8gImZpbGVDb3VudCIKICAgIGludGNfMCAvLyAwCiAgICBhcHBfZ2xvYmFsX3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3MgogICAgLy8gdGhpcy5ncm91cFJlZ2lzdHJ5QXBwSWQudmFsdWUgPSBncm91cEFwcElkCiAgICBieXRlYyA5IC8vICJncm91cFJlZ2lzdHJ5QXBwSWQiCiAgICBmcmFtZV9kaWcgLTEKICAgIGFwcF9nbG9iYWxfcHV0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuc2V0R3JvdXBSZWdpc3RyeShncm91cEFwcElkOiB1aW50NjQpIC0+IHZvaWQ6CnNldEdyb3VwUmVnaXN0cnk6CiAgICBwcm90byAxIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzYKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3OAogICAgLy8gYXNzZXJ0KFR4bi5zZW5kZXIgPT09IEdsb2JhbC5jcmVhdG9yQWRkcmVzcywgJ09ubHkgdGhlIGNyZWF0b3IgY2FuIHNldCB0aGUgZ3JvdXAgcmVnaXN0cnknKQogICAgdHhuIFNlbmRlcgogICAgZ2xvYmFsIENyZWF0b3JBZGRyZXNzCiAgICA9PQogICAgYXNzZXJ0IC8vIE9ubHkgdGhlIGNyZWF0b3IgY2FuIHNldCB0aGUgZ3JvdXAgcmVnaXN0cnkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzkKICAgIC8vIHRoaXMuZ3JvdXBSZWdpc3RyeUFwcElkLnZhbHVlID0gZ3JvdXBBcHBJZAogICAgYnl0ZWMgOSAvLyAiZ3JvdXBSZWdpc3RyeUFwcElkIgogICAgZnJhbWVfZGlnIC0xCiAgICBhcHBfZ2xvYmFsX3B1dAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LnJlZ2lzdGVyRmlsZShwYXltZW50OiB1aW50NjQsIGNpZDogYnl0ZXMsIGZpbGVuYW1lOiBieXRlcywgZ3JvdXBJZDogdWludDY0LCBzaGFyZTE6IGJ5dGVzLCBzaGFyZTI6IGJ5dGVzLCBzaGFyZTM6IGJ5dGVzKSAtPiB1aW50NjQ6CnJlZ2lzdGVyRmlsZToKICAgIHByb3RvIDcgMQogICAgaW50Y18wIC8vIDAKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTExCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTIxCiAgICAvLyBjb25zdCBtaW5CYWxhbmNlQmVmb3JlOiB1aW50NjQgPSBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcy5taW5CYWxhbmNlCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCiAgICBhc3NlcnQgLy8gYWNjb3VudCBmdW5kZWQKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjIKICAgIC8vIHRoaXMuZmlsZUNvdW50LnZhbHVlID0gdGhpcy5maWxlQ291bnQudmFsdWUgKyBVaW50NjQoMSkKICAgIGJ5dGVjIDYgLy8gImZpbGVDb3VudCIKICAgIGludGNfMCAvLyAwCiAgICBieXRlYyA2IC8vICJmaWxlQ291bnQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgaW50Y18xIC8vIDEKICAgICsKICAgIGFwcF9nbG9iYWxfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyMwogICAgLy8gY29uc3QgZmlsZUlkOiB1aW50NjQgPSB0aGlzLmZpbGVDb3VudC52YWx1ZQogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjIDYgLy8gImZpbGVDb3VudCIKICAgIGFwcF9nbG9iYWxfZ2V0X2V4CiAgICBhc3NlcnQgLy8gY2hlY2sgR2xvYmFsU3RhdGUgZXhpc3RzCiAgICBmcmFtZV9idXJ5IDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTI1CiAgICAvLyBjb25zdCByZWNvcmQgPSBuZXcgRmlsZVJlY29yZCh7CiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9kaWcgLTYKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgLTUKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgLTQKICAgIGl0b2IKICAgIGdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKICAgIGl0b2IKICAgIGdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKICAgIGl0b2IKICAgIHB1c2hieXRlcyAweDAwMDAwMDAwMDAwMDAwMDEKICAgIGJ5dGVjIDUgLy8gMHgwMAogICAgZnJhbWVfZGlnIC0zCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIC0yCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIC0xCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgdHhuIFNlbmRlcgogICAgYnl0ZWNfMiAvLyAweDAwMDAwMDAwMDAwMDAwMDAKICAgIGZyYW1lX2J1cnkgMTQKICAgIGZyYW1lX2J1cnkgMTMKICAgIGZyYW1lX2J1cnkgMTIKICAgIGZyYW1lX2J1cnkgMTEKICAgIGZyYW1lX2J1cnkgMTAKICAgIGZyYW1lX2J1cnkgOQogICAgZnJhbWVfYnVyeSA4CiAgICBmcmFtZV9idXJ5IDcKICAgIGZyYW1lX2J1cnkgNgogICAgZnJhbWVfYnVyeSA1CiAgICBmcmFtZV9idXJ5IDQKICAgIGZyYW1lX2J1cnkgMwogICAgZnJhbWVfYnVyeSAyCiAgICBmcmFtZV9kaWcgMgogICAgZnJhbWVfYnVyeSAxNQogICAgZnJhbWVfZGlnIDMKICAgIGZyYW1lX2J1cnkgMTYKICAgIGZyYW1lX2RpZyA0CiAgICBmcmFtZV9idXJ5IDE3CiAgICBmcmFtZV9kaWcgNQogICAgZnJhbWVfYnVyeSAxOAogICAgZnJhbWVfZGlnIDYKICAgIGZyYW1lX2J1cnkgMTkKICAgIGZyYW1lX2RpZyA3CiAgICBmcmFtZV9idXJ5IDIwCiAgICBmcmFtZV9kaWcgOAogICAgZnJhbWVfYnVyeSAyMQogICAgZnJhbWVfZGlnIDkKICAgIGludGNfMCAvLyAwCiAgICBnZXRiaXQKICAgIGZyYW1lX2J1cnkgMjIKICAgIGZyYW1lX2RpZyAxMAogICAgZnJhbWVfYnVyeSAyMwogICAgZnJhbWVfZGlnIDExCiAgICBmcmFtZV9idXJ5IDI0CiAgICBmcmFtZV9kaWcgMTIKICAgIGZyYW1lX2J1cnkgMjUKICAgIGZyYW1lX2RpZyAxMwogICAgZnJhbWVfYnVyeSAyNgogICAgZnJhbWVfZGlnIDE0CiAgICBmcmFtZV9idXJ5IDI3CiAgICBieXRlY18wIC8vIDB4CiAgICBwdXNoaW50IDExNSAvLyAxMTUKICAgIGZyYW1lX2J1cnkgMjgKICAgIGZyYW1lX2RpZyAxNQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjgKICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyOAogICAgZnJhbWVfZGlnIDE2CiAgICBsZW4KICAgICsKICAgIGZyYW1lX2J1cnkgMjgKICAgIGZyYW1lX2RpZyAyOAogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDI4CiAgICBmcmFtZV9kaWcgMTcKICAgIGxlbgogICAgKwogICAgZnJhbWVfYnVyeSAyOAogICAgZnJhbWVfZGlnIDE4CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxOQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjAKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDIxCiAgICBjb25jYXQKICAgIGJ5dGVjIDUgLy8gMHgwMAogICAgaW50Y18wIC8vIDAKICAgIGZyYW1lX2RpZyAyMgogICAgc2V0Yml0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyOAogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDI4CiAgICBmcmFtZV9kaWcgMjMKICAgIGxlbgogICAgKwogICAgZnJhbWVfYnVyeSAyOAogICAgZnJhbWVfZGlnIDI4CiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjgKICAgIGZyYW1lX2RpZyAyNAogICAgbGVuCiAgICArCiAgICBmcmFtZV9idXJ5IDI4CiAgICBmcmFtZV9kaWcgMjgKICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyNgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjcKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE2CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxNwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjMKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDI0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyNQogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDI5CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0MAogICAgLy8gdGhpcy5maWxlcyhmaWxlSWQpLnZhbHVlID0gY2xvbmUocmVjb3JkKQogICAgYnl0ZWNfMSAvLyAiZnIiCiAgICBmcmFtZV9kaWcgMQogICAgaXRvYgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjkKICAgIGRpZyAxCiAgICBib3hfZGVsCiAgICBwb3AKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQyCiAgICAvLyBjb25zdCByZWNvcmRDb3N0ID0gdGhpcy5tYnJJbmNyZWFzZShtaW5CYWxhbmNlQmVmb3JlKQogICAgZnJhbWVfZGlnIDAKICAgIGNhbGxzdWIgbWJySW5jcmVhc2UKICAgIGZyYW1lX2J1cnkgMzAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQzCiAgICAvLyByZWNvcmQuZGVwb3NpdCA9IG5ldyBhcmM0LlVpbnQ2NChyZWNvcmRDb3N0KQogICAgZnJhbWVfZGlnIDI5CiAgICBmcmFtZV9kaWcgMzAKICAgIGl0b2IKICAgIHJlcGxhY2UyIDEwNwogICAgZnJhbWVfYnVyeSAyOQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDQKICAgIC8vIHRoaXMuZmlsZXMoZmlsZUlkKS52YWx1ZSA9IGNsb25lKHJlY29yZCkKICAgIGJ5dGVjXzEgLy8gImZyIgogICAgZnJhbWVfZGlnIDEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDI5CiAgICBkaWcgMQogICAgYm94X2RlbAogICAgcG9wCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0NgogICAgLy8gY29uc3QgdmVyc2lvbkNvc3QgPSB0aGlzLnB1dFZlcnNpb24oZmlsZUlkLCBVaW50NjQoMSksIGNpZCkKICAgIGZyYW1lX2RpZyAxCiAgICBpbnRjXzEgLy8gMQogICAgZnJhbWVfZGlnIC02CiAgICBjYWxsc3ViIHB1dFZlcnNpb24KICAgIGZyYW1lX2J1cnkgMzEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQ3CiAgICAvLyB0aGlzLmNvbGxlY3RNYnIocGF5bWVudCwgcmVjb3JkQ29zdCArIHZlcnNpb25Db3N0KQogICAgZnJhbWVfZGlnIC03CiAgICBmcmFtZV9kaWcgMzAKICAgIGZyYW1lX2RpZyAzMQogICAgKwogICAgY2FsbHN1YiBjb2xsZWN0TWJyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0OAogICAgLy8gZW1pdDxGaWxlUmVnaXN0ZXJlZD4oeyBmaWxlSWQ6IGZpbGVJZCwgb3duZXI6IFR4bi5zZW5kZXIsIGdyb3VwSWQ6IGdyb3VwSWQsIGNpZDogY2lkIH0pCiAgICBwdXNoYnl0ZXMgMHhhMzRmMThiMyAvLyBtZXRob2QgIkZpbGVSZWdpc3RlcmVkKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCxzdHJpbmcpIgogICAgZnJhbWVfZGlnIDEKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMzIKICAgIHR4biBTZW5kZXIKICAgIGZyYW1lX2J1cnkgMzMKICAgIGZyYW1lX2RpZyAtNAogICAgaXRvYgogICAgZnJhbWVfYnVyeSAzNAogICAgZnJhbWVfZGlnIC02CiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSAzNQogICAgYnl0ZWNfMCAvLyAweAogICAgcHVzaGludCA1MCAvLyA1MAogICAgZnJhbWVfYnVyeSAzNgogICAgZnJhbWVfZGlnIDMyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzMwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMzQKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDM2CiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMzUKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBsb2cKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTUwCiAgICAvLyByZXR1cm4gZmlsZUlkCiAgICBmcmFtZV9kaWcgMQogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LnVwZGF0ZUZpbGUocGF5bWVudDogdWludDY0LCBmaWxlSWQ6IHVpbnQ2NCwgbmV3Q2lkOiBieXRlcykgLT4gdm9pZDoKdXBkYXRlRmlsZToKICAgIHByb3RvIDMgMAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIGludGNfMCAvLyAwCiAgICBpbnRjXzAgLy8gMAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIxMAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIxMgogICAgLy8gY29uc3QgcmVjb3JkID0gdGhpcy5nZXRGaWxlKGZpbGVJZCkKICAgIGZyYW1lX2RpZyAtMgogICAgY2FsbHN1YiBnZXRGaWxlCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjEzCiAgICAvLyBhc3NlcnQoCiAgICBmcmFtZV9kaWcgMAogICAgZXh0cmFjdCAwIDMyCiAgICB0eG4gU2VuZGVyCiAgICA9PQogICAgZHVwCiAgICBibnogdXBkYXRlRmlsZV9ib29sX21lcmdlQDEKICAgIHBvcAogICAgZnJhbWVfZGlnIC0yCiAgICB0eG4gU2VuZGVyCiAgICBjYWxsc3ViIGdyYW50TGV2ZWwKICAgIHB1c2hpbnQgMyAvLyAzCiAgICA+PQoKdXBkYXRlRmlsZV9ib29sX21lcmdlQDE6CiAgICBhc3NlcnQgLy8gTm90IHRoZSBvd25lciBvciBhIHdyaXRlcgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTcKICAgIC8vIGFzc2VydCghcmVjb3JkLmlzRGVsZXRlZC5uYXRpdmUsICdGaWxlIGlzIGRlbGV0ZWQnKQogICAgZnJhbWVfZGlnIDAKICAgIHB1c2hpbnQgNTQ0IC8vIDU0NAogICAgZ2V0Yml0CiAgICBieXRlYyA1IC8vIDB4MDAKICAgIGludGNfMCAvLyAwCiAgICB1bmNvdmVyIDIKICAgIHNldGJpdAogICAgaW50Y18wIC8vIDAKICAgIGdldGJpdAogICAgIQogICAgYXNzZXJ0IC8vIEZpbGUgaXMgZGVsZXRlZAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTkKICAgIC8vIGNvbnN0IG1pbkJhbGFuY2VCZWZvcmU6IHVpbnQ2NCA9IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLm1pbkJhbGFuY2UKICAgIGdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCiAgICBhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKICAgIGFzc2VydCAvLyBhY2NvdW50IGZ1bmRlZAogICAgZnJhbWVfYnVyeSAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyMAogICAgLy8gY29uc3QgdmVyc2lvbjogdWludDY0ID0gcmVjb3JkLnZlcnNpb25Db3VudC5hc1VpbnQ2NCgpICsgVWludDY0KDEpCiAgICBmcmFtZV9kaWcgMAogICAgZXh0cmFjdCA2MCA4CiAgICBidG9pCiAgICBpbnRjXzEgLy8gMQogICAgKwogICAgZnJhbWVfYnVyeSAyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyMQogICAgLy8gcmVjb3JkLmNpZCA9IG5ldyBhcmM0LlN0cihuZXdDaWQpCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0xCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZGlnIDEKICAgIGludGMgNCAvLyAzMgogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICBpbnRjIDYgLy8gMzQKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMwogICAgZGlnIDEKICAgIGRpZyA1CiAgICBsZW4KICAgIHN1YnN0cmluZzMKICAgIHN3YXAKICAgIGRpZyAyCiAgICAtCiAgICBkaWcgMwogICAgbGVuCiAgICBjb3ZlciA1CiAgICBjb3ZlciA1CiAgICB1bmNvdmVyIDMKICAgIGludGNfMCAvLyAwCiAgICB1bmNvdmVyIDMKICAgIHN1YnN0cmluZzMKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGR1cAogICAgaW50YyA2IC8vIDM0CiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDIKICAgICsKICAgIGRpZyAzCiAgICAtCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgcmVwbGFjZTIgMzQKICAgIGR1cAogICAgcHVzaGludCA2OSAvLyA2OQogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICArCiAgICBkaWcgMwogICAgLQogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHJlcGxhY2UyIDY5CiAgICBkdXAKICAgIGludGMgNyAvLyA3MQogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICArCiAgICBkaWcgMwogICAgLQogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHJlcGxhY2UyIDcxCiAgICBkdXAKICAgIGludGMgNSAvLyA3MwogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICArCiAgICBkaWcgMwogICAgLQogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHJlcGxhY2UyIDczCiAgICBjb3ZlciAyCiAgICBwb3AKICAgIHBvcAogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyMgogICAgLy8gcmVjb3JkLnVwZGF0ZWRBdCA9IG5ldyBhcmM0LlVpbnQ2NChHbG9iYWwubGF0ZXN0VGltZXN0YW1wKQogICAgZnJhbWVfZGlnIDAKICAgIGdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKICAgIGl0b2IKICAgIHJlcGxhY2UyIDUyCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjIzCiAgICAvLyByZWNvcmQudmVyc2lvbkNvdW50ID0gbmV3IGFyYzQuVWludDY0KHZlcnNpb24pCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIDIKICAgIGl0b2IKICAgIHJlcGxhY2UyIDYwCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI0CiAgICAvLyB0aGlzLmZpbGVzKGZpbGVJZCkudmFsdWUgPSBjbG9uZShyZWNvcmQpCiAgICBieXRlY18xIC8vICJmciIKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMAogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMjUKICAgIC8vIGNvbnN0IGdyb3d0aCA9IHRoaXMubWJySW5jcmVhc2UobWluQmFsYW5jZUJlZm9yZSkKICAgIGZyYW1lX2RpZyAxCiAgICBjYWxsc3ViIG1ickluY3JlYXNlCiAgICBmcmFtZV9idXJ5IDMKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI2CiAgICAvLyBpZiAocmVjb3JkLnBheWVyLm5hdGl2ZSA9PT0gVHhuLnNlbmRlciAmJiBncm93dGggPiBVaW50NjQoMCkpIHsKICAgIGZyYW1lX2RpZyAwCiAgICBleHRyYWN0IDc1IDMyCiAgICB0eG4gU2VuZGVyCiAgICA9PQogICAgZHVwCiAgICBieiB1cGRhdGVGaWxlX2Jvb2xfbWVyZ2VANAogICAgcG9wCiAgICBmcmFtZV9kaWcgMwogICAgaW50Y18wIC8vIDAKICAgID4KCnVwZGF0ZUZpbGVfYm9vbF9tZXJnZUA0OgogICAgYnogdXBkYXRlRmlsZV9hZnRlcl9pZl9lbHNlQDMKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI3CiAgICAvLyByZWNvcmQuZGVwb3NpdCA9IG5ldyBhcmM0LlVpbnQ2NChyZWNvcmQuZGVwb3NpdC5hc1VpbnQ2NCgpICsgZ3Jvd3RoKQogICAgZnJhbWVfZGlnIDAKICAgIGZyYW1lX2RpZyAwCiAgICBleHRyYWN0IDEwNyA4CiAgICBidG9pCiAgICBmcmFtZV9kaWcgMwogICAgKwogICAgaXRvYgogICAgcmVwbGFjZTIgMTA3CiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI4CiAgICAvLyB0aGlzLmZpbGVzKGZpbGVJZCkudmFsdWUgPSBjbG9uZShyZWNvcmQpCiAgICBieXRlY18xIC8vICJmciIKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMAogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAoKdXBkYXRlRmlsZV9hZnRlcl9pZl9lbHNlQDM6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzMQogICAgLy8gY29uc3QgdmVyc2lvbkNvc3QgPSB0aGlzLnB1dFZlcnNpb24oZmlsZUlkLCB2ZXJzaW9uLCBuZXdDaWQpCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAyCiAgICBmcmFtZV9kaWcgLTEKICAgIGNhbGxzdWIgcHV0VmVyc2lvbgogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzMgogICAgLy8gdGhpcy5jb2xsZWN0TWJyKHBheW1lbnQsIGdyb3d0aCArIHZlcnNpb25Db3N0KQogICAgZnJhbWVfZGlnIC0zCiAgICBmcmFtZV9kaWcgMwogICAgZnJhbWVfZGlnIDQKICAgICsKICAgIGNhbGxzdWIgY29sbGVjdE1icgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMzMKICAgIC8vIGVtaXQ8RmlsZVVwZGF0ZWQ+KHsgZmlsZUlkOiBmaWxlSWQsIGVkaXRvcjogVHhuLnNlbmRlciwgdmVyc2lvbjogdmVyc2lvbiwgY2lkOiBuZXdDaWQgfSkKICAgIHB1c2hieXRlcyAweDMxMDg3ZThmIC8vIG1ldGhvZCAiRmlsZVVwZGF0ZWQodWludDY0LGFkZHJlc3MsdWludDY0LHN0cmluZykiCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNQogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSA2CiAgICBmcmFtZV9kaWcgMgogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgLTEKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIHB1c2hpbnQgNTAgLy8gNTAKICAgIGZyYW1lX2J1cnkgOQogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDcKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDkKICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgbG9nCiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZGVsZXRlRmlsZShmaWxlSWQ6IHVpbnQ2NCkgLT4gdm9pZDoKZGVsZXRlRmlsZToKICAgIHByb3RvIDEgMAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzNgogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzOAogICAgLy8gY29uc3QgcmVjb3JkID0gdGhpcy5nZXRGaWxlKGZpbGVJZCkKICAgIGZyYW1lX2RpZyAtMQogICAgY2FsbHN1YiBnZXRGaWxlCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjM5CiAgICAvLyBhc3NlcnQocmVjb3JkLm93bmVyLm5hdGl2ZSA9PT0gVHhuLnNlbmRlciwgJ05vdCB0aGUgb3duZXInKQogICAgZnJhbWVfZGlnIDAKICAgIGV4dHJhY3QgMCAzMgogICAgdHhuIFNlbmRlcgogICAgPT0KICAgIGFzc2VydCAvLyBOb3QgdGhlIG93bmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI0NAogICAgLy8gY29uc3QgbWluQmFsYW5jZUJlZm9yZTogdWludDY0ID0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MubWluQmFsYW5jZQogICAgZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKICAgIGFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQogICAgYXNzZXJ0IC8vIGFjY291bnQgZnVuZGVkCiAgICBmcmFtZV9idXJ5IDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQ1CiAgICAvLyBjb25zdCBwYXllciA9IHJlY29yZC5wYXllci5uYXRpdmUKICAgIGZyYW1lX2RpZyAwCiAgICBleHRyYWN0IDc1IDMyCiAgICBmcmFtZV9idXJ5IDIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQ2CiAgICAvLyBjb25zdCBkZXBvc2l0ID0gcmVjb3JkLmRlcG9zaXQuYXNVaW50NjQoKQogICAgZnJhbWVfZGlnIDAKICAgIGV4dHJhY3QgMTA3IDgKICAgIGJ0b2kKICAgIGZyYW1lX2J1cnkgMwogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNDcKICAgIC8vIHJlY29yZC5pc0RlbGV0ZWQgPSBuZXcgYXJjNC5Cb29sKHRydWUpCiAgICBmcmFtZV9kaWcgMAogICAgcHVzaGludCA1NDQgLy8gNTQ0CiAgICBwdXNoYnl0ZXMgMHg4MAogICAgaW50Y18wIC8vIDAKICAgIGdldGJpdAogICAgc2V0Yml0CiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQ4CiAgICAvLyByZWNvcmQuY2lkID0gbmV3IGFyYzQuU3RyKCcnKQogICAgZnJhbWVfZGlnIDAKICAgIGJ5dGVjIDggLy8gMHgwMDAwCiAgICBkaWcgMQogICAgaW50YyA0IC8vIDMyCiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDIKICAgIGludGMgNiAvLyAzNAogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAzCiAgICBkaWcgMQogICAgZGlnIDUKICAgIGxlbgogICAgc3Vic3RyaW5nMwogICAgc3dhcAogICAgZGlnIDIKICAgIC0KICAgIGRpZyAzCiAgICBsZW4KICAgIGNvdmVyIDUKICAgIGNvdmVyIDUKICAgIHVuY292ZXIgMwogICAgaW50Y18wIC8vIDAKICAgIHVuY292ZXIgMwogICAgc3Vic3RyaW5nMwogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICBpbnRjIDYgLy8gMzQKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgKwogICAgZGlnIDMKICAgIC0KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICByZXBsYWNlMiAzNAogICAgZHVwCiAgICBwdXNoaW50IDY5IC8vIDY5CiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDIKICAgICsKICAgIGRpZyAzCiAgICAtCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgcmVwbGFjZTIgNjkKICAgIGR1cAogICAgaW50YyA3IC8vIDcxCiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDIKICAgICsKICAgIGRpZyAzCiAgICAtCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgcmVwbGFjZTIgNzEKICAgIGR1cAogICAgaW50YyA1IC8vIDczCiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDIKICAgICsKICAgIGRpZyAzCiAgICAtCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgcmVwbGFjZTIgNzMKICAgIGNvdmVyIDIKICAgIHBvcAogICAgcG9wCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQ5CiAgICAvLyByZWNvcmQubmFtZSA9IG5ldyBhcmM0LlN0cignJykKICAgIGZyYW1lX2RpZyAwCiAgICBieXRlYyA4IC8vIDB4MDAwMAogICAgZGlnIDEKICAgIGludGMgNiAvLyAzNAogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICBwdXNoaW50IDY5IC8vIDY5CiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDMKICAgIGRpZyAxCiAgICBkaWcgNQogICAgbGVuCiAgICBzdWJzdHJpbmczCiAgICBzd2FwCiAgICBkaWcgMgogICAgLQogICAgZGlnIDMKICAgIGxlbgogICAgY292ZXIgNQogICAgY292ZXIgNQogICAgdW5jb3ZlciAzCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAzCiAgICBzdWJzdHJpbmczCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICBkdXAKICAgIHB1c2hpbnQgNjkgLy8gNjkKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgKwogICAgZGlnIDMKICAgIC0KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICByZXBsYWNlMiA2OQogICAgZHVwCiAgICBpbnRjIDcgLy8gNzEKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgKwogICAgZGlnIDMKICAgIC0KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICByZXBsYWNlMiA3MQogICAgZHVwCiAgICBpbnRjIDUgLy8gNzMKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgKwogICAgZGlnIDMKICAgIC0KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICByZXBsYWNlMiA3MwogICAgY292ZXIgMgogICAgcG9wCiAgICBwb3AKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTAKICAgIC8vIHJlY29yZC5zaGFyZTEgPSBuZXcgYXJjNC5TdHIoJycpCiAgICBmcmFtZV9kaWcgMAogICAgYnl0ZWMgOCAvLyAweDAwMDAKICAgIGRpZyAxCiAgICBwdXNoaW50IDY5IC8vIDY5CiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDIKICAgIGludGMgNyAvLyA3MQogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAzCiAgICBkaWcgMQogICAgZGlnIDUKICAgIGxlbgogICAgc3Vic3RyaW5nMwogICAgc3dhcAogICAgZGlnIDIKICAgIC0KICAgIGRpZyAzCiAgICBsZW4KICAgIGNvdmVyIDUKICAgIGNvdmVyIDUKICAgIHVuY292ZXIgMwogICAgaW50Y18wIC8vIDAKICAgIHVuY292ZXIgMwogICAgc3Vic3RyaW5nMwogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICBpbnRjIDcgLy8gNzEKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgKwogICAgZGlnIDMKICAgIC0KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICByZXBsYWNlMiA3MQogICAgZHVwCiAgICBpbnRjIDUgLy8gNzMKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgKwogICAgZGlnIDMKICAgIC0KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICByZXBsYWNlMiA3MwogICAgY292ZXIgMgogICAgcG9wCiAgICBwb3AKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTEKICAgIC8vIHJlY29yZC5zaGFyZTIgPSBuZXcgYXJjNC5TdHIoJycpCiAgICBmcmFtZV9kaWcgMAogICAgYnl0ZWMgOCAvLyAweDAwMDAKICAgIGRpZyAxCiAgICBpbnRjIDcgLy8gNzEKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMgogICAgaW50YyA1IC8vIDczCiAgICBleHRyYWN0X3VpbnQxNgogICAgZGlnIDMKICAgIGRpZyAxCiAgICBkaWcgNQogICAgbGVuCiAgICBzdWJzdHJpbmczCiAgICBzd2FwCiAgICBkaWcgMgogICAgLQogICAgZGlnIDMKICAgIGxlbgogICAgY292ZXIgNQogICAgY292ZXIgNQogICAgdW5jb3ZlciAzCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAzCiAgICBzdWJzdHJpbmczCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICBkdXAKICAgIGludGMgNSAvLyA3MwogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICArCiAgICBkaWcgMwogICAgLQogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHJlcGxhY2UyIDczCiAgICBjb3ZlciAyCiAgICBwb3AKICAgIHBvcAogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI1MgogICAgLy8gcmVjb3JkLnNoYXJlMyA9IG5ldyBhcmM0LlN0cignJykKICAgIGZyYW1lX2RpZyAwCiAgICBieXRlYyA4IC8vIDB4MDAwMAogICAgZGlnIDEKICAgIGludGMgNSAvLyA3MwogICAgZXh0cmFjdF91aW50MTYKICAgIGRpZyAyCiAgICBsZW4KICAgIGRpZyAzCiAgICBkaWcgMQogICAgZGlnIDUKICAgIGxlbgogICAgc3Vic3RyaW5nMwogICAgc3dhcAogICAgZGlnIDIKICAgIC0KICAgIGRpZyAzCiAgICBsZW4KICAgIGNvdmVyIDUKICAgIGNvdmVyIDUKICAgIHVuY292ZXIgMwogICAgaW50Y18wIC8vIDAKICAgIHVuY292ZXIgMwogICAgc3Vic3RyaW5nMwogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgY292ZXIgMgogICAgcG9wCiAgICBwb3AKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTMKICAgIC8vIHJlY29yZC5wYXllciA9IG5ldyBhcmM0LkFkZHJlc3MoR2xvYmFsLnplcm9BZGRyZXNzKQogICAgZnJhbWVfZGlnIDAKICAgIGdsb2JhbCBaZXJvQWRkcmVzcwogICAgcmVwbGFjZTIgNzUKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTQKICAgIC8vIHJlY29yZC5kZXBvc2l0ID0gbmV3IGFyYzQuVWludDY0KDApCiAgICBmcmFtZV9kaWcgMAogICAgYnl0ZWNfMiAvLyAweDAwMDAwMDAwMDAwMDAwMDAKICAgIHJlcGxhY2UyIDEwNwogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI1NQogICAgLy8gdGhpcy5maWxlcyhmaWxlSWQpLnZhbHVlID0gY2xvbmUocmVjb3JkKQogICAgYnl0ZWNfMSAvLyAiZnIiCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDAKICAgIGRpZyAxCiAgICBib3hfZGVsCiAgICBwb3AKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjU2CiAgICAvLyB0aGlzLnJlZnVuZE1icihwYXllciwgZGVwb3NpdCwgbWluQmFsYW5jZUJlZm9yZSkKICAgIGZyYW1lX2RpZyAyCiAgICBmcmFtZV9kaWcgMwogICAgZnJhbWVfZGlnIDEKICAgIGNhbGxzdWIgcmVmdW5kTWJyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI1NwogICAgLy8gZW1pdDxGaWxlRGVsZXRlZD4oeyBmaWxlSWQ6IGZpbGVJZCwgb3duZXI6IFR4bi5zZW5kZXIgfSkKICAgIHB1c2hieXRlcyAweDQ5MDY5ODc5IC8vIG1ldGhvZCAiRmlsZURlbGV0ZWQodWludDY0LGFkZHJlc3MpIgogICAgZnJhbWVfZGlnIC0xCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDQKICAgIHR4biBTZW5kZXIKICAgIGZyYW1lX2J1cnkgNQogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDQKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBsb2cKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5wdXJnZVZlcnNpb24oZmlsZUlkOiB1aW50NjQsIHZlcnNpb246IHVpbnQ2NCkgLT4gdm9pZDoKcHVyZ2VWZXJzaW9uOgogICAgcHJvdG8gMiAwCiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2MgogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2NAogICAgLy8gY29uc3QgcmVjb3JkID0gdGhpcy5nZXRGaWxlKGZpbGVJZCkKICAgIGZyYW1lX2RpZyAtMgogICAgY2FsbHN1YiBnZXRGaWxlCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjY1CiAgICAvLyBhc3NlcnQocmVjb3JkLmlzRGVsZXRlZC5uYXRpdmUsICdGaWxlIGlzIG5vdCBkZWxldGVkJykKICAgIGZyYW1lX2RpZyAwCiAgICBwdXNoaW50IDU0NCAvLyA1NDQKICAgIGdldGJpdAogICAgYnl0ZWMgNSAvLyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGludGNfMCAvLyAwCiAgICBnZXRiaXQKICAgIGFzc2VydCAvLyBGaWxlIGlzIG5vdCBkZWxldGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2NgogICAgLy8gY29uc3Qga2V5ID0geyBmaWxlSWQ6IGZpbGVJZCwgdmVyc2lvbjogdmVyc2lvbiB9CiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgZnJhbWVfYnVyeSAyCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2RpZyAxCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDMKICAgIGZyYW1lX2RpZyAyCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDQKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAzCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA0CiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgNQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNjcKICAgIC8vIGFzc2VydCh0aGlzLnZlcnNpb25zKGtleSkuZXhpc3RzLCAnVmVyc2lvbiBkb2VzIG5vdCBleGlzdCcpCiAgICBieXRlYyA3IC8vICJmdiIKICAgIGZyYW1lX2RpZyA1CiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYXNzZXJ0IC8vIFZlcnNpb24gZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjY4CiAgICAvLyBjb25zdCBlbnRyeSA9IGNsb25lKHRoaXMudmVyc2lvbnMoa2V5KS52YWx1ZSkKICAgIGJ5dGVjIDcgLy8gImZ2IgogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGZyYW1lX2J1cnkgNgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNjkKICAgIC8vIGFzc2VydCgKICAgIGZyYW1lX2RpZyAwCiAgICBleHRyYWN0IDAgMzIKICAgIHR4biBTZW5kZXIKICAgID09CiAgICBkdXAKICAgIGJueiBwdXJnZVZlcnNpb25fYm9vbF9tZXJnZUAxCiAgICBwb3AKICAgIGZyYW1lX2RpZyA2CiAgICBleHRyYWN0IDIgMzIKICAgIHR4biBTZW5kZXIKICAgID09CgpwdXJnZVZlcnNpb25fYm9vbF9tZXJnZUAxOgogICAgYXNzZXJ0IC8vIE5vdCB0aGUgb3duZXIgb3IgdGhlIHVwbG9hZGVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI3NAogICAgLy8gY29uc3QgbWluQmFsYW5jZUJlZm9yZTogdWludDY0ID0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MubWluQmFsYW5jZQogICAgZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKICAgIGFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQogICAgYXNzZXJ0IC8vIGFjY291bnQgZnVuZGVkCiAgICBmcmFtZV9idXJ5IDcKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mjc1CiAgICAvLyB0aGlzLnZlcnNpb25zKGtleSkuZGVsZXRlKCkKICAgIGJ5dGVjIDcgLy8gImZ2IgogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgYm94X2RlbAogICAgcG9wCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI3NgogICAgLy8gdGhpcy5yZWZ1bmRNYnIoZW50cnkudXBsb2FkZXIubmF0aXZlLCBlbnRyeS5kZXBvc2l0LmFzVWludDY0KCksIG1pbkJhbGFuY2VCZWZvcmUpCiAgICBmcmFtZV9kaWcgNgogICAgZXh0cmFjdCAyIDMyCiAgICBmcmFtZV9kaWcgNgogICAgZXh0cmFjdCA0MiA4CiAgICBidG9pCiAgICBmcmFtZV9kaWcgNwogICAgY2FsbHN1YiByZWZ1bmRNYnIKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5ncmFudEFjY2VzcyhwYXltZW50OiB1aW50NjQsIGZpbGVJZDogdWludDY0LCB1c2VyOiBieXRlcywgcGVybWlzc2lvbjogYnl0ZXMsIHdyYXBwZWRLZXk6IGJ5dGVzLCBleHBpcmVzQXQ6IHVpbnQ2NCkgLT4gdm9pZDoKZ3JhbnRBY2Nlc3M6CiAgICBwcm90byA2IDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyODgKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyOTcKICAgIC8vIGNvbnN0IHJlY29yZCA9IHRoaXMuZ2V0RmlsZShmaWxlSWQpCiAgICBmcmFtZV9kaWcgLTUKICAgIGNhbGxzdWIgZ2V0RmlsZQogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI5OAogICAgLy8gYXNzZXJ0KCFyZWNvcmQuaXNEZWxldGVkLm5hdGl2ZSwgJ0ZpbGUgaXMgZGVsZXRlZCcpCiAgICBmcmFtZV9kaWcgMAogICAgcHVzaGludCA1NDQgLy8gNTQ0CiAgICBnZXRiaXQKICAgIGJ5dGVjIDUgLy8gMHgwMAogICAgaW50Y18wIC8vIDAKICAgIHVuY292ZXIgMgogICAgc2V0Yml0CiAgICBpbnRjXzAgLy8gMAogICAgZ2V0Yml0CiAgICAhCiAgICBhc3NlcnQgLy8gRmlsZSBpcyBkZWxldGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI5OQogICAgLy8gYXNzZXJ0KHRoaXMucGVybWlzc2lvbkxldmVsKHBlcm1pc3Npb24pID4gVWludDY0KDApLCAnVW5rbm93biBwZXJtaXNzaW9uJykKICAgIGZyYW1lX2RpZyAtMwogICAgY2FsbHN1YiBwZXJtaXNzaW9uTGV2ZWwKICAgIGludGNfMCAvLyAwCiAgICA+CiAgICBhc3NlcnQgLy8gVW5rbm93biBwZXJtaXNzaW9uCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMwMQogICAgLy8gY29uc3Qga2V5ID0geyBmaWxlSWQ6IGZpbGVJZCwgdXNlcjogdXNlciB9CiAgICBmcmFtZV9kaWcgLTUKICAgIGZyYW1lX2RpZyAtNAogICAgZnJhbWVfYnVyeSAyCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2RpZyAxCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDMKICAgIGZyYW1lX2RpZyAyCiAgICBmcmFtZV9idXJ5IDQKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAzCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA0CiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgNQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMDMKICAgIC8vIGlmIChyZWNvcmQub3duZXIubmF0aXZlICE9PSBUeG4uc2VuZGVyKSB7CiAgICBmcmFtZV9kaWcgMAogICAgZXh0cmFjdCAwIDMyCiAgICB0eG4gU2VuZGVyCiAgICAhPQogICAgYnogZ3JhbnRBY2Nlc3NfYWZ0ZXJfaWZfZWxzZUAyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMwNAogICAgLy8gYXNzZXJ0KHRoaXMuZ3JhbnRMZXZlbChmaWxlSWQsIFR4bi5zZW5kZXIpID49IFVpbnQ2NCg0KSwgJ05vdCB0aGUgb3duZXIgb3IgYSByZXNoYXJlcicpCiAgICBmcmFtZV9kaWcgLTUKICAgIHR4biBTZW5kZXIKICAgIGNhbGxzdWIgZ3JhbnRMZXZlbAogICAgcHVzaGludCA0IC8vIDQKICAgID49CiAgICBhc3NlcnQgLy8gTm90IHRoZSBvd25lciBvciBhIHJlc2hhcmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMwNQogICAgLy8gYXNzZXJ0KHRoaXMuZ3JhbnRMZXZlbChmaWxlSWQsIHVzZXIpID09PSBVaW50NjQoMCksICdVc2VyIGFscmVhZHkgaGFzIGFjY2VzcycpCiAgICBmcmFtZV9kaWcgLTUKICAgIGZyYW1lX2RpZyAtNAogICAgY2FsbHN1YiBncmFudExldmVsCiAgICBpbnRjXzAgLy8gMAogICAgPT0KICAgIGFzc2VydCAvLyBVc2VyIGFscmVhZHkgaGFzIGFjY2VzcwoKZ3JhbnRBY2Nlc3NfYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMTAKICAgIC8vIHRoaXMucmVsZWFzZUdyYW50KGtleSkKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA2CiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDcKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA2CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGNhbGxzdWIgcmVsZWFzZUdyYW50CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMxMQogICAgLy8gY29uc3QgbWluQmFsYW5jZUJlZm9yZTogdWludDY0ID0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MubWluQmFsYW5jZQogICAgZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKICAgIGFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQogICAgYXNzZXJ0IC8vIGFjY291bnQgZnVuZGVkCiAgICBmcmFtZV9idXJ5IDgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzEyCiAgICAvLyBjb25zdCBncmFudCA9IG5ldyBBY2Nlc3NHcmFudCh7CiAgICBmcmFtZV9kaWcgLTMKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgLTIKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCiAgICBpdG9iCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIHR4biBTZW5kZXIKICAgIGJ5dGVjXzIgLy8gMHgwMDAwMDAwMDAwMDAwMDAwCiAgICBmcmFtZV9idXJ5IDE0CiAgICBmcmFtZV9idXJ5IDEzCiAgICBmcmFtZV9idXJ5IDEyCiAgICBmcmFtZV9idXJ5IDExCiAgICBmcmFtZV9idXJ5IDEwCiAgICBmcmFtZV9idXJ5IDkKICAgIGZyYW1lX2RpZyA5CiAgICBmcmFtZV9idXJ5IDE1CiAgICBmcmFtZV9kaWcgMTAKICAgIGZyYW1lX2J1cnkgMTYKICAgIGZyYW1lX2RpZyAxMQogICAgZnJhbWVfYnVyeSAxNwogICAgZnJhbWVfZGlnIDEyCiAgICBmcmFtZV9idXJ5IDE4CiAgICBmcmFtZV9kaWcgMTMKICAgIGZyYW1lX2J1cnkgMTkKICAgIGZyYW1lX2RpZyAxNAogICAgZnJhbWVfYnVyeSAyMAogICAgYnl0ZWNfMCAvLyAweAogICAgcHVzaGludCA2MCAvLyA2MAogICAgZnJhbWVfYnVyeSAyMQogICAgZnJhbWVfZGlnIDIxCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjEKICAgIGZyYW1lX2RpZyAxNQogICAgbGVuCiAgICArCiAgICBmcmFtZV9idXJ5IDIxCiAgICBmcmFtZV9kaWcgMjEKICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxNwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTgKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE5CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyMAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE2CiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgMjIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzIwCiAgICAvLyB0aGlzLmdyYW50cyhrZXkpLnZhbHVlID0gY2xvbmUoZ3JhbnQpCiAgICBieXRlY18zIC8vICJhZyIKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAyMwogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSAyNAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIzCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyNAogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyMgogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMjEKICAgIC8vIGNvbnN0IGNvc3QgPSB0aGlzLm1ickluY3JlYXNlKG1pbkJhbGFuY2VCZWZvcmUpCiAgICBmcmFtZV9kaWcgOAogICAgY2FsbHN1YiBtYnJJbmNyZWFzZQogICAgZnJhbWVfYnVyeSAyNQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMjIKICAgIC8vIGdyYW50LmRlcG9zaXQgPSBuZXcgYXJjNC5VaW50NjQoY29zdCkKICAgIGZyYW1lX2RpZyAyMgogICAgZnJhbWVfZGlnIDI1CiAgICBpdG9iCiAgICByZXBsYWNlMiA1MgogICAgZnJhbWVfYnVyeSAyMgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMjMKICAgIC8vIHRoaXMuZ3JhbnRzKGtleSkudmFsdWUgPSBjbG9uZShncmFudCkKICAgIGJ5dGVjXzMgLy8gImFnIgogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDI2CiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDI3CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMjYKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDI3CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDIyCiAgICBkaWcgMQogICAgYm94X2RlbAogICAgcG9wCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMyNAogICAgLy8gdGhpcy5jb2xsZWN0TWJyKHBheW1lbnQsIGNvc3QpCiAgICBmcmFtZV9kaWcgLTYKICAgIGZyYW1lX2RpZyAyNQogICAgY2FsbHN1YiBjb2xsZWN0TWJyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjMyNQogICAgLy8gZW1pdDxBY2Nlc3NHcmFudGVkPih7CiAgICBwdXNoYnl0ZXMgMHgwNzdhZGI1NCAvLyBtZXRob2QgIkFjY2Vzc0dyYW50ZWQodWludDY0LGFkZHJlc3MsYWRkcmVzcyxzdHJpbmcsdWludDY0KSIKICAgIGZyYW1lX2RpZyAtNQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAyOAogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSAyOQogICAgZnJhbWVfZGlnIC00CiAgICBmcmFtZV9idXJ5IDMwCiAgICBmcmFtZV9kaWcgLTMKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDMxCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMzIKICAgIGJ5dGVjXzAgLy8gMHgKICAgIHB1c2hpbnQgODIgLy8gODIKICAgIGZyYW1lX2J1cnkgMzMKICAgIGZyYW1lX2RpZyAyOAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjkKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMwCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzMwogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzMQogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGxvZwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LnJldm9rZUFjY2VzcyhmaWxlSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHZvaWQ6CnJldm9rZUFjY2VzczoKICAgIHByb3RvIDIgMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMzQKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMzYKICAgIC8vIGFzc2VydCh0aGlzLmdldEZpbGUoZmlsZUlkKS5vd25lci5uYXRpdmUgPT09IFR4bi5zZW5kZXIsICdOb3QgdGhlIG93bmVyJykKICAgIGZyYW1lX2RpZyAtMgogICAgY2FsbHN1YiBnZXRGaWxlCiAgICBleHRyYWN0IDAgMzIKICAgIHR4biBTZW5kZXIKICAgID09CiAgICBhc3NlcnQgLy8gTm90IHRoZSBvd25lcgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMzcKICAgIC8vIHRoaXMucmVsZWFzZUdyYW50KHsgZmlsZUlkOiBmaWxlSWQsIHVzZXI6IHVzZXIgfSkKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgZnJhbWVfYnVyeSAwCiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgMQogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDAKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDEKICAgIGNvbmNhdAogICAgY2FsbHN1YiByZWxlYXNlR3JhbnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzM4CiAgICAvLyBlbWl0PEFjY2Vzc1Jldm9rZWQ+KHsgZmlsZUlkOiBmaWxlSWQsIG93bmVyOiBUeG4uc2VuZGVyLCB1c2VyOiB1c2VyIH0pCiAgICBwdXNoYnl0ZXMgMHg3NzVmMTBlNiAvLyBtZXRob2QgIkFjY2Vzc1Jldm9rZWQodWludDY0LGFkZHJlc3MsYWRkcmVzcykiCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSAzCiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgNAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDQKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBsb2cKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5nZXRGaWxlSW5mbyhmaWxlSWQ6IHVpbnQ2NCkgLT4gYnl0ZXM6CmdldEZpbGVJbmZvOgogICAgcHJvdG8gMSAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM0MQogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM0MwogICAgLy8gcmV0dXJuIHRoaXMuZ2V0RmlsZShmaWxlSWQpCiAgICBmcmFtZV9kaWcgLTEKICAgIGNhbGxzdWIgZ2V0RmlsZQogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldFZlcnNpb24oZmlsZUlkOiB1aW50NjQsIHZlcnNpb246IHVpbnQ2NCkgLT4gYnl0ZXM6CmdldFZlcnNpb246CiAgICBwcm90byAyIDEKICAgIGludGNfMCAvLyAwCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNDYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNDgKICAgIC8vIGNvbnN0IGtleSA9IHsgZmlsZUlkOiBmaWxlSWQsIHZlcnNpb246IHZlcnNpb24gfQogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgMQogICAgZnJhbWVfYnVyeSAwCiAgICBmcmFtZV9kaWcgMAogICAgaXRvYgogICAgZnJhbWVfYnVyeSAyCiAgICBmcmFtZV9kaWcgMQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAzCiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMwogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzQ5CiAgICAvLyBhc3NlcnQodGhpcy52ZXJzaW9ucyhrZXkpLmV4aXN0cywgJ1ZlcnNpb24gZG9lcyBub3QgZXhpc3QnKQogICAgYnl0ZWMgNyAvLyAiZnYiCiAgICBmcmFtZV9kaWcgNAogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBWZXJzaW9uIGRvZXMgbm90IGV4aXN0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM1MAogICAgLy8gcmV0dXJuIGNsb25lKHRoaXMudmVyc2lvbnMoa2V5KS52YWx1ZSkKICAgIGJ5dGVjIDcgLy8gImZ2IgogICAgZnJhbWVfZGlnIDQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5oYXNWYWxpZEFjY2VzcyhmaWxlSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHVpbnQ2NDoKaGFzVmFsaWRBY2Nlc3M6CiAgICBwcm90byAyIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzY0CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzY2CiAgICAvLyByZXR1cm4gdGhpcy5jYW5PcGVuKGZpbGVJZCwgdXNlcikKICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIGNhbk9wZW4KICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5jYW5SZWxlYXNlS2V5U2hhcmVzKGZpbGVJZDogdWludDY0LCB1c2VyOiBieXRlcykgLT4gdWludDY0OgpjYW5SZWxlYXNlS2V5U2hhcmVzOgogICAgcHJvdG8gMiAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM3MAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM3MgogICAgLy8gcmV0dXJuIHRoaXMuY2FuT3BlbihmaWxlSWQsIHVzZXIpCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgY2FsbHN1YiBjYW5PcGVuCiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0QWNjZXNzR3JhbnQoZmlsZUlkOiB1aW50NjQsIHVzZXI6IGJ5dGVzKSAtPiBieXRlczoKZ2V0QWNjZXNzR3JhbnQ6CiAgICBwcm90byAyIDEKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNzYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNzgKICAgIC8vIGNvbnN0IGtleSA9IHsgZmlsZUlkOiBmaWxlSWQsIHVzZXI6IHVzZXIgfQogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgMQogICAgZnJhbWVfYnVyeSAwCiAgICBmcmFtZV9kaWcgMAogICAgaXRvYgogICAgZnJhbWVfYnVyeSAyCiAgICBmcmFtZV9kaWcgMQogICAgZnJhbWVfYnVyeSAzCiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMwogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mzc5CiAgICAvLyBpZiAodGhpcy5ncmFudHMoa2V5KS5leGlzdHMpIHsKICAgIGJ5dGVjXzMgLy8gImFnIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDUKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgNgogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGdldEFjY2Vzc0dyYW50X2FmdGVyX2lmX2Vsc2VAMgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozODAKICAgIC8vIHJldHVybiBjbG9uZSh0aGlzLmdyYW50cyhrZXkpLnZhbHVlKQogICAgYnl0ZWNfMyAvLyAiYWciCiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNwogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA4CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgOAogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICByZXRzdWIKCmdldEFjY2Vzc0dyYW50X2FmdGVyX2lmX2Vsc2VAMjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzgyCiAgICAvLyByZXR1cm4gbmV3IEFjY2Vzc0dyYW50KHsKICAgIGJ5dGVjIDggLy8gMHgwMDAwCiAgICBieXRlYyA4IC8vIDB4MDAwMAogICAgYnl0ZWNfMiAvLyAweDAwMDAwMDAwMDAwMDAwMDAKICAgIGJ5dGVjXzIgLy8gMHgwMDAwMDAwMDAwMDAwMDAwCiAgICBnbG9iYWwgWmVyb0FkZHJlc3MKICAgIGJ5dGVjXzIgLy8gMHgwMDAwMDAwMDAwMDAwMDAwCiAgICBmcmFtZV9idXJ5IDE0CiAgICBmcmFtZV9idXJ5IDEzCiAgICBmcmFtZV9idXJ5IDEyCiAgICBmcmFtZV9idXJ5IDExCiAgICBmcmFtZV9idXJ5IDEwCiAgICBmcmFtZV9idXJ5IDkKICAgIGZyYW1lX2RpZyA5CiAgICBmcmFtZV9idXJ5IDE1CiAgICBmcmFtZV9kaWcgMTAKICAgIGZyYW1lX2J1cnkgMTYKICAgIGZyYW1lX2RpZyAxMQogICAgZnJhbWVfYnVyeSAxNwogICAgZnJhbWVfZGlnIDEyCiAgICBmcmFtZV9idXJ5IDE4CiAgICBmcmFtZV9kaWcgMTMKICAgIGZyYW1lX2J1cnkgMTkKICAgIGZyYW1lX2RpZyAxNAogICAgZnJhbWVfYnVyeSAyMAogICAgYnl0ZWNfMCAvLyAweAogICAgcHVzaGludCA2MCAvLyA2MAogICAgZnJhbWVfYnVyeSAyMQogICAgZnJhbWVfZGlnIDIxCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMjEKICAgIGZyYW1lX2RpZyAxNQogICAgbGVuCiAgICArCiAgICBmcmFtZV9idXJ5IDIxCiAgICBmcmFtZV9kaWcgMjEKICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxNwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTgKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE5CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyMAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE2CiAgICBjb25jYXQKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5yZWdpc3RlclB1YmxpY0tleShwYXltZW50OiB1aW50NjQsIHB1YmxpY0tleTogYnl0ZXMpIC0+IHZvaWQ6CnJlZ2lzdGVyUHVibGljS2V5OgogICAgcHJvdG8gMiAwCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mzk0CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mzk2CiAgICAvLyBjb25zdCBtaW5CYWxhbmNlQmVmb3JlOiB1aW50NjQgPSBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcy5taW5CYWxhbmNlCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCiAgICBhc3NlcnQgLy8gYWNjb3VudCBmdW5kZWQKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozOTcKICAgIC8vIHRoaXMuZW5jcnlwdGlvbktleXMoVHhuLnNlbmRlcikudmFsdWUgPSBwdWJsaWNLZXkKICAgIGJ5dGVjIDEwIC8vICJlayIKICAgIHR4biBTZW5kZXIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIC0xCiAgICBkaWcgMQogICAgYm94X2RlbAogICAgcG9wCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM5OAogICAgLy8gdGhpcy5jb2xsZWN0TWJyKHBheW1lbnQsIHRoaXMubWJySW5jcmVhc2UobWluQmFsYW5jZUJlZm9yZSkpCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAwCiAgICBjYWxsc3ViIG1ickluY3JlYXNlCiAgICBjYWxsc3ViIGNvbGxlY3RNYnIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mzk5CiAgICAvLyBlbWl0PEtleVJlZ2lzdGVyZWQ+KHsgdXNlcjogVHhuLnNlbmRlciwgcHVibGljS2V5OiBwdWJsaWNLZXkgfSkKICAgIHB1c2hieXRlcyAweGFjMDRmN2FkIC8vIG1ldGhvZCAiS2V5UmVnaXN0ZXJlZChhZGRyZXNzLHN0cmluZykiCiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2RpZyAtMQogICAgZHVwCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgMgogICAgYnl0ZWNfMCAvLyAweAogICAgaW50YyA2IC8vIDM0CiAgICBmcmFtZV9idXJ5IDMKICAgIGZyYW1lX2RpZyAxCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMgogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGxvZwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdldEVuY3J5cHRpb25LZXkodXNlcjogYnl0ZXMpIC0+IGJ5dGVzOgpnZXRFbmNyeXB0aW9uS2V5OgogICAgcHJvdG8gMSAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQwMgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQwNAogICAgLy8gaWYgKHRoaXMuZW5jcnlwdGlvbktleXModXNlcikuZXhpc3RzKSB7CiAgICBieXRlYyAxMCAvLyAiZWsiCiAgICBmcmFtZV9kaWcgLTEKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBnZXRFbmNyeXB0aW9uS2V5X2FmdGVyX2lmX2Vsc2VAMgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MDUKICAgIC8vIHJldHVybiB0aGlzLmVuY3J5cHRpb25LZXlzKHVzZXIpLnZhbHVlCiAgICBieXRlYyAxMCAvLyAiZWsiCiAgICBmcmFtZV9kaWcgLTEKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIHJldHN1YgoKZ2V0RW5jcnlwdGlvbktleV9hZnRlcl9pZl9lbHNlQDI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQwNwogICAgLy8gcmV0dXJuICcnCiAgICBieXRlY18wIC8vIDB4CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZUNvdW50KCkgLT4gdWludDY0OgpnZXRGaWxlQ291bnQ6CiAgICBwcm90byAwIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDEwCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDEyCiAgICAvLyByZXR1cm4gdGhpcy5maWxlQ291bnQudmFsdWUKICAgIGludGNfMCAvLyAwCiAgICBieXRlYyA2IC8vICJmaWxlQ291bnQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmltcG9ydEZpbGUoZmlsZUlkOiB1aW50NjQsIHJlY29yZDogYnl0ZXMpIC0+IHZvaWQ6CmltcG9ydEZpbGU6CiAgICBwcm90byAyIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDIzCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDI1CiAgICAvLyB0aGlzLmFzc2VydEltcG9ydGluZygpCiAgICBjYWxsc3ViIGFzc2VydEltcG9ydGluZwogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MjYKICAgIC8vIGFzc2VydCghdGhpcy5maWxlcyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgYWxyZWFkeSBleGlzdHMnKQogICAgYnl0ZWNfMSAvLyAiZnIiCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICAhCiAgICBhc3NlcnQgLy8gRmlsZSBhbHJlYWR5IGV4aXN0cwogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MjcKICAgIC8vIGNvbnN0IGltcG9ydGVkID0gY2xvbmUocmVjb3JkKQogICAgZnJhbWVfZGlnIC0xCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDI4CiAgICAvLyBpbXBvcnRlZC5wYXllciA9IG5ldyBhcmM0LkFkZHJlc3MoR2xvYmFsLnplcm9BZGRyZXNzKQogICAgZnJhbWVfZGlnIDAKICAgIGdsb2JhbCBaZXJvQWRkcmVzcwogICAgcmVwbGFjZTIgNzUKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MjkKICAgIC8vIGltcG9ydGVkLmRlcG9zaXQgPSBuZXcgYXJjNC5VaW50NjQoMCkKICAgIGZyYW1lX2RpZyAwCiAgICBieXRlY18yIC8vIDB4MDAwMDAwMDAwMDAwMDAwMAogICAgcmVwbGFjZTIgMTA3CiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDMwCiAgICAvLyB0aGlzLmZpbGVzKGZpbGVJZCkudmFsdWUgPSBjbG9uZShpbXBvcnRlZCkKICAgIGJ5dGVjXzEgLy8gImZyIgogICAgZnJhbWVfZGlnIC0yCiAgICBpdG9iCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAwCiAgICBkaWcgMQogICAgYm94X2RlbAogICAgcG9wCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQzMQogICAgLy8gaWYgKGZpbGVJZCA+IHRoaXMuZmlsZUNvdW50LnZhbHVlKSB0aGlzLmZpbGVDb3VudC52YWx1ZSA9IGZpbGVJZAogICAgZnJhbWVfZGlnIC0yCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWMgNiAvLyAiZmlsZUNvdW50IgogICAgYXBwX2dsb2JhbF9nZXRfZXgKICAgIGFzc2VydCAvLyBjaGVjayBHbG9iYWxTdGF0ZSBleGlzdHMKICAgID4KICAgIGJ6IGltcG9ydEZpbGVfYWZ0ZXJfaWZfZWxzZUAyCiAgICBieXRlYyA2IC8vICJmaWxlQ291bnQiCiAgICBmcmFtZV9kaWcgLTIKICAgIGFwcF9nbG9iYWxfcHV0CgppbXBvcnRGaWxlX2FmdGVyX2lmX2Vsc2VAMjoKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5pbXBvcnRWZXJzaW9uKGZpbGVJZDogdWludDY0LCB2ZXJzaW9uOiB1aW50NjQsIGVudHJ5OiBieXRlcykgLT4gdm9pZDoKaW1wb3J0VmVyc2lvbjoKICAgIHByb3RvIDMgMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MzQKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MzYKICAgIC8vIHRoaXMuYXNzZXJ0SW1wb3J0aW5nKCkKICAgIGNhbGxzdWIgYXNzZXJ0SW1wb3J0aW5nCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQzNwogICAgLy8gYXNzZXJ0KHRoaXMuZmlsZXMoZmlsZUlkKS5leGlzdHMsICdGaWxlIGRvZXMgbm90IGV4aXN0JykKICAgIGJ5dGVjXzEgLy8gImZyIgogICAgZnJhbWVfZGlnIC0zCiAgICBpdG9iCiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYXNzZXJ0IC8vIEZpbGUgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDM4CiAgICAvLyBjb25zdCBpbXBvcnRlZCA9IGNsb25lKGVudHJ5KQogICAgZnJhbWVfZGlnIC0xCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDM5CiAgICAvLyBpbXBvcnRlZC5kZXBvc2l0ID0gbmV3IGFyYzQuVWludDY0KDApCiAgICBmcmFtZV9kaWcgMAogICAgYnl0ZWNfMiAvLyAweDAwMDAwMDAwMDAwMDAwMDAKICAgIHJlcGxhY2UyIDQyCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDQwCiAgICAvLyB0aGlzLnZlcnNpb25zKHsgZmlsZUlkOiBmaWxlSWQsIHZlcnNpb246IHZlcnNpb24gfSkudmFsdWUgPSBjbG9uZShpbXBvcnRlZCkKICAgIGJ5dGVjIDcgLy8gImZ2IgogICAgZnJhbWVfZGlnIC0zCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgZnJhbWVfYnVyeSAyCiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMgogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAwCiAgICBkaWcgMQogICAgYm94X2RlbAogICAgcG9wCiAgICBib3hfcHV0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuaW1wb3J0R3JhbnQoZmlsZUlkOiB1aW50NjQsIHVzZXI6IGJ5dGVzLCBncmFudDogYnl0ZXMpIC0+IHZvaWQ6CmltcG9ydEdyYW50OgogICAgcHJvdG8gMyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ0MwogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ0NQogICAgLy8gdGhpcy5hc3NlcnRJbXBvcnRpbmcoKQogICAgY2FsbHN1YiBhc3NlcnRJbXBvcnRpbmcKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDQ2CiAgICAvLyBhc3NlcnQodGhpcy5maWxlcyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgYnl0ZWNfMSAvLyAiZnIiCiAgICBmcmFtZV9kaWcgLTMKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NDcKICAgIC8vIGNvbnN0IGltcG9ydGVkID0gY2xvbmUoZ3JhbnQpCiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NDgKICAgIC8vIGltcG9ydGVkLnBheWVyID0gbmV3IGFyYzQuQWRkcmVzcyhHbG9iYWwuemVyb0FkZHJlc3MpCiAgICBmcmFtZV9kaWcgMAogICAgZ2xvYmFsIFplcm9BZGRyZXNzCiAgICByZXBsYWNlMiAyMAogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ0OQogICAgLy8gaW1wb3J0ZWQuZGVwb3NpdCA9IG5ldyBhcmM0LlVpbnQ2NCgwKQogICAgZnJhbWVfZGlnIDAKICAgIGJ5dGVjXzIgLy8gMHgwMDAwMDAwMDAwMDAwMDAwCiAgICByZXBsYWNlMiA1MgogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ1MAogICAgLy8gdGhpcy5ncmFudHMoeyBmaWxlSWQ6IGZpbGVJZCwgdXNlcjogdXNlciB9KS52YWx1ZSA9IGNsb25lKGltcG9ydGVkKQogICAgYnl0ZWNfMyAvLyAiYWciCiAgICBmcmFtZV9kaWcgLTMKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMQogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9idXJ5IDIKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAxCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAyCiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDAKICAgIGRpZyAxCiAgICBib3hfZGVsCiAgICBwb3AKICAgIGJveF9wdXQKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5pbXBvcnRQdWJsaWNLZXkodXNlcjogYnl0ZXMsIHB1YmxpY0tleTogYnl0ZXMpIC0+IHZvaWQ6CmltcG9ydFB1YmxpY0tleToKICAgIHByb3RvIDIgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NTMKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NTUKICAgIC8vIHRoaXMuYXNzZXJ0SW1wb3J0aW5nKCkKICAgIGNhbGxzdWIgYXNzZXJ0SW1wb3J0aW5nCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ1NgogICAgLy8gdGhpcy5lbmNyeXB0aW9uS2V5cyh1c2VyKS52YWx1ZSA9IHB1YmxpY0tleQogICAgYnl0ZWMgMTAgLy8gImVrIgogICAgZnJhbWVfZGlnIC0yCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAtMQogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmZpbmlzaEltcG9ydCgpIC0+IHZvaWQ6CmZpbmlzaEltcG9ydDoKICAgIHByb3RvIDAgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NTkKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0NjEKICAgIC8vIGFzc2VydChUeG4uc2VuZGVyID09PSBHbG9iYWwuY3JlYXRvckFkZHJlc3MsICdPbmx5IHRoZSBjcmVhdG9yIGNhbiBjbG9zZSB0aGUgaW1wb3J0JykKICAgIHR4biBTZW5kZXIKICAgIGdsb2JhbCBDcmVhdG9yQWRkcmVzcwogICAgPT0KICAgIGFzc2VydCAvLyBPbmx5IHRoZSBjcmVhdG9yIGNhbiBjbG9zZSB0aGUgaW1wb3J0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ2MgogICAgLy8gdGhpcy5pbXBvcnRDbG9zZWQudmFsdWUgPSBVaW50NjQoMSkKICAgIGJ5dGVjIDExIC8vICJpbXBvcnRDbG9zZWQiCiAgICBpbnRjXzEgLy8gMQogICAgYXBwX2dsb2JhbF9wdXQKICAgIHJldHN1YgoKCi8vIEBhbGdvcmFuZGZvdW5kYXRpb24vYWxnb3JhbmQtdHlwZXNjcmlwdC9iYXNlLWNvbnRyYWN0LmQudHM6OkJhc2VDb250cmFjdC5jb25zdHJ1Y3RvcigpIC0+IHZvaWQ6CkJhc2VDb250cmFjdC5jb25zdHJ1Y3RvcjoKICAgIHByb3RvIDAgMAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5Lm1ickluY3JlYXNlKG1pbkJhbGFuY2VCZWZvcmU6IHVpbnQ2NCkgLT4gdWludDY0OgptYnJJbmNyZWFzZToKICAgIHByb3RvIDEgMQogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODMKICAgIC8vIHByaXZhdGUgbWJySW5jcmVhc2UobWluQmFsYW5jZUJlZm9yZTogdWludDY0KTogdWludDY0IHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODQKICAgIC8vIGNvbnN0IG1pbkJhbGFuY2U6IHVpbnQ2NCA9IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLm1pbkJhbGFuY2UKICAgIGdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCiAgICBhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKICAgIGFzc2VydCAvLyBhY2NvdW50IGZ1bmRlZAogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjg1CiAgICAvLyByZXR1cm4gbWluQmFsYW5jZSA+IG1pbkJhbGFuY2VCZWZvcmUgPyBtaW5CYWxhbmNlIC0gbWluQmFsYW5jZUJlZm9yZSA6IFVpbnQ2NCgwKQogICAgZnJhbWVfZGlnIDAKICAgIGZyYW1lX2RpZyAtMQogICAgPgogICAgYnogbWJySW5jcmVhc2VfdGVybmFyeV9mYWxzZUAxCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0xCiAgICAtCiAgICBiIG1ickluY3JlYXNlX3Rlcm5hcnlfbWVyZ2VAMgoKbWJySW5jcmVhc2VfdGVybmFyeV9mYWxzZUAxOgogICAgaW50Y18wIC8vIDAKCm1ickluY3JlYXNlX3Rlcm5hcnlfbWVyZ2VAMjoKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5wdXRWZXJzaW9uKGZpbGVJZDogdWludDY0LCB2ZXJzaW9uOiB1aW50NjQsIGNpZDogYnl0ZXMpIC0+IHVpbnQ2NDoKcHV0VmVyc2lvbjoKICAgIHByb3RvIDMgMQogICAgaW50Y18wIC8vIDAKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE1NAogICAgLy8gcHJpdmF0ZSBwdXRWZXJzaW9uKGZpbGVJZDogdWludDY0LCB2ZXJzaW9uOiB1aW50NjQsIGNpZDogc3RyaW5nKTogdWludDY0IHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU1CiAgICAvLyBjb25zdCBrZXkgPSB7IGZpbGVJZDogZmlsZUlkLCB2ZXJzaW9uOiB2ZXJzaW9uIH0KICAgIGZyYW1lX2RpZyAtMwogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE1NgogICAgLy8gY29uc3QgbWluQmFsYW5jZUJlZm9yZTogdWludDY0ID0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MubWluQmFsYW5jZQogICAgZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKICAgIGFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQogICAgYXNzZXJ0IC8vIGFjY291bnQgZnVuZGVkCiAgICBmcmFtZV9idXJ5IDUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU3CiAgICAvLyBjb25zdCBlbnRyeSA9IG5ldyBGaWxlVmVyc2lvbih7CiAgICBmcmFtZV9kaWcgLTEKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICB0eG4gU2VuZGVyCiAgICBnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCiAgICBpdG9iCiAgICBieXRlY18yIC8vIDB4MDAwMDAwMDAwMDAwMDAwMAogICAgZnJhbWVfYnVyeSA5CiAgICBmcmFtZV9idXJ5IDgKICAgIGZyYW1lX2J1cnkgNwogICAgZnJhbWVfYnVyeSA2CiAgICBmcmFtZV9kaWcgNgogICAgZnJhbWVfYnVyeSAxMAogICAgZnJhbWVfZGlnIDcKICAgIGZyYW1lX2J1cnkgMTEKICAgIGZyYW1lX2RpZyA4CiAgICBmcmFtZV9idXJ5IDEyCiAgICBmcmFtZV9kaWcgOQogICAgZnJhbWVfYnVyeSAxMwogICAgYnl0ZWNfMCAvLyAweAogICAgcHVzaGludCA1MCAvLyA1MAogICAgZnJhbWVfYnVyeSAxNAogICAgZnJhbWVfZGlnIDE0CiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTEKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDEyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxMwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTAKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSAxNQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNjMKICAgIC8vIHRoaXMudmVyc2lvbnMoa2V5KS52YWx1ZSA9IGNsb25lKGVudHJ5KQogICAgYnl0ZWMgNyAvLyAiZnYiCiAgICBmcmFtZV9kaWcgNAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTUKICAgIGRpZyAxCiAgICBib3hfZGVsCiAgICBwb3AKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTY0CiAgICAvLyBjb25zdCBjb3N0ID0gdGhpcy5tYnJJbmNyZWFzZShtaW5CYWxhbmNlQmVmb3JlKQogICAgZnJhbWVfZGlnIDUKICAgIGNhbGxzdWIgbWJySW5jcmVhc2UKICAgIGZyYW1lX2J1cnkgMTYKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTY1CiAgICAvLyBlbnRyeS5kZXBvc2l0ID0gbmV3IGFyYzQuVWludDY0KGNvc3QpCiAgICBmcmFtZV9kaWcgMTUKICAgIGZyYW1lX2RpZyAxNgogICAgaXRvYgogICAgcmVwbGFjZTIgNDIKICAgIGZyYW1lX2J1cnkgMTUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTY2CiAgICAvLyB0aGlzLnZlcnNpb25zKGtleSkudmFsdWUgPSBjbG9uZShlbnRyeSkKICAgIGJ5dGVjIDcgLy8gImZ2IgogICAgZnJhbWVfZGlnIDQKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE1CiAgICBkaWcgMQogICAgYm94X2RlbAogICAgcG9wCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NwogICAgLy8gcmV0dXJuIGNvc3QKICAgIGZyYW1lX2RpZyAxNgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmNvbGxlY3RNYnIocGF5bWVudDogdWludDY0LCBjb3N0OiB1aW50NjQpIC0+IHZvaWQ6CmNvbGxlY3RNYnI6CiAgICBwcm90byAyIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTAKICAgIC8vIHByaXZhdGUgY29sbGVjdE1icihwYXltZW50OiBndHhuLlBheW1lbnRUeG4sIGNvc3Q6IHVpbnQ2NCk6IHZvaWQgewogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5MQogICAgLy8gYXNzZXJ0KHBheW1lbnQucmVjZWl2ZXIgPT09IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLCAnTUJSIHBheW1lbnQgbXVzdCBnbyB0byB0aGUgYXBwJykKICAgIGZyYW1lX2RpZyAtMgogICAgZ3R4bnMgUmVjZWl2ZXIKICAgIGdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCiAgICA9PQogICAgYXNzZXJ0IC8vIE1CUiBwYXltZW50IG11c3QgZ28gdG8gdGhlIGFwcAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5MgogICAgLy8gYXNzZXJ0KHBheW1lbnQuc2VuZGVyID09PSBUeG4uc2VuZGVyLCAnTUJSIHBheW1lbnQgbXVzdCBjb21lIGZyb20gdGhlIGNhbGxlcicpCiAgICBmcmFtZV9kaWcgLTIKICAgIGd0eG5zIFNlbmRlcgogICAgdHhuIFNlbmRlcgogICAgPT0KICAgIGFzc2VydCAvLyBNQlIgcGF5bWVudCBtdXN0IGNvbWUgZnJvbSB0aGUgY2FsbGVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjkzCiAgICAvLyBhc3NlcnQocGF5bWVudC5hbW91bnQgPT09IGNvc3QsICdNQlIgcGF5bWVudCBtdXN0IG1hdGNoIHRoZSBib3ggY29zdCcpCiAgICBmcmFtZV9kaWcgLTIKICAgIGd0eG5zIEFtb3VudAogICAgZnJhbWVfZGlnIC0xCiAgICA9PQogICAgYXNzZXJ0IC8vIE1CUiBwYXltZW50IG11c3QgbWF0Y2ggdGhlIGJveCBjb3N0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuZ2V0RmlsZShmaWxlSWQ6IHVpbnQ2NCkgLT4gYnl0ZXM6CmdldEZpbGU6CiAgICBwcm90byAxIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA2CiAgICAvLyBwcml2YXRlIGdldEZpbGUoZmlsZUlkOiB1aW50NjQpOiBGaWxlUmVjb3JkIHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA3CiAgICAvLyBhc3NlcnQodGhpcy5maWxlcyhmaWxlSWQpLmV4aXN0cywgJ0ZpbGUgZG9lcyBub3QgZXhpc3QnKQogICAgYnl0ZWNfMSAvLyAiZnIiCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gRmlsZSBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDgKICAgIC8vIHJldHVybiBjbG9uZSh0aGlzLmZpbGVzKGZpbGVJZCkudmFsdWUpCiAgICBieXRlY18xIC8vICJmciIKICAgIGZyYW1lX2RpZyAtMQogICAgaXRvYgogICAgY29uY2F0CiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmdyYW50TGV2ZWwoZmlsZUlkOiB1aW50NjQsIHVzZXI6IGJ5dGVzKSAtPiB1aW50NjQ6CmdyYW50TGV2ZWw6CiAgICBwcm90byAyIDEKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxODEKICAgIC8vIHByaXZhdGUgZ3JhbnRMZXZlbChmaWxlSWQ6IHVpbnQ2NCwgdXNlcjogQWNjb3VudCk6IHVpbnQ2NCB7CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE4MgogICAgLy8gY29uc3Qga2V5ID0geyBmaWxlSWQ6IGZpbGVJZCwgdXNlcjogdXNlciB9CiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9idXJ5IDAKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDIKICAgIGZyYW1lX2RpZyAxCiAgICBmcmFtZV9idXJ5IDMKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzCiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgNAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxODMKICAgIC8vIGlmICghdGhpcy5ncmFudHMoa2V5KS5leGlzdHMpIHJldHVybiBVaW50NjQoMCkKICAgIGJ5dGVjXzMgLy8gImFnIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDUKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgNgogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgICEKICAgIGJ6IGdyYW50TGV2ZWxfYWZ0ZXJfaWZfZWxzZUAyCiAgICBpbnRjXzAgLy8gMAogICAgcmV0c3ViCgpncmFudExldmVsX2FmdGVyX2lmX2Vsc2VAMjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTg0CiAgICAvLyBjb25zdCBncmFudCA9IGNsb25lKHRoaXMuZ3JhbnRzKGtleSkudmFsdWUpCiAgICBieXRlY18zIC8vICJhZyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGZyYW1lX2J1cnkgOQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxODUKICAgIC8vIGNvbnN0IGV4cGlyZXM6IHVpbnQ2NCA9IGdyYW50LmV4cGlyZXNBdC5hc1VpbnQ2NCgpCiAgICBmcmFtZV9kaWcgOQogICAgZXh0cmFjdCAxMiA4CiAgICBidG9pCiAgICBmcmFtZV9idXJ5IDEwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE4NgogICAgLy8gaWYgKGV4cGlyZXMgIT09IFVpbnQ2NCgwKSAmJiBleHBpcmVzIDw9IEdsb2JhbC5sYXRlc3RUaW1lc3RhbXApIHJldHVybiBVaW50NjQoMCkKICAgIGZyYW1lX2RpZyAxMAogICAgaW50Y18wIC8vIDAKICAgICE9CiAgICBkdXAKICAgIGJ6IGdyYW50TGV2ZWxfYm9vbF9tZXJnZUA1CiAgICBwb3AKICAgIGZyYW1lX2RpZyAxMAogICAgZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAogICAgPD0KCmdyYW50TGV2ZWxfYm9vbF9tZXJnZUA1OgogICAgYnogZ3JhbnRMZXZlbF9hZnRlcl9pZl9lbHNlQDQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTg2CiAgICAvLyBpZiAoZXhwaXJlcyAhPT0gVWludDY0KDApICYmIGV4cGlyZXMgPD0gR2xvYmFsLmxhdGVzdFRpbWVzdGFtcCkgcmV0dXJuIFVpbnQ2NCgwKQogICAgaW50Y18wIC8vIDAKICAgIHJldHN1YgoKZ3JhbnRMZXZlbF9hZnRlcl9pZl9lbHNlQDQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE4NwogICAgLy8gcmV0dXJuIHRoaXMucGVybWlzc2lvbkxldmVsKGdyYW50LnBlcm1pc3Npb24ubmF0aXZlKQogICAgZnJhbWVfZGlnIDkKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMQogICAgaW50Y18yIC8vIDIKICAgIGV4dHJhY3RfdWludDE2CiAgICBzdWJzdHJpbmczCiAgICBleHRyYWN0IDIgMAogICAgY2FsbHN1YiBwZXJtaXNzaW9uTGV2ZWwKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5yZWZ1bmRNYnIocGF5ZXI6IGJ5dGVzLCBkZXBvc2l0OiB1aW50NjQsIG1pbkJhbGFuY2VCZWZvcmU6IHVpbnQ2NCkgLT4gdm9pZDoKcmVmdW5kTWJyOgogICAgcHJvdG8gMyAwCiAgICBpbnRjXzAgLy8gMAogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTkKICAgIC8vIHByaXZhdGUgcmVmdW5kTWJyKHBheWVyOiBBY2NvdW50LCBkZXBvc2l0OiB1aW50NjQsIG1pbkJhbGFuY2VCZWZvcmU6IHVpbnQ2NCk6IHZvaWQgewogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDAKICAgIC8vIGNvbnN0IGZyZWVkOiB1aW50NjQgPSBtaW5CYWxhbmNlQmVmb3JlIC0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MubWluQmFsYW5jZQogICAgZnJhbWVfZGlnIC0xCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCiAgICBhc3NlcnQgLy8gYWNjb3VudCBmdW5kZWQKICAgIC0KICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDEKICAgIC8vIGNvbnN0IGFtb3VudDogdWludDY0ID0gZnJlZWQgPCBkZXBvc2l0ID8gZnJlZWQgOiBkZXBvc2l0CiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0yCiAgICA8CiAgICBieiByZWZ1bmRNYnJfdGVybmFyeV9mYWxzZUAxCiAgICBmcmFtZV9kaWcgMAogICAgYiByZWZ1bmRNYnJfdGVybmFyeV9tZXJnZUAyCgpyZWZ1bmRNYnJfdGVybmFyeV9mYWxzZUAxOgogICAgZnJhbWVfZGlnIC0yCgpyZWZ1bmRNYnJfdGVybmFyeV9tZXJnZUAyOgogICAgZnJhbWVfYnVyeSAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwMgogICAgLy8gaWYgKHBheWVyID09PSBHbG9iYWwuemVyb0FkZHJlc3MgfHwgYW1vdW50ID09PSBVaW50NjQoMCkpIHJldHVybgogICAgZnJhbWVfZGlnIC0zCiAgICBnbG9iYWwgWmVyb0FkZHJlc3MKICAgID09CiAgICBkdXAKICAgIGJueiByZWZ1bmRNYnJfYm9vbF9tZXJnZUA1CiAgICBwb3AKICAgIGZyYW1lX2RpZyAxCiAgICBpbnRjXzAgLy8gMAogICAgPT0KCnJlZnVuZE1icl9ib29sX21lcmdlQDU6CiAgICBieiByZWZ1bmRNYnJfYWZ0ZXJfaWZfZWxzZUA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwMgogICAgLy8gaWYgKHBheWVyID09PSBHbG9iYWwuemVyb0FkZHJlc3MgfHwgYW1vdW50ID09PSBVaW50NjQoMCkpIHJldHVybgogICAgcmV0c3ViCgpyZWZ1bmRNYnJfYWZ0ZXJfaWZfZWxzZUA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDMKICAgIC8vIGl0eG4ucGF5bWVudCh7IHJlY2VpdmVyOiBwYXllciwgYW1vdW50OiBhbW91bnQsIGZlZTogMCB9KS5zdWJtaXQoKQogICAgaXR4bl9iZWdpbgogICAgaW50Y18wIC8vIDAKICAgIGl0eG5fZmllbGQgRmVlCiAgICBpbnRjXzEgLy8gMQogICAgaXR4bl9maWVsZCBUeXBlRW51bQogICAgZnJhbWVfZGlnIC0zCiAgICBpdHhuX2ZpZWxkIFJlY2VpdmVyCiAgICBmcmFtZV9kaWcgMQogICAgaXR4bl9maWVsZCBBbW91bnQKICAgIGl0eG5fc3VibWl0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkucGVybWlzc2lvbkxldmVsKHBlcm1pc3Npb246IGJ5dGVzKSAtPiB1aW50NjQ6CnBlcm1pc3Npb25MZXZlbDoKICAgIHByb3RvIDEgMQogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzIKICAgIC8vIHByaXZhdGUgcGVybWlzc2lvbkxldmVsKHBlcm1pc3Npb246IHN0cmluZyk6IHVpbnQ2NCB7CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3MwogICAgLy8gaWYgKHBlcm1pc3Npb24gPT09ICdyZXNoYXJlJykgcmV0dXJuIFVpbnQ2NCg0KQogICAgZnJhbWVfZGlnIC0xCiAgICBwdXNoYnl0ZXMgInJlc2hhcmUiCiAgICA9PQogICAgYnogcGVybWlzc2lvbkxldmVsX2FmdGVyX2lmX2Vsc2VAMgogICAgcHVzaGludCA0IC8vIDQKICAgIHJldHN1YgoKcGVybWlzc2lvbkxldmVsX2FmdGVyX2lmX2Vsc2VAMjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc0CiAgICAvLyBpZiAocGVybWlzc2lvbiA9PT0gJ3dyaXRlJykgcmV0dXJuIFVpbnQ2NCgzKQogICAgZnJhbWVfZGlnIC0xCiAgICBwdXNoYnl0ZXMgIndyaXRlIgogICAgPT0KICAgIGJ6IHBlcm1pc3Npb25MZXZlbF9hZnRlcl9pZl9lbHNlQDQKICAgIHB1c2hpbnQgMyAvLyAzCiAgICByZXRzdWIKCnBlcm1pc3Npb25MZXZlbF9hZnRlcl9pZl9lbHNlQDQ6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3NQogICAgLy8gaWYgKHBlcm1pc3Npb24gPT09ICdkb3dubG9hZCcgfHwgcGVybWlzc2lvbiA9PT0gJ3JlYWQnKSByZXR1cm4gVWludDY0KDIpCiAgICBmcmFtZV9kaWcgLTEKICAgIHB1c2hieXRlcyAiZG93bmxvYWQiCiAgICA9PQogICAgZHVwCiAgICBibnogcGVybWlzc2lvbkxldmVsX2Jvb2xfbWVyZ2VANwogICAgcG9wCiAgICBmcmFtZV9kaWcgLTEKICAgIHB1c2hieXRlcyAicmVhZCIKICAgID09CgpwZXJtaXNzaW9uTGV2ZWxfYm9vbF9tZXJnZUA3OgogICAgYnogcGVybWlzc2lvbkxldmVsX2FmdGVyX2lmX2Vsc2VANgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzUKICAgIC8vIGlmIChwZXJtaXNzaW9uID09PSAnZG93bmxvYWQnIHx8IHBlcm1pc3Npb24gPT09ICdyZWFkJykgcmV0dXJuIFVpbnQ2NCgyKQogICAgaW50Y18yIC8vIDIKICAgIHJldHN1YgoKcGVybWlzc2lvbkxldmVsX2FmdGVyX2lmX2Vsc2VANjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc2CiAgICAvLyBpZiAocGVybWlzc2lvbiA9PT0gJ3ZpZXcnKSByZXR1cm4gVWludDY0KDEpCiAgICBmcmFtZV9kaWcgLTEKICAgIHB1c2hieXRlcyAidmlldyIKICAgID09CiAgICBieiBwZXJtaXNzaW9uTGV2ZWxfYWZ0ZXJfaWZfZWxzZUA5CiAgICBpbnRjXzEgLy8gMQogICAgcmV0c3ViCgpwZXJtaXNzaW9uTGV2ZWxfYWZ0ZXJfaWZfZWxzZUA5OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzcKICAgIC8vIHJldHVybiBVaW50NjQoMCkKICAgIGludGNfMCAvLyAwCiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkucmVsZWFzZUdyYW50KGtleTogYnl0ZXMpIC0+IHZvaWQ6CnJlbGVhc2VHcmFudDoKICAgIHByb3RvIDEgMAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjgwCiAgICAvLyBwcml2YXRlIHJlbGVhc2VHcmFudChrZXk6IEdyYW50S2V5KTogdm9pZCB7CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI4MQogICAgLy8gaWYgKCF0aGlzLmdyYW50cyhrZXkpLmV4aXN0cykgcmV0dXJuCiAgICBieXRlY18zIC8vICJhZyIKICAgIGZyYW1lX2RpZyAtMQogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgICEKICAgIGJ6IHJlbGVhc2VHcmFudF9hZnRlcl9pZl9lbHNlQDIKICAgIHJldHN1YgoKcmVsZWFzZUdyYW50X2FmdGVyX2lmX2Vsc2VAMjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjgyCiAgICAvLyBjb25zdCBtaW5CYWxhbmNlQmVmb3JlOiB1aW50NjQgPSBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcy5taW5CYWxhbmNlCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCiAgICBhc3NlcnQgLy8gYWNjb3VudCBmdW5kZWQKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyODMKICAgIC8vIGNvbnN0IGdyYW50ID0gY2xvbmUodGhpcy5ncmFudHMoa2V5KS52YWx1ZSkKICAgIGJ5dGVjXzMgLy8gImFnIgogICAgZnJhbWVfZGlnIC0xCiAgICBjb25jYXQKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBmcmFtZV9idXJ5IDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mjg0CiAgICAvLyB0aGlzLmdyYW50cyhrZXkpLmRlbGV0ZSgpCiAgICBieXRlY18zIC8vICJhZyIKICAgIGZyYW1lX2RpZyAtMQogICAgY29uY2F0CiAgICBib3hfZGVsCiAgICBwb3AKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Mjg1CiAgICAvLyB0aGlzLnJlZnVuZE1icihncmFudC5wYXllci5uYXRpdmUsIGdyYW50LmRlcG9zaXQuYXNVaW50NjQoKSwgbWluQmFsYW5jZUJlZm9yZSkKICAgIGZyYW1lX2RpZyAxCiAgICBleHRyYWN0IDIwIDMyCiAgICBmcmFtZV9kaWcgMQogICAgZXh0cmFjdCA1MiA4CiAgICBidG9pCiAgICBmcmFtZV9kaWcgMAogICAgY2FsbHN1YiByZWZ1bmRNYnIKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5jYW5PcGVuKGZpbGVJZDogdWludDY0LCB1c2VyOiBieXRlcykgLT4gdWludDY0OgpjYW5PcGVuOgogICAgcHJvdG8gMiAxCiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM1NQogICAgLy8gcHJpdmF0ZSBjYW5PcGVuKGZpbGVJZDogdWludDY0LCB1c2VyOiBBY2NvdW50KTogYm9vbGVhbiB7CiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM1NgogICAgLy8gaWYgKCF0aGlzLmZpbGVzKGZpbGVJZCkuZXhpc3RzKSByZXR1cm4gZmFsc2UKICAgIGJ5dGVjXzEgLy8gImZyIgogICAgZnJhbWVfZGlnIC0yCiAgICBpdG9iCiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgIQogICAgYnogY2FuT3Blbl9hZnRlcl9pZl9lbHNlQDIKICAgIGludGNfMCAvLyAwCiAgICByZXRzdWIKCmNhbk9wZW5fYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNTcKICAgIC8vIGNvbnN0IHJlY29yZCA9IHRoaXMuZ2V0RmlsZShmaWxlSWQpCiAgICBmcmFtZV9kaWcgLTIKICAgIGNhbGxzdWIgZ2V0RmlsZQogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM1OAogICAgLy8gaWYgKHJlY29yZC5pc0RlbGV0ZWQubmF0aXZlKSByZXR1cm4gZmFsc2UKICAgIGZyYW1lX2RpZyAwCiAgICBwdXNoaW50IDU0NCAvLyA1NDQKICAgIGdldGJpdAogICAgYnl0ZWMgNSAvLyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGludGNfMCAvLyAwCiAgICBnZXRiaXQKICAgIGJ6IGNhbk9wZW5fYWZ0ZXJfaWZfZWxzZUA0CiAgICBpbnRjXzAgLy8gMAogICAgcmV0c3ViCgpjYW5PcGVuX2FmdGVyX2lmX2Vsc2VANDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzU5CiAgICAvLyBpZiAocmVjb3JkLm93bmVyLm5hdGl2ZSA9PT0gdXNlcikgcmV0dXJuIHRydWUKICAgIGZyYW1lX2RpZyAwCiAgICBleHRyYWN0IDAgMzIKICAgIGZyYW1lX2RpZyAtMQogICAgPT0KICAgIGJ6IGNhbk9wZW5fYWZ0ZXJfaWZfZWxzZUA2CiAgICBpbnRjXzEgLy8gMQogICAgcmV0c3ViCgpjYW5PcGVuX2FmdGVyX2lmX2Vsc2VANjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzYwCiAgICAvLyBpZiAodGhpcy5ncmFudExldmVsKGZpbGVJZCwgdXNlcikgPiBVaW50NjQoMCkpIHJldHVybiB0cnVlCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgY2FsbHN1YiBncmFudExldmVsCiAgICBpbnRjXzAgLy8gMAogICAgPgogICAgYnogY2FuT3Blbl9hZnRlcl9pZl9lbHNlQDgKICAgIGludGNfMSAvLyAxCiAgICByZXRzdWIKCmNhbk9wZW5fYWZ0ZXJfaWZfZWxzZUA4OgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNjEKICAgIC8vIHJldHVybiB0aGlzLmNhblJlYWRHcm91cEZpbGVzKHJlY29yZC5ncm91cElkLmFzVWludDY0KCksIHVzZXIpCiAgICBmcmFtZV9kaWcgMAogICAgZXh0cmFjdCAzNiA4CiAgICBidG9pCiAgICBmcmFtZV9kaWcgLTEKICAgIGNhbGxzdWIgY2FuUmVhZEdyb3VwRmlsZXMKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OkZpbGVSZWdpc3RyeS5hc3NlcnRJbXBvcnRpbmcoKSAtPiB2b2lkOgphc3NlcnRJbXBvcnRpbmc6CiAgICBwcm90byAwIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDE4CiAgICAvLyBwcml2YXRlIGFzc2VydEltcG9ydGluZygpOiB2b2lkIHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDE5CiAgICAvLyBhc3NlcnQoVHhuLnNlbmRlciA9PT0gR2xvYmFsLmNyZWF0b3JBZGRyZXNzLCAnT25seSB0aGUgY3JlYXRvciBjYW4gaW1wb3J0JykKICAgIHR4biBTZW5kZXIKICAgIGdsb2JhbCBDcmVhdG9yQWRkcmVzcwogICAgPT0KICAgIGFzc2VydCAvLyBPbmx5IHRoZSBjcmVhdG9yIGNhbiBpbXBvcnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDIwCiAgICAvLyBhc3NlcnQodGhpcy5pbXBvcnRDbG9zZWQudmFsdWUgPT09IFVpbnQ2NCgwKSwgJ0ltcG9ydCBpcyBjbG9zZWQnKQogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjIDExIC8vICJpbXBvcnRDbG9zZWQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgaW50Y18wIC8vIDAKICAgID09CiAgICBhc3NlcnQgLy8gSW1wb3J0IGlzIGNsb3NlZAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6RmlsZVJlZ2lzdHJ5LmNhblJlYWRHcm91cEZpbGVzKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHVpbnQ2NDoKY2FuUmVhZEdyb3VwRmlsZXM6CiAgICBwcm90byAyIDEKICAgIGJ5dGVjXzAgLy8gMHgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTk4CiAgICAvLyBwcml2YXRlIGNhblJlYWRHcm91cEZpbGVzKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogQWNjb3VudCk6IGJvb2xlYW4gewogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOTkKICAgIC8vIGlmICghdGhpcy5oYXNHcm91cChncm91cElkKSkgcmV0dXJuIGZhbHNlCiAgICBmcmFtZV9kaWcgLTIKICAgIGNhbGxzdWIgaGFzR3JvdXAKICAgICEKICAgIGJ6IGNhblJlYWRHcm91cEZpbGVzX2FmdGVyX2lmX2Vsc2VAMgogICAgaW50Y18wIC8vIDAKICAgIHJldHN1YgoKY2FuUmVhZEdyb3VwRmlsZXNfYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2ZpbGVfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDAKICAgIC8vIHJldHVybiBhcmM0LmFiaUNhbGw8dHlwZW9mIEdyb3VwUmVnaXN0cnkucHJvdG90eXBlLmNhblJlYWRGaWxlcz4oewogICAgaXR4bl9iZWdpbgogICAgaW50Y18wIC8vIDAKICAgIGl0eG5fZmllbGQgRmVlCiAgICBwdXNoaW50IDYgLy8gNgogICAgaXR4bl9maWVsZCBUeXBlRW51bQogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjIDkgLy8gImdyb3VwUmVnaXN0cnlBcHBJZCIKICAgIGFwcF9nbG9iYWxfZ2V0X2V4CiAgICBhc3NlcnQgLy8gY2hlY2sgR2xvYmFsU3RhdGUgZXhpc3RzCiAgICBpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uSUQKICAgIHB1c2hieXRlcyAweGY3MDg0ZDRlIC8vIG1ldGhvZCAiY2FuUmVhZEZpbGVzKHVpbnQ2NCxhZGRyZXNzKWJvb2wiCiAgICBpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwogICAgZnJhbWVfZGlnIC0yCiAgICBpdG9iCiAgICBpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwogICAgZnJhbWVfZGlnIC0xCiAgICBpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwogICAgaXR4bl9zdWJtaXQKICAgIGl0eG4gTGFzdExvZwogICAgZnJhbWVfYnVyeSAwCiAgICBmcmFtZV9kaWcgMAogICAgZXh0cmFjdCA0IDAKICAgIGZyYW1lX2RpZyAwCiAgICBleHRyYWN0IDAgNAogICAgYnl0ZWMgNCAvLyAweDE1MWY3Yzc1CiAgICA9PQogICAgYXNzZXJ0IC8vIEJ5dGVzIGhhcyB2YWxpZCBwcmVmaXgKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzEgLy8gMQogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5ib29sCiAgICBpbnRjXzAgLy8gMAogICAgZ2V0Yml0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpGaWxlUmVnaXN0cnkuaGFzR3JvdXAoZ3JvdXBJZDogdWludDY0KSAtPiB1aW50NjQ6Cmhhc0dyb3VwOgogICAgcHJvdG8gMSAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZmlsZV9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5MwogICAgLy8gcHJpdmF0ZSBoYXNHcm91cChncm91cElkOiB1aW50NjQpOiBib29sZWFuIHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9maWxlX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTk0CiAgICAvLyByZXR1cm4gZ3JvdXBJZCAhPT0gVWludDY0KDApICYmIHRoaXMuZ3JvdXBSZWdpc3RyeUFwcElkLnZhbHVlICE9PSBVaW50NjQoMCkKICAgIGZyYW1lX2RpZyAtMQogICAgaW50Y18wIC8vIDAKICAgICE9CiAgICBkdXAKICAgIGJ6IGhhc0dyb3VwX2Jvb2xfbWVyZ2VAMQogICAgcG9wCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWMgOSAvLyAiZ3JvdXBSZWdpc3RyeUFwcElkIgogICAgYXBwX2dsb2JhbF9nZXRfZXgKICAgIGFzc2VydCAvLyBjaGVjayBHbG9iYWxTdGF0ZSBleGlzdHMKICAgIGludGNfMCAvLyAwCiAgICAhPQoKaGFzR3JvdXBfYm9vbF9tZXJnZUAxOgogICAgcmV0c3ViCg==","clear":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYmFzZS1jb250cmFjdC5kLnRzOjpCYXNlQ29udHJhY3QuY2xlYXJTdGF0ZVByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBwdXNoaW50IDEgLy8gMQogICAgcmV0dXJuCg=="},"byteCode":{"approval":"CyAIAAECCCBJIkcmDAACZnIIAAAAAAAAAAACYWcEFR98dQEACWZpbGVDb3VudAJmdgIAABJncm91cFJlZ2lzdHJ5QXBwSWQCZWsMaW1wb3J0Q2xvc2VkMRgUQQADiAO5MRkURDEYQQCUghQEEQfTegR5W2DfBAf78HAEytSNHQSfVPz5BNTbifgE3Jkq4AS28i9GBDQP5rsEjMTvKATf1BW6BEJUY+gE8zt1+gS28zA9BNGstA0EwL1nNQQ7Pc/TBFmNuZcE4ypSygQ5VqDENhoAjhQAHQArAJkAwQDPAOYBMAFHAVoBdgGYAboB1gH1AhACGwKIArkC+gMYAIAElzthbzYaAI4BAAEANhoBSRUlEkQXiAMVI0M2GgFJFSUSRBeIAxQjQzEWIwlJOBAjEkQ2GgFJIlkkCEsBFRJEVwIANhoCSSJZJAhLARUSRFcCADYaA0kVJRJEFzYaBEkiWSQISwEVEkRXAgA2GgVJIlkkCEsBFRJEVwIANhoGSSJZJAhLARUSRFcCAIgCuxYnBExQsCNDMRYjCUk4ECMSRDYaAUkVJRJEFzYaAkkiWSQISwEVEkRXAgCIBFcjQzYaAUkVJRJEF4gFtSNDNhoBSRUlEkQXNhoCSRUlEkQXiAevI0MxFiMJSTgQIxJENhoBSRUlEkQXNhoCSRUhBBJENhoDSSJZJAhLARUSRFcCADYaBEkiWSQISwEVEkRXAgA2GgVJFSUSRBeIB+gjQzYaAUkVJRJEFzYaAkkVIQQSRIgJeSNDNhoBSRUlEkQXiAmyJwRMULAjQzYaAUkVJRJEFzYaAkkVJRJEF4gJnycETFCwI0M2GgFJFSUSRBc2GgJJFSEEEkSICbcnBSJPAlQnBExQsCNDNhoBSRUlEkQXNhoCSRUhBBJEiAmgJwUiTwJUJwRMULAjQzYaAUkVJRJEFzYaAkkVIQQSRIgJiScETFCwI0MxFiMJSTgQIxJENhoBSSJZJAhLARUSRFcCAIgKLiNDNhoBSRUhBBJEiApvSRUWVwYCTFAnBExQsCNDiAp1FicETFCwI0M2GgFJFSUSRBc2GgKBc0sBIQRZSwESREsBSwFZJAgISwEhBllLARJESwFLAVkkCAhLAYFFWUsBEkRLAUsBWSQICEsBIQdZSwESREsBSwFZJAgISwEhBVlLARJESwFLAVkkCAhLARUSRIgKCyNDNhoBSRUlEkQXNhoCSRUlEkQXNhoDgTJLASJZSwESREsBSwFZJAgISwEVEkSIChsjQzYaAUkVJRJEFzYaAkkVIQQSRDYaA4E8SwEiWUsBEkRLAUsBWSQICEsBJFlLARJESwFLAVkkCAhLARUSRIgKEyNDNhoBSRUhBBJENhoCSSJZJAhLARUSRFcCAIgKNCNDiApCI0OKAACICkgnBiJnJwkiZycLImeJigEAJwYiZycJi/9niYoBADEAMgkSRCcJi/9niYoHASIiKCgoKCgoKCgoKCgoKCgoKCgoKCgiKCgoKCgiKCIiKCgoKCIyCnMBRIwAJwYiJwZlRCMIZyInBmVEjAExAIv6SRUWVwYCTFCL+0kVFlcGAkxQi/wWMgcWMgcWgAgAAAAAAAAAAScFi/1JFRZXBgJMUIv+SRUWVwYCTFCL/0kVFlcGAkxQMQAqjA6MDYwMjAuMCowJjAiMB4wGjAWMBIwDjAKLAowPiwOMEIsEjBGLBYwSiwaME4sHjBSLCIwViwkiU4wWiwqMF4sLjBiLDIwZiw2MGosOjBsogXOMHIsPUIscFlcGAlCLHIsQFQiMHIscFlcGAlCLHIsRFQiMHIsSUIsTUIsUUIsVUCcFIosWVFCLHBZXBgJQixyLFxUIjByLHBZXBgJQixyLGBUIjByLHBZXBgJQixpQixtQixBQixFQixdQixhQixlQjB0piwEWUIsdSwG8SL+LAIgIwYweix2LHhZca4wdKYsBFlCLHUsBvEi/iwEji/qICL+MH4v5ix6LHwiICVaABKNPGLOLARaMIDEAjCGL/BaMIov6SRUWVwYCTFCMIyiBMowkiyBQiyFQiyJQiyQWVwYCUIsjUFCwiwGJigMAKCIiIiIoKCgoIov+iAkjjACLAFcAIDEAEklAAAtIi/4xAIgJIYEDD0SLAIGgBFMnBSJPAlQiUxREMgpzAUSMAYsAVzwIFyMIjAKLAIv/SRUWVwYCTFBLASEEWUsCIQZZSwNLAUsFFVJMSwIJSwMVTgVOBU8DIk8DUk8CUExQSSEGWUsCCEsDCRZXBgJcIkmBRVlLAghLAwkWVwYCXEVJIQdZSwIISwMJFlcGAlxHSSEFWUsCCEsDCRZXBgJcSU4CSEiMAIsAMgcWXDSMAIsAiwIWXDyMACmL/hZQiwBLAbxIv4sBiAdvjAOLAFdLIDEAEklBAAVIiwMiDUEAHIsAiwBXawgXiwMIFlxrjAApi/4WUIsASwG8SL+L/osCi/+IB1GMBIv9iwOLBAiIB+iABDEIfo+L/haMBTEAjAaLAhaMB4v/SRUWVwYCTFCMCCiBMowJiwVQiwZQiwdQiwkWVwYCUIsIUFCwiYoBACgiKCIoKIv/iAe7jACLAFcAIDEAEkQyCnMBRIwBiwBXSyCMAosAV2sIF4wDiwCBoASAAYAiU1SMAIsAJwhLASEEWUsCIQZZSwNLAUsFFVJMSwIJSwMVTgVOBU8DIk8DUk8CUExQSSEGWUsCCEsDCRZXBgJcIkmBRVlLAghLAwkWVwYCXEVJIQdZSwIISwMJFlcGAlxHSSEFWUsCCEsDCRZXBgJcSU4CSEiMAIsAJwhLASEGWUsCgUVZSwNLAUsFFVJMSwIJSwMVTgVOBU8DIk8DUk8CUExQSYFFWUsCCEsDCRZXBgJcRUkhB1lLAghLAwkWVwYCXEdJIQVZSwIISwMJFlcGAlxJTgJISIwAiwAnCEsBgUVZSwIhB1lLA0sBSwUVUkxLAglLAxVOBU4FTwMiTwNSTwJQTFBJIQdZSwIISwMJFlcGAlxHSSEFWUsCCEsDCRZXBgJcSU4CSEiMAIsAJwhLASEHWUsCIQVZSwNLAUsFFVJMSwIJSwMVTgVOBU8DIk8DUk8CUExQSSEFWUsCCEsDCRZXBgJcSU4CSEiMAIsAJwhLASEFWUsCFUsDSwFLBRVSTEsCCUsDFU4FTgVPAyJPA1JPAlBMUE4CSEiMAIsAMgNcS4wAiwAqXGuMACmL/xZQiwBLAbxIv4sCiwOLAYgGeIAESQaYeYv/FowEMQCMBSiLBFCLBVBQsImKAgAoIiIoKCgoIov+iAWojACLAIGgBFMnBSJPAlQiU0SL/ov/jAKMAYsBFowDiwIWjAQoiwNQiwRQjAUnB4sFUL1FAUQnB4sFUL5EjAaLAFcAIDEAEklAAAlIiwZXAiAxABJEMgpzAUSMBycHiwVQvEiLBlcCIIsGVyoIF4sHiAXdiYoGACgiKCgoKCgoIigoKCgoKCgoKCgoKCIoKCgiKCgoKCgoKCKL+4gFC4wAiwCBoARTJwUiTwJUIlMURIv9iAXeIg1Ei/uL/IwCjAGLARaMA4sCjAQoiwNQiwRQjAWLAFcAIDEAE0EAFYv7MQCIBNmBBA9Ei/uL/IgEziISRIsFVwAIFxaMBosFVwggjAcoiwZQiwdQiAXcMgpzAUSMCIv9SRUWVwYCTFCL/kkVFlcGAkxQMgcWi/8WMQAqjA6MDYwMjAuMCowJiwmMD4sKjBCLC4wRiwyMEosNjBOLDowUKIE8jBWLFRZXBgJQixWLDxUIjBWLFRZXBgJQixFQixJQixNQixRQiw9QixBQjBYriwVXAAgXFowXiwVXCCCMGCiLF1CLGFBQixZLAbxIv4sIiAMljBmLFosZFlw0jBYriwVXAAgXFowaiwVXCCCMGyiLGlCLG1BQixZLAbxIv4v6ixmIA7OABAd621SL+xaMHDEAjB2L/Iwei/1JFRZXBgJMUIwfi/8WjCAogVKMIYscUIsdUIseUIshFlcGAlCLIFCLH1BQsImKAgAoKCgoKIv+iAOAVwAgMQASRIv+FowAi/+MASiLAFCLAVCIBKWABHdfEOaL/haMAjEAjAOL/4wEKIsCUIsDUIsEUFCwiYoBAYv/iAM+iYoCASIiKCgoi/6L/4wBjACLABaMAosBFowDKIsCUIsDUIwEJweLBFC9RQFEJweLBFC+RImKAgGL/ov/iAR1iYoCAYv+i/+IBGqJigIBIigoKCgoKCgoKCgoKCgoKCgoKCgoIov+i/+MAYwAiwAWjAKLAYwDKIsCUIsDUIwEK4sEVwAIFxaMBYsEVwggjAYoiwVQiwZQUL1FAUEAHCuLBFcACBcWjAeLBFcIIIwIKIsHUIsIUFC+RIknCCcIKioyAyqMDowNjAyMC4wKjAmLCYwPiwqMEIsLjBGLDIwSiw2ME4sOjBQogTyMFYsVFlcGAlCLFYsPFQiMFYsVFlcGAlCLEVCLElCLE1CLFFCLD1CLEFCJigIAIigoIjIKcwFEjAAnCjEAUIv/SwG8SL+L/osAiAEtiAHqgASsBPetMQCMAYv/SRUWVwYCTFCMAighBowDiwFQiwMWVwYCUIsCUFCwiYoBAScKi/9QvUUBQQAIJwqL/1C+RIkoiYoAASInBmVEiYoCACiIA3wpi/4WUL1FARREi/+MAIsAMgNcS4wAiwAqXGuMACmL/hZQiwBLAbxIv4v+IicGZUQNQQAFJwaL/meJigMAKCgoiAM5KYv9FlC9RQFEi/+MAIsAKlwqjAAnB4v9FowBi/4WjAIoiwFQiwJQUIsASwG8SL+JigMAKCgoiAMAKYv9FlC9RQFEi/+MAIsAMgNcFIwAiwAqXDSMACuL/RaMAYv+jAIoiwFQiwJQUIsASwG8SL+JigIAiALEJwqL/lCL/0sBvEi/iYoAADEAMgkSRCcLI2eJigAAiYoBASIyCnMBRIwAiwCL/w1BAAiLAIv/CUIAASKJigMBIiIoKCgiKCgoKCgoKCgiKCKL/Yv+jAGMAIsAFowCiwEWjAMoiwJQiwNQjAQyCnMBRIwFi/9JFRZXBgJMUDEAMgcWKowJjAiMB4wGiwaMCosHjAuLCIwMiwmMDSiBMowOiw4WVwYCUIsLUIsMUIsNUIsKUIwPJweLBFCLD0sBvEi/iwWI/1qMEIsPixAWXCqMDycHiwRQiw9LAbxIv4sQiYoCAIv+OAcyChJEi/44ADEAEkSL/jgIi/8SRImKAQEpi/8WUL1FAUQpi/8WUL5EiYoCASIoKCgoKCgoKCgii/6L/4wBjACLABaMAosBjAMoiwJQiwNQjAQriwRXAAgXFowFiwRXCCCMBiiLBVCLBlBQvUUBFEEAAiKJK4sEVwAIFxaMB4sEVwggjAgoiwdQiwhQUL5EjAmLCVcMCBeMCosKIhNJQQAGSIsKMgcOQQACIomLCUkiWUsBJFlSVwIAiABEiYoDACIii/8yCnMBRAmMAIsAi/4MQQAFiwBCAAKL/owBi/0yAxJJQAAFSIsBIhJBAAGJsSKyASOyEIv9sgeLAbIIs4mKAQGL/4AHcmVzaGFyZRJBAAOBBImL/4AFd3JpdGUSQQADgQOJi/+ACGRvd25sb2FkEklAAApIi/+ABHJlYWQSQQACJImL/4AEdmlldxJBAAIjiSKJigEAIigri/9QvUUBFEEAAYkyCnMBRIwAK4v/UL5EjAEri/9QvEiLAVcUIIsBVzQIF4sAiP8yiYoCASgpi/4WUL1FARRBAAIiiYv+iP5zjACLAIGgBFMnBSJPAlQiU0EAAiKJiwBXACCL/xJBAAIjiYv+i/+I/l4iDUEAAiOJiwBXJAgXi/+IABOJigAAMQAyCRJEIicLZUQiEkSJigIBKIv+iABBFEEAAiKJsSKyAYEGshAiJwllRLIYgAT3CE1OshqL/hayGov/shqztD6MAIsAVwQAiwBXAAQnBBJESRUjEkQiU4mKAQGL/yITSUEACEgiJwllRCITiQ==","clear":"C4EBQw=="},"events":[{"name":"FileRegistered","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"owner"},{"type":"uint64","name":"groupId"},{"type":"string","name":"cid"}]},{"name":"FileUpdated","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"editor"},{"type":"uint64","name":"version"},{"type":"string","name":"cid"}]},{"name":"FileDeleted","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"owner"}]},{"name":"AccessGranted","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"grantor"},{"type":"address","name":"user"},{"type":"string","name":"permission"},{"type":"uint64","name":"expiresAt"}]},{"name":"AccessRevoked","args":[{"type":"uint64","name":"fileId"},{"type":"address","name":"owner"},{"type":"address","name":"user"}]},{"name":"KeyRegistered","args":[{"type":"address","name":"user"},{"type":"string","name":"publicKey"}]}],"templateVariables":{}} as unknown as Arc56Contract
 
 /**
  * A state record containing binary data
@@ -65,17 +65,86 @@ export type Expand<T> = T extends (...args: infer A) => infer R
 
 // Type definitions for ARC-56 structs
 
-export type Object7Dc5F2F9 = {
+export type FileRecord = {
+  owner: string,
+  cid: string,
+  name: string,
+  groupId: bigint,
+  createdAt: bigint,
+  updatedAt: bigint,
+  versionCount: bigint,
+  isDeleted: boolean,
+  share1: string,
+  share2: string,
+  share3: string,
+  payer: string,
+  deposit: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a FileRecord to the struct representation
+ */
+export function FileRecordFromTuple(abiTuple: [string, string, string, bigint, bigint, bigint, bigint, boolean, string, string, string, string, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.FileRecord, APP_SPEC.structs) as FileRecord
+}
+
+export type FileVersion = {
+  cid: string,
+  uploader: string,
+  createdAt: bigint,
+  deposit: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a FileVersion to the struct representation
+ */
+export function FileVersionFromTuple(abiTuple: [string, string, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.FileVersion, APP_SPEC.structs) as FileVersion
+}
+
+export type AccessGrant = {
+  permission: string,
+  wrappedKey: string,
+  grantedAt: bigint,
+  expiresAt: bigint,
+  payer: string,
+  deposit: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a AccessGrant to the struct representation
+ */
+export function AccessGrantFromTuple(abiTuple: [string, string, bigint, bigint, string, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.AccessGrant, APP_SPEC.structs) as AccessGrant
+}
+
+export type GrantKey = {
   fileId: bigint,
   user: string
 }
 
 
 /**
- * Converts the ABI tuple representation of a Object7DC5F2F9 to the struct representation
+ * Converts the ABI tuple representation of a GrantKey to the struct representation
+ */
+export function GrantKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.GrantKey, APP_SPEC.structs) as GrantKey
+}
+
+export type ObjectDf87Bbd0 = {
+  fileId: bigint,
+  version: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a ObjectDF87BBD0 to the struct representation
  */
-export function Object7Dc5F2F9FromTuple(abiTuple: [bigint, string]) {
-  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Object7DC5F2F9, APP_SPEC.structs) as Object7Dc5F2F9
+export function ObjectDf87Bbd0FromTuple(abiTuple: [bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ObjectDF87BBD0, APP_SPEC.structs) as ObjectDf87Bbd0
 }
 
 /**
@@ -89,7 +158,11 @@ export type FileRegistryArgs = {
     'createApplication(uint64)void': {
       groupAppId: bigint | number
     }
-    'registerFile(string,string,uint64,string,string,string)uint64': {
+    'setGroupRegistry(uint64)void': {
+      groupAppId: bigint | number
+    }
+    'registerFile(pay,string,string,uint64,string,string,string)uint64': {
+      payment: AppMethodCallTransactionArgument
       cid: string
       filename: string
       groupId: bigint | number
@@ -97,110 +170,102 @@ export type FileRegistryArgs = {
       share2: string
       share3: string
     }
-    'updateFile(uint64,string)void': {
+    'updateFile(pay,uint64,string)void': {
+      payment: AppMethodCallTransactionArgument
       fileId: bigint | number
       newCid: string
     }
     'deleteFile(uint64)void': {
       fileId: bigint | number
     }
-    'grantAccess(uint64,string,string,string,uint64)void': {
+    'purgeVersion(uint64,uint64)void': {
+      fileId: bigint | number
+      version: bigint | number
+    }
+    'grantAccess(pay,uint64,address,string,string,uint64)void': {
+      payment: AppMethodCallTransactionArgument
       fileId: bigint | number
       user: string
       permission: string
       wrappedKey: string
       expiresAt: bigint | number
     }
-    'revokeAccess(uint64,string)void': {
+    'revokeAccess(uint64,address)void': {
       fileId: bigint | number
       user: string
     }
-    'getFileCid(uint64)string': {
-      fileId: bigint | number
-    }
-    'getFileOwner(uint64)string': {
-      fileId: bigint | number
-    }
-    'getFileName(uint64)string': {
-      fileId: bigint | number
-    }
-    'getFileGroupId(uint64)uint64': {
-      fileId: bigint | number
-    }
-    'getFileCreatedAt(uint64)uint64': {
+    'getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)': {
       fileId: bigint | number
     }
-    'getFileUpdatedAt(uint64)uint64': {
+    'getVersion(uint64,uint64)(string,address,uint64,uint64)': {
       fileId: bigint | number
+      version: bigint | number
     }
-    'getFileIsDeleted(uint64)uint64': {
+    'hasValidAccess(uint64,address)bool': {
       fileId: bigint | number
+      user: string
     }
-    'getFileShare1(uint64)string': {
+    'canReleaseKeyShares(uint64,address)bool': {
       fileId: bigint | number
+      user: string
     }
-    'getFileShare2(uint64)string': {
+    'getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)': {
       fileId: bigint | number
+      user: string
     }
-    'getFileShare3(uint64)string': {
-      fileId: bigint | number
+    'registerPublicKey(pay,string)void': {
+      payment: AppMethodCallTransactionArgument
+      publicKey: string
     }
-    'hasValidAccess(uint64,string)bool': {
-      fileId: bigint | number
+    'getEncryptionKey(address)string': {
       user: string
     }
-    'getAccessPermission(uint64,string)string': {
+    'getFileCount()uint64': Record<string, never>
+    'importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void': {
       fileId: bigint | number
-      user: string
+      record: FileRecord
     }
-    'getAccessWrappedKey(uint64,string)string': {
+    'importVersion(uint64,uint64,(string,address,uint64,uint64))void': {
       fileId: bigint | number
-      user: string
+      version: bigint | number
+      entry: FileVersion
     }
-    'getAccessExpiresAt(uint64,string)uint64': {
+    'importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void': {
       fileId: bigint | number
       user: string
+      grant: AccessGrant
     }
-    'getAccessGrantedAt(uint64,string)uint64': {
-      fileId: bigint | number
+    'importPublicKey(address,string)void': {
       user: string
-    }
-    'registerPublicKey(string)void': {
       publicKey: string
     }
-    'getEncryptionKey(string)string': {
-      user: string
-    }
-    'getFileCount()uint64': Record<string, never>
+    'finishImport()void': Record<string, never>
   }
   /**
    * The tuple representation of the arguments for each method
    */
   tuple: {
     'createApplication(uint64)void': [groupAppId: bigint | number]
-    'registerFile(string,string,uint64,string,string,string)uint64': [cid: string, filename: string, groupId: bigint | number, share1: string, share2: string, share3: string]
-    'updateFile(uint64,string)void': [fileId: bigint | number, newCid: string]
+    'setGroupRegistry(uint64)void': [groupAppId: bigint | number]
+    'registerFile(pay,string,string,uint64,string,string,string)uint64': [payment: AppMethodCallTransactionArgument, cid: string, filename: string, groupId: bigint | number, share1: string, share2: string, share3: string]
+    'updateFile(pay,uint64,string)void': [payment: AppMethodCallTransactionArgument, fileId: bigint | number, newCid: string]
     'deleteFile(uint64)void': [fileId: bigint | number]
-    'grantAccess(uint64,string,string,string,uint64)void': [fileId: bigint | number, user: string, permission: string, wrappedKey: string, expiresAt: bigint | number]
-    'revokeAccess(uint64,string)void': [fileId: bigint | number, user: string]
-    'getFileCid(uint64)string': [fileId: bigint | number]
-    'getFileOwner(uint64)string': [fileId: bigint | number]
-    'getFileName(uint64)string': [fileId: bigint | number]
-    'getFileGroupId(uint64)uint64': [fileId: bigint | number]
-    'getFileCreatedAt(uint64)uint64': [fileId: bigint | number]
-    'getFileUpdatedAt(uint64)uint64': [fileId: bigint | number]
-    'getFileIsDeleted(uint64)uint64': [fileId: bigint | number]
-    'getFileShare1(uint64)string': [fileId: bigint | number]
-    'getFileShare2(uint64)string': [fileId: bigint | number]
-    'getFileShare3(uint64)string': [fileId: bigint | number]
-    'hasValidAccess(uint64,string)bool': [fileId: bigint | number, user: string]
-    'getAccessPermission(uint64,string)string': [fileId: bigint | number, user: string]
-    'getAccessWrappedKey(uint64,string)string': [fileId: bigint | number, user: string]
-    'getAccessExpiresAt(uint64,string)uint64': [fileId: bigint | number, user: string]
-    'getAccessGrantedAt(uint64,string)uint64': [fileId: bigint | number, user: string]
-    'registerPublicKey(string)void': [publicKey: string]
-    'getEncryptionKey(string)string': [user: string]
+    'purgeVersion(uint64,uint64)void': [fileId: bigint | number, version: bigint | number]
+    'grantAccess(pay,uint64,address,string,string,uint64)void': [payment: AppMethodCallTransactionArgument, fileId: bigint | number, user: string, permission: string, wrappedKey: string, expiresAt: bigint | number]
+    'revokeAccess(uint64,address)void': [fileId: bigint | number, user: string]
+    'getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)': [fileId: bigint | number]
+    'getVersion(uint64,uint64)(string,address,uint64,uint64)': [fileId: bigint | number, version: bigint | number]
+    'hasValidAccess(uint64,address)bool': [fileId: bigint | number, user: string]
+    'canReleaseKeyShares(uint64,address)bool': [fileId: bigint | number, user: string]
+    'getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)': [fileId: bigint | number, user: string]
+    'registerPublicKey(pay,string)void': [payment: AppMethodCallTransactionArgument, publicKey: string]
+    'getEncryptionKey(address)string': [user: string]
     'getFileCount()uint64': []
+    'importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void': [fileId: bigint | number, record: FileRecord]
+    'importVersion(uint64,uint64,(string,address,uint64,uint64))void': [fileId: bigint | number, version: bigint | number, entry: FileVersion]
+    'importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void': [fileId: bigint | number, user: string, grant: AccessGrant]
+    'importPublicKey(address,string)void': [user: string, publicKey: string]
+    'finishImport()void': []
   }
 }
 
@@ -209,29 +274,26 @@ export type FileRegistryArgs = {
  */
 export type FileRegistryReturns = {
   'createApplication(uint64)void': void
-  'registerFile(string,string,uint64,string,string,string)uint64': bigint
-  'updateFile(uint64,string)void': void
+  'setGroupRegistry(uint64)void': void
+  'registerFile(pay,string,string,uint64,string,string,string)uint64': bigint
+  'updateFile(pay,uint64,string)void': void
   'deleteFile(uint64)void': void
-  'grantAccess(uint64,string,string,string,uint64)void': void
-  'revokeAccess(uint64,string)void': void
-  'getFileCid(uint64)string': string
-  'getFileOwner(uint64)string': string
-  'getFileName(uint64)string': string
-  'getFileGroupId(uint64)uint64': bigint
-  'getFileCreatedAt(uint64)uint64': bigint
-  'getFileUpdatedAt(uint64)uint64': bigint
-  'getFileIsDeleted(uint64)uint64': bigint
-  'getFileShare1(uint64)string': string
-  'getFileShare2(uint64)string': string
-  'getFileShare3(uint64)string': string
-  'hasValidAccess(uint64,string)bool': boolean
-  'getAccessPermission(uint64,string)string': string
-  'getAccessWrappedKey(uint64,string)string': string
-  'getAccessExpiresAt(uint64,string)uint64': bigint
-  'getAccessGrantedAt(uint64,string)uint64': bigint
-  'registerPublicKey(string)void': void
-  'getEncryptionKey(string)string': string
+  'purgeVersion(uint64,uint64)void': void
+  'grantAccess(pay,uint64,address,string,string,uint64)void': void
+  'revokeAccess(uint64,address)void': void
+  'getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)': FileRecord
+  'getVersion(uint64,uint64)(string,address,uint64,uint64)': FileVersion
+  'hasValidAccess(uint64,address)bool': boolean
+  'canReleaseKeyShares(uint64,address)bool': boolean
+  'getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)': AccessGrant
+  'registerPublicKey(pay,string)void': void
+  'getEncryptionKey(address)string': string
   'getFileCount()uint64': bigint
+  'importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void': void
+  'importVersion(uint64,uint64,(string,address,uint64,uint64))void': void
+  'importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void': void
+  'importPublicKey(address,string)void': void
+  'finishImport()void': void
 }
 
 /**
@@ -247,120 +309,105 @@ export type FileRegistryTypes = {
       argsTuple: FileRegistryArgs['tuple']['createApplication(uint64)void']
       returns: FileRegistryReturns['createApplication(uint64)void']
     }>
-    & Record<'registerFile(string,string,uint64,string,string,string)uint64' | 'registerFile', {
-      argsObj: FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64']
-      argsTuple: FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']
-      returns: FileRegistryReturns['registerFile(string,string,uint64,string,string,string)uint64']
+    & Record<'setGroupRegistry(uint64)void' | 'setGroupRegistry', {
+      argsObj: FileRegistryArgs['obj']['setGroupRegistry(uint64)void']
+      argsTuple: FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']
+      returns: FileRegistryReturns['setGroupRegistry(uint64)void']
+    }>
+    & Record<'registerFile(pay,string,string,uint64,string,string,string)uint64' | 'registerFile', {
+      argsObj: FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64']
+      argsTuple: FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']
+      returns: FileRegistryReturns['registerFile(pay,string,string,uint64,string,string,string)uint64']
     }>
-    & Record<'updateFile(uint64,string)void' | 'updateFile', {
-      argsObj: FileRegistryArgs['obj']['updateFile(uint64,string)void']
-      argsTuple: FileRegistryArgs['tuple']['updateFile(uint64,string)void']
-      returns: FileRegistryReturns['updateFile(uint64,string)void']
+    & Record<'updateFile(pay,uint64,string)void' | 'updateFile', {
+      argsObj: FileRegistryArgs['obj']['updateFile(pay,uint64,string)void']
+      argsTuple: FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']
+      returns: FileRegistryReturns['updateFile(pay,uint64,string)void']
     }>
     & Record<'deleteFile(uint64)void' | 'deleteFile', {
       argsObj: FileRegistryArgs['obj']['deleteFile(uint64)void']
       argsTuple: FileRegistryArgs['tuple']['deleteFile(uint64)void']
       returns: FileRegistryReturns['deleteFile(uint64)void']
     }>
-    & Record<'grantAccess(uint64,string,string,string,uint64)void' | 'grantAccess', {
-      argsObj: FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void']
-      argsTuple: FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']
-      returns: FileRegistryReturns['grantAccess(uint64,string,string,string,uint64)void']
+    & Record<'purgeVersion(uint64,uint64)void' | 'purgeVersion', {
+      argsObj: FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void']
+      argsTuple: FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']
+      returns: FileRegistryReturns['purgeVersion(uint64,uint64)void']
     }>
-    & Record<'revokeAccess(uint64,string)void' | 'revokeAccess', {
-      argsObj: FileRegistryArgs['obj']['revokeAccess(uint64,string)void']
-      argsTuple: FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']
-      returns: FileRegistryReturns['revokeAccess(uint64,string)void']
+    & Record<'grantAccess(pay,uint64,address,string,string,uint64)void' | 'grantAccess', {
+      argsObj: FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void']
+      argsTuple: FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']
+      returns: FileRegistryReturns['grantAccess(pay,uint64,address,string,string,uint64)void']
     }>
-    & Record<'getFileCid(uint64)string' | 'getFileCid', {
-      argsObj: FileRegistryArgs['obj']['getFileCid(uint64)string']
-      argsTuple: FileRegistryArgs['tuple']['getFileCid(uint64)string']
-      returns: FileRegistryReturns['getFileCid(uint64)string']
+    & Record<'revokeAccess(uint64,address)void' | 'revokeAccess', {
+      argsObj: FileRegistryArgs['obj']['revokeAccess(uint64,address)void']
+      argsTuple: FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']
+      returns: FileRegistryReturns['revokeAccess(uint64,address)void']
     }>
-    & Record<'getFileOwner(uint64)string' | 'getFileOwner', {
-      argsObj: FileRegistryArgs['obj']['getFileOwner(uint64)string']
-      argsTuple: FileRegistryArgs['tuple']['getFileOwner(uint64)string']
-      returns: FileRegistryReturns['getFileOwner(uint64)string']
+    & Record<'getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)' | 'getFileInfo', {
+      argsObj: FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']
+      argsTuple: FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']
+      returns: FileRegistryReturns['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']
     }>
-    & Record<'getFileName(uint64)string' | 'getFileName', {
-      argsObj: FileRegistryArgs['obj']['getFileName(uint64)string']
-      argsTuple: FileRegistryArgs['tuple']['getFileName(uint64)string']
-      returns: FileRegistryReturns['getFileName(uint64)string']
+    & Record<'getVersion(uint64,uint64)(string,address,uint64,uint64)' | 'getVersion', {
+      argsObj: FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)']
+      argsTuple: FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']
+      returns: FileRegistryReturns['getVersion(uint64,uint64)(string,address,uint64,uint64)']
     }>
-    & Record<'getFileGroupId(uint64)uint64' | 'getFileGroupId', {
-      argsObj: FileRegistryArgs['obj']['getFileGroupId(uint64)uint64']
-      argsTuple: FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']
-      returns: FileRegistryReturns['getFileGroupId(uint64)uint64']
+    & Record<'hasValidAccess(uint64,address)bool' | 'hasValidAccess', {
+      argsObj: FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool']
+      argsTuple: FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']
+      returns: FileRegistryReturns['hasValidAccess(uint64,address)bool']
     }>
-    & Record<'getFileCreatedAt(uint64)uint64' | 'getFileCreatedAt', {
-      argsObj: FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64']
-      argsTuple: FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']
-      returns: FileRegistryReturns['getFileCreatedAt(uint64)uint64']
+    & Record<'canReleaseKeyShares(uint64,address)bool' | 'canReleaseKeyShares', {
+      argsObj: FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool']
+      argsTuple: FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']
+      returns: FileRegistryReturns['canReleaseKeyShares(uint64,address)bool']
     }>
-    & Record<'getFileUpdatedAt(uint64)uint64' | 'getFileUpdatedAt', {
-      argsObj: FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64']
-      argsTuple: FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']
-      returns: FileRegistryReturns['getFileUpdatedAt(uint64)uint64']
+    & Record<'getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)' | 'getAccessGrant', {
+      argsObj: FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']
+      argsTuple: FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']
+      returns: FileRegistryReturns['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']
     }>
-    & Record<'getFileIsDeleted(uint64)uint64' | 'getFileIsDeleted', {
-      argsObj: FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64']
-      argsTuple: FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']
-      returns: FileRegistryReturns['getFileIsDeleted(uint64)uint64']
+    & Record<'registerPublicKey(pay,string)void' | 'registerPublicKey', {
+      argsObj: FileRegistryArgs['obj']['registerPublicKey(pay,string)void']
+      argsTuple: FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']
+      returns: FileRegistryReturns['registerPublicKey(pay,string)void']
     }>
-    & Record<'getFileShare1(uint64)string' | 'getFileShare1', {
-      argsObj: FileRegistryArgs['obj']['getFileShare1(uint64)string']
-      argsTuple: FileRegistryArgs['tuple']['getFileShare1(uint64)string']
-      returns: FileRegistryReturns['getFileShare1(uint64)string']
+    & Record<'getEncryptionKey(address)string' | 'getEncryptionKey', {
+      argsObj: FileRegistryArgs['obj']['getEncryptionKey(address)string']
+      argsTuple: FileRegistryArgs['tuple']['getEncryptionKey(address)string']
+      returns: FileRegistryReturns['getEncryptionKey(address)string']
     }>
-    & Record<'getFileShare2(uint64)string' | 'getFileShare2', {
-      argsObj: FileRegistryArgs['obj']['getFileShare2(uint64)string']
-      argsTuple: FileRegistryArgs['tuple']['getFileShare2(uint64)string']
-      returns: FileRegistryReturns['getFileShare2(uint64)string']
-    }>
-    & Record<'getFileShare3(uint64)string' | 'getFileShare3', {
-      argsObj: FileRegistryArgs['obj']['getFileShare3(uint64)string']
-      argsTuple: FileRegistryArgs['tuple']['getFileShare3(uint64)string']
-      returns: FileRegistryReturns['getFileShare3(uint64)string']
-    }>
-    & Record<'hasValidAccess(uint64,string)bool' | 'hasValidAccess', {
-      argsObj: FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool']
-      argsTuple: FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']
-      returns: FileRegistryReturns['hasValidAccess(uint64,string)bool']
-    }>
-    & Record<'getAccessPermission(uint64,string)string' | 'getAccessPermission', {
-      argsObj: FileRegistryArgs['obj']['getAccessPermission(uint64,string)string']
-      argsTuple: FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']
-      returns: FileRegistryReturns['getAccessPermission(uint64,string)string']
-    }>
-    & Record<'getAccessWrappedKey(uint64,string)string' | 'getAccessWrappedKey', {
-      argsObj: FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string']
-      argsTuple: FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']
-      returns: FileRegistryReturns['getAccessWrappedKey(uint64,string)string']
+    & Record<'getFileCount()uint64' | 'getFileCount', {
+      argsObj: FileRegistryArgs['obj']['getFileCount()uint64']
+      argsTuple: FileRegistryArgs['tuple']['getFileCount()uint64']
+      returns: FileRegistryReturns['getFileCount()uint64']
     }>
-    & Record<'getAccessExpiresAt(uint64,string)uint64' | 'getAccessExpiresAt', {
-      argsObj: FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64']
-      argsTuple: FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']
-      returns: FileRegistryReturns['getAccessExpiresAt(uint64,string)uint64']
+    & Record<'importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void' | 'importFile', {
+      argsObj: FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']
+      argsTuple: FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']
+      returns: FileRegistryReturns['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']
     }>
-    & Record<'getAccessGrantedAt(uint64,string)uint64' | 'getAccessGrantedAt', {
-      argsObj: FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64']
-      argsTuple: FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']
-      returns: FileRegistryReturns['getAccessGrantedAt(uint64,string)uint64']
+    & Record<'importVersion(uint64,uint64,(string,address,uint64,uint64))void' | 'importVersion', {
+      argsObj: FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']
+      argsTuple: FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']
+      returns: FileRegistryReturns['importVersion(uint64,uint64,(string,address,uint64,uint64))void']
     }>
-    & Record<'registerPublicKey(string)void' | 'registerPublicKey', {
-      argsObj: FileRegistryArgs['obj']['registerPublicKey(string)void']
-      argsTuple: FileRegistryArgs['tuple']['registerPublicKey(string)void']
-      returns: FileRegistryReturns['registerPublicKey(string)void']
+    & Record<'importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void' | 'importGrant', {
+      argsObj: FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']
+      argsTuple: FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']
+      returns: FileRegistryReturns['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']
     }>
-    & Record<'getEncryptionKey(string)string' | 'getEncryptionKey', {
-      argsObj: FileRegistryArgs['obj']['getEncryptionKey(string)string']
-      argsTuple: FileRegistryArgs['tuple']['getEncryptionKey(string)string']
-      returns: FileRegistryReturns['getEncryptionKey(string)string']
+    & Record<'importPublicKey(address,string)void' | 'importPublicKey', {
+      argsObj: FileRegistryArgs['obj']['importPublicKey(address,string)void']
+      argsTuple: FileRegistryArgs['tuple']['importPublicKey(address,string)void']
+      returns: FileRegistryReturns['importPublicKey(address,string)void']
     }>
-    & Record<'getFileCount()uint64' | 'getFileCount', {
-      argsObj: FileRegistryArgs['obj']['getFileCount()uint64']
-      argsTuple: FileRegistryArgs['tuple']['getFileCount()uint64']
-      returns: FileRegistryReturns['getFileCount()uint64']
+    & Record<'finishImport()void' | 'finishImport', {
+      argsObj: FileRegistryArgs['obj']['finishImport()void']
+      argsTuple: FileRegistryArgs['tuple']['finishImport()void']
+      returns: FileRegistryReturns['finishImport()void']
     }>
   /**
    * Defines the shape of the state of the application.
@@ -370,27 +417,16 @@ export type FileRegistryTypes = {
       keys: {
         fileCount: bigint
         groupRegistryAppId: bigint
+        importClosed: bigint
       }
       maps: {}
     }
     box: {
       keys: {}
       maps: {
-        fileCids: Map<bigint | number, string>
-        fileOwners: Map<bigint | number, string>
-        fileNames: Map<bigint | number, string>
-        fileGroupIds: Map<bigint | number, bigint>
-        fileCreatedAt: Map<bigint | number, bigint>
-        fileUpdatedAt: Map<bigint | number, bigint>
-        fileIsDeleted: Map<bigint | number, bigint>
-        fileShare1: Map<bigint | number, string>
-        fileShare2: Map<bigint | number, string>
-        fileShare3: Map<bigint | number, string>
-        accessHas: Map<Object7Dc5F2F9, bigint>
-        accessPermission: Map<Object7Dc5F2F9, string>
-        accessWrappedKey: Map<Object7Dc5F2F9, string>
-        accessGrantedAt: Map<Object7Dc5F2F9, bigint>
-        accessExpiresAt: Map<Object7Dc5F2F9, bigint>
+        files: Map<bigint | number, FileRecord>
+        versions: Map<ObjectDf87Bbd0, FileVersion>
+        grants: Map<GrantKey, AccessGrant>
         encryptionKeys: Map<string, string>
       }
     }
@@ -487,301 +523,262 @@ export abstract class FileRegistryParamsFactory {
   }
 
   /**
-   * Constructs a no op call for the registerFile(string,string,uint64,string,string,string)uint64 ABI method
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static registerFile(params: CallParams<FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'registerFile(string,string,uint64,string,string,string)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.cid, params.args.filename, params.args.groupId, params.args.share1, params.args.share2, params.args.share3],
-    }
-  }
-  /**
-   * Constructs a no op call for the updateFile(uint64,string)void ABI method
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static updateFile(params: CallParams<FileRegistryArgs['obj']['updateFile(uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(uint64,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'updateFile(uint64,string)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.newCid],
-    }
-  }
-  /**
-   * Constructs a no op call for the deleteFile(uint64)void ABI method
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static deleteFile(params: CallParams<FileRegistryArgs['obj']['deleteFile(uint64)void'] | FileRegistryArgs['tuple']['deleteFile(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'deleteFile(uint64)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
-    }
-  }
-  /**
-   * Constructs a no op call for the grantAccess(uint64,string,string,string,uint64)void ABI method
+   * Constructs a no op call for the setGroupRegistry(uint64)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static grantAccess(params: CallParams<FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static setGroupRegistry(params: CallParams<FileRegistryArgs['obj']['setGroupRegistry(uint64)void'] | FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'grantAccess(uint64,string,string,string,uint64)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user, params.args.permission, params.args.wrappedKey, params.args.expiresAt],
+      method: 'setGroupRegistry(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupAppId],
     }
   }
   /**
-   * Constructs a no op call for the revokeAccess(uint64,string)void ABI method
+   * Constructs a no op call for the registerFile(pay,string,string,uint64,string,string,string)uint64 ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static revokeAccess(params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,string)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static registerFile(params: CallParams<FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'revokeAccess(uint64,string)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
+      method: 'registerFile(pay,string,string,uint64,string,string,string)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.payment, params.args.cid, params.args.filename, params.args.groupId, params.args.share1, params.args.share2, params.args.share3],
     }
   }
   /**
-   * Constructs a no op call for the getFileCid(uint64)string ABI method
+   * Constructs a no op call for the updateFile(pay,uint64,string)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileCid(params: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static updateFile(params: CallParams<FileRegistryArgs['obj']['updateFile(pay,uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileCid(uint64)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'updateFile(pay,uint64,string)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.payment, params.args.fileId, params.args.newCid],
     }
   }
   /**
-   * Constructs a no op call for the getFileOwner(uint64)string ABI method
+   * Constructs a no op call for the deleteFile(uint64)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileOwner(params: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static deleteFile(params: CallParams<FileRegistryArgs['obj']['deleteFile(uint64)void'] | FileRegistryArgs['tuple']['deleteFile(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileOwner(uint64)string' as const,
+      method: 'deleteFile(uint64)void' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.fileId],
     }
   }
   /**
-   * Constructs a no op call for the getFileName(uint64)string ABI method
+   * Constructs a no op call for the purgeVersion(uint64,uint64)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileName(params: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static purgeVersion(params: CallParams<FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void'] | FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileName(uint64)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'purgeVersion(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.version],
     }
   }
   /**
-   * Constructs a no op call for the getFileGroupId(uint64)uint64 ABI method
+   * Constructs a no op call for the grantAccess(pay,uint64,address,string,string,uint64)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileGroupId(params: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static grantAccess(params: CallParams<FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileGroupId(uint64)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'grantAccess(pay,uint64,address,string,string,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.payment, params.args.fileId, params.args.user, params.args.permission, params.args.wrappedKey, params.args.expiresAt],
     }
   }
   /**
-   * Constructs a no op call for the getFileCreatedAt(uint64)uint64 ABI method
+   * Constructs a no op call for the revokeAccess(uint64,address)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileCreatedAt(params: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static revokeAccess(params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,address)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileCreatedAt(uint64)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'revokeAccess(uint64,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the getFileUpdatedAt(uint64)uint64 ABI method
+   * Constructs a no op call for the getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64) ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileUpdatedAt(params: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getFileInfo(params: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileUpdatedAt(uint64)uint64' as const,
+      method: 'getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.fileId],
     }
   }
   /**
-   * Constructs a no op call for the getFileIsDeleted(uint64)uint64 ABI method
+   * Constructs a no op call for the getVersion(uint64,uint64)(string,address,uint64,uint64) ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileIsDeleted(params: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getVersion(params: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileIsDeleted(uint64)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'getVersion(uint64,uint64)(string,address,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.version],
     }
   }
   /**
-   * Constructs a no op call for the getFileShare1(uint64)string ABI method
+   * Constructs a no op call for the hasValidAccess(uint64,address)bool ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileShare1(params: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static hasValidAccess(params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileShare1(uint64)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'hasValidAccess(uint64,address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the getFileShare2(uint64)string ABI method
+   * Constructs a no op call for the canReleaseKeyShares(uint64,address)bool ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileShare2(params: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static canReleaseKeyShares(params: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileShare2(uint64)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'canReleaseKeyShares(uint64,address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the getFileShare3(uint64)string ABI method
+   * Constructs a no op call for the getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64) ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileShare3(params: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getAccessGrant(params: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileShare3(uint64)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId],
+      method: 'getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the hasValidAccess(uint64,string)bool ABI method
+   * Constructs a no op call for the registerPublicKey(pay,string)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static hasValidAccess(params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static registerPublicKey(params: CallParams<FileRegistryArgs['obj']['registerPublicKey(pay,string)void'] | FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'hasValidAccess(uint64,string)bool' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
+      method: 'registerPublicKey(pay,string)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.payment, params.args.publicKey],
     }
   }
   /**
-   * Constructs a no op call for the getAccessPermission(uint64,string)string ABI method
+   * Constructs a no op call for the getEncryptionKey(address)string ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getAccessPermission(params: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getEncryptionKey(params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getAccessPermission(uint64,string)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
+      method: 'getEncryptionKey(address)string' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the getAccessWrappedKey(uint64,string)string ABI method
+   * Constructs a no op call for the getFileCount()uint64 ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getAccessWrappedKey(params: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getFileCount(params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getAccessWrappedKey(uint64,string)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
+      method: 'getFileCount()uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [],
     }
   }
   /**
-   * Constructs a no op call for the getAccessExpiresAt(uint64,string)uint64 ABI method
+   * Constructs a no op call for the importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getAccessExpiresAt(params: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static importFile(params: CallParams<FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getAccessExpiresAt(uint64,string)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
+      method: 'importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.record],
     }
   }
   /**
-   * Constructs a no op call for the getAccessGrantedAt(uint64,string)uint64 ABI method
+   * Constructs a no op call for the importVersion(uint64,uint64,(string,address,uint64,uint64))void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getAccessGrantedAt(params: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static importVersion(params: CallParams<FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getAccessGrantedAt(uint64,string)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user],
+      method: 'importVersion(uint64,uint64,(string,address,uint64,uint64))void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.version, params.args.entry],
     }
   }
   /**
-   * Constructs a no op call for the registerPublicKey(string)void ABI method
+   * Constructs a no op call for the importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static registerPublicKey(params: CallParams<FileRegistryArgs['obj']['registerPublicKey(string)void'] | FileRegistryArgs['tuple']['registerPublicKey(string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static importGrant(params: CallParams<FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'registerPublicKey(string)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.publicKey],
+      method: 'importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.fileId, params.args.user, params.args.grant],
     }
   }
   /**
-   * Constructs a no op call for the getEncryptionKey(string)string ABI method
+   * Constructs a no op call for the importPublicKey(address,string)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getEncryptionKey(params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static importPublicKey(params: CallParams<FileRegistryArgs['obj']['importPublicKey(address,string)void'] | FileRegistryArgs['tuple']['importPublicKey(address,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getEncryptionKey(string)string' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.user],
+      method: 'importPublicKey(address,string)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.user, params.args.publicKey],
     }
   }
   /**
-   * Constructs a no op call for the getFileCount()uint64 ABI method
+   * Constructs a no op call for the finishImport()void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getFileCount(params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static finishImport(params: CallParams<FileRegistryArgs['obj']['finishImport()void'] | FileRegistryArgs['tuple']['finishImport()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getFileCount()uint64' as const,
+      method: 'finishImport()void' as const,
       args: Array.isArray(params.args) ? params.args : [],
     }
   }
@@ -1027,267 +1024,217 @@ export class FileRegistryClient {
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `registerFile(string,string,uint64,string,string,string)uint64` ABI method.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    registerFile: (params: CallParams<FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.registerFile(params))
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `updateFile(uint64,string)void` ABI method.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    updateFile: (params: CallParams<FileRegistryArgs['obj']['updateFile(uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.updateFile(params))
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `deleteFile(uint64)void` ABI method.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    deleteFile: (params: CallParams<FileRegistryArgs['obj']['deleteFile(uint64)void'] | FileRegistryArgs['tuple']['deleteFile(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.deleteFile(params))
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `grantAccess(uint64,string,string,string,uint64)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `setGroupRegistry(uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    grantAccess: (params: CallParams<FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.grantAccess(params))
+    setGroupRegistry: (params: CallParams<FileRegistryArgs['obj']['setGroupRegistry(uint64)void'] | FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.setGroupRegistry(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `revokeAccess(uint64,string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `registerFile(pay,string,string,uint64,string,string,string)uint64` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    revokeAccess: (params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,string)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.revokeAccess(params))
+    registerFile: (params: CallParams<FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.registerFile(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCid(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `updateFile(pay,uint64,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileCid: (params: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileCid(params))
+    updateFile: (params: CallParams<FileRegistryArgs['obj']['updateFile(pay,uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.updateFile(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileOwner(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `deleteFile(uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileOwner: (params: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileOwner(params))
+    deleteFile: (params: CallParams<FileRegistryArgs['obj']['deleteFile(uint64)void'] | FileRegistryArgs['tuple']['deleteFile(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.deleteFile(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileName(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `purgeVersion(uint64,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileName: (params: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileName(params))
+    purgeVersion: (params: CallParams<FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void'] | FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.purgeVersion(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileGroupId(uint64)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `grantAccess(pay,uint64,address,string,string,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileGroupId: (params: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileGroupId(params))
+    grantAccess: (params: CallParams<FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.grantAccess(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCreatedAt(uint64)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `revokeAccess(uint64,address)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileCreatedAt: (params: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileCreatedAt(params))
+    revokeAccess: (params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,address)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.revokeAccess(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileUpdatedAt(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileUpdatedAt: (params: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileUpdatedAt(params))
+    getFileInfo: (params: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.getFileInfo(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileIsDeleted(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getVersion(uint64,uint64)(string,address,uint64,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileIsDeleted: (params: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileIsDeleted(params))
+    getVersion: (params: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.getVersion(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare1(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `hasValidAccess(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileShare1: (params: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileShare1(params))
+    hasValidAccess: (params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.hasValidAccess(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare2(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `canReleaseKeyShares(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileShare2: (params: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileShare2(params))
+    canReleaseKeyShares: (params: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.canReleaseKeyShares(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare3(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileShare3: (params: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileShare3(params))
+    getAccessGrant: (params: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.getAccessGrant(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `hasValidAccess(uint64,string)bool` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `registerPublicKey(pay,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    hasValidAccess: (params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.hasValidAccess(params))
+    registerPublicKey: (params: CallParams<FileRegistryArgs['obj']['registerPublicKey(pay,string)void'] | FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.registerPublicKey(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessPermission(uint64,string)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getEncryptionKey(address)string` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getAccessPermission: (params: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getAccessPermission(params))
+    getEncryptionKey: (params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.getEncryptionKey(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessWrappedKey(uint64,string)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getFileCount()uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getAccessWrappedKey: (params: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getAccessWrappedKey(params))
+    getFileCount: (params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.getFileCount(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessExpiresAt(uint64,string)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getAccessExpiresAt: (params: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getAccessExpiresAt(params))
+    importFile: (params: CallParams<FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.importFile(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessGrantedAt(uint64,string)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importVersion(uint64,uint64,(string,address,uint64,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getAccessGrantedAt: (params: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getAccessGrantedAt(params))
+    importVersion: (params: CallParams<FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.importVersion(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `registerPublicKey(string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    registerPublicKey: (params: CallParams<FileRegistryArgs['obj']['registerPublicKey(string)void'] | FileRegistryArgs['tuple']['registerPublicKey(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.registerPublicKey(params))
+    importGrant: (params: CallParams<FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.importGrant(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getEncryptionKey(string)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importPublicKey(address,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getEncryptionKey: (params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getEncryptionKey(params))
+    importPublicKey: (params: CallParams<FileRegistryArgs['obj']['importPublicKey(address,string)void'] | FileRegistryArgs['tuple']['importPublicKey(address,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.importPublicKey(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCount()uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `finishImport()void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getFileCount: (params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
-      return this.appClient.params.call(FileRegistryParamsFactory.getFileCount(params))
+    finishImport: (params: CallParams<FileRegistryArgs['obj']['finishImport()void'] | FileRegistryArgs['tuple']['finishImport()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FileRegistryParamsFactory.finishImport(params))
     },
 
   }
@@ -1307,22 +1254,32 @@ export class FileRegistryClient {
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `registerFile(string,string,uint64,string,string,string)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `setGroupRegistry(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setGroupRegistry: (params: CallParams<FileRegistryArgs['obj']['setGroupRegistry(uint64)void'] | FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.setGroupRegistry(params))
+    },
+
+    /**
+     * Makes a call to the FileRegistry smart contract using the `registerFile(pay,string,string,uint64,string,string,string)uint64` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    registerFile: (params: CallParams<FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    registerFile: (params: CallParams<FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(FileRegistryParamsFactory.registerFile(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `updateFile(uint64,string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `updateFile(pay,uint64,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    updateFile: (params: CallParams<FileRegistryArgs['obj']['updateFile(uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    updateFile: (params: CallParams<FileRegistryArgs['obj']['updateFile(pay,uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(FileRegistryParamsFactory.updateFile(params))
     },
 
@@ -1337,275 +1294,226 @@ export class FileRegistryClient {
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `grantAccess(uint64,string,string,string,uint64)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `purgeVersion(uint64,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    grantAccess: (params: CallParams<FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.grantAccess(params))
+    purgeVersion: (params: CallParams<FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void'] | FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.purgeVersion(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `revokeAccess(uint64,string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `grantAccess(pay,uint64,address,string,string,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    revokeAccess: (params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,string)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.revokeAccess(params))
+    grantAccess: (params: CallParams<FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.grantAccess(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCid(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `revokeAccess(uint64,address)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileCid: (params: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileCid(params))
+    revokeAccess: (params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,address)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.revokeAccess(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileOwner(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileOwner: (params: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileOwner(params))
+    getFileInfo: (params: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileInfo(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileName(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getVersion(uint64,uint64)(string,address,uint64,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileName: (params: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileName(params))
+    getVersion: (params: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getVersion(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileGroupId(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `hasValidAccess(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileGroupId: (params: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileGroupId(params))
+    hasValidAccess: (params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.hasValidAccess(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCreatedAt(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `canReleaseKeyShares(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileCreatedAt: (params: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileCreatedAt(params))
+    canReleaseKeyShares: (params: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.canReleaseKeyShares(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileUpdatedAt(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileUpdatedAt: (params: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileUpdatedAt(params))
+    getAccessGrant: (params: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getAccessGrant(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileIsDeleted(uint64)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `registerPublicKey(pay,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileIsDeleted: (params: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileIsDeleted(params))
+    registerPublicKey: (params: CallParams<FileRegistryArgs['obj']['registerPublicKey(pay,string)void'] | FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.registerPublicKey(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare1(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getEncryptionKey(address)string` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileShare1: (params: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileShare1(params))
+    getEncryptionKey: (params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getEncryptionKey(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare2(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getFileCount()uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileShare2: (params: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileShare2(params))
+    getFileCount: (params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileCount(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare3(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getFileShare3: (params: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileShare3(params))
+    importFile: (params: CallParams<FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.importFile(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `hasValidAccess(uint64,string)bool` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importVersion(uint64,uint64,(string,address,uint64,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    hasValidAccess: (params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.hasValidAccess(params))
+    importVersion: (params: CallParams<FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.importVersion(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessPermission(uint64,string)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getAccessPermission: (params: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getAccessPermission(params))
+    importGrant: (params: CallParams<FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.importGrant(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessWrappedKey(uint64,string)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importPublicKey(address,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getAccessWrappedKey: (params: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getAccessWrappedKey(params))
+    importPublicKey: (params: CallParams<FileRegistryArgs['obj']['importPublicKey(address,string)void'] | FileRegistryArgs['tuple']['importPublicKey(address,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.importPublicKey(params))
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessExpiresAt(uint64,string)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `finishImport()void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getAccessExpiresAt: (params: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getAccessExpiresAt(params))
+    finishImport: (params: CallParams<FileRegistryArgs['obj']['finishImport()void'] | FileRegistryArgs['tuple']['finishImport()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FileRegistryParamsFactory.finishImport(params))
     },
 
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessGrantedAt(uint64,string)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a clear_state call to an existing instance of the FileRegistry smart contract.
      *
-     * @param params The params for the smart contract call
-     * @returns The call transaction
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
      */
-    getAccessGrantedAt: (params: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getAccessGrantedAt(params))
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `registerPublicKey(string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `setGroupRegistry(uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
-     * @returns The call transaction
+     * @returns The call result
      */
-    registerPublicKey: (params: CallParams<FileRegistryArgs['obj']['registerPublicKey(string)void'] | FileRegistryArgs['tuple']['registerPublicKey(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.registerPublicKey(params))
+    setGroupRegistry: async (params: CallParams<FileRegistryArgs['obj']['setGroupRegistry(uint64)void'] | FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.setGroupRegistry(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['setGroupRegistry(uint64)void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getEncryptionKey(string)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `registerFile(pay,string,string,uint64,string,string,string)uint64` ABI method.
      *
      * @param params The params for the smart contract call
-     * @returns The call transaction
+     * @returns The call result
      */
-    getEncryptionKey: (params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getEncryptionKey(params))
+    registerFile: async (params: CallParams<FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.registerFile(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['registerFile(pay,string,string,uint64,string,string,string)uint64'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCount()uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call transaction
-     */
-    getFileCount: (params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
-      return this.appClient.createTransaction.call(FileRegistryParamsFactory.getFileCount(params))
-    },
-
-  }
-
-  /**
-   * Send calls to the current app
-   */
-  readonly send = {
-    /**
-     * Makes a clear_state call to an existing instance of the FileRegistry smart contract.
-     *
-     * @param params The params for the bare (raw) call
-     * @returns The clearState result
-     */
-    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
-      return this.appClient.send.bare.clearState(params)
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `registerFile(string,string,uint64,string,string,string)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `updateFile(pay,uint64,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    registerFile: async (params: CallParams<FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.registerFile(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['registerFile(string,string,uint64,string,string,string)uint64'])}
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `updateFile(uint64,string)void` ABI method.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    updateFile: async (params: CallParams<FileRegistryArgs['obj']['updateFile(uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(uint64,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    updateFile: async (params: CallParams<FileRegistryArgs['obj']['updateFile(pay,uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(FileRegistryParamsFactory.updateFile(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['updateFile(uint64,string)void'])}
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['updateFile(pay,uint64,string)void'])}
     },
 
     /**
@@ -1620,257 +1528,193 @@ export class FileRegistryClient {
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `grantAccess(uint64,string,string,string,uint64)void` ABI method.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    grantAccess: async (params: CallParams<FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.grantAccess(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['grantAccess(uint64,string,string,string,uint64)void'])}
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `revokeAccess(uint64,string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `purgeVersion(uint64,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    revokeAccess: async (params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,string)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.revokeAccess(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['revokeAccess(uint64,string)void'])}
+    purgeVersion: async (params: CallParams<FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void'] | FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.purgeVersion(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['purgeVersion(uint64,uint64)void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCid(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `grantAccess(pay,uint64,address,string,string,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileCid: async (params: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileCid(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileCid(uint64)string'])}
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `getFileOwner(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    getFileOwner: async (params: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileOwner(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileOwner(uint64)string'])}
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `getFileName(uint64)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    getFileName: async (params: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileName(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileName(uint64)string'])}
-    },
-
-    /**
-     * Makes a call to the FileRegistry smart contract using the `getFileGroupId(uint64)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    getFileGroupId: async (params: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileGroupId(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileGroupId(uint64)uint64'])}
+    grantAccess: async (params: CallParams<FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.grantAccess(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['grantAccess(pay,uint64,address,string,string,uint64)void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCreatedAt(uint64)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `revokeAccess(uint64,address)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileCreatedAt: async (params: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileCreatedAt(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileCreatedAt(uint64)uint64'])}
+    revokeAccess: async (params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,address)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.revokeAccess(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['revokeAccess(uint64,address)void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileUpdatedAt(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileUpdatedAt: async (params: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileUpdatedAt(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileUpdatedAt(uint64)uint64'])}
+    getFileInfo: async (params: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileInfo(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileIsDeleted(uint64)uint64` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getVersion(uint64,uint64)(string,address,uint64,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileIsDeleted: async (params: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileIsDeleted(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileIsDeleted(uint64)uint64'])}
+    getVersion: async (params: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.getVersion(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getVersion(uint64,uint64)(string,address,uint64,uint64)'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare1(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `hasValidAccess(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileShare1: async (params: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileShare1(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileShare1(uint64)string'])}
+    hasValidAccess: async (params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.hasValidAccess(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['hasValidAccess(uint64,address)bool'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare2(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `canReleaseKeyShares(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileShare2: async (params: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileShare2(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileShare2(uint64)string'])}
+    canReleaseKeyShares: async (params: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.canReleaseKeyShares(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['canReleaseKeyShares(uint64,address)bool'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileShare3(uint64)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileShare3: async (params: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileShare3(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileShare3(uint64)string'])}
+    getAccessGrant: async (params: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessGrant(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `hasValidAccess(uint64,string)bool` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `registerPublicKey(pay,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    hasValidAccess: async (params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.hasValidAccess(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['hasValidAccess(uint64,string)bool'])}
+    registerPublicKey: async (params: CallParams<FileRegistryArgs['obj']['registerPublicKey(pay,string)void'] | FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.registerPublicKey(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['registerPublicKey(pay,string)void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessPermission(uint64,string)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getEncryptionKey(address)string` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getAccessPermission: async (params: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessPermission(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getAccessPermission(uint64,string)string'])}
+    getEncryptionKey: async (params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.getEncryptionKey(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getEncryptionKey(address)string'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessWrappedKey(uint64,string)string` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `getFileCount()uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getAccessWrappedKey: async (params: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessWrappedKey(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getAccessWrappedKey(uint64,string)string'])}
+    getFileCount: async (params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileCount(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileCount()uint64'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessExpiresAt(uint64,string)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getAccessExpiresAt: async (params: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessExpiresAt(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getAccessExpiresAt(uint64,string)uint64'])}
+    importFile: async (params: CallParams<FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.importFile(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getAccessGrantedAt(uint64,string)uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importVersion(uint64,uint64,(string,address,uint64,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getAccessGrantedAt: async (params: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessGrantedAt(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getAccessGrantedAt(uint64,string)uint64'])}
+    importVersion: async (params: CallParams<FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.importVersion(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['importVersion(uint64,uint64,(string,address,uint64,uint64))void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `registerPublicKey(string)void` ABI method.
+     * Makes a call to the FileRegistry smart contract using the `importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    registerPublicKey: async (params: CallParams<FileRegistryArgs['obj']['registerPublicKey(string)void'] | FileRegistryArgs['tuple']['registerPublicKey(string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.registerPublicKey(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['registerPublicKey(string)void'])}
+    importGrant: async (params: CallParams<FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.importGrant(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getEncryptionKey(string)string` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `importPublicKey(address,string)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getEncryptionKey: async (params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getEncryptionKey(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getEncryptionKey(string)string'])}
+    importPublicKey: async (params: CallParams<FileRegistryArgs['obj']['importPublicKey(address,string)void'] | FileRegistryArgs['tuple']['importPublicKey(address,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.importPublicKey(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['importPublicKey(address,string)void'])}
     },
 
     /**
-     * Makes a call to the FileRegistry smart contract using the `getFileCount()uint64` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     * Makes a call to the FileRegistry smart contract using the `finishImport()void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getFileCount: async (params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
-      const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileCount(params))
-      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['getFileCount()uint64'])}
+    finishImport: async (params: CallParams<FileRegistryArgs['obj']['finishImport()void'] | FileRegistryArgs['tuple']['finishImport()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FileRegistryParamsFactory.finishImport(params))
+      return {...result, return: result.return as unknown as (undefined | FileRegistryReturns['finishImport()void'])}
     },
 
   }
@@ -1886,211 +1730,81 @@ export class FileRegistryClient {
   }
 
   /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileCid(uint64)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileCid(params: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileCid(params))
-    return result.return as unknown as FileRegistryReturns['getFileCid(uint64)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileOwner(uint64)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileOwner(params: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileOwner(params))
-    return result.return as unknown as FileRegistryReturns['getFileOwner(uint64)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileName(uint64)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileName(params: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileName(params))
-    return result.return as unknown as FileRegistryReturns['getFileName(uint64)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileGroupId(uint64)uint64` ABI method.
+   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getFileGroupId(params: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileGroupId(params))
-    return result.return as unknown as FileRegistryReturns['getFileGroupId(uint64)uint64']
+  async getFileInfo(params: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']>) {
+    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileInfo(params))
+    return result.return as unknown as FileRegistryReturns['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']
   }
 
   /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileCreatedAt(uint64)uint64` ABI method.
+   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getVersion(uint64,uint64)(string,address,uint64,uint64)` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getFileCreatedAt(params: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileCreatedAt(params))
-    return result.return as unknown as FileRegistryReturns['getFileCreatedAt(uint64)uint64']
+  async getVersion(params: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']>) {
+    const result = await this.appClient.send.call(FileRegistryParamsFactory.getVersion(params))
+    return result.return as unknown as FileRegistryReturns['getVersion(uint64,uint64)(string,address,uint64,uint64)']
   }
 
   /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileUpdatedAt(uint64)uint64` ABI method.
+   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `hasValidAccess(uint64,address)bool` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getFileUpdatedAt(params: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileUpdatedAt(params))
-    return result.return as unknown as FileRegistryReturns['getFileUpdatedAt(uint64)uint64']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileIsDeleted(uint64)uint64` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileIsDeleted(params: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileIsDeleted(params))
-    return result.return as unknown as FileRegistryReturns['getFileIsDeleted(uint64)uint64']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileShare1(uint64)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileShare1(params: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileShare1(params))
-    return result.return as unknown as FileRegistryReturns['getFileShare1(uint64)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileShare2(uint64)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileShare2(params: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileShare2(params))
-    return result.return as unknown as FileRegistryReturns['getFileShare2(uint64)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getFileShare3(uint64)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getFileShare3(params: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getFileShare3(params))
-    return result.return as unknown as FileRegistryReturns['getFileShare3(uint64)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `hasValidAccess(uint64,string)bool` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async hasValidAccess(params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']>) {
+  async hasValidAccess(params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']>) {
     const result = await this.appClient.send.call(FileRegistryParamsFactory.hasValidAccess(params))
-    return result.return as unknown as FileRegistryReturns['hasValidAccess(uint64,string)bool']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getAccessPermission(uint64,string)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getAccessPermission(params: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessPermission(params))
-    return result.return as unknown as FileRegistryReturns['getAccessPermission(uint64,string)string']
-  }
-
-  /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getAccessWrappedKey(uint64,string)string` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-   *
-   * @param params The params for the smart contract call
-   * @returns The call result
-   */
-  async getAccessWrappedKey(params: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessWrappedKey(params))
-    return result.return as unknown as FileRegistryReturns['getAccessWrappedKey(uint64,string)string']
+    return result.return as unknown as FileRegistryReturns['hasValidAccess(uint64,address)bool']
   }
 
   /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getAccessExpiresAt(uint64,string)uint64` ABI method.
+   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `canReleaseKeyShares(uint64,address)bool` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getAccessExpiresAt(params: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessExpiresAt(params))
-    return result.return as unknown as FileRegistryReturns['getAccessExpiresAt(uint64,string)uint64']
+  async canReleaseKeyShares(params: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']>) {
+    const result = await this.appClient.send.call(FileRegistryParamsFactory.canReleaseKeyShares(params))
+    return result.return as unknown as FileRegistryReturns['canReleaseKeyShares(uint64,address)bool']
   }
 
   /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getAccessGrantedAt(uint64,string)uint64` ABI method.
+   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getAccessGrantedAt(params: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']>) {
-    const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessGrantedAt(params))
-    return result.return as unknown as FileRegistryReturns['getAccessGrantedAt(uint64,string)uint64']
+  async getAccessGrant(params: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']>) {
+    const result = await this.appClient.send.call(FileRegistryParamsFactory.getAccessGrant(params))
+    return result.return as unknown as FileRegistryReturns['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']
   }
 
   /**
-   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getEncryptionKey(string)string` ABI method.
+   * Makes a readonly (simulated) call to the FileRegistry smart contract using the `getEncryptionKey(address)string` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getEncryptionKey(params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']>) {
+  async getEncryptionKey(params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']>) {
     const result = await this.appClient.send.call(FileRegistryParamsFactory.getEncryptionKey(params))
-    return result.return as unknown as FileRegistryReturns['getEncryptionKey(string)string']
+    return result.return as unknown as FileRegistryReturns['getEncryptionKey(address)string']
   }
 
   /**
@@ -2122,6 +1836,7 @@ export class FileRegistryClient {
         return {
           fileCount: result.fileCount,
           groupRegistryAppId: result.groupRegistryAppId,
+          importClosed: result.importClosed,
         }
       },
       /**
@@ -2132,6 +1847,10 @@ export class FileRegistryClient {
        * Get the current value of the groupRegistryAppId key in global state
        */
       groupRegistryAppId: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("groupRegistryAppId")) as bigint | undefined },
+      /**
+       * Get the current value of the importClosed key in global state
+       */
+      importClosed: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("importClosed")) as bigint | undefined },
     },
     /**
      * Methods to access box state for the current FileRegistry app
@@ -2146,199 +1865,43 @@ export class FileRegistryClient {
         }
       },
       /**
-       * Get values from the fileCids map in box state
-       */
-      fileCids: {
-        /**
-         * Get all current values of the fileCids map in box state
-         */
-        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("fileCids")) as Map<bigint, string> },
-        /**
-         * Get a current value of the fileCids map by key from box state
-         */
-        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("fileCids", key) as string | undefined },
-      },
-      /**
-       * Get values from the fileOwners map in box state
-       */
-      fileOwners: {
-        /**
-         * Get all current values of the fileOwners map in box state
-         */
-        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("fileOwners")) as Map<bigint, string> },
-        /**
-         * Get a current value of the fileOwners map by key from box state
-         */
-        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("fileOwners", key) as string | undefined },
-      },
-      /**
-       * Get values from the fileNames map in box state
-       */
-      fileNames: {
-        /**
-         * Get all current values of the fileNames map in box state
-         */
-        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("fileNames")) as Map<bigint, string> },
-        /**
-         * Get a current value of the fileNames map by key from box state
-         */
-        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("fileNames", key) as string | undefined },
-      },
-      /**
-       * Get values from the fileGroupIds map in box state
-       */
-      fileGroupIds: {
-        /**
-         * Get all current values of the fileGroupIds map in box state
-         */
-        getMap: async (): Promise<Map<bigint, bigint>> => { return (await this.appClient.state.box.getMap("fileGroupIds")) as Map<bigint, bigint> },
-        /**
-         * Get a current value of the fileGroupIds map by key from box state
-         */
-        value: async (key: bigint | number): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("fileGroupIds", key) as bigint | undefined },
-      },
-      /**
-       * Get values from the fileCreatedAt map in box state
-       */
-      fileCreatedAt: {
-        /**
-         * Get all current values of the fileCreatedAt map in box state
-         */
-        getMap: async (): Promise<Map<bigint, bigint>> => { return (await this.appClient.state.box.getMap("fileCreatedAt")) as Map<bigint, bigint> },
-        /**
-         * Get a current value of the fileCreatedAt map by key from box state
-         */
-        value: async (key: bigint | number): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("fileCreatedAt", key) as bigint | undefined },
-      },
-      /**
-       * Get values from the fileUpdatedAt map in box state
-       */
-      fileUpdatedAt: {
-        /**
-         * Get all current values of the fileUpdatedAt map in box state
-         */
-        getMap: async (): Promise<Map<bigint, bigint>> => { return (await this.appClient.state.box.getMap("fileUpdatedAt")) as Map<bigint, bigint> },
-        /**
-         * Get a current value of the fileUpdatedAt map by key from box state
-         */
-        value: async (key: bigint | number): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("fileUpdatedAt", key) as bigint | undefined },
-      },
-      /**
-       * Get values from the fileIsDeleted map in box state
-       */
-      fileIsDeleted: {
-        /**
-         * Get all current values of the fileIsDeleted map in box state
-         */
-        getMap: async (): Promise<Map<bigint, bigint>> => { return (await this.appClient.state.box.getMap("fileIsDeleted")) as Map<bigint, bigint> },
-        /**
-         * Get a current value of the fileIsDeleted map by key from box state
-         */
-        value: async (key: bigint | number): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("fileIsDeleted", key) as bigint | undefined },
-      },
-      /**
-       * Get values from the fileShare1 map in box state
-       */
-      fileShare1: {
-        /**
-         * Get all current values of the fileShare1 map in box state
-         */
-        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("fileShare1")) as Map<bigint, string> },
-        /**
-         * Get a current value of the fileShare1 map by key from box state
-         */
-        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("fileShare1", key) as string | undefined },
-      },
-      /**
-       * Get values from the fileShare2 map in box state
-       */
-      fileShare2: {
-        /**
-         * Get all current values of the fileShare2 map in box state
-         */
-        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("fileShare2")) as Map<bigint, string> },
-        /**
-         * Get a current value of the fileShare2 map by key from box state
-         */
-        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("fileShare2", key) as string | undefined },
-      },
-      /**
-       * Get values from the fileShare3 map in box state
-       */
-      fileShare3: {
-        /**
-         * Get all current values of the fileShare3 map in box state
-         */
-        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("fileShare3")) as Map<bigint, string> },
-        /**
-         * Get a current value of the fileShare3 map by key from box state
-         */
-        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("fileShare3", key) as string | undefined },
-      },
-      /**
-       * Get values from the accessHas map in box state
-       */
-      accessHas: {
-        /**
-         * Get all current values of the accessHas map in box state
-         */
-        getMap: async (): Promise<Map<Object7Dc5F2F9, bigint>> => { return (await this.appClient.state.box.getMap("accessHas")) as Map<Object7Dc5F2F9, bigint> },
-        /**
-         * Get a current value of the accessHas map by key from box state
-         */
-        value: async (key: Object7Dc5F2F9): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("accessHas", key) as bigint | undefined },
-      },
-      /**
-       * Get values from the accessPermission map in box state
-       */
-      accessPermission: {
-        /**
-         * Get all current values of the accessPermission map in box state
-         */
-        getMap: async (): Promise<Map<Object7Dc5F2F9, string>> => { return (await this.appClient.state.box.getMap("accessPermission")) as Map<Object7Dc5F2F9, string> },
-        /**
-         * Get a current value of the accessPermission map by key from box state
-         */
-        value: async (key: Object7Dc5F2F9): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("accessPermission", key) as string | undefined },
-      },
-      /**
-       * Get values from the accessWrappedKey map in box state
+       * Get values from the files map in box state
        */
-      accessWrappedKey: {
+      files: {
         /**
-         * Get all current values of the accessWrappedKey map in box state
+         * Get all current values of the files map in box state
          */
-        getMap: async (): Promise<Map<Object7Dc5F2F9, string>> => { return (await this.appClient.state.box.getMap("accessWrappedKey")) as Map<Object7Dc5F2F9, string> },
+        getMap: async (): Promise<Map<bigint, FileRecord>> => { return (await this.appClient.state.box.getMap("files")) as Map<bigint, FileRecord> },
         /**
-         * Get a current value of the accessWrappedKey map by key from box state
+         * Get a current value of the files map by key from box state
          */
-        value: async (key: Object7Dc5F2F9): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("accessWrappedKey", key) as string | undefined },
+        value: async (key: bigint | number): Promise<FileRecord | undefined> => { return await this.appClient.state.box.getMapValue("files", key) as FileRecord | undefined },
       },
       /**
-       * Get values from the accessGrantedAt map in box state
+       * Get values from the versions map in box state
        */
-      accessGrantedAt: {
+      versions: {
         /**
-         * Get all current values of the accessGrantedAt map in box state
+         * Get all current values of the versions map in box state
          */
-        getMap: async (): Promise<Map<Object7Dc5F2F9, bigint>> => { return (await this.appClient.state.box.getMap("accessGrantedAt")) as Map<Object7Dc5F2F9, bigint> },
+        getMap: async (): Promise<Map<ObjectDf87Bbd0, FileVersion>> => { return (await this.appClient.state.box.getMap("versions")) as Map<ObjectDf87Bbd0, FileVersion> },
         /**
-         * Get a current value of the accessGrantedAt map by key from box state
+         * Get a current value of the versions map by key from box state
          */
-        value: async (key: Object7Dc5F2F9): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("accessGrantedAt", key) as bigint | undefined },
+        value: async (key: ObjectDf87Bbd0): Promise<FileVersion | undefined> => { return await this.appClient.state.box.getMapValue("versions", key) as FileVersion | undefined },
       },
       /**
-       * Get values from the accessExpiresAt map in box state
+       * Get values from the grants map in box state
        */
-      accessExpiresAt: {
+      grants: {
         /**
-         * Get all current values of the accessExpiresAt map in box state
+         * Get all current values of the grants map in box state
          */
-        getMap: async (): Promise<Map<Object7Dc5F2F9, bigint>> => { return (await this.appClient.state.box.getMap("accessExpiresAt")) as Map<Object7Dc5F2F9, bigint> },
+        getMap: async (): Promise<Map<GrantKey, AccessGrant>> => { return (await this.appClient.state.box.getMap("grants")) as Map<GrantKey, AccessGrant> },
         /**
-         * Get a current value of the accessExpiresAt map by key from box state
+         * Get a current value of the grants map by key from box state
          */
-        value: async (key: Object7Dc5F2F9): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("accessExpiresAt", key) as bigint | undefined },
+        value: async (key: GrantKey): Promise<AccessGrant | undefined> => { return await this.appClient.state.box.getMapValue("grants", key) as AccessGrant | undefined },
       },
       /**
        * Get values from the encryptionKeys map in box state
@@ -2363,17 +1926,25 @@ export class FileRegistryClient {
     const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
     return {
       /**
-       * Add a registerFile(string,string,uint64,string,string,string)uint64 method call against the FileRegistry contract
+       * Add a setGroupRegistry(uint64)void method call against the FileRegistry contract
        */
-      registerFile(params: CallParams<FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      setGroupRegistry(params: CallParams<FileRegistryArgs['obj']['setGroupRegistry(uint64)void'] | FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setGroupRegistry(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a registerFile(pay,string,string,uint64,string,string,string)uint64 method call against the FileRegistry contract
+       */
+      registerFile(params: CallParams<FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.registerFile(params)))
-        resultMappers.push((v) => client.decodeReturnValue('registerFile(string,string,uint64,string,string,string)uint64', v))
+        resultMappers.push((v) => client.decodeReturnValue('registerFile(pay,string,string,uint64,string,string,string)uint64', v))
         return this
       },
       /**
-       * Add a updateFile(uint64,string)void method call against the FileRegistry contract
+       * Add a updateFile(pay,uint64,string)void method call against the FileRegistry contract
        */
-      updateFile(params: CallParams<FileRegistryArgs['obj']['updateFile(uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      updateFile(params: CallParams<FileRegistryArgs['obj']['updateFile(pay,uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.updateFile(params)))
         resultMappers.push(undefined)
         return this
@@ -2387,163 +1958,131 @@ export class FileRegistryClient {
         return this
       },
       /**
-       * Add a grantAccess(uint64,string,string,string,uint64)void method call against the FileRegistry contract
+       * Add a purgeVersion(uint64,uint64)void method call against the FileRegistry contract
        */
-      grantAccess(params: CallParams<FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.grantAccess(params)))
+      purgeVersion(params: CallParams<FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void'] | FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purgeVersion(params)))
         resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a revokeAccess(uint64,string)void method call against the FileRegistry contract
+       * Add a grantAccess(pay,uint64,address,string,string,uint64)void method call against the FileRegistry contract
        */
-      revokeAccess(params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,string)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.revokeAccess(params)))
+      grantAccess(params: CallParams<FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.grantAccess(params)))
         resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a getFileCid(uint64)string method call against the FileRegistry contract
-       */
-      getFileCid(params: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileCid(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileCid(uint64)string', v))
-        return this
-      },
-      /**
-       * Add a getFileOwner(uint64)string method call against the FileRegistry contract
-       */
-      getFileOwner(params: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileOwner(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileOwner(uint64)string', v))
-        return this
-      },
-      /**
-       * Add a getFileName(uint64)string method call against the FileRegistry contract
-       */
-      getFileName(params: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileName(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileName(uint64)string', v))
-        return this
-      },
-      /**
-       * Add a getFileGroupId(uint64)uint64 method call against the FileRegistry contract
+       * Add a revokeAccess(uint64,address)void method call against the FileRegistry contract
        */
-      getFileGroupId(params: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileGroupId(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileGroupId(uint64)uint64', v))
-        return this
-      },
-      /**
-       * Add a getFileCreatedAt(uint64)uint64 method call against the FileRegistry contract
-       */
-      getFileCreatedAt(params: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileCreatedAt(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileCreatedAt(uint64)uint64', v))
+      revokeAccess(params: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,address)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.revokeAccess(params)))
+        resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a getFileUpdatedAt(uint64)uint64 method call against the FileRegistry contract
+       * Add a getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64) method call against the FileRegistry contract
        */
-      getFileUpdatedAt(params: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileUpdatedAt(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileUpdatedAt(uint64)uint64', v))
+      getFileInfo(params: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileInfo(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)', v))
         return this
       },
       /**
-       * Add a getFileIsDeleted(uint64)uint64 method call against the FileRegistry contract
+       * Add a getVersion(uint64,uint64)(string,address,uint64,uint64) method call against the FileRegistry contract
        */
-      getFileIsDeleted(params: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileIsDeleted(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileIsDeleted(uint64)uint64', v))
+      getVersion(params: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getVersion(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getVersion(uint64,uint64)(string,address,uint64,uint64)', v))
         return this
       },
       /**
-       * Add a getFileShare1(uint64)string method call against the FileRegistry contract
+       * Add a hasValidAccess(uint64,address)bool method call against the FileRegistry contract
        */
-      getFileShare1(params: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileShare1(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileShare1(uint64)string', v))
+      hasValidAccess(params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.hasValidAccess(params)))
+        resultMappers.push((v) => client.decodeReturnValue('hasValidAccess(uint64,address)bool', v))
         return this
       },
       /**
-       * Add a getFileShare2(uint64)string method call against the FileRegistry contract
+       * Add a canReleaseKeyShares(uint64,address)bool method call against the FileRegistry contract
        */
-      getFileShare2(params: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileShare2(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileShare2(uint64)string', v))
+      canReleaseKeyShares(params: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.canReleaseKeyShares(params)))
+        resultMappers.push((v) => client.decodeReturnValue('canReleaseKeyShares(uint64,address)bool', v))
         return this
       },
       /**
-       * Add a getFileShare3(uint64)string method call against the FileRegistry contract
+       * Add a getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64) method call against the FileRegistry contract
        */
-      getFileShare3(params: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileShare3(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileShare3(uint64)string', v))
+      getAccessGrant(params: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getAccessGrant(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)', v))
         return this
       },
       /**
-       * Add a hasValidAccess(uint64,string)bool method call against the FileRegistry contract
+       * Add a registerPublicKey(pay,string)void method call against the FileRegistry contract
        */
-      hasValidAccess(params: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.hasValidAccess(params)))
-        resultMappers.push((v) => client.decodeReturnValue('hasValidAccess(uint64,string)bool', v))
+      registerPublicKey(params: CallParams<FileRegistryArgs['obj']['registerPublicKey(pay,string)void'] | FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.registerPublicKey(params)))
+        resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a getAccessPermission(uint64,string)string method call against the FileRegistry contract
+       * Add a getEncryptionKey(address)string method call against the FileRegistry contract
        */
-      getAccessPermission(params: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getAccessPermission(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getAccessPermission(uint64,string)string', v))
+      getEncryptionKey(params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getEncryptionKey(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getEncryptionKey(address)string', v))
         return this
       },
       /**
-       * Add a getAccessWrappedKey(uint64,string)string method call against the FileRegistry contract
+       * Add a getFileCount()uint64 method call against the FileRegistry contract
        */
-      getAccessWrappedKey(params: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getAccessWrappedKey(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getAccessWrappedKey(uint64,string)string', v))
+      getFileCount(params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileCount(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getFileCount()uint64', v))
         return this
       },
       /**
-       * Add a getAccessExpiresAt(uint64,string)uint64 method call against the FileRegistry contract
+       * Add a importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void method call against the FileRegistry contract
        */
-      getAccessExpiresAt(params: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getAccessExpiresAt(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getAccessExpiresAt(uint64,string)uint64', v))
+      importFile(params: CallParams<FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.importFile(params)))
+        resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a getAccessGrantedAt(uint64,string)uint64 method call against the FileRegistry contract
+       * Add a importVersion(uint64,uint64,(string,address,uint64,uint64))void method call against the FileRegistry contract
        */
-      getAccessGrantedAt(params: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getAccessGrantedAt(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getAccessGrantedAt(uint64,string)uint64', v))
+      importVersion(params: CallParams<FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.importVersion(params)))
+        resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a registerPublicKey(string)void method call against the FileRegistry contract
+       * Add a importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void method call against the FileRegistry contract
        */
-      registerPublicKey(params: CallParams<FileRegistryArgs['obj']['registerPublicKey(string)void'] | FileRegistryArgs['tuple']['registerPublicKey(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.registerPublicKey(params)))
+      importGrant(params: CallParams<FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.importGrant(params)))
         resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a getEncryptionKey(string)string method call against the FileRegistry contract
+       * Add a importPublicKey(address,string)void method call against the FileRegistry contract
        */
-      getEncryptionKey(params: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getEncryptionKey(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getEncryptionKey(string)string', v))
+      importPublicKey(params: CallParams<FileRegistryArgs['obj']['importPublicKey(address,string)void'] | FileRegistryArgs['tuple']['importPublicKey(address,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.importPublicKey(params)))
+        resultMappers.push(undefined)
         return this
       },
       /**
-       * Add a getFileCount()uint64 method call against the FileRegistry contract
+       * Add a finishImport()void method call against the FileRegistry contract
        */
-      getFileCount(params: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getFileCount(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getFileCount()uint64', v))
+      finishImport(params: CallParams<FileRegistryArgs['obj']['finishImport()void'] | FileRegistryArgs['tuple']['finishImport()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.finishImport(params)))
+        resultMappers.push(undefined)
         return this
       },
       /**
@@ -2582,211 +2121,184 @@ export class FileRegistryClient {
 }
 export type FileRegistryComposer<TReturns extends [...any[]] = []> = {
   /**
-   * Calls the registerFile(string,string,uint64,string,string,string)uint64 ABI method.
+   * Calls the setGroupRegistry(uint64)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  registerFile(params?: CallParams<FileRegistryArgs['obj']['registerFile(string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(string,string,uint64,string,string,string)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['registerFile(string,string,uint64,string,string,string)uint64'] | undefined]>
+  setGroupRegistry(params?: CallParams<FileRegistryArgs['obj']['setGroupRegistry(uint64)void'] | FileRegistryArgs['tuple']['setGroupRegistry(uint64)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['setGroupRegistry(uint64)void'] | undefined]>
 
   /**
-   * Calls the updateFile(uint64,string)void ABI method.
+   * Calls the registerFile(pay,string,string,uint64,string,string,string)uint64 ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  updateFile(params?: CallParams<FileRegistryArgs['obj']['updateFile(uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(uint64,string)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['updateFile(uint64,string)void'] | undefined]>
+  registerFile(params?: CallParams<FileRegistryArgs['obj']['registerFile(pay,string,string,uint64,string,string,string)uint64'] | FileRegistryArgs['tuple']['registerFile(pay,string,string,uint64,string,string,string)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['registerFile(pay,string,string,uint64,string,string,string)uint64'] | undefined]>
 
   /**
-   * Calls the deleteFile(uint64)void ABI method.
+   * Calls the updateFile(pay,uint64,string)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  deleteFile(params?: CallParams<FileRegistryArgs['obj']['deleteFile(uint64)void'] | FileRegistryArgs['tuple']['deleteFile(uint64)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['deleteFile(uint64)void'] | undefined]>
+  updateFile(params?: CallParams<FileRegistryArgs['obj']['updateFile(pay,uint64,string)void'] | FileRegistryArgs['tuple']['updateFile(pay,uint64,string)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['updateFile(pay,uint64,string)void'] | undefined]>
 
   /**
-   * Calls the grantAccess(uint64,string,string,string,uint64)void ABI method.
-   *
-   * @param args The arguments for the contract call
-   * @param params Any additional parameters for the call
-   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
-   */
-  grantAccess(params?: CallParams<FileRegistryArgs['obj']['grantAccess(uint64,string,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(uint64,string,string,string,uint64)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['grantAccess(uint64,string,string,string,uint64)void'] | undefined]>
-
-  /**
-   * Calls the revokeAccess(uint64,string)void ABI method.
-   *
-   * @param args The arguments for the contract call
-   * @param params Any additional parameters for the call
-   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
-   */
-  revokeAccess(params?: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,string)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,string)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['revokeAccess(uint64,string)void'] | undefined]>
-
-  /**
-   * Calls the getFileCid(uint64)string ABI method.
-   *
-   * @param args The arguments for the contract call
-   * @param params Any additional parameters for the call
-   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
-   */
-  getFileCid(params?: CallParams<FileRegistryArgs['obj']['getFileCid(uint64)string'] | FileRegistryArgs['tuple']['getFileCid(uint64)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileCid(uint64)string'] | undefined]>
-
-  /**
-   * Calls the getFileOwner(uint64)string ABI method.
+   * Calls the deleteFile(uint64)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileOwner(params?: CallParams<FileRegistryArgs['obj']['getFileOwner(uint64)string'] | FileRegistryArgs['tuple']['getFileOwner(uint64)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileOwner(uint64)string'] | undefined]>
+  deleteFile(params?: CallParams<FileRegistryArgs['obj']['deleteFile(uint64)void'] | FileRegistryArgs['tuple']['deleteFile(uint64)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['deleteFile(uint64)void'] | undefined]>
 
   /**
-   * Calls the getFileName(uint64)string ABI method.
+   * Calls the purgeVersion(uint64,uint64)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileName(params?: CallParams<FileRegistryArgs['obj']['getFileName(uint64)string'] | FileRegistryArgs['tuple']['getFileName(uint64)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileName(uint64)string'] | undefined]>
+  purgeVersion(params?: CallParams<FileRegistryArgs['obj']['purgeVersion(uint64,uint64)void'] | FileRegistryArgs['tuple']['purgeVersion(uint64,uint64)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['purgeVersion(uint64,uint64)void'] | undefined]>
 
   /**
-   * Calls the getFileGroupId(uint64)uint64 ABI method.
+   * Calls the grantAccess(pay,uint64,address,string,string,uint64)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileGroupId(params?: CallParams<FileRegistryArgs['obj']['getFileGroupId(uint64)uint64'] | FileRegistryArgs['tuple']['getFileGroupId(uint64)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileGroupId(uint64)uint64'] | undefined]>
+  grantAccess(params?: CallParams<FileRegistryArgs['obj']['grantAccess(pay,uint64,address,string,string,uint64)void'] | FileRegistryArgs['tuple']['grantAccess(pay,uint64,address,string,string,uint64)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['grantAccess(pay,uint64,address,string,string,uint64)void'] | undefined]>
 
   /**
-   * Calls the getFileCreatedAt(uint64)uint64 ABI method.
+   * Calls the revokeAccess(uint64,address)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileCreatedAt(params?: CallParams<FileRegistryArgs['obj']['getFileCreatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileCreatedAt(uint64)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileCreatedAt(uint64)uint64'] | undefined]>
+  revokeAccess(params?: CallParams<FileRegistryArgs['obj']['revokeAccess(uint64,address)void'] | FileRegistryArgs['tuple']['revokeAccess(uint64,address)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['revokeAccess(uint64,address)void'] | undefined]>
 
   /**
-   * Calls the getFileUpdatedAt(uint64)uint64 ABI method.
+   * Calls the getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64) ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileUpdatedAt(params?: CallParams<FileRegistryArgs['obj']['getFileUpdatedAt(uint64)uint64'] | FileRegistryArgs['tuple']['getFileUpdatedAt(uint64)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileUpdatedAt(uint64)uint64'] | undefined]>
+  getFileInfo(params?: CallParams<FileRegistryArgs['obj']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | FileRegistryArgs['tuple']['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileInfo(uint64)(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64)'] | undefined]>
 
   /**
-   * Calls the getFileIsDeleted(uint64)uint64 ABI method.
+   * Calls the getVersion(uint64,uint64)(string,address,uint64,uint64) ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileIsDeleted(params?: CallParams<FileRegistryArgs['obj']['getFileIsDeleted(uint64)uint64'] | FileRegistryArgs['tuple']['getFileIsDeleted(uint64)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileIsDeleted(uint64)uint64'] | undefined]>
+  getVersion(params?: CallParams<FileRegistryArgs['obj']['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | FileRegistryArgs['tuple']['getVersion(uint64,uint64)(string,address,uint64,uint64)']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getVersion(uint64,uint64)(string,address,uint64,uint64)'] | undefined]>
 
   /**
-   * Calls the getFileShare1(uint64)string ABI method.
+   * Calls the hasValidAccess(uint64,address)bool ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileShare1(params?: CallParams<FileRegistryArgs['obj']['getFileShare1(uint64)string'] | FileRegistryArgs['tuple']['getFileShare1(uint64)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileShare1(uint64)string'] | undefined]>
+  hasValidAccess(params?: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,address)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,address)bool']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['hasValidAccess(uint64,address)bool'] | undefined]>
 
   /**
-   * Calls the getFileShare2(uint64)string ABI method.
+   * Calls the canReleaseKeyShares(uint64,address)bool ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileShare2(params?: CallParams<FileRegistryArgs['obj']['getFileShare2(uint64)string'] | FileRegistryArgs['tuple']['getFileShare2(uint64)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileShare2(uint64)string'] | undefined]>
+  canReleaseKeyShares(params?: CallParams<FileRegistryArgs['obj']['canReleaseKeyShares(uint64,address)bool'] | FileRegistryArgs['tuple']['canReleaseKeyShares(uint64,address)bool']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['canReleaseKeyShares(uint64,address)bool'] | undefined]>
 
   /**
-   * Calls the getFileShare3(uint64)string ABI method.
+   * Calls the getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64) ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileShare3(params?: CallParams<FileRegistryArgs['obj']['getFileShare3(uint64)string'] | FileRegistryArgs['tuple']['getFileShare3(uint64)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileShare3(uint64)string'] | undefined]>
+  getAccessGrant(params?: CallParams<FileRegistryArgs['obj']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | FileRegistryArgs['tuple']['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getAccessGrant(uint64,address)(string,string,uint64,uint64,address,uint64)'] | undefined]>
 
   /**
-   * Calls the hasValidAccess(uint64,string)bool ABI method.
+   * Calls the registerPublicKey(pay,string)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  hasValidAccess(params?: CallParams<FileRegistryArgs['obj']['hasValidAccess(uint64,string)bool'] | FileRegistryArgs['tuple']['hasValidAccess(uint64,string)bool']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['hasValidAccess(uint64,string)bool'] | undefined]>
+  registerPublicKey(params?: CallParams<FileRegistryArgs['obj']['registerPublicKey(pay,string)void'] | FileRegistryArgs['tuple']['registerPublicKey(pay,string)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['registerPublicKey(pay,string)void'] | undefined]>
 
   /**
-   * Calls the getAccessPermission(uint64,string)string ABI method.
+   * Calls the getEncryptionKey(address)string ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getAccessPermission(params?: CallParams<FileRegistryArgs['obj']['getAccessPermission(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessPermission(uint64,string)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getAccessPermission(uint64,string)string'] | undefined]>
+  getEncryptionKey(params?: CallParams<FileRegistryArgs['obj']['getEncryptionKey(address)string'] | FileRegistryArgs['tuple']['getEncryptionKey(address)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getEncryptionKey(address)string'] | undefined]>
 
   /**
-   * Calls the getAccessWrappedKey(uint64,string)string ABI method.
+   * Calls the getFileCount()uint64 ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getAccessWrappedKey(params?: CallParams<FileRegistryArgs['obj']['getAccessWrappedKey(uint64,string)string'] | FileRegistryArgs['tuple']['getAccessWrappedKey(uint64,string)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getAccessWrappedKey(uint64,string)string'] | undefined]>
+  getFileCount(params?: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileCount()uint64'] | undefined]>
 
   /**
-   * Calls the getAccessExpiresAt(uint64,string)uint64 ABI method.
+   * Calls the importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getAccessExpiresAt(params?: CallParams<FileRegistryArgs['obj']['getAccessExpiresAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessExpiresAt(uint64,string)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getAccessExpiresAt(uint64,string)uint64'] | undefined]>
+  importFile(params?: CallParams<FileRegistryArgs['obj']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | FileRegistryArgs['tuple']['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['importFile(uint64,(address,string,string,uint64,uint64,uint64,uint64,bool,string,string,string,address,uint64))void'] | undefined]>
 
   /**
-   * Calls the getAccessGrantedAt(uint64,string)uint64 ABI method.
+   * Calls the importVersion(uint64,uint64,(string,address,uint64,uint64))void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getAccessGrantedAt(params?: CallParams<FileRegistryArgs['obj']['getAccessGrantedAt(uint64,string)uint64'] | FileRegistryArgs['tuple']['getAccessGrantedAt(uint64,string)uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getAccessGrantedAt(uint64,string)uint64'] | undefined]>
+  importVersion(params?: CallParams<FileRegistryArgs['obj']['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | FileRegistryArgs['tuple']['importVersion(uint64,uint64,(string,address,uint64,uint64))void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['importVersion(uint64,uint64,(string,address,uint64,uint64))void'] | undefined]>
 
   /**
-   * Calls the registerPublicKey(string)void ABI method.
+   * Calls the importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  registerPublicKey(params?: CallParams<FileRegistryArgs['obj']['registerPublicKey(string)void'] | FileRegistryArgs['tuple']['registerPublicKey(string)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['registerPublicKey(string)void'] | undefined]>
+  importGrant(params?: CallParams<FileRegistryArgs['obj']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | FileRegistryArgs['tuple']['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['importGrant(uint64,address,(string,string,uint64,uint64,address,uint64))void'] | undefined]>
 
   /**
-   * Calls the getEncryptionKey(string)string ABI method.
+   * Calls the importPublicKey(address,string)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getEncryptionKey(params?: CallParams<FileRegistryArgs['obj']['getEncryptionKey(string)string'] | FileRegistryArgs['tuple']['getEncryptionKey(string)string']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getEncryptionKey(string)string'] | undefined]>
+  importPublicKey(params?: CallParams<FileRegistryArgs['obj']['importPublicKey(address,string)void'] | FileRegistryArgs['tuple']['importPublicKey(address,string)void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['importPublicKey(address,string)void'] | undefined]>
 
   /**
-   * Calls the getFileCount()uint64 ABI method.
+   * Calls the finishImport()void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getFileCount(params?: CallParams<FileRegistryArgs['obj']['getFileCount()uint64'] | FileRegistryArgs['tuple']['getFileCount()uint64']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['getFileCount()uint64'] | undefined]>
+  finishImport(params?: CallParams<FileRegistryArgs['obj']['finishImport()void'] | FileRegistryArgs['tuple']['finishImport()void']>): FileRegistryComposer<[...TReturns, FileRegistryReturns['finishImport()void'] | undefined]>
 
   /**
    * Makes a clear_state call to an existing instance of the FileRegistry smart contract.
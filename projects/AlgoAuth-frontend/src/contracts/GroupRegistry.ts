@@ -24,7 +24,7 @@ import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerR
 import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
 import SimulateResponse = modelsv2.SimulateResponse
 
-export const APP_SPEC: Arc56Contract = {"name":"GroupRegistry","structs":{"Object1E2295E3":[{"name":"groupId","type":"uint64"},{"name":"user","type":"string"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"createGroup","args":[{"type":"string","name":"name"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"inviteMember","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"user"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"acceptInvite","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"rejectInvite","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"removeMember","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"user"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"leaveGroup","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"getGroupName","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getGroupCreator","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getMemberStatus","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"user"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getMemberRole","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"user"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"isMember","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"isAdmin","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getGroupCount","args":[],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":1,"bytes":0},"local":{"ints":0,"bytes":0}},"keys":{"global":{"groupCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"Z3JvdXBDb3VudA=="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"groupNames":{"keyType":"uint64","valueType":"AVMString","prefix":"Z24="},"groupCreators":{"keyType":"uint64","valueType":"AVMString","prefix":"Z2M="},"memberStatuses":{"keyType":"Object1E2295E3","valueType":"uint64","prefix":"bXM="},"memberRoles":{"keyType":"Object1E2295E3","valueType":"uint64","prefix":"bXI="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[{"pc":[323,500,690,758,825,916,926],"errorMessage":"Box must have value"},{"pc":[317,494],"errorMessage":"Caller has not joined"},{"pc":[311,488],"errorMessage":"Caller is not a member"},{"pc":[327,504],"errorMessage":"Caller is not admin"},{"pc":[584,619],"errorMessage":"Group does not exist"},{"pc":[384,426],"errorMessage":"No invite found"},{"pc":[553],"errorMessage":"Not a member"},{"pc":[391,433],"errorMessage":"Not invited"},{"pc":[560],"errorMessage":"Not joined"},{"pc":[55],"errorMessage":"OnCompletion must be NoOp"},{"pc":[200,959],"errorMessage":"check GlobalState exists"},{"pc":[185,276,453,650,717,785,861],"errorMessage":"invalid array length header"},{"pc":[192,283,460,657,724,792,868],"errorMessage":"invalid number of bytes for arc4.dynamic_array<arc4.uint8>"},{"pc":[269,362,404,446,531,573,608,643,710,778,854],"errorMessage":"invalid number of bytes for arc4.uint64"}],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"source":{"approval":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYXJjNC9pbmRleC5kLnRzOjpDb250cmFjdC5hcHByb3ZhbFByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBpbnRjYmxvY2sgMCAxIDIgOAogICAgYnl0ZWNibG9jayAibXMiIDB4MDAwYSAweDE1MWY3Yzc1IDB4MDAyMCAibXIiICJncm91cENvdW50IiAiZ24iICJnYyIKICAgIHR4biBBcHBsaWNhdGlvbklECiAgICBibnogbWFpbl9hZnRlcl9pZl9lbHNlQDIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGdyb3VwQ291bnQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDUgLy8gImdyb3VwQ291bnQiCiAgICBpbnRjXzAgLy8gMAogICAgYXBwX2dsb2JhbF9wdXQKCm1haW5fYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NAogICAgLy8gZXhwb3J0IGNsYXNzIEdyb3VwUmVnaXN0cnkgZXh0ZW5kcyBDb250cmFjdCB7CiAgICB0eG4gT25Db21wbGV0aW9uCiAgICAhCiAgICBhc3NlcnQgLy8gT25Db21wbGV0aW9uIG11c3QgYmUgTm9PcAogICAgdHhuIEFwcGxpY2F0aW9uSUQKICAgIGJ6IG1haW5fY3JlYXRlX05vT3BAMTkKICAgIHB1c2hieXRlc3MgMHhhNzNmMWZiYyAweDdjNGE5M2U2IDB4OWE2OWRhMDAgMHhjNDRiYmVmZiAweDg4ZGVkMGI3IDB4NjQ4ZjRmZDMgMHgxNTk2N2MxNyAweDJkNWFmNjUxIDB4ZWEyY2FhMzAgMHg5ZWU1YjI1NiAweDZmODE4ZTc4IDB4NGIwYzA1NWYgMHhhZjY5NzdiNyAvLyBtZXRob2QgImNyZWF0ZUdyb3VwKHN0cmluZyl1aW50NjQiLCBtZXRob2QgImludml0ZU1lbWJlcih1aW50NjQsc3RyaW5nKXZvaWQiLCBtZXRob2QgImFjY2VwdEludml0ZSh1aW50NjQpdm9pZCIsIG1ldGhvZCAicmVqZWN0SW52aXRlKHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJyZW1vdmVNZW1iZXIodWludDY0LHN0cmluZyl2b2lkIiwgbWV0aG9kICJsZWF2ZUdyb3VwKHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJnZXRHcm91cE5hbWUodWludDY0KXN0cmluZyIsIG1ldGhvZCAiZ2V0R3JvdXBDcmVhdG9yKHVpbnQ2NClzdHJpbmciLCBtZXRob2QgImdldE1lbWJlclN0YXR1cyh1aW50NjQsc3RyaW5nKXVpbnQ2NCIsIG1ldGhvZCAiZ2V0TWVtYmVyUm9sZSh1aW50NjQsc3RyaW5nKXVpbnQ2NCIsIG1ldGhvZCAiaXNNZW1iZXIodWludDY0LHN0cmluZylib29sIiwgbWV0aG9kICJpc0FkbWluKHVpbnQ2NCxzdHJpbmcpYm9vbCIsIG1ldGhvZCAiZ2V0R3JvdXBDb3VudCgpdWludDY0IgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAogICAgbWF0Y2ggY3JlYXRlR3JvdXAgaW52aXRlTWVtYmVyIGFjY2VwdEludml0ZSByZWplY3RJbnZpdGUgcmVtb3ZlTWVtYmVyIGxlYXZlR3JvdXAgZ2V0R3JvdXBOYW1lIGdldEdyb3VwQ3JlYXRvciBnZXRNZW1iZXJTdGF0dXMgZ2V0TWVtYmVyUm9sZSBpc01lbWJlciBpc0FkbWluIGdldEdyb3VwQ291bnQKICAgIGVycgoKbWFpbl9jcmVhdGVfTm9PcEAxOToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQKICAgIC8vIGV4cG9ydCBjbGFzcyBHcm91cFJlZ2lzdHJ5IGV4dGVuZHMgQ29udHJhY3QgewogICAgcHVzaGJ5dGVzIDB4Yjg0NDdiMzYgLy8gbWV0aG9kICJjcmVhdGVBcHBsaWNhdGlvbigpdm9pZCIKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDAKICAgIG1hdGNoIG1haW5fY3JlYXRlQXBwbGljYXRpb25fcm91dGVAMjAKICAgIGVycgoKbWFpbl9jcmVhdGVBcHBsaWNhdGlvbl9yb3V0ZUAyMDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGdyb3VwQ291bnQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDUgLy8gImdyb3VwQ291bnQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNQogICAgLy8gdGhpcy5ncm91cENvdW50LnZhbHVlID0gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgYXBwX2dsb2JhbF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzCiAgICAvLyBAYWJpbWV0aG9kKHsgb25DcmVhdGU6ICdyZXF1aXJlJyB9KQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmNyZWF0ZUdyb3VwW3JvdXRpbmddKCkgLT4gdm9pZDoKY3JlYXRlR3JvdXA6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjAKICAgIC8vIHRoaXMuZ3JvdXBDb3VudC52YWx1ZSA9IHRoaXMuZ3JvdXBDb3VudC52YWx1ZSArIFVpbnQ2NCgxKQogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGdyb3VwQ291bnQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDUgLy8gImdyb3VwQ291bnQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMAogICAgLy8gdGhpcy5ncm91cENvdW50LnZhbHVlID0gdGhpcy5ncm91cENvdW50LnZhbHVlICsgVWludDY0KDEpCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgaW50Y18xIC8vIDEKICAgICsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGdyb3VwQ291bnQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDUgLy8gImdyb3VwQ291bnQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMAogICAgLy8gdGhpcy5ncm91cENvdW50LnZhbHVlID0gdGhpcy5ncm91cENvdW50LnZhbHVlICsgVWludDY0KDEpCiAgICBkaWcgMQogICAgYXBwX2dsb2JhbF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzCiAgICAvLyB0aGlzLmdyb3VwTmFtZXMoZ3JvdXBJZCkudmFsdWUgPSBuYW1lCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3CiAgICAvLyBncm91cE5hbWVzID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2duJyB9KQogICAgYnl0ZWMgNiAvLyAiZ24iCiAgICBkaWcgMQogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMwogICAgLy8gdGhpcy5ncm91cE5hbWVzKGdyb3VwSWQpLnZhbHVlID0gbmFtZQogICAgZHVwCiAgICBib3hfZGVsCiAgICBwb3AKICAgIHVuY292ZXIgMgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQKICAgIC8vIHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS52YWx1ZSA9IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKQogICAgdHhuIFNlbmRlcgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OAogICAgLy8gZ3JvdXBDcmVhdG9ycyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdnYycgfSkKICAgIGJ5dGVjIDcgLy8gImdjIgogICAgZGlnIDIKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQKICAgIC8vIHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS52YWx1ZSA9IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKQogICAgZHVwCiAgICBib3hfZGVsCiAgICBwb3AKICAgIHN3YXAKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI2CiAgICAvLyBjb25zdCBrZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKSB9CiAgICBieXRlY18zIC8vIDB4MDAyMAogICAgdHhuIFNlbmRlcgogICAgY29uY2F0CiAgICBkaWcgMQogICAgYnl0ZWNfMSAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI3CiAgICAvLyB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUgPSBVaW50NjQoMikKICAgIGludGNfMiAvLyAyCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMQogICAgLy8gbWVtYmVyUm9sZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXInIH0pCiAgICBieXRlYyA0IC8vICJtciIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjgKICAgIC8vIHRoaXMubWVtYmVyUm9sZXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCgxKQogICAgaW50Y18xIC8vIDEKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE4CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pbnZpdGVNZW1iZXJbcm91dGluZ10oKSAtPiB2b2lkOgppbnZpdGVNZW1iZXI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozMwogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGludGNfMCAvLyAwCiAgICBleHRyYWN0X3VpbnQxNiAvLyBvbiBlcnJvcjogaW52YWxpZCBhcnJheSBsZW5ndGggaGVhZGVyCiAgICBpbnRjXzIgLy8gMgogICAgKwogICAgZGlnIDEKICAgIGxlbgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5keW5hbWljX2FycmF5PGFyYzQudWludDg+CiAgICBleHRyYWN0IDIgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzUKICAgIC8vIGNvbnN0IGNhbGxlcktleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogVHhuLnNlbmRlci5ieXRlcy50b1N0cmluZygpIH0KICAgIHR4biBTZW5kZXIKICAgIHVuY292ZXIgMgogICAgaXRvYgogICAgYnl0ZWNfMyAvLyAweDAwMjAKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBieXRlY18xIC8vIDB4MDAwYQogICAgY29uY2F0CiAgICBkdXAKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM2CiAgICAvLyBhc3NlcnQodGhpcy5tZW1iZXJTdGF0dXNlcyhjYWxsZXJLZXkpLmV4aXN0cywgJ0NhbGxlciBpcyBub3QgYSBtZW1iZXInKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBDYWxsZXIgaXMgbm90IGEgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNwogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoY2FsbGVyS2V5KS52YWx1ZSA9PT0gVWludDY0KDIpLCAnQ2FsbGVyIGhhcyBub3Qgam9pbmVkJykKICAgIGJveF9nZXQKICAgIHBvcAogICAgYnRvaQogICAgaW50Y18yIC8vIDIKICAgID09CiAgICBhc3NlcnQgLy8gQ2FsbGVyIGhhcyBub3Qgam9pbmVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMQogICAgLy8gbWVtYmVyUm9sZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXInIH0pCiAgICBieXRlYyA0IC8vICJtciIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzgKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclJvbGVzKGNhbGxlcktleSkudmFsdWUgPT09IFVpbnQ2NCgxKSwgJ0NhbGxlciBpcyBub3QgYWRtaW4nKQogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGNfMSAvLyAxCiAgICA9PQogICAgYXNzZXJ0IC8vIENhbGxlciBpcyBub3QgYWRtaW4KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQwCiAgICAvLyBjb25zdCB1c2VyS2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIGRpZyAxCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIGRpZyAxCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQxCiAgICAvLyB0aGlzLm1lbWJlclN0YXR1c2VzKHVzZXJLZXkpLnZhbHVlID0gVWludDY0KDEpCiAgICBpbnRjXzEgLy8gMQogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEKICAgIC8vIG1lbWJlclJvbGVzID0gQm94TWFwPHsgZ3JvdXBJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ21yJyB9KQogICAgYnl0ZWMgNCAvLyAibXIiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQyCiAgICAvLyB0aGlzLm1lbWJlclJvbGVzKHVzZXJLZXkpLnZhbHVlID0gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzMKICAgIC8vIEBhYmltZXRob2QoKQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmFjY2VwdEludml0ZVtyb3V0aW5nXSgpIC0+IHZvaWQ6CmFjY2VwdEludml0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ1CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ3CiAgICAvLyBjb25zdCBrZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKSB9CiAgICB0eG4gU2VuZGVyCiAgICBzd2FwCiAgICBpdG9iCiAgICBieXRlY18zIC8vIDB4MDAyMAogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGJ5dGVjXzEgLy8gMHgwMDBhCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAKICAgIC8vIG1lbWJlclN0YXR1c2VzID0gQm94TWFwPHsgZ3JvdXBJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ21zJyB9KQogICAgYnl0ZWNfMCAvLyAibXMiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ4CiAgICAvLyBhc3NlcnQodGhpcy5tZW1iZXJTdGF0dXNlcyhrZXkpLmV4aXN0cywgJ05vIGludml0ZSBmb3VuZCcpCiAgICBkdXAKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYXNzZXJ0IC8vIE5vIGludml0ZSBmb3VuZAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDkKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUgPT09IFVpbnQ2NCgxKSwgJ05vdCBpbnZpdGVkJykKICAgIGR1cAogICAgYm94X2dldAogICAgcG9wCiAgICBidG9pCiAgICBpbnRjXzEgLy8gMQogICAgPT0KICAgIGFzc2VydCAvLyBOb3QgaW52aXRlZAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NTAKICAgIC8vIHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCgyKQogICAgaW50Y18yIC8vIDIKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ1CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5yZWplY3RJbnZpdGVbcm91dGluZ10oKSAtPiB2b2lkOgpyZWplY3RJbnZpdGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MwogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1NQogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiBUeG4uc2VuZGVyLmJ5dGVzLnRvU3RyaW5nKCkgfQogICAgdHhuIFNlbmRlcgogICAgc3dhcAogICAgaXRvYgogICAgYnl0ZWNfMyAvLyAweDAwMjAKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBieXRlY18xIC8vIDB4MDAwYQogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwCiAgICAvLyBtZW1iZXJTdGF0dXNlcyA9IEJveE1hcDx7IGdyb3VwSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdtcycgfSkKICAgIGJ5dGVjXzAgLy8gIm1zIgogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1NgogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS5leGlzdHMsICdObyBpbnZpdGUgZm91bmQnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBObyBpbnZpdGUgZm91bmQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjU3CiAgICAvLyBhc3NlcnQodGhpcy5tZW1iZXJTdGF0dXNlcyhrZXkpLnZhbHVlID09PSBVaW50NjQoMSksICdOb3QgaW52aXRlZCcpCiAgICBkdXAKICAgIGJveF9nZXQKICAgIHBvcAogICAgYnRvaQogICAgaW50Y18xIC8vIDEKICAgID09CiAgICBhc3NlcnQgLy8gTm90IGludml0ZWQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjU4CiAgICAvLyB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUgPSBVaW50NjQoMCkKICAgIGludGNfMCAvLyAwCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MwogICAgLy8gQGFiaW1ldGhvZCgpCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkucmVtb3ZlTWVtYmVyW3JvdXRpbmddKCkgLT4gdm9pZDoKcmVtb3ZlTWVtYmVyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjEKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18yIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjYzCiAgICAvLyBjb25zdCBjYWxsZXJLZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIuYnl0ZXMudG9TdHJpbmcoKSB9CiAgICB0eG4gU2VuZGVyCiAgICB1bmNvdmVyIDIKICAgIGl0b2IKICAgIGJ5dGVjXzMgLy8gMHgwMDIwCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMSAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgZHVwCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAKICAgIC8vIG1lbWJlclN0YXR1c2VzID0gQm94TWFwPHsgZ3JvdXBJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ21zJyB9KQogICAgYnl0ZWNfMCAvLyAibXMiCiAgICBkaWcgMQogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo2NAogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoY2FsbGVyS2V5KS5leGlzdHMsICdDYWxsZXIgaXMgbm90IGEgbWVtYmVyJykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gQ2FsbGVyIGlzIG5vdCBhIG1lbWJlcgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjUKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKGNhbGxlcktleSkudmFsdWUgPT09IFVpbnQ2NCgyKSwgJ0NhbGxlciBoYXMgbm90IGpvaW5lZCcpCiAgICBib3hfZ2V0CiAgICBwb3AKICAgIGJ0b2kKICAgIGludGNfMiAvLyAyCiAgICA9PQogICAgYXNzZXJ0IC8vIENhbGxlciBoYXMgbm90IGpvaW5lZAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEKICAgIC8vIG1lbWJlclJvbGVzID0gQm94TWFwPHsgZ3JvdXBJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ21yJyB9KQogICAgYnl0ZWMgNCAvLyAibXIiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY2CiAgICAvLyBhc3NlcnQodGhpcy5tZW1iZXJSb2xlcyhjYWxsZXJLZXkpLnZhbHVlID09PSBVaW50NjQoMSksICdDYWxsZXIgaXMgbm90IGFkbWluJykKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBidG9pCiAgICBpbnRjXzEgLy8gMQogICAgPT0KICAgIGFzc2VydCAvLyBDYWxsZXIgaXMgbm90IGFkbWluCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo2OAogICAgLy8gY29uc3QgdXNlcktleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogdXNlciB9CiAgICBkaWcgMQogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAKICAgIC8vIG1lbWJlclN0YXR1c2VzID0gQm94TWFwPHsgZ3JvdXBJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ21zJyB9KQogICAgYnl0ZWNfMCAvLyAibXMiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY5CiAgICAvLyB0aGlzLm1lbWJlclN0YXR1c2VzKHVzZXJLZXkpLnZhbHVlID0gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjEKICAgIC8vIEBhYmltZXRob2QoKQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmxlYXZlR3JvdXBbcm91dGluZ10oKSAtPiB2b2lkOgpsZWF2ZUdyb3VwOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzIKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzQKICAgIC8vIGNvbnN0IGtleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogVHhuLnNlbmRlci5ieXRlcy50b1N0cmluZygpIH0KICAgIHR4biBTZW5kZXIKICAgIHN3YXAKICAgIGl0b2IKICAgIGJ5dGVjXzMgLy8gMHgwMDIwCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMSAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzUKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzLCAnTm90IGEgbWVtYmVyJykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gTm90IGEgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3NgogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9PT0gVWludDY0KDIpLCAnTm90IGpvaW5lZCcpCiAgICBkdXAKICAgIGJveF9nZXQKICAgIHBvcAogICAgYnRvaQogICAgaW50Y18yIC8vIDIKICAgID09CiAgICBhc3NlcnQgLy8gTm90IGpvaW5lZAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzcKICAgIC8vIHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCgwKQogICAgaW50Y18wIC8vIDAKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjcyCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5nZXRHcm91cE5hbWVbcm91dGluZ10oKSAtPiB2b2lkOgpnZXRHcm91cE5hbWU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4MAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4MgogICAgLy8gYXNzZXJ0KHRoaXMuZ3JvdXBOYW1lcyhncm91cElkKS5leGlzdHMsICdHcm91cCBkb2VzIG5vdCBleGlzdCcpCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3CiAgICAvLyBncm91cE5hbWVzID0gQm94TWFwPHVpbnQ2NCwgc3RyaW5nPih7IGtleVByZWZpeDogJ2duJyB9KQogICAgYnl0ZWMgNiAvLyAiZ24iCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjgyCiAgICAvLyBhc3NlcnQodGhpcy5ncm91cE5hbWVzKGdyb3VwSWQpLmV4aXN0cywgJ0dyb3VwIGRvZXMgbm90IGV4aXN0JykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gR3JvdXAgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjgzCiAgICAvLyByZXR1cm4gdGhpcy5ncm91cE5hbWVzKGdyb3VwSWQpLnZhbHVlCiAgICBib3hfZ2V0CiAgICBwb3AKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjgwCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBieXRlY18yIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuZ2V0R3JvdXBDcmVhdG9yW3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0R3JvdXBDcmVhdG9yOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODgKICAgIC8vIGFzc2VydCh0aGlzLmdyb3VwQ3JlYXRvcnMoZ3JvdXBJZCkuZXhpc3RzLCAnR3JvdXAgZG9lcyBub3QgZXhpc3QnKQogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OAogICAgLy8gZ3JvdXBDcmVhdG9ycyA9IEJveE1hcDx1aW50NjQsIHN0cmluZz4oeyBrZXlQcmVmaXg6ICdnYycgfSkKICAgIGJ5dGVjIDcgLy8gImdjIgogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4OAogICAgLy8gYXNzZXJ0KHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS5leGlzdHMsICdHcm91cCBkb2VzIG5vdCBleGlzdCcpCiAgICBkdXAKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYXNzZXJ0IC8vIEdyb3VwIGRvZXMgbm90IGV4aXN0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4OQogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS52YWx1ZQogICAgYm94X2dldAogICAgcG9wCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4NgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldE1lbWJlclN0YXR1c1tyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldE1lbWJlclN0YXR1czoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjkyCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5NAogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIHN3YXAKICAgIGl0b2IKICAgIGRpZyAxCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMSAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5NQogICAgLy8gaWYgKHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS5leGlzdHMpIHsKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYnogZ2V0TWVtYmVyU3RhdHVzX2FmdGVyX2lmX2Vsc2VAMwogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTYKICAgIC8vIHJldHVybiB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUKICAgIGR1cAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKCmdldE1lbWJlclN0YXR1c19hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldE1lbWJlclN0YXR1c0A0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgaXRvYgogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0TWVtYmVyU3RhdHVzX2FmdGVyX2lmX2Vsc2VAMzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjk4CiAgICAvLyByZXR1cm4gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgYiBnZXRNZW1iZXJTdGF0dXNfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5nZXRNZW1iZXJTdGF0dXNANAoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldE1lbWJlclJvbGVbcm91dGluZ10oKSAtPiB2b2lkOgpnZXRNZW1iZXJSb2xlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAxCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDMKICAgIC8vIGNvbnN0IGtleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogdXNlciB9CiAgICBzd2FwCiAgICBpdG9iCiAgICBkaWcgMQogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGJ5dGVjXzEgLy8gMHgwMDBhCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEKICAgIC8vIG1lbWJlclJvbGVzID0gQm94TWFwPHsgZ3JvdXBJZDogdWludDY0OyB1c2VyOiBzdHJpbmcgfSwgdWludDY0Pih7IGtleVByZWZpeDogJ21yJyB9KQogICAgYnl0ZWMgNCAvLyAibXIiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIGR1cAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA0CiAgICAvLyBpZiAodGhpcy5tZW1iZXJSb2xlcyhrZXkpLmV4aXN0cykgewogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBnZXRNZW1iZXJSb2xlX2FmdGVyX2lmX2Vsc2VAMwogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA1CiAgICAvLyByZXR1cm4gdGhpcy5tZW1iZXJSb2xlcyhrZXkpLnZhbHVlCiAgICBkdXAKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBidG9pCgpnZXRNZW1iZXJSb2xlX2FmdGVyX2lubGluZWRfc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuZ2V0TWVtYmVyUm9sZUA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAxCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGl0b2IKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmdldE1lbWJlclJvbGVfYWZ0ZXJfaWZfZWxzZUAzOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA3CiAgICAvLyByZXR1cm4gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAxCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgZ2V0TWVtYmVyUm9sZV9hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldE1lbWJlclJvbGVANAoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmlzTWVtYmVyW3JvdXRpbmddKCkgLT4gdm9pZDoKaXNNZW1iZXI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTAKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50Y18yIC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExMgogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIHN3YXAKICAgIGl0b2IKICAgIGRpZyAxCiAgICBsZW4KICAgIGl0b2IKICAgIGV4dHJhY3QgNiAyCiAgICB1bmNvdmVyIDIKICAgIGNvbmNhdAogICAgc3dhcAogICAgYnl0ZWNfMSAvLyAweDAwMGEKICAgIGNvbmNhdAogICAgc3dhcAogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTMKICAgIC8vIGlmICh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzKSB7CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGJ6IGlzTWVtYmVyX2FmdGVyX2lmX2Vsc2VAMwogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTE0CiAgICAvLyByZXR1cm4gdGhpcy5tZW1iZXJTdGF0dXNlcyhrZXkpLnZhbHVlID09PSBVaW50NjQoMikKICAgIGR1cAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGNfMiAvLyAyCiAgICA9PQoKaXNNZW1iZXJfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pc01lbWJlckA0OgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEwCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHB1c2hieXRlcyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmlzTWVtYmVyX2FmdGVyX2lmX2Vsc2VAMzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExNgogICAgLy8gcmV0dXJuIGZhbHNlCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEwCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgaXNNZW1iZXJfYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pc01lbWJlckA0CgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuaXNBZG1pbltyb3V0aW5nXSgpIC0+IHZvaWQ6CmlzQWRtaW46CiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTE5CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGNfMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjEKICAgIC8vIGNvbnN0IGtleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogdXNlciB9CiAgICBzd2FwCiAgICBpdG9iCiAgICBkaWcgMQogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGJ5dGVjXzEgLy8gMHgwMDBhCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMAogICAgLy8gbWVtYmVyU3RhdHVzZXMgPSBCb3hNYXA8eyBncm91cElkOiB1aW50NjQ7IHVzZXI6IHN0cmluZyB9LCB1aW50NjQ+KHsga2V5UHJlZml4OiAnbXMnIH0pCiAgICBieXRlY18wIC8vICJtcyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgZHVwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjIKICAgIC8vIGlmICh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzICYmIHRoaXMubWVtYmVyUm9sZXMoa2V5KS5leGlzdHMpIHsKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYnogaXNBZG1pbl9hZnRlcl9pZl9lbHNlQDgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExCiAgICAvLyBtZW1iZXJSb2xlcyA9IEJveE1hcDx7IGdyb3VwSWQ6IHVpbnQ2NDsgdXNlcjogc3RyaW5nIH0sIHVpbnQ2ND4oeyBrZXlQcmVmaXg6ICdtcicgfSkKICAgIGJ5dGVjIDQgLy8gIm1yIgogICAgZGlnIDIKICAgIGNvbmNhdAogICAgZHVwCiAgICBidXJ5IDQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyMgogICAgLy8gaWYgKHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS5leGlzdHMgJiYgdGhpcy5tZW1iZXJSb2xlcyhrZXkpLmV4aXN0cykgewogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBpc0FkbWluX2FmdGVyX2lmX2Vsc2VAOAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTIzCiAgICAvLyByZXR1cm4gdGhpcy5tZW1iZXJTdGF0dXNlcyhrZXkpLnZhbHVlID09PSBVaW50NjQoMikgJiYgdGhpcy5tZW1iZXJSb2xlcyhrZXkpLnZhbHVlID09PSBVaW50NjQoMSkKICAgIGR1cAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGNfMiAvLyAyCiAgICA9PQogICAgYnogaXNBZG1pbl9ib29sX2ZhbHNlQDYKICAgIGRpZyAyCiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQogICAgaW50Y18xIC8vIDEKICAgID09CiAgICBieiBpc0FkbWluX2Jvb2xfZmFsc2VANgogICAgaW50Y18xIC8vIDEKCmlzQWRtaW5fYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pc0FkbWluQDk6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTkKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgcHVzaGJ5dGVzIDB4MDAKICAgIGludGNfMCAvLyAwCiAgICB1bmNvdmVyIDIKICAgIHNldGJpdAogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKaXNBZG1pbl9ib29sX2ZhbHNlQDY6CiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTE5CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGIgaXNBZG1pbl9hZnRlcl9pbmxpbmVkX3NtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmlzQWRtaW5AOQoKaXNBZG1pbl9hZnRlcl9pZl9lbHNlQDg6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjUKICAgIC8vIHJldHVybiBmYWxzZQogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExOQogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBiIGlzQWRtaW5fYWZ0ZXJfaW5saW5lZF9zbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pc0FkbWluQDkKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5nZXRHcm91cENvdW50W3JvdXRpbmddKCkgLT4gdm9pZDoKZ2V0R3JvdXBDb3VudDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzMAogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBDb3VudC52YWx1ZQogICAgaW50Y18wIC8vIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjUKICAgIC8vIGdyb3VwQ291bnQgPSBHbG9iYWxTdGF0ZTx1aW50NjQ+KHsgaW5pdGlhbFZhbHVlOiBVaW50NjQoMCkgfSkKICAgIGJ5dGVjIDUgLy8gImdyb3VwQ291bnQiCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzAKICAgIC8vIHJldHVybiB0aGlzLmdyb3VwQ291bnQudmFsdWUKICAgIGFwcF9nbG9iYWxfZ2V0X2V4CiAgICBhc3NlcnQgLy8gY2hlY2sgR2xvYmFsU3RhdGUgZXhpc3RzCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjgKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgaXRvYgogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgo=","clear":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYmFzZS1jb250cmFjdC5kLnRzOjpCYXNlQ29udHJhY3QuY2xlYXJTdGF0ZVByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBwdXNoaW50IDEgLy8gMQogICAgcmV0dXJuCg=="},"byteCode":{"approval":"CyAEAAECCCYIAm1zAgAKBBUffHUCACACbXIKZ3JvdXBDb3VudAJnbgJnYzEYQAAEJwUiZzEZFEQxGEEAY4INBKc/H7wEfEqT5gSaadoABMRLvv8EiN7QtwRkj0/TBBWWfBcELVr2UQTqLKowBJ7lslYEb4GOeARLDAVfBK9pd7c2GgCODQAVAGcAxADuARgBbQGXAboB3QIgAmQCrwMcAIAEuER7NjYaAI4BAAEAJwUiZyNDNhoBSSJZJAhLARUSRFcCACInBWVEIwgnBUsBZxYnBksBUEm8SE8CvzEAJwdLAlBJvEhMvysxAFBLASlQTFAoSwFQJBa/JwRMUCMWvypMULAjQzYaAUkVJRJEFzYaAkkiWSQISwEVEkRXAgAxAE8CFitPAlBMKVBJTwJQKEsBUEm9RQFEvkgXJBJEJwRMUL5EFyMSREsBFRZXBgJPAlBQKEsBUCMWvycETFAiFr8jQzYaAUkVJRJEFzEATBYrTwJQTClQTFAoTFBJvUUBREm+SBcjEkQkFr8jQzYaAUkVJRJEFzEATBYrTwJQTClQTFAoTFBJvUUBREm+SBcjEkQiFr8jQzYaAUkVJRJEFzYaAkkiWSQISwEVEkRXAgAxAE8CFitPAlBMKVBJTwJQKEsBUEm9RQFEvkgXJBJEJwRMUL5EFyMSREsBFRZXBgJPAlBQKExQIha/I0M2GgFJFSUSRBcxAEwWK08CUEwpUExQKExQSb1FAURJvkgXJBJEIha/I0M2GgFJFSUSRBcWJwZMUEm9RQFEvkhJFRZXBgJMUCpMULAjQzYaAUkVJRJEFxYnB0xQSb1FAUS+SEkVFlcGAkxQKkxQsCNDNhoBSRUlEkQXNhoCSSJZJAhLARUSRFcCAEwWSwEVFlcGAk8CUEwpUExQKExQSb1FAUEAC0m+RBcWKkxQsCNDIkL/9TYaAUkVJRJEFzYaAkkiWSQISwEVEkRXAgBMFksBFRZXBgJPAlBMKVBMUCcETFBJvUUBQQALSb5EFxYqTFCwI0MiQv/1NhoBSRUlEkQXNhoCSSJZJAhLARUSRFcCAEwWSwEVFlcGAk8CUEwpUExQKExQSb1FAUEAE0m+RBckEoABACJPAlQqTFCwI0MiQv/vIjYaAUkVJRJEFzYaAkkiWSQISwEVEkRXAgBMFksBFRZXBgJPAlBMKVBMUEkoTFBJvUUBQQAzJwRLAlBJRQS9RQFBACVJvkQXJBJBABhLAr5EFyMSQQAOI4ABACJPAlQqTFCwI0MiQv/vIkL/6yInBWVEFipMULAjQw==","clear":"C4EBQw=="},"compilerInfo":{"compiler":"puya","compilerVersion":{"major":5,"minor":3,"patch":2}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+export const APP_SPEC: Arc56Contract = {"name":"GroupRegistry","structs":{"MemberKey":[{"name":"groupId","type":"uint64"},{"name":"user","type":"address"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"createGroup","args":[{"type":"string","name":"name"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"GroupCreated","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"creator"},{"type":"string","name":"name"}]}],"recommendations":{}},{"name":"inviteMember","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"},{"type":"uint64","name":"role"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"MemberInvited","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"inviter"},{"type":"address","name":"user"},{"type":"uint64","name":"role"}]}],"recommendations":{}},{"name":"acceptInvite","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"MemberJoined","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}]}],"recommendations":{}},{"name":"rejectInvite","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"removeMember","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"MemberRemoved","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"remover"},{"type":"address","name":"user"}]}],"recommendations":{}},{"name":"changeRole","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"},{"type":"uint64","name":"role"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"RoleChanged","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"changer"},{"type":"address","name":"user"},{"type":"uint64","name":"role"}]}],"recommendations":{}},{"name":"transferOwnership","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"newOwner"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"OwnershipTransferred","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"previousOwner"},{"type":"address","name":"newOwner"}]}],"recommendations":{}},{"name":"leaveGroup","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[{"name":"MemberLeft","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}]}],"recommendations":{}},{"name":"getGroupName","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"string"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getGroupCreator","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"address"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getGroupOwner","args":[{"type":"uint64","name":"groupId"}],"returns":{"type":"address"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getMemberStatus","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getMemberRole","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"isMember","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"isAdmin","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"canUpload","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"canReadFiles","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getGroupCount","args":[],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"importGroup","args":[{"type":"uint64","name":"groupId"},{"type":"string","name":"name"},{"type":"address","name":"creator"},{"type":"address","name":"owner"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"importMember","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"},{"type":"uint64","name":"status"},{"type":"uint64","name":"role"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"finishImport","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":2,"bytes":0},"local":{"ints":0,"bytes":0}},"keys":{"global":{"groupCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"Z3JvdXBDb3VudA=="},"importClosed":{"keyType":"AVMString","valueType":"AVMUint64","key":"aW1wb3J0Q2xvc2Vk"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"groupNames":{"keyType":"uint64","valueType":"AVMString","prefix":"Z24="},"groupCreators":{"keyType":"uint64","valueType":"address","prefix":"Z2M="},"groupOwners":{"keyType":"uint64","valueType":"address","prefix":"Z28="},"memberStatuses":{"keyType":"MemberKey","valueType":"uint64","prefix":"bXM="},"memberRoles":{"keyType":"MemberKey","valueType":"uint64","prefix":"bXI="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[{"pc":[1128],"errorMessage":"Already a member"},{"pc":[1124,1324,1478,1743,2055,2146,2166,2199,2207,2304,2415,2833,3001,3103,3131,3155],"errorMessage":"Box must have value"},{"pc":[1037,1774],"errorMessage":"Caller cannot assign this role"},{"pc":[1766],"errorMessage":"Caller cannot change this member"},{"pc":[1545],"errorMessage":"Caller cannot remove this member"},{"pc":[2838],"errorMessage":"Caller has not joined"},{"pc":[2806],"errorMessage":"Caller is not a member"},{"pc":[1863],"errorMessage":"Caller is not the owner"},{"pc":[2564],"errorMessage":"Group already exists"},{"pc":[2138,2159,2179,2635],"errorMessage":"Group does not exist"},{"pc":[3176],"errorMessage":"Import is closed"},{"pc":[1871],"errorMessage":"New owner has not joined"},{"pc":[1297,1451],"errorMessage":"No invite found"},{"pc":[1747,2028],"errorMessage":"Not a member"},{"pc":[1328,1482],"errorMessage":"Not invited"},{"pc":[2060],"errorMessage":"Not joined"},{"pc":[70],"errorMessage":"OnCompletion must be NoOp"},{"pc":[2730],"errorMessage":"Only the creator can close the import"},{"pc":[3168],"errorMessage":"Only the creator can import"},{"pc":[1029,1753],"errorMessage":"Ownership is only transferred"},{"pc":[2072],"errorMessage":"Transfer ownership before leaving"},{"pc":[817,825,2547,2601,3173],"errorMessage":"check GlobalState exists"},{"pc":[255,693],"errorMessage":"invalid array length header"},{"pc":[263,701],"errorMessage":"invalid number of bytes for arc4.dynamic_array<arc4.uint8>"},{"pc":[293,352,374,405,503,530,557,589,621,653,712,720,742],"errorMessage":"invalid number of bytes for arc4.static_array<arc4.uint8, 32>"},{"pc":[284,301,315,329,343,365,382,396,418,432,458,476,494,521,548,580,612,644,686,733,750,759],"errorMessage":"invalid number of bytes for arc4.uint64"}],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"source":{"approval":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYXJjNC9pbmRleC5kLnRzOjpDb250cmFjdC5hcHByb3ZhbFByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBpbnRjYmxvY2sgMCAxIDggMzIgNCAyCiAgICBieXRlY2Jsb2NrIDB4ICJtcyIgMHgxNTFmN2M3NSAiZ2MiICJncm91cENvdW50IiAibXIiICJnbyIgMHgwMCAiZ24iICJpbXBvcnRDbG9zZWQiCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgIQogICAgYnogbWFpbl9hZnRlcl9pZl9lbHNlQDIKICAgIGNhbGxzdWIgY29uc3RydWN0b3IKCm1haW5fYWZ0ZXJfaWZfZWxzZUAyOgogICAgdHhuIE9uQ29tcGxldGlvbgogICAgIQogICAgYXNzZXJ0IC8vIE9uQ29tcGxldGlvbiBtdXN0IGJlIE5vT3AKICAgIHR4biBBcHBsaWNhdGlvbklECiAgICBieiBtYWluX2NyZWF0ZV9Ob09wCiAgICBwdXNoYnl0ZXNzIDB4YTczZjFmYmMgMHhiNTg2ZTFjYyAweDlhNjlkYTAwIDB4YzQ0YmJlZmYgMHgxMDI2NjBjNCAweDJjNmRiZjEyIDB4YThmOTFkNGEgMHg2NDhmNGZkMyAweDE1OTY3YzE3IDB4ZjM5M2E3OTUgMHg2Yzg2YjAzOCAweDczZTNlMDY0IDB4MDQxZDlkNzYgMHgwYjE2YmU1YSAweDIxYzVjM2IwIDB4YmE4NDYxZTggMHhmNzA4NGQ0ZSAweGFmNjk3N2I3IDB4ZjZhMjhkN2UgMHg5MGYwYjdmYyAweDM5NTZhMGM0IC8vIG1ldGhvZCAiY3JlYXRlR3JvdXAoc3RyaW5nKXVpbnQ2NCIsIG1ldGhvZCAiaW52aXRlTWVtYmVyKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJhY2NlcHRJbnZpdGUodWludDY0KXZvaWQiLCBtZXRob2QgInJlamVjdEludml0ZSh1aW50NjQpdm9pZCIsIG1ldGhvZCAicmVtb3ZlTWVtYmVyKHVpbnQ2NCxhZGRyZXNzKXZvaWQiLCBtZXRob2QgImNoYW5nZVJvbGUodWludDY0LGFkZHJlc3MsdWludDY0KXZvaWQiLCBtZXRob2QgInRyYW5zZmVyT3duZXJzaGlwKHVpbnQ2NCxhZGRyZXNzKXZvaWQiLCBtZXRob2QgImxlYXZlR3JvdXAodWludDY0KXZvaWQiLCBtZXRob2QgImdldEdyb3VwTmFtZSh1aW50NjQpc3RyaW5nIiwgbWV0aG9kICJnZXRHcm91cENyZWF0b3IodWludDY0KWFkZHJlc3MiLCBtZXRob2QgImdldEdyb3VwT3duZXIodWludDY0KWFkZHJlc3MiLCBtZXRob2QgImdldE1lbWJlclN0YXR1cyh1aW50NjQsYWRkcmVzcyl1aW50NjQiLCBtZXRob2QgImdldE1lbWJlclJvbGUodWludDY0LGFkZHJlc3MpdWludDY0IiwgbWV0aG9kICJpc01lbWJlcih1aW50NjQsYWRkcmVzcylib29sIiwgbWV0aG9kICJpc0FkbWluKHVpbnQ2NCxhZGRyZXNzKWJvb2wiLCBtZXRob2QgImNhblVwbG9hZCh1aW50NjQsYWRkcmVzcylib29sIiwgbWV0aG9kICJjYW5SZWFkRmlsZXModWludDY0LGFkZHJlc3MpYm9vbCIsIG1ldGhvZCAiZ2V0R3JvdXBDb3VudCgpdWludDY0IiwgbWV0aG9kICJpbXBvcnRHcm91cCh1aW50NjQsc3RyaW5nLGFkZHJlc3MsYWRkcmVzcyl2b2lkIiwgbWV0aG9kICJpbXBvcnRNZW1iZXIodWludDY0LGFkZHJlc3MsdWludDY0LHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJmaW5pc2hJbXBvcnQoKXZvaWQiCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAwCiAgICBtYXRjaCBjcmVhdGVHcm91cF9yb3V0ZSBpbnZpdGVNZW1iZXJfcm91dGUgYWNjZXB0SW52aXRlX3JvdXRlIHJlamVjdEludml0ZV9yb3V0ZSByZW1vdmVNZW1iZXJfcm91dGUgY2hhbmdlUm9sZV9yb3V0ZSB0cmFuc2Zlck93bmVyc2hpcF9yb3V0ZSBsZWF2ZUdyb3VwX3JvdXRlIGdldEdyb3VwTmFtZV9yb3V0ZSBnZXRHcm91cENyZWF0b3Jfcm91dGUgZ2V0R3JvdXBPd25lcl9yb3V0ZSBnZXRNZW1iZXJTdGF0dXNfcm91dGUgZ2V0TWVtYmVyUm9sZV9yb3V0ZSBpc01lbWJlcl9yb3V0ZSBpc0FkbWluX3JvdXRlIGNhblVwbG9hZF9yb3V0ZSBjYW5SZWFkRmlsZXNfcm91dGUgZ2V0R3JvdXBDb3VudF9yb3V0ZSBpbXBvcnRHcm91cF9yb3V0ZSBpbXBvcnRNZW1iZXJfcm91dGUgZmluaXNoSW1wb3J0X3JvdXRlCiAgICBlcnIKCm1haW5fY3JlYXRlX05vT3A6CiAgICBwdXNoYnl0ZXMgMHhiODQ0N2IzNiAvLyBtZXRob2QgImNyZWF0ZUFwcGxpY2F0aW9uKCl2b2lkIgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAogICAgbWF0Y2ggY3JlYXRlQXBwbGljYXRpb25fcm91dGUKICAgIGVycgoKY3JlYXRlQXBwbGljYXRpb25fcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNAogICAgLy8gQGFiaW1ldGhvZCh7IG9uQ3JlYXRlOiAncmVxdWlyZScgfSkKICAgIGNhbGxzdWIgY3JlYXRlQXBwbGljYXRpb24KICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmNyZWF0ZUdyb3VwX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MzkKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBpbnRjXzAgLy8gMAogICAgZXh0cmFjdF91aW50MTYgLy8gb24gZXJyb3I6IGludmFsaWQgYXJyYXkgbGVuZ3RoIGhlYWRlcgogICAgaW50YyA1IC8vIDIKICAgICsKICAgIGRpZyAxCiAgICBsZW4KICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuZHluYW1pY19hcnJheTxhcmM0LnVpbnQ4PgogICAgZXh0cmFjdCAyIDAKICAgIGNhbGxzdWIgY3JlYXRlR3JvdXAKICAgIGl0b2IKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmludml0ZU1lbWJlcl9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjg4CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgY2FsbHN1YiBpbnZpdGVNZW1iZXIKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmFjY2VwdEludml0ZV9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwMQogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICBjYWxsc3ViIGFjY2VwdEludml0ZQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKcmVqZWN0SW52aXRlX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEwCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIGNhbGxzdWIgcmVqZWN0SW52aXRlCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpyZW1vdmVNZW1iZXJfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTgKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIHJlbW92ZU1lbWJlcgogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKY2hhbmdlUm9sZV9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyOAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDMyCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnN0YXRpY19hcnJheTxhcmM0LnVpbnQ4LCAzMj4KICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDMKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIGNhbGxzdWIgY2hhbmdlUm9sZQogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKdHJhbnNmZXJPd25lcnNoaXBfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDEKICAgIC8vIEBhYmltZXRob2QoKQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIHRyYW5zZmVyT3duZXJzaGlwCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpsZWF2ZUdyb3VwX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTUyCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIGNhbGxzdWIgbGVhdmVHcm91cAogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0R3JvdXBOYW1lX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTYyCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIGNhbGxzdWIgZ2V0R3JvdXBOYW1lCiAgICBkdXAKICAgIGxlbgogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0R3JvdXBDcmVhdG9yX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTY4CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIGNhbGxzdWIgZ2V0R3JvdXBDcmVhdG9yCiAgICBieXRlY18yIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpnZXRHcm91cE93bmVyX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc0CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIGNhbGxzdWIgZ2V0R3JvdXBPd25lcgogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0TWVtYmVyU3RhdHVzX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTgzCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgY2FsbHN1YiBnZXRNZW1iZXJTdGF0dXMKICAgIGl0b2IKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmdldE1lbWJlclJvbGVfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOTIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIGdldE1lbWJlclJvbGUKICAgIGl0b2IKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmlzTWVtYmVyX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTk3CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgY2FsbHN1YiBpc01lbWJlcgogICAgYnl0ZWMgNyAvLyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmlzQWRtaW5fcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDYKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIGlzQWRtaW4KICAgIGJ5dGVjIDcgLy8gMHgwMAogICAgaW50Y18wIC8vIDAKICAgIHVuY292ZXIgMgogICAgc2V0Yml0CiAgICBieXRlY18yIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgpjYW5VcGxvYWRfcm91dGU6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTQKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMyAvLyAzMgogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC5zdGF0aWNfYXJyYXk8YXJjNC51aW50OCwgMzI+CiAgICBjYWxsc3ViIGNhblVwbG9hZAogICAgYnl0ZWMgNyAvLyAweDAwCiAgICBpbnRjXzAgLy8gMAogICAgdW5jb3ZlciAyCiAgICBzZXRiaXQKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmNhblJlYWRGaWxlc19yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyMgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18yIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAyCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDMyCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnN0YXRpY19hcnJheTxhcmM0LnVpbnQ4LCAzMj4KICAgIGNhbGxzdWIgY2FuUmVhZEZpbGVzCiAgICBieXRlYyA3IC8vIDB4MDAKICAgIGludGNfMCAvLyAwCiAgICB1bmNvdmVyIDIKICAgIHNldGJpdAogICAgYnl0ZWNfMiAvLyAweDE1MWY3Yzc1CiAgICBzd2FwCiAgICBjb25jYXQKICAgIGxvZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKZ2V0R3JvdXBDb3VudF9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyNwogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICBjYWxsc3ViIGdldEdyb3VwQ291bnQKICAgIGl0b2IKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmltcG9ydEdyb3VwX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjM5CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgaW50Y18wIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIGludGMgNSAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGV4dHJhY3QgMiAwCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAzCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18zIC8vIDMyCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnN0YXRpY19hcnJheTxhcmM0LnVpbnQ4LCAzMj4KICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDQKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgY2FsbHN1YiBpbXBvcnRHcm91cAogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKaW1wb3J0TWVtYmVyX3JvdXRlOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQ5CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzIgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGJ0b2kKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzMgLy8gMzIKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQuc3RhdGljX2FycmF5PGFyYzQudWludDgsIDMyPgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAogICAgZHVwCiAgICBsZW4KICAgIGludGNfMiAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgY2FsbHN1YiBpbXBvcnRNZW1iZXIKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCmZpbmlzaEltcG9ydF9yb3V0ZToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI1OAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICBjYWxsc3ViIGZpbmlzaEltcG9ydAogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmNvbnN0cnVjdG9yKCkgLT4gdm9pZDoKY29uc3RydWN0b3I6CiAgICBwcm90byAwIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3CiAgICAvLyBleHBvcnQgY2xhc3MgR3JvdXBSZWdpc3RyeSBleHRlbmRzIENvbnRyYWN0IHsKICAgIGNhbGxzdWIgQmFzZUNvbnRyYWN0LmNvbnN0cnVjdG9yCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOAogICAgLy8gZ3JvdXBDb3VudCA9IEdsb2JhbFN0YXRlPHVpbnQ2ND4oeyBpbml0aWFsVmFsdWU6IFVpbnQ2NCgwKSB9KQogICAgYnl0ZWMgNCAvLyAiZ3JvdXBDb3VudCIKICAgIGludGNfMCAvLyAwCiAgICBhcHBfZ2xvYmFsX3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjEKICAgIC8vIGltcG9ydENsb3NlZCA9IEdsb2JhbFN0YXRlPHVpbnQ2ND4oeyBpbml0aWFsVmFsdWU6IFVpbnQ2NCgwKSB9KQogICAgYnl0ZWMgOSAvLyAiaW1wb3J0Q2xvc2VkIgogICAgaW50Y18wIC8vIDAKICAgIGFwcF9nbG9iYWxfcHV0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5jcmVhdGVBcHBsaWNhdGlvbigpIC0+IHZvaWQ6CmNyZWF0ZUFwcGxpY2F0aW9uOgogICAgcHJvdG8gMCAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozNAogICAgLy8gQGFiaW1ldGhvZCh7IG9uQ3JlYXRlOiAncmVxdWlyZScgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjM2CiAgICAvLyB0aGlzLmdyb3VwQ291bnQudmFsdWUgPSBVaW50NjQoMCkKICAgIGJ5dGVjIDQgLy8gImdyb3VwQ291bnQiCiAgICBpbnRjXzAgLy8gMAogICAgYXBwX2dsb2JhbF9wdXQKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmNyZWF0ZUdyb3VwKG5hbWU6IGJ5dGVzKSAtPiB1aW50NjQ6CmNyZWF0ZUdyb3VwOgogICAgcHJvdG8gMSAxCiAgICBpbnRjXzAgLy8gMAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGludGNfMCAvLyAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czozOQogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MQogICAgLy8gdGhpcy5ncm91cENvdW50LnZhbHVlID0gdGhpcy5ncm91cENvdW50LnZhbHVlICsgVWludDY0KDEpCiAgICBieXRlYyA0IC8vICJncm91cENvdW50IgogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjIDQgLy8gImdyb3VwQ291bnQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgaW50Y18xIC8vIDEKICAgICsKICAgIGFwcF9nbG9iYWxfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo0MgogICAgLy8gY29uc3QgZ3JvdXBJZDogdWludDY0ID0gdGhpcy5ncm91cENvdW50LnZhbHVlCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWMgNCAvLyAiZ3JvdXBDb3VudCIKICAgIGFwcF9nbG9iYWxfZ2V0X2V4CiAgICBhc3NlcnQgLy8gY2hlY2sgR2xvYmFsU3RhdGUgZXhpc3RzCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ0CiAgICAvLyB0aGlzLmdyb3VwTmFtZXMoZ3JvdXBJZCkudmFsdWUgPSBuYW1lCiAgICBieXRlYyA4IC8vICJnbiIKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAtMQogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDUKICAgIC8vIHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS52YWx1ZSA9IFR4bi5zZW5kZXIKICAgIGJ5dGVjXzMgLy8gImdjIgogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGNvbmNhdAogICAgdHhuIFNlbmRlcgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NDYKICAgIC8vIHRoaXMuZ3JvdXBPd25lcnMoZ3JvdXBJZCkudmFsdWUgPSBUeG4uc2VuZGVyCiAgICBieXRlYyA2IC8vICJnbyIKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBjb25jYXQKICAgIHR4biBTZW5kZXIKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ4CiAgICAvLyBjb25zdCBrZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfQogICAgZnJhbWVfZGlnIDAKICAgIHR4biBTZW5kZXIKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9kaWcgMQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAzCiAgICBmcmFtZV9kaWcgMgogICAgZnJhbWVfYnVyeSA0CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNAogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjQ5CiAgICAvLyB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUgPSBVaW50NjQoMikKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDYKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgNwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDcKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBpbnRjIDUgLy8gMgogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NTAKICAgIC8vIHRoaXMubWVtYmVyUm9sZXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCg0KQogICAgYnl0ZWMgNSAvLyAibXIiCiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgOAogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA5CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgOAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgOQogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGludGMgNCAvLyA0CiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MQogICAgLy8gZW1pdDxHcm91cENyZWF0ZWQ+KHsgZ3JvdXBJZDogZ3JvdXBJZCwgY3JlYXRvcjogVHhuLnNlbmRlciwgbmFtZTogbmFtZSB9KQogICAgcHVzaGJ5dGVzIDB4OTAwMDlhMWIgLy8gbWV0aG9kICJHcm91cENyZWF0ZWQodWludDY0LGFkZHJlc3Msc3RyaW5nKSIKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDEwCiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDExCiAgICBmcmFtZV9kaWcgLTEKICAgIGR1cAogICAgbGVuCiAgICBpdG9iCiAgICBleHRyYWN0IDYgMgogICAgc3dhcAogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDEyCiAgICBieXRlY18wIC8vIDB4CiAgICBwdXNoaW50IDQyIC8vIDQyCiAgICBmcmFtZV9idXJ5IDEzCiAgICBmcmFtZV9kaWcgMTAKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDExCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxMwogICAgaXRvYgogICAgZXh0cmFjdCA2IDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDEyCiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgbG9nCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1MwogICAgLy8gcmV0dXJuIGdyb3VwSWQKICAgIGZyYW1lX2RpZyAwCiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pbnZpdGVNZW1iZXIoZ3JvdXBJZDogdWludDY0LCB1c2VyOiBieXRlcywgcm9sZTogdWludDY0KSAtPiB2b2lkOgppbnZpdGVNZW1iZXI6CiAgICBwcm90byAzIDAKICAgIGludGNfMCAvLyAwCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODgKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTAKICAgIC8vIGNvbnN0IGNhbGxlclJvbGUgPSB0aGlzLmNhbGxlclJvbGUoZ3JvdXBJZCkKICAgIGZyYW1lX2RpZyAtMwogICAgY2FsbHN1YiBjYWxsZXJSb2xlCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjkxCiAgICAvLyBhc3NlcnQocm9sZSA8IFVpbnQ2NCg0KSwgJ093bmVyc2hpcCBpcyBvbmx5IHRyYW5zZmVycmVkJykKICAgIGZyYW1lX2RpZyAtMQogICAgaW50YyA0IC8vIDQKICAgIDwKICAgIGFzc2VydCAvLyBPd25lcnNoaXAgaXMgb25seSB0cmFuc2ZlcnJlZAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTIKICAgIC8vIGFzc2VydCh0aGlzLmNhbk1hbmFnZShjYWxsZXJSb2xlLCByb2xlKSwgJ0NhbGxlciBjYW5ub3QgYXNzaWduIHRoaXMgcm9sZScpCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIGNhbk1hbmFnZQogICAgYXNzZXJ0IC8vIENhbGxlciBjYW5ub3QgYXNzaWduIHRoaXMgcm9sZQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTQKICAgIC8vIGNvbnN0IHVzZXJLZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IHVzZXIgfQogICAgZnJhbWVfZGlnIC0zCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9kaWcgMQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAzCiAgICBmcmFtZV9kaWcgMgogICAgZnJhbWVfYnVyeSA0CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNAogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjk1CiAgICAvLyBhc3NlcnQoIXRoaXMubWVtYmVyU3RhdHVzZXModXNlcktleSkuZXhpc3RzIHx8IHRoaXMubWVtYmVyU3RhdHVzZXModXNlcktleSkudmFsdWUgPT09IFVpbnQ2NCgwKSwgJ0FscmVhZHkgYSBtZW1iZXInKQogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNgogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA3CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNwogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgIQogICAgZHVwCiAgICBibnogaW52aXRlTWVtYmVyX2Jvb2xfbWVyZ2VAMQogICAgcG9wCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA4CiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDkKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA5CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGNfMCAvLyAwCiAgICA9PQoKaW52aXRlTWVtYmVyX2Jvb2xfbWVyZ2VAMToKICAgIGFzc2VydCAvLyBBbHJlYWR5IGEgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo5NgogICAgLy8gdGhpcy5tZW1iZXJTdGF0dXNlcyh1c2VyS2V5KS52YWx1ZSA9IFVpbnQ2NCgxKQogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMTAKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgMTEKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAxMAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTEKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBpbnRjXzEgLy8gMQogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTcKICAgIC8vIHRoaXMubWVtYmVyUm9sZXModXNlcktleSkudmFsdWUgPSByb2xlCiAgICBieXRlYyA1IC8vICJtciIKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAxMgogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSAxMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDEyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxMwogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAtMQogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6OTgKICAgIC8vIGVtaXQ8TWVtYmVySW52aXRlZD4oeyBncm91cElkOiBncm91cElkLCBpbnZpdGVyOiBUeG4uc2VuZGVyLCB1c2VyOiB1c2VyLCByb2xlOiByb2xlIH0pCiAgICBwdXNoYnl0ZXMgMHhjOGY2N2VkYSAvLyBtZXRob2QgIk1lbWJlckludml0ZWQodWludDY0LGFkZHJlc3MsYWRkcmVzcyx1aW50NjQpIgogICAgZnJhbWVfZGlnIC0zCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDE0CiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDE1CiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2J1cnkgMTYKICAgIGZyYW1lX2RpZyAtMQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAxNwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDE0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxNQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTYKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE3CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgbG9nCiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5hY2NlcHRJbnZpdGUoZ3JvdXBJZDogdWludDY0KSAtPiB2b2lkOgphY2NlcHRJbnZpdGU6CiAgICBwcm90byAxIDAKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDEKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTAzCiAgICAvLyBjb25zdCBrZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfQogICAgZnJhbWVfZGlnIC0xCiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDQKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzLCAnTm8gaW52aXRlIGZvdW5kJykKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDUKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgNgogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBObyBpbnZpdGUgZm91bmQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEwNQogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9PT0gVWludDY0KDEpLCAnTm90IGludml0ZWQnKQogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNwogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA4CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgOAogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICBidG9pCiAgICBpbnRjXzEgLy8gMQogICAgPT0KICAgIGFzc2VydCAvLyBOb3QgaW52aXRlZAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTA2CiAgICAvLyB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUgPSBVaW50NjQoMikKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDkKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgMTAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA5CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxMAogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGludGMgNSAvLyAyCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMDcKICAgIC8vIGVtaXQ8TWVtYmVySm9pbmVkPih7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfSkKICAgIHB1c2hieXRlcyAweDlkNDRkNTUyIC8vIG1ldGhvZCAiTWVtYmVySm9pbmVkKHVpbnQ2NCxhZGRyZXNzKSIKICAgIGZyYW1lX2RpZyAtMQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAxMQogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSAxMgogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDExCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxMgogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGxvZwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkucmVqZWN0SW52aXRlKGdyb3VwSWQ6IHVpbnQ2NCkgLT4gdm9pZDoKcmVqZWN0SW52aXRlOgogICAgcHJvdG8gMSAwCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEwCiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExMgogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiBUeG4uc2VuZGVyIH0KICAgIGZyYW1lX2RpZyAtMQogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9idXJ5IDAKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDIKICAgIGZyYW1lX2RpZyAxCiAgICBmcmFtZV9idXJ5IDMKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzCiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgNAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTEzCiAgICAvLyBhc3NlcnQodGhpcy5tZW1iZXJTdGF0dXNlcyhrZXkpLmV4aXN0cywgJ05vIGludml0ZSBmb3VuZCcpCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA1CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDYKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA1CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA2CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gTm8gaW52aXRlIGZvdW5kCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTQKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUgPT09IFVpbnQ2NCgxKSwgJ05vdCBpbnZpdGVkJykKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDcKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgOAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDcKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDgKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQogICAgaW50Y18xIC8vIDEKICAgID09CiAgICBhc3NlcnQgLy8gTm90IGludml0ZWQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjExNQogICAgLy8gdGhpcy5tZW1iZXJTdGF0dXNlcyhrZXkpLnZhbHVlID0gVWludDY0KDApCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA5CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDEwCiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgOQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTAKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBpbnRjXzAgLy8gMAogICAgaXRvYgogICAgYm94X3B1dAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkucmVtb3ZlTWVtYmVyKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHZvaWQ6CnJlbW92ZU1lbWJlcjoKICAgIHByb3RvIDIgMAogICAgaW50Y18wIC8vIDAKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMTgKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTIwCiAgICAvLyBjb25zdCBjYWxsZXJSb2xlID0gdGhpcy5jYWxsZXJSb2xlKGdyb3VwSWQpCiAgICBmcmFtZV9kaWcgLTIKICAgIGNhbGxzdWIgY2FsbGVyUm9sZQogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjEKICAgIC8vIGFzc2VydCh0aGlzLmNhbk1hbmFnZShjYWxsZXJSb2xlLCB0aGlzLnJvbGVPZihncm91cElkLCB1c2VyKSksICdDYWxsZXIgY2Fubm90IHJlbW92ZSB0aGlzIG1lbWJlcicpCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9kaWcgLTEKICAgIGNhbGxzdWIgcm9sZU9mCiAgICBjYWxsc3ViIGNhbk1hbmFnZQogICAgYXNzZXJ0IC8vIENhbGxlciBjYW5ub3QgcmVtb3ZlIHRoaXMgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjMKICAgIC8vIGNvbnN0IHVzZXJLZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IHVzZXIgfQogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9kaWcgMQogICAgaXRvYgogICAgZnJhbWVfYnVyeSAzCiAgICBmcmFtZV9kaWcgMgogICAgZnJhbWVfYnVyeSA0CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgMwogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNAogICAgY29uY2F0CiAgICBmcmFtZV9idXJ5IDUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEyNAogICAgLy8gdGhpcy5tZW1iZXJTdGF0dXNlcyh1c2VyS2V5KS52YWx1ZSA9IFVpbnQ2NCgwKQogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNgogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA3CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNwogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGludGNfMCAvLyAwCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMjUKICAgIC8vIGVtaXQ8TWVtYmVyUmVtb3ZlZD4oeyBncm91cElkOiBncm91cElkLCByZW1vdmVyOiBUeG4uc2VuZGVyLCB1c2VyOiB1c2VyIH0pCiAgICBwdXNoYnl0ZXMgMHhhZTM3NGMyZSAvLyBtZXRob2QgIk1lbWJlclJlbW92ZWQodWludDY0LGFkZHJlc3MsYWRkcmVzcykiCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgOAogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSA5CiAgICBmcmFtZV9kaWcgLTEKICAgIGZyYW1lX2J1cnkgMTAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA5CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxMAogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGxvZwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuY2hhbmdlUm9sZShncm91cElkOiB1aW50NjQsIHVzZXI6IGJ5dGVzLCByb2xlOiB1aW50NjQpIC0+IHZvaWQ6CmNoYW5nZVJvbGU6CiAgICBwcm90byAzIDAKICAgIGludGNfMCAvLyAwCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTI4CiAgICAvLyBAYWJpbWV0aG9kKCkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzMAogICAgLy8gY29uc3QgY2FsbGVyUm9sZSA9IHRoaXMuY2FsbGVyUm9sZShncm91cElkKQogICAgZnJhbWVfZGlnIC0zCiAgICBjYWxsc3ViIGNhbGxlclJvbGUKICAgIGZyYW1lX2J1cnkgMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTMxCiAgICAvLyBjb25zdCB1c2VyS2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIGZyYW1lX2RpZyAtMwogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9idXJ5IDIKICAgIGZyYW1lX2J1cnkgMQogICAgZnJhbWVfZGlnIDEKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMwogICAgZnJhbWVfZGlnIDIKICAgIGZyYW1lX2J1cnkgNAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDQKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA1CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzIKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKHVzZXJLZXkpLmV4aXN0cyAmJiB0aGlzLm1lbWJlclN0YXR1c2VzKHVzZXJLZXkpLnZhbHVlICE9PSBVaW50NjQoMCksICdOb3QgYSBtZW1iZXInKQogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNgogICAgZnJhbWVfZGlnIDUKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA3CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNwogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgZHVwCiAgICBieiBjaGFuZ2VSb2xlX2Jvb2xfbWVyZ2VAMQogICAgcG9wCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA4CiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDkKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA5CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGNfMCAvLyAwCiAgICAhPQoKY2hhbmdlUm9sZV9ib29sX21lcmdlQDE6CiAgICBhc3NlcnQgLy8gTm90IGEgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzMKICAgIC8vIGFzc2VydChyb2xlIDwgVWludDY0KDQpLCAnT3duZXJzaGlwIGlzIG9ubHkgdHJhbnNmZXJyZWQnKQogICAgZnJhbWVfZGlnIC0xCiAgICBpbnRjIDQgLy8gNAogICAgPAogICAgYXNzZXJ0IC8vIE93bmVyc2hpcCBpcyBvbmx5IHRyYW5zZmVycmVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzQKICAgIC8vIGFzc2VydCh0aGlzLmNhbk1hbmFnZShjYWxsZXJSb2xlLCB0aGlzLnJvbGVPZihncm91cElkLCB1c2VyKSksICdDYWxsZXIgY2Fubm90IGNoYW5nZSB0aGlzIG1lbWJlcicpCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0zCiAgICBmcmFtZV9kaWcgLTIKICAgIGNhbGxzdWIgcm9sZU9mCiAgICBjYWxsc3ViIGNhbk1hbmFnZQogICAgYXNzZXJ0IC8vIENhbGxlciBjYW5ub3QgY2hhbmdlIHRoaXMgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxMzUKICAgIC8vIGFzc2VydCh0aGlzLmNhbk1hbmFnZShjYWxsZXJSb2xlLCByb2xlKSwgJ0NhbGxlciBjYW5ub3QgYXNzaWduIHRoaXMgcm9sZScpCiAgICBmcmFtZV9kaWcgMAogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIGNhbk1hbmFnZQogICAgYXNzZXJ0IC8vIENhbGxlciBjYW5ub3QgYXNzaWduIHRoaXMgcm9sZQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTM2CiAgICAvLyB0aGlzLm1lbWJlclJvbGVzKHVzZXJLZXkpLnZhbHVlID0gcm9sZQogICAgYnl0ZWMgNSAvLyAibXIiCiAgICBmcmFtZV9kaWcgNQogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMTAKICAgIGZyYW1lX2RpZyA1CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgMTEKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAxMAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTEKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjEzNwogICAgLy8gZW1pdDxSb2xlQ2hhbmdlZD4oeyBncm91cElkOiBncm91cElkLCBjaGFuZ2VyOiBUeG4uc2VuZGVyLCB1c2VyOiB1c2VyLCByb2xlOiByb2xlIH0pCiAgICBwdXNoYnl0ZXMgMHg4ZWRmYTc3YyAvLyBtZXRob2QgIlJvbGVDaGFuZ2VkKHVpbnQ2NCxhZGRyZXNzLGFkZHJlc3MsdWludDY0KSIKICAgIGZyYW1lX2RpZyAtMwogICAgaXRvYgogICAgZnJhbWVfYnVyeSAxMgogICAgdHhuIFNlbmRlcgogICAgZnJhbWVfYnVyeSAxMwogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9idXJ5IDE0CiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMTUKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAxMgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTMKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDE0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxNQogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGxvZwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkudHJhbnNmZXJPd25lcnNoaXAoZ3JvdXBJZDogdWludDY0LCBuZXdPd25lcjogYnl0ZXMpIC0+IHZvaWQ6CnRyYW5zZmVyT3duZXJzaGlwOgogICAgcHJvdG8gMiAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDEKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQzCiAgICAvLyBhc3NlcnQodGhpcy5jYWxsZXJSb2xlKGdyb3VwSWQpID09PSBVaW50NjQoNCksICdDYWxsZXIgaXMgbm90IHRoZSBvd25lcicpCiAgICBmcmFtZV9kaWcgLTIKICAgIGNhbGxzdWIgY2FsbGVyUm9sZQogICAgaW50YyA0IC8vIDQKICAgID09CiAgICBhc3NlcnQgLy8gQ2FsbGVyIGlzIG5vdCB0aGUgb3duZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0NAogICAgLy8gYXNzZXJ0KHRoaXMuaXNKb2luZWQoZ3JvdXBJZCwgbmV3T3duZXIpLCAnTmV3IG93bmVyIGhhcyBub3Qgam9pbmVkJykKICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIGlzSm9pbmVkCiAgICBhc3NlcnQgLy8gTmV3IG93bmVyIGhhcyBub3Qgam9pbmVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDYKICAgIC8vIHRoaXMuZ3JvdXBPd25lcnMoZ3JvdXBJZCkudmFsdWUgPSBuZXdPd25lcgogICAgYnl0ZWMgNiAvLyAiZ28iCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIC0xCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNDcKICAgIC8vIHRoaXMubWVtYmVyUm9sZXMoeyBncm91cElkOiBncm91cElkLCB1c2VyOiBuZXdPd25lciB9KS52YWx1ZSA9IFVpbnQ2NCg0KQogICAgYnl0ZWMgNSAvLyAibXIiCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIC0xCiAgICBmcmFtZV9idXJ5IDEKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAwCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAxCiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgaW50YyA0IC8vIDQKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE0OAogICAgLy8gdGhpcy5tZW1iZXJSb2xlcyh7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfSkudmFsdWUgPSBVaW50NjQoMSkKICAgIGJ5dGVjIDUgLy8gIm1yIgogICAgZnJhbWVfZGlnIC0yCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDIKICAgIHR4biBTZW5kZXIKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBpbnRjXzEgLy8gMQogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTQ5CiAgICAvLyBlbWl0PE93bmVyc2hpcFRyYW5zZmVycmVkPih7IGdyb3VwSWQ6IGdyb3VwSWQsIHByZXZpb3VzT3duZXI6IFR4bi5zZW5kZXIsIG5ld093bmVyOiBuZXdPd25lciB9KQogICAgcHVzaGJ5dGVzIDB4MmE1NzM1NmEgLy8gbWV0aG9kICJPd25lcnNoaXBUcmFuc2ZlcnJlZCh1aW50NjQsYWRkcmVzcyxhZGRyZXNzKSIKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgZnJhbWVfYnVyeSA0CiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDUKICAgIGZyYW1lX2RpZyAtMQogICAgZnJhbWVfYnVyeSA2CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNAogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNgogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGxvZwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkubGVhdmVHcm91cChncm91cElkOiB1aW50NjQpIC0+IHZvaWQ6CmxlYXZlR3JvdXA6CiAgICBwcm90byAxIDAKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNTIKICAgIC8vIEBhYmltZXRob2QoKQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTU0CiAgICAvLyBjb25zdCBrZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfQogICAgZnJhbWVfZGlnIC0xCiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNTUKICAgIC8vIGFzc2VydCh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzLCAnTm90IGEgbWVtYmVyJykKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDUKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgNgogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBOb3QgYSBtZW1iZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE1NgogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9PT0gVWludDY0KDIpLCAnTm90IGpvaW5lZCcpCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGMgNSAvLyAyCiAgICA9PQogICAgYXNzZXJ0IC8vIE5vdCBqb2luZWQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE1NwogICAgLy8gYXNzZXJ0KCF0aGlzLmlzT3duZXIoZ3JvdXBJZCwga2V5LnVzZXIpLCAnVHJhbnNmZXIgb3duZXJzaGlwIGJlZm9yZSBsZWF2aW5nJykKICAgIGZyYW1lX2RpZyAtMQogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgOCAzMgogICAgY2FsbHN1YiBpc093bmVyCiAgICAhCiAgICBhc3NlcnQgLy8gVHJhbnNmZXIgb3duZXJzaGlwIGJlZm9yZSBsZWF2aW5nCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNTgKICAgIC8vIHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9IFVpbnQ2NCgwKQogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgOQogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSAxMAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDkKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDEwCiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgaW50Y18wIC8vIDAKICAgIGl0b2IKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE1OQogICAgLy8gZW1pdDxNZW1iZXJMZWZ0Pih7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfSkKICAgIHB1c2hieXRlcyAweDVjYTM1ZjIyIC8vIG1ldGhvZCAiTWVtYmVyTGVmdCh1aW50NjQsYWRkcmVzcykiCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMTEKICAgIHR4biBTZW5kZXIKICAgIGZyYW1lX2J1cnkgMTIKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAxMQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgMTIKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBsb2cKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldEdyb3VwTmFtZShncm91cElkOiB1aW50NjQpIC0+IGJ5dGVzOgpnZXRHcm91cE5hbWU6CiAgICBwcm90byAxIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2MgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNjQKICAgIC8vIGFzc2VydCh0aGlzLmdyb3VwTmFtZXMoZ3JvdXBJZCkuZXhpc3RzLCAnR3JvdXAgZG9lcyBub3QgZXhpc3QnKQogICAgYnl0ZWMgOCAvLyAiZ24iCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gR3JvdXAgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2NQogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBOYW1lcyhncm91cElkKS52YWx1ZQogICAgYnl0ZWMgOCAvLyAiZ24iCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldEdyb3VwQ3JlYXRvcihncm91cElkOiB1aW50NjQpIC0+IGJ5dGVzOgpnZXRHcm91cENyZWF0b3I6CiAgICBwcm90byAxIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE2OAogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxNzAKICAgIC8vIGFzc2VydCh0aGlzLmdyb3VwQ3JlYXRvcnMoZ3JvdXBJZCkuZXhpc3RzLCAnR3JvdXAgZG9lcyBub3QgZXhpc3QnKQogICAgYnl0ZWNfMyAvLyAiZ2MiCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gR3JvdXAgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3MQogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS52YWx1ZQogICAgYnl0ZWNfMyAvLyAiZ2MiCiAgICBmcmFtZV9kaWcgLTEKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmdldEdyb3VwT3duZXIoZ3JvdXBJZDogdWludDY0KSAtPiBieXRlczoKZ2V0R3JvdXBPd25lcjoKICAgIHByb3RvIDEgMQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc0CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3NgogICAgLy8gYXNzZXJ0KHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS5leGlzdHMsICdHcm91cCBkb2VzIG5vdCBleGlzdCcpCiAgICBieXRlY18zIC8vICJnYyIKICAgIGZyYW1lX2RpZyAtMQogICAgaXRvYgogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBHcm91cCBkb2VzIG5vdCBleGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTc3CiAgICAvLyBpZiAodGhpcy5ncm91cE93bmVycyhncm91cElkKS5leGlzdHMpIHsKICAgIGJ5dGVjIDYgLy8gImdvIgogICAgZnJhbWVfZGlnIC0xCiAgICBpdG9iCiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgYnogZ2V0R3JvdXBPd25lcl9hZnRlcl9pZl9lbHNlQDIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE3OAogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBPd25lcnMoZ3JvdXBJZCkudmFsdWUKICAgIGJ5dGVjIDYgLy8gImdvIgogICAgZnJhbWVfZGlnIC0xCiAgICBpdG9iCiAgICBjb25jYXQKICAgIGJveF9nZXQKICAgIGFzc2VydCAvLyBCb3ggbXVzdCBoYXZlIHZhbHVlCiAgICByZXRzdWIKCmdldEdyb3VwT3duZXJfYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTgwCiAgICAvLyByZXR1cm4gdGhpcy5ncm91cENyZWF0b3JzKGdyb3VwSWQpLnZhbHVlCiAgICBieXRlY18zIC8vICJnYyIKICAgIGZyYW1lX2RpZyAtMQogICAgaXRvYgogICAgY29uY2F0CiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuZ2V0TWVtYmVyU3RhdHVzKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHVpbnQ2NDoKZ2V0TWVtYmVyU3RhdHVzOgogICAgcHJvdG8gMiAxCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTgzCiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE4NQogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxODYKICAgIC8vIGlmICh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzKSB7CiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA1CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDYKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA1CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA2CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBnZXRNZW1iZXJTdGF0dXNfYWZ0ZXJfaWZfZWxzZUAyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxODcKICAgIC8vIHJldHVybiB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkudmFsdWUKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDcKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgOAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDcKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDgKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQogICAgcmV0c3ViCgpnZXRNZW1iZXJTdGF0dXNfYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTg5CiAgICAvLyByZXR1cm4gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuZ2V0TWVtYmVyUm9sZShncm91cElkOiB1aW50NjQsIHVzZXI6IGJ5dGVzKSAtPiB1aW50NjQ6CmdldE1lbWJlclJvbGU6CiAgICBwcm90byAyIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5MgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoxOTQKICAgIC8vIHJldHVybiB0aGlzLnJvbGVPZihncm91cElkLCB1c2VyKQogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9kaWcgLTEKICAgIGNhbGxzdWIgcm9sZU9mCiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5pc01lbWJlcihncm91cElkOiB1aW50NjQsIHVzZXI6IGJ5dGVzKSAtPiB1aW50NjQ6CmlzTWVtYmVyOgogICAgcHJvdG8gMiAxCiAgICBpbnRjXzAgLy8gMAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgYnl0ZWNfMCAvLyAweAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MTk3CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjE5OQogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDAKICAgIC8vIGlmICh0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzKSB7CiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA1CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDYKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA1CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA2CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBpc01lbWJlcl9hZnRlcl9pZl9lbHNlQDIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwMQogICAgLy8gcmV0dXJuIHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9PT0gVWludDY0KDIpCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGMgNSAvLyAyCiAgICA9PQogICAgcmV0c3ViCgppc01lbWJlcl9hZnRlcl9pZl9lbHNlQDI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDMKICAgIC8vIHJldHVybiBmYWxzZQogICAgaW50Y18wIC8vIDAKICAgIHJldHN1YgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjpHcm91cFJlZ2lzdHJ5LmlzQWRtaW4oZ3JvdXBJZDogdWludDY0LCB1c2VyOiBieXRlcykgLT4gdWludDY0Ogppc0FkbWluOgogICAgcHJvdG8gMiAxCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjA2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIwOAogICAgLy8gaWYgKCF0aGlzLmlzSm9pbmVkKGdyb3VwSWQsIHVzZXIpKSByZXR1cm4gZmFsc2UKICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIGlzSm9pbmVkCiAgICAhCiAgICBieiBpc0FkbWluX2FmdGVyX2lmX2Vsc2VAMgogICAgaW50Y18wIC8vIDAKICAgIHJldHN1YgoKaXNBZG1pbl9hZnRlcl9pZl9lbHNlQDI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMDkKICAgIC8vIGNvbnN0IHJvbGUgPSB0aGlzLnJvbGVPZihncm91cElkLCB1c2VyKQogICAgZnJhbWVfZGlnIC0yCiAgICBmcmFtZV9kaWcgLTEKICAgIGNhbGxzdWIgcm9sZU9mCiAgICBmcmFtZV9idXJ5IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIxMAogICAgLy8gcmV0dXJuIHJvbGUgPT09IFVpbnQ2NCg0KSB8fCByb2xlID09PSBVaW50NjQoMSkKICAgIGZyYW1lX2RpZyAwCiAgICBpbnRjIDQgLy8gNAogICAgPT0KICAgIGR1cAogICAgYm56IGlzQWRtaW5fYm9vbF9tZXJnZUAzCiAgICBwb3AKICAgIGZyYW1lX2RpZyAwCiAgICBpbnRjXzEgLy8gMQogICAgPT0KCmlzQWRtaW5fYm9vbF9tZXJnZUAzOgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuY2FuVXBsb2FkKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHVpbnQ2NDoKY2FuVXBsb2FkOgogICAgcHJvdG8gMiAxCiAgICBpbnRjXzAgLy8gMAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjE0CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIxNgogICAgLy8gaWYgKCF0aGlzLmlzSm9pbmVkKGdyb3VwSWQsIHVzZXIpKSByZXR1cm4gZmFsc2UKICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIGlzSm9pbmVkCiAgICAhCiAgICBieiBjYW5VcGxvYWRfYWZ0ZXJfaWZfZWxzZUAyCiAgICBpbnRjXzAgLy8gMAogICAgcmV0c3ViCgpjYW5VcGxvYWRfYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjE3CiAgICAvLyBjb25zdCByb2xlID0gdGhpcy5yb2xlT2YoZ3JvdXBJZCwgdXNlcikKICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIHJvbGVPZgogICAgZnJhbWVfYnVyeSAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMTgKICAgIC8vIHJldHVybiByb2xlID09PSBVaW50NjQoNCkgfHwgcm9sZSA9PT0gVWludDY0KDEpIHx8IHJvbGUgPT09IFVpbnQ2NCgwKQogICAgZnJhbWVfZGlnIDAKICAgIGludGMgNCAvLyA0CiAgICA9PQogICAgZHVwCiAgICBibnogY2FuVXBsb2FkX2Jvb2xfbWVyZ2VANAogICAgcG9wCiAgICBmcmFtZV9kaWcgMAogICAgaW50Y18xIC8vIDEKICAgID09CgpjYW5VcGxvYWRfYm9vbF9tZXJnZUA0OgogICAgZHVwCiAgICBibnogY2FuVXBsb2FkX2Jvb2xfbWVyZ2VAMwogICAgcG9wCiAgICBmcmFtZV9kaWcgMAogICAgaW50Y18wIC8vIDAKICAgID09CgpjYW5VcGxvYWRfYm9vbF9tZXJnZUAzOgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuY2FuUmVhZEZpbGVzKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMpIC0+IHVpbnQ2NDoKY2FuUmVhZEZpbGVzOgogICAgcHJvdG8gMiAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMjIKICAgIC8vIEBhYmltZXRob2QoeyByZWFkb25seTogdHJ1ZSB9KQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI0CiAgICAvLyByZXR1cm4gdGhpcy5pc0pvaW5lZChncm91cElkLCB1c2VyKSAmJiB0aGlzLnJvbGVPZihncm91cElkLCB1c2VyKSAhPT0gVWludDY0KDMpCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgY2FsbHN1YiBpc0pvaW5lZAogICAgZHVwCiAgICBieiBjYW5SZWFkRmlsZXNfYm9vbF9tZXJnZUAxCiAgICBwb3AKICAgIGZyYW1lX2RpZyAtMgogICAgZnJhbWVfZGlnIC0xCiAgICBjYWxsc3ViIHJvbGVPZgogICAgcHVzaGludCAzIC8vIDMKICAgICE9CgpjYW5SZWFkRmlsZXNfYm9vbF9tZXJnZUAxOgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuZ2V0R3JvdXBDb3VudCgpIC0+IHVpbnQ2NDoKZ2V0R3JvdXBDb3VudDoKICAgIHByb3RvIDAgMQogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjI3CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIyOQogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBDb3VudC52YWx1ZQogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjIDQgLy8gImdyb3VwQ291bnQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuaW1wb3J0R3JvdXAoZ3JvdXBJZDogdWludDY0LCBuYW1lOiBieXRlcywgY3JlYXRvcjogYnl0ZXMsIG93bmVyOiBieXRlcykgLT4gdm9pZDoKaW1wb3J0R3JvdXA6CiAgICBwcm90byA0IDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzOQogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNDEKICAgIC8vIHRoaXMuYXNzZXJ0SW1wb3J0aW5nKCkKICAgIGNhbGxzdWIgYXNzZXJ0SW1wb3J0aW5nCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNDIKICAgIC8vIGFzc2VydCghdGhpcy5ncm91cENyZWF0b3JzKGdyb3VwSWQpLmV4aXN0cywgJ0dyb3VwIGFscmVhZHkgZXhpc3RzJykKICAgIGJ5dGVjXzMgLy8gImdjIgogICAgZnJhbWVfZGlnIC00CiAgICBpdG9iCiAgICBjb25jYXQKICAgIGJveF9sZW4KICAgIGJ1cnkgMQogICAgIQogICAgYXNzZXJ0IC8vIEdyb3VwIGFscmVhZHkgZXhpc3RzCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNDMKICAgIC8vIHRoaXMuZ3JvdXBOYW1lcyhncm91cElkKS52YWx1ZSA9IG5hbWUKICAgIGJ5dGVjIDggLy8gImduIgogICAgZnJhbWVfZGlnIC00CiAgICBpdG9iCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAtMwogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjQ0CiAgICAvLyB0aGlzLmdyb3VwQ3JlYXRvcnMoZ3JvdXBJZCkudmFsdWUgPSBjcmVhdG9yCiAgICBieXRlY18zIC8vICJnYyIKICAgIGZyYW1lX2RpZyAtNAogICAgaXRvYgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgLTIKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI0NQogICAgLy8gdGhpcy5ncm91cE93bmVycyhncm91cElkKS52YWx1ZSA9IG93bmVyCiAgICBieXRlYyA2IC8vICJnbyIKICAgIGZyYW1lX2RpZyAtNAogICAgaXRvYgogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgLTEKICAgIGJveF9wdXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI0NgogICAgLy8gaWYgKGdyb3VwSWQgPiB0aGlzLmdyb3VwQ291bnQudmFsdWUpIHRoaXMuZ3JvdXBDb3VudC52YWx1ZSA9IGdyb3VwSWQKICAgIGZyYW1lX2RpZyAtNAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjIDQgLy8gImdyb3VwQ291bnQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgPgogICAgYnogaW1wb3J0R3JvdXBfYWZ0ZXJfaWZfZWxzZUAyCiAgICBieXRlYyA0IC8vICJncm91cENvdW50IgogICAgZnJhbWVfZGlnIC00CiAgICBhcHBfZ2xvYmFsX3B1dAoKaW1wb3J0R3JvdXBfYWZ0ZXJfaWZfZWxzZUAyOgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuaW1wb3J0TWVtYmVyKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogYnl0ZXMsIHN0YXR1czogdWludDY0LCByb2xlOiB1aW50NjQpIC0+IHZvaWQ6CmltcG9ydE1lbWJlcjoKICAgIHByb3RvIDQgMAogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI0OQogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTEKICAgIC8vIHRoaXMuYXNzZXJ0SW1wb3J0aW5nKCkKICAgIGNhbGxzdWIgYXNzZXJ0SW1wb3J0aW5nCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTIKICAgIC8vIGFzc2VydCh0aGlzLmdyb3VwQ3JlYXRvcnMoZ3JvdXBJZCkuZXhpc3RzLCAnR3JvdXAgZG9lcyBub3QgZXhpc3QnKQogICAgYnl0ZWNfMyAvLyAiZ2MiCiAgICBmcmFtZV9kaWcgLTQKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gR3JvdXAgZG9lcyBub3QgZXhpc3QKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI1MwogICAgLy8gY29uc3Qga2V5ID0geyBncm91cElkOiBncm91cElkLCB1c2VyOiB1c2VyIH0KICAgIGZyYW1lX2RpZyAtNAogICAgZnJhbWVfZGlnIC0zCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNTQKICAgIC8vIHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9IHN0YXR1cwogICAgYnl0ZWNfMSAvLyAibXMiCiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCAwIDgKICAgIGJ0b2kKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgNQogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgOCAzMgogICAgZnJhbWVfYnVyeSA2CiAgICBieXRlY18wIC8vIDB4CiAgICBmcmFtZV9kaWcgNQogICAgY29uY2F0CiAgICBmcmFtZV9kaWcgNgogICAgY29uY2F0CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjU1CiAgICAvLyB0aGlzLm1lbWJlclJvbGVzKGtleSkudmFsdWUgPSByb2xlCiAgICBieXRlYyA1IC8vICJtciIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIC0xCiAgICBpdG9iCiAgICBib3hfcHV0CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5maW5pc2hJbXBvcnQoKSAtPiB2b2lkOgpmaW5pc2hJbXBvcnQ6CiAgICBwcm90byAwIDAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjI1OAogICAgLy8gQGFiaW1ldGhvZCgpCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNjAKICAgIC8vIGFzc2VydChUeG4uc2VuZGVyID09PSBHbG9iYWwuY3JlYXRvckFkZHJlc3MsICdPbmx5IHRoZSBjcmVhdG9yIGNhbiBjbG9zZSB0aGUgaW1wb3J0JykKICAgIHR4biBTZW5kZXIKICAgIGdsb2JhbCBDcmVhdG9yQWRkcmVzcwogICAgPT0KICAgIGFzc2VydCAvLyBPbmx5IHRoZSBjcmVhdG9yIGNhbiBjbG9zZSB0aGUgaW1wb3J0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyNjEKICAgIC8vIHRoaXMuaW1wb3J0Q2xvc2VkLnZhbHVlID0gVWludDY0KDEpCiAgICBieXRlYyA5IC8vICJpbXBvcnRDbG9zZWQiCiAgICBpbnRjXzEgLy8gMQogICAgYXBwX2dsb2JhbF9wdXQKICAgIHJldHN1YgoKCi8vIEBhbGdvcmFuZGZvdW5kYXRpb24vYWxnb3JhbmQtdHlwZXNjcmlwdC9iYXNlLWNvbnRyYWN0LmQudHM6OkJhc2VDb250cmFjdC5jb25zdHJ1Y3RvcigpIC0+IHZvaWQ6CkJhc2VDb250cmFjdC5jb25zdHJ1Y3RvcjoKICAgIHByb3RvIDAgMAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuY2FsbGVyUm9sZShncm91cElkOiB1aW50NjQpIC0+IHVpbnQ2NDoKY2FsbGVyUm9sZToKICAgIHByb3RvIDEgMQogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjc0CiAgICAvLyBwcml2YXRlIGNhbGxlclJvbGUoZ3JvdXBJZDogdWludDY0KTogdWludDY0IHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjc1CiAgICAvLyBjb25zdCBjYWxsZXJLZXkgPSB7IGdyb3VwSWQ6IGdyb3VwSWQsIHVzZXI6IFR4bi5zZW5kZXIgfQogICAgZnJhbWVfZGlnIC0xCiAgICB0eG4gU2VuZGVyCiAgICBmcmFtZV9idXJ5IDEKICAgIGZyYW1lX2J1cnkgMAogICAgZnJhbWVfZGlnIDAKICAgIGl0b2IKICAgIGZyYW1lX2J1cnkgMgogICAgZnJhbWVfZGlnIDEKICAgIGZyYW1lX2J1cnkgMwogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDIKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDMKICAgIGNvbmNhdAogICAgZnJhbWVfYnVyeSA0CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3NgogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoY2FsbGVyS2V5KS5leGlzdHMsICdDYWxsZXIgaXMgbm90IGEgbWVtYmVyJykKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDUKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgNgogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDUKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDYKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBDYWxsZXIgaXMgbm90IGEgbWVtYmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3NwogICAgLy8gYXNzZXJ0KHRoaXMubWVtYmVyU3RhdHVzZXMoY2FsbGVyS2V5KS52YWx1ZSA9PT0gVWludDY0KDIpLCAnQ2FsbGVyIGhhcyBub3Qgam9pbmVkJykKICAgIGJ5dGVjXzEgLy8gIm1zIgogICAgZnJhbWVfZGlnIDQKICAgIGV4dHJhY3QgMCA4CiAgICBidG9pCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDcKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDggMzIKICAgIGZyYW1lX2J1cnkgOAogICAgYnl0ZWNfMCAvLyAweAogICAgZnJhbWVfZGlnIDcKICAgIGNvbmNhdAogICAgZnJhbWVfZGlnIDgKICAgIGNvbmNhdAogICAgY29uY2F0CiAgICBib3hfZ2V0CiAgICBhc3NlcnQgLy8gQm94IG11c3QgaGF2ZSB2YWx1ZQogICAgYnRvaQogICAgaW50YyA1IC8vIDIKICAgID09CiAgICBhc3NlcnQgLy8gQ2FsbGVyIGhhcyBub3Qgam9pbmVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo3OAogICAgLy8gcmV0dXJuIHRoaXMucm9sZU9mKGdyb3VwSWQsIGNhbGxlcktleS51c2VyKQogICAgZnJhbWVfZGlnIC0xCiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBjYWxsc3ViIHJvbGVPZgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuY2FuTWFuYWdlKGFjdG9yUm9sZTogdWludDY0LCByb2xlOiB1aW50NjQpIC0+IHVpbnQ2NDoKY2FuTWFuYWdlOgogICAgcHJvdG8gMiAxCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4MwogICAgLy8gcHJpdmF0ZSBjYW5NYW5hZ2UoYWN0b3JSb2xlOiB1aW50NjQsIHJvbGU6IHVpbnQ2NCk6IGJvb2xlYW4gewogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6ODQKICAgIC8vIGlmIChhY3RvclJvbGUgPT09IFVpbnQ2NCg0KSkgcmV0dXJuIHJvbGUgIT09IFVpbnQ2NCg0KQogICAgZnJhbWVfZGlnIC0yCiAgICBpbnRjIDQgLy8gNAogICAgPT0KICAgIGJ6IGNhbk1hbmFnZV9hZnRlcl9pZl9lbHNlQDIKICAgIGZyYW1lX2RpZyAtMQogICAgaW50YyA0IC8vIDQKICAgICE9CiAgICByZXRzdWIKCmNhbk1hbmFnZV9hZnRlcl9pZl9lbHNlQDI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo4NQogICAgLy8gcmV0dXJuIGFjdG9yUm9sZSA9PT0gVWludDY0KDEpICYmIHJvbGUgIT09IFVpbnQ2NCgxKSAmJiByb2xlICE9PSBVaW50NjQoNCkKICAgIGZyYW1lX2RpZyAtMgogICAgaW50Y18xIC8vIDEKICAgID09CiAgICBkdXAKICAgIGJ6IGNhbk1hbmFnZV9ib29sX21lcmdlQDQKICAgIHBvcAogICAgZnJhbWVfZGlnIC0xCiAgICBpbnRjXzEgLy8gMQogICAgIT0KCmNhbk1hbmFnZV9ib29sX21lcmdlQDQ6CiAgICBkdXAKICAgIGJ6IGNhbk1hbmFnZV9ib29sX21lcmdlQDMKICAgIHBvcAogICAgZnJhbWVfZGlnIC0xCiAgICBpbnRjIDQgLy8gNAogICAgIT0KCmNhbk1hbmFnZV9ib29sX21lcmdlQDM6CiAgICByZXRzdWIKCgovLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo6R3JvdXBSZWdpc3RyeS5yb2xlT2YoZ3JvdXBJZDogdWludDY0LCB1c2VyOiBieXRlcykgLT4gdWludDY0Ogpyb2xlT2Y6CiAgICBwcm90byAyIDEKICAgIGludGNfMCAvLyAwCiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICBieXRlY18wIC8vIDB4CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo2MQogICAgLy8gcHJpdmF0ZSByb2xlT2YoZ3JvdXBJZDogdWludDY0LCB1c2VyOiBBY2NvdW50KTogdWludDY0IHsKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjYyCiAgICAvLyBpZiAodGhpcy5pc093bmVyKGdyb3VwSWQsIHVzZXIpKSByZXR1cm4gVWludDY0KDQpCiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgY2FsbHN1YiBpc093bmVyCiAgICBieiByb2xlT2ZfYWZ0ZXJfaWZfZWxzZUAyCiAgICBpbnRjIDQgLy8gNAogICAgcmV0c3ViCgpyb2xlT2ZfYWZ0ZXJfaWZfZWxzZUAyOgogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjMKICAgIC8vIGNvbnN0IGtleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogdXNlciB9CiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9idXJ5IDAKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDIKICAgIGZyYW1lX2RpZyAxCiAgICBmcmFtZV9idXJ5IDMKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzCiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgNAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjQKICAgIC8vIGlmICh0aGlzLm1lbWJlclJvbGVzKGtleSkuZXhpc3RzKSByZXR1cm4gdGhpcy5tZW1iZXJSb2xlcyhrZXkpLnZhbHVlCiAgICBieXRlYyA1IC8vICJtciIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA1CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDYKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA1CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA2CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiByb2xlT2ZfYWZ0ZXJfaWZfZWxzZUA0CiAgICBieXRlYyA1IC8vICJtciIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIHJldHN1YgoKcm9sZU9mX2FmdGVyX2lmX2Vsc2VANDoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY1CiAgICAvLyByZXR1cm4gVWludDY0KDApCiAgICBpbnRjXzAgLy8gMAogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuaXNKb2luZWQoZ3JvdXBJZDogdWludDY0LCB1c2VyOiBieXRlcykgLT4gdWludDY0Ogppc0pvaW5lZDoKICAgIHByb3RvIDIgMQogICAgaW50Y18wIC8vIDAKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjY4CiAgICAvLyBwcml2YXRlIGlzSm9pbmVkKGdyb3VwSWQ6IHVpbnQ2NCwgdXNlcjogQWNjb3VudCk6IGJvb2xlYW4gewogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NjkKICAgIC8vIGNvbnN0IGtleSA9IHsgZ3JvdXBJZDogZ3JvdXBJZCwgdXNlcjogdXNlciB9CiAgICBmcmFtZV9kaWcgLTIKICAgIGZyYW1lX2RpZyAtMQogICAgZnJhbWVfYnVyeSAxCiAgICBmcmFtZV9idXJ5IDAKICAgIGZyYW1lX2RpZyAwCiAgICBpdG9iCiAgICBmcmFtZV9idXJ5IDIKICAgIGZyYW1lX2RpZyAxCiAgICBmcmFtZV9idXJ5IDMKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyAyCiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyAzCiAgICBjb25jYXQKICAgIGZyYW1lX2J1cnkgNAogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6NzAKICAgIC8vIHJldHVybiB0aGlzLm1lbWJlclN0YXR1c2VzKGtleSkuZXhpc3RzICYmIHRoaXMubWVtYmVyU3RhdHVzZXMoa2V5KS52YWx1ZSA9PT0gVWludDY0KDIpCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA1CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDYKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA1CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA2CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBkdXAKICAgIGJ6IGlzSm9pbmVkX2Jvb2xfbWVyZ2VAMQogICAgcG9wCiAgICBieXRlY18xIC8vICJtcyIKICAgIGZyYW1lX2RpZyA0CiAgICBleHRyYWN0IDAgOAogICAgYnRvaQogICAgaXRvYgogICAgZnJhbWVfYnVyeSA3CiAgICBmcmFtZV9kaWcgNAogICAgZXh0cmFjdCA4IDMyCiAgICBmcmFtZV9idXJ5IDgKICAgIGJ5dGVjXzAgLy8gMHgKICAgIGZyYW1lX2RpZyA3CiAgICBjb25jYXQKICAgIGZyYW1lX2RpZyA4CiAgICBjb25jYXQKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGJ0b2kKICAgIGludGMgNSAvLyAyCiAgICA9PQoKaXNKb2luZWRfYm9vbF9tZXJnZUAxOgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuaXNPd25lcihncm91cElkOiB1aW50NjQsIHVzZXI6IGJ5dGVzKSAtPiB1aW50NjQ6CmlzT3duZXI6CiAgICBwcm90byAyIDEKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjU2CiAgICAvLyBwcml2YXRlIGlzT3duZXIoZ3JvdXBJZDogdWludDY0LCB1c2VyOiBBY2NvdW50KTogYm9vbGVhbiB7CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1NwogICAgLy8gaWYgKHRoaXMuZ3JvdXBPd25lcnMoZ3JvdXBJZCkuZXhpc3RzKSByZXR1cm4gdGhpcy5ncm91cE93bmVycyhncm91cElkKS52YWx1ZSA9PT0gdXNlcgogICAgYnl0ZWMgNiAvLyAiZ28iCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBieiBpc093bmVyX2FmdGVyX2lmX2Vsc2VAMgogICAgYnl0ZWMgNiAvLyAiZ28iCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGZyYW1lX2RpZyAtMQogICAgPT0KICAgIHJldHN1YgoKaXNPd25lcl9hZnRlcl9pZl9lbHNlQDI6CiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czo1OAogICAgLy8gcmV0dXJuIHRoaXMuZ3JvdXBDcmVhdG9ycyhncm91cElkKS5leGlzdHMgJiYgdGhpcy5ncm91cENyZWF0b3JzKGdyb3VwSWQpLnZhbHVlID09PSB1c2VyCiAgICBieXRlY18zIC8vICJnYyIKICAgIGZyYW1lX2RpZyAtMgogICAgaXRvYgogICAgY29uY2F0CiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGR1cAogICAgYnogaXNPd25lcl9ib29sX21lcmdlQDMKICAgIHBvcAogICAgYnl0ZWNfMyAvLyAiZ2MiCiAgICBmcmFtZV9kaWcgLTIKICAgIGl0b2IKICAgIGNvbmNhdAogICAgYm94X2dldAogICAgYXNzZXJ0IC8vIEJveCBtdXN0IGhhdmUgdmFsdWUKICAgIGZyYW1lX2RpZyAtMQogICAgPT0KCmlzT3duZXJfYm9vbF9tZXJnZUAzOgogICAgcmV0c3ViCgoKLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6Okdyb3VwUmVnaXN0cnkuYXNzZXJ0SW1wb3J0aW5nKCkgLT4gdm9pZDoKYXNzZXJ0SW1wb3J0aW5nOgogICAgcHJvdG8gMCAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvZ3JvdXBfcmVnaXN0cnkvY29udHJhY3QuYWxnby50czoyMzQKICAgIC8vIHByaXZhdGUgYXNzZXJ0SW1wb3J0aW5nKCk6IHZvaWQgewogICAgLy8gc21hcnRfY29udHJhY3RzL2dyb3VwX3JlZ2lzdHJ5L2NvbnRyYWN0LmFsZ28udHM6MjM1CiAgICAvLyBhc3NlcnQoVHhuLnNlbmRlciA9PT0gR2xvYmFsLmNyZWF0b3JBZGRyZXNzLCAnT25seSB0aGUgY3JlYXRvciBjYW4gaW1wb3J0JykKICAgIHR4biBTZW5kZXIKICAgIGdsb2JhbCBDcmVhdG9yQWRkcmVzcwogICAgPT0KICAgIGFzc2VydCAvLyBPbmx5IHRoZSBjcmVhdG9yIGNhbiBpbXBvcnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9ncm91cF9yZWdpc3RyeS9jb250cmFjdC5hbGdvLnRzOjIzNgogICAgLy8gYXNzZXJ0KHRoaXMuaW1wb3J0Q2xvc2VkLnZhbHVlID09PSBVaW50NjQoMCksICdJbXBvcnQgaXMgY2xvc2VkJykKICAgIGludGNfMCAvLyAwCiAgICBieXRlYyA5IC8vICJpbXBvcnRDbG9zZWQiCiAgICBhcHBfZ2xvYmFsX2dldF9leAogICAgYXNzZXJ0IC8vIGNoZWNrIEdsb2JhbFN0YXRlIGV4aXN0cwogICAgaW50Y18wIC8vIDAKICAgID09CiAgICBhc3NlcnQgLy8gSW1wb3J0IGlzIGNsb3NlZAogICAgcmV0c3ViCg==","clear":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYmFzZS1jb250cmFjdC5kLnRzOjpCYXNlQ29udHJhY3QuY2xlYXJTdGF0ZVByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBwdXNoaW50IDEgLy8gMQogICAgcmV0dXJuCg=="},"byteCode":{"approval":"CyAGAAEIIAQCJgoAAm1zBBUffHUCZ2MKZ3JvdXBDb3VudAJtcgJnbwEAAmduDGltcG9ydENsb3NlZDEYFEEAA4gCwDEZFEQxGEEAm4IVBKc/H7wEtYbhzASaadoABMRLvv8EECZgxAQsbb8SBKj5HUoEZI9P0wQVlnwXBPOTp5UEbIawOARz4+BkBAQdnXYECxa+WgQhxcOwBLqEYegE9whNTgSvaXe3BPaijX4EkPC3/AQ5VqDENhoAjhUAFAAvAE4AXABqAIAAnwC1AMMA3QDvAQEBHAE3AVcBdwGXAbcBwQHwAhgAgAS4RHs2NhoAjgEAAQCIAhojQzYaAUkiWSEFCEsBFRJEVwIAiAIMFipMULAjQzYaAUkVJBJEFzYaAkkVJRJENhoDSRUkEkQXiAKyI0M2GgFJFSQSRBeIA4sjQzYaAUkVJBJEF4gEGSNDNhoBSRUkEkQXNhoCSRUlEkSIBIQjQzYaAUkVJBJEFzYaAkkVJRJENhoDSRUkEkQXiATdI0M2GgFJFSQSRBc2GgJJFSUSRIgFnCNDNhoBSRUkEkQXiAX/I0M2GgFJFSQSRBeIBplJFRZXBgJMUCpMULAjQzYaAUkVJBJEF4gGlSpMULAjQzYaAUkVJBJEF4gGlypMULAjQzYaAUkVJBJEFzYaAkkVJRJEiAamFipMULAjQzYaAUkVJBJEFzYaAkkVJRJEiAbvFipMULAjQzYaAUkVJBJEFzYaAkkVJRJEiAbfJwciTwJUKkxQsCNDNhoBSRUkEkQXNhoCSRUlEkSIByYnByJPAlQqTFCwI0M2GgFJFSQSRBc2GgJJFSUSRIgHLycHIk8CVCpMULAjQzYaAUkVJBJEFzYaAkkVJRJEiAdBJwciTwJUKkxQsCNDiAdMFipMULAjQzYaAUkVJBJEFzYaAkkiWSEFCEsBFRJEVwIANhoDSRUlEkQ2GgRJFSUSRIgHISNDNhoBSRUkEkQXNhoCSRUlEkQ2GgNJFSQSRBc2GgRJFSQSRBeIBzgjQ4gHoSNDigAAiAenJwQiZycJImeJigAAJwQiZ4mKAQEiIigoKCgoKCgoKCgoIicEIicEZUQjCGciJwRlRIwAJwiLABZQi/9LAbxIvyuLABZQMQC/JwaLABZQMQC/iwAxAIwCjAGLARaMA4sCjAQoiwNQiwRQjAUpiwVXAAgXFowGiwVXCCCMByiLBlCLB1BQIQUWvycFiwVXAAgXFowIiwVXCCCMCSiLCFCLCVBQIQQWv4AEkACaG4sAFowKMQCMC4v/SRUWVwYCTFCMDCiBKowNiwpQiwtQiw0WVwYCUIsMUFCwiwCJigMAIiIoKCgoKCgoKCgoKCgoKCgoi/2IBraMAIv/IQQMRIsAi/+IBxVEi/2L/owCjAGLARaMA4sCjAQoiwNQiwRQjAUpiwVXAAgXFowGiwVXCCCMByiLBlCLB1BQvUUBFElAAB9IKYsFVwAIFxaMCIsFVwggjAkoiwhQiwlQUL5EFyISRCmLBVcACBcWjAqLBVcIIIwLKIsKUIsLUFAjFr8nBYsFVwAIFxaMDIsFVwggjA0oiwxQiw1QUIv/Fr+ABMj2ftqL/RaMDjEAjA+L/owQi/8WjBEoiw5Qiw9QixBQixFQULCJigEAIigoKCgoKCgoKCgoKIv/MQCMAYwAiwAWjAKLAYwDKIsCUIsDUIwEKYsEVwAIFxaMBYsEVwggjAYoiwVQiwZQUL1FAUQpiwRXAAgXFowHiwRXCCCMCCiLB1CLCFBQvkQXIxJEKYsEVwAIFxaMCYsEVwggjAooiwlQiwpQUCEFFr+ABJ1E1VKL/xaMCzEAjAwoiwtQiwxQULCJigEAIigoKCgoKCgoKCiL/zEAjAGMAIsAFowCiwGMAyiLAlCLA1CMBCmLBFcACBcWjAWLBFcIIIwGKIsFUIsGUFC9RQFEKYsEVwAIFxaMB4sEVwggjAgoiwdQiwhQUL5EFyMSRCmLBFcACBcWjAmLBFcIIIwKKIsJUIsKUFAiFr+JigIAIiIoKCgoKCgoKCiL/ogEuYwAiwCL/ov/iAVFiAUZRIv+i/+MAowBiwEWjAOLAowEKIsDUIsEUIwFKYsFVwAIFxaMBosFVwggjAcoiwZQiwdQUCIWv4AErjdMLov+FowIMQCMCYv/jAooiwhQiwlQiwpQULCJigMAIiIoKCgoKCgoKCgoKCgoKIv9iAQ8jACL/Yv+jAKMAYsBFowDiwKMBCiLA1CLBFCMBSmLBVcACBcWjAaLBVcIIIwHKIsGUIsHUFC9RQFJQQAfSCmLBVcACBcWjAiLBVcIIIwJKIsIUIsJUFC+RBciE0SL/yEEDESLAIv9i/6IBGiIBDxEiwCL/4gENEQnBYsFVwAIFxaMCosFVwggjAsoiwpQiwtQUIv/Fr+ABI7fp3yL/RaMDDEAjA2L/owOi/8WjA8oiwxQiw1Qiw5Qiw9QULCJigIAKCgoKCgoKIv+iANwIQQSRIv+i/+IBG9EJwaL/hZQi/+/JwWL/haMAIv/jAEoiwBQiwFQUCEEFr8nBYv+FowCMQCMAyiLAlCLA1BQIxa/gAQqVzVqi/4WjAQxAIwFi/+MBiiLBFCLBVCLBlBQsImKAQAiKCgoKCgoKCgoKCgoi/8xAIwBjACLABaMAosBjAMoiwJQiwNQjAQpiwRXAAgXFowFiwRXCCCMBiiLBVCLBlBQvUUBRCmLBFcACBcWjAeLBFcIIIwIKIsHUIsIUFC+RBchBRJEi/+LBFcIIIgEDhREKYsEVwAIFxaMCYsEVwggjAooiwlQiwpQUCIWv4AEXKNfIov/FowLMQCMDCiLC1CLDFBQsImKAQEnCIv/FlC9RQFEJwiL/xZQvkSJigEBK4v/FlC9RQFEK4v/FlC+RImKAQEri/8WUL1FAUQnBov/FlC9RQFBAAknBov/FlC+RIkri/8WUL5EiYoCASIoKCgoKCgoKIv+i/+MAYwAiwAWjAKLAYwDKIsCUIsDUIwEKYsEVwAIFxaMBYsEVwggjAYoiwVQiwZQUL1FAUEAHSmLBFcACBcWjAeLBFcIIIwIKIsHUIsIUFC+RBeJIomKAgGL/ov/iAI8iYoCASIoKCgoKCgoKIv+i/+MAYwAiwAWjAKLAYwDKIsCUIsDUIwEKYsEVwAIFxaMBYsEVwggjAYoiwVQiwZQUL1FAUEAICmLBFcACBcWjAeLBFcIIIwIKIsHUIsIUFC+RBchBRKJIomKAgEii/6L/4gCPBRBAAIiiYv+i/+IAbyMAIsAIQQSSUAABUiLACMSiYoCASKL/ov/iAITFEEAAiKJi/6L/4gBk4wAiwAhBBJJQAAFSIsAIxJJQAAFSIsAIhKJigIBi/6L/4gB4klBAAtIi/6L/4gBY4EDE4mKAAEiJwRlRImKBACIAl0ri/wWUL1FARREJwiL/BZQi/1LAbxIvyuL/BZQi/6/JwaL/BZQi/+/i/wiJwRlRA1BAAUnBIv8Z4mKBAAiKCgoKCgoKCiIAhUri/wWUL1FAUSL/Iv9jAGMAIsAFowCiwGMAyiLAlCLA1CMBCmLBFcACBcWjAWLBFcIIIwGKIsFUIsGUFCL/ha/JwWLBFcACBcWjAeLBFcIIIwIKIsHUIsIUFCL/xa/iYoAADEAMgkSRCcJI2eJigAAiYoBASIoKCgoKCgoKIv/MQCMAYwAiwAWjAKLAYwDKIsCUIsDUIwEKYsEVwAIFxaMBYsEVwggjAYoiwVQiwZQUL1FAUQpiwRXAAgXFowHiwRXCCCMCCiLB1CLCFBQvkQXIQUSRIv/iwRXCCCIACqJigIBi/4hBBJBAAaL/yEEE4mL/iMSSUEABUiL/yMTSUEABkiL/yEEE4mKAgEiKCgoKCgoKCiL/ov/iADHQQADIQSJi/6L/4wBjACLABaMAosBjAMoiwJQiwNQjAQnBYsEVwAIFxaMBYsEVwggjAYoiwVQiwZQUL1FAUEAHicFiwRXAAgXFowHiwRXCCCMCCiLB1CLCFBQvkQXiSKJigIBIigoKCgoKCgoi/6L/4wBjACLABaMAosBjAMoiwJQiwNQjAQpiwRXAAgXFowFiwRXCCCMBiiLBVCLBlBQvUUBSUEAIEgpiwRXAAgXFowHiwRXCCCMCCiLB1CLCFBQvkQXIQUSiYoCAScGi/4WUL1FAUEADCcGi/4WUL5Ei/8SiSuL/hZQvUUBSUEAC0gri/4WUL5Ei/8SiYoAADEAMgkSRCInCWVEIhJEiQ==","clear":"C4EBQw=="},"events":[{"name":"GroupCreated","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"creator"},{"type":"string","name":"name"}]},{"name":"MemberInvited","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"inviter"},{"type":"address","name":"user"},{"type":"uint64","name":"role"}]},{"name":"MemberJoined","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}]},{"name":"MemberRemoved","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"remover"},{"type":"address","name":"user"}]},{"name":"RoleChanged","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"changer"},{"type":"address","name":"user"},{"type":"uint64","name":"role"}]},{"name":"OwnershipTransferred","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"previousOwner"},{"type":"address","name":"newOwner"}]},{"name":"MemberLeft","args":[{"type":"uint64","name":"groupId"},{"type":"address","name":"user"}]}],"templateVariables":{}} as unknown as Arc56Contract
 
 /**
  * A state record containing binary data
@@ -65,17 +65,17 @@ export type Expand<T> = T extends (...args: infer A) => infer R
 
 // Type definitions for ARC-56 structs
 
-export type Object1E2295E3 = {
+export type MemberKey = {
   groupId: bigint,
   user: string
 }
 
 
 /**
- * Converts the ABI tuple representation of a Object1E2295E3 to the struct representation
+ * Converts the ABI tuple representation of a MemberKey to the struct representation
  */
-export function Object1E2295E3FromTuple(abiTuple: [bigint, string]) {
-  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Object1E2295E3, APP_SPEC.structs) as Object1E2295E3
+export function MemberKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.MemberKey, APP_SPEC.structs) as MemberKey
 }
 
 /**
@@ -90,9 +90,10 @@ export type GroupRegistryArgs = {
     'createGroup(string)uint64': {
       name: string
     }
-    'inviteMember(uint64,string)void': {
+    'inviteMember(uint64,address,uint64)void': {
       groupId: bigint | number
       user: string
+      role: bigint | number
     }
     'acceptInvite(uint64)void': {
       groupId: bigint | number
@@ -100,36 +101,69 @@ export type GroupRegistryArgs = {
     'rejectInvite(uint64)void': {
       groupId: bigint | number
     }
-    'removeMember(uint64,string)void': {
+    'removeMember(uint64,address)void': {
       groupId: bigint | number
       user: string
     }
+    'changeRole(uint64,address,uint64)void': {
+      groupId: bigint | number
+      user: string
+      role: bigint | number
+    }
+    'transferOwnership(uint64,address)void': {
+      groupId: bigint | number
+      newOwner: string
+    }
     'leaveGroup(uint64)void': {
       groupId: bigint | number
     }
     'getGroupName(uint64)string': {
       groupId: bigint | number
     }
-    'getGroupCreator(uint64)string': {
+    'getGroupCreator(uint64)address': {
+      groupId: bigint | number
+    }
+    'getGroupOwner(uint64)address': {
       groupId: bigint | number
     }
-    'getMemberStatus(uint64,string)uint64': {
+    'getMemberStatus(uint64,address)uint64': {
       groupId: bigint | number
       user: string
     }
-    'getMemberRole(uint64,string)uint64': {
+    'getMemberRole(uint64,address)uint64': {
       groupId: bigint | number
       user: string
     }
-    'isMember(uint64,string)bool': {
+    'isMember(uint64,address)bool': {
       groupId: bigint | number
       user: string
     }
-    'isAdmin(uint64,string)bool': {
+    'isAdmin(uint64,address)bool': {
+      groupId: bigint | number
+      user: string
+    }
+    'canUpload(uint64,address)bool': {
+      groupId: bigint | number
+      user: string
+    }
+    'canReadFiles(uint64,address)bool': {
       groupId: bigint | number
       user: string
     }
     'getGroupCount()uint64': Record<string, never>
+    'importGroup(uint64,string,address,address)void': {
+      groupId: bigint | number
+      name: string
+      creator: string
+      owner: string
+    }
+    'importMember(uint64,address,uint64,uint64)void': {
+      groupId: bigint | number
+      user: string
+      status: bigint | number
+      role: bigint | number
+    }
+    'finishImport()void': Record<string, never>
   }
   /**
    * The tuple representation of the arguments for each method
@@ -137,18 +171,26 @@ export type GroupRegistryArgs = {
   tuple: {
     'createApplication()void': []
     'createGroup(string)uint64': [name: string]
-    'inviteMember(uint64,string)void': [groupId: bigint | number, user: string]
+    'inviteMember(uint64,address,uint64)void': [groupId: bigint | number, user: string, role: bigint | number]
     'acceptInvite(uint64)void': [groupId: bigint | number]
     'rejectInvite(uint64)void': [groupId: bigint | number]
-    'removeMember(uint64,string)void': [groupId: bigint | number, user: string]
+    'removeMember(uint64,address)void': [groupId: bigint | number, user: string]
+    'changeRole(uint64,address,uint64)void': [groupId: bigint | number, user: string, role: bigint | number]
+    'transferOwnership(uint64,address)void': [groupId: bigint | number, newOwner: string]
     'leaveGroup(uint64)void': [groupId: bigint | number]
     'getGroupName(uint64)string': [groupId: bigint | number]
-    'getGroupCreator(uint64)string': [groupId: bigint | number]
-    'getMemberStatus(uint64,string)uint64': [groupId: bigint | number, user: string]
-    'getMemberRole(uint64,string)uint64': [groupId: bigint | number, user: string]
-    'isMember(uint64,string)bool': [groupId: bigint | number, user: string]
-    'isAdmin(uint64,string)bool': [groupId: bigint | number, user: string]
+    'getGroupCreator(uint64)address': [groupId: bigint | number]
+    'getGroupOwner(uint64)address': [groupId: bigint | number]
+    'getMemberStatus(uint64,address)uint64': [groupId: bigint | number, user: string]
+    'getMemberRole(uint64,address)uint64': [groupId: bigint | number, user: string]
+    'isMember(uint64,address)bool': [groupId: bigint | number, user: string]
+    'isAdmin(uint64,address)bool': [groupId: bigint | number, user: string]
+    'canUpload(uint64,address)bool': [groupId: bigint | number, user: string]
+    'canReadFiles(uint64,address)bool': [groupId: bigint | number, user: string]
     'getGroupCount()uint64': []
+    'importGroup(uint64,string,address,address)void': [groupId: bigint | number, name: string, creator: string, owner: string]
+    'importMember(uint64,address,uint64,uint64)void': [groupId: bigint | number, user: string, status: bigint | number, role: bigint | number]
+    'finishImport()void': []
   }
 }
 
@@ -158,18 +200,26 @@ export type GroupRegistryArgs = {
 export type GroupRegistryReturns = {
   'createApplication()void': void
   'createGroup(string)uint64': bigint
-  'inviteMember(uint64,string)void': void
+  'inviteMember(uint64,address,uint64)void': void
   'acceptInvite(uint64)void': void
   'rejectInvite(uint64)void': void
-  'removeMember(uint64,string)void': void
+  'removeMember(uint64,address)void': void
+  'changeRole(uint64,address,uint64)void': void
+  'transferOwnership(uint64,address)void': void
   'leaveGroup(uint64)void': void
   'getGroupName(uint64)string': string
-  'getGroupCreator(uint64)string': string
-  'getMemberStatus(uint64,string)uint64': bigint
-  'getMemberRole(uint64,string)uint64': bigint
-  'isMember(uint64,string)bool': boolean
-  'isAdmin(uint64,string)bool': boolean
+  'getGroupCreator(uint64)address': string
+  'getGroupOwner(uint64)address': string
+  'getMemberStatus(uint64,address)uint64': bigint
+  'getMemberRole(uint64,address)uint64': bigint
+  'isMember(uint64,address)bool': boolean
+  'isAdmin(uint64,address)bool': boolean
+  'canUpload(uint64,address)bool': boolean
+  'canReadFiles(uint64,address)bool': boolean
   'getGroupCount()uint64': bigint
+  'importGroup(uint64,string,address,address)void': void
+  'importMember(uint64,address,uint64,uint64)void': void
+  'finishImport()void': void
 }
 
 /**
@@ -190,10 +240,10 @@ export type GroupRegistryTypes = {
       argsTuple: GroupRegistryArgs['tuple']['createGroup(string)uint64']
       returns: GroupRegistryReturns['createGroup(string)uint64']
     }>
-    & Record<'inviteMember(uint64,string)void' | 'inviteMember', {
-      argsObj: GroupRegistryArgs['obj']['inviteMember(uint64,string)void']
-      argsTuple: GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']
-      returns: GroupRegistryReturns['inviteMember(uint64,string)void']
+    & Record<'inviteMember(uint64,address,uint64)void' | 'inviteMember', {
+      argsObj: GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void']
+      argsTuple: GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']
+      returns: GroupRegistryReturns['inviteMember(uint64,address,uint64)void']
     }>
     & Record<'acceptInvite(uint64)void' | 'acceptInvite', {
       argsObj: GroupRegistryArgs['obj']['acceptInvite(uint64)void']
@@ -205,10 +255,20 @@ export type GroupRegistryTypes = {
       argsTuple: GroupRegistryArgs['tuple']['rejectInvite(uint64)void']
       returns: GroupRegistryReturns['rejectInvite(uint64)void']
     }>
-    & Record<'removeMember(uint64,string)void' | 'removeMember', {
-      argsObj: GroupRegistryArgs['obj']['removeMember(uint64,string)void']
-      argsTuple: GroupRegistryArgs['tuple']['removeMember(uint64,string)void']
-      returns: GroupRegistryReturns['removeMember(uint64,string)void']
+    & Record<'removeMember(uint64,address)void' | 'removeMember', {
+      argsObj: GroupRegistryArgs['obj']['removeMember(uint64,address)void']
+      argsTuple: GroupRegistryArgs['tuple']['removeMember(uint64,address)void']
+      returns: GroupRegistryReturns['removeMember(uint64,address)void']
+    }>
+    & Record<'changeRole(uint64,address,uint64)void' | 'changeRole', {
+      argsObj: GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void']
+      argsTuple: GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']
+      returns: GroupRegistryReturns['changeRole(uint64,address,uint64)void']
+    }>
+    & Record<'transferOwnership(uint64,address)void' | 'transferOwnership', {
+      argsObj: GroupRegistryArgs['obj']['transferOwnership(uint64,address)void']
+      argsTuple: GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']
+      returns: GroupRegistryReturns['transferOwnership(uint64,address)void']
     }>
     & Record<'leaveGroup(uint64)void' | 'leaveGroup', {
       argsObj: GroupRegistryArgs['obj']['leaveGroup(uint64)void']
@@ -220,36 +280,66 @@ export type GroupRegistryTypes = {
       argsTuple: GroupRegistryArgs['tuple']['getGroupName(uint64)string']
       returns: GroupRegistryReturns['getGroupName(uint64)string']
     }>
-    & Record<'getGroupCreator(uint64)string' | 'getGroupCreator', {
-      argsObj: GroupRegistryArgs['obj']['getGroupCreator(uint64)string']
-      argsTuple: GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']
-      returns: GroupRegistryReturns['getGroupCreator(uint64)string']
+    & Record<'getGroupCreator(uint64)address' | 'getGroupCreator', {
+      argsObj: GroupRegistryArgs['obj']['getGroupCreator(uint64)address']
+      argsTuple: GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']
+      returns: GroupRegistryReturns['getGroupCreator(uint64)address']
     }>
-    & Record<'getMemberStatus(uint64,string)uint64' | 'getMemberStatus', {
-      argsObj: GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64']
-      argsTuple: GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']
-      returns: GroupRegistryReturns['getMemberStatus(uint64,string)uint64']
+    & Record<'getGroupOwner(uint64)address' | 'getGroupOwner', {
+      argsObj: GroupRegistryArgs['obj']['getGroupOwner(uint64)address']
+      argsTuple: GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']
+      returns: GroupRegistryReturns['getGroupOwner(uint64)address']
     }>
-    & Record<'getMemberRole(uint64,string)uint64' | 'getMemberRole', {
-      argsObj: GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64']
-      argsTuple: GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']
-      returns: GroupRegistryReturns['getMemberRole(uint64,string)uint64']
+    & Record<'getMemberStatus(uint64,address)uint64' | 'getMemberStatus', {
+      argsObj: GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64']
+      argsTuple: GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']
+      returns: GroupRegistryReturns['getMemberStatus(uint64,address)uint64']
     }>
-    & Record<'isMember(uint64,string)bool' | 'isMember', {
-      argsObj: GroupRegistryArgs['obj']['isMember(uint64,string)bool']
-      argsTuple: GroupRegistryArgs['tuple']['isMember(uint64,string)bool']
-      returns: GroupRegistryReturns['isMember(uint64,string)bool']
+    & Record<'getMemberRole(uint64,address)uint64' | 'getMemberRole', {
+      argsObj: GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64']
+      argsTuple: GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']
+      returns: GroupRegistryReturns['getMemberRole(uint64,address)uint64']
     }>
-    & Record<'isAdmin(uint64,string)bool' | 'isAdmin', {
-      argsObj: GroupRegistryArgs['obj']['isAdmin(uint64,string)bool']
-      argsTuple: GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']
-      returns: GroupRegistryReturns['isAdmin(uint64,string)bool']
+    & Record<'isMember(uint64,address)bool' | 'isMember', {
+      argsObj: GroupRegistryArgs['obj']['isMember(uint64,address)bool']
+      argsTuple: GroupRegistryArgs['tuple']['isMember(uint64,address)bool']
+      returns: GroupRegistryReturns['isMember(uint64,address)bool']
+    }>
+    & Record<'isAdmin(uint64,address)bool' | 'isAdmin', {
+      argsObj: GroupRegistryArgs['obj']['isAdmin(uint64,address)bool']
+      argsTuple: GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']
+      returns: GroupRegistryReturns['isAdmin(uint64,address)bool']
+    }>
+    & Record<'canUpload(uint64,address)bool' | 'canUpload', {
+      argsObj: GroupRegistryArgs['obj']['canUpload(uint64,address)bool']
+      argsTuple: GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']
+      returns: GroupRegistryReturns['canUpload(uint64,address)bool']
+    }>
+    & Record<'canReadFiles(uint64,address)bool' | 'canReadFiles', {
+      argsObj: GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool']
+      argsTuple: GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']
+      returns: GroupRegistryReturns['canReadFiles(uint64,address)bool']
     }>
     & Record<'getGroupCount()uint64' | 'getGroupCount', {
       argsObj: GroupRegistryArgs['obj']['getGroupCount()uint64']
       argsTuple: GroupRegistryArgs['tuple']['getGroupCount()uint64']
       returns: GroupRegistryReturns['getGroupCount()uint64']
     }>
+    & Record<'importGroup(uint64,string,address,address)void' | 'importGroup', {
+      argsObj: GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void']
+      argsTuple: GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']
+      returns: GroupRegistryReturns['importGroup(uint64,string,address,address)void']
+    }>
+    & Record<'importMember(uint64,address,uint64,uint64)void' | 'importMember', {
+      argsObj: GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void']
+      argsTuple: GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']
+      returns: GroupRegistryReturns['importMember(uint64,address,uint64,uint64)void']
+    }>
+    & Record<'finishImport()void' | 'finishImport', {
+      argsObj: GroupRegistryArgs['obj']['finishImport()void']
+      argsTuple: GroupRegistryArgs['tuple']['finishImport()void']
+      returns: GroupRegistryReturns['finishImport()void']
+    }>
   /**
    * Defines the shape of the state of the application.
    */
@@ -257,6 +347,7 @@ export type GroupRegistryTypes = {
     global: {
       keys: {
         groupCount: bigint
+        importClosed: bigint
       }
       maps: {}
     }
@@ -265,8 +356,9 @@ export type GroupRegistryTypes = {
       maps: {
         groupNames: Map<bigint | number, string>
         groupCreators: Map<bigint | number, string>
-        memberStatuses: Map<Object1E2295E3, bigint>
-        memberRoles: Map<Object1E2295E3, bigint>
+        groupOwners: Map<bigint | number, string>
+        memberStatuses: Map<MemberKey, bigint>
+        memberRoles: Map<MemberKey, bigint>
       }
     }
   }
@@ -375,16 +467,16 @@ export abstract class GroupRegistryParamsFactory {
     }
   }
   /**
-   * Constructs a no op call for the inviteMember(uint64,string)void ABI method
+   * Constructs a no op call for the inviteMember(uint64,address,uint64)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static inviteMember(params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,string)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static inviteMember(params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'inviteMember(uint64,string)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
+      method: 'inviteMember(uint64,address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user, params.args.role],
     }
   }
   /**
@@ -414,18 +506,44 @@ export abstract class GroupRegistryParamsFactory {
     }
   }
   /**
-   * Constructs a no op call for the removeMember(uint64,string)void ABI method
+   * Constructs a no op call for the removeMember(uint64,address)void ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static removeMember(params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,string)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static removeMember(params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,address)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'removeMember(uint64,string)void' as const,
+      method: 'removeMember(uint64,address)void' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
     }
   }
+  /**
+   * Constructs a no op call for the changeRole(uint64,address,uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static changeRole(params: CallParams<GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'changeRole(uint64,address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user, params.args.role],
+    }
+  }
+  /**
+   * Constructs a no op call for the transferOwnership(uint64,address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transferOwnership(params: CallParams<GroupRegistryArgs['obj']['transferOwnership(uint64,address)void'] | GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transferOwnership(uint64,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.newOwner],
+    }
+  }
   /**
    * Constructs a no op call for the leaveGroup(uint64)void ABI method
    *
@@ -453,67 +571,106 @@ export abstract class GroupRegistryParamsFactory {
     }
   }
   /**
-   * Constructs a no op call for the getGroupCreator(uint64)string ABI method
+   * Constructs a no op call for the getGroupCreator(uint64)address ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getGroupCreator(params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getGroupCreator(params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getGroupCreator(uint64)string' as const,
+      method: 'getGroupCreator(uint64)address' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.groupId],
     }
   }
   /**
-   * Constructs a no op call for the getMemberStatus(uint64,string)uint64 ABI method
+   * Constructs a no op call for the getGroupOwner(uint64)address ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getMemberStatus(params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static getGroupOwner(params: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getMemberStatus(uint64,string)uint64' as const,
+      method: 'getGroupOwner(uint64)address' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getMemberStatus(uint64,address)uint64 ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getMemberStatus(params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getMemberStatus(uint64,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
+    }
+  }
+  /**
+   * Constructs a no op call for the getMemberRole(uint64,address)uint64 ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getMemberRole(params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getMemberRole(uint64,address)uint64' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the getMemberRole(uint64,string)uint64 ABI method
+   * Constructs a no op call for the isMember(uint64,address)bool ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static getMemberRole(params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static isMember(params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'getMemberRole(uint64,string)uint64' as const,
+      method: 'isMember(uint64,address)bool' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the isMember(uint64,string)bool ABI method
+   * Constructs a no op call for the isAdmin(uint64,address)bool ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static isMember(params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static isAdmin(params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'isMember(uint64,string)bool' as const,
+      method: 'isAdmin(uint64,address)bool' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
     }
   }
   /**
-   * Constructs a no op call for the isAdmin(uint64,string)bool ABI method
+   * Constructs a no op call for the canUpload(uint64,address)bool ABI method
    *
    * @param params Parameters for the call
    * @returns An `AppClientMethodCallParams` object for the call
    */
-  static isAdmin(params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+  static canUpload(params: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
     return {
       ...params,
-      method: 'isAdmin(uint64,string)bool' as const,
+      method: 'canUpload(uint64,address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
+    }
+  }
+  /**
+   * Constructs a no op call for the canReadFiles(uint64,address)bool ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static canReadFiles(params: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'canReadFiles(uint64,address)bool' as const,
       args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user],
     }
   }
@@ -530,6 +687,45 @@ export abstract class GroupRegistryParamsFactory {
       args: Array.isArray(params.args) ? params.args : [],
     }
   }
+  /**
+   * Constructs a no op call for the importGroup(uint64,string,address,address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static importGroup(params: CallParams<GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void'] | GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'importGroup(uint64,string,address,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.name, params.args.creator, params.args.owner],
+    }
+  }
+  /**
+   * Constructs a no op call for the importMember(uint64,address,uint64,uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static importMember(params: CallParams<GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void'] | GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'importMember(uint64,address,uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.groupId, params.args.user, params.args.status, params.args.role],
+    }
+  }
+  /**
+   * Constructs a no op call for the finishImport()void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static finishImport(params: CallParams<GroupRegistryArgs['obj']['finishImport()void'] | GroupRegistryArgs['tuple']['finishImport()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'finishImport()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
 }
 
 /**
@@ -782,12 +978,12 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `inviteMember(uint64,string)void` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `inviteMember(uint64,address,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    inviteMember: (params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,string)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    inviteMember: (params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.inviteMember(params))
     },
 
@@ -812,15 +1008,35 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `removeMember(uint64,string)void` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `removeMember(uint64,address)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    removeMember: (params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,string)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    removeMember: (params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,address)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.removeMember(params))
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `changeRole(uint64,address,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    changeRole: (params: CallParams<GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.changeRole(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `transferOwnership(uint64,address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transferOwnership: (params: CallParams<GroupRegistryArgs['obj']['transferOwnership(uint64,address)void'] | GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.transferOwnership(params))
+    },
+
     /**
      * Makes a call to the GroupRegistry smart contract using the `leaveGroup(uint64)void` ABI method.
      *
@@ -844,65 +1060,101 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getGroupCreator(uint64)string` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getGroupCreator(uint64)address` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getGroupCreator: (params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getGroupCreator: (params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.getGroupCreator(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getMemberStatus(uint64,string)uint64` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getGroupOwner(uint64)address` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getMemberStatus: (params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getGroupOwner: (params: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.getGroupOwner(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `getMemberStatus(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getMemberStatus: (params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.getMemberStatus(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getMemberRole(uint64,string)uint64` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getMemberRole(uint64,address)uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    getMemberRole: (params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getMemberRole: (params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.getMemberRole(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `isMember(uint64,string)bool` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `isMember(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    isMember: (params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    isMember: (params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.isMember(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `isAdmin(uint64,string)bool` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `isAdmin(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call params
      */
-    isAdmin: (params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    isAdmin: (params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.params.call(GroupRegistryParamsFactory.isAdmin(params))
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `canUpload(uint64,address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    canUpload: (params: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.canUpload(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `canReadFiles(uint64,address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    canReadFiles: (params: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.canReadFiles(params))
+    },
+
     /**
      * Makes a call to the GroupRegistry smart contract using the `getGroupCount()uint64` ABI method.
      * 
@@ -915,6 +1167,36 @@ export class GroupRegistryClient {
       return this.appClient.params.call(GroupRegistryParamsFactory.getGroupCount(params))
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `importGroup(uint64,string,address,address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    importGroup: (params: CallParams<GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void'] | GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.importGroup(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `importMember(uint64,address,uint64,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    importMember: (params: CallParams<GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void'] | GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.importMember(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `finishImport()void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    finishImport: (params: CallParams<GroupRegistryArgs['obj']['finishImport()void'] | GroupRegistryArgs['tuple']['finishImport()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(GroupRegistryParamsFactory.finishImport(params))
+    },
+
   }
 
   /**
@@ -942,12 +1224,12 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `inviteMember(uint64,string)void` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `inviteMember(uint64,address,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    inviteMember: (params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,string)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    inviteMember: (params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.inviteMember(params))
     },
 
@@ -972,15 +1254,35 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `removeMember(uint64,string)void` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `removeMember(uint64,address)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    removeMember: (params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,string)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    removeMember: (params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,address)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.removeMember(params))
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `changeRole(uint64,address,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    changeRole: (params: CallParams<GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.changeRole(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `transferOwnership(uint64,address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transferOwnership: (params: CallParams<GroupRegistryArgs['obj']['transferOwnership(uint64,address)void'] | GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.transferOwnership(params))
+    },
+
     /**
      * Makes a call to the GroupRegistry smart contract using the `leaveGroup(uint64)void` ABI method.
      *
@@ -1004,65 +1306,101 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getGroupCreator(uint64)string` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getGroupCreator(uint64)address` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getGroupCreator: (params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getGroupCreator: (params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.getGroupCreator(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getMemberStatus(uint64,string)uint64` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getGroupOwner(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getGroupOwner: (params: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.getGroupOwner(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `getMemberStatus(uint64,address)uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getMemberStatus: (params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getMemberStatus: (params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.getMemberStatus(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getMemberRole(uint64,string)uint64` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getMemberRole(uint64,address)uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    getMemberRole: (params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getMemberRole: (params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.getMemberRole(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `isMember(uint64,string)bool` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `isMember(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    isMember: (params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    isMember: (params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.isMember(params))
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `isAdmin(uint64,string)bool` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `isAdmin(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call transaction
      */
-    isAdmin: (params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    isAdmin: (params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.isAdmin(params))
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `canUpload(uint64,address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    canUpload: (params: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.canUpload(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `canReadFiles(uint64,address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    canReadFiles: (params: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.canReadFiles(params))
+    },
+
     /**
      * Makes a call to the GroupRegistry smart contract using the `getGroupCount()uint64` ABI method.
      * 
@@ -1075,6 +1413,36 @@ export class GroupRegistryClient {
       return this.appClient.createTransaction.call(GroupRegistryParamsFactory.getGroupCount(params))
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `importGroup(uint64,string,address,address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    importGroup: (params: CallParams<GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void'] | GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.importGroup(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `importMember(uint64,address,uint64,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    importMember: (params: CallParams<GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void'] | GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.importMember(params))
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `finishImport()void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    finishImport: (params: CallParams<GroupRegistryArgs['obj']['finishImport()void'] | GroupRegistryArgs['tuple']['finishImport()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(GroupRegistryParamsFactory.finishImport(params))
+    },
+
   }
 
   /**
@@ -1103,14 +1471,14 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `inviteMember(uint64,string)void` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `inviteMember(uint64,address,uint64)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    inviteMember: async (params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,string)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    inviteMember: async (params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.inviteMember(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['inviteMember(uint64,string)void'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['inviteMember(uint64,address,uint64)void'])}
     },
 
     /**
@@ -1136,14 +1504,36 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `removeMember(uint64,string)void` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `removeMember(uint64,address)void` ABI method.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    removeMember: async (params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,string)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    removeMember: async (params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,address)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.removeMember(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['removeMember(uint64,string)void'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['removeMember(uint64,address)void'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `changeRole(uint64,address,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    changeRole: async (params: CallParams<GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.changeRole(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['changeRole(uint64,address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `transferOwnership(uint64,address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transferOwnership: async (params: CallParams<GroupRegistryArgs['obj']['transferOwnership(uint64,address)void'] | GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.transferOwnership(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['transferOwnership(uint64,address)void'])}
     },
 
     /**
@@ -1171,68 +1561,107 @@ export class GroupRegistryClient {
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getGroupCreator(uint64)string` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getGroupCreator(uint64)address` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getGroupCreator: async (params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getGroupCreator: async (params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.getGroupCreator(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getGroupCreator(uint64)string'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getGroupCreator(uint64)address'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `getGroupOwner(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getGroupOwner: async (params: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.getGroupOwner(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getGroupOwner(uint64)address'])}
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getMemberStatus(uint64,string)uint64` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getMemberStatus(uint64,address)uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getMemberStatus: async (params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getMemberStatus: async (params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.getMemberStatus(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getMemberStatus(uint64,string)uint64'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getMemberStatus(uint64,address)uint64'])}
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `getMemberRole(uint64,string)uint64` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `getMemberRole(uint64,address)uint64` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    getMemberRole: async (params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    getMemberRole: async (params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.getMemberRole(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getMemberRole(uint64,string)uint64'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getMemberRole(uint64,address)uint64'])}
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `isMember(uint64,string)bool` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `isMember(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    isMember: async (params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    isMember: async (params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.isMember(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['isMember(uint64,string)bool'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['isMember(uint64,address)bool'])}
     },
 
     /**
-     * Makes a call to the GroupRegistry smart contract using the `isAdmin(uint64,string)bool` ABI method.
+     * Makes a call to the GroupRegistry smart contract using the `isAdmin(uint64,address)bool` ABI method.
      * 
      * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
      *
      * @param params The params for the smart contract call
      * @returns The call result
      */
-    isAdmin: async (params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+    isAdmin: async (params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
       const result = await this.appClient.send.call(GroupRegistryParamsFactory.isAdmin(params))
-      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['isAdmin(uint64,string)bool'])}
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['isAdmin(uint64,address)bool'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `canUpload(uint64,address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    canUpload: async (params: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.canUpload(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['canUpload(uint64,address)bool'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `canReadFiles(uint64,address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    canReadFiles: async (params: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.canReadFiles(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['canReadFiles(uint64,address)bool'])}
     },
 
     /**
@@ -1248,6 +1677,39 @@ export class GroupRegistryClient {
       return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['getGroupCount()uint64'])}
     },
 
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `importGroup(uint64,string,address,address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    importGroup: async (params: CallParams<GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void'] | GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.importGroup(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['importGroup(uint64,string,address,address)void'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `importMember(uint64,address,uint64,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    importMember: async (params: CallParams<GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void'] | GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.importMember(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['importMember(uint64,address,uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the GroupRegistry smart contract using the `finishImport()void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    finishImport: async (params: CallParams<GroupRegistryArgs['obj']['finishImport()void'] | GroupRegistryArgs['tuple']['finishImport()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(GroupRegistryParamsFactory.finishImport(params))
+      return {...result, return: result.return as unknown as (undefined | GroupRegistryReturns['finishImport()void'])}
+    },
+
   }
 
   /**
@@ -1274,68 +1736,107 @@ export class GroupRegistryClient {
   }
 
   /**
-   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getGroupCreator(uint64)string` ABI method.
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getGroupCreator(uint64)address` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getGroupCreator(params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']>) {
+  async getGroupCreator(params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']>) {
     const result = await this.appClient.send.call(GroupRegistryParamsFactory.getGroupCreator(params))
-    return result.return as unknown as GroupRegistryReturns['getGroupCreator(uint64)string']
+    return result.return as unknown as GroupRegistryReturns['getGroupCreator(uint64)address']
   }
 
   /**
-   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getMemberStatus(uint64,string)uint64` ABI method.
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getGroupOwner(uint64)address` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getMemberStatus(params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']>) {
+  async getGroupOwner(params: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']>) {
+    const result = await this.appClient.send.call(GroupRegistryParamsFactory.getGroupOwner(params))
+    return result.return as unknown as GroupRegistryReturns['getGroupOwner(uint64)address']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getMemberStatus(uint64,address)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getMemberStatus(params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']>) {
     const result = await this.appClient.send.call(GroupRegistryParamsFactory.getMemberStatus(params))
-    return result.return as unknown as GroupRegistryReturns['getMemberStatus(uint64,string)uint64']
+    return result.return as unknown as GroupRegistryReturns['getMemberStatus(uint64,address)uint64']
   }
 
   /**
-   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getMemberRole(uint64,string)uint64` ABI method.
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `getMemberRole(uint64,address)uint64` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async getMemberRole(params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']>) {
+  async getMemberRole(params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']>) {
     const result = await this.appClient.send.call(GroupRegistryParamsFactory.getMemberRole(params))
-    return result.return as unknown as GroupRegistryReturns['getMemberRole(uint64,string)uint64']
+    return result.return as unknown as GroupRegistryReturns['getMemberRole(uint64,address)uint64']
   }
 
   /**
-   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `isMember(uint64,string)bool` ABI method.
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `isMember(uint64,address)bool` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async isMember(params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']>) {
+  async isMember(params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']>) {
     const result = await this.appClient.send.call(GroupRegistryParamsFactory.isMember(params))
-    return result.return as unknown as GroupRegistryReturns['isMember(uint64,string)bool']
+    return result.return as unknown as GroupRegistryReturns['isMember(uint64,address)bool']
   }
 
   /**
-   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `isAdmin(uint64,string)bool` ABI method.
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `isAdmin(uint64,address)bool` ABI method.
    * 
    * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
    *
    * @param params The params for the smart contract call
    * @returns The call result
    */
-  async isAdmin(params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']>) {
+  async isAdmin(params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']>) {
     const result = await this.appClient.send.call(GroupRegistryParamsFactory.isAdmin(params))
-    return result.return as unknown as GroupRegistryReturns['isAdmin(uint64,string)bool']
+    return result.return as unknown as GroupRegistryReturns['isAdmin(uint64,address)bool']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `canUpload(uint64,address)bool` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async canUpload(params: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']>) {
+    const result = await this.appClient.send.call(GroupRegistryParamsFactory.canUpload(params))
+    return result.return as unknown as GroupRegistryReturns['canUpload(uint64,address)bool']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the GroupRegistry smart contract using the `canReadFiles(uint64,address)bool` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async canReadFiles(params: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']>) {
+    const result = await this.appClient.send.call(GroupRegistryParamsFactory.canReadFiles(params))
+    return result.return as unknown as GroupRegistryReturns['canReadFiles(uint64,address)bool']
   }
 
   /**
@@ -1366,12 +1867,17 @@ export class GroupRegistryClient {
         const result = await this.appClient.state.global.getAll()
         return {
           groupCount: result.groupCount,
+          importClosed: result.importClosed,
         }
       },
       /**
        * Get the current value of the groupCount key in global state
        */
       groupCount: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("groupCount")) as bigint | undefined },
+      /**
+       * Get the current value of the importClosed key in global state
+       */
+      importClosed: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("importClosed")) as bigint | undefined },
     },
     /**
      * Methods to access box state for the current GroupRegistry app
@@ -1411,6 +1917,19 @@ export class GroupRegistryClient {
          */
         value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("groupCreators", key) as string | undefined },
       },
+      /**
+       * Get values from the groupOwners map in box state
+       */
+      groupOwners: {
+        /**
+         * Get all current values of the groupOwners map in box state
+         */
+        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("groupOwners")) as Map<bigint, string> },
+        /**
+         * Get a current value of the groupOwners map by key from box state
+         */
+        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("groupOwners", key) as string | undefined },
+      },
       /**
        * Get values from the memberStatuses map in box state
        */
@@ -1418,11 +1937,11 @@ export class GroupRegistryClient {
         /**
          * Get all current values of the memberStatuses map in box state
          */
-        getMap: async (): Promise<Map<Object1E2295E3, bigint>> => { return (await this.appClient.state.box.getMap("memberStatuses")) as Map<Object1E2295E3, bigint> },
+        getMap: async (): Promise<Map<MemberKey, bigint>> => { return (await this.appClient.state.box.getMap("memberStatuses")) as Map<MemberKey, bigint> },
         /**
          * Get a current value of the memberStatuses map by key from box state
          */
-        value: async (key: Object1E2295E3): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("memberStatuses", key) as bigint | undefined },
+        value: async (key: MemberKey): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("memberStatuses", key) as bigint | undefined },
       },
       /**
        * Get values from the memberRoles map in box state
@@ -1431,11 +1950,11 @@ export class GroupRegistryClient {
         /**
          * Get all current values of the memberRoles map in box state
          */
-        getMap: async (): Promise<Map<Object1E2295E3, bigint>> => { return (await this.appClient.state.box.getMap("memberRoles")) as Map<Object1E2295E3, bigint> },
+        getMap: async (): Promise<Map<MemberKey, bigint>> => { return (await this.appClient.state.box.getMap("memberRoles")) as Map<MemberKey, bigint> },
         /**
          * Get a current value of the memberRoles map by key from box state
          */
-        value: async (key: Object1E2295E3): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("memberRoles", key) as bigint | undefined },
+        value: async (key: MemberKey): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("memberRoles", key) as bigint | undefined },
       },
     },
   }
@@ -1455,9 +1974,9 @@ export class GroupRegistryClient {
         return this
       },
       /**
-       * Add a inviteMember(uint64,string)void method call against the GroupRegistry contract
+       * Add a inviteMember(uint64,address,uint64)void method call against the GroupRegistry contract
        */
-      inviteMember(params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,string)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      inviteMember(params: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.inviteMember(params)))
         resultMappers.push(undefined)
         return this
@@ -1479,13 +1998,29 @@ export class GroupRegistryClient {
         return this
       },
       /**
-       * Add a removeMember(uint64,string)void method call against the GroupRegistry contract
+       * Add a removeMember(uint64,address)void method call against the GroupRegistry contract
        */
-      removeMember(params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,string)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      removeMember(params: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,address)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.removeMember(params)))
         resultMappers.push(undefined)
         return this
       },
+      /**
+       * Add a changeRole(uint64,address,uint64)void method call against the GroupRegistry contract
+       */
+      changeRole(params: CallParams<GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.changeRole(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transferOwnership(uint64,address)void method call against the GroupRegistry contract
+       */
+      transferOwnership(params: CallParams<GroupRegistryArgs['obj']['transferOwnership(uint64,address)void'] | GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transferOwnership(params)))
+        resultMappers.push(undefined)
+        return this
+      },
       /**
        * Add a leaveGroup(uint64)void method call against the GroupRegistry contract
        */
@@ -1503,43 +2038,67 @@ export class GroupRegistryClient {
         return this
       },
       /**
-       * Add a getGroupCreator(uint64)string method call against the GroupRegistry contract
+       * Add a getGroupCreator(uint64)address method call against the GroupRegistry contract
        */
-      getGroupCreator(params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      getGroupCreator(params: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getGroupCreator(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getGroupCreator(uint64)string', v))
+        resultMappers.push((v) => client.decodeReturnValue('getGroupCreator(uint64)address', v))
+        return this
+      },
+      /**
+       * Add a getGroupOwner(uint64)address method call against the GroupRegistry contract
+       */
+      getGroupOwner(params: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getGroupOwner(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getGroupOwner(uint64)address', v))
         return this
       },
       /**
-       * Add a getMemberStatus(uint64,string)uint64 method call against the GroupRegistry contract
+       * Add a getMemberStatus(uint64,address)uint64 method call against the GroupRegistry contract
        */
-      getMemberStatus(params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      getMemberStatus(params: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getMemberStatus(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getMemberStatus(uint64,string)uint64', v))
+        resultMappers.push((v) => client.decodeReturnValue('getMemberStatus(uint64,address)uint64', v))
         return this
       },
       /**
-       * Add a getMemberRole(uint64,string)uint64 method call against the GroupRegistry contract
+       * Add a getMemberRole(uint64,address)uint64 method call against the GroupRegistry contract
        */
-      getMemberRole(params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      getMemberRole(params: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getMemberRole(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getMemberRole(uint64,string)uint64', v))
+        resultMappers.push((v) => client.decodeReturnValue('getMemberRole(uint64,address)uint64', v))
         return this
       },
       /**
-       * Add a isMember(uint64,string)bool method call against the GroupRegistry contract
+       * Add a isMember(uint64,address)bool method call against the GroupRegistry contract
        */
-      isMember(params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      isMember(params: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.isMember(params)))
-        resultMappers.push((v) => client.decodeReturnValue('isMember(uint64,string)bool', v))
+        resultMappers.push((v) => client.decodeReturnValue('isMember(uint64,address)bool', v))
         return this
       },
       /**
-       * Add a isAdmin(uint64,string)bool method call against the GroupRegistry contract
+       * Add a isAdmin(uint64,address)bool method call against the GroupRegistry contract
        */
-      isAdmin(params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+      isAdmin(params: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
         promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.isAdmin(params)))
-        resultMappers.push((v) => client.decodeReturnValue('isAdmin(uint64,string)bool', v))
+        resultMappers.push((v) => client.decodeReturnValue('isAdmin(uint64,address)bool', v))
+        return this
+      },
+      /**
+       * Add a canUpload(uint64,address)bool method call against the GroupRegistry contract
+       */
+      canUpload(params: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.canUpload(params)))
+        resultMappers.push((v) => client.decodeReturnValue('canUpload(uint64,address)bool', v))
+        return this
+      },
+      /**
+       * Add a canReadFiles(uint64,address)bool method call against the GroupRegistry contract
+       */
+      canReadFiles(params: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.canReadFiles(params)))
+        resultMappers.push((v) => client.decodeReturnValue('canReadFiles(uint64,address)bool', v))
         return this
       },
       /**
@@ -1550,6 +2109,30 @@ export class GroupRegistryClient {
         resultMappers.push((v) => client.decodeReturnValue('getGroupCount()uint64', v))
         return this
       },
+      /**
+       * Add a importGroup(uint64,string,address,address)void method call against the GroupRegistry contract
+       */
+      importGroup(params: CallParams<GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void'] | GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.importGroup(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a importMember(uint64,address,uint64,uint64)void method call against the GroupRegistry contract
+       */
+      importMember(params: CallParams<GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void'] | GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.importMember(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a finishImport()void method call against the GroupRegistry contract
+       */
+      finishImport(params: CallParams<GroupRegistryArgs['obj']['finishImport()void'] | GroupRegistryArgs['tuple']['finishImport()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.finishImport(params)))
+        resultMappers.push(undefined)
+        return this
+      },
       /**
        * Add a clear state call to the GroupRegistry contract
        */
@@ -1595,13 +2178,13 @@ export type GroupRegistryComposer<TReturns extends [...any[]] = []> = {
   createGroup(params?: CallParams<GroupRegistryArgs['obj']['createGroup(string)uint64'] | GroupRegistryArgs['tuple']['createGroup(string)uint64']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['createGroup(string)uint64'] | undefined]>
 
   /**
-   * Calls the inviteMember(uint64,string)void ABI method.
+   * Calls the inviteMember(uint64,address,uint64)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  inviteMember(params?: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,string)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,string)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['inviteMember(uint64,string)void'] | undefined]>
+  inviteMember(params?: CallParams<GroupRegistryArgs['obj']['inviteMember(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['inviteMember(uint64,address,uint64)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['inviteMember(uint64,address,uint64)void'] | undefined]>
 
   /**
    * Calls the acceptInvite(uint64)void ABI method.
@@ -1622,13 +2205,31 @@ export type GroupRegistryComposer<TReturns extends [...any[]] = []> = {
   rejectInvite(params?: CallParams<GroupRegistryArgs['obj']['rejectInvite(uint64)void'] | GroupRegistryArgs['tuple']['rejectInvite(uint64)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['rejectInvite(uint64)void'] | undefined]>
 
   /**
-   * Calls the removeMember(uint64,string)void ABI method.
+   * Calls the removeMember(uint64,address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  removeMember(params?: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,address)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,address)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['removeMember(uint64,address)void'] | undefined]>
+
+  /**
+   * Calls the changeRole(uint64,address,uint64)void ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  removeMember(params?: CallParams<GroupRegistryArgs['obj']['removeMember(uint64,string)void'] | GroupRegistryArgs['tuple']['removeMember(uint64,string)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['removeMember(uint64,string)void'] | undefined]>
+  changeRole(params?: CallParams<GroupRegistryArgs['obj']['changeRole(uint64,address,uint64)void'] | GroupRegistryArgs['tuple']['changeRole(uint64,address,uint64)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['changeRole(uint64,address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the transferOwnership(uint64,address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transferOwnership(params?: CallParams<GroupRegistryArgs['obj']['transferOwnership(uint64,address)void'] | GroupRegistryArgs['tuple']['transferOwnership(uint64,address)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['transferOwnership(uint64,address)void'] | undefined]>
 
   /**
    * Calls the leaveGroup(uint64)void ABI method.
@@ -1649,49 +2250,76 @@ export type GroupRegistryComposer<TReturns extends [...any[]] = []> = {
   getGroupName(params?: CallParams<GroupRegistryArgs['obj']['getGroupName(uint64)string'] | GroupRegistryArgs['tuple']['getGroupName(uint64)string']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getGroupName(uint64)string'] | undefined]>
 
   /**
-   * Calls the getGroupCreator(uint64)string ABI method.
+   * Calls the getGroupCreator(uint64)address ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getGroupCreator(params?: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)address'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)address']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getGroupCreator(uint64)address'] | undefined]>
+
+  /**
+   * Calls the getGroupOwner(uint64)address ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getGroupOwner(params?: CallParams<GroupRegistryArgs['obj']['getGroupOwner(uint64)address'] | GroupRegistryArgs['tuple']['getGroupOwner(uint64)address']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getGroupOwner(uint64)address'] | undefined]>
+
+  /**
+   * Calls the getMemberStatus(uint64,address)uint64 ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getMemberStatus(params?: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,address)uint64']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getMemberStatus(uint64,address)uint64'] | undefined]>
+
+  /**
+   * Calls the getMemberRole(uint64,address)uint64 ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getGroupCreator(params?: CallParams<GroupRegistryArgs['obj']['getGroupCreator(uint64)string'] | GroupRegistryArgs['tuple']['getGroupCreator(uint64)string']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getGroupCreator(uint64)string'] | undefined]>
+  getMemberRole(params?: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,address)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,address)uint64']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getMemberRole(uint64,address)uint64'] | undefined]>
 
   /**
-   * Calls the getMemberStatus(uint64,string)uint64 ABI method.
+   * Calls the isMember(uint64,address)bool ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getMemberStatus(params?: CallParams<GroupRegistryArgs['obj']['getMemberStatus(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberStatus(uint64,string)uint64']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getMemberStatus(uint64,string)uint64'] | undefined]>
+  isMember(params?: CallParams<GroupRegistryArgs['obj']['isMember(uint64,address)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,address)bool']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['isMember(uint64,address)bool'] | undefined]>
 
   /**
-   * Calls the getMemberRole(uint64,string)uint64 ABI method.
+   * Calls the isAdmin(uint64,address)bool ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getMemberRole(params?: CallParams<GroupRegistryArgs['obj']['getMemberRole(uint64,string)uint64'] | GroupRegistryArgs['tuple']['getMemberRole(uint64,string)uint64']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getMemberRole(uint64,string)uint64'] | undefined]>
+  isAdmin(params?: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,address)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,address)bool']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['isAdmin(uint64,address)bool'] | undefined]>
 
   /**
-   * Calls the isMember(uint64,string)bool ABI method.
+   * Calls the canUpload(uint64,address)bool ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  isMember(params?: CallParams<GroupRegistryArgs['obj']['isMember(uint64,string)bool'] | GroupRegistryArgs['tuple']['isMember(uint64,string)bool']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['isMember(uint64,string)bool'] | undefined]>
+  canUpload(params?: CallParams<GroupRegistryArgs['obj']['canUpload(uint64,address)bool'] | GroupRegistryArgs['tuple']['canUpload(uint64,address)bool']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['canUpload(uint64,address)bool'] | undefined]>
 
   /**
-   * Calls the isAdmin(uint64,string)bool ABI method.
+   * Calls the canReadFiles(uint64,address)bool ABI method.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  isAdmin(params?: CallParams<GroupRegistryArgs['obj']['isAdmin(uint64,string)bool'] | GroupRegistryArgs['tuple']['isAdmin(uint64,string)bool']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['isAdmin(uint64,string)bool'] | undefined]>
+  canReadFiles(params?: CallParams<GroupRegistryArgs['obj']['canReadFiles(uint64,address)bool'] | GroupRegistryArgs['tuple']['canReadFiles(uint64,address)bool']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['canReadFiles(uint64,address)bool'] | undefined]>
 
   /**
    * Calls the getGroupCount()uint64 ABI method.
@@ -1702,6 +2330,33 @@ export type GroupRegistryComposer<TReturns extends [...any[]] = []> = {
    */
   getGroupCount(params?: CallParams<GroupRegistryArgs['obj']['getGroupCount()uint64'] | GroupRegistryArgs['tuple']['getGroupCount()uint64']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['getGroupCount()uint64'] | undefined]>
 
+  /**
+   * Calls the importGroup(uint64,string,address,address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  importGroup(params?: CallParams<GroupRegistryArgs['obj']['importGroup(uint64,string,address,address)void'] | GroupRegistryArgs['tuple']['importGroup(uint64,string,address,address)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['importGroup(uint64,string,address,address)void'] | undefined]>
+
+  /**
+   * Calls the importMember(uint64,address,uint64,uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  importMember(params?: CallParams<GroupRegistryArgs['obj']['importMember(uint64,address,uint64,uint64)void'] | GroupRegistryArgs['tuple']['importMember(uint64,address,uint64,uint64)void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['importMember(uint64,address,uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the finishImport()void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  finishImport(params?: CallParams<GroupRegistryArgs['obj']['finishImport()void'] | GroupRegistryArgs['tuple']['finishImport()void']>): GroupRegistryComposer<[...TReturns, GroupRegistryReturns['finishImport()void'] | undefined]>
+
   /**
    * Makes a clear_state call to an existing instance of the GroupRegistry smart contract.
    *
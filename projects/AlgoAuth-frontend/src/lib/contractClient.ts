@@ -4,6 +4,7 @@
  */
 
 import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { RotateKeyFields, UploadFields, UploadVersionFields } from '../../shared/api'
 import { getAlgodConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
 
 // We'll use the App IDs from environment variables
@@ -97,6 +98,32 @@ export async function apiCall(
     return response
 }
 
+/**
+ * Read a JSON response body as its shared API type (shared/api.ts)
+ */
+export async function readJson<T>(response: Response): Promise<T> {
+    return (await response.json()) as T
+}
+
+/**
+ * Serialize a request body checked against its shared API type (shared/api.ts)
+ */
+export function jsonBody<T>(body: T): string {
+    return JSON.stringify(body)
+}
+
+/**
+ * Build the multipart body for /files/upload (or /files/:id/versions,
+ * /files/:id/rotate): the encrypted blob plus its typed fields
+ */
+export function uploadFormData(encrypted: Blob, blobName: string, fields: UploadFields | UploadVersionFields | RotateKeyFields): FormData {
+    const formData = new FormData()
+    formData.append('file', encrypted, blobName)
+    for (const [name, value] of Object.entries(fields)) {
+        if (value !== undefined) formData.append(name, value)
+    }
+    return formData
+}
 
 /**
  * Get authenticated user's JWT
@@ -1,8 +1,13 @@
 /**
  * AES-256-GCM Encryption using Web Crypto API
  * Used for encrypting files before uploading to IPFS (Pinata)
+ * Files are wrapped in a self-describing envelope of authenticated chunks, so
+ * large files can be streamed and carry their own name, MIME type and hash
  */
 
+import { sha256 } from '@noble/hashes/sha256'
+import { getMimeFromName } from './mime'
+
 /**
  * Generate a random AES-256 key
  */
@@ -74,28 +79,334 @@ export async function decryptAES(
     return new Uint8Array(plaintext)
 }
 
+// ============================================
+// Encrypted file envelope (v2)
+//
+//   header:    magic "AAEC" (4) | format version (1) | cipher suite (1)
+//              | chunk size, u32 BE (4) | nonce prefix (7)
+//   metadata:  length, u32 BE (4) | AES-GCM(JSON FileMetadata) — length bytes incl. tag
+//   chunks:    AES-GCM(plaintext chunk) — chunk size + 16-byte tag each, the last one shorter
+//
+// Every AES-GCM call takes the header as additional data and
+// IV = nonce prefix (7) || counter, u32 BE (4) || kind (1). Chunk i uses counter i
+// and kind 1 on the last chunk, else 0; the metadata block uses counter 0, kind 2.
+// Reordering, dropping or appending chunks fails authentication, and so does cutting
+// the file at a chunk boundary: the new last chunk was sealed without the final flag.
+// The metadata records the plaintext size and SHA-256, checked once decryption ends.
+//
+// Older blobs still decrypt: v1 envelopes (same header without the cipher suite, and
+// no metadata) and, for anything not starting with the magic bytes, the original
+// single IV (12) || ciphertext.
+// ============================================
+
+const ENVELOPE_MAGIC = [0x41, 0x41, 0x45, 0x43] // "AAEC"
+const ENVELOPE_VERSION = 2
+const PREFIX_SIZE = 5
+/** Header length by format version */
+const HEADER_SIZES: Record<number, number> = { 1: 16, 2: 17 }
+const CIPHER_AES_256_GCM = 1
+const NONCE_PREFIX_SIZE = 7
+const TAG_SIZE = 16
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024
+const MAX_METADATA_SIZE = 64 * 1024
+
+const IV_KIND_CHUNK = 0
+const IV_KIND_FINAL_CHUNK = 1
+const IV_KIND_METADATA = 2
+
+/** Plaintext bytes per chunk for newly encrypted files */
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024
+
+/**
+ * Describes the plaintext; stored encrypted inside the envelope
+ */
+export interface FileMetadata {
+    name: string
+    mimeType: string
+    size: number
+    /** Hex SHA-256 of the plaintext */
+    sha256: string
+}
+
 /**
- * Encrypt a file (ArrayBuffer) with AES-256-GCM
- * Returns the encrypted bytes and the raw key bytes
+ * A decrypted file, with its envelope metadata (null for pre-v2 blobs)
+ */
+export interface DecryptedFile {
+    blob: Blob
+    metadata: FileMetadata | null
+}
+
+interface EnvelopeHeader {
+    bytes: Uint8Array<ArrayBuffer>
+    version: number
+    chunkSize: number
+    noncePrefix: Uint8Array
+}
+
+function buildHeader(chunkSize: number): EnvelopeHeader {
+    const bytes = new Uint8Array(HEADER_SIZES[ENVELOPE_VERSION])
+    const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_SIZE))
+    bytes.set(ENVELOPE_MAGIC, 0)
+    bytes[4] = ENVELOPE_VERSION
+    bytes[5] = CIPHER_AES_256_GCM
+    new DataView(bytes.buffer).setUint32(6, chunkSize)
+    bytes.set(noncePrefix, 10)
+    return { bytes, version: ENVELOPE_VERSION, chunkSize, noncePrefix }
+}
+
+function parseHeader(data: Uint8Array): EnvelopeHeader {
+    const bytes = data.slice()
+    const version = bytes[4]
+    // v1 has no cipher suite byte; it was always AES-256-GCM
+    const offset = version === 1 ? 5 : 6
+    if (version >= 2 && bytes[5] !== CIPHER_AES_256_GCM) {
+        throw new Error(`Unsupported cipher suite ${bytes[5]}`)
+    }
+    const chunkSize = new DataView(bytes.buffer).getUint32(offset)
+    if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) throw new Error('Invalid encrypted file header')
+    return { bytes, version, chunkSize, noncePrefix: bytes.slice(offset + 4, offset + 4 + NONCE_PREFIX_SIZE) }
+}
+
+function gcmParams(header: EnvelopeHeader, counter: number, kind: number): AesGcmParams {
+    const iv = new Uint8Array(12)
+    iv.set(header.noncePrefix, 0)
+    new DataView(iv.buffer).setUint32(NONCE_PREFIX_SIZE, counter)
+    iv[11] = kind
+    return { name: 'AES-GCM', iv, additionalData: header.bytes }
+}
+
+async function openBlock(key: CryptoKey, params: AesGcmParams, block: Uint8Array, what: string): Promise<Uint8Array> {
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            params,
+            key,
+            block.buffer.slice(block.byteOffset, block.byteOffset + block.byteLength) as ArrayBuffer
+        )
+        return new Uint8Array(plaintext)
+    } catch {
+        throw new Error(`Decryption failed at ${what} — wrong key, or the file is corrupt or truncated`)
+    }
+}
+
+function parseMetadata(json: Uint8Array): FileMetadata {
+    const m = JSON.parse(new TextDecoder().decode(json))
+    if (typeof m?.name !== 'string' || typeof m.mimeType !== 'string' || typeof m.size !== 'number' || typeof m.sha256 !== 'string') {
+        throw new Error('Invalid encrypted file metadata')
+    }
+    return { name: m.name, mimeType: m.mimeType, size: m.size, sha256: m.sha256 }
+}
+
+/**
+ * Encrypt a file into the v2 envelope with AES-256-GCM
+ * Only one chunk is held in memory at a time; the result is a Blob assembled
+ * from per-chunk Blobs, which the browser may keep on disk.
+ * Returns the encrypted Blob and the raw key bytes
  */
 export async function encryptFile(
-    fileData: ArrayBuffer
-): Promise<{ encrypted: Uint8Array; keyBytes: Uint8Array }> {
+    file: Blob,
+    onProgress?: (bytesDone: number, bytesTotal: number) => void,
+    chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<{ encrypted: Blob; keyBytes: Uint8Array }> {
     const key = await generateAESKey()
     const keyBytes = await exportAESKey(key)
-    const encrypted = await encryptAES(new Uint8Array(fileData), key)
+    const header = buildHeader(chunkSize)
+    const hash = sha256.create()
+
+    // An empty file is still one (empty) final chunk
+    const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize))
+    const chunks: Blob[] = []
+    for (let i = 0; i < chunkCount; i++) {
+        const start = i * chunkSize
+        const end = Math.min(start + chunkSize, file.size)
+        const plaintext = await file.slice(start, end).arrayBuffer()
+        hash.update(new Uint8Array(plaintext))
+        const kind = i === chunkCount - 1 ? IV_KIND_FINAL_CHUNK : IV_KIND_CHUNK
+        chunks.push(new Blob([await crypto.subtle.encrypt(gcmParams(header, i, kind), key, plaintext)]))
+        onProgress?.(end, file.size)
+    }
+
+    // The hash is only known now, so the metadata block is sealed last and placed up front
+    const name = file instanceof File ? file.name : ''
+    const metadata: FileMetadata = {
+        name,
+        mimeType: file.type || getMimeFromName(name),
+        size: file.size,
+        sha256: bytesToHex(hash.digest()),
+    }
+    const sealedMetadata = await crypto.subtle.encrypt(
+        gcmParams(header, 0, IV_KIND_METADATA),
+        key,
+        new TextEncoder().encode(JSON.stringify(metadata))
+    )
+    const metadataLength = new Uint8Array(4)
+    new DataView(metadataLength.buffer).setUint32(0, sealedMetadata.byteLength)
+
+    const encrypted = new Blob([header.bytes, metadataLength, sealedMetadata, ...chunks], { type: 'application/octet-stream' })
     return { encrypted, keyBytes }
 }
 
 /**
- * Decrypt a file with AES-256-GCM given raw key bytes
+ * Streaming decryption: pipe an encrypted download through this to get plaintext
+ * chunks as they arrive, e.g. `res.body.pipeThrough(decryptStream(keyBytes))`.
+ * `onMetadata` is called once the envelope metadata is known (null for older blobs).
+ * Legacy (unchunked) files cannot be verified before the end, so they are
+ * buffered and emitted in one piece.
+ */
+export function decryptStream(
+    keyBytes: Uint8Array,
+    onMetadata?: (metadata: FileMetadata | null) => void
+): TransformStream<Uint8Array, Uint8Array> {
+    const keyPromise = importAESKey(keyBytes)
+    const pending: Uint8Array[] = []
+    let pendingLength = 0
+    let state: 'prefix' | 'header' | 'metadata' | 'chunks' | 'legacy' = 'prefix'
+    let headerSize = 0
+    let header: EnvelopeHeader | null = null
+    let metadataLength = 0
+    let metadata: FileMetadata | null = null
+    const hash = sha256.create()
+    let index = 0
+
+    // Remove and return the first n buffered bytes
+    const take = (n: number): Uint8Array => {
+        const out = new Uint8Array(n)
+        let offset = 0
+        while (offset < n) {
+            const head = pending[0]
+            const used = Math.min(head.length, n - offset)
+            out.set(head.subarray(0, used), offset)
+            offset += used
+            if (used === head.length) pending.shift()
+            else pending[0] = head.subarray(used)
+        }
+        pendingLength -= n
+        return out
+    }
+    const putBack = (bytes: Uint8Array) => {
+        pending.unshift(bytes)
+        pendingLength += bytes.length
+    }
+
+    // Consume as much of the envelope as the buffered bytes allow
+    const advance = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+        for (;;) {
+            switch (state) {
+                case 'prefix': {
+                    if (pendingLength < PREFIX_SIZE) return
+                    const prefix = take(PREFIX_SIZE)
+                    putBack(prefix)
+                    if (!ENVELOPE_MAGIC.every((b, i) => prefix[i] === b)) {
+                        state = 'legacy'
+                        onMetadata?.(null)
+                        break
+                    }
+                    headerSize = HEADER_SIZES[prefix[4]]
+                    if (!headerSize) throw new Error(`Unsupported encrypted file version ${prefix[4]}`)
+                    state = 'header'
+                    break
+                }
+                case 'header': {
+                    // v2+ headers are followed by the metadata length
+                    const lengthField = headerSize === HEADER_SIZES[1] ? 0 : 4
+                    if (pendingLength < headerSize + lengthField) return
+                    header = parseHeader(take(headerSize))
+                    if (lengthField) {
+                        metadataLength = new DataView(take(4).buffer).getUint32(0)
+                        if (metadataLength < TAG_SIZE || metadataLength > MAX_METADATA_SIZE) {
+                            throw new Error('Invalid encrypted file metadata')
+                        }
+                        state = 'metadata'
+                    } else {
+                        state = 'chunks'
+                        onMetadata?.(null)
+                    }
+                    break
+                }
+                case 'metadata': {
+                    if (pendingLength < metadataLength) return
+                    const json = await openBlock(await keyPromise, gcmParams(header!, 0, IV_KIND_METADATA), take(metadataLength), 'metadata')
+                    metadata = parseMetadata(json)
+                    onMetadata?.(metadata)
+                    state = 'chunks'
+                    break
+                }
+                case 'chunks': {
+                    // A chunk is only known not to be the last once more bytes follow it
+                    const recordSize = header!.chunkSize + TAG_SIZE
+                    const key = await keyPromise
+                    while (pendingLength > recordSize) {
+                        const plaintext = await openBlock(key, gcmParams(header!, index, IV_KIND_CHUNK), take(recordSize), `chunk ${index}`)
+                        hash.update(plaintext)
+                        index++
+                        controller.enqueue(plaintext)
+                    }
+                    return
+                }
+                case 'legacy':
+                    return
+            }
+        }
+    }
+
+    return new TransformStream({
+        async transform(chunk, controller) {
+            pending.push(chunk)
+            pendingLength += chunk.length
+            await advance(controller)
+        },
+
+        async flush(controller) {
+            const key = await keyPromise
+            if (state === 'prefix' || state === 'legacy') {
+                if (state === 'prefix') onMetadata?.(null)
+                controller.enqueue(await decryptAES(take(pendingLength), key))
+                return
+            }
+            if (state !== 'chunks' || pendingLength < TAG_SIZE) throw new Error('Encrypted file is truncated')
+
+            const plaintext = await openBlock(key, gcmParams(header!, index, IV_KIND_FINAL_CHUNK), take(pendingLength), `chunk ${index}`)
+            hash.update(plaintext)
+            if (metadata) {
+                const size = index * header!.chunkSize + plaintext.length
+                if (size !== metadata.size || bytesToHex(hash.digest()) !== metadata.sha256) {
+                    throw new Error('Decrypted file does not match its recorded size and hash')
+                }
+            }
+            controller.enqueue(plaintext)
+        },
+    })
+}
+
+/**
+ * Stream a download response through decryption into a Blob
+ * The Blob takes the MIME type from the envelope, else `fallbackType`
+ */
+export async function decryptResponse(
+    res: Response,
+    keyBytes: Uint8Array,
+    fallbackType = 'application/octet-stream'
+): Promise<DecryptedFile> {
+    if (!res.body) throw new Error('Empty response')
+    let metadata = null as FileMetadata | null
+    const parts: BlobPart[] = []
+    const reader = res.body.pipeThrough(decryptStream(keyBytes, (m) => { metadata = m })).getReader()
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        parts.push(new Blob([value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength) as ArrayBuffer]))
+    }
+    return { blob: new Blob(parts, { type: metadata?.mimeType || fallbackType }), metadata }
+}
+
+/**
+ * Decrypt an encrypted file already held in memory
  */
 export async function decryptFile(
     encryptedData: Uint8Array,
-    keyBytes: Uint8Array
-): Promise<Uint8Array> {
-    const key = await importAESKey(keyBytes)
-    return decryptAES(encryptedData, key)
+    keyBytes: Uint8Array,
+    fallbackType?: string
+): Promise<DecryptedFile> {
+    return decryptResponse(new Response(new Blob([encryptedData.slice()])), keyBytes, fallbackType)
 }
 
 /**
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { base64ToBytes, bytesToBase64 } from './encryption'
+import { unwrapFileKey, wrapFileKey } from './fileKeys'
+import { generateX25519KeyPair } from './publicKeyRegistry'
+
+describe('file key wrapping', () => {
+    const fileKey = crypto.getRandomValues(new Uint8Array(32))
+    const sender = generateX25519KeyPair()
+    const recipient = generateX25519KeyPair()
+
+    it('unwraps with the recipient key to the same file key', () => {
+        const wrapped = wrapFileKey(fileKey, recipient.publicKey, sender)
+        expect(unwrapFileKey(wrapped, recipient)).toEqual(fileKey)
+    })
+
+    it('carries the sender public key and a fresh nonce in every wrap', () => {
+        const first = base64ToBytes(wrapFileKey(fileKey, recipient.publicKey, sender))
+        const second = base64ToBytes(wrapFileKey(fileKey, recipient.publicKey, sender))
+        expect(bytesToBase64(first.slice(0, 32))).toBe(sender.publicKey)
+        // Public key, nonce, then the key and its 16-byte tag
+        expect(first.length).toBe(32 + 24 + fileKey.length + 16)
+        expect(first.slice(32, 56)).not.toEqual(second.slice(32, 56))
+    })
+
+    it('fails for anyone but the recipient', () => {
+        const wrapped = wrapFileKey(fileKey, recipient.publicKey, sender)
+        expect(() => unwrapFileKey(wrapped, generateX25519KeyPair())).toThrow(/not wrapped for this encryption key/)
+    })
+
+    it('rejects a tampered or truncated wrapped key', () => {
+        const wrapped = base64ToBytes(wrapFileKey(fileKey, recipient.publicKey, sender))
+        wrapped[wrapped.length - 1] ^= 1
+        expect(() => unwrapFileKey(bytesToBase64(wrapped), recipient)).toThrow(/not wrapped for this encryption key/)
+        expect(() => unwrapFileKey(bytesToBase64(wrapped.slice(0, 56)), recipient)).toThrow('Malformed wrapped key')
+    })
+})
@@ -0,0 +1,196 @@
+/**
+ * File key wrapping
+ * AES file keys only leave the browser wrapped with NaCl box to an X25519
+ * public key — the owner's own key (for recovery on another session) or a
+ * recipient's key when sharing. The server and FileRegistry only ever store
+ * the wrapped form.
+ */
+
+import nacl from 'tweetnacl'
+import type { FileKeyResponse, PublicKeyResponse } from '../../shared/api'
+import { apiCall, readJson } from './contractClient'
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes } from './encryption'
+import { type WalletSender, getEncryptionKey, hasValidAccess, isFileRegistryEnabled } from './fileRegistryService'
+import { type X25519KeyPair, decryptFromSender, encryptForRecipient, loadKeyPair } from './publicKeyRegistry'
+
+const PUBLIC_KEY_LENGTH = nacl.box.publicKeyLength
+const NONCE_LENGTH = nacl.box.nonceLength
+const KNOWN_KEYS_PREFIX = 'blocksafe_known_keys_'
+
+/** A wallet's registered X25519 public key and where it was read from */
+export interface RegisteredPublicKey {
+    publicKey: string   // base64
+    onChain: boolean
+}
+
+/** A recipient whose key differs from the one last used to share with them */
+export interface PublicKeyChange {
+    address: string
+    previous: string    // base64
+    current: string     // base64
+}
+
+/**
+ * Wrap an AES key for a recipient.
+ * Format: base64(senderPublicKey || nonce || box), so a single string carries
+ * everything the recipient needs to unwrap it.
+ */
+export function wrapFileKey(keyBytes: Uint8Array, recipientPublicKey: string, sender: X25519KeyPair): string {
+    const senderPublicKey = base64ToBytes(sender.publicKey)
+    const { nonce: nonceBase64, encrypted } = encryptForRecipient(keyBytes, recipientPublicKey, sender.secretKey)
+    const nonce = base64ToBytes(nonceBase64)
+    const boxed = base64ToBytes(encrypted)
+
+    const wrapped = new Uint8Array(PUBLIC_KEY_LENGTH + NONCE_LENGTH + boxed.length)
+    wrapped.set(senderPublicKey, 0)
+    wrapped.set(nonce, PUBLIC_KEY_LENGTH)
+    wrapped.set(boxed, PUBLIC_KEY_LENGTH + NONCE_LENGTH)
+    return bytesToBase64(wrapped)
+}
+
+/**
+ * Unwrap an AES key produced by wrapFileKey with the recipient's secret key
+ */
+export function unwrapFileKey(wrappedKey: string, recipient: X25519KeyPair): Uint8Array {
+    const wrapped = base64ToBytes(wrappedKey)
+    if (wrapped.length <= PUBLIC_KEY_LENGTH + NONCE_LENGTH) throw new Error('Malformed wrapped key')
+
+    const senderPublicKey = wrapped.slice(0, PUBLIC_KEY_LENGTH)
+    const nonce = wrapped.slice(PUBLIC_KEY_LENGTH, PUBLIC_KEY_LENGTH + NONCE_LENGTH)
+    const boxed = wrapped.slice(PUBLIC_KEY_LENGTH + NONCE_LENGTH)
+
+    try {
+        return decryptFromSender(bytesToBase64(boxed), bytesToBase64(nonce), bytesToBase64(senderPublicKey), recipient.secretKey)
+    } catch {
+        throw new Error('Could not unwrap file key — it was not wrapped for this encryption key')
+    }
+}
+
+/**
+ * Load the local X25519 keypair, or fail with a message pointing at the
+ * Dashboard key setup
+ */
+export function requireKeyPair(walletAddress: string): X25519KeyPair {
+    const keyPair = loadKeyPair(walletAddress)
+    if (!keyPair) throw new Error('Set up your encryption key on the Dashboard first')
+    return keyPair
+}
+
+/**
+ * Look up a wallet's X25519 public key: FileRegistry first, so the server
+ * cannot substitute a key of its own, then the server's cache for wallets
+ * that never registered on-chain. Returns null when neither has one.
+ */
+export async function lookupPublicKey(address: string): Promise<RegisteredPublicKey | null> {
+    if (isFileRegistryEnabled()) {
+        try {
+            const publicKey = await getEncryptionKey(address)
+            if (publicKey) return { publicKey, onChain: true }
+        } catch (err) {
+            console.warn('On-chain key lookup failed, using the server cache:', err)
+        }
+    }
+    const res = await apiCall(`/keys/${address}`)
+    if (!res.ok) return null
+    return readJson<PublicKeyResponse>(res)
+}
+
+/**
+ * Fetch a user's registered X25519 public key
+ */
+export async function fetchPublicKey(address: string): Promise<string> {
+    const registered = await lookupPublicKey(address)
+    if (!registered) throw new Error('Recipient has not registered an encryption key yet')
+    return registered.publicKey
+}
+
+function loadKnownKeys(walletAddress: string): Record<string, string> {
+    const stored = localStorage.getItem(`${KNOWN_KEYS_PREFIX}${walletAddress}`)
+    return stored ? JSON.parse(stored) : {}
+}
+
+/**
+ * Remember the key a file was shared to, to notice when the recipient's key
+ * later changes
+ */
+export function rememberPublicKey(walletAddress: string, address: string, publicKey: string): void {
+    const known = loadKnownKeys(walletAddress)
+    known[address] = publicKey
+    localStorage.setItem(`${KNOWN_KEYS_PREFIX}${walletAddress}`, JSON.stringify(known))
+}
+
+/**
+ * Compare a recipient's current key with the one this wallet last shared to.
+ * A change is expected after they lose their key, but it is also what a
+ * substituted key looks like, so callers should ask before wrapping to it.
+ */
+export async function checkPublicKeyChange(walletAddress: string, address: string): Promise<PublicKeyChange | null> {
+    const previous = loadKnownKeys(walletAddress)[address]
+    if (!previous) return null
+    const current = await fetchPublicKey(address)
+    return current === previous ? null : { address, previous, current }
+}
+
+/**
+ * Read a cached plaintext key (hex) from sessionStorage
+ * Keys are cached per CID: every version, and every rotation, of a file has its own key.
+ */
+export function getCachedFileKey(cid: string): string | null {
+    return sessionStorage.getItem(`key_${cid}`)
+}
+
+/**
+ * Cache a plaintext key (hex) in sessionStorage for preview/download
+ */
+export function cacheFileKey(cid: string, keyHex: string): void {
+    sessionStorage.setItem(`key_${cid}`, keyHex)
+}
+
+/**
+ * Resolve the owner's key for one of their files: the session cache first,
+ * then the self-wrapped key stored on the server. Pass `version` for an
+ * earlier version (every version has its own key); omit it for the current one.
+ */
+export async function getOwnerFileKey(walletAddress: string, fileId: string, cid: string, version?: number): Promise<Uint8Array | null> {
+    const cached = getCachedFileKey(cid)
+    if (cached) return hexToBytes(cached)
+
+    const res = await apiCall(version ? `/files/${fileId}/versions/${version}/key` : `/files/${fileId}/key`)
+    if (!res.ok) return null
+    const data = await readJson<FileKeyResponse>(res)
+    if (!data.wrappedKey) return null
+
+    const keyBytes = unwrapFileKey(data.wrappedKey, requireKeyPair(walletAddress))
+    cacheFileKey(cid, bytesToHex(keyBytes))
+    return keyBytes
+}
+
+/**
+ * Resolve a recipient's key for a file shared with them by unwrapping the
+ * grant's wrapped key with the local secret key. The server's share record
+ * holds the key and follows the share to new versions; FileRegistry only
+ * decides whether the grant is still valid.
+ */
+export async function getSharedFileKey(
+    sender: WalletSender,
+    share: { id: string; fileId: string; cid: string; chainFileId?: string | null }
+): Promise<Uint8Array | null> {
+    const cached = getCachedFileKey(share.cid)
+    if (cached) return hexToBytes(cached)
+
+    const onChain = !!share.chainFileId && isFileRegistryEnabled()
+    // Revoking deletes the grant on-chain, but the server's copy of the wrapped key
+    // can outlive it, and expired grants stay until released — so check first
+    if (onChain && !(await hasValidAccess(sender, BigInt(share.chainFileId!), sender.address))) {
+        throw new Error('Access has been revoked or has expired')
+    }
+
+    const res = await apiCall(`/files/shared/${share.id}/key`)
+    if (!res.ok) return null
+    const data = await readJson<FileKeyResponse>(res)
+    if (!data.wrappedKey) return null
+
+    const keyBytes = unwrapFileKey(data.wrappedKey, requireKeyPair(sender.address))
+    cacheFileKey(share.cid, bytesToHex(keyBytes))
+    return keyBytes
+}
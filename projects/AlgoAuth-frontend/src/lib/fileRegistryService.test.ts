@@ -0,0 +1,53 @@
+import algosdk from 'algosdk'
+import { describe, expect, it } from 'vitest'
+import { APP_SPEC } from '../contracts/FileRegistry'
+import { grantAccessMbr, registerFileMbr, registerPublicKeyMbr, updateFileMbr } from './fileRegistryService'
+
+// Box MBR straight from the ARC-4 encoding of the structs in the app spec, to check
+// the hand-counted lengths in fileRegistryService against
+type StructName = keyof typeof APP_SPEC.structs
+
+function encodedLength(struct: StructName, values: algosdk.ABIValue[]): number {
+    const type = algosdk.ABIType.from(`(${APP_SPEC.structs[struct].map(field => field.type).join(',')})`)
+    return type.encode(values).length
+}
+
+function boxMbr(keyLength: number, valueLength: number): number {
+    return 2500 + 400 * (keyLength + valueLength)
+}
+
+const OWNER = algosdk.generateAccount().addr.toString()
+const CID_V0 = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+const CID_V1 = 'bafkreidgvpkjawlxz6sffxzwgooowe5yt7i6wsyg236mfoks77nywkptdq'
+
+function versionMbr(cid: string): number {
+    return boxMbr(2 + 16, encodedLength('FileVersion', [cid, OWNER, 1700000000n, 123n]))
+}
+
+describe('FileRegistry MBR', () => {
+    it('prices registerFile as the FileRecord box plus version 1', () => {
+        const shares: [string, string, string] = ['sealed-alpha', 'sealed-beta', '']
+        const record = encodedLength('FileRecord', [OWNER, CID_V1, 'report – final.pdf', 0n, 1n, 2n, 1n, false, ...shares, OWNER, 0n])
+        expect(registerFileMbr({ cid: CID_V1, filename: 'report – final.pdf', shares })).toBe(boxMbr(2 + 8, record) + versionMbr(CID_V1))
+    })
+
+    it('prices updateFile as the new version box plus the record growth', () => {
+        const growth = new TextEncoder().encode(CID_V1).length - new TextEncoder().encode(CID_V0).length
+        expect(updateFileMbr({ currentCid: CID_V0, newCid: CID_V1 })).toBe(400 * growth + versionMbr(CID_V1))
+        // A shorter CID shrinks the record, which is not refunded until the file is deleted
+        expect(updateFileMbr({ currentCid: CID_V1, newCid: CID_V0 })).toBe(versionMbr(CID_V0))
+    })
+
+    it('prices grantAccess as the AccessGrant box', () => {
+        const wrappedKey = 'A'.repeat(124)
+        const grant = encodedLength('AccessGrant', ['download', wrappedKey, 1n, 0n, OWNER, 0n])
+        expect(grantAccessMbr({ permission: 'download', wrappedKey })).toBe(boxMbr(2 + 8 + 32, grant))
+    })
+
+    it('prices registerPublicKey as a new box, or only the growth of a replaced key', () => {
+        const publicKey = 'B'.repeat(44)
+        expect(registerPublicKeyMbr({ currentKey: '', publicKey })).toBe(boxMbr(2 + 32, 44))
+        expect(registerPublicKeyMbr({ currentKey: 'C'.repeat(44), publicKey })).toBe(0)
+        expect(registerPublicKeyMbr({ currentKey: 'C'.repeat(40), publicKey })).toBe(400 * 4)
+    })
+})
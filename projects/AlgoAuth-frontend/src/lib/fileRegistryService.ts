@@ -0,0 +1,325 @@
+/**
+ * FileRegistry contract service
+ * Typed wrappers around the generated FileRegistryClient that sign with the
+ * connected wallet and return the transaction ID for the audit trail
+ */
+
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { type TransactionSigner, type TransactionWithSigner, getApplicationAddress, isValidAddress, makeEmptyTransactionSigner } from 'algosdk'
+import { FileRegistryClient } from '../contracts/FileRegistry'
+import { getAlgorandClient, getFileRegistryAppId } from './contractClient'
+
+/** The connected wallet that sends (and pays for) the app call */
+export interface WalletSender {
+    address: string
+    signer: TransactionSigner
+}
+
+/** Result of a submitted app call */
+export interface ChainTxResult<T = void> {
+    txId: string
+    value: T
+}
+
+/** A grant as recorded in FileRegistry; timestamps in ms, 0 = none / no expiry */
+export interface OnChainGrant {
+    valid: boolean
+    permission: string
+    grantedAt: number
+    expiresAt: number
+}
+
+/**
+ * Whether a FileRegistry app is configured (VITE_FILE_REGISTRY_APP_ID).
+ * When it is not, callers fall back to server-only bookkeeping.
+ */
+export function isFileRegistryEnabled(): boolean {
+    return getFileRegistryAppId() > 0n
+}
+
+/**
+ * Owners, grantees and members are ABI `address` arguments. Check the base32
+ * address up front so a typo fails with a readable error instead of an encoder one.
+ */
+export function accountArg(address: string): string {
+    if (!isValidAddress(address)) throw new Error(`Not a valid Algorand address: ${address}`)
+    return address
+}
+
+function getFileRegistryClient(sender: WalletSender): FileRegistryClient {
+    return getAlgorandClient().client.getTypedAppClientById(FileRegistryClient, {
+        appId: getFileRegistryAppId(),
+        defaultSender: sender.address,
+        defaultSigner: sender.signer,
+    })
+}
+
+/**
+ * Client for lookups that need no wallet. Read-only calls are simulated, and
+ * sending from the funded app account means no caller balance is needed.
+ */
+function getReadonlyFileRegistryClient(): FileRegistryClient {
+    const appId = getFileRegistryAppId()
+    return getAlgorandClient().client.getTypedAppClientById(FileRegistryClient, {
+        appId,
+        defaultSender: getApplicationAddress(appId),
+        defaultSigner: makeEmptyTransactionSigner(),
+    })
+}
+
+/**
+ * Box storage is paid by the caller. Each box locks 2500 + 400 per byte of key
+ * and value (microAlgos) in the app account. Keys are a 2-byte prefix plus the
+ * ARC-4 encoded map key; values are ARC-4 structs.
+ */
+const BOX_FLAT_MBR = 2500
+const BOX_BYTE_MBR = 400
+const FILE_KEY_LENGTH = 2 + 8 // uint64 file ID
+const VERSION_KEY_LENGTH = 2 + 16 // (fileId, version)
+const GRANT_KEY_LENGTH = 2 + 8 + 32 // (fileId, user address)
+const PUBLIC_KEY_KEY_LENGTH = 2 + 32 // user address; the value is the raw key text
+const ADDRESS_LENGTH = 32
+const UINT64_LENGTH = 8
+const BOOL_LENGTH = 1
+
+function byteLength(value: string): number {
+    return new TextEncoder().encode(value).length
+}
+
+/** A struct string field: its 2-byte offset in the head, then a 2-byte length and the UTF-8 bytes */
+function stringFieldLength(value: string): number {
+    return 2 + 2 + byteLength(value)
+}
+
+function boxMbr(keyLength: number, valueLength: number): number {
+    return BOX_FLAT_MBR + BOX_BYTE_MBR * (keyLength + valueLength)
+}
+
+function versionMbr(cid: string): number {
+    const version =
+        stringFieldLength(cid) +
+        ADDRESS_LENGTH + // uploader
+        UINT64_LENGTH * 2 // created at, deposit
+    return boxMbr(VERSION_KEY_LENGTH, version)
+}
+
+/** MBR of the boxes registerFile creates: the FileRecord and version 1 */
+export function registerFileMbr(params: { cid: string; filename: string; shares: [string, string, string] }): number {
+    const record =
+        ADDRESS_LENGTH * 2 + // owner, payer
+        UINT64_LENGTH * 5 + // group ID, created at, updated at, version count, deposit
+        BOOL_LENGTH + // deleted flag
+        [params.cid, params.filename, ...params.shares].reduce((total, value) => total + stringFieldLength(value), 0)
+    return boxMbr(FILE_KEY_LENGTH, record) + versionMbr(params.cid)
+}
+
+/**
+ * MBR updateFile adds: the new version's box, plus the record's growth when the
+ * new CID is longer than the current one
+ */
+export function updateFileMbr(params: { currentCid: string; newCid: string }): number {
+    const growth = Math.max(0, byteLength(params.newCid) - byteLength(params.currentCid))
+    return BOX_BYTE_MBR * growth + versionMbr(params.newCid)
+}
+
+/** MBR of the AccessGrant box grantAccess creates */
+export function grantAccessMbr(params: { permission: string; wrappedKey: string }): number {
+    const grant =
+        stringFieldLength(params.permission) +
+        stringFieldLength(params.wrappedKey) +
+        UINT64_LENGTH * 3 + // granted at, expires at, deposit
+        ADDRESS_LENGTH // payer
+    return boxMbr(GRANT_KEY_LENGTH, grant)
+}
+
+/** MBR registerPublicKey adds: a new key's box, or the growth when a longer key replaces one */
+export function registerPublicKeyMbr(params: { currentKey: string; publicKey: string }): number {
+    if (!params.currentKey) return boxMbr(PUBLIC_KEY_KEY_LENGTH, byteLength(params.publicKey))
+    return BOX_BYTE_MBR * Math.max(0, byteLength(params.publicKey) - byteLength(params.currentKey))
+}
+
+/** The MBR payment grouped before a call that creates boxes, signed by the wallet */
+async function mbrPayment(sender: WalletSender, amount: number): Promise<TransactionWithSigner> {
+    const txn = await getAlgorandClient().createTransaction.payment({
+        sender: sender.address,
+        receiver: getApplicationAddress(getFileRegistryAppId()),
+        amount: microAlgo(amount),
+    })
+    return { txn, signer: sender.signer }
+}
+
+/**
+ * Calls that delete boxes refund their MBR with an inner payment, and access
+ * checks on group files ask GroupRegistry with an inner call. The outer call
+ * pays the inner fee; the composer works out that fee by simulating.
+ */
+const INNER_FEE_PARAMS = { coverAppCallInnerTransactionFees: true, maxFee: microAlgo(2000) }
+
+/**
+ * Convert a relative expiry in seconds to the absolute unix timestamp
+ * (seconds) the contract compares against Global.latestTimestamp. 0 = never.
+ */
+export function toChainExpiry(expiresInSeconds: number): bigint {
+    if (!expiresInSeconds || expiresInSeconds <= 0) return 0n
+    return BigInt(Math.floor(Date.now() / 1000) + expiresInSeconds)
+}
+
+/**
+ * Register an uploaded file and return its on-chain file ID. The wallet pays
+ * the MBR of the file's boxes, refunded when the file is deleted.
+ */
+export async function registerFile(
+    sender: WalletSender,
+    params: { cid: string; filename: string; groupId?: bigint; shares?: [string, string, string] }
+): Promise<ChainTxResult<bigint>> {
+    const shares = params.shares ?? ['', '', '']
+    const [share1, share2, share3] = shares
+    const payment = await mbrPayment(sender, registerFileMbr({ cid: params.cid, filename: params.filename, shares }))
+    const result = await getFileRegistryClient(sender).send.registerFile({
+        args: {
+            payment,
+            cid: params.cid,
+            filename: params.filename,
+            groupId: params.groupId ?? 0n,
+            share1,
+            share2,
+            share3,
+        },
+    })
+    if (result.return === undefined) throw new Error('registerFile returned no file ID')
+    // txIds[0] is the MBR payment; the app call comes last
+    return { txId: result.transaction.txID(), value: result.return }
+}
+
+/**
+ * Point an existing file at a new CID (owner or a grantee with write access).
+ * The wallet pays the new version's MBR, refunded when the file is deleted.
+ */
+export async function updateFile(sender: WalletSender, fileId: bigint, newCid: string): Promise<ChainTxResult> {
+    const client = getFileRegistryClient(sender)
+    const { cid: currentCid } = await client.getFileInfo({ args: { fileId } })
+    const payment = await mbrPayment(sender, updateFileMbr({ currentCid, newCid }))
+    const result = await client.send.updateFile({
+        args: { payment, fileId, newCid },
+    })
+    return { txId: result.transaction.txID(), value: undefined }
+}
+
+/** App calls per atomic group */
+const MAX_GROUP_SIZE = 16
+
+/**
+ * Mark a file as deleted (owner only). Its CID, name and key shares are removed
+ * and their MBR refunded to whoever registered it. Its version boxes are purged
+ * in the same group, refunding each uploader; files with more versions than fit
+ * are purged in further groups.
+ */
+export async function deleteFile(sender: WalletSender, fileId: bigint): Promise<ChainTxResult> {
+    const client = getFileRegistryClient(sender)
+    const { versionCount } = await client.getFileInfo({ args: { fileId } })
+    const versions = Array.from({ length: Number(versionCount) }, (_, i) => BigInt(i + 1))
+
+    // Composer methods add to the group in place
+    const group = client.newGroup().deleteFile({ args: { fileId }, ...INNER_FEE_PARAMS })
+    for (const version of versions.splice(0, MAX_GROUP_SIZE - 1)) {
+        group.purgeVersion({ args: { fileId, version }, ...INNER_FEE_PARAMS })
+    }
+    const result = await group.send({ coverAppCallInnerTransactionFees: true })
+
+    while (versions.length > 0) {
+        const purge = client.newGroup()
+        for (const version of versions.splice(0, MAX_GROUP_SIZE)) {
+            purge.purgeVersion({ args: { fileId, version }, ...INNER_FEE_PARAMS })
+        }
+        await purge.send({ coverAppCallInnerTransactionFees: true })
+    }
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Grant a user access to a file (owner, or a resharer adding a new grantee).
+ * The wallet pays the grant's MBR; replacing an existing grant refunds its payer.
+ * The grant's wrappedKey is left empty: the server's share record holds the
+ * wrapped key and moves it to each new version, which a grant cannot follow.
+ */
+export async function grantAccess(
+    sender: WalletSender,
+    params: { fileId: bigint; user: string; permission: string; expiresAt?: bigint }
+): Promise<ChainTxResult> {
+    const payment = await mbrPayment(sender, grantAccessMbr({ permission: params.permission, wrappedKey: '' }))
+    const result = await getFileRegistryClient(sender).send.grantAccess({
+        args: {
+            payment,
+            fileId: params.fileId,
+            user: accountArg(params.user),
+            permission: params.permission,
+            wrappedKey: '',
+            expiresAt: params.expiresAt ?? 0n,
+        },
+        ...INNER_FEE_PARAMS,
+    })
+    return { txId: result.transaction.txID(), value: undefined }
+}
+
+/**
+ * Revoke a user's access to a file (owner only). The grant's boxes are deleted
+ * and their MBR refunded to whoever paid for them.
+ */
+export async function revokeAccess(sender: WalletSender, fileId: bigint, user: string): Promise<ChainTxResult> {
+    const result = await getFileRegistryClient(sender).send.revokeAccess({
+        args: { fileId, user: accountArg(user) },
+        ...INNER_FEE_PARAMS,
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Read-only check (simulated, no signature) of whether a user may access a file
+ */
+export async function hasValidAccess(sender: WalletSender, fileId: bigint, user: string): Promise<boolean> {
+    const result = await getFileRegistryClient(sender).send.hasValidAccess({
+        args: { fileId, user: accountArg(user) },
+        ...INNER_FEE_PARAMS,
+    })
+    return result.return === true
+}
+
+/**
+ * Read a user's grant for a file: whether it is currently valid, its
+ * permission and its timestamps (simulated, no signature)
+ */
+export async function getAccessGrant(sender: WalletSender, fileId: bigint, user: string): Promise<OnChainGrant> {
+    const client = getFileRegistryClient(sender)
+    const args = { args: { fileId, user: accountArg(user) }, ...INNER_FEE_PARAMS }
+    const [valid, grant] = await Promise.all([client.hasValidAccess(args), client.getAccessGrant(args)])
+    return {
+        valid: valid === true,
+        permission: grant.permission,
+        grantedAt: Number(grant.grantedAt) * 1000,
+        expiresAt: Number(grant.expiresAt) * 1000,
+    }
+}
+
+/**
+ * Register the sender's X25519 public key (base64). Only the wallet itself can
+ * set or replace its own key, and it pays for the key's box.
+ */
+export async function registerPublicKey(sender: WalletSender, publicKey: string): Promise<ChainTxResult> {
+    const currentKey = await getEncryptionKey(sender.address)
+    const payment = await mbrPayment(sender, registerPublicKeyMbr({ currentKey, publicKey }))
+    const result = await getFileRegistryClient(sender).send.registerPublicKey({
+        args: { payment, publicKey },
+    })
+    return { txId: result.transaction.txID(), value: undefined }
+}
+
+/**
+ * Read the X25519 public key a wallet registered (simulated, no wallet needed).
+ * Returns '' when it has none.
+ */
+export async function getEncryptionKey(address: string): Promise<string> {
+    const result = await getReadonlyFileRegistryClient().send.getEncryptionKey({
+        args: { user: accountArg(address) },
+    })
+    return result.return ?? ''
+}
@@ -0,0 +1,158 @@
+/**
+ * Sharing and revisions
+ * The browser-side half of granting access and uploading a new version. Both
+ * are open to the owner and to recipients whose share permission allows it
+ * (reshare / write); the server and FileRegistry check the same levels.
+ */
+
+import type {
+    AddVersionResponse,
+    ErrorResponse,
+    ListSharesResponse,
+    ShareFileRequest,
+    ShareFileResponse,
+    ShareKey,
+    SharePermission,
+    TxRequest,
+} from '../../shared/api'
+import { apiCall, jsonBody, readJson, uploadFormData } from './contractClient'
+import { bytesToHex, encryptFile } from './encryption'
+import { cacheFileKey, fetchPublicKey, rememberPublicKey, requireKeyPair, wrapFileKey } from './fileKeys'
+import * as fileRegistry from './fileRegistryService'
+import { sealForGroup } from './groupKeys'
+
+/** Display names for share permissions, lowest first */
+export const PERMISSION_LABELS: Record<SharePermission, string> = {
+    view: 'View only',
+    download: 'Download',
+    write: 'Edit',
+    reshare: 'Edit & reshare',
+}
+
+/**
+ * View-only is advisory: a preview needs the file key in the recipient's browser,
+ * and the encrypted bytes are public, so nothing stops them saving a copy
+ */
+export const VIEW_ONLY_NOTE = 'View only hides the download button, but the recipient can still save a copy of anything they can preview.'
+
+/** The file a revision is uploaded to, and the uploader's share when they are not the owner */
+export interface RevisionTarget {
+    id: string
+    owner: string
+    chainFileId: string | null
+    groupId: string | null
+    shareId: string | null
+}
+
+/**
+ * Wrap a file key to a recipient, record the grant in FileRegistry and on the
+ * server, and return the new share ID
+ */
+export async function shareFile(
+    sender: fileRegistry.WalletSender,
+    file: { id: string; chainFileId: string | null },
+    keyBytes: Uint8Array,
+    grant: { recipient: string; permission: SharePermission; expiresIn: number }
+): Promise<string> {
+    // Wrap the file key to the recipient's X25519 key — the server never sees it
+    const recipientPublicKey = await fetchPublicKey(grant.recipient)
+    const wrappedKey = wrapFileKey(keyBytes, recipientPublicKey, requireKeyPair(sender.address))
+
+    // Record the grant in FileRegistry so access is enforced on-chain
+    let txId: string | null = null
+    if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+        const result = await fileRegistry.grantAccess(sender, {
+            fileId: BigInt(file.chainFileId),
+            user: grant.recipient,
+            permission: grant.permission,
+            expiresAt: fileRegistry.toChainExpiry(grant.expiresIn),
+        })
+        txId = result.txId
+    }
+
+    const res = await apiCall(`/files/${file.id}/share`, {
+        method: 'POST',
+        body: jsonBody<ShareFileRequest>({
+            recipientAddress: grant.recipient,
+            permission: grant.permission,
+            expiresIn: grant.expiresIn,
+            wrappedKey,
+            txId,
+        }),
+    })
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Share failed')
+    }
+    const data = await readJson<ShareFileResponse>(res)
+    rememberPublicKey(sender.address, grant.recipient, recipientPublicKey)
+    return data.shareId
+}
+
+/**
+ * Encrypt and upload a new version under its own key, move shares to it and
+ * point FileRegistry at the new CID. The owner re-keys every share it can; a
+ * writer only re-keys their own and wraps the version key to the owner.
+ */
+export async function uploadRevision(
+    sender: fileRegistry.WalletSender,
+    file: RevisionTarget,
+    revision: File,
+    onProgress?: (percent: number) => void
+): Promise<AddVersionResponse> {
+    const keyPair = requireKeyPair(sender.address)
+
+    // 1. Every version gets a fresh key, so access to one says nothing about the others
+    const { encrypted, keyBytes } = await encryptFile(revision, (done, total) =>
+        onProgress?.(total ? Math.round((done / total) * 100) : 100)
+    )
+    const ownerPublicKey = file.shareId ? await fetchPublicKey(file.owner) : keyPair.publicKey
+    const wrappedKey = wrapFileKey(keyBytes, ownerPublicKey, keyPair)
+
+    // 2. Re-wrap for the shares that move to this version
+    let shareKeys: ShareKey[] = []
+    if (file.shareId) {
+        shareKeys = [{ shareId: file.shareId, wrappedKey: wrapFileKey(keyBytes, keyPair.publicKey, keyPair) }]
+    } else {
+        const res = await apiCall(`/files/${file.id}/shares`)
+        const { shares } = res.ok ? await readJson<ListSharesResponse>(res) : { shares: [] }
+        for (const share of shares) {
+            try {
+                shareKeys.push({ shareId: share.id, wrappedKey: wrapFileKey(keyBytes, await fetchPublicKey(share.recipient), keyPair) })
+            } catch (err) {
+                // Without a key the recipient keeps the version they were given
+                console.warn(`Share ${share.id} stays on its current version:`, err)
+            }
+        }
+    }
+
+    // 3. Organization files also seal the new key under the group key
+    const groupKey = file.groupId ? await sealForGroup(sender.address, file.groupId, keyBytes) : undefined
+
+    const res = await apiCall(`/files/${file.id}/versions`, {
+        method: 'POST',
+        body: uploadFormData(encrypted, revision.name + '.enc', {
+            wrappedKey,
+            groupKey,
+            shareKeys: JSON.stringify(shareKeys),
+        }),
+        headers: undefined,
+    })
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Upload failed')
+    }
+    const result = await readJson<AddVersionResponse>(res)
+    cacheFileKey(result.version.cid, bytesToHex(keyBytes))
+
+    // 4. Point the FileRegistry entry at the new CID
+    if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+        const { txId } = await fileRegistry.updateFile(sender, BigInt(file.chainFileId), result.version.cid)
+        await apiCall(`/files/${file.id}/versions/${result.version.version}/chain`, {
+            method: 'POST',
+            body: jsonBody<TxRequest>({ txId }),
+        })
+    }
+
+    return result
+}
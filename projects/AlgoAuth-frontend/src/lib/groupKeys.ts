@@ -0,0 +1,229 @@
+/**
+ * Group content keys
+ * Each organization has a symmetric key per epoch, generated in a member's
+ * browser and stored on the server only wrapped to each member's X25519 key.
+ * Group files' AES keys are sealed (secretbox) under the current epoch's key.
+ *
+ * Auditors are never given the group key. Removing a member, making them an
+ * auditor, or a member leaving starts a new epoch wrapped only to those who
+ * remain. Each epoch also seals its predecessor's key, so current
+ * members can walk back to older files while former members never see a key
+ * from after they left. Files from before group keys still go through the
+ * Trustless Trio nodes.
+ */
+
+import nacl from 'tweetnacl'
+import type {
+    ErrorResponse,
+    Group,
+    GroupEpoch,
+    GroupFileKeyResponse,
+    GroupKeyResponse,
+    GroupWrappedKey,
+    ListGroupsResponse,
+    RotateGroupKeyRequest,
+} from '../../shared/api'
+import { canReadGroupFiles } from '../../shared/api'
+import { apiCall, jsonBody, readJson } from './contractClient'
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes } from './encryption'
+import { cacheFileKey, fetchPublicKey, getCachedFileKey, requireKeyPair, unwrapFileKey, wrapFileKey } from './fileKeys'
+import { recoverKeyFromNodes } from './trustlessTrio'
+
+const KEY_LENGTH = nacl.secretbox.keyLength
+const NONCE_LENGTH = nacl.secretbox.nonceLength
+
+/** A group key for one epoch */
+export interface GroupKey {
+    epoch: number
+    key: Uint8Array
+}
+
+/** Seal bytes under a group key: base64(nonce || secretbox) */
+function seal(data: Uint8Array, key: Uint8Array): string {
+    const nonce = nacl.randomBytes(NONCE_LENGTH)
+    const boxed = nacl.secretbox(data, nonce, key)
+    const sealed = new Uint8Array(NONCE_LENGTH + boxed.length)
+    sealed.set(nonce, 0)
+    sealed.set(boxed, NONCE_LENGTH)
+    return bytesToBase64(sealed)
+}
+
+function open(sealed: string, key: Uint8Array): Uint8Array {
+    const bytes = base64ToBytes(sealed)
+    const opened = nacl.secretbox.open(bytes.slice(NONCE_LENGTH), bytes.slice(0, NONCE_LENGTH), key)
+    if (!opened) throw new Error('Group key does not match — it may have been rotated')
+    return opened
+}
+
+// Group keys are cached per epoch in sessionStorage, like file keys
+function getCachedGroupKey(groupId: string, epoch: number): Uint8Array | null {
+    const cached = sessionStorage.getItem(`groupkey_${groupId}_${epoch}`)
+    return cached ? hexToBytes(cached) : null
+}
+
+function cacheGroupKey(groupId: string, epoch: number, key: Uint8Array): void {
+    sessionStorage.setItem(`groupkey_${groupId}_${epoch}`, bytesToHex(key))
+}
+
+/**
+ * Fetch a group as the server currently has it (epoch and members change under us)
+ */
+async function fetchGroup(groupId: string): Promise<Group> {
+    const res = await apiCall('/groups')
+    if (!res.ok) throw new Error('Failed to load group')
+    const data = await readJson<ListGroupsResponse>(res)
+    const group = data.groups.find(g => g.id === groupId)
+    if (!group) throw new Error('Group not found')
+    return group
+}
+
+/**
+ * Load this member's group key for `epoch` (default: the current one),
+ * unwrapping the current key and walking back the chain of sealed
+ * predecessors as far as needed
+ */
+export async function getGroupKey(walletAddress: string, groupId: string, epoch?: number): Promise<GroupKey> {
+    if (epoch) {
+        const cached = getCachedGroupKey(groupId, epoch)
+        if (cached) return { epoch, key: cached }
+    }
+
+    const res = await apiCall(`/groups/${groupId}/keys`)
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Failed to load the group key')
+    }
+    const data = await readJson<GroupKeyResponse>(res)
+    const target = epoch ?? data.epoch
+    if (target > data.epoch) throw new Error(`Group key epoch ${target} does not exist yet`)
+
+    let current: GroupKey = { epoch: data.epoch, key: unwrapFileKey(data.wrappedKey, requireKeyPair(walletAddress)) }
+    cacheGroupKey(groupId, current.epoch, current.key)
+    for (const { epoch: sealedBy, previousKey } of data.previousKeys) {
+        if (current.epoch <= target) break
+        if (sealedBy !== current.epoch) throw new Error(`Group key chain is missing epoch ${current.epoch}`)
+        current = { epoch: current.epoch - 1, key: open(previousKey, current.key) }
+        cacheGroupKey(groupId, current.epoch, current.key)
+    }
+    if (current.epoch !== target) throw new Error(`Group key epoch ${target} is not available`)
+    return current
+}
+
+/**
+ * Wrap a group key to each member's registered X25519 key
+ */
+async function wrapToMembers(walletAddress: string, key: Uint8Array, members: string[]): Promise<Record<string, string>> {
+    const keyPair = requireKeyPair(walletAddress)
+    const memberKeys: Record<string, string> = {}
+    for (const member of members) {
+        const publicKey = await fetchPublicKey(member).catch(() => {
+            throw new Error(`${member.substring(0, 12)}... has not registered an encryption key yet`)
+        })
+        memberKeys[member] = wrapFileKey(key, publicKey, keyPair)
+    }
+    return memberKeys
+}
+
+/**
+ * Build the epoch after `group`'s current one for the key holders among
+ * `members` (everyone who remains but auditors, invited members included)
+ */
+async function buildNextEpoch(walletAddress: string, group: Group, members: Group['members']): Promise<GroupEpoch> {
+    const previous = group.keyEpoch > 0 ? await getGroupKey(walletAddress, group.id, group.keyEpoch) : null
+    const key = nacl.randomBytes(KEY_LENGTH)
+    const holders = members.filter(m => canReadGroupFiles(m.role)).map(m => m.address)
+    return {
+        epoch: group.keyEpoch + 1,
+        memberKeys: await wrapToMembers(walletAddress, key, holders),
+        previousKey: previous && seal(previous.key, key),
+    }
+}
+
+/**
+ * A first group key for a new group, wrapped to its creator
+ */
+export async function createGroupKey(walletAddress: string): Promise<string> {
+    const memberKeys = await wrapToMembers(walletAddress, nacl.randomBytes(KEY_LENGTH), [walletAddress])
+    return memberKeys[walletAddress]
+}
+
+/**
+ * Start a new epoch for the group's current members: its first key, an admin
+ * rotation, or the rotation a member leaving left pending
+ */
+export async function rotateGroupKey(walletAddress: string, groupId: string): Promise<void> {
+    const group = await fetchGroup(groupId)
+    const epoch = await buildNextEpoch(walletAddress, group, group.members)
+    const res = await apiCall(`/groups/${groupId}/keys`, {
+        method: 'POST',
+        body: jsonBody<RotateGroupKeyRequest>(epoch),
+    })
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Group key rotation failed')
+    }
+}
+
+/**
+ * The next epoch for removing `member` (or making them an auditor), wrapped to
+ * every other key holder; undefined for groups that have no key yet
+ */
+export async function buildRemovalEpoch(walletAddress: string, groupId: string, member: string): Promise<GroupEpoch | undefined> {
+    const group = await fetchGroup(groupId)
+    if (group.keyEpoch === 0) return undefined
+    return buildNextEpoch(walletAddress, group, group.members.filter(m => m.address !== member))
+}
+
+/**
+ * The current group key wrapped to a new key holder (an invitee, or an auditor
+ * given a role that opens files); undefined for groups that have no key yet
+ */
+export async function wrapGroupKeyForInvitee(walletAddress: string, groupId: string, invitee: string): Promise<string | undefined> {
+    const group = await fetchGroup(groupId)
+    if (group.keyEpoch === 0) return undefined
+    const { key } = await getGroupKey(walletAddress, groupId, group.keyEpoch)
+    const memberKeys = await wrapToMembers(walletAddress, key, [invitee])
+    return memberKeys[invitee]
+}
+
+/**
+ * Seal a file key under the group's current key, rotating first if the group
+ * has no key yet or a member has left. Returns the JSON `groupKey` upload field.
+ */
+export async function sealForGroup(walletAddress: string, groupId: string, keyBytes: Uint8Array): Promise<string> {
+    const group = await fetchGroup(groupId)
+    if (group.keyEpoch === 0 || group.rekeyPending) await rotateGroupKey(walletAddress, groupId)
+    const { epoch, key } = await getGroupKey(walletAddress, groupId)
+    const groupKey: GroupWrappedKey = { epoch, wrappedKey: seal(keyBytes, key) }
+    return JSON.stringify(groupKey)
+}
+
+/**
+ * Resolve a member's key for an organization file: opened with the group key
+ * of the epoch it was sealed under, or for older files reconstructed from the
+ * trio nodes (any two that confirm membership re-encrypt their share to us)
+ */
+export async function getGroupFileKey(
+    walletAddress: string,
+    groupId: string,
+    file: { id: string; cid: string }
+): Promise<Uint8Array | null> {
+    const cached = getCachedFileKey(file.cid)
+    if (cached) return hexToBytes(cached)
+
+    const res = await apiCall(`/groups/${groupId}/files/${file.id}/key`)
+    if (!res.ok) return null
+    const data = await readJson<GroupFileKeyResponse>(res)
+
+    let keyBytes: Uint8Array
+    if (data.groupKey) {
+        const { key } = await getGroupKey(walletAddress, groupId, data.groupKey.epoch)
+        keyBytes = open(data.groupKey.wrappedKey, key)
+    } else if (data.sealedShares.length) {
+        keyBytes = await recoverKeyFromNodes(data.sealedShares, requireKeyPair(walletAddress), data.chainFileId)
+    } else {
+        return null
+    }
+    cacheFileKey(file.cid, bytesToHex(keyBytes))
+    return keyBytes
+}
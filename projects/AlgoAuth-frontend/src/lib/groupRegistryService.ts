@@ -0,0 +1,147 @@
+/**
+ * GroupRegistry contract service
+ * Typed wrappers around the generated GroupRegistryClient that sign with the
+ * connected wallet, plus readonly (simulated) membership reads
+ */
+
+import type { MemberRole } from '../../shared/api'
+import { GroupRegistryClient } from '../contracts/GroupRegistry'
+import { getAlgorandClient, getGroupRegistryAppId } from './contractClient'
+import { type ChainTxResult, type WalletSender, accountArg } from './fileRegistryService'
+
+/** memberStatuses box values */
+export const MEMBER_STATUS = { NONE: 0n, INVITED: 1n, JOINED: 2n } as const
+
+/**
+ * memberRoles box values (as getMemberRole reports them). 0 is what plain
+ * members were invited with before roles, so they count as editors.
+ */
+export const MEMBER_ROLE: Record<MemberRole, bigint> = { editor: 0n, admin: 1n, viewer: 2n, auditor: 3n, owner: 4n }
+
+function roleFromChain(value: bigint | undefined): MemberRole {
+    const entry = Object.entries(MEMBER_ROLE).find(([, v]) => v === value)
+    return entry ? (entry[0] as MemberRole) : 'editor'
+}
+
+/** Membership as recorded on-chain, in the shape the UI uses */
+export interface OnChainMembership {
+    status: 'none' | 'invited' | 'active'
+    role: MemberRole
+}
+
+/**
+ * Whether a GroupRegistry app is configured (VITE_GROUP_REGISTRY_APP_ID).
+ * When it is not, groups are tracked by the server only.
+ */
+export function isGroupRegistryEnabled(): boolean {
+    return getGroupRegistryAppId() > 0n
+}
+
+/** Server group IDs are the on-chain uint64 as a decimal string */
+export function isOnChainGroupId(groupId: string): boolean {
+    return /^\d+$/.test(groupId)
+}
+
+function getGroupRegistryClient(sender: WalletSender): GroupRegistryClient {
+    return getAlgorandClient().client.getTypedAppClientById(GroupRegistryClient, {
+        appId: getGroupRegistryAppId(),
+        defaultSender: sender.address,
+        defaultSigner: sender.signer,
+    })
+}
+
+/**
+ * Create a group (the caller becomes its joined owner) and return its on-chain ID
+ */
+export async function createGroup(sender: WalletSender, name: string): Promise<ChainTxResult<bigint>> {
+    const result = await getGroupRegistryClient(sender).send.createGroup({
+        args: { name },
+    })
+    if (result.return === undefined) throw new Error('createGroup returned no group ID')
+    return { txId: result.txIds[0], value: result.return }
+}
+
+/**
+ * Invite a user to a group with `role` (owner or admin; only the owner invites admins)
+ */
+export async function inviteMember(sender: WalletSender, groupId: bigint, user: string, role: MemberRole): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.inviteMember({
+        args: { groupId, user: accountArg(user), role: MEMBER_ROLE[role] },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Accept a pending invite for the caller
+ */
+export async function acceptInvite(sender: WalletSender, groupId: bigint): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.acceptInvite({
+        args: { groupId },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Decline a pending invite for the caller
+ */
+export async function rejectInvite(sender: WalletSender, groupId: bigint): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.rejectInvite({
+        args: { groupId },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Remove a member from a group (admin only)
+ */
+export async function removeMember(sender: WalletSender, groupId: bigint, user: string): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.removeMember({
+        args: { groupId, user: accountArg(user) },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Change a member's role (owner or admin; only the owner changes admins or makes new ones)
+ */
+export async function changeRole(sender: WalletSender, groupId: bigint, user: string, role: MemberRole): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.changeRole({
+        args: { groupId, user: accountArg(user), role: MEMBER_ROLE[role] },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Hand ownership to a joined member (owner only); the caller becomes an admin
+ */
+export async function transferOwnership(sender: WalletSender, groupId: bigint, newOwner: string): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.transferOwnership({
+        args: { groupId, newOwner: accountArg(newOwner) },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Leave a group the caller has joined (the owner must transfer ownership first)
+ */
+export async function leaveGroup(sender: WalletSender, groupId: bigint): Promise<ChainTxResult> {
+    const result = await getGroupRegistryClient(sender).send.leaveGroup({
+        args: { groupId },
+    })
+    return { txId: result.txIds[0], value: undefined }
+}
+
+/**
+ * Read a user's membership status and role (simulated, no signature)
+ */
+export async function getMembership(sender: WalletSender, groupId: bigint, user: string): Promise<OnChainMembership> {
+    const client = getGroupRegistryClient(sender)
+    const [status, role] = await Promise.all([
+        client.getMemberStatus({ args: { groupId, user: accountArg(user) } }),
+        client.getMemberRole({ args: { groupId, user: accountArg(user) } }),
+    ])
+    return {
+        status: status === MEMBER_STATUS.JOINED ? 'active' : status === MEMBER_STATUS.INVITED ? 'invited' : 'none',
+        role: roleFromChain(role),
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * Encryption key backup and recovery
+ * The X25519 secret key only lives in this browser's localStorage, so losing
+ * it loses access to everything shared with the wallet. It can be restored
+ * from a passphrase-encrypted backup (file or QR code) or — as a last resort —
+ * replaced by a new key, which orphans existing shares. It is not derived from
+ * a wallet signature: a fixed message signs to the same bytes for any site
+ * that asks, and the wallets the app supports cannot bind a signature to it.
+ */
+
+import nacl from 'tweetnacl'
+import { scryptAsync } from '@noble/hashes/scrypt'
+import type { ErrorResponse, RegisterKeyRequest } from '../../shared/api'
+import { apiCall, jsonBody, readJson } from './contractClient'
+import { base64ToBytes, bytesToBase64 } from './encryption'
+import { lookupPublicKey } from './fileKeys'
+import * as fileRegistry from './fileRegistryService'
+import { type X25519KeyPair, saveKeyPair } from './publicKeyRegistry'
+
+// scrypt cost for backup passphrases: 64 MiB and roughly a second in a browser
+const SCRYPT_PARAMS = { N: 2 ** 16, r: 8, p: 1, dkLen: nacl.secretbox.keyLength }
+const SALT_LENGTH = 16
+const BACKUP_VERSION = 1
+
+/** A passphrase-encrypted keypair, as written to a backup file or QR code */
+interface KeyBackup {
+    v: number
+    address: string
+    publicKey: string   // base64, to check the restored key before installing it
+    salt: string        // base64 scrypt salt
+    nonce: string       // base64 secretbox nonce
+    secretKey: string   // base64 secretbox(secretKey)
+}
+
+function keyPairFromSecret(secret: Uint8Array): X25519KeyPair {
+    const keyPair = nacl.box.keyPair.fromSecretKey(secret)
+    return { publicKey: bytesToBase64(keyPair.publicKey), secretKey: bytesToBase64(keyPair.secretKey) }
+}
+
+function passphraseKey(passphrase: string, salt: Uint8Array): Promise<Uint8Array> {
+    return scryptAsync(new TextEncoder().encode(passphrase), salt, SCRYPT_PARAMS)
+}
+
+/**
+ * Encrypt a keypair under a passphrase; the result is compact JSON that fits
+ * in a QR code
+ */
+export async function exportKeyBackup(address: string, keyPair: X25519KeyPair, passphrase: string): Promise<string> {
+    const salt = nacl.randomBytes(SALT_LENGTH)
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+    const sealed = nacl.secretbox(base64ToBytes(keyPair.secretKey), nonce, await passphraseKey(passphrase, salt))
+    const backup: KeyBackup = {
+        v: BACKUP_VERSION,
+        address,
+        publicKey: keyPair.publicKey,
+        salt: bytesToBase64(salt),
+        nonce: bytesToBase64(nonce),
+        secretKey: bytesToBase64(sealed),
+    }
+    return JSON.stringify(backup)
+}
+
+/**
+ * Decrypt a backup made by exportKeyBackup for this wallet
+ */
+export async function importKeyBackup(address: string, backupText: string, passphrase: string): Promise<X25519KeyPair> {
+    let backup: KeyBackup
+    try {
+        backup = JSON.parse(backupText)
+    } catch {
+        throw new Error('This is not an AlgoAuth key backup')
+    }
+    if (backup.v !== BACKUP_VERSION || !backup.salt || !backup.nonce || !backup.secretKey) {
+        throw new Error('This is not an AlgoAuth key backup')
+    }
+    if (backup.address !== address) throw new Error('This backup belongs to a different wallet')
+
+    const key = await passphraseKey(passphrase, base64ToBytes(backup.salt))
+    const secret = nacl.secretbox.open(base64ToBytes(backup.secretKey), base64ToBytes(backup.nonce), key)
+    if (!secret) throw new Error('Wrong passphrase')
+
+    const keyPair = keyPairFromSecret(secret)
+    if (keyPair.publicKey !== backup.publicKey) throw new Error('Backup is corrupted')
+    return keyPair
+}
+
+/**
+ * The public key currently registered for a wallet, or null
+ */
+export async function getRegisteredPublicKey(address: string): Promise<string | null> {
+    return (await lookupPublicKey(address))?.publicKey ?? null
+}
+
+/**
+ * Register the wallet's public key in FileRegistry (signed by the wallet),
+ * then have the server cache it
+ */
+export async function publishPublicKey(sender: fileRegistry.WalletSender, publicKey: string): Promise<void> {
+    let txId: string | null = null
+    if (fileRegistry.isFileRegistryEnabled()) {
+        const result = await fileRegistry.registerPublicKey(sender, publicKey)
+        txId = result.txId
+    }
+    const res = await apiCall('/keys/register', {
+        method: 'POST',
+        body: jsonBody<RegisterKeyRequest>({ publicKey, txId }),
+    })
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Failed to register public key')
+    }
+}
+
+/**
+ * Register a keypair's public key if it changed (or is not on-chain yet),
+ * then store it locally. Nothing is saved if the wallet declines to sign.
+ */
+export async function installKeyPair(sender: fileRegistry.WalletSender, keyPair: X25519KeyPair): Promise<void> {
+    const registered = await lookupPublicKey(sender.address)
+    const upToDate = registered?.publicKey === keyPair.publicKey
+        && (registered.onChain || !fileRegistry.isFileRegistryEnabled())
+    if (!upToDate) await publishPublicKey(sender, keyPair.publicKey)
+    saveKeyPair(sender.address, keyPair)
+}
@@ -0,0 +1,106 @@
+/**
+ * Key rotation
+ * Revoking a grant only stops the key from being handed out again — anyone
+ * who already unwrapped it can still decrypt the blob. Rotating re-encrypts
+ * the file under a fresh key, re-wraps that key for every grant that is kept
+ * (and the Trustless Trio nodes), and has the server unpin the old blob.
+ */
+
+import type { ErrorResponse, FileItem, ListSharesResponse, RotateKeyResponse, ShareGrant, ShareKey, TxRequest } from '../../shared/api'
+import { apiCall, jsonBody, readJson, uploadFormData } from './contractClient'
+import { bytesToHex, decryptResponse, encryptFile } from './encryption'
+import { cacheFileKey, fetchPublicKey, getOwnerFileKey, requireKeyPair, wrapFileKey } from './fileKeys'
+import * as fileRegistry from './fileRegistryService'
+import { getMimeFromName } from './mime'
+import { sealForGroup } from './groupKeys'
+
+/** Progress of a rotation, for display */
+export interface RotationProgress {
+    step: string
+    percent: number | null  // within the step, when it is measurable
+}
+
+/**
+ * Rotate a file's key, optionally revoking one share first.
+ * The revocation is sent to FileRegistry before anything else, so a rotation
+ * that fails halfway still leaves the grant revoked.
+ */
+export async function rotateFileKey(
+    sender: fileRegistry.WalletSender,
+    file: FileItem,
+    revoke: ShareGrant | null,
+    onProgress: (progress: RotationProgress) => void = () => {}
+): Promise<RotateKeyResponse> {
+    const keyPair = requireKeyPair(sender.address)
+    const onChain = !!file.chainFileId && fileRegistry.isFileRegistryEnabled()
+    const chainFileId = onChain ? BigInt(file.chainFileId!) : 0n
+
+    // 1. Revoke the grant on-chain
+    let revokeTxId: string | undefined
+    if (revoke && onChain) {
+        onProgress({ step: 'Revoking access on-chain', percent: null })
+        revokeTxId = (await fileRegistry.revokeAccess(sender, chainFileId, revoke.recipient)).txId
+    }
+
+    // 2. Decrypt the current version with the old key
+    onProgress({ step: 'Downloading and decrypting', percent: null })
+    const oldKey = await getOwnerFileKey(sender.address, file.id, file.cid)
+    if (!oldKey) throw new Error('File key not available')
+    const apiBase = import.meta.env.VITE_API_BASE_URL || '/api'
+    const res = await fetch(`${apiBase.replace('/api', '')}/api/files/${file.cid}/download`)
+    if (!res.ok) throw new Error('Download failed')
+    const { blob, metadata } = await decryptResponse(res, oldKey, getMimeFromName(file.name))
+
+    // 3. Re-encrypt under a fresh key
+    const plaintext = new File([blob], metadata?.name || file.name, { type: blob.type })
+    const { encrypted, keyBytes } = await encryptFile(plaintext, (done, total) =>
+        onProgress({ step: 'Re-encrypting', percent: total ? Math.round((done / total) * 100) : 100 })
+    )
+
+    // 4. Re-wrap the new key for ourselves, every kept grant and the group
+    onProgress({ step: 'Re-wrapping keys', percent: null })
+    const sharesRes = await apiCall(`/files/${file.id}/shares`)
+    if (!sharesRes.ok) throw new Error('Could not load shares')
+    const { shares } = await readJson<ListSharesResponse>(sharesRes)
+    const kept = shares.filter(s => s.id !== revoke?.id)
+    const shareKeys: ShareKey[] = await Promise.all(
+        kept.map(async (share) => ({
+            shareId: share.id,
+            wrappedKey: wrapFileKey(keyBytes, await fetchPublicKey(share.recipient), keyPair),
+        }))
+    )
+    const groupKey = file.groupId ? await sealForGroup(sender.address, file.groupId, keyBytes) : undefined
+
+    // 5. Upload; the server swaps the share keys and unpins the old blob
+    onProgress({ step: 'Uploading', percent: null })
+    const rotateRes = await apiCall(`/files/${file.id}/rotate`, {
+        method: 'POST',
+        body: uploadFormData(encrypted, plaintext.name + '.enc', {
+            wrappedKey: wrapFileKey(keyBytes, keyPair.publicKey, keyPair),
+            groupKey,
+            shareKeys: JSON.stringify(shareKeys),
+            revokeShareId: revoke?.id,
+            revokeTxId,
+        }),
+        headers: undefined,
+    })
+    if (!rotateRes.ok) {
+        const errData = await readJson<ErrorResponse>(rotateRes)
+        throw new Error(errData.error || 'Key rotation failed')
+    }
+    const result = await readJson<RotateKeyResponse>(rotateRes)
+    cacheFileKey(result.version.cid, bytesToHex(keyBytes))
+
+    if (onChain) {
+        // 6. Point FileRegistry at the new CID
+        onProgress({ step: 'Updating FileRegistry', percent: null })
+        const { txId } = await fileRegistry.updateFile(sender, chainFileId, result.version.cid)
+        await apiCall(`/files/${file.id}/versions/${result.version.version}/chain`, {
+            method: 'POST',
+            body: jsonBody<TxRequest>({ txId }),
+        })
+        // Kept grants stay as they are: their wrapped keys live in the share records
+    }
+
+    return result
+}
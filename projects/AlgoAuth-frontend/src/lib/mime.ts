@@ -0,0 +1,41 @@
+/**
+ * MIME type guessing from file extensions
+ * Only a fallback: encrypted files carry their MIME type in the envelope
+ * metadata, but files uploaded before that have nothing else to go on
+ */
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+    pdf: 'application/pdf',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    html: 'text/html',
+    css: 'text/css',
+    js: 'application/javascript',
+    ts: 'application/typescript',
+    json: 'application/json',
+    xml: 'application/xml',
+    csv: 'text/csv',
+    mp4: 'video/mp4',
+    mp3: 'audio/mpeg',
+}
+
+/**
+ * Guess a MIME type from a filename (ignoring a trailing .enc)
+ */
+export function getMimeFromName(name: string): string {
+    const ext = name.replace(/\.enc$/, '').split('.').pop()?.toLowerCase() || ''
+    return MIME_BY_EXTENSION[ext] || 'application/octet-stream'
+}
+
+/**
+ * Whether a MIME type can be shown as text in a preview
+ */
+export function isTextMime(mime: string): boolean {
+    return mime.startsWith('text/') || ['json', 'javascript', 'typescript', 'xml', 'csv', 'markdown'].some(t => mime.includes(t))
+}
@@ -1,12 +1,13 @@
 /**
  * Trustless Trio Node Configuration
- * X25519 public keys for encrypting Shamir shares to each node
+ * Endpoints and X25519 public keys for encrypting Shamir shares to each node
  */
 
 export interface NodeConfig {
     id: string
     name: string
-    publicKey: string  // X25519 public key in base64
+    url: string        // node base URL (server/node.ts)
+    publicKey: string  // X25519 public key in base64 — fetched from the node's /info when empty
 }
 
 /**
@@ -18,16 +19,19 @@ export const TRUSTLESS_TRIO_NODES: NodeConfig[] = [
     {
         id: 'alpha',
         name: 'Node Alpha',
+        url: import.meta.env.VITE_NODE_ALPHA_URL || 'http://localhost:4101',
         publicKey: import.meta.env.VITE_NODE_ALPHA_PUBLIC_KEY || '',
     },
     {
         id: 'beta',
         name: 'Node Beta',
+        url: import.meta.env.VITE_NODE_BETA_URL || 'http://localhost:4102',
         publicKey: import.meta.env.VITE_NODE_BETA_PUBLIC_KEY || '',
     },
     {
         id: 'gamma',
         name: 'Node Gamma',
+        url: import.meta.env.VITE_NODE_GAMMA_URL || 'http://localhost:4103',
         publicKey: import.meta.env.VITE_NODE_GAMMA_PUBLIC_KEY || '',
     },
 ]
@@ -5,6 +5,7 @@
 
 import nacl from 'tweetnacl'
 import naclUtil from 'tweetnacl-util'
+import { sha256 } from '@noble/hashes/sha256'
 
 const KEY_STORAGE_PREFIX = 'blocksafe_x25519_'
 
@@ -24,6 +25,16 @@ export function generateX25519KeyPair(): X25519KeyPair {
     }
 }
 
+/**
+ * Short, human-comparable fingerprint of a public key: the first 10 bytes of
+ * its SHA-256 in groups of four hex digits, e.g. "3F2A 91C0 ..."
+ */
+export function keyFingerprint(publicKeyBase64: string): string {
+    const digest = sha256(naclUtil.decodeBase64(publicKeyBase64)).slice(0, 10)
+    const hex = Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('').toUpperCase()
+    return hex.match(/.{4}/g)!.join(' ')
+}
+
 /**
  * Save X25519 keypair to localStorage for a specific wallet address
  */
@@ -0,0 +1,137 @@
+/**
+ * Public links backed by burner keys
+ * Each link gets a throwaway X25519 keypair. The file key is wrapped to the
+ * burner's public key and FileRegistry grants the burner access until the
+ * link expires; the burner's secret key only travels in the URL #fragment,
+ * which browsers never send to the server. The server stores nothing that
+ * decrypts the file.
+ *
+ * A password-protected link derives the burner secret from the fragment seed
+ * and an scrypt key of the password, so a leaked URL is not enough and every
+ * password guess costs a memory-hard derivation.
+ */
+
+import nacl from 'tweetnacl'
+import { encodeAddress } from 'algosdk'
+import { scryptAsync } from '@noble/hashes/scrypt'
+import { sha256 } from '@noble/hashes/sha256'
+import type { CreatePublicLinkRequest, CreatePublicLinkResponse, ErrorResponse, PublicLinkInfo, TxRequest } from '../../shared/api'
+import { apiCall, jsonBody, readJson } from './contractClient'
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes } from './encryption'
+import { requireKeyPair, wrapFileKey } from './fileKeys'
+import * as fileRegistry from './fileRegistryService'
+import type { X25519KeyPair } from './publicKeyRegistry'
+
+// scrypt cost for link passwords: 64 MiB and roughly a second in a browser
+const SCRYPT_PARAMS = { N: 2 ** 16, r: 8, p: 1, dkLen: 32 }
+const SALT_LENGTH = 16
+
+/** Options for a new link */
+export interface PublicLinkOptions {
+    expiresIn: number     // seconds
+    maxDownloads: number  // 0 = unlimited
+    password: string      // '' = no password
+}
+
+/**
+ * The burner's public key in address form. FileRegistry keys grants by the
+ * 32 raw bytes, so the burner is granted access like any other account.
+ */
+export function burnerAddress(burner: X25519KeyPair): string {
+    return encodeAddress(base64ToBytes(burner.publicKey))
+}
+
+/**
+ * Rebuild a link's burner keypair from the fragment seed, mixing in the
+ * password when the link has one
+ */
+export async function deriveBurner(seed: Uint8Array, password: string, salt: Uint8Array | null): Promise<X25519KeyPair> {
+    let secret = seed
+    if (salt) {
+        const passwordKey = await scryptAsync(new TextEncoder().encode(password), salt, SCRYPT_PARAMS)
+        const mixed = new Uint8Array(seed.length + passwordKey.length)
+        mixed.set(seed, 0)
+        mixed.set(passwordKey, seed.length)
+        secret = sha256(mixed)
+    }
+    const keyPair = nacl.box.keyPair.fromSecretKey(secret)
+    return { publicKey: bytesToBase64(keyPair.publicKey), secretKey: bytesToBase64(keyPair.secretKey) }
+}
+
+/**
+ * Read the burner seed from a link's URL fragment
+ */
+export function parseLinkFragment(fragment: string): Uint8Array {
+    const seed = fragment.replace(/^#/, '')
+    if (!/^[0-9a-f]{64}$/i.test(seed)) throw new Error('This link is missing its key — copy the full link including the part after #')
+    return hexToBytes(seed)
+}
+
+/**
+ * Create a link to a file: wrap its key to a new burner, grant the burner
+ * access in FileRegistry and register the link. Returns the full URL.
+ */
+export async function createPublicLink(
+    sender: fileRegistry.WalletSender,
+    file: { id: string; chainFileId: string | null },
+    keyBytes: Uint8Array,
+    { expiresIn, maxDownloads, password }: PublicLinkOptions
+): Promise<{ url: string; expiresAt: number }> {
+    const seed = nacl.randomBytes(nacl.box.secretKeyLength)
+    const salt = password ? nacl.randomBytes(SALT_LENGTH) : null
+    const burner = await deriveBurner(seed, password, salt)
+    const address = burnerAddress(burner)
+    const wrappedKey = wrapFileKey(keyBytes, burner.publicKey, requireKeyPair(sender.address))
+
+    let txId: string | null = null
+    if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+        const result = await fileRegistry.grantAccess(sender, {
+            fileId: BigInt(file.chainFileId),
+            user: address,
+            permission: 'download',
+            expiresAt: fileRegistry.toChainExpiry(expiresIn),
+        })
+        txId = result.txId
+    }
+
+    const res = await apiCall(`/files/${file.id}/public-link`, {
+        method: 'POST',
+        body: jsonBody<CreatePublicLinkRequest>({
+            expiresIn,
+            burnerAddress: address,
+            wrappedKey,
+            passwordSalt: salt && bytesToHex(salt),
+            maxDownloads,
+            txId,
+        }),
+    })
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Failed to create link')
+    }
+    const data = await readJson<CreatePublicLinkResponse>(res)
+    return { url: `${window.location.origin}/public/${data.linkToken}#${bytesToHex(seed)}`, expiresAt: data.expiresAt }
+}
+
+/**
+ * Revoke a link: drop the burner's FileRegistry grant, then the link itself
+ */
+export async function revokePublicLink(
+    sender: fileRegistry.WalletSender,
+    file: { id: string; chainFileId: string | null },
+    link: PublicLinkInfo
+): Promise<void> {
+    let txId: string | null = null
+    if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+        const result = await fileRegistry.revokeAccess(sender, BigInt(file.chainFileId), link.burnerAddress)
+        txId = result.txId
+    }
+    const res = await apiCall(`/files/${file.id}/public-link/${link.token}`, {
+        method: 'DELETE',
+        body: jsonBody<TxRequest>({ txId }),
+    })
+    if (!res.ok) {
+        const errData = await readJson<ErrorResponse>(res)
+        throw new Error(errData.error || 'Revoke failed')
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Trustless Trio client
+ * Splits a file key 2-of-3, seals each share to one node's X25519 key, and
+ * reconstructs the key from any two nodes' re-encrypted responses
+ */
+
+import nacl from 'tweetnacl'
+import naclUtil from 'tweetnacl-util'
+import type { ErrorResponse, NodeInfoResponse, ReencryptRequest, ReencryptResponse, SealedShare } from '../../shared/api'
+import { getAuthToken, jsonBody, readJson } from './contractClient'
+import { type NodeConfig, getAllNodeConfigs, getNodeConfig } from './nodeConfig'
+import type { X25519KeyPair } from './publicKeyRegistry'
+import { reconstructSecret, splitSecret } from './shamirSecretSharing'
+
+const THRESHOLD = 2
+
+const publicKeyCache = new Map<string, string>()
+
+/**
+ * Resolve a node's public key: configured (VITE_NODE_*_PUBLIC_KEY) or served
+ * by the node itself
+ */
+async function getNodePublicKey(node: NodeConfig): Promise<string> {
+    if (node.publicKey) return node.publicKey
+    const cached = publicKeyCache.get(node.id)
+    if (cached) return cached
+
+    const res = await fetch(`${node.url}/info`)
+    if (!res.ok) throw new Error(`${node.name} is unreachable`)
+    const data = await readJson<NodeInfoResponse>(res)
+    publicKeyCache.set(node.id, data.publicKey)
+    return data.publicKey
+}
+
+/**
+ * Split a file key 2-of-3 and seal share i to node i. Each sealed payload
+ * names the group it was issued for, so a node only releases it to members.
+ */
+export async function sealKeyForNodes(keyBytes: Uint8Array, groupId: string): Promise<SealedShare[]> {
+    const nodes = getAllNodeConfigs()
+    const shares = splitSecret(keyBytes, nodes.length, THRESHOLD)
+
+    return Promise.all(
+        nodes.map(async (node, i) => {
+            const nodePublicKey = naclUtil.decodeBase64(await getNodePublicKey(node))
+            const ephemeral = nacl.box.keyPair()
+            const nonce = nacl.randomBytes(nacl.box.nonceLength)
+            const payload = naclUtil.decodeUTF8(JSON.stringify({ groupId, share: naclUtil.encodeBase64(shares[i]) }))
+            return {
+                nodeId: node.id,
+                ephemeralPublicKey: naclUtil.encodeBase64(ephemeral.publicKey),
+                nonce: naclUtil.encodeBase64(nonce),
+                encrypted: naclUtil.encodeBase64(nacl.box(payload, nonce, nodePublicKey, ephemeral.secretKey)),
+            }
+        })
+    )
+}
+
+async function requestShare(sealedShare: SealedShare, recipientPublicKey: string, chainFileId: string | null): Promise<ReencryptResponse> {
+    const node = getNodeConfig(sealedShare.nodeId)
+    if (!node) throw new Error(`Unknown node ${sealedShare.nodeId}`)
+
+    const res = await fetch(`${node.url}/reencrypt`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${getAuthToken()}`,
+        },
+        body: jsonBody<ReencryptRequest>({ sealedShare, recipientPublicKey, chainFileId }),
+    })
+    if (!res.ok) {
+        const err = await readJson<Partial<ErrorResponse>>(res).catch(() => ({}) as Partial<ErrorResponse>)
+        throw new Error(`${node.name}: ${err.error || res.status}`)
+    }
+    return readJson<ReencryptResponse>(res)
+}
+
+/**
+ * Ask every node for its share and reconstruct the key from the first two
+ * that answer. Nodes that refuse or are down are tolerated up to the threshold.
+ * Nodes checking on-chain ask FileRegistry about `chainFileId`.
+ */
+export async function recoverKeyFromNodes(
+    sealedShares: SealedShare[],
+    recipient: X25519KeyPair,
+    chainFileId: string | null
+): Promise<Uint8Array> {
+    const results = await Promise.allSettled(sealedShares.map((s) => requestShare(s, recipient.publicKey, chainFileId)))
+
+    const shares: Uint8Array[] = []
+    const errors: string[] = []
+    for (const result of results) {
+        if (result.status === 'rejected') {
+            errors.push(result.reason?.message || String(result.reason))
+            continue
+        }
+        const { nodeId, nodePublicKey, nonce, encrypted } = result.value
+        // Only trust a response boxed by the key we sealed to
+        const expectedKey = getNodeConfig(nodeId)?.publicKey || publicKeyCache.get(nodeId)
+        if (expectedKey && expectedKey !== nodePublicKey) {
+            errors.push(`${nodeId}: unexpected node key`)
+            continue
+        }
+        const share = nacl.box.open(
+            naclUtil.decodeBase64(encrypted),
+            naclUtil.decodeBase64(nonce),
+            naclUtil.decodeBase64(nodePublicKey),
+            naclUtil.decodeBase64(recipient.secretKey)
+        )
+        if (share) {
+            console.log(`🌐 Share received from node ${nodeId}`)
+            shares.push(share)
+        } else {
+            errors.push(`${nodeId}: share could not be opened`)
+        }
+    }
+
+    if (shares.length < THRESHOLD) {
+        throw new Error(`Only ${shares.length} of ${THRESHOLD} required shares released (${errors.join('; ')})`)
+    }
+    return reconstructSecret(shares.slice(0, THRESHOLD))
+}
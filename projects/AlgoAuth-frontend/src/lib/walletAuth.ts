@@ -0,0 +1,40 @@
+/**
+ * Wallet sign-in helpers
+ * Proves control of an Algorand address by signing the server's nonce message
+ */
+
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import type { Transaction } from 'algosdk'
+import { getAlgorandClient } from './contractClient'
+import { bytesToBase64 } from './encryption'
+
+/**
+ * Build the sign-in transaction: a 0-ALGO payment to self, with zero fee,
+ * carrying the nonce message in its note. A zero fee alone is rejected, but
+ * someone could still submit it in a group that pays the fee; even then it
+ * moves no funds and cannot close or rekey the account.
+ */
+export async function buildAuthTransaction(address: string, message: string): Promise<Transaction> {
+    return getAlgorandClient().createTransaction.payment({
+        sender: address,
+        receiver: address,
+        amount: microAlgo(0),
+        staticFee: microAlgo(0),
+        note: new TextEncoder().encode(message),
+    })
+}
+
+/**
+ * Sign the nonce message with the connected wallet and return the signed
+ * transaction as base64, ready to post to /auth/verify
+ */
+export async function signAuthMessage(
+    address: string,
+    message: string,
+    signTransactions: (txnGroup: Transaction[]) => Promise<(Uint8Array | null)[]>
+): Promise<string> {
+    const txn = await buildAuthTransaction(address, message)
+    const [signed] = await signTransactions([txn])
+    if (!signed) throw new Error('Wallet did not sign the authentication request')
+    return bytesToBase64(signed)
+}
@@ -16,9 +16,17 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { apiCall } from '@/lib/contractClient'
+import { apiCall, readJson } from '@/lib/contractClient'
 import EncryptionKeyPrompt from '@/components/EncryptionKeyPrompt'
 import EncryptionKeyCard from '@/components/EncryptionKeyCard'
+import type {
+    AuditEvent,
+    AuditEventType,
+    AuditResponse,
+    ListFilesResponse,
+    ListGroupsResponse,
+    ListSharedFilesResponse,
+} from '../../shared/api'
 
 interface StatItem {
     label: string
@@ -28,15 +36,6 @@ interface StatItem {
     bgColor: string
 }
 
-interface AuditEvent {
-    type: string
-    actor: string
-    fileId: string
-    target: string | null
-    timestamp: number
-    txId: string | null
-}
-
 const DashboardPage: React.FC = () => {
     const { activeAddress } = useWallet()
     const navigate = useNavigate()
@@ -56,20 +55,20 @@ const DashboardPage: React.FC = () => {
                     apiCall('/audit'),
                 ])
                 if (filesRes.ok) {
-                    const data = await filesRes.json()
-                    setFileCount(data.files?.length || 0)
+                    const data = await readJson<ListFilesResponse>(filesRes)
+                    setFileCount(data.files.length)
                 }
                 if (sharedRes.ok) {
-                    const data = await sharedRes.json()
-                    setSharedCount(data.files?.length || 0)
+                    const data = await readJson<ListSharedFilesResponse>(sharedRes)
+                    setSharedCount(data.files.length)
                 }
                 if (groupsRes.ok) {
-                    const data = await groupsRes.json()
-                    setGroupCount(data.groups?.length || 0)
+                    const data = await readJson<ListGroupsResponse>(groupsRes)
+                    setGroupCount(data.groups.length)
                 }
                 if (auditRes.ok) {
-                    const data = await auditRes.json()
-                    setAuditEvents((data.events || []).slice(0, 8))
+                    const data = await readJson<AuditResponse>(auditRes)
+                    setAuditEvents(data.events.slice(0, 8))
                 }
             } catch {
                 // ignore
@@ -92,15 +91,26 @@ const DashboardPage: React.FC = () => {
         { label: 'Browse Shared', icon: Search, action: () => navigate('/shared') },
     ]
 
-    const auditTypeLabel: Record<string, string> = {
+    const auditTypeLabel: Record<AuditEventType, string> = {
         FILE_UPLOAD: 'Uploaded',
         FILE_DELETE: 'Deleted',
+        FILE_VERSION: 'New Version',
+        FILE_RESTORE: 'Restored',
         FILE_SHARE: 'Shared',
+        SHARE_UPDATED: 'Share Updated',
+        SHARE_REVOKED: 'Revoked',
+        KEY_ROTATED: 'Key Rotated',
         PUBLIC_LINK_CREATED: 'Public Link',
+        PUBLIC_LINK_REVOKED: 'Link Revoked',
         KEY_REGISTERED: 'Key Registered',
         GROUP_CREATED: 'Group Created',
         MEMBER_INVITED: 'Invited',
         MEMBER_REMOVED: 'Removed',
+        GROUP_REKEYED: 'Group Rekeyed',
+        MEMBER_ROLE_CHANGED: 'Role Changed',
+        OWNERSHIP_TRANSFERRED: 'Ownership Transferred',
+        MEMBER_JOINED: 'Joined',
+        MEMBER_LEFT: 'Left',
     }
 
     return (
@@ -1,5 +1,6 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion } from 'framer-motion'
 import {
     ArrowLeft,
@@ -19,34 +20,33 @@ import {
     Film,
     Clock,
     Activity,
+    Upload,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { apiCall } from '@/lib/contractClient'
-import { decryptFile } from '@/lib/encryption'
-
-interface FileMeta {
-    id: string
-    name: string
-    cid: string
-    owner: string
-    size: number
-    mimeType: string
-    createdAt: number
-    isDeleted: boolean
-    isOwner?: boolean
-}
-
-interface AuditEvent {
-    type: string
-    actor: string
-    fileId: string
-    target: string | null
-    timestamp: number
-    txId: string | null
-}
+import FileSharesPanel from '@/components/FileSharesPanel'
+import FileVersionsPanel from '@/components/FileVersionsPanel'
+import PublicLinksPanel from '@/components/PublicLinksPanel'
+import { apiCall, jsonBody, readJson } from '@/lib/contractClient'
+import { decryptResponse } from '@/lib/encryption'
+import { getMimeFromName, isTextMime } from '@/lib/mime'
+import { checkPublicKeyChange, getOwnerFileKey, getSharedFileKey } from '@/lib/fileKeys'
+import { PERMISSION_LABELS, VIEW_ONLY_NOTE, shareFile, uploadRevision } from '@/lib/fileSharing'
+import * as fileRegistry from '@/lib/fileRegistryService'
+import { keyFingerprint } from '@/lib/publicKeyRegistry'
+import { explorerTxUrl } from '@/utils/explorer'
+import {
+    type AuditEvent,
+    type AuditResponse,
+    type FileItem,
+    type FileMeta,
+    type SharePermission,
+    type TxRequest,
+    SHARE_PERMISSIONS,
+    hasPermission,
+} from '../../shared/api'
 
 function formatBytes(bytes: number): string {
     if (!bytes) return '—'
@@ -64,57 +64,10 @@ function getFileIcon(mimeType: string) {
     return FileText
 }
 
-// Get the original MIME type from the filename (since stored file has .enc extension)
-function getMimeFromName(name: string): string {
-    const ext = name.replace(/\.enc$/, '').split('.').pop()?.toLowerCase() || ''
-    const mimeMap: Record<string, string> = {
-        pdf: 'application/pdf',
-        png: 'image/png',
-        jpg: 'image/jpeg',
-        jpeg: 'image/jpeg',
-        gif: 'image/gif',
-        webp: 'image/webp',
-        svg: 'image/svg+xml',
-        txt: 'text/plain',
-        md: 'text/markdown',
-        html: 'text/html',
-        css: 'text/css',
-        js: 'application/javascript',
-        ts: 'application/typescript',
-        json: 'application/json',
-        xml: 'application/xml',
-        csv: 'text/csv',
-        mp4: 'video/mp4',
-        mp3: 'audio/mpeg',
-    }
-    return mimeMap[ext] || 'application/octet-stream'
-}
-
-// Retrieve AES key from sessionStorage or from server
-async function getEncryptionKey(fileId: string, cid: string): Promise<Uint8Array | null> {
-    // Try sessionStorage first
-    let keyHex = sessionStorage.getItem(`key_${fileId}`) || sessionStorage.getItem(`key_${cid}`)
-    if (!keyHex) {
-        // Fetch from server (owner only)
-        try {
-            const res = await apiCall(`/files/${fileId}/key`)
-            if (res.ok) {
-                const data = await res.json()
-                keyHex = data.encryptionKey
-                if (keyHex) {
-                    sessionStorage.setItem(`key_${fileId}`, keyHex)
-                    sessionStorage.setItem(`key_${cid}`, keyHex)
-                }
-            }
-        } catch { }
-    }
-    if (!keyHex) return null
-    return new Uint8Array(keyHex.match(/.{1,2}/g)!.map((h: string) => parseInt(h, 16)))
-}
-
 const FileDetailPage: React.FC = () => {
     const { fileId } = useParams()
     const navigate = useNavigate()
+    const { activeAddress, transactionSigner } = useWallet()
     const [file, setFile] = useState<FileMeta | null>(null)
     const [loading, setLoading] = useState(true)
     const [previewUrl, setPreviewUrl] = useState<string | null>(null)
@@ -124,25 +77,32 @@ const FileDetailPage: React.FC = () => {
     const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([])
     const [shareDialogOpen, setShareDialogOpen] = useState(false)
     const [shareAddr, setShareAddr] = useState('')
-    const [sharePermission, setSharePermission] = useState('read')
+    const [sharePermission, setSharePermission] = useState<SharePermission>('download')
     const [shareExpiry, setShareExpiry] = useState(0)  // 0 = no expiry
     const [sharing, setSharing] = useState(false)
+    const [sharesRefresh, setSharesRefresh] = useState(0)
+    const [uploading, setUploading] = useState(false)
+    const [encryptProgress, setEncryptProgress] = useState<number | null>(null)
+    const revisionInputRef = useRef<HTMLInputElement>(null)
+
+    const loadMeta = async () => {
+        const res = await apiCall(`/files/${fileId}/meta`)
+        if (res.ok) {
+            setFile(await readJson<FileMeta>(res))
+        }
+    }
 
     useEffect(() => {
         const loadFile = async () => {
             try {
-                const res = await apiCall(`/files/${fileId}/meta`)
-                if (res.ok) {
-                    const data = await res.json()
-                    setFile(data)
-                }
+                await loadMeta()
             } catch { }
             // Load audit events
             try {
                 const res = await apiCall(`/audit/${fileId}`)
                 if (res.ok) {
-                    const data = await res.json()
-                    setAuditEvents(data.events || [])
+                    const data = await readJson<AuditResponse>(res)
+                    setAuditEvents(data.events)
                 }
             } catch { }
             setLoading(false)
@@ -150,24 +110,29 @@ const FileDetailPage: React.FC = () => {
         if (fileId) loadFile()
     }, [fileId])
 
+    // Session cache first, then unwrap the owner's self-wrapped key or the one wrapped for our share
+    const getFileKey = async (): Promise<Uint8Array | null> => {
+        if (!file || !activeAddress) return null
+        return file.isOwner
+            ? getOwnerFileKey(activeAddress, file.id, file.cid)
+            : getSharedFileKey({ address: activeAddress, signer: transactionSigner }, file)
+    }
+
     // Download encrypted file from IPFS, decrypt, and return as Blob
     const decryptAndGetBlob = async (): Promise<Blob | null> => {
-        if (!file) return null
-        const keyBytes = await getEncryptionKey(file.id, file.cid)
+        if (!file || !activeAddress) return null
+        const keyBytes = await getFileKey()
         const apiBase = import.meta.env.VITE_API_BASE_URL || '/api'
         const res = await fetch(`${apiBase.replace('/api', '')}/api/files/${file.cid}/download`)
         if (!res.ok) throw new Error('Download failed')
-        const encryptedData = await res.arrayBuffer()
 
         if (keyBytes) {
-            // Decrypt using AES-256-GCM
-            const decrypted = await decryptFile(new Uint8Array(encryptedData), keyBytes)
-            const mime = getMimeFromName(file.name)
-            const buf = decrypted.buffer.slice(decrypted.byteOffset, decrypted.byteOffset + decrypted.byteLength) as ArrayBuffer
-            return new Blob([buf], { type: mime })
+            // Decrypt using AES-256-GCM, chunk by chunk as the download streams in
+            const { blob } = await decryptResponse(res, keyBytes, getMimeFromName(file.name))
+            return blob
         } else {
             // No key available — return raw (will be garbled if encrypted)
-            return new Blob([encryptedData])
+            return res.blob()
         }
     }
 
@@ -195,9 +160,10 @@ const FileDetailPage: React.FC = () => {
             const blob = await decryptAndGetBlob()
             if (!blob) throw new Error('Could not load file')
 
-            const mime = getMimeFromName(file.name)
+            // Typed from the envelope metadata (or the name, for older files)
+            const mime = blob.type
 
-            if (mime.startsWith('text/') || mime.includes('json') || mime.includes('javascript') || mime.includes('csv') || mime.includes('xml') || mime.includes('markdown') || mime.includes('typescript')) {
+            if (isTextMime(mime)) {
                 const text = await blob.text()
                 setPreviewText(text)
                 setPreviewType('text')
@@ -219,46 +185,50 @@ const FileDetailPage: React.FC = () => {
     }
 
     const handleDelete = async () => {
-        if (!file) return
+        if (!file || !activeAddress) return
         try {
-            const res = await apiCall(`/files/${file.id}`, { method: 'DELETE' })
+            let txId: string | null = null
+            if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+                const result = await fileRegistry.deleteFile(
+                    { address: activeAddress, signer: transactionSigner },
+                    BigInt(file.chainFileId)
+                )
+                txId = result.txId
+            }
+            const res = await apiCall(`/files/${file.id}`, {
+                method: 'DELETE',
+                body: jsonBody<TxRequest>({ txId }),
+            })
             if (res.ok) navigate('/files')
-        } catch (err) {
+        } catch (err: any) {
             console.error('Delete failed:', err)
+            alert('Delete failed: ' + err.message)
         }
     }
 
     const handleShare = async () => {
-        if (!file || !shareAddr) return
+        if (!file || !shareAddr || !activeAddress) return
         setSharing(true)
         try {
-            // Get the encryption key so it can be forwarded to the recipient
-            let encKey: string | null = null
-            try {
-                const keyRes = await apiCall(`/files/${file.id}/key`)
-                if (keyRes.ok) {
-                    const keyData = await keyRes.json()
-                    encKey = keyData.encryptionKey
-                }
-            } catch { }
-
-            const res = await apiCall(`/files/${file.id}/share`, {
-                method: 'POST',
-                body: JSON.stringify({
-                    recipientAddress: shareAddr,
-                    permission: sharePermission,
-                    expiresIn: shareExpiry,
-                }),
-            })
-            if (res.ok) {
-                setShareDialogOpen(false)
-                setShareAddr('')
-                console.log(`✅ File shared with ${shareAddr.substring(0, 12)}... (key included: ${!!encKey}, expiry: ${shareExpiry ? shareExpiry + 's' : 'permanent'})`)
-                alert('File shared successfully!')
-            } else {
-                const errData = await res.json()
-                alert(errData.error || 'Share failed')
-            }
+            const keyChange = await checkPublicKeyChange(activeAddress, shareAddr)
+            if (keyChange && !confirm(
+                `${shareAddr.substring(0, 12)}... has a different encryption key than when you last shared with them.\n\n` +
+                `Previous: ${keyFingerprint(keyChange.previous)}\nCurrent:  ${keyFingerprint(keyChange.current)}\n\n` +
+                'This is expected if they set up a new key, but check with them before sharing. Share anyway?'
+            )) return
+            const keyBytes = await getFileKey()
+            if (!keyBytes) throw new Error('File key not available')
+            await shareFile(
+                { address: activeAddress, signer: transactionSigner },
+                { id: fileId!, chainFileId: file.chainFileId },
+                keyBytes,
+                { recipient: shareAddr, permission: sharePermission, expiresIn: shareExpiry }
+            )
+            setShareDialogOpen(false)
+            setShareAddr('')
+            setSharesRefresh(n => n + 1)
+            console.log(`✅ File shared with ${shareAddr.substring(0, 12)}... (wrapped key included, expiry: ${shareExpiry ? shareExpiry + 's' : 'permanent'})`)
+            alert('File shared successfully!')
         } catch (err: any) {
             alert('Share failed: ' + err.message)
         } finally {
@@ -266,6 +236,34 @@ const FileDetailPage: React.FC = () => {
         }
     }
 
+    // Recipients with write access upload revisions here; the owner uses the versions panel
+    const handleUploadRevision = async (revision: File) => {
+        if (!file || file.isOwner || !activeAddress) return
+        setUploading(true)
+        try {
+            await uploadRevision(
+                { address: activeAddress, signer: transactionSigner },
+                { id: file.fileId, owner: file.owner, chainFileId: file.chainFileId, groupId: null, shareId: file.id },
+                revision,
+                setEncryptProgress
+            )
+            await loadMeta()
+            setPreviewType('')
+        } catch (err: any) {
+            console.error('Version upload failed:', err)
+            alert('Upload failed: ' + err.message)
+        } finally {
+            setUploading(false)
+            setEncryptProgress(null)
+        }
+    }
+
+    // A new current version (revision, restore or key rotation) replaces the shown file
+    const handleFileChange = (updated: FileItem) => {
+        setFile({ ...updated, isOwner: true })
+        setPreviewType('')
+    }
+
     if (loading) {
         return (
             <div className="flex flex-col items-center justify-center min-h-[60vh] gap-3 text-muted-foreground">
@@ -288,6 +286,7 @@ const FileDetailPage: React.FC = () => {
     }
 
     const FileIcon = getFileIcon(file.mimeType || getMimeFromName(file.name))
+    const can = (needed: SharePermission) => file.isOwner || hasPermission(file.permission, needed)
 
     return (
         <div className="max-w-4xl mx-auto space-y-6">
@@ -333,7 +332,9 @@ const FileDetailPage: React.FC = () => {
                             {[
                                 { icon: Hash, label: 'IPFS CID', value: file.cid, mono: true },
                                 { icon: User, label: 'Owner', value: file.owner, mono: true },
-                                { icon: Calendar, label: 'Uploaded', value: new Date(file.createdAt).toLocaleString() },
+                                file.isOwner
+                                    ? { icon: Calendar, label: 'Uploaded', value: new Date(file.createdAt).toLocaleString() }
+                                    : { icon: Calendar, label: 'Shared', value: new Date(file.sharedAt).toLocaleString() },
                                 { icon: FileText, label: 'MIME Type', value: getMimeFromName(file.name) },
                                 { icon: Shield, label: 'Encryption', value: 'AES-256-GCM + Shamir (2-of-3)' },
                             ].map((row) => (
@@ -353,9 +354,11 @@ const FileDetailPage: React.FC = () => {
 
                         {/* Actions */}
                         <div className="flex flex-wrap gap-3">
-                            <Button onClick={handleDownload}>
-                                <Download size={16} /> Download
-                            </Button>
+                            {can('download') && (
+                                <Button onClick={handleDownload}>
+                                    <Download size={16} /> Download
+                                </Button>
+                            )}
                             <Button
                                 variant="outline"
                                 onClick={handlePreview}
@@ -364,16 +367,38 @@ const FileDetailPage: React.FC = () => {
                                 {previewLoading ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
                                 Preview
                             </Button>
-                            <Button variant="outline" onClick={() => setShareDialogOpen(!shareDialogOpen)}>
-                                <Share2 size={16} /> Share
-                            </Button>
-                            <Button
-                                variant="outline"
-                                className="text-destructive hover:bg-destructive/10"
-                                onClick={handleDelete}
-                            >
-                                <Trash2 size={16} /> Delete
-                            </Button>
+                            {can('reshare') && (
+                                <Button variant="outline" onClick={() => setShareDialogOpen(!shareDialogOpen)}>
+                                    <Share2 size={16} /> Share
+                                </Button>
+                            )}
+                            {!file.isOwner && can('write') && (
+                                <>
+                                    <input
+                                        ref={revisionInputRef}
+                                        type="file"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const revision = e.target.files?.[0]
+                                            e.target.value = ''
+                                            if (revision) handleUploadRevision(revision)
+                                        }}
+                                    />
+                                    <Button variant="outline" onClick={() => revisionInputRef.current?.click()} disabled={uploading}>
+                                        {uploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                                        {encryptProgress !== null ? `Encrypting... ${encryptProgress}%` : 'Upload Revision'}
+                                    </Button>
+                                </>
+                            )}
+                            {file.isOwner && (
+                                <Button
+                                    variant="outline"
+                                    className="text-destructive hover:bg-destructive/10"
+                                    onClick={handleDelete}
+                                >
+                                    <Trash2 size={16} /> Delete
+                                </Button>
+                            )}
                         </div>
 
                         {/* Inline Share Form */}
@@ -397,13 +422,17 @@ const FileDetailPage: React.FC = () => {
                                     />
                                     <select
                                         value={sharePermission}
-                                        onChange={(e) => setSharePermission(e.target.value)}
+                                        onChange={(e) => setSharePermission(e.target.value as SharePermission)}
                                         className="bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm"
                                     >
-                                        <option value="read">Read</option>
-                                        <option value="write">Write</option>
+                                        {SHARE_PERMISSIONS.map((p) => (
+                                            <option key={p} value={p}>{PERMISSION_LABELS[p]}</option>
+                                        ))}
                                     </select>
                                 </div>
+                                {sharePermission === 'view' && (
+                                    <p className="text-xs text-muted-foreground">{VIEW_ONLY_NOTE}</p>
+                                )}
                                 <div className="flex items-center gap-2">
                                     <Clock size={14} className="text-muted-foreground shrink-0" />
                                     <span className="text-xs text-muted-foreground shrink-0">Expires in:</span>
@@ -482,6 +511,20 @@ const FileDetailPage: React.FC = () => {
                 </motion.div>
             )}
 
+            {/* Access, Public Links and Version History */}
+            {file.isOwner && (
+                <motion.div
+                    initial={{ opacity: 0, y: 12 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.05 }}
+                    className="space-y-6"
+                >
+                    <FileSharesPanel file={file} refresh={sharesRefresh} onChange={handleFileChange} />
+                    <PublicLinksPanel file={file} />
+                    <FileVersionsPanel file={file} onChange={handleFileChange} />
+                </motion.div>
+            )}
+
             {/* Audit Trail */}
             {auditEvents.length > 0 && (
                 <motion.div
@@ -508,6 +551,17 @@ const FileDetailPage: React.FC = () => {
                                     <span className="text-xs font-mono text-muted-foreground truncate">
                                         {event.actor?.substring(0, 12)}...
                                     </span>
+                                    {event.onChain && event.txId && (
+                                        <a
+                                            href={explorerTxUrl(event.txId)}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="ml-auto text-[10px] text-primary hover:underline shrink-0"
+                                            title="Recorded by a contract event"
+                                        >
+                                            on-chain
+                                        </a>
+                                    )}
                                 </div>
                             ))}
                         </CardContent>
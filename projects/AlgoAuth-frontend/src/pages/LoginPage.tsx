@@ -6,11 +6,13 @@ import { Lock, Users, Loader2, ChevronRight } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { apiCall } from '@/lib/contractClient'
+import { apiCall, jsonBody, readJson } from '@/lib/contractClient'
+import { signAuthMessage } from '@/lib/walletAuth'
 import logoImg from '@/assets/removed_bg-removebg-preview.png'
+import type { ErrorResponse, NonceResponse, VerifyRequest, VerifyResponse } from '../../shared/api'
 
 const LoginPage: React.FC = () => {
-    const { wallets, activeAddress } = useWallet()
+    const { wallets, activeAddress, signTransactions } = useWallet()
     const navigate = useNavigate()
     const [isAuthenticating, setIsAuthenticating] = useState(false)
     const [error, setError] = useState('')
@@ -24,25 +26,27 @@ const LoginPage: React.FC = () => {
             const nonceRes = await apiCall(`/auth/nonce/${activeAddress}`, {
                 method: 'GET',
             })
-            const { nonce, message } = await nonceRes.json()
+            if (!nonceRes.ok) throw new Error('Could not obtain a sign-in nonce')
+            const { nonce, message } = await readJson<NonceResponse>(nonceRes)
+
+            // Wallet signs a zero-fee self-payment whose note is the nonce message
+            const signedTxn = await signAuthMessage(activeAddress, message, signTransactions)
 
             const verifyRes = await apiCall('/auth/verify', {
                 method: 'POST',
-                body: JSON.stringify({ address: activeAddress, nonce, message }),
+                body: jsonBody<VerifyRequest>({ address: activeAddress, nonce, signedTxn }),
             })
 
-            if (!verifyRes.ok) throw new Error('Authentication failed')
-            const { token } = await verifyRes.json()
+            if (!verifyRes.ok) {
+                const errData = await readJson<Partial<ErrorResponse>>(verifyRes).catch(() => ({}) as Partial<ErrorResponse>)
+                throw new Error(errData.error || 'Authentication failed')
+            }
+            const { token } = await readJson<VerifyResponse>(verifyRes)
             localStorage.setItem('blocksafe_jwt', token)
             navigate('/dashboard')
         } catch (err: any) {
             console.error('Auth error:', err)
-            if (err.message?.includes('Failed to fetch') || err.message?.includes('NetworkError')) {
-                localStorage.setItem('blocksafe_jwt', 'dev-mode-token')
-                navigate('/dashboard')
-            } else {
-                setError(err.message || 'Authentication failed')
-            }
+            setError(err.message || 'Authentication failed')
         } finally {
             setIsAuthenticating(false)
         }
@@ -26,20 +26,19 @@ import {
     DialogHeader,
     DialogTitle,
 } from '@/components/ui/dialog'
-import { encryptFile } from '@/lib/encryption'
-import { splitSecret, shareToHex } from '@/lib/shamirSecretSharing'
-import { apiCall } from '@/lib/contractClient'
-
-interface FileItem {
-    id: string
-    name: string
-    cid: string
-    owner: string
-    size: number
-    mimeType: string
-    createdAt: number
-    isDeleted: boolean
-}
+import { bytesToHex, encryptFile } from '@/lib/encryption'
+import { cacheFileKey, requireKeyPair, wrapFileKey } from '@/lib/fileKeys'
+import { apiCall, jsonBody, readJson, uploadFormData } from '@/lib/contractClient'
+import * as fileRegistry from '@/lib/fileRegistryService'
+import type {
+    ErrorResponse,
+    FileItem,
+    ListFilesResponse,
+    RegisterFileOnChainRequest,
+    TxRequest,
+    UnpinRequest,
+    UploadFileResponse,
+} from '../../shared/api'
 
 function formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B'
@@ -50,10 +49,11 @@ function formatBytes(bytes: number): string {
 }
 
 const MyFilesPage: React.FC = () => {
-    const { activeAddress } = useWallet()
+    const { activeAddress, transactionSigner } = useWallet()
     const navigate = useNavigate()
     const [files, setFiles] = useState<FileItem[]>([])
     const [isUploading, setIsUploading] = useState(false)
+    const [encryptProgress, setEncryptProgress] = useState<number | null>(null)
     const [uploadDialogOpen, setUploadDialogOpen] = useState(false)
     const [searchQuery, setSearchQuery] = useState('')
     const [dragOver, setDragOver] = useState(false)
@@ -66,8 +66,8 @@ const MyFilesPage: React.FC = () => {
             try {
                 const res = await apiCall('/files')
                 if (res.ok) {
-                    const data = await res.json()
-                    setFiles(data.files || [])
+                    const data = await readJson<ListFilesResponse>(res)
+                    setFiles(data.files)
                 }
             } catch {
                 // ignore — server might be down
@@ -83,25 +83,25 @@ const MyFilesPage: React.FC = () => {
         setIsUploading(true)
 
         try {
-            // 1. Read the file
-            const fileData = await file.arrayBuffer()
+            const keyPair = requireKeyPair(activeAddress)
 
-            // 2. Encrypt the file with AES-256-GCM
-            const { encrypted, keyBytes } = await encryptFile(fileData)
+            // 1. Encrypt the file with AES-256-GCM, streaming it chunk by chunk
+            const { encrypted, keyBytes } = await encryptFile(file, (done, total) =>
+                setEncryptProgress(total ? Math.round((done / total) * 100) : 100)
+            )
+            setEncryptProgress(null)
 
-            // 3. Split the AES key using Shamir (2-of-3)
-            const shares = splitSecret(keyBytes, 3, 2)
-            const shareHexes = shares.map(shareToHex)
+            // 2. Wrap the AES key to our own X25519 key — the server never sees it in the clear
+            const wrappedKey = wrapFileKey(keyBytes, keyPair.publicKey, keyPair)
 
-            // 4. Convert key to hex for storage
-            const keyHex = Array.from(keyBytes).map((b: number) => b.toString(16).padStart(2, '0')).join('')
+            // 3. Convert key to hex for the session cache
+            const keyHex = bytesToHex(keyBytes)
 
-            // 5. Upload encrypted file to IPFS via API
-            const formData = new FormData()
-            formData.append('file', new Blob([encrypted.buffer as ArrayBuffer]), file.name + '.enc')
-            formData.append('filename', file.name)
-            formData.append('encryptionKey', keyHex)
-            formData.append('shares', JSON.stringify(shareHexes))
+            // 4. Upload encrypted file to IPFS via API
+            const formData = uploadFormData(encrypted, file.name + '.enc', {
+                filename: file.name,
+                wrappedKey,
+            })
 
             const uploadRes = await apiCall('/files/upload', {
                 method: 'POST',
@@ -111,15 +111,47 @@ const MyFilesPage: React.FC = () => {
             })
 
             if (!uploadRes.ok) {
-                const errData = await uploadRes.json()
+                const errData = await readJson<ErrorResponse>(uploadRes)
                 throw new Error(errData.error || 'Upload failed')
             }
 
-            const newFile = await uploadRes.json()
+            const newFile = await readJson<UploadFileResponse>(uploadRes)
 
-            // 6. Store the encryption key locally for preview/download
-            sessionStorage.setItem(`key_${newFile.cid}`, keyHex)
-            sessionStorage.setItem(`key_${newFile.id}`, keyHex)
+            // 5. Store the encryption key locally for preview/download
+            cacheFileKey(newFile.cid, keyHex)
+
+            // 6. Register the file in the FileRegistry contract. Shares and links are
+            // checked against the registration, so an upload the server could not link
+            // to one is rolled back, on-chain too when the registration went through.
+            if (fileRegistry.isFileRegistryEnabled()) {
+                const sender = { address: activeAddress, signer: transactionSigner }
+                let chainFileId: bigint | null = null
+                try {
+                    const registered = await fileRegistry.registerFile(sender, { cid: newFile.cid, filename: file.name })
+                    chainFileId = registered.value
+                    const chainRes = await apiCall(`/files/${newFile.id}/chain`, {
+                        method: 'POST',
+                        body: jsonBody<RegisterFileOnChainRequest>({ chainFileId: chainFileId.toString(), txId: registered.txId }),
+                    })
+                    if (!chainRes.ok) {
+                        const errData = await readJson<ErrorResponse>(chainRes)
+                        throw new Error(errData.error || 'The server could not record the on-chain registration')
+                    }
+                } catch (err) {
+                    let txId: string | null = null
+                    if (chainFileId !== null) {
+                        try {
+                            txId = (await fileRegistry.deleteFile(sender, chainFileId)).txId
+                        } catch (deleteErr) {
+                            console.error('Could not delete the on-chain registration:', deleteErr)
+                        }
+                    }
+                    await apiCall(`/files/${newFile.id}`, { method: 'DELETE', body: jsonBody<TxRequest>({ txId }) })
+                    await apiCall('/files/unpin', { method: 'POST', body: jsonBody<UnpinRequest>({ cid: newFile.cid }) })
+                    throw err
+                }
+                newFile.chainFileId = chainFileId.toString()
+            }
 
             setFiles((prev) => [newFile, ...prev])
             setUploadDialogOpen(false)
@@ -128,17 +160,31 @@ const MyFilesPage: React.FC = () => {
             alert('Upload failed: ' + err.message)
         } finally {
             setIsUploading(false)
+            setEncryptProgress(null)
         }
-    }, [activeAddress])
+    }, [activeAddress, transactionSigner])
 
-    const handleDelete = async (fileId: string) => {
+    const handleDelete = async (file: FileItem) => {
+        if (!activeAddress) return
         try {
-            const res = await apiCall(`/files/${fileId}`, { method: 'DELETE' })
+            let txId: string | null = null
+            if (file.chainFileId && fileRegistry.isFileRegistryEnabled()) {
+                const result = await fileRegistry.deleteFile(
+                    { address: activeAddress, signer: transactionSigner },
+                    BigInt(file.chainFileId)
+                )
+                txId = result.txId
+            }
+            const res = await apiCall(`/files/${file.id}`, {
+                method: 'DELETE',
+                body: jsonBody<TxRequest>({ txId }),
+            })
             if (res.ok) {
-                setFiles((prev) => prev.filter((f) => f.id !== fileId))
+                setFiles((prev) => prev.filter((f) => f.id !== file.id))
             }
-        } catch (err) {
+        } catch (err: any) {
             console.error('Delete failed:', err)
+            alert('Delete failed: ' + err.message)
         }
     }
 
@@ -201,7 +247,9 @@ const MyFilesPage: React.FC = () => {
                         {isUploading ? (
                             <div className="flex flex-col items-center gap-3">
                                 <Loader2 size={40} className="text-primary animate-spin" />
-                                <p className="text-sm text-muted-foreground">Encrypting & uploading...</p>
+                                <p className="text-sm text-muted-foreground">
+                                    {encryptProgress !== null ? `Encrypting... ${encryptProgress}%` : 'Uploading...'}
+                                </p>
                             </div>
                         ) : (
                             <>
@@ -293,7 +341,7 @@ const MyFilesPage: React.FC = () => {
                                             variant="ghost"
                                             size="icon"
                                             className="h-8 w-8 hover:text-destructive"
-                                            onClick={() => handleDelete(file.id)}
+                                            onClick={() => handleDelete(file)}
                                             title="Delete"
                                         >
                                             <Trash2 size={16} />
@@ -313,6 +361,8 @@ const MyFilesPage: React.FC = () => {
                     onClose={() => setPublicLinkFile(null)}
                     fileId={publicLinkFile.id}
                     fileName={publicLinkFile.name}
+                    cid={publicLinkFile.cid}
+                    chainFileId={publicLinkFile.chainFileId}
                 />
             )}
         </div>
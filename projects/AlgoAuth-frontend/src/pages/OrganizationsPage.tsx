@@ -26,20 +26,26 @@ import {
     DialogFooter,
 } from '@/components/ui/dialog'
 import { encryptFile } from '@/lib/encryption'
-import { splitSecret, shareToHex } from '@/lib/shamirSecretSharing'
-import { apiCall } from '@/lib/contractClient'
+import { cacheFileKey, requireKeyPair, wrapFileKey } from '@/lib/fileKeys'
+import { createGroupKey, sealForGroup } from '@/lib/groupKeys'
+import { apiCall, jsonBody, readJson, uploadFormData } from '@/lib/contractClient'
+import * as fileRegistry from '@/lib/fileRegistryService'
+import * as groupRegistry from '@/lib/groupRegistryService'
 import ManageMembersSheet from '@/components/ManageMembersSheet'
-
-interface Group {
-    id: string
-    name: string
-    creator: string
-    members: { address: string; role: string; status: string }[]
-    createdAt: number
-}
+import type {
+    CreateGroupRequest,
+    ErrorResponse,
+    Group,
+    GroupMember,
+    ListGroupsResponse,
+    RegisterFileOnChainRequest,
+    TxRequest,
+    UploadFileResponse,
+} from '../../shared/api'
+import { canUploadToGroup } from '../../shared/api'
 
 const OrganizationsPage: React.FC = () => {
-    const { activeAddress } = useWallet()
+    const { activeAddress, transactionSigner } = useWallet()
     const [searchQuery, setSearchQuery] = useState('')
     const [createOpen, setCreateOpen] = useState(false)
     const [newGroupName, setNewGroupName] = useState('')
@@ -52,34 +58,65 @@ const OrganizationsPage: React.FC = () => {
 
     useEffect(() => {
         loadGroups()
-    }, [])
+    }, [activeAddress])
+
+    /**
+     * Replace the server's view of each member with the GroupRegistry state,
+     * dropping anyone the contract no longer lists
+     */
+    const reconcileWithChain = async (group: Group): Promise<Group> => {
+        if (!activeAddress || !groupRegistry.isOnChainGroupId(group.id)) return group
+        const sender = { address: activeAddress, signer: transactionSigner }
+        const members = await Promise.all(
+            group.members.map(async (m) => {
+                const onChain = await groupRegistry.getMembership(sender, BigInt(group.id), m.address)
+                return onChain.status === 'none' ? null : { ...m, status: onChain.status, role: onChain.role }
+            })
+        )
+        return { ...group, members: members.filter((m): m is GroupMember => m !== null) }
+    }
 
     const loadGroups = async () => {
         try {
             const res = await apiCall('/groups')
             if (res.ok) {
-                const data = await res.json()
-                setGroups(data.groups || [])
+                const data = await readJson<ListGroupsResponse>(res)
+                let loaded = data.groups
+                if (groupRegistry.isGroupRegistryEnabled()) {
+                    loaded = await Promise.all(loaded.map((g) => reconcileWithChain(g).catch(() => g)))
+                    loaded = loaded.filter((g) => g.members.some((m) => m.address === activeAddress))
+                }
+                setGroups(loaded)
             }
         } catch { }
         setLoading(false)
     }
 
     const handleCreateGroup = async () => {
-        if (!newGroupName.trim()) return
+        if (!newGroupName.trim() || !activeAddress) return
         setCreating(true)
         try {
+            // The group's first content key, wrapped to us; invites hand it on
+            const memberKey = await createGroupKey(activeAddress)
+            let chain: { groupId: string; txId: string } | null = null
+            if (groupRegistry.isGroupRegistryEnabled()) {
+                const { txId, value } = await groupRegistry.createGroup(
+                    { address: activeAddress, signer: transactionSigner },
+                    newGroupName.trim()
+                )
+                chain = { groupId: value.toString(), txId }
+            }
             const res = await apiCall('/groups', {
                 method: 'POST',
-                body: JSON.stringify({ name: newGroupName.trim() }),
+                body: jsonBody<CreateGroupRequest>({ name: newGroupName.trim(), memberKey, ...chain }),
             })
             if (res.ok) {
-                const newGroup = await res.json()
+                const newGroup = await readJson<Group>(res)
                 setGroups((prev) => [newGroup, ...prev])
                 setNewGroupName('')
                 setCreateOpen(false)
             } else {
-                const err = await res.json()
+                const err = await readJson<ErrorResponse>(res)
                 alert(err.error || 'Create failed')
             }
         } catch (err: any) {
@@ -90,12 +127,24 @@ const OrganizationsPage: React.FC = () => {
     }
 
     const handleAcceptInvite = async (groupId: string) => {
+        if (!activeAddress) return
         try {
-            const res = await apiCall(`/groups/${groupId}/accept`, { method: 'POST' })
+            let txId: string | null = null
+            if (groupRegistry.isOnChainGroupId(groupId) && groupRegistry.isGroupRegistryEnabled()) {
+                const result = await groupRegistry.acceptInvite(
+                    { address: activeAddress, signer: transactionSigner },
+                    BigInt(groupId)
+                )
+                txId = result.txId
+            }
+            const res = await apiCall(`/groups/${groupId}/accept`, {
+                method: 'POST',
+                body: jsonBody<TxRequest>({ txId }),
+            })
             if (res.ok) {
                 await loadGroups()
             } else {
-                const err = await res.json()
+                const err = await readJson<ErrorResponse>(res)
                 alert(err.error || 'Accept failed')
             }
         } catch (err: any) {
@@ -106,11 +155,14 @@ const OrganizationsPage: React.FC = () => {
     const handleDeclineInvite = async (groupId: string) => {
         if (!activeAddress) return
         try {
-            const res = await apiCall(`/groups/${groupId}/members/${activeAddress}`, { method: 'DELETE' })
+            if (groupRegistry.isOnChainGroupId(groupId) && groupRegistry.isGroupRegistryEnabled()) {
+                await groupRegistry.rejectInvite({ address: activeAddress, signer: transactionSigner }, BigInt(groupId))
+            }
+            const res = await apiCall(`/groups/${groupId}/reject`, { method: 'POST' })
             if (res.ok) {
                 setGroups(prev => prev.filter(g => g.id !== groupId))
             } else {
-                const err = await res.json()
+                const err = await readJson<ErrorResponse>(res)
                 alert(err.error || 'Decline failed')
             }
         } catch (err: any) {
@@ -122,22 +174,21 @@ const OrganizationsPage: React.FC = () => {
         if (!activeAddress) return
         setUploadingGroupId(groupId)
         try {
-            // 1. Read & encrypt
-            const fileData = await file.arrayBuffer()
-            const { encrypted, keyBytes } = await encryptFile(fileData)
+            // 1. Encrypt, streaming the file chunk by chunk
+            const { encrypted, keyBytes } = await encryptFile(file)
 
-            // 2. Split key via Shamir (2-of-3)
-            const shares = splitSecret(keyBytes, 3, 2)
-            const shareHexes = shares.map(shareToHex)
+            // 2. Seal the file key under the group key (rotating it first if a member left)
+            const groupKey = await sealForGroup(activeAddress, groupId, keyBytes)
             const keyHex = Array.from(keyBytes).map((b: number) => b.toString(16).padStart(2, '0')).join('')
+            const keyPair = requireKeyPair(activeAddress)
 
             // 3. Upload with groupId
-            const formData = new FormData()
-            formData.append('file', new Blob([encrypted.buffer as ArrayBuffer]), file.name + '.enc')
-            formData.append('filename', file.name)
-            formData.append('encryptionKey', keyHex)
-            formData.append('shares', JSON.stringify(shareHexes))
-            formData.append('groupId', groupId)
+            const formData = uploadFormData(encrypted, file.name + '.enc', {
+                filename: file.name,
+                wrappedKey: wrapFileKey(keyBytes, keyPair.publicKey, keyPair),
+                groupKey,
+                groupId,
+            })
 
             const uploadRes = await apiCall('/files/upload', {
                 method: 'POST',
@@ -146,13 +197,32 @@ const OrganizationsPage: React.FC = () => {
             })
 
             if (!uploadRes.ok) {
-                const errData = await uploadRes.json()
+                const errData = await readJson<ErrorResponse>(uploadRes)
                 throw new Error(errData.error || 'Upload failed')
             }
 
-            const newFile = await uploadRes.json()
-            sessionStorage.setItem(`key_${newFile.cid}`, keyHex)
-            sessionStorage.setItem(`key_${newFile.id}`, keyHex)
+            const newFile = await readJson<UploadFileResponse>(uploadRes)
+            cacheFileKey(newFile.cid, keyHex)
+
+            // 4. Register the file in the FileRegistry contract under the on-chain group
+            if (fileRegistry.isFileRegistryEnabled()) {
+                const { txId, value: chainFileId } = await fileRegistry.registerFile(
+                    { address: activeAddress, signer: transactionSigner },
+                    {
+                        cid: newFile.cid,
+                        filename: file.name,
+                        groupId: groupRegistry.isOnChainGroupId(groupId) ? BigInt(groupId) : 0n,
+                    }
+                )
+                const chainRes = await apiCall(`/files/${newFile.id}/chain`, {
+                    method: 'POST',
+                    body: jsonBody<RegisterFileOnChainRequest>({ chainFileId: chainFileId.toString(), txId }),
+                })
+                if (!chainRes.ok) {
+                    const errData = await readJson<ErrorResponse>(chainRes)
+                    throw new Error(errData.error || 'The server could not record the on-chain registration')
+                }
+            }
 
             console.log(`📁 File uploaded to group ${groupId}: ${file.name}`)
             alert(`File "${file.name}" uploaded to group successfully!`)
@@ -247,11 +317,10 @@ const OrganizationsPage: React.FC = () => {
                     </div>
                 ) : (
                     filteredGroups.map((group, i) => {
-                        const isAdmin = group.members?.some(
-                            (m) => m.address === activeAddress && m.role === 'admin'
-                        )
                         const myMembership = group.members?.find(m => m.address === activeAddress)
+                        const isOwner = myMembership?.role === 'owner'
                         const isInvited = myMembership?.status === 'invited'
+                        const canUpload = !!myMembership && canUploadToGroup(myMembership.role)
                         return (
                             <motion.div
                                 key={group.id}
@@ -267,7 +336,7 @@ const OrganizationsPage: React.FC = () => {
                                         <div className="flex-1 min-w-0">
                                             <div className="flex items-center gap-2">
                                                 <h4 className="text-sm font-semibold truncate">{group.name}</h4>
-                                                {isAdmin && (
+                                                {isOwner && (
                                                     <Crown size={12} className="text-amber-400 shrink-0" />
                                                 )}
                                             </div>
@@ -281,8 +350,8 @@ const OrganizationsPage: React.FC = () => {
                                                         Pending Invitation
                                                     </Badge>
                                                 ) : (
-                                                    <Badge variant="outline" className="text-[10px]">
-                                                        {isAdmin ? 'Admin' : 'Member'}
+                                                    <Badge variant="outline" className="text-[10px] capitalize">
+                                                        {myMembership?.role}
                                                     </Badge>
                                                 )}
                                             </div>
@@ -311,29 +380,31 @@ const OrganizationsPage: React.FC = () => {
                                                 </>
                                             ) : (
                                                 <>
-                                                    <Button
-                                                        variant="ghost"
-                                                        size="icon"
-                                                        className="h-8 w-8 hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity"
-                                                        onClick={() => {
-                                                            // Trigger a hidden file input for this group
-                                                            const input = document.createElement('input')
-                                                            input.type = 'file'
-                                                            input.onchange = (e: any) => {
-                                                                const f = e.target.files?.[0]
-                                                                if (f) handleGroupFileUpload(f, group.id)
-                                                            }
-                                                            input.click()
-                                                        }}
-                                                        disabled={uploadingGroupId === group.id}
-                                                        title="Upload File to Group"
-                                                    >
-                                                        {uploadingGroupId === group.id ? (
-                                                            <Loader2 size={16} className="animate-spin" />
-                                                        ) : (
-                                                            <Upload size={16} />
-                                                        )}
-                                                    </Button>
+                                                    {canUpload && (
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8 hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity"
+                                                            onClick={() => {
+                                                                // Trigger a hidden file input for this group
+                                                                const input = document.createElement('input')
+                                                                input.type = 'file'
+                                                                input.onchange = (e: any) => {
+                                                                    const f = e.target.files?.[0]
+                                                                    if (f) handleGroupFileUpload(f, group.id)
+                                                                }
+                                                                input.click()
+                                                            }}
+                                                            disabled={uploadingGroupId === group.id}
+                                                            title="Upload File to Group"
+                                                        >
+                                                            {uploadingGroupId === group.id ? (
+                                                                <Loader2 size={16} className="animate-spin" />
+                                                            ) : (
+                                                                <Upload size={16} />
+                                                            )}
+                                                        </Button>
+                                                    )}
                                                     <Button
                                                         variant="ghost"
                                                         size="icon"
@@ -1,19 +1,16 @@
 import React, { useEffect, useState } from 'react'
-import { useParams } from 'react-router-dom'
+import { useLocation, useParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { Shield, Download, FileText, Loader2, AlertCircle, CheckCircle2, User, Clock, Eye, FileImage } from 'lucide-react'
+import { Shield, Download, FileText, Loader2, AlertCircle, CheckCircle2, User, Clock, Eye, FileImage, Lock } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { decryptFile } from '@/lib/encryption'
-
-interface PublicFileInfo {
-    name: string
-    cid: string
-    size: number
-    mimeType: string
-    owner: string
-}
+import { readJson } from '@/lib/contractClient'
+import { decryptResponse, hexToBytes } from '@/lib/encryption'
+import { unwrapFileKey } from '@/lib/fileKeys'
+import { getMimeFromName, isTextMime } from '@/lib/mime'
+import { burnerAddress, deriveBurner, parseLinkFragment } from '@/lib/publicLinks'
+import type { ErrorResponse, PublicFileInfo, PublicLinkKeyResponse } from '../../shared/api'
 
 function formatBytes(bytes: number): string {
     if (!bytes) return '—'
@@ -23,48 +20,40 @@ function formatBytes(bytes: number): string {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
 }
 
-function getMimeFromName(name: string): string {
-    const ext = name.replace(/\.enc$/, '').split('.').pop()?.toLowerCase() || ''
-    const mimeMap: Record<string, string> = {
-        pdf: 'application/pdf', png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg',
-        gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml', txt: 'text/plain',
-        md: 'text/markdown', html: 'text/html', css: 'text/css', js: 'application/javascript',
-        json: 'application/json', csv: 'text/csv', xml: 'application/xml',
+// Rebuild the burner from the URL fragment (and password), then fetch and unwrap the file key.
+// The burner is checked against the link first so a wrong password does not use up a download.
+async function unlockLink(linkId: string, fragment: string, info: PublicFileInfo, password: string): Promise<Uint8Array> {
+    const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api'
+
+    // 1. Rebuild the burner keypair locally
+    const salt = info.passwordSalt ? hexToBytes(info.passwordSalt) : null
+    const burner = await deriveBurner(parseLinkFragment(fragment), password, salt)
+    if (burnerAddress(burner) !== info.burnerAddress) {
+        throw new Error(info.passwordSalt ? 'Wrong password' : 'This link is incomplete — copy the full link including the part after #')
     }
-    return mimeMap[ext] || 'application/octet-stream'
+
+    // 2. Fetch the key wrapped to the link's burner (counts as one download)
+    const keyRes = await fetch(`${apiBase}/public/${linkId}/key`)
+    if (!keyRes.ok) {
+        const errData = await readJson<ErrorResponse>(keyRes)
+        throw new Error(errData.error || 'Could not get the file key')
+    }
+    const { wrappedKey } = await readJson<PublicLinkKeyResponse>(keyRes)
+    return unwrapFileKey(wrappedKey, burner)
 }
 
-// Fetch encryption key and decrypt file data
-async function fetchAndDecrypt(linkId: string, cid: string): Promise<{ blob: Blob; keyUsed: boolean }> {
+// Download the encrypted file and decrypt it locally, chunk by chunk as it streams in
+async function fetchAndDecrypt(keyBytes: Uint8Array, cid: string, name: string): Promise<Blob> {
     const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api'
-
-    // 1. Fetch encryption key
-    let keyHex: string | null = null
-    try {
-        const keyRes = await fetch(`${apiBase}/public/${linkId}/key`)
-        if (keyRes.ok) {
-            const keyData = await keyRes.json()
-            keyHex = keyData.encryptionKey
-        }
-    } catch { }
-
-    // 2. Download encrypted file
     const res = await fetch(`${apiBase.replace('/api', '')}/api/files/${cid}/download`)
     if (!res.ok) throw new Error('Download failed')
-    const encryptedData = await res.arrayBuffer()
-
-    // 3. Decrypt if key available
-    if (keyHex) {
-        const keyBytes = new Uint8Array(keyHex.match(/.{1,2}/g)!.map(h => parseInt(h, 16)))
-        const decrypted = await decryptFile(new Uint8Array(encryptedData), keyBytes)
-        const buf = decrypted.buffer.slice(decrypted.byteOffset, decrypted.byteOffset + decrypted.byteLength) as ArrayBuffer
-        return { blob: new Blob([buf]), keyUsed: true }
-    }
-    return { blob: new Blob([encryptedData]), keyUsed: false }
+    const { blob } = await decryptResponse(res, keyBytes, getMimeFromName(name))
+    return blob
 }
 
 const PublicAccessPage: React.FC = () => {
     const { linkId } = useParams()
+    const { hash } = useLocation()
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState('')
     const [fileInfo, setFileInfo] = useState<PublicFileInfo | null>(null)
@@ -73,6 +62,9 @@ const PublicAccessPage: React.FC = () => {
     const [previewText, setPreviewText] = useState<string | null>(null)
     const [previewType, setPreviewType] = useState('')
     const [previewLoading, setPreviewLoading] = useState(false)
+    const [password, setPassword] = useState('')
+    const [unlocking, setUnlocking] = useState(false)
+    const [fileKey, setFileKey] = useState<Uint8Array | null>(null)
 
     useEffect(() => {
         const loadPublicFile = async () => {
@@ -80,10 +72,10 @@ const PublicAccessPage: React.FC = () => {
                 const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api'
                 const res = await fetch(`${apiBase}/public/${linkId}`)
                 if (res.ok) {
-                    const data = await res.json()
-                    setFileInfo(data)
+                    setFileInfo(await readJson<PublicFileInfo>(res))
                 } else if (res.status === 410) {
-                    setError('This link has expired')
+                    const errData = await readJson<ErrorResponse>(res)
+                    setError(errData.error === 'Link has expired' ? 'This link has expired' : 'This link has reached its download limit')
                 } else {
                     setError('Public link not found')
                 }
@@ -96,40 +88,51 @@ const PublicAccessPage: React.FC = () => {
         if (linkId) loadPublicFile()
     }, [linkId])
 
-    const handleDownload = async () => {
+    const handleUnlock = async () => {
         if (!fileInfo || !linkId) return
+        setUnlocking(true)
+        try {
+            setFileKey(await unlockLink(linkId, hash, fileInfo, password))
+        } catch (err: any) {
+            console.error('Unlock error:', err)
+            alert(err.message)
+        } finally {
+            setUnlocking(false)
+        }
+    }
+
+    const handleDownload = async () => {
+        if (!fileInfo || !fileKey) return
         setDownloading(true)
         try {
-            const { blob } = await fetchAndDecrypt(linkId, fileInfo.cid)
-            const mime = getMimeFromName(fileInfo.name)
-            const downloadBlob = new Blob([blob], { type: mime })
-            const url = URL.createObjectURL(downloadBlob)
+            const blob = await fetchAndDecrypt(fileKey, fileInfo.cid, fileInfo.name)
+            const url = URL.createObjectURL(blob)
             const a = document.createElement('a')
             a.href = url
             a.download = fileInfo.name
             a.click()
             URL.revokeObjectURL(url)
-        } catch (err) {
+        } catch (err: any) {
             console.error('Download error:', err)
-            alert('Download failed')
+            alert('Download failed: ' + err.message)
         } finally {
             setDownloading(false)
         }
     }
 
     const handlePreview = async () => {
-        if (!fileInfo || !linkId) return
+        if (!fileInfo || !fileKey) return
         setPreviewLoading(true)
         try {
-            const { blob } = await fetchAndDecrypt(linkId, fileInfo.cid)
-            const mime = getMimeFromName(fileInfo.name)
+            const blob = await fetchAndDecrypt(fileKey, fileInfo.cid, fileInfo.name)
+            const mime = blob.type
 
-            if (mime.startsWith('text/') || mime.includes('json') || mime.includes('javascript') || mime.includes('csv') || mime.includes('xml') || mime.includes('markdown')) {
+            if (isTextMime(mime)) {
                 const text = await blob.text()
                 setPreviewText(text)
                 setPreviewType('text')
             } else if (mime.startsWith('image/')) {
-                setPreviewUrl(URL.createObjectURL(new Blob([blob], { type: mime })))
+                setPreviewUrl(URL.createObjectURL(blob))
                 setPreviewType('image')
             } else if (mime === 'application/pdf') {
                 setPreviewUrl(URL.createObjectURL(new Blob([blob], { type: 'application/pdf' })))
@@ -190,34 +193,63 @@ const PublicAccessPage: React.FC = () => {
                                         <User size={10} />
                                         Shared by {fileInfo.owner?.slice(0, 8)}...
                                     </div>
+                                    {fileInfo.downloadsLeft !== null && (
+                                        <div className="flex items-center justify-center gap-1 mt-1 text-xs text-muted-foreground">
+                                            <Clock size={10} />
+                                            {fileInfo.downloadsLeft} {fileInfo.downloadsLeft === 1 ? 'open' : 'opens'} left
+                                        </div>
+                                    )}
                                 </div>
-                                <div className="flex gap-2">
-                                    <Button
-                                        className="flex-1 bg-gradient-to-r from-primary to-indigo-600 shadow-lg shadow-primary/20"
-                                        onClick={handleDownload}
-                                        disabled={downloading}
-                                    >
-                                        {downloading ? (
-                                            <Loader2 size={16} className="animate-spin" />
-                                        ) : (
-                                            <Download size={16} />
+                                {!fileKey ? (
+                                    <div className="space-y-3">
+                                        {fileInfo.passwordSalt && (
+                                            <input
+                                                type="password"
+                                                placeholder="Link password"
+                                                value={password}
+                                                onChange={(e) => setPassword(e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                                                className="w-full bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+                                            />
                                         )}
-                                        Download
-                                    </Button>
-                                    <Button
-                                        variant="outline"
-                                        className="flex-1"
-                                        onClick={handlePreview}
-                                        disabled={previewLoading}
-                                    >
-                                        {previewLoading ? (
-                                            <Loader2 size={16} className="animate-spin" />
-                                        ) : (
-                                            <Eye size={16} />
-                                        )}
-                                        Preview
-                                    </Button>
-                                </div>
+                                        <Button
+                                            className="w-full bg-gradient-to-r from-primary to-indigo-600 shadow-lg shadow-primary/20"
+                                            onClick={handleUnlock}
+                                            disabled={unlocking || (!!fileInfo.passwordSalt && !password)}
+                                        >
+                                            {unlocking ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />}
+                                            {unlocking ? 'Unlocking...' : 'Open File'}
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            className="flex-1 bg-gradient-to-r from-primary to-indigo-600 shadow-lg shadow-primary/20"
+                                            onClick={handleDownload}
+                                            disabled={downloading}
+                                        >
+                                            {downloading ? (
+                                                <Loader2 size={16} className="animate-spin" />
+                                            ) : (
+                                                <Download size={16} />
+                                            )}
+                                            Download
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            className="flex-1"
+                                            onClick={handlePreview}
+                                            disabled={previewLoading}
+                                        >
+                                            {previewLoading ? (
+                                                <Loader2 size={16} className="animate-spin" />
+                                            ) : (
+                                                <Eye size={16} />
+                                            )}
+                                            Preview
+                                        </Button>
+                                    </div>
+                                )}
 
                                 {/* In-page Preview */}
                                 {previewType && (
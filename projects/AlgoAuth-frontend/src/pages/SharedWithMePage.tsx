@@ -1,28 +1,18 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { useWallet } from '@txnlab/use-wallet-react'
 import { motion } from 'framer-motion'
 import { Share2, Search, Eye, Download, Inbox, Loader2, User, Clock } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import { apiCall } from '@/lib/contractClient'
-import { decryptFile } from '@/lib/encryption'
-import { reconstructSecret, hexToShare } from '@/lib/shamirSecretSharing'
+import { apiCall, readJson } from '@/lib/contractClient'
+import { decryptResponse } from '@/lib/encryption'
+import { getSharedFileKey } from '@/lib/fileKeys'
+import { PERMISSION_LABELS } from '@/lib/fileSharing'
 import DocumentViewer from '@/components/DocumentViewer'
-
-interface SharedFile {
-    id: string
-    fileId: string
-    name: string
-    cid: string
-    size: number
-    mimeType: string
-    owner: string
-    permission: 'read' | 'write'
-    sharedAt: number
-    expiresAt?: number
-}
+import { type ListSharedFilesResponse, type SharedFile, hasPermission } from '../../shared/api'
 
 function formatBytes(bytes: number): string {
     if (!bytes) return '—'
@@ -34,6 +24,7 @@ function formatBytes(bytes: number): string {
 
 const SharedWithMePage: React.FC = () => {
     const navigate = useNavigate()
+    const { activeAddress, transactionSigner } = useWallet()
     const [searchQuery, setSearchQuery] = useState('')
     const [sharedFiles, setSharedFiles] = useState<SharedFile[]>([])
     const [loading, setLoading] = useState(true)
@@ -45,8 +36,8 @@ const SharedWithMePage: React.FC = () => {
             try {
                 const res = await apiCall('/files/shared')
                 if (res.ok) {
-                    const data = await res.json()
-                    setSharedFiles(data.files || [])
+                    const data = await readJson<ListSharedFilesResponse>(res)
+                    setSharedFiles(data.files)
                 }
             } catch { }
             setLoading(false)
@@ -63,47 +54,20 @@ const SharedWithMePage: React.FC = () => {
         setViewerOpen(true)
     }
 
-    // Retrieve key for shared file (Shamir or direct) and decrypt + download
+    // Unwrap the key the owner wrapped for us, then decrypt + download
     const handleDownload = async (file: SharedFile) => {
+        if (!activeAddress) return
         try {
-            // 1. Try getting key via shared endpoint
-            let keyHex: string | null = sessionStorage.getItem(`key_${file.fileId}`) || sessionStorage.getItem(`key_${file.cid}`)
-            if (!keyHex) {
-                const res = await apiCall(`/files/shared/${file.id}/key`)
-                if (res.ok) {
-                    const data = await res.json()
-                    if (data.shares && data.shares.length >= 2) {
-                        console.log(`🔐 Shamir reconstruction for download: ${file.name}`)
-                        const shareArrays = data.shares.map((hex: string) => hexToShare(hex))
-                        const reconstructedKey = reconstructSecret(shareArrays)
-                        keyHex = Array.from(reconstructedKey).map((b: number) => b.toString(16).padStart(2, '0')).join('')
-                        console.log(`✅ Key reconstructed (${data.shares.length}/${data.totalShares} shares used)`)
-                    } else if (data.encryptionKey) {
-                        keyHex = data.encryptionKey
-                    }
-                    if (keyHex) {
-                        sessionStorage.setItem(`key_${file.fileId}`, keyHex)
-                        sessionStorage.setItem(`key_${file.cid}`, keyHex)
-                    }
-                }
-            }
+            // 1. Unwrap the file key with our local X25519 secret key
+            const keyBytes = await getSharedFileKey({ address: activeAddress, signer: transactionSigner }, file)
 
             // 2. Download the encrypted file
             const apiBase = import.meta.env.VITE_API_BASE_URL || '/api'
             const downloadRes = await fetch(`${apiBase.replace('/api', '')}/api/files/${file.cid}/download`)
             if (!downloadRes.ok) throw new Error('Download failed')
-            const encryptedData = await downloadRes.arrayBuffer()
 
-            // 3. Decrypt if we have the key
-            let blob: Blob
-            if (keyHex) {
-                const keyBytes = new Uint8Array(keyHex.match(/.{1,2}/g)!.map(h => parseInt(h, 16)))
-                const decrypted = await decryptFile(new Uint8Array(encryptedData), keyBytes)
-                const buf = decrypted.buffer.slice(decrypted.byteOffset, decrypted.byteOffset + decrypted.byteLength) as ArrayBuffer
-                blob = new Blob([buf])
-            } else {
-                blob = new Blob([encryptedData])
-            }
+            // 3. Decrypt if we have the key, chunk by chunk as it streams in
+            const blob = keyBytes ? (await decryptResponse(downloadRes, keyBytes)).blob : await downloadRes.blob()
 
             // 4. Trigger download
             const url = URL.createObjectURL(blob)
@@ -176,7 +140,12 @@ const SharedWithMePage: React.FC = () => {
                                         <Share2 size={20} className="text-cyan-400" />
                                     </div>
                                     <div className="flex-1 min-w-0">
-                                        <h4 className="text-sm font-semibold truncate">{file.name}</h4>
+                                        <h4
+                                            className="text-sm font-semibold truncate cursor-pointer hover:text-primary"
+                                            onClick={() => navigate(`/files/${file.fileId}`)}
+                                        >
+                                            {file.name}
+                                        </h4>
                                         <div className="flex items-center gap-2 mt-0.5">
                                             <span className="text-xs text-muted-foreground flex items-center gap-1">
                                                 <User size={10} />
@@ -188,12 +157,12 @@ const SharedWithMePage: React.FC = () => {
                                             <Badge
                                                 variant="outline"
                                                 className={
-                                                    file.permission === 'write'
+                                                    hasPermission(file.permission, 'write')
                                                         ? 'text-amber-400 border-amber-500/30 bg-amber-500/10 text-[10px] px-1.5 py-0'
                                                         : 'text-cyan-400 border-cyan-500/30 bg-cyan-500/10 text-[10px] px-1.5 py-0'
                                                 }
                                             >
-                                                {file.permission}
+                                                {PERMISSION_LABELS[file.permission]}
                                             </Badge>
                                             {file.expiresAt && file.expiresAt > 0 ? (
                                                 <Badge
@@ -223,15 +192,17 @@ const SharedWithMePage: React.FC = () => {
                                         >
                                             <Eye size={16} />
                                         </Button>
-                                        <Button
-                                            variant="ghost"
-                                            size="icon"
-                                            className="h-8 w-8 hover:text-emerald-400"
-                                            title="Download"
-                                            onClick={() => handleDownload(file)}
-                                        >
-                                            <Download size={16} />
-                                        </Button>
+                                        {hasPermission(file.permission, 'download') && (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8 hover:text-emerald-400"
+                                                title="Download"
+                                                onClick={() => handleDownload(file)}
+                                            >
+                                                <Download size={16} />
+                                            </Button>
+                                        )}
                                     </div>
                                 </CardContent>
                             </Card>
@@ -249,6 +220,8 @@ const SharedWithMePage: React.FC = () => {
                     fileId={viewerFile.fileId}
                     filename={viewerFile.name}
                     shareId={viewerFile.id}
+                    chainFileId={viewerFile.chainFileId}
+                    canDownload={hasPermission(viewerFile.permission, 'download')}
                 />
             )}
         </div>
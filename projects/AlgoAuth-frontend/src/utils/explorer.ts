@@ -0,0 +1,6 @@
+import { getAlgodConfigFromViteEnvironment } from './network/getAlgoClientConfigs'
+
+export function explorerTxUrl(txId: string): string {
+  const network = getAlgodConfigFromViteEnvironment().network
+  return `https://lora.algokit.io/${network === '' ? 'localnet' : network.toLocaleLowerCase()}/transaction/${txId}`
+}